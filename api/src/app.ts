@@ -16,6 +16,8 @@ import {
   breathingRoutes,
   userRoutes,
   syncRoutes,
+  diaryRoutes,
+  sleepWindowRoutes,
   healthRoutes,
 } from './routes/index.js';
 
@@ -58,6 +60,8 @@ export function createApp(config: AppConfig): Hono {
   app.route('/api/breathing', breathingRoutes);
   app.route('/api/user', userRoutes);
   app.route('/api/sync', syncRoutes);
+  app.route('/api/diary', diaryRoutes);
+  app.route('/api/sleep-window', sleepWindowRoutes);
 
   // Root endpoint
   app.get('/', (c) => {
@@ -88,6 +88,8 @@ function runMigrations(sqlite: Database.Database): void {
       level INTEGER DEFAULT 1,
       streak INTEGER DEFAULT 0,
       longest_streak INTEGER DEFAULT 0,
+      version INTEGER NOT NULL DEFAULT 1,
+      profile_updated_at TEXT,
       last_active_at TEXT,
       created_at TEXT NOT NULL,
       updated_at TEXT NOT NULL
@@ -102,7 +104,8 @@ function runMigrations(sqlite: Database.Database): void {
       cycles INTEGER NOT NULL,
       duration INTEGER NOT NULL,
       completed_at TEXT NOT NULL,
-      synced_at TEXT
+      synced_at TEXT,
+      version INTEGER NOT NULL DEFAULT 1
     );
 
     -- User Badges table
@@ -123,7 +126,8 @@ function runMigrations(sqlite: Database.Database): void {
       status TEXT DEFAULT 'active',
       started_at TEXT NOT NULL,
       completed_at TEXT,
-      expires_at TEXT
+      expires_at TEXT,
+      version INTEGER NOT NULL DEFAULT 1
     );
 
     -- Sync Log table
@@ -134,10 +138,34 @@ function runMigrations(sqlite: Database.Database): void {
       entity_id TEXT NOT NULL,
       action TEXT NOT NULL,
       data TEXT,
+      version INTEGER,
       timestamp INTEGER NOT NULL,
       synced_at TEXT
     );
 
+    -- Sleep Diary Entries table
+    CREATE TABLE IF NOT EXISTS api_diary_entries (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL REFERENCES api_users(id),
+      date TEXT NOT NULL,
+      bedtime TEXT NOT NULL,
+      lights_off_time TEXT NOT NULL,
+      sleep_onset_latency INTEGER NOT NULL,
+      number_of_awakenings INTEGER NOT NULL,
+      wake_after_sleep_onset INTEGER NOT NULL,
+      final_awakening TEXT NOT NULL,
+      out_of_bed_time TEXT NOT NULL,
+      subjective_quality TEXT NOT NULL,
+      morning_alertness INTEGER NOT NULL,
+      notes TEXT,
+      time_in_bed INTEGER NOT NULL,
+      total_sleep_time INTEGER NOT NULL,
+      sleep_efficiency INTEGER NOT NULL,
+      version INTEGER NOT NULL DEFAULT 1,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+
     -- Daily Stats table
     CREATE TABLE IF NOT EXISTS api_daily_stats (
       id TEXT PRIMARY KEY,
@@ -156,7 +184,30 @@ function runMigrations(sqlite: Database.Database): void {
     CREATE INDEX IF NOT EXISTS idx_quests_user_id ON api_user_quests(user_id);
     CREATE INDEX IF NOT EXISTS idx_sync_user_timestamp ON api_sync_log(user_id, timestamp);
     CREATE INDEX IF NOT EXISTS idx_daily_stats_user_date ON api_daily_stats(user_id, date);
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_diary_user_date ON api_diary_entries(user_id, date);
   `);
+
+  // Columns added after the initial schema (sync version counters)
+  addColumnIfMissing(sqlite, 'api_users', 'version', 'INTEGER NOT NULL DEFAULT 1');
+  addColumnIfMissing(sqlite, 'api_users', 'profile_updated_at', 'TEXT');
+  addColumnIfMissing(sqlite, 'api_breathing_sessions', 'version', 'INTEGER NOT NULL DEFAULT 1');
+  addColumnIfMissing(sqlite, 'api_user_quests', 'version', 'INTEGER NOT NULL DEFAULT 1');
+  addColumnIfMissing(sqlite, 'api_sync_log', 'version', 'INTEGER');
+}
+
+/**
+ * Add column to an existing table (CREATE TABLE IF NOT EXISTS skips old databases)
+ */
+function addColumnIfMissing(
+  sqlite: Database.Database,
+  table: string,
+  column: string,
+  definition: string
+): void {
+  const columns = sqlite.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+  if (!columns.some((c) => c.name === column)) {
+    sqlite.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
 }
 
 export { schema };
@@ -5,7 +5,7 @@
  * Designed to work alongside existing bot database.
  */
 
-import { sqliteTable, text, integer } from 'drizzle-orm/sqlite-core';
+import { sqliteTable, text, integer, real, uniqueIndex } from 'drizzle-orm/sqlite-core';
 
 /**
  * Users table
@@ -27,6 +27,10 @@ export const users = sqliteTable('api_users', {
   streak: integer('streak').default(0),
   longestStreak: integer('longest_streak').default(0),
 
+  // Sync (bumped on profile edits only, not on login or XP gain)
+  version: integer('version').notNull().default(1),
+  profileUpdatedAt: text('profile_updated_at'),
+
   // Timestamps
   lastActiveAt: text('last_active_at'),
   createdAt: text('created_at').notNull(),
@@ -48,6 +52,7 @@ export const breathingSessions = sqliteTable('api_breathing_sessions', {
   // Metadata
   completedAt: text('completed_at').notNull(),
   syncedAt: text('synced_at'),
+  version: integer('version').notNull().default(1),
 });
 
 /**
@@ -75,6 +80,7 @@ export const userQuests = sqliteTable('api_user_quests', {
   startedAt: text('started_at').notNull(),
   completedAt: text('completed_at'),
   expiresAt: text('expires_at'),
+  version: integer('version').notNull().default(1),
 });
 
 /**
@@ -84,14 +90,50 @@ export const userQuests = sqliteTable('api_user_quests', {
 export const syncLog = sqliteTable('api_sync_log', {
   id: text('id').primaryKey(),
   userId: text('user_id').notNull().references(() => users.id),
-  entity: text('entity').notNull(), // session, profile, quest, badge
+  entity: text('entity').notNull(), // session, profile, quest, badge, diary
   entityId: text('entity_id').notNull(),
   action: text('action').notNull(), // create, update, delete
   data: text('data'), // JSON
+  version: integer('version'), // entity version after the change
   timestamp: integer('timestamp').notNull(),
   syncedAt: text('synced_at'),
 });
 
+/**
+ * Sleep Diary Entries table
+ * Mirrors ISleepDiaryEntry from the bot; metrics are stored denormalized
+ * so history views do not recompute them.
+ */
+export const diaryEntries = sqliteTable('api_diary_entries', {
+  id: text('id').primaryKey(),
+  userId: text('user_id').notNull().references(() => users.id),
+  date: text('date').notNull(), // YYYY-MM-DD (night of)
+  bedtime: text('bedtime').notNull(), // HH:MM
+  lightsOffTime: text('lights_off_time').notNull(),
+  sleepOnsetLatency: integer('sleep_onset_latency').notNull(), // minutes
+  numberOfAwakenings: integer('number_of_awakenings').notNull(),
+  wakeAfterSleepOnset: integer('wake_after_sleep_onset').notNull(), // minutes
+  finalAwakening: text('final_awakening').notNull(),
+  outOfBedTime: text('out_of_bed_time').notNull(),
+  subjectiveQuality: text('subjective_quality').notNull(),
+  morningAlertness: integer('morning_alertness').notNull(), // 1-5
+  notes: text('notes'),
+
+  // Computed metrics
+  timeInBed: integer('time_in_bed').notNull(),
+  totalSleepTime: integer('total_sleep_time').notNull(),
+  sleepEfficiency: integer('sleep_efficiency').notNull(),
+
+  // Sync
+  version: integer('version').notNull().default(1),
+
+  // Timestamps
+  createdAt: text('created_at').notNull(),
+  updatedAt: text('updated_at').notNull(),
+}, (table) => ({
+  userDateUnique: uniqueIndex('idx_diary_user_date').on(table.userId, table.date),
+}));
+
 /**
  * Daily Stats table
  * Aggregated daily statistics for faster queries
@@ -105,6 +147,61 @@ export const dailyStats = sqliteTable('api_daily_stats', {
   patterns: text('patterns'), // JSON array of pattern IDs
 });
 
+// ========== Bot tables (read-only) ==========
+// Created by the bot's migrations (src/infrastructure/database/migrations)
+// when both processes share one database file; never written by the API.
+
+/**
+ * Bot users table (only the columns needed to resolve Telegram IDs)
+ */
+export const botUsers = sqliteTable('users', {
+  id: integer('id').primaryKey(),
+  externalId: text('external_id').notNull(), // Telegram ID as string
+  deletedAt: text('deleted_at'),
+});
+
+/**
+ * Sleep restriction window history (bot migrations 002 + 008)
+ */
+export const sleepWindowHistory = sqliteTable('sleep_window_history', {
+  id: integer('id').primaryKey(),
+  userId: integer('user_id').notNull(),
+  week: integer('week').notNull(),
+  bedtime: text('bedtime').notNull(), // HH:MM
+  wakeTime: text('wake_time').notNull(), // HH:MM
+  timeInBed: integer('time_in_bed').notNull(), // minutes
+  sleepEfficiencyTarget: real('sleep_efficiency_target'),
+  observedEfficiency: real('observed_efficiency'),
+  adjustment: text('adjustment').notNull(),
+  adjustmentReason: text('adjustment_reason'),
+  createdAt: text('created_at').notNull(), // SQLite datetime('now'), UTC
+  deletedAt: text('deleted_at'),
+});
+
+/**
+ * Bot quest progress (bot migration 005)
+ * objectives_json holds the bot QuestService progress (currentValue, targetValue, expiresAt)
+ */
+export const botUserQuests = sqliteTable('user_quests', {
+  id: integer('id').primaryKey(),
+  userId: integer('user_id').notNull(),
+  questId: text('quest_id').notNull(),
+  status: text('status').notNull(),
+  startedAt: text('started_at'), // SQLite datetime('now'), UTC
+  completedAt: text('completed_at'),
+  objectivesJson: text('objectives_json'),
+});
+
+/**
+ * Bot achievements (bot migration 005); unlocked rows are earned badges
+ */
+export const botAchievements = sqliteTable('achievements', {
+  id: integer('id').primaryKey(),
+  userId: integer('user_id').notNull(),
+  achievementId: text('achievement_id').notNull(),
+  unlockedAt: text('unlocked_at'), // SQLite datetime('now'), UTC
+});
+
 // Type exports for TypeScript
 export type User = typeof users.$inferSelect;
 export type NewUser = typeof users.$inferInsert;
@@ -114,3 +211,6 @@ export type UserBadge = typeof userBadges.$inferSelect;
 export type UserQuest = typeof userQuests.$inferSelect;
 export type SyncLogEntry = typeof syncLog.$inferSelect;
 export type DailyStat = typeof dailyStats.$inferSelect;
+export type DiaryEntry = typeof diaryEntries.$inferSelect;
+export type NewDiaryEntry = typeof diaryEntries.$inferInsert;
+export type SleepWindowRow = typeof sleepWindowHistory.$inferSelect;
@@ -0,0 +1,264 @@
+/**
+ * Diary Routes
+ * ============
+ * Sleep diary CRUD endpoints for Mini App.
+ * One entry per user per night, addressed by date (YYYY-MM-DD).
+ */
+
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { z } from 'zod';
+import { nanoid } from 'nanoid';
+import { eq, and, gte, lte, desc } from 'drizzle-orm';
+import { authMiddleware } from '../middleware/auth.js';
+import { getDatabase, users, diaryEntries, syncLog } from '../db/index.js';
+import {
+  diaryEntrySchema,
+  findDiaryEntry,
+  saveDiaryEntry,
+  deleteDiaryEntry,
+  toSleepDiaryEntry,
+} from '../utils/diary.js';
+import type { ApiResponse, SleepDiaryEntry } from '../types/index.js';
+
+const diary = new Hono();
+
+// Apply auth middleware to all routes
+diary.use('*', authMiddleware);
+
+// Validation schemas
+const dateParamSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD'),
+});
+
+const listQuerySchema = z.object({
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  limit: z.coerce.number().int().min(1).max(366).default(30),
+});
+
+const updateEntrySchema = diaryEntrySchema.omit({ date: true });
+
+/**
+ * Resolve API user for the authenticated Telegram user
+ */
+async function findUser(telegramId: number) {
+  const db = getDatabase();
+  return db.query.users.findFirst({
+    where: eq(users.telegramId, telegramId),
+  });
+}
+
+function userNotFound(): ApiResponse<null> {
+  return {
+    success: false,
+    error: 'User not found',
+    timestamp: Date.now(),
+  };
+}
+
+function entryNotFound(date: string): ApiResponse<null> {
+  return {
+    success: false,
+    error: `No diary entry for ${date}`,
+    timestamp: Date.now(),
+  };
+}
+
+/**
+ * Record diary change so other devices pick it up via /api/sync/changes
+ */
+async function logDiaryChange(
+  userId: string,
+  entityId: string,
+  action: 'create' | 'update' | 'delete',
+  data: Record<string, unknown>,
+  version?: number
+): Promise<void> {
+  const db = getDatabase();
+  await db.insert(syncLog).values({
+    id: nanoid(),
+    userId,
+    entity: 'diary',
+    entityId,
+    action,
+    data: JSON.stringify(data),
+    version,
+    timestamp: Date.now(),
+    syncedAt: new Date().toISOString(),
+  });
+}
+
+/**
+ * GET /api/diary
+ * List diary entries (newest first), optionally within a date range
+ */
+diary.get(
+  '/',
+  zValidator('query', listQuerySchema),
+  async (c) => {
+    const { from, to, limit } = c.req.valid('query');
+    const dbUser = await findUser(c.get('user').telegramId);
+
+    if (!dbUser) {
+      return c.json(userNotFound(), 404);
+    }
+
+    const conditions = [eq(diaryEntries.userId, dbUser.id)];
+    if (from) conditions.push(gte(diaryEntries.date, from));
+    if (to) conditions.push(lte(diaryEntries.date, to));
+
+    const rows = await getDatabase().query.diaryEntries.findMany({
+      where: and(...conditions),
+      orderBy: [desc(diaryEntries.date)],
+      limit,
+    });
+
+    const response: ApiResponse<{ entries: SleepDiaryEntry[] }> = {
+      success: true,
+      data: {
+        entries: rows.map(toSleepDiaryEntry),
+      },
+      timestamp: Date.now(),
+    };
+
+    return c.json(response, 200);
+  }
+);
+
+/**
+ * GET /api/diary/:date
+ * Get diary entry for a night
+ */
+diary.get(
+  '/:date',
+  zValidator('param', dateParamSchema),
+  async (c) => {
+    const { date } = c.req.valid('param');
+    const dbUser = await findUser(c.get('user').telegramId);
+
+    if (!dbUser) {
+      return c.json(userNotFound(), 404);
+    }
+
+    const row = await findDiaryEntry(getDatabase(), dbUser.id, date);
+    if (!row) {
+      return c.json(entryNotFound(date), 404);
+    }
+
+    const response: ApiResponse<SleepDiaryEntry> = {
+      success: true,
+      data: toSleepDiaryEntry(row),
+      timestamp: Date.now(),
+    };
+
+    return c.json(response, 200);
+  }
+);
+
+/**
+ * POST /api/diary
+ * Create diary entry (409 if the night already has one)
+ */
+diary.post(
+  '/',
+  zValidator('json', diaryEntrySchema),
+  async (c) => {
+    const data = c.req.valid('json');
+    const dbUser = await findUser(c.get('user').telegramId);
+
+    if (!dbUser) {
+      return c.json(userNotFound(), 404);
+    }
+
+    const db = getDatabase();
+    if (await findDiaryEntry(db, dbUser.id, data.date)) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: `Diary entry for ${data.date} already exists`,
+        timestamp: Date.now(),
+      };
+      return c.json(response, 409);
+    }
+
+    const entry = await saveDiaryEntry(db, dbUser.id, data);
+    await logDiaryChange(dbUser.id, entry.id, 'create', { ...entry }, entry.version);
+
+    const response: ApiResponse<SleepDiaryEntry> = {
+      success: true,
+      data: entry,
+      timestamp: Date.now(),
+    };
+
+    return c.json(response, 201);
+  }
+);
+
+/**
+ * PUT /api/diary/:date
+ * Replace diary entry for a night
+ */
+diary.put(
+  '/:date',
+  zValidator('param', dateParamSchema),
+  zValidator('json', updateEntrySchema),
+  async (c) => {
+    const { date } = c.req.valid('param');
+    const data = c.req.valid('json');
+    const dbUser = await findUser(c.get('user').telegramId);
+
+    if (!dbUser) {
+      return c.json(userNotFound(), 404);
+    }
+
+    const db = getDatabase();
+    if (!(await findDiaryEntry(db, dbUser.id, date))) {
+      return c.json(entryNotFound(date), 404);
+    }
+
+    const entry = await saveDiaryEntry(db, dbUser.id, { ...data, date });
+    await logDiaryChange(dbUser.id, entry.id, 'update', { ...entry }, entry.version);
+
+    const response: ApiResponse<SleepDiaryEntry> = {
+      success: true,
+      data: entry,
+      timestamp: Date.now(),
+    };
+
+    return c.json(response, 200);
+  }
+);
+
+/**
+ * DELETE /api/diary/:date
+ * Delete diary entry for a night
+ */
+diary.delete(
+  '/:date',
+  zValidator('param', dateParamSchema),
+  async (c) => {
+    const { date } = c.req.valid('param');
+    const dbUser = await findUser(c.get('user').telegramId);
+
+    if (!dbUser) {
+      return c.json(userNotFound(), 404);
+    }
+
+    const deleted = await deleteDiaryEntry(getDatabase(), dbUser.id, date);
+    if (!deleted) {
+      return c.json(entryNotFound(date), 404);
+    }
+
+    await logDiaryChange(dbUser.id, deleted.id, 'delete', { date });
+
+    const response: ApiResponse<{ id: string; date: string }> = {
+      success: true,
+      data: { id: deleted.id, date },
+      timestamp: Date.now(),
+    };
+
+    return c.json(response, 200);
+  }
+);
+
+export default diary;
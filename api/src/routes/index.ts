@@ -8,4 +8,6 @@ export { default as authRoutes } from './auth.js';
 export { default as breathingRoutes } from './breathing.js';
 export { default as userRoutes } from './user.js';
 export { default as syncRoutes } from './sync.js';
+export { default as diaryRoutes } from './diary.js';
+export { default as sleepWindowRoutes } from './sleepWindow.js';
 export { default as healthRoutes, setInitialized } from './health.js';
@@ -0,0 +1,49 @@
+/**
+ * Sleep Window Routes
+ * ===================
+ * Current and past sleep restriction windows for Mini App.
+ * Each window carries the sleep efficiency that triggered the adjustment.
+ */
+
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { z } from 'zod';
+import { authMiddleware } from '../middleware/auth.js';
+import { findSleepWindows, SLEEP_WINDOW_HISTORY_LIMIT } from '../utils/sleepWindow.js';
+import type { ApiResponse, SleepWindowResponse } from '../types/index.js';
+
+const sleepWindow = new Hono();
+
+// Apply auth middleware to all routes
+sleepWindow.use('*', authMiddleware);
+
+// Validation schemas
+const historyQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(52).default(SLEEP_WINDOW_HISTORY_LIMIT),
+});
+
+/**
+ * GET /api/sleep-window
+ * Current prescribed window and adjustment history (newest first)
+ */
+sleepWindow.get(
+  '/',
+  zValidator('query', historyQuerySchema),
+  async (c) => {
+    const { limit } = c.req.valid('query');
+    const history = findSleepWindows(c.get('user').telegramId, limit);
+
+    const response: ApiResponse<SleepWindowResponse> = {
+      success: true,
+      data: {
+        current: history[0] ?? null,
+        history,
+      },
+      timestamp: Date.now(),
+    };
+
+    return c.json(response, 200);
+  }
+);
+
+export default sleepWindow;
@@ -2,11 +2,12 @@
  * Sync Routes
  * ===========
  * Offline-first sync endpoints for Mini App.
+ * Conflict policies per entity are documented in utils/sync.ts.
  */
 
 import { Hono } from 'hono';
 import { zValidator } from '@hono/zod-validator';
-import { z } from 'zod';
+import { z, ZodError } from 'zod';
 import { nanoid } from 'nanoid';
 import { eq, gt, and, desc } from 'drizzle-orm';
 import { authMiddleware } from '../middleware/auth.js';
@@ -15,8 +16,32 @@ import {
   syncLog,
   users,
   breathingSessions,
+  userQuests,
+  userBadges,
+  type BreathingSession,
+  type UserQuest,
 } from '../db/index.js';
-import type { ApiResponse, SyncChange, SyncChangesResponse } from '../types/index.js';
+import {
+  diaryEntrySchema,
+  findDiaryEntry,
+  saveDiaryEntry,
+  deleteDiaryEntry,
+  toSleepDiaryEntry,
+} from '../utils/diary.js';
+import {
+  CONFLICT_POLICIES,
+  isStaleChange,
+  clientWins,
+  toMillis,
+  mergeQuestProgress,
+  orderByClientTimestamp,
+} from '../utils/sync.js';
+import type {
+  ApiResponse,
+  SyncChange,
+  SyncChangesResponse,
+  SyncPushResult,
+} from '../types/index.js';
 
 const sync = new Hono();
 
@@ -24,17 +49,435 @@ const sync = new Hono();
 sync.use('*', authMiddleware);
 
 // Validation schemas
+const pushChangeSchema = z.object({
+  localId: z.string(),
+  entity: z.enum(['session', 'profile', 'quest', 'badge', 'diary']),
+  action: z.enum(['create', 'update', 'delete']),
+  data: z.record(z.unknown()),
+  clientTimestamp: z.number(),
+  serverId: z.string().optional(), // required for session update/delete
+  baseVersion: z.number().int().positive().optional(),
+});
+
 const pushSchema = z.object({
-  changes: z.array(z.object({
-    localId: z.string(),
-    entity: z.enum(['session', 'profile', 'quest', 'badge']),
-    action: z.enum(['create', 'update', 'delete']),
-    data: z.record(z.unknown()),
-    clientTimestamp: z.number(),
-  })),
+  changes: z.array(pushChangeSchema),
   lastSyncTime: z.number(),
 });
 
+const sessionDataSchema = z.object({
+  patternId: z.string(),
+  patternName: z.string(),
+  cycles: z.number().int().min(0),
+  duration: z.number().int().min(0),
+  completedAt: z.string().optional(),
+});
+
+const profileDataSchema = z.object({
+  firstName: z.string().min(1).max(100).optional(),
+  lastName: z.string().max(100).nullable().optional(),
+});
+
+const questDataSchema = z.object({
+  questId: z.string(),
+  progress: z.number().int().min(0),
+  target: z.number().int().positive().optional(),
+  status: z.enum(['active', 'completed', 'expired']).default('active'),
+  completedAt: z.string().nullable().optional(),
+  expiresAt: z.string().nullable().optional(),
+});
+
+const badgeDataSchema = z.object({
+  badgeId: z.string(),
+  earnedAt: z.string().optional(),
+});
+
+type PushChange = z.infer<typeof pushChangeSchema>;
+type Database = ReturnType<typeof getDatabase>;
+
+interface PushContext {
+  db: Database;
+  userId: string;
+  lastSyncTime: number;
+}
+
+/**
+ * Result of applying one change; `log` is set when the server state changed
+ */
+interface ChangeOutcome {
+  result: Omit<SyncPushResult, 'localId'>;
+  log?: {
+    entityId: string;
+    data: Record<string, unknown>;
+    version?: number;
+  };
+}
+
+function unsupported(change: PushChange): Error {
+  return new Error(`Action '${change.action}' is not supported for ${change.entity}`);
+}
+
+function describeError(error: unknown): string {
+  if (error instanceof ZodError) {
+    return error.issues
+      .map((issue) => `${issue.path.join('.') || 'data'}: ${issue.message}`)
+      .join('; ');
+  }
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+function sessionToData(row: BreathingSession): Record<string, unknown> {
+  return {
+    id: row.id,
+    patternId: row.patternId,
+    patternName: row.patternName,
+    cycles: row.cycles,
+    duration: row.duration,
+    completedAt: row.completedAt,
+    version: row.version,
+  };
+}
+
+function questToData(row: UserQuest): Record<string, unknown> {
+  return {
+    id: row.id,
+    questId: row.questId,
+    progress: row.progress ?? 0,
+    target: row.target,
+    status: row.status ?? 'active',
+    completedAt: row.completedAt,
+    expiresAt: row.expiresAt,
+    version: row.version,
+  };
+}
+
+/**
+ * session: last-writer-wins on update/delete (modifiedAt = syncedAt)
+ */
+async function applySessionChange(ctx: PushContext, change: PushChange): Promise<ChangeOutcome> {
+  const { db, userId } = ctx;
+  const now = new Date().toISOString();
+
+  if (change.action === 'create') {
+    const data = sessionDataSchema.parse(change.data);
+    const row: BreathingSession = {
+      id: nanoid(),
+      userId,
+      ...data,
+      completedAt: data.completedAt || now,
+      syncedAt: now,
+      version: 1,
+    };
+    await db.insert(breathingSessions).values(row);
+
+    return {
+      result: { serverId: row.id, status: 'synced', version: 1 },
+      log: { entityId: row.id, data: sessionToData(row), version: 1 },
+    };
+  }
+
+  if (!change.serverId) {
+    throw new Error(`serverId is required to ${change.action} a session`);
+  }
+
+  const existing = await db.query.breathingSessions.findFirst({
+    where: and(eq(breathingSessions.id, change.serverId), eq(breathingSessions.userId, userId)),
+  });
+
+  if (!existing) {
+    if (change.action === 'delete') {
+      // Already gone: deleting is idempotent
+      return { result: { serverId: change.serverId, status: 'synced' } };
+    }
+    throw new Error(`Session ${change.serverId} not found`);
+  }
+
+  const server = { version: existing.version, modifiedAt: toMillis(existing.syncedAt) };
+  if (isStaleChange(server, change, ctx.lastSyncTime) && !clientWins(server, change)) {
+    return {
+      result: {
+        serverId: existing.id,
+        status: 'conflict',
+        version: existing.version,
+        policy: CONFLICT_POLICIES.session,
+        serverData: sessionToData(existing),
+      },
+    };
+  }
+
+  if (change.action === 'delete') {
+    await db.delete(breathingSessions).where(eq(breathingSessions.id, existing.id));
+    return {
+      result: { serverId: existing.id, status: 'synced' },
+      log: { entityId: existing.id, data: { id: existing.id } },
+    };
+  }
+
+  const data = sessionDataSchema.partial().parse(change.data);
+  const updated: BreathingSession = {
+    ...existing,
+    ...data,
+    completedAt: data.completedAt || existing.completedAt,
+    syncedAt: now,
+    version: existing.version + 1,
+  };
+  await db
+    .update(breathingSessions)
+    .set(updated)
+    .where(eq(breathingSessions.id, existing.id));
+
+  return {
+    result: { serverId: existing.id, status: 'synced', version: updated.version },
+    log: { entityId: existing.id, data: sessionToData(updated), version: updated.version },
+  };
+}
+
+/**
+ * profile: last-writer-wins (modifiedAt = client time of last profile edit)
+ */
+async function applyProfileChange(ctx: PushContext, change: PushChange): Promise<ChangeOutcome> {
+  const { db, userId } = ctx;
+
+  if (change.action !== 'update') {
+    throw unsupported(change);
+  }
+
+  const data = profileDataSchema.parse(change.data);
+  const dbUser = await db.query.users.findFirst({ where: eq(users.id, userId) });
+  if (!dbUser) {
+    throw new Error('User not found');
+  }
+
+  const server = { version: dbUser.version, modifiedAt: toMillis(dbUser.profileUpdatedAt) };
+  if (isStaleChange(server, change, ctx.lastSyncTime) && !clientWins(server, change)) {
+    return {
+      result: {
+        serverId: userId,
+        status: 'conflict',
+        version: dbUser.version,
+        policy: CONFLICT_POLICIES.profile,
+        serverData: { firstName: dbUser.firstName, lastName: dbUser.lastName },
+      },
+    };
+  }
+
+  const version = dbUser.version + 1;
+  const updateData: Partial<typeof users.$inferInsert> = {
+    version,
+    profileUpdatedAt: new Date(change.clientTimestamp).toISOString(),
+    updatedAt: new Date().toISOString(),
+  };
+  if (data.firstName) updateData.firstName = data.firstName;
+  if (data.lastName !== undefined) updateData.lastName = data.lastName;
+
+  await db
+    .update(users)
+    .set(updateData)
+    .where(eq(users.id, userId));
+
+  return {
+    result: { serverId: userId, status: 'synced', version },
+    log: {
+      entityId: userId,
+      data: {
+        firstName: updateData.firstName ?? dbUser.firstName,
+        lastName: updateData.lastName !== undefined ? updateData.lastName : dbUser.lastName,
+      },
+      version,
+    },
+  };
+}
+
+/**
+ * quest: merge progress counters when the client copy is stale
+ */
+async function applyQuestChange(ctx: PushContext, change: PushChange): Promise<ChangeOutcome> {
+  const { db, userId } = ctx;
+  const questId = z.string().parse(change.data.questId);
+
+  const existing = await db.query.userQuests.findFirst({
+    where: and(eq(userQuests.userId, userId), eq(userQuests.questId, questId)),
+  });
+
+  if (change.action === 'delete') {
+    if (!existing) {
+      return { result: { serverId: change.serverId ?? change.localId, status: 'synced' } };
+    }
+    await db.delete(userQuests).where(eq(userQuests.id, existing.id));
+    return {
+      result: { serverId: existing.id, status: 'synced' },
+      log: { entityId: existing.id, data: { id: existing.id, questId } },
+    };
+  }
+
+  const data = questDataSchema.parse(change.data);
+
+  if (!existing) {
+    if (data.target === undefined) {
+      throw new Error('target is required for a new quest');
+    }
+    const row: UserQuest = {
+      id: nanoid(),
+      userId,
+      questId,
+      progress: data.progress,
+      target: data.target,
+      status: data.status,
+      startedAt: new Date().toISOString(),
+      completedAt: data.completedAt ?? null,
+      expiresAt: data.expiresAt ?? null,
+      version: 1,
+    };
+    await db.insert(userQuests).values(row);
+
+    return {
+      result: { serverId: row.id, status: 'synced', version: 1 },
+      log: { entityId: row.id, data: questToData(row), version: 1 },
+    };
+  }
+
+  // Quests carry no edit timestamp, so without baseVersion the counter is always merged
+  const stale = change.baseVersion === undefined || change.baseVersion < existing.version;
+  const serverProgress = {
+    progress: existing.progress ?? 0,
+    status: (existing.status ?? 'active') as 'active' | 'completed' | 'expired',
+    completedAt: existing.completedAt,
+  };
+  const next = stale ? mergeQuestProgress(serverProgress, data) : data;
+  const merged = stale && (next.progress !== data.progress || next.status !== data.status);
+
+  const updated: UserQuest = {
+    ...existing,
+    progress: next.progress,
+    status: next.status,
+    completedAt: next.completedAt ?? null,
+    target: data.target ?? existing.target,
+    expiresAt: data.expiresAt !== undefined ? data.expiresAt : existing.expiresAt,
+    version: existing.version + 1,
+  };
+  await db
+    .update(userQuests)
+    .set(updated)
+    .where(eq(userQuests.id, existing.id));
+
+  return {
+    result: {
+      serverId: existing.id,
+      status: merged ? 'merged' : 'synced',
+      version: updated.version,
+      ...(merged && { policy: CONFLICT_POLICIES.quest, serverData: questToData(updated) }),
+    },
+    log: { entityId: existing.id, data: questToData(updated), version: updated.version },
+  };
+}
+
+/**
+ * badge: set union; earning the same badge twice keeps the first record
+ */
+async function applyBadgeChange(ctx: PushContext, change: PushChange): Promise<ChangeOutcome> {
+  const { db, userId } = ctx;
+
+  if (change.action !== 'create') {
+    throw unsupported(change);
+  }
+
+  const data = badgeDataSchema.parse(change.data);
+  const existing = await db.query.userBadges.findFirst({
+    where: and(eq(userBadges.userId, userId), eq(userBadges.badgeId, data.badgeId)),
+  });
+
+  if (existing) {
+    return { result: { serverId: existing.id, status: 'synced' } };
+  }
+
+  const row = {
+    id: nanoid(),
+    userId,
+    badgeId: data.badgeId,
+    earnedAt: data.earnedAt || new Date().toISOString(),
+  };
+  await db.insert(userBadges).values(row);
+
+  return {
+    result: { serverId: row.id, status: 'synced' },
+    log: { entityId: row.id, data: { badgeId: row.badgeId, earnedAt: row.earnedAt } },
+  };
+}
+
+/**
+ * diary: reject stale edits and return the server copy.
+ * One entry per night, so create and update both address the entry by date.
+ */
+async function applyDiaryChange(ctx: PushContext, change: PushChange): Promise<ChangeOutcome> {
+  const { db, userId } = ctx;
+  const date = z.string().parse(change.data.date);
+  const existing = await findDiaryEntry(db, userId, date);
+
+  if (existing) {
+    const server = { version: existing.version, modifiedAt: toMillis(existing.updatedAt) };
+    // A create for a night that already has an entry was made without seeing it
+    const stale = change.action === 'create' && change.baseVersion === undefined
+      ? true
+      : isStaleChange(server, change, ctx.lastSyncTime);
+
+    if (stale) {
+      const serverEntry = toSleepDiaryEntry(existing);
+      const input = change.action === 'delete' ? null : diaryEntrySchema.safeParse(change.data);
+      // Retried push of an entry the server already has: nothing to resolve
+      if (input?.success && isSameDiaryEntry(serverEntry, input.data)) {
+        return { result: { serverId: existing.id, status: 'synced', version: existing.version } };
+      }
+
+      return {
+        result: {
+          serverId: existing.id,
+          status: 'conflict',
+          version: existing.version,
+          policy: CONFLICT_POLICIES.diary,
+          serverData: { ...serverEntry },
+        },
+      };
+    }
+  }
+
+  if (change.action === 'delete') {
+    const deleted = await deleteDiaryEntry(db, userId, date);
+    const serverId = deleted?.id ?? change.localId;
+    return {
+      result: { serverId, status: 'synced' },
+      log: deleted ? { entityId: serverId, data: { date } } : undefined,
+    };
+  }
+
+  const entry = await saveDiaryEntry(db, userId, diaryEntrySchema.parse(change.data));
+  return {
+    result: { serverId: entry.id, status: 'synced', version: entry.version },
+    log: { entityId: entry.id, data: { ...entry }, version: entry.version },
+  };
+}
+
+function isSameDiaryEntry(
+  entry: ReturnType<typeof toSleepDiaryEntry>,
+  input: z.infer<typeof diaryEntrySchema>
+): boolean {
+  return (Object.keys(input) as Array<keyof typeof input>)
+    .every((key) => entry[key] === input[key]);
+}
+
+function applyChange(ctx: PushContext, change: PushChange): Promise<ChangeOutcome> {
+  switch (change.entity) {
+    case 'session':
+      return applySessionChange(ctx, change);
+    case 'profile':
+      return applyProfileChange(ctx, change);
+    case 'quest':
+      return applyQuestChange(ctx, change);
+    case 'badge':
+      return applyBadgeChange(ctx, change);
+    case 'diary':
+      return applyDiaryChange(ctx, change);
+  }
+}
+
 /**
  * GET /api/sync/changes
  * Get changes since last sync
@@ -78,6 +521,7 @@ sync.get('/changes', async (c) => {
     action: entry.action as SyncChange['action'],
     id: entry.entityId,
     data: entry.data ? JSON.parse(entry.data) : {},
+    version: entry.version ?? undefined,
     timestamp: entry.timestamp,
   }));
 
@@ -96,13 +540,15 @@ sync.get('/changes', async (c) => {
 
 /**
  * POST /api/sync/push
- * Push local changes to server
+ * Push local changes to server.
+ * Changes are applied in clientTimestamp order; stale changes are resolved
+ * by the entity's conflict policy and reported as `merged` or `conflict`.
  */
 sync.post(
   '/push',
   zValidator('json', pushSchema),
   async (c) => {
-    const { changes } = c.req.valid('json');
+    const { changes, lastSyncTime } = c.req.valid('json');
     const authUser = c.get('user');
     const db = getDatabase();
 
@@ -121,74 +567,41 @@ sync.post(
     }
 
     const now = Date.now();
-    const results: Array<{ localId: string; serverId: string; status: string }> = [];
+    const ctx: PushContext = { db, userId: dbUser.id, lastSyncTime };
+    const results: SyncPushResult[] = [];
 
-    for (const change of changes) {
+    for (const change of orderByClientTimestamp(changes)) {
       try {
-        let serverId = change.localId;
-
-        // Process based on entity type
-        switch (change.entity) {
-          case 'session':
-            if (change.action === 'create') {
-              serverId = nanoid();
-              await db.insert(breathingSessions).values({
-                id: serverId,
-                userId: dbUser.id,
-                patternId: change.data.patternId as string,
-                patternName: change.data.patternName as string,
-                cycles: change.data.cycles as number,
-                duration: change.data.duration as number,
-                completedAt: change.data.completedAt as string || new Date().toISOString(),
-                syncedAt: new Date().toISOString(),
-              });
-            }
-            break;
-
-          case 'profile':
-            if (change.action === 'update') {
-              const updateData: Record<string, unknown> = {
-                updatedAt: new Date().toISOString(),
-              };
-              if (change.data.firstName) updateData.firstName = change.data.firstName;
-              if (change.data.lastName !== undefined) updateData.lastName = change.data.lastName;
-
-              await db
-                .update(users)
-                .set(updateData as typeof users.$inferInsert)
-                .where(eq(users.id, dbUser.id));
-            }
-            break;
+        const { result, log } = await applyChange(ctx, change);
+
+        // Log sync operation so other devices pull it
+        if (log) {
+          await db.insert(syncLog).values({
+            id: nanoid(),
+            userId: dbUser.id,
+            entity: change.entity,
+            entityId: log.entityId,
+            action: change.action,
+            data: JSON.stringify(log.data),
+            version: log.version,
+            timestamp: now,
+            syncedAt: new Date().toISOString(),
+          });
         }
 
-        // Log sync operation
-        await db.insert(syncLog).values({
-          id: nanoid(),
-          userId: dbUser.id,
-          entity: change.entity,
-          entityId: serverId,
-          action: change.action,
-          data: JSON.stringify(change.data),
-          timestamp: now,
-          syncedAt: new Date().toISOString(),
-        });
-
-        results.push({
-          localId: change.localId,
-          serverId,
-          status: 'synced',
-        });
+        results.push({ localId: change.localId, ...result });
       } catch (error) {
         results.push({
           localId: change.localId,
-          serverId: change.localId,
+          serverId: change.serverId ?? change.localId,
           status: 'error',
+          error: describeError(error),
         });
       }
     }
 
     const response: ApiResponse<{
-      results: typeof results;
+      results: SyncPushResult[];
       serverTime: number;
     }> = {
       success: true,
@@ -10,6 +10,7 @@ import { z } from 'zod';
 import { eq } from 'drizzle-orm';
 import { authMiddleware } from '../middleware/auth.js';
 import { getDatabase, users, userBadges, userQuests } from '../db/index.js';
+import { findBotBadges, findBotQuests, mergeBadges, mergeQuests } from '../utils/gamification.js';
 import type { ApiResponse, UserProfile, EvolutionStatus } from '../types/index.js';
 
 const user = new Hono();
@@ -45,10 +46,13 @@ user.get('/profile', async (c) => {
     return c.json(response, 404);
   }
 
-  // Get badges
-  const badges = await db.query.userBadges.findMany({
-    where: eq(userBadges.userId, dbUser.id),
-  });
+  // Get badges (including those earned in the bot)
+  const badges = mergeBadges(
+    await db.query.userBadges.findMany({
+      where: eq(userBadges.userId, dbUser.id),
+    }),
+    findBotBadges(authUser.telegramId, dbUser.id)
+  );
 
   const profile: UserProfile = {
     id: dbUser.id,
@@ -61,6 +65,7 @@ user.get('/profile', async (c) => {
     level: dbUser.level ?? 1,
     streak: dbUser.streak ?? 0,
     badges: badges.map(b => b.badgeId),
+    version: dbUser.version,
     createdAt: dbUser.createdAt,
     updatedAt: dbUser.updatedAt,
   };
@@ -99,8 +104,11 @@ user.put(
       return c.json(response, 404);
     }
 
+    const now = new Date().toISOString();
     const updateData: Partial<typeof users.$inferInsert> = {
-      updatedAt: new Date().toISOString(),
+      version: dbUser.version + 1,
+      profileUpdatedAt: now,
+      updatedAt: now,
     };
 
     if (data.firstName) updateData.firstName = data.firstName;
@@ -198,7 +206,7 @@ user.get('/evolution', async (c) => {
 
 /**
  * GET /api/user/quests
- * Get active quests
+ * Get quests (API rows merged with quests tracked by the bot)
  */
 user.get('/quests', async (c) => {
   const authUser = c.get('user');
@@ -217,9 +225,12 @@ user.get('/quests', async (c) => {
     return c.json(response, 404);
   }
 
-  const quests = await db.query.userQuests.findMany({
-    where: eq(userQuests.userId, dbUser.id),
-  });
+  const quests = mergeQuests(
+    await db.query.userQuests.findMany({
+      where: eq(userQuests.userId, dbUser.id),
+    }),
+    findBotQuests(authUser.telegramId, dbUser.id)
+  );
 
   const response: ApiResponse<{ quests: typeof quests }> = {
     success: true,
@@ -232,7 +243,7 @@ user.get('/quests', async (c) => {
 
 /**
  * GET /api/user/badges
- * Get earned badges
+ * Get earned badges (API rows merged with badges awarded by the bot)
  */
 user.get('/badges', async (c) => {
   const authUser = c.get('user');
@@ -251,9 +262,12 @@ user.get('/badges', async (c) => {
     return c.json(response, 404);
   }
 
-  const badges = await db.query.userBadges.findMany({
-    where: eq(userBadges.userId, dbUser.id),
-  });
+  const badges = mergeBadges(
+    await db.query.userBadges.findMany({
+      where: eq(userBadges.userId, dbUser.id),
+    }),
+    findBotBadges(authUser.telegramId, dbUser.id)
+  );
 
   const response: ApiResponse<{ badges: typeof badges }> = {
     success: true,
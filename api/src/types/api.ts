@@ -16,6 +16,7 @@ export interface UserProfile {
   level: number;
   streak: number;
   badges: string[];
+  version: number;
   createdAt: string;
   updatedAt: string;
 }
@@ -41,12 +42,78 @@ export interface BreathingStats {
   lastSessionAt: string | null;
 }
 
+// Sleep Diary (mirrors ISleepDiaryEntry / ISleepMetrics from the bot)
+export type SleepQualityRating = 'very_poor' | 'poor' | 'fair' | 'good' | 'excellent';
+
+export interface SleepMetrics {
+  timeInBed: number;
+  totalSleepTime: number;
+  sleepOnsetLatency: number;
+  wakeAfterSleepOnset: number;
+  numberOfAwakenings: number;
+  sleepEfficiency: number;
+  bedtime: string;
+  wakeTime: string;
+  finalAwakening: string;
+  outOfBedTime: string;
+}
+
+export interface SleepDiaryEntry {
+  id: string;
+  date: string;
+  bedtime: string;
+  lightsOffTime: string;
+  sleepOnsetLatency: number;
+  numberOfAwakenings: number;
+  wakeAfterSleepOnset: number;
+  finalAwakening: string;
+  outOfBedTime: string;
+  subjectiveQuality: SleepQualityRating;
+  morningAlertness: number;
+  notes?: string;
+  metrics: SleepMetrics;
+  version: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Sleep Window (mirrors ISleepRestrictionPrescription history from the bot)
+export type SleepWindowAdjustment = 'initial' | 'increase' | 'decrease' | 'maintain';
+
+export interface SleepWindow {
+  week: number;
+  bedtime: string;
+  wakeTime: string;
+  timeInBed: number;
+  sleepEfficiency: number | null; // observed SE that triggered this window
+  efficiencyTarget: number | null;
+  adjustment: SleepWindowAdjustment;
+  reason: string | null;
+  createdAt: string;
+}
+
+export interface SleepWindowResponse {
+  current: SleepWindow | null;
+  history: SleepWindow[];
+}
+
 // Sync
+export type SyncEntity = 'session' | 'profile' | 'quest' | 'badge' | 'diary';
+
+/**
+ * How the server resolves a pushed change based on a stale version:
+ * - last_writer_wins: newer clientTimestamp wins, otherwise server copy is kept
+ * - merge: both sides are combined (counters take the maximum, sets the union)
+ * - reject: change is not applied, client must resolve manually
+ */
+export type ConflictPolicy = 'last_writer_wins' | 'merge' | 'reject';
+
 export interface SyncChange {
-  entity: 'session' | 'profile' | 'quest' | 'badge';
+  entity: SyncEntity;
   action: 'create' | 'update' | 'delete';
   id: string;
   data: Record<string, unknown>;
+  version?: number;
   timestamp: number;
 }
 
@@ -63,10 +130,22 @@ export interface SyncPushRequest {
     action: string;
     data: Record<string, unknown>;
     clientTimestamp: number;
+    serverId?: string;
+    baseVersion?: number;
   }>;
   lastSyncTime: number;
 }
 
+export interface SyncPushResult {
+  localId: string;
+  serverId: string;
+  status: 'synced' | 'merged' | 'conflict' | 'error';
+  version?: number;
+  policy?: ConflictPolicy;
+  serverData?: Record<string, unknown> | null;
+  error?: string;
+}
+
 // Evolution
 export interface EvolutionStatus {
   currentStage: string;
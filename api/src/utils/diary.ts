@@ -0,0 +1,169 @@
+/**
+ * Sleep Diary Utilities
+ * =====================
+ * Validation, metric calculation and persistence for sleep diary entries.
+ * Shared by /api/diary and the `diary` entity of /api/sync/push.
+ */
+
+import { z } from 'zod';
+import { nanoid } from 'nanoid';
+import { eq, and } from 'drizzle-orm';
+import { getDatabase, diaryEntries, type DiaryEntry } from '../db/index.js';
+import type { SleepDiaryEntry, SleepMetrics, SleepQualityRating } from '../types/index.js';
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Diary entry fields (ISleepDiaryEntry without userId)
+ */
+export const diaryEntrySchema = z.object({
+  date: z.string().regex(DATE_PATTERN, 'Expected YYYY-MM-DD'),
+  bedtime: z.string().regex(TIME_PATTERN, 'Expected HH:MM'),
+  lightsOffTime: z.string().regex(TIME_PATTERN, 'Expected HH:MM'),
+  sleepOnsetLatency: z.number().int().min(0).max(720),
+  numberOfAwakenings: z.number().int().min(0).max(50),
+  wakeAfterSleepOnset: z.number().int().min(0).max(720),
+  finalAwakening: z.string().regex(TIME_PATTERN, 'Expected HH:MM'),
+  outOfBedTime: z.string().regex(TIME_PATTERN, 'Expected HH:MM'),
+  subjectiveQuality: z.enum(['very_poor', 'poor', 'fair', 'good', 'excellent']),
+  morningAlertness: z.number().int().min(1).max(5),
+  notes: z.string().max(1000).optional(),
+});
+
+export type DiaryEntryInput = z.infer<typeof diaryEntrySchema>;
+
+type Database = ReturnType<typeof getDatabase>;
+
+function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Calculate sleep metrics from a diary entry.
+ * Same formulas as SleepDiaryService.calculateMetrics in the bot.
+ */
+export function calculateSleepMetrics(entry: DiaryEntryInput): SleepMetrics {
+  // Time In Bed (TIB)
+  let timeInBed = timeToMinutes(entry.outOfBedTime) - timeToMinutes(entry.bedtime);
+  if (timeInBed < 0) timeInBed += 24 * 60; // Crossed midnight
+
+  // Total Sleep Time (TST)
+  const totalSleepTime = timeInBed - entry.sleepOnsetLatency - entry.wakeAfterSleepOnset;
+
+  // Sleep Efficiency (SE)
+  const sleepEfficiency = timeInBed > 0
+    ? Math.round((totalSleepTime / timeInBed) * 100)
+    : 0;
+
+  return {
+    timeInBed,
+    totalSleepTime: Math.max(0, totalSleepTime),
+    sleepOnsetLatency: entry.sleepOnsetLatency,
+    wakeAfterSleepOnset: entry.wakeAfterSleepOnset,
+    numberOfAwakenings: entry.numberOfAwakenings,
+    sleepEfficiency: Math.max(0, Math.min(100, sleepEfficiency)),
+    bedtime: entry.bedtime,
+    wakeTime: entry.finalAwakening,
+    finalAwakening: entry.finalAwakening,
+    outOfBedTime: entry.outOfBedTime,
+  };
+}
+
+/**
+ * Convert database row to API diary entry
+ */
+export function toSleepDiaryEntry(row: DiaryEntry): SleepDiaryEntry {
+  const input: DiaryEntryInput = {
+    date: row.date,
+    bedtime: row.bedtime,
+    lightsOffTime: row.lightsOffTime,
+    sleepOnsetLatency: row.sleepOnsetLatency,
+    numberOfAwakenings: row.numberOfAwakenings,
+    wakeAfterSleepOnset: row.wakeAfterSleepOnset,
+    finalAwakening: row.finalAwakening,
+    outOfBedTime: row.outOfBedTime,
+    subjectiveQuality: row.subjectiveQuality as SleepQualityRating,
+    morningAlertness: row.morningAlertness,
+    notes: row.notes ?? undefined,
+  };
+
+  return {
+    id: row.id,
+    ...input,
+    metrics: calculateSleepMetrics(input),
+    version: row.version,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+/**
+ * Find a user's entry for a date
+ */
+export async function findDiaryEntry(
+  db: Database,
+  userId: string,
+  date: string
+): Promise<DiaryEntry | undefined> {
+  return db.query.diaryEntries.findFirst({
+    where: and(eq(diaryEntries.userId, userId), eq(diaryEntries.date, date)),
+  });
+}
+
+/**
+ * Insert or replace the user's entry for input.date (one entry per night).
+ * Replacing bumps the entry version used for sync conflict detection.
+ */
+export async function saveDiaryEntry(
+  db: Database,
+  userId: string,
+  input: DiaryEntryInput
+): Promise<SleepDiaryEntry> {
+  const metrics = calculateSleepMetrics(input);
+  const now = new Date().toISOString();
+  const existing = await findDiaryEntry(db, userId, input.date);
+
+  const values = {
+    ...input,
+    notes: input.notes ?? null,
+    timeInBed: metrics.timeInBed,
+    totalSleepTime: metrics.totalSleepTime,
+    sleepEfficiency: metrics.sleepEfficiency,
+    updatedAt: now,
+  };
+
+  if (existing) {
+    await db
+      .update(diaryEntries)
+      .set({ ...values, version: existing.version + 1 })
+      .where(eq(diaryEntries.id, existing.id));
+  } else {
+    await db.insert(diaryEntries).values({
+      id: nanoid(),
+      userId,
+      createdAt: now,
+      version: 1,
+      ...values,
+    });
+  }
+
+  const saved = await findDiaryEntry(db, userId, input.date);
+  return toSleepDiaryEntry(saved!);
+}
+
+/**
+ * Delete the user's entry for a date
+ */
+export async function deleteDiaryEntry(
+  db: Database,
+  userId: string,
+  date: string
+): Promise<DiaryEntry | undefined> {
+  const existing = await findDiaryEntry(db, userId, date);
+  if (existing) {
+    await db.delete(diaryEntries).where(eq(diaryEntries.id, existing.id));
+  }
+  return existing;
+}
@@ -0,0 +1,128 @@
+/**
+ * Gamification Utilities
+ * ======================
+ * Read access to quests and badges persisted by the bot's
+ * QuestService and BadgeService, merged with the API's own rows
+ * so the Mini App and the bot show the same state.
+ */
+
+import { eq, and, isNull, isNotNull } from 'drizzle-orm';
+import {
+  getDatabase,
+  botUsers,
+  botUserQuests,
+  botAchievements,
+  type UserQuest,
+  type UserBadge,
+} from '../db/index.js';
+import { hasBotTables, toIsoTimestamp } from './sleepWindow.js';
+
+/**
+ * Progress stored by the bot in user_quests.objectives_json
+ */
+interface BotQuestProgress {
+  currentValue?: number;
+  targetValue?: number;
+  expiresAt?: string;
+}
+
+function parseQuestProgress(json: string | null): BotQuestProgress {
+  try {
+    const parsed = JSON.parse(json || '{}');
+    return parsed && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Quests started in the bot for a Telegram user, in API row format.
+ * Returns an empty list when the bot tables are not available.
+ */
+export function findBotQuests(telegramId: number, apiUserId: string): UserQuest[] {
+  if (!hasBotTables(['users', 'user_quests'])) return [];
+
+  const db = getDatabase();
+  const rows = db
+    .select({ quest: botUserQuests })
+    .from(botUserQuests)
+    .innerJoin(botUsers, eq(botUsers.id, botUserQuests.userId))
+    .where(
+      and(
+        eq(botUsers.externalId, String(telegramId)),
+        isNull(botUsers.deletedAt),
+        isNotNull(botUserQuests.startedAt)
+      )
+    )
+    .all();
+
+  return rows.map(({ quest }) => {
+    const progress = parseQuestProgress(quest.objectivesJson);
+    return {
+      id: `bot-${quest.id}`,
+      userId: apiUserId,
+      questId: quest.questId,
+      progress: progress.currentValue ?? 0,
+      target: progress.targetValue ?? 0,
+      status: quest.status,
+      startedAt: toIsoTimestamp(quest.startedAt!),
+      completedAt: quest.completedAt ? toIsoTimestamp(quest.completedAt) : null,
+      expiresAt: progress.expiresAt ?? null,
+      version: 1,
+    };
+  });
+}
+
+/**
+ * Badges earned in the bot for a Telegram user, in API row format.
+ * Returns an empty list when the bot tables are not available.
+ */
+export function findBotBadges(telegramId: number, apiUserId: string): UserBadge[] {
+  if (!hasBotTables(['users', 'achievements'])) return [];
+
+  const db = getDatabase();
+  const rows = db
+    .select({ achievement: botAchievements })
+    .from(botAchievements)
+    .innerJoin(botUsers, eq(botUsers.id, botAchievements.userId))
+    .where(
+      and(
+        eq(botUsers.externalId, String(telegramId)),
+        isNull(botUsers.deletedAt),
+        isNotNull(botAchievements.unlockedAt)
+      )
+    )
+    .all();
+
+  return rows.map(({ achievement }) => ({
+    id: `bot-${achievement.id}`,
+    userId: apiUserId,
+    badgeId: achievement.achievementId,
+    earnedAt: toIsoTimestamp(achievement.unlockedAt!),
+  }));
+}
+
+/**
+ * Merge API quests with bot quests.
+ * The bot tracks quest progress, so its row wins for the same quest.
+ */
+export function mergeQuests(apiQuests: UserQuest[], botQuests: UserQuest[]): UserQuest[] {
+  const botIds = new Set(botQuests.map((q) => q.questId));
+  return [...apiQuests.filter((q) => !botIds.has(q.questId)), ...botQuests];
+}
+
+/**
+ * Merge API badges with bot badges, keeping the earliest award of each badge
+ */
+export function mergeBadges(apiBadges: UserBadge[], botBadges: UserBadge[]): UserBadge[] {
+  const byBadge = new Map<string, UserBadge>();
+
+  for (const badge of [...apiBadges, ...botBadges]) {
+    const existing = byBadge.get(badge.badgeId);
+    if (!existing || badge.earnedAt < existing.earnedAt) {
+      byBadge.set(badge.badgeId, badge);
+    }
+  }
+
+  return [...byBadge.values()].sort((a, b) => a.earnedAt.localeCompare(b.earnedAt));
+}
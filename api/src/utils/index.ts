@@ -6,3 +6,7 @@
 
 export * from './telegram.js';
 export * from './jwt.js';
+export * from './diary.js';
+export * from './sync.js';
+export * from './sleepWindow.js';
+export * from './gamification.js';
@@ -0,0 +1,89 @@
+/**
+ * Sleep Window Utilities
+ * ======================
+ * Read access to the bot's sleep restriction window history.
+ * The bot's SleepCoreAPI appends a row each time the prescription is
+ * created or re-evaluated; the API only reads it.
+ */
+
+import { eq, and, isNull, desc, sql } from 'drizzle-orm';
+import {
+  getDatabase,
+  botUsers,
+  sleepWindowHistory,
+  type SleepWindowRow,
+} from '../db/index.js';
+import type { SleepWindow, SleepWindowAdjustment } from '../types/index.js';
+
+/**
+ * Default number of windows returned (12-week program + margin)
+ */
+export const SLEEP_WINDOW_HISTORY_LIMIT = 16;
+
+/**
+ * SQLite datetime('now') is UTC without zone ("YYYY-MM-DD HH:MM:SS")
+ */
+export function toIsoTimestamp(value: string): string {
+  const normalized = value.includes('T') ? value : `${value.replace(' ', 'T')}Z`;
+  const date = new Date(normalized);
+  return Number.isNaN(date.getTime()) ? value : date.toISOString();
+}
+
+/**
+ * Convert history row to API response format
+ */
+export function toSleepWindow(row: SleepWindowRow): SleepWindow {
+  return {
+    week: row.week,
+    bedtime: row.bedtime,
+    wakeTime: row.wakeTime,
+    timeInBed: row.timeInBed,
+    sleepEfficiency: row.observedEfficiency !== null ? Math.round(row.observedEfficiency) : null,
+    efficiencyTarget: row.sleepEfficiencyTarget,
+    adjustment: row.adjustment as SleepWindowAdjustment,
+    reason: row.adjustmentReason,
+    createdAt: toIsoTimestamp(row.createdAt),
+  };
+}
+
+/**
+ * Whether the given bot tables exist in this database
+ * (the API may run against its own file without them)
+ */
+export function hasBotTables(tables: string[]): boolean {
+  const db = getDatabase();
+  const names = sql.join(tables.map((table) => sql`${table}`), sql`, `);
+  const row = db.get<{ count: number }>(sql`
+    SELECT COUNT(*) AS count FROM sqlite_master
+    WHERE type = 'table' AND name IN (${names})
+  `);
+  return row.count === tables.length;
+}
+
+/**
+ * Sleep windows for a Telegram user, newest first.
+ * Returns an empty list when the bot tables are not available.
+ */
+export function findSleepWindows(
+  telegramId: number,
+  limit: number = SLEEP_WINDOW_HISTORY_LIMIT
+): SleepWindow[] {
+  if (!hasBotTables(['users', 'sleep_window_history'])) return [];
+
+  const db = getDatabase();
+  const rows = db
+    .select({ window: sleepWindowHistory })
+    .from(sleepWindowHistory)
+    .innerJoin(botUsers, eq(botUsers.id, sleepWindowHistory.userId))
+    .where(
+      and(
+        eq(botUsers.externalId, String(telegramId)),
+        isNull(sleepWindowHistory.deletedAt)
+      )
+    )
+    .orderBy(desc(sleepWindowHistory.createdAt), desc(sleepWindowHistory.id))
+    .limit(limit)
+    .all();
+
+  return rows.map(({ window }) => toSleepWindow(window));
+}
@@ -0,0 +1,112 @@
+/**
+ * Sync Conflict Utilities
+ * =======================
+ * Version-based conflict detection and per-entity resolution policies
+ * for /api/sync/push.
+ *
+ * Every syncable entity carries a version counter that the server bumps
+ * on each accepted write. A pushed change is stale when it was based on an
+ * older version than the server holds. Clients that do not send
+ * `baseVersion` fall back to `lastSyncTime`: the change is stale when the
+ * server copy was modified after the client last pulled.
+ */
+
+import type { ConflictPolicy, SyncEntity } from '../types/index.js';
+
+/**
+ * Resolution policy per entity
+ */
+export const CONFLICT_POLICIES: Record<SyncEntity, ConflictPolicy> = {
+  // Name edits: the most recent edit is what the user expects to see
+  profile: 'last_writer_wins',
+  // Completed sessions are an append-only log; edits are corrections
+  session: 'last_writer_wins',
+  // Progress counters only grow, so max() never loses work
+  quest: 'merge',
+  // Earned badges are a set; union never loses a badge
+  badge: 'merge',
+  // Diary entries are clinical self-report; never overwrite silently
+  diary: 'reject',
+};
+
+/**
+ * Server-side state used for conflict detection
+ */
+export interface ServerVersion {
+  version: number;
+  modifiedAt: number; // ms since epoch of last accepted write
+}
+
+/**
+ * Conflict-relevant fields of a pushed change
+ */
+export interface VersionedChange {
+  clientTimestamp: number;
+  baseVersion?: number;
+}
+
+/**
+ * Check whether a pushed change was based on an outdated server copy
+ */
+export function isStaleChange(
+  server: ServerVersion,
+  change: VersionedChange,
+  lastSyncTime: number
+): boolean {
+  if (change.baseVersion !== undefined) {
+    return change.baseVersion < server.version;
+  }
+  return server.modifiedAt > lastSyncTime;
+}
+
+/**
+ * Last-writer-wins: client wins when its edit is not older than the server's
+ */
+export function clientWins(server: ServerVersion, change: VersionedChange): boolean {
+  return change.clientTimestamp >= server.modifiedAt;
+}
+
+/**
+ * Parse stored timestamp into ms since epoch (0 when never written)
+ */
+export function toMillis(timestamp: string | null | undefined): number {
+  if (!timestamp) return 0;
+  const ms = Date.parse(timestamp);
+  return Number.isNaN(ms) ? 0 : ms;
+}
+
+/**
+ * Quest progress as seen by either side
+ */
+export interface QuestProgress {
+  progress: number;
+  status: 'active' | 'completed' | 'expired';
+  completedAt?: string | null;
+}
+
+/**
+ * Merge quest progress counters: highest progress wins and completion is sticky
+ */
+export function mergeQuestProgress(server: QuestProgress, client: QuestProgress): QuestProgress {
+  const completedAt = [server.completedAt, client.completedAt]
+    .filter((value): value is string => !!value)
+    .sort()[0] ?? null;
+
+  const status = server.status === 'completed' || client.status === 'completed'
+    ? 'completed'
+    : client.status;
+
+  return {
+    progress: Math.max(server.progress, client.progress),
+    status,
+    completedAt: status === 'completed' ? completedAt : null,
+  };
+}
+
+/**
+ * Order pushed changes by the time they were made on the client.
+ * Array.prototype.sort is stable, so equal timestamps keep arrival order.
+ */
+export function orderByClientTimestamp<T extends { clientTimestamp: number }>(changes: T[]): T[] {
+  return [...changes].sort((a, b) => a.clientTimestamp - b.clientTimestamp);
+}
@@ -0,0 +1,214 @@
+/**
+ * Diary Routes Integration Tests
+ * ==============================
+ * Tests for sleep diary CRUD and the `diary` sync entity.
+ * Uses an in-memory SQLite database.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createApp } from '../../src/app.js';
+import { initDatabase, closeDatabase, users, diaryEntries, syncLog } from '../../src/db/index.js';
+import { generateAccessToken } from '../../src/utils/jwt.js';
+
+const TEST_BOT_TOKEN = '1234567890:ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefgh';
+const TEST_JWT_SECRET = 'test-jwt-secret-key-1234567890abcdef';
+
+const entry = {
+  date: '2026-01-15',
+  bedtime: '23:00',
+  lightsOffTime: '23:15',
+  sleepOnsetLatency: 30,
+  numberOfAwakenings: 2,
+  wakeAfterSleepOnset: 30,
+  finalAwakening: '06:45',
+  outOfBedTime: '07:00',
+  subjectiveQuality: 'fair',
+  morningAlertness: 3,
+};
+
+describe('Diary Routes', () => {
+  const app = createApp({
+    botToken: TEST_BOT_TOKEN,
+    jwtSecret: TEST_JWT_SECRET,
+  });
+
+  let db: ReturnType<typeof initDatabase>;
+  let token: string;
+
+  const request = (path: string, init: { method?: string; body?: unknown } = {}) =>
+    app.request(path, {
+      method: init.method ?? 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${token}`,
+      },
+      body: init.body !== undefined ? JSON.stringify(init.body) : undefined,
+    });
+
+  beforeAll(async () => {
+    db = initDatabase(':memory:');
+    const now = new Date().toISOString();
+    await db.insert(users).values({
+      id: 'user-1',
+      telegramId: 123456789,
+      firstName: 'Test',
+      createdAt: now,
+      updatedAt: now,
+    });
+    token = await generateAccessToken(
+      { telegramId: 123456789, firstName: 'Test', isPremium: false },
+      TEST_JWT_SECRET
+    );
+  });
+
+  afterAll(() => {
+    closeDatabase();
+  });
+
+  beforeEach(async () => {
+    await db.delete(diaryEntries);
+    await db.delete(syncLog);
+  });
+
+  describe('POST /api/diary', () => {
+    it('should create an entry with computed metrics', async () => {
+      const res = await request('/api/diary', { method: 'POST', body: entry });
+      const json = await res.json();
+
+      expect(res.status).toBe(201);
+      expect(json.data.date).toBe('2026-01-15');
+      expect(json.data.metrics).toMatchObject({
+        timeInBed: 480,
+        totalSleepTime: 420,
+        sleepEfficiency: 88,
+      });
+    });
+
+    it('should reject a second entry for the same night', async () => {
+      await request('/api/diary', { method: 'POST', body: entry });
+      const res = await request('/api/diary', { method: 'POST', body: entry });
+
+      expect(res.status).toBe(409);
+    });
+
+    it('should validate the payload', async () => {
+      const res = await request('/api/diary', {
+        method: 'POST',
+        body: { ...entry, outOfBedTime: '7am' },
+      });
+
+      expect(res.status).toBe(400);
+    });
+
+    it('should require authentication', async () => {
+      const res = await app.request('/api/diary');
+      expect(res.status).toBe(401);
+    });
+  });
+
+  describe('GET /api/diary', () => {
+    it('should list entries newest first within a range', async () => {
+      for (const date of ['2026-01-13', '2026-01-14', '2026-01-15']) {
+        await request('/api/diary', { method: 'POST', body: { ...entry, date } });
+      }
+
+      const res = await request('/api/diary?from=2026-01-14');
+      const json = await res.json();
+
+      expect(res.status).toBe(200);
+      expect(json.data.entries.map((e: { date: string }) => e.date)).toEqual(['2026-01-15', '2026-01-14']);
+    });
+
+    it('should return 404 for a night without an entry', async () => {
+      const res = await request('/api/diary/2026-01-01');
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe('PUT and DELETE /api/diary/:date', () => {
+    it('should replace an entry and recompute metrics', async () => {
+      await request('/api/diary', { method: 'POST', body: entry });
+
+      const { date: _date, ...fields } = entry;
+      const res = await request('/api/diary/2026-01-15', {
+        method: 'PUT',
+        body: { ...fields, wakeAfterSleepOnset: 90 },
+      });
+      const json = await res.json();
+
+      expect(res.status).toBe(200);
+      expect(json.data.metrics.totalSleepTime).toBe(360);
+      expect(json.data.metrics.sleepEfficiency).toBe(75);
+    });
+
+    it('should delete an entry', async () => {
+      await request('/api/diary', { method: 'POST', body: entry });
+
+      const res = await request('/api/diary/2026-01-15', { method: 'DELETE' });
+      expect(res.status).toBe(200);
+
+      const after = await request('/api/diary/2026-01-15');
+      expect(after.status).toBe(404);
+    });
+  });
+
+  describe('diary sync entity', () => {
+    it('should apply pushed diary entries and report them in changes', async () => {
+      const push = await request('/api/sync/push', {
+        method: 'POST',
+        body: {
+          changes: [{
+            localId: 'local-1',
+            entity: 'diary',
+            action: 'create',
+            data: entry,
+            clientTimestamp: Date.now(),
+          }],
+          lastSyncTime: 0,
+        },
+      });
+      const pushJson = await push.json();
+
+      expect(pushJson.data.results[0].status).toBe('synced');
+
+      const stored = await request('/api/diary/2026-01-15');
+      expect(stored.status).toBe(200);
+
+      const changes = await request('/api/sync/changes?since=0');
+      const changesJson = await changes.json();
+      const diaryChange = changesJson.data.changes.find((c: { entity: string }) => c.entity === 'diary');
+
+      expect(diaryChange.id).toBe(pushJson.data.results[0].serverId);
+      expect(diaryChange.data.metrics.sleepEfficiency).toBe(88);
+    });
+
+    it('should report invalid diary data as an error', async () => {
+      const push = await request('/api/sync/push', {
+        method: 'POST',
+        body: {
+          changes: [{
+            localId: 'local-2',
+            entity: 'diary',
+            action: 'create',
+            data: { date: '2026-01-15' },
+            clientTimestamp: Date.now(),
+          }],
+          lastSyncTime: 0,
+        },
+      });
+      const json = await push.json();
+
+      expect(json.data.results[0].status).toBe('error');
+    });
+
+    it('should include REST changes in sync changes', async () => {
+      await request('/api/diary', { method: 'POST', body: entry });
+      await request('/api/diary/2026-01-15', { method: 'DELETE' });
+
+      const changes = await request('/api/sync/changes?since=0');
+      const json = await changes.json();
+
+      expect(json.data.changes.map((c: { action: string }) => c.action)).toEqual(['create', 'delete']);
+    });
+  });
+});
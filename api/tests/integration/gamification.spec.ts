@@ -0,0 +1,171 @@
+/**
+ * Gamification Routes Integration Tests
+ * =====================================
+ * Tests for /api/user/quests and /api/user/badges returning state
+ * persisted by the bot's QuestService and BadgeService.
+ * Uses an in-memory SQLite database with the bot tables created manually.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { sql } from 'drizzle-orm';
+import { createApp } from '../../src/app.js';
+import {
+  initDatabase,
+  closeDatabase,
+  users,
+  userQuests,
+  userBadges,
+} from '../../src/db/index.js';
+import { generateAccessToken } from '../../src/utils/jwt.js';
+
+const TEST_BOT_TOKEN = '1234567890:ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefgh';
+const TEST_JWT_SECRET = 'test-jwt-secret-key-1234567890abcdef';
+
+describe('Gamification Routes', () => {
+  const app = createApp({
+    botToken: TEST_BOT_TOKEN,
+    jwtSecret: TEST_JWT_SECRET,
+  });
+
+  let db: ReturnType<typeof initDatabase>;
+  let token: string;
+
+  const request = async (path: string) => {
+    const res = await app.request(path, {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+    expect(res.status).toBe(200);
+    return (await res.json()).data;
+  };
+
+  /**
+   * Minimal bot schema (migrations 001 and 005)
+   */
+  const createBotTables = () => {
+    db.run(sql`
+      CREATE TABLE users (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        external_id TEXT,
+        deleted_at TEXT
+      )
+    `);
+    db.run(sql`
+      CREATE TABLE user_quests (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        quest_id TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'available',
+        started_at TEXT,
+        completed_at TEXT,
+        objectives_json TEXT DEFAULT '[]'
+      )
+    `);
+    db.run(sql`
+      CREATE TABLE achievements (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        achievement_id TEXT NOT NULL,
+        progress INTEGER NOT NULL DEFAULT 0,
+        unlocked_at TEXT,
+        notified INTEGER NOT NULL DEFAULT 0
+      )
+    `);
+  };
+
+  beforeAll(async () => {
+    db = initDatabase(':memory:');
+    const now = new Date().toISOString();
+    await db.insert(users).values({
+      id: 'user-1',
+      telegramId: 123456789,
+      firstName: 'Test',
+      createdAt: now,
+      updatedAt: now,
+    });
+    await db.insert(userQuests).values({
+      id: 'api-quest-1',
+      userId: 'user-1',
+      questId: 'diary_7',
+      progress: 1,
+      target: 7,
+      startedAt: '2026-01-01T08:00:00.000Z',
+    });
+    await db.insert(userBadges).values({
+      id: 'api-badge-1',
+      userId: 'user-1',
+      badgeId: 'first_breath',
+      earnedAt: '2026-01-02T08:00:00.000Z',
+    });
+    token = await generateAccessToken(
+      { telegramId: 123456789, firstName: 'Test', isPremium: false },
+      TEST_JWT_SECRET
+    );
+  });
+
+  afterAll(() => {
+    closeDatabase();
+  });
+
+  it('should return only API rows when bot tables are missing', async () => {
+    const { quests } = await request('/api/user/quests');
+    const { badges } = await request('/api/user/badges');
+
+    expect(quests.map((q: { id: string }) => q.id)).toEqual(['api-quest-1']);
+    expect(badges.map((b: { id: string }) => b.id)).toEqual(['api-badge-1']);
+  });
+
+  it('should include bot quest progress and prefer it for the same quest', async () => {
+    createBotTables();
+    db.run(sql`INSERT INTO users (id, external_id) VALUES (1, '123456789'), (2, '987654321')`);
+    db.run(sql`
+      INSERT INTO user_quests (user_id, quest_id, status, started_at, completed_at, objectives_json) VALUES
+        (1, 'diary_7', 'active', '2026-01-03 08:00:00', NULL,
+          '{"currentValue":4,"targetValue":7,"expiresAt":"2026-01-10T08:00:00.000Z"}'),
+        (1, 'voice_3', 'completed', '2026-01-01 08:00:00', '2026-01-04 09:00:00',
+          '{"currentValue":3,"targetValue":3}'),
+        (2, 'sleep_7', 'active', '2026-01-03 08:00:00', NULL, '[]')
+    `);
+
+    const { quests } = await request('/api/user/quests');
+
+    expect(quests).toHaveLength(2);
+    expect(quests.find((q: { questId: string }) => q.questId === 'diary_7')).toMatchObject({
+      progress: 4,
+      target: 7,
+      status: 'active',
+      startedAt: '2026-01-03T08:00:00.000Z',
+      expiresAt: '2026-01-10T08:00:00.000Z',
+    });
+    expect(quests.find((q: { questId: string }) => q.questId === 'voice_3')).toMatchObject({
+      status: 'completed',
+      completedAt: '2026-01-04T09:00:00.000Z',
+    });
+  });
+
+  it('should include unlocked bot badges without duplicates', async () => {
+    db.run(sql`
+      INSERT INTO achievements (user_id, achievement_id, unlocked_at) VALUES
+        (1, 'voice_first', '2026-01-01 10:00:00'),
+        (1, 'first_breath', '2026-01-05 10:00:00'),
+        (1, 'streak_30', NULL)
+    `);
+
+    const { badges } = await request('/api/user/badges');
+    const profile = await request('/api/user/profile');
+
+    expect(badges.map((b: { badgeId: string }) => b.badgeId)).toEqual(['voice_first', 'first_breath']);
+    expect(badges[0].earnedAt).toBe('2026-01-01T10:00:00.000Z');
+    expect(badges[1].id).toBe('api-badge-1');
+    expect(profile.badges).toEqual(['voice_first', 'first_breath']);
+  });
+
+  it('should ignore deleted bot users', async () => {
+    db.run(sql`UPDATE users SET deleted_at = datetime('now') WHERE id = 1`);
+
+    const { quests } = await request('/api/user/quests');
+    const { badges } = await request('/api/user/badges');
+
+    expect(quests.map((q: { id: string }) => q.id)).toEqual(['api-quest-1']);
+    expect(badges.map((b: { id: string }) => b.id)).toEqual(['api-badge-1']);
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Sleep Window Routes Integration Tests
+ * =====================================
+ * Tests for reading the bot's sleep restriction window history.
+ * Uses an in-memory SQLite database with the bot tables created manually.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { sql } from 'drizzle-orm';
+import { createApp } from '../../src/app.js';
+import { initDatabase, closeDatabase } from '../../src/db/index.js';
+import { generateAccessToken } from '../../src/utils/jwt.js';
+
+const TEST_BOT_TOKEN = '1234567890:ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefgh';
+const TEST_JWT_SECRET = 'test-jwt-secret-key-1234567890abcdef';
+
+describe('Sleep Window Routes', () => {
+  const app = createApp({
+    botToken: TEST_BOT_TOKEN,
+    jwtSecret: TEST_JWT_SECRET,
+  });
+
+  let db: ReturnType<typeof initDatabase>;
+  let token: string;
+
+  const request = (path: string) =>
+    app.request(path, {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+
+  /**
+   * Minimal bot schema (migrations 001, 002 and 008)
+   */
+  const createBotTables = () => {
+    db.run(sql`
+      CREATE TABLE users (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        external_id TEXT,
+        deleted_at TEXT
+      )
+    `);
+    db.run(sql`
+      CREATE TABLE sleep_window_history (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        plan_id INTEGER,
+        week INTEGER NOT NULL,
+        bedtime TEXT NOT NULL,
+        wake_time TEXT NOT NULL,
+        time_in_bed INTEGER NOT NULL,
+        sleep_efficiency_target REAL,
+        adjustment_reason TEXT,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        observed_efficiency REAL,
+        adjustment TEXT NOT NULL DEFAULT 'initial',
+        updated_at TEXT,
+        deleted_at TEXT
+      )
+    `);
+  };
+
+  const insertWindow = (
+    userId: number,
+    week: number,
+    bedtime: string,
+    timeInBed: number,
+    observed: number,
+    adjustment: string,
+    createdAt: string
+  ) => {
+    db.run(sql`
+      INSERT INTO sleep_window_history
+        (user_id, week, bedtime, wake_time, time_in_bed, sleep_efficiency_target,
+         observed_efficiency, adjustment, adjustment_reason, created_at)
+      VALUES (${userId}, ${week}, ${bedtime}, '06:30', ${timeInBed}, 85,
+        ${observed}, ${adjustment}, ${`Average SE ${observed}%`}, ${createdAt})
+    `);
+  };
+
+  beforeAll(async () => {
+    db = initDatabase(':memory:');
+    token = await generateAccessToken(
+      { telegramId: 123456789, firstName: 'Test', isPremium: false },
+      TEST_JWT_SECRET
+    );
+  });
+
+  afterAll(() => {
+    closeDatabase();
+  });
+
+  it('should return an empty history when bot tables are missing', async () => {
+    const res = await request('/api/sleep-window');
+    const json = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(json.data).toEqual({ current: null, history: [] });
+  });
+
+  it('should return the current window and history newest first', async () => {
+    createBotTables();
+    db.run(sql`INSERT INTO users (id, external_id) VALUES (1, '123456789'), (2, '987654321')`);
+    insertWindow(1, 1, '00:30', 360, 72.4, 'initial', '2026-01-01 08:00:00');
+    insertWindow(1, 2, '00:45', 345, 81, 'decrease', '2026-01-08 08:00:00');
+    insertWindow(1, 3, '00:30', 360, 91.2, 'increase', '2026-01-15 08:00:00');
+    insertWindow(2, 1, '23:00', 450, 88, 'initial', '2026-01-10 08:00:00');
+
+    const res = await request('/api/sleep-window');
+    const json = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(json.data.history.map((w: { week: number }) => w.week)).toEqual([3, 2, 1]);
+    expect(json.data.current).toEqual({
+      week: 3,
+      bedtime: '00:30',
+      wakeTime: '06:30',
+      timeInBed: 360,
+      sleepEfficiency: 91,
+      efficiencyTarget: 85,
+      adjustment: 'increase',
+      reason: 'Average SE 91.2%',
+      createdAt: '2026-01-15T08:00:00.000Z',
+    });
+  });
+
+  it('should respect limit and skip deleted windows', async () => {
+    db.run(sql`UPDATE sleep_window_history SET deleted_at = datetime('now') WHERE week = 3 AND user_id = 1`);
+
+    const res = await request('/api/sleep-window?limit=1');
+    const json = await res.json();
+
+    expect(json.data.history).toHaveLength(1);
+    expect(json.data.current.week).toBe(2);
+    expect(json.data.current.adjustment).toBe('decrease');
+  });
+
+  it('should reject invalid limit', async () => {
+    const res = await request('/api/sleep-window?limit=0');
+    expect(res.status).toBe(400);
+  });
+
+  it('should require authentication', async () => {
+    const res = await app.request('/api/sleep-window');
+    expect(res.status).toBe(401);
+  });
+});
@@ -0,0 +1,293 @@
+/**
+ * Sync Routes Integration Tests
+ * =============================
+ * Tests for version-based conflict detection in /api/sync/push.
+ * Uses an in-memory SQLite database.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { createApp } from '../../src/app.js';
+import {
+  initDatabase,
+  closeDatabase,
+  users,
+  breathingSessions,
+  userQuests,
+  userBadges,
+  diaryEntries,
+  syncLog,
+} from '../../src/db/index.js';
+import { generateAccessToken } from '../../src/utils/jwt.js';
+
+const TEST_BOT_TOKEN = '1234567890:ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefgh';
+const TEST_JWT_SECRET = 'test-jwt-secret-key-1234567890abcdef';
+
+const diaryData = {
+  date: '2026-01-15',
+  bedtime: '23:00',
+  lightsOffTime: '23:15',
+  sleepOnsetLatency: 30,
+  numberOfAwakenings: 2,
+  wakeAfterSleepOnset: 30,
+  finalAwakening: '06:45',
+  outOfBedTime: '07:00',
+  subjectiveQuality: 'fair',
+  morningAlertness: 3,
+};
+
+interface PushResult {
+  localId: string;
+  serverId: string;
+  status: string;
+  version?: number;
+  policy?: string;
+  serverData?: Record<string, unknown> | null;
+  error?: string;
+}
+
+describe('Sync Routes', () => {
+  const app = createApp({
+    botToken: TEST_BOT_TOKEN,
+    jwtSecret: TEST_JWT_SECRET,
+  });
+
+  let db: ReturnType<typeof initDatabase>;
+  let token: string;
+
+  const push = async (
+    changes: Array<Record<string, unknown>>,
+    lastSyncTime = 0
+  ): Promise<PushResult[]> => {
+    const res = await app.request('/api/sync/push', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify({ changes, lastSyncTime }),
+    });
+    expect(res.status).toBe(200);
+    const json = await res.json();
+    return json.data.results;
+  };
+
+  const change = (entity: string, action: string, data: Record<string, unknown>, extra = {}) => ({
+    localId: `local-${Math.random()}`,
+    entity,
+    action,
+    data,
+    clientTimestamp: Date.now(),
+    ...extra,
+  });
+
+  beforeAll(async () => {
+    db = initDatabase(':memory:');
+    const now = new Date().toISOString();
+    await db.insert(users).values({
+      id: 'user-1',
+      telegramId: 123456789,
+      firstName: 'Test',
+      createdAt: now,
+      updatedAt: now,
+    });
+    token = await generateAccessToken(
+      { telegramId: 123456789, firstName: 'Test', isPremium: false },
+      TEST_JWT_SECRET
+    );
+  });
+
+  afterAll(() => {
+    closeDatabase();
+  });
+
+  beforeEach(async () => {
+    await db.delete(diaryEntries);
+    await db.delete(breathingSessions);
+    await db.delete(userQuests);
+    await db.delete(userBadges);
+    await db.delete(syncLog);
+    await db
+      .update(users)
+      .set({ firstName: 'Test', lastName: null, version: 1, profileUpdatedAt: null })
+      .where(eq(users.id, 'user-1'));
+  });
+
+  describe('diary (reject)', () => {
+    it('should reject a create for a night another device already logged', async () => {
+      const [first] = await push([change('diary', 'create', diaryData)]);
+      expect(first.status).toBe('synced');
+
+      const [second] = await push([
+        change('diary', 'create', { ...diaryData, wakeAfterSleepOnset: 90 }),
+      ]);
+
+      expect(second.status).toBe('conflict');
+      expect(second.policy).toBe('reject');
+      expect(second.version).toBe(1);
+      expect(second.serverData?.wakeAfterSleepOnset).toBe(30);
+
+      const stored = await db.query.diaryEntries.findFirst();
+      expect(stored?.wakeAfterSleepOnset).toBe(30);
+    });
+
+    it('should treat a retried identical create as synced', async () => {
+      await push([change('diary', 'create', diaryData)]);
+      const [retry] = await push([change('diary', 'create', diaryData)]);
+
+      expect(retry.status).toBe('synced');
+    });
+
+    it('should apply an update based on the current version', async () => {
+      const [created] = await push([change('diary', 'create', diaryData)]);
+      const [updated] = await push([
+        change('diary', 'update', { ...diaryData, notes: 'woke at 3am' }, { baseVersion: created.version }),
+      ]);
+
+      expect(updated.status).toBe('synced');
+      expect(updated.version).toBe(2);
+    });
+
+    it('should reject an update based on a stale version', async () => {
+      await push([change('diary', 'create', diaryData)]);
+      await push([change('diary', 'update', { ...diaryData, notes: 'first' }, { baseVersion: 1 })]);
+
+      const [stale] = await push([
+        change('diary', 'update', { ...diaryData, notes: 'second' }, { baseVersion: 1 }),
+      ]);
+
+      expect(stale.status).toBe('conflict');
+      expect(stale.serverData?.notes).toBe('first');
+    });
+
+    it('should detect stale edits from lastSyncTime when baseVersion is missing', async () => {
+      await push([change('diary', 'create', diaryData)]);
+
+      const [stale] = await push(
+        [change('diary', 'update', { ...diaryData, notes: 'offline edit' })],
+        Date.parse('2000-01-01T00:00:00Z')
+      );
+
+      expect(stale.status).toBe('conflict');
+    });
+  });
+
+  describe('profile (last-writer-wins)', () => {
+    it('should keep the server copy when a stale edit is older', async () => {
+      const now = Date.now();
+      await push([change('profile', 'update', { firstName: 'Newer' }, { clientTimestamp: now, baseVersion: 1 })]);
+
+      const [older] = await push([
+        change('profile', 'update', { firstName: 'Older' }, { clientTimestamp: now - 60_000, baseVersion: 1 }),
+      ]);
+
+      expect(older.status).toBe('conflict');
+      expect(older.policy).toBe('last_writer_wins');
+      expect(older.serverData?.firstName).toBe('Newer');
+    });
+
+    it('should apply a stale edit that is newer', async () => {
+      const now = Date.now();
+      await push([change('profile', 'update', { firstName: 'First' }, { clientTimestamp: now - 60_000, baseVersion: 1 })]);
+
+      const [newer] = await push([
+        change('profile', 'update', { firstName: 'Second' }, { clientTimestamp: now, baseVersion: 1 }),
+      ]);
+
+      expect(newer.status).toBe('synced');
+      expect(newer.version).toBe(3);
+    });
+
+    it('should apply changes in clientTimestamp order, not arrival order', async () => {
+      const now = Date.now();
+      await push([
+        change('profile', 'update', { firstName: 'Later' }, { clientTimestamp: now }),
+        change('profile', 'update', { firstName: 'Earlier' }, { clientTimestamp: now - 1_000 }),
+      ]);
+
+      const dbUser = await db.query.users.findFirst({ where: eq(users.id, 'user-1') });
+      expect(dbUser?.firstName).toBe('Later');
+    });
+  });
+
+  describe('session', () => {
+    const sessionData = { patternId: '478', patternName: '4-7-8', cycles: 4, duration: 76 };
+
+    it('should update and delete sessions by serverId', async () => {
+      const [created] = await push([change('session', 'create', sessionData)]);
+
+      const [updated] = await push([
+        change('session', 'update', { cycles: 6 }, { serverId: created.serverId, baseVersion: 1 }),
+      ]);
+      expect(updated.status).toBe('synced');
+      expect(updated.version).toBe(2);
+
+      const [deleted] = await push([
+        change('session', 'delete', {}, { serverId: created.serverId, baseVersion: 2 }),
+      ]);
+      expect(deleted.status).toBe('synced');
+
+      const remaining = await db.query.breathingSessions.findMany();
+      expect(remaining).toHaveLength(0);
+    });
+
+    it('should report why a change failed', async () => {
+      const [result] = await push([change('session', 'update', { cycles: 6 })]);
+
+      expect(result.status).toBe('error');
+      expect(result.error).toMatch(/serverId is required/);
+    });
+  });
+
+  describe('quest (merge)', () => {
+    it('should keep the higher progress counter', async () => {
+      await push([change('quest', 'create', { questId: 'week-streak', progress: 5, target: 7 })]);
+
+      const [merged] = await push([
+        change('quest', 'update', { questId: 'week-streak', progress: 3 }),
+      ]);
+
+      expect(merged.status).toBe('merged');
+      expect(merged.policy).toBe('merge');
+      expect(merged.serverData?.progress).toBe(5);
+    });
+
+    it('should overwrite progress when based on the current version', async () => {
+      await push([change('quest', 'create', { questId: 'week-streak', progress: 5, target: 7 })]);
+
+      const [result] = await push([
+        change('quest', 'update', { questId: 'week-streak', progress: 0 }, { baseVersion: 1 }),
+      ]);
+
+      expect(result.status).toBe('synced');
+      const quest = await db.query.userQuests.findFirst();
+      expect(quest?.progress).toBe(0);
+    });
+  });
+
+  describe('badge (merge)', () => {
+    it('should keep a single record when two devices earn the same badge', async () => {
+      const [first] = await push([change('badge', 'create', { badgeId: 'first-breath' })]);
+      const [second] = await push([change('badge', 'create', { badgeId: 'first-breath' })]);
+
+      expect(second.status).toBe('synced');
+      expect(second.serverId).toBe(first.serverId);
+      expect(await db.query.userBadges.findMany()).toHaveLength(1);
+    });
+  });
+
+  describe('GET /api/sync/changes', () => {
+    it('should include entity versions and skip conflicts', async () => {
+      await push([change('diary', 'create', diaryData)]);
+      await push([change('diary', 'create', { ...diaryData, notes: 'other device' })]);
+
+      const res = await app.request('/api/sync/changes?since=0', {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const json = await res.json();
+
+      expect(json.data.changes).toHaveLength(1);
+      expect(json.data.changes[0].version).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Sleep Diary Utilities Tests
+ * ===========================
+ * Tests for diary validation and sleep metric calculation.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  calculateSleepMetrics,
+  diaryEntrySchema,
+  type DiaryEntryInput,
+} from '../../src/utils/diary.js';
+
+describe('Sleep Diary Utilities', () => {
+  const entry: DiaryEntryInput = {
+    date: '2026-01-15',
+    bedtime: '23:00',
+    lightsOffTime: '23:15',
+    sleepOnsetLatency: 30,
+    numberOfAwakenings: 2,
+    wakeAfterSleepOnset: 30,
+    finalAwakening: '06:45',
+    outOfBedTime: '07:00',
+    subjectiveQuality: 'fair',
+    morningAlertness: 3,
+  };
+
+  describe('calculateSleepMetrics', () => {
+    it('should compute TIB across midnight, TST and SE', () => {
+      const metrics = calculateSleepMetrics(entry);
+
+      expect(metrics.timeInBed).toBe(480);
+      expect(metrics.totalSleepTime).toBe(420);
+      expect(metrics.sleepEfficiency).toBe(88);
+      expect(metrics.wakeTime).toBe('06:45');
+      expect(metrics.numberOfAwakenings).toBe(2);
+    });
+
+    it('should handle bedtime after midnight', () => {
+      const metrics = calculateSleepMetrics({ ...entry, bedtime: '01:00', outOfBedTime: '07:00' });
+      expect(metrics.timeInBed).toBe(360);
+    });
+
+    it('should clamp TST and SE at zero', () => {
+      const metrics = calculateSleepMetrics({
+        ...entry,
+        bedtime: '06:00',
+        outOfBedTime: '07:00',
+        sleepOnsetLatency: 90,
+      });
+
+      expect(metrics.totalSleepTime).toBe(0);
+      expect(metrics.sleepEfficiency).toBe(0);
+    });
+
+    it('should return zero SE when TIB is zero', () => {
+      const metrics = calculateSleepMetrics({ ...entry, bedtime: '07:00', outOfBedTime: '07:00' });
+      expect(metrics.timeInBed).toBe(0);
+      expect(metrics.sleepEfficiency).toBe(0);
+    });
+  });
+
+  describe('diaryEntrySchema', () => {
+    it('should accept a valid entry', () => {
+      expect(diaryEntrySchema.safeParse(entry).success).toBe(true);
+    });
+
+    it('should reject malformed times and out-of-range values', () => {
+      expect(diaryEntrySchema.safeParse({ ...entry, bedtime: '24:00' }).success).toBe(false);
+      expect(diaryEntrySchema.safeParse({ ...entry, date: '15.01.2026' }).success).toBe(false);
+      expect(diaryEntrySchema.safeParse({ ...entry, morningAlertness: 6 }).success).toBe(false);
+      expect(diaryEntrySchema.safeParse({ ...entry, sleepOnsetLatency: -5 }).success).toBe(false);
+      expect(diaryEntrySchema.safeParse({ ...entry, subjectiveQuality: 'great' }).success).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Sync Conflict Utilities Tests
+ * =============================
+ * Tests for stale change detection and resolution helpers.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  CONFLICT_POLICIES,
+  isStaleChange,
+  clientWins,
+  toMillis,
+  mergeQuestProgress,
+  orderByClientTimestamp,
+} from '../../src/utils/sync.js';
+
+describe('Sync Conflict Utilities', () => {
+  const server = { version: 3, modifiedAt: 2_000 };
+
+  describe('CONFLICT_POLICIES', () => {
+    it('should use the documented policy per entity', () => {
+      expect(CONFLICT_POLICIES.profile).toBe('last_writer_wins');
+      expect(CONFLICT_POLICIES.quest).toBe('merge');
+      expect(CONFLICT_POLICIES.diary).toBe('reject');
+    });
+  });
+
+  describe('isStaleChange', () => {
+    it('should compare baseVersion with server version', () => {
+      expect(isStaleChange(server, { clientTimestamp: 5_000, baseVersion: 2 }, 0)).toBe(true);
+      expect(isStaleChange(server, { clientTimestamp: 5_000, baseVersion: 3 }, 0)).toBe(false);
+    });
+
+    it('should fall back to lastSyncTime without baseVersion', () => {
+      expect(isStaleChange(server, { clientTimestamp: 5_000 }, 1_000)).toBe(true);
+      expect(isStaleChange(server, { clientTimestamp: 5_000 }, 3_000)).toBe(false);
+    });
+  });
+
+  describe('clientWins', () => {
+    it('should let the newer edit win', () => {
+      expect(clientWins(server, { clientTimestamp: 2_500 })).toBe(true);
+      expect(clientWins(server, { clientTimestamp: 1_500 })).toBe(false);
+    });
+  });
+
+  describe('toMillis', () => {
+    it('should parse ISO timestamps and default to 0', () => {
+      expect(toMillis('1970-01-01T00:00:02.000Z')).toBe(2_000);
+      expect(toMillis(null)).toBe(0);
+      expect(toMillis('not a date')).toBe(0);
+    });
+  });
+
+  describe('mergeQuestProgress', () => {
+    it('should keep the higher progress', () => {
+      const merged = mergeQuestProgress(
+        { progress: 5, status: 'active' },
+        { progress: 3, status: 'active' }
+      );
+      expect(merged.progress).toBe(5);
+      expect(merged.status).toBe('active');
+    });
+
+    it('should keep completion from either side with the earliest completedAt', () => {
+      const merged = mergeQuestProgress(
+        { progress: 7, status: 'completed', completedAt: '2026-01-10T10:00:00.000Z' },
+        { progress: 7, status: 'completed', completedAt: '2026-01-09T10:00:00.000Z' }
+      );
+      expect(merged.status).toBe('completed');
+      expect(merged.completedAt).toBe('2026-01-09T10:00:00.000Z');
+
+      const fromServer = mergeQuestProgress(
+        { progress: 7, status: 'completed', completedAt: '2026-01-10T10:00:00.000Z' },
+        { progress: 4, status: 'active' }
+      );
+      expect(fromServer.status).toBe('completed');
+    });
+  });
+
+  describe('orderByClientTimestamp', () => {
+    it('should sort by clientTimestamp and keep arrival order for ties', () => {
+      const ordered = orderByClientTimestamp([
+        { id: 'c', clientTimestamp: 3 },
+        { id: 'a', clientTimestamp: 1 },
+        { id: 'b1', clientTimestamp: 2 },
+        { id: 'b2', clientTimestamp: 2 },
+      ]);
+      expect(ordered.map((c) => c.id)).toEqual(['a', 'b1', 'b2', 'c']);
+    });
+  });
+});
@@ -6,10 +6,11 @@
 
 import React, { useEffect } from 'react';
 import { BrowserRouter, Routes, Route, Navigate, useLocation } from 'react-router-dom';
-import { Home, Breathing, Profile } from '@/pages';
+import { Home, Breathing, Profile, Diary, SleepWindow } from '@/pages';
 import { QueryProvider } from '@/providers/QueryProvider';
 import { telegram } from '@/services/telegram';
 import { useAuth, useSync } from '@/hooks';
+import { useSyncStore } from '@/store';
 
 // Bottom navigation component
 const BottomNav: React.FC = () => {
@@ -18,6 +19,7 @@ const BottomNav: React.FC = () => {
   const navItems = [
     { path: '/', icon: '🏠', label: 'Главная' },
     { path: '/breathing', icon: '🌬️', label: 'Дыхание' },
+    { path: '/diary', icon: '📔', label: 'Дневник' },
     { path: '/profile', icon: '👤', label: 'Профиль' },
   ];
 
@@ -68,6 +70,54 @@ const SyncIndicator: React.FC = () => {
   );
 };
 
+// Labels for entities that can end up in a sync conflict
+const CONFLICT_LABELS: Record<string, string> = {
+  diary: 'Запись в дневнике сна',
+  profile: 'Профиль',
+  session: 'Сессия дыхания',
+  quest: 'Задание',
+  badge: 'Награда',
+};
+
+// Sync conflict prompt (server kept its copy, user decides which one stays)
+const SyncConflictBanner: React.FC = () => {
+  // Read the store directly: useSync() would start a second sync loop
+  const { conflicts, resolveConflict } = useSyncStore();
+
+  if (conflicts.length === 0) {
+    return null;
+  }
+
+  const conflict = conflicts[0];
+  const label = CONFLICT_LABELS[conflict.change.entity] ?? 'Данные';
+
+  return (
+    <div className="fixed bottom-20 left-4 right-4 z-50 p-4 rounded-2xl bg-night-800/95 backdrop-blur-lg border border-amber-500/40">
+      <p className="text-sm text-night-100 mb-1">
+        {label}: есть изменения с другого устройства
+      </p>
+      <p className="text-xs text-night-400 mb-3">
+        Какую версию сохранить?
+        {conflicts.length > 1 && ` Ещё конфликтов: ${conflicts.length - 1}`}
+      </p>
+      <div className="flex gap-2">
+        <button
+          onClick={() => resolveConflict(conflict.change.localId, 'keep_server')}
+          className="flex-1 px-3 py-2 text-sm rounded-lg bg-night-700 text-night-100 hover:bg-night-600 transition-colors"
+        >
+          С сервера
+        </button>
+        <button
+          onClick={() => resolveConflict(conflict.change.localId, 'keep_local')}
+          className="flex-1 px-3 py-2 text-sm rounded-lg bg-primary-500 text-white hover:bg-primary-600 transition-colors"
+        >
+          Мою
+        </button>
+      </div>
+    </div>
+  );
+};
+
 // Auth loading screen
 const AuthLoading: React.FC = () => {
   return (
@@ -164,10 +214,13 @@ const AppContent: React.FC = () => {
       <Routes>
         <Route path="/" element={<Home />} />
         <Route path="/breathing" element={<Breathing />} />
+        <Route path="/diary" element={<Diary />} />
+        <Route path="/sleep-window" element={<SleepWindow />} />
         <Route path="/profile" element={<Profile />} />
         <Route path="*" element={<Navigate to="/" replace />} />
       </Routes>
       {showBottomNav && <BottomNav />}
+      <SyncConflictBanner />
     </>
   );
 };
@@ -31,6 +31,20 @@ export const queryKeys = {
     session: (id: string) => [...queryKeys.breathing.all, 'session', id] as const,
   },
 
+  // Sleep diary
+  diary: {
+    all: ['diary'] as const,
+    list: (params?: { from?: string; limit?: number }) =>
+      [...queryKeys.diary.all, 'list', params] as const,
+    entry: (date: string) => [...queryKeys.diary.all, 'entry', date] as const,
+  },
+
+  // Sleep restriction window
+  sleepWindow: {
+    all: ['sleepWindow'] as const,
+    history: () => [...queryKeys.sleepWindow.all, 'history'] as const,
+  },
+
   // Sync
   sync: {
     all: ['sync'] as const,
@@ -18,6 +18,7 @@ export interface UserProfile {
   level: number;
   streak: number;
   badges: string[];
+  version: number;
   createdAt: string;
   updatedAt: string;
 }
@@ -95,33 +96,112 @@ export interface Badge {
   earnedAt: string;
 }
 
+// ========== Sleep Diary Types ==========
+
+export type SleepQualityRating = 'very_poor' | 'poor' | 'fair' | 'good' | 'excellent';
+
+export interface SleepMetrics {
+  timeInBed: number;
+  totalSleepTime: number;
+  sleepOnsetLatency: number;
+  wakeAfterSleepOnset: number;
+  numberOfAwakenings: number;
+  sleepEfficiency: number;
+  bedtime: string;
+  wakeTime: string;
+  finalAwakening: string;
+  outOfBedTime: string;
+}
+
+export interface DiaryEntryInput {
+  date: string;
+  bedtime: string;
+  lightsOffTime: string;
+  sleepOnsetLatency: number;
+  numberOfAwakenings: number;
+  wakeAfterSleepOnset: number;
+  finalAwakening: string;
+  outOfBedTime: string;
+  subjectiveQuality: SleepQualityRating;
+  morningAlertness: number;
+  notes?: string;
+}
+
+export interface SleepDiaryEntry extends DiaryEntryInput {
+  id: string;
+  metrics: SleepMetrics;
+  version: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// ========== Sleep Window Types ==========
+
+export type SleepWindowAdjustment = 'initial' | 'increase' | 'decrease' | 'maintain';
+
+/**
+ * Prescribed sleep restriction window (see api/src/routes/sleepWindow.ts)
+ */
+export interface SleepWindow {
+  week: number;
+  bedtime: string;
+  wakeTime: string;
+  timeInBed: number;
+  sleepEfficiency: number | null;
+  efficiencyTarget: number | null;
+  adjustment: SleepWindowAdjustment;
+  reason: string | null;
+  createdAt: string;
+}
+
+export interface SleepWindowResponse {
+  current: SleepWindow | null;
+  history: SleepWindow[];
+}
+
 // ========== Sync Types ==========
 
+export type SyncEntity = 'session' | 'profile' | 'quest' | 'badge' | 'diary';
+
+/**
+ * Server resolution policy for stale changes (see api/src/utils/sync.ts)
+ */
+export type ConflictPolicy = 'last_writer_wins' | 'merge' | 'reject';
+
 export interface SyncChange {
-  entity: 'session' | 'profile' | 'quest' | 'badge';
+  entity: SyncEntity;
   action: 'create' | 'update' | 'delete';
   id: string;
   data: Record<string, unknown>;
+  version?: number;
   timestamp: number;
 }
 
 export interface SyncPushRequest {
   changes: Array<{
     localId: string;
-    entity: 'session' | 'profile' | 'quest' | 'badge';
+    entity: SyncEntity;
     action: 'create' | 'update' | 'delete';
     data: Record<string, unknown>;
     clientTimestamp: number;
+    serverId?: string;
+    baseVersion?: number;
   }>;
   lastSyncTime: number;
 }
 
+export interface SyncPushResult {
+  localId: string;
+  serverId: string;
+  status: 'synced' | 'merged' | 'conflict' | 'error';
+  version?: number;
+  policy?: ConflictPolicy;
+  serverData?: Record<string, unknown> | null;
+  error?: string;
+}
+
 export interface SyncPushResponse {
-  results: Array<{
-    localId: string;
-    serverId: string;
-    status: 'synced' | 'error';
-  }>;
+  results: SyncPushResult[];
   serverTime: number;
 }
 
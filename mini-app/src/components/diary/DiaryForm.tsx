@@ -0,0 +1,219 @@
+/**
+ * DiaryForm Component
+ * ===================
+ * Sleep diary entry form with time pickers and live TIB/TST/SE.
+ */
+
+import React, { useMemo } from 'react';
+import { Card } from '@/components/common';
+import { haptics } from '@/services/haptics';
+import type { DiaryEntryInput } from '@/api';
+import {
+  QUALITY_OPTIONS,
+  SE_TARGET,
+  calculateSleepMetrics,
+  formatMinutes,
+} from './metrics';
+
+interface DiaryFormProps {
+  value: DiaryEntryInput;
+  onChange: (value: DiaryEntryInput) => void;
+}
+
+interface TimeFieldProps {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+}
+
+const TimeField: React.FC<TimeFieldProps> = ({ label, value, onChange }) => (
+  <label className="flex items-center justify-between py-2">
+    <span className="text-sm text-night-300">{label}</span>
+    <input
+      type="time"
+      value={value}
+      onChange={(e) => e.target.value && onChange(e.target.value)}
+      className="bg-night-700 text-night-100 rounded-lg px-3 py-1.5 text-base"
+    />
+  </label>
+);
+
+interface StepperFieldProps {
+  label: string;
+  value: number;
+  step: number;
+  max: number;
+  unit?: string;
+  onChange: (value: number) => void;
+}
+
+const StepperField: React.FC<StepperFieldProps> = ({ label, value, step, max, unit, onChange }) => {
+  const update = (next: number) => {
+    haptics.selectionChanged();
+    onChange(Math.max(0, Math.min(max, next)));
+  };
+
+  return (
+    <div className="flex items-center justify-between py-2">
+      <span className="text-sm text-night-300">{label}</span>
+      <div className="flex items-center gap-3">
+        <button
+          type="button"
+          aria-label={`${label}: меньше`}
+          onClick={() => update(value - step)}
+          className="w-8 h-8 rounded-full bg-night-700 text-night-100"
+        >
+          −
+        </button>
+        <span className="min-w-[4rem] text-center text-night-100">
+          {value}{unit ? ` ${unit}` : ''}
+        </span>
+        <button
+          type="button"
+          aria-label={`${label}: больше`}
+          onClick={() => update(value + step)}
+          className="w-8 h-8 rounded-full bg-night-700 text-night-100"
+        >
+          +
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export const DiaryForm: React.FC<DiaryFormProps> = ({ value, onChange }) => {
+  const metrics = useMemo(() => calculateSleepMetrics(value), [value]);
+
+  const set = <K extends keyof DiaryEntryInput>(key: K, fieldValue: DiaryEntryInput[K]) => {
+    onChange({ ...value, [key]: fieldValue });
+  };
+
+  return (
+    <div className="space-y-3">
+      {/* Live metrics */}
+      <Card variant="glass">
+        <div className="grid grid-cols-3 gap-2 text-center">
+          <div>
+            <div className="text-lg font-bold text-calm-blue">
+              {formatMinutes(metrics.timeInBed)}
+            </div>
+            <div className="text-xs text-night-400">в постели</div>
+          </div>
+          <div>
+            <div className="text-lg font-bold text-primary-400">
+              {formatMinutes(metrics.totalSleepTime)}
+            </div>
+            <div className="text-xs text-night-400">сон</div>
+          </div>
+          <div>
+            <div
+              className={`text-lg font-bold ${
+                metrics.sleepEfficiency >= SE_TARGET ? 'text-calm-green' : 'text-calm-amber'
+              }`}
+            >
+              {metrics.sleepEfficiency}%
+            </div>
+            <div className="text-xs text-night-400">эффективность</div>
+          </div>
+        </div>
+      </Card>
+
+      {/* Evening */}
+      <Card>
+        <TimeField label="В постели" value={value.bedtime} onChange={(v) => set('bedtime', v)} />
+        <TimeField label="Свет выключен" value={value.lightsOffTime} onChange={(v) => set('lightsOffTime', v)} />
+        <StepperField
+          label="Засыпание"
+          value={value.sleepOnsetLatency}
+          step={5}
+          max={720}
+          unit="мин"
+          onChange={(v) => set('sleepOnsetLatency', v)}
+        />
+      </Card>
+
+      {/* Night */}
+      <Card>
+        <StepperField
+          label="Пробуждений"
+          value={value.numberOfAwakenings}
+          step={1}
+          max={50}
+          onChange={(v) => set('numberOfAwakenings', v)}
+        />
+        <StepperField
+          label="Без сна ночью"
+          value={value.wakeAfterSleepOnset}
+          step={5}
+          max={720}
+          unit="мин"
+          onChange={(v) => set('wakeAfterSleepOnset', v)}
+        />
+      </Card>
+
+      {/* Morning */}
+      <Card>
+        <TimeField label="Пробуждение" value={value.finalAwakening} onChange={(v) => set('finalAwakening', v)} />
+        <TimeField label="Подъём" value={value.outOfBedTime} onChange={(v) => set('outOfBedTime', v)} />
+      </Card>
+
+      {/* Ratings */}
+      <Card>
+        <div className="text-sm text-night-300 mb-2">Качество сна</div>
+        <div className="flex justify-between mb-4">
+          {QUALITY_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              aria-label={option.label}
+              onClick={() => {
+                haptics.selectionChanged();
+                set('subjectiveQuality', option.value);
+              }}
+              className={`w-11 h-11 rounded-full text-2xl transition-colors ${
+                value.subjectiveQuality === option.value ? 'bg-primary-500/30' : 'bg-night-700'
+              }`}
+            >
+              {option.emoji}
+            </button>
+          ))}
+        </div>
+
+        <div className="text-sm text-night-300 mb-2">Бодрость утром</div>
+        <div className="flex justify-between">
+          {[1, 2, 3, 4, 5].map((level) => (
+            <button
+              key={level}
+              type="button"
+              onClick={() => {
+                haptics.selectionChanged();
+                set('morningAlertness', level);
+              }}
+              className={`w-11 h-11 rounded-full text-base font-medium transition-colors ${
+                value.morningAlertness === level
+                  ? 'bg-primary-500 text-white'
+                  : 'bg-night-700 text-night-300'
+              }`}
+            >
+              {level}
+            </button>
+          ))}
+        </div>
+      </Card>
+
+      {/* Notes */}
+      <Card>
+        <textarea
+          value={value.notes ?? ''}
+          onChange={(e) => set('notes', e.target.value)}
+          maxLength={1000}
+          rows={2}
+          placeholder="Заметки (кофе, стресс, лекарства...)"
+          className="w-full bg-transparent text-night-100 text-sm placeholder:text-night-500 resize-none outline-none"
+        />
+      </Card>
+    </div>
+  );
+};
+
+export default DiaryForm;
@@ -0,0 +1,6 @@
+/**
+ * Diary Components Barrel Export
+ */
+
+export { DiaryForm } from './DiaryForm';
+export * from './metrics';
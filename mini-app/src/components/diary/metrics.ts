@@ -0,0 +1,124 @@
+/**
+ * Sleep Diary Metrics
+ * ===================
+ * Client-side sleep metric calculation for live feedback while logging.
+ * Same formulas as api/src/utils/diary.ts and SleepDiaryService in the bot.
+ *
+ * Definitions (Consensus Sleep Diary, Carney et al. 2012):
+ * - TIB: bedtime → out of bed
+ * - TST: TIB − sleep onset latency − wake after sleep onset
+ * - SE: TST / TIB × 100 (≥85% is the usual CBT-I target)
+ */
+
+import type { DiaryEntryInput, SleepMetrics, SleepQualityRating } from '@/api';
+
+export const QUALITY_OPTIONS: Array<{ value: SleepQualityRating; label: string; emoji: string }> = [
+  { value: 'very_poor', label: 'Очень плохо', emoji: '😫' },
+  { value: 'poor', label: 'Плохо', emoji: '😕' },
+  { value: 'fair', label: 'Нормально', emoji: '😐' },
+  { value: 'good', label: 'Хорошо', emoji: '🙂' },
+  { value: 'excellent', label: 'Отлично', emoji: '😊' },
+];
+
+export const SE_TARGET = 85;
+
+export const HISTORY_DAYS = 14;
+
+function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Calculate TIB/TST/SE from diary fields
+ */
+export const calculateSleepMetrics = (entry: DiaryEntryInput): SleepMetrics => {
+  // Time In Bed (TIB)
+  let timeInBed = timeToMinutes(entry.outOfBedTime) - timeToMinutes(entry.bedtime);
+  if (timeInBed < 0) timeInBed += 24 * 60; // Crossed midnight
+
+  // Total Sleep Time (TST)
+  const totalSleepTime = timeInBed - entry.sleepOnsetLatency - entry.wakeAfterSleepOnset;
+
+  // Sleep Efficiency (SE)
+  const sleepEfficiency = timeInBed > 0
+    ? Math.round((totalSleepTime / timeInBed) * 100)
+    : 0;
+
+  return {
+    timeInBed,
+    totalSleepTime: Math.max(0, totalSleepTime),
+    sleepOnsetLatency: entry.sleepOnsetLatency,
+    wakeAfterSleepOnset: entry.wakeAfterSleepOnset,
+    numberOfAwakenings: entry.numberOfAwakenings,
+    sleepEfficiency: Math.max(0, Math.min(100, sleepEfficiency)),
+    bedtime: entry.bedtime,
+    wakeTime: entry.finalAwakening,
+    finalAwakening: entry.finalAwakening,
+    outOfBedTime: entry.outOfBedTime,
+  };
+};
+
+/**
+ * Format minutes as "7 ч 05 мин"
+ */
+export const formatMinutes = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  if (hours === 0) return `${mins} мин`;
+  return `${hours} ч ${mins.toString().padStart(2, '0')} мин`;
+};
+
+/**
+ * Local calendar date as YYYY-MM-DD
+ */
+export const toDateKey = (date: Date): string => {
+  const year = date.getFullYear();
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+/**
+ * Date keys for the last `days` mornings, newest first
+ */
+export const getRecentDates = (days: number = HISTORY_DAYS, today: Date = new Date()): string[] => {
+  return Array.from({ length: days }, (_, i) => {
+    const date = new Date(today.getFullYear(), today.getMonth(), today.getDate() - i);
+    return toDateKey(date);
+  });
+};
+
+/**
+ * Default form values for a new entry
+ */
+export const createEmptyEntry = (date: string): DiaryEntryInput => ({
+  date,
+  bedtime: '23:00',
+  lightsOffTime: '23:15',
+  sleepOnsetLatency: 20,
+  numberOfAwakenings: 1,
+  wakeAfterSleepOnset: 15,
+  finalAwakening: '06:45',
+  outOfBedTime: '07:00',
+  subjectiveQuality: 'fair',
+  morningAlertness: 3,
+  notes: '',
+});
+
+/**
+ * Diary fields of a stored entry (drops id, metrics and timestamps)
+ */
+export const toEntryInput = (entry: DiaryEntryInput): DiaryEntryInput => ({
+  date: entry.date,
+  bedtime: entry.bedtime,
+  lightsOffTime: entry.lightsOffTime,
+  sleepOnsetLatency: entry.sleepOnsetLatency,
+  numberOfAwakenings: entry.numberOfAwakenings,
+  wakeAfterSleepOnset: entry.wakeAfterSleepOnset,
+  finalAwakening: entry.finalAwakening,
+  outOfBedTime: entry.outOfBedTime,
+  subjectiveQuality: entry.subjectiveQuality,
+  morningAlertness: entry.morningAlertness,
+  notes: entry.notes ?? '',
+});
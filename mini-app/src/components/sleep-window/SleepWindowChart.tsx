@@ -0,0 +1,118 @@
+/**
+ * SleepWindowChart Component
+ * ==========================
+ * Weekly TIB bars with the SE trend line and the 85% target.
+ */
+
+import React, { useMemo } from 'react';
+import { SE_TARGET } from '@/components/diary/metrics';
+import type { SleepWindow } from '@/api';
+import { SE_AXIS_MIN, toChartPoints } from './schedule';
+
+interface SleepWindowChartProps {
+  history: SleepWindow[];
+}
+
+const WIDTH = 320;
+const HEIGHT = 140;
+const LABEL_HEIGHT = 16;
+const PLOT_HEIGHT = HEIGHT - LABEL_HEIGHT;
+
+export const SleepWindowChart: React.FC<SleepWindowChartProps> = ({ history }) => {
+  const points = useMemo(() => toChartPoints(history), [history]);
+
+  if (points.length === 0) return null;
+
+  const slot = WIDTH / points.length;
+  const barWidth = Math.min(28, slot * 0.6);
+  const yFor = (value: number) => PLOT_HEIGHT - value * PLOT_HEIGHT;
+  const targetY = yFor((SE_TARGET - SE_AXIS_MIN) / (100 - SE_AXIS_MIN));
+
+  const linePoints = points
+    .map((point, i) => (point.se === null ? null : `${slot * i + slot / 2},${yFor(point.se)}`))
+    .filter(Boolean)
+    .join(' ');
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-auto"
+        role="img"
+        aria-label="Время в постели и эффективность сна по неделям"
+      >
+        {/* TIB bars */}
+        {points.map((point, i) => (
+          <rect
+            key={`bar-${i}`}
+            x={slot * i + (slot - barWidth) / 2}
+            y={yFor(point.tib)}
+            width={barWidth}
+            height={point.tib * PLOT_HEIGHT}
+            rx={4}
+            className="fill-night-700"
+          />
+        ))}
+
+        {/* SE target */}
+        <line
+          x1={0}
+          x2={WIDTH}
+          y1={targetY}
+          y2={targetY}
+          strokeDasharray="4 4"
+          className="stroke-calm-green/50"
+        />
+
+        {/* SE trend */}
+        {linePoints && (
+          <polyline
+            points={linePoints}
+            fill="none"
+            strokeWidth={2}
+            strokeLinejoin="round"
+            className="stroke-primary-400"
+          />
+        )}
+        {points.map((point, i) =>
+          point.se === null ? null : (
+            <circle
+              key={`se-${i}`}
+              cx={slot * i + slot / 2}
+              cy={yFor(point.se)}
+              r={3}
+              className="fill-primary-400"
+            />
+          )
+        )}
+
+        {/* Week labels */}
+        {points.map((point, i) => (
+          <text
+            key={`label-${i}`}
+            x={slot * i + slot / 2}
+            y={HEIGHT - 3}
+            textAnchor="middle"
+            className="fill-night-500 text-[10px]"
+          >
+            {point.week}
+          </text>
+        ))}
+      </svg>
+
+      <div className="flex justify-center gap-4 mt-2 text-xs text-night-400">
+        <span className="flex items-center gap-1">
+          <span className="w-3 h-3 rounded-sm bg-night-700" /> в постели
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="w-3 h-0.5 bg-primary-400" /> эффективность
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="w-3 border-t border-dashed border-calm-green" /> цель {SE_TARGET}%
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default SleepWindowChart;
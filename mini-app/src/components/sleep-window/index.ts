@@ -0,0 +1,6 @@
+/**
+ * Sleep Window Components Barrel Export
+ */
+
+export { SleepWindowChart } from './SleepWindowChart';
+export * from './schedule';
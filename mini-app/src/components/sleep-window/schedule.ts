@@ -0,0 +1,85 @@
+/**
+ * Sleep Window Schedule
+ * =====================
+ * Countdown and chart helpers for the prescribed sleep restriction window.
+ *
+ * The window is anchored on a fixed wake time; bedtime moves as weekly SE
+ * is re-evaluated (SE ≥90% → earlier bedtime, <85% → later bedtime,
+ * minimum 5 h in bed).
+ */
+
+import type { SleepWindow, SleepWindowAdjustment } from '@/api';
+
+const MINUTES_PER_DAY = 24 * 60;
+
+export const ADJUSTMENT_LABELS: Record<SleepWindowAdjustment, { label: string; icon: string }> = {
+  initial: { label: 'Назначено', icon: '🎯' },
+  increase: { label: 'Окно расширено', icon: '⬆️' },
+  decrease: { label: 'Окно сокращено', icon: '⬇️' },
+  maintain: { label: 'Без изменений', icon: '➡️' },
+};
+
+function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+export interface WindowCountdown {
+  /** Before bedtime (counting down to it) or inside the prescribed window */
+  phase: 'awake' | 'sleep';
+  /** Minutes until bedtime ('awake') or until wake time ('sleep') */
+  minutesLeft: number;
+}
+
+/**
+ * Where `now` falls relative to the prescribed window
+ */
+export const getWindowCountdown = (
+  window: Pick<SleepWindow, 'bedtime' | 'wakeTime'>,
+  now: Date = new Date()
+): WindowCountdown => {
+  const current = now.getHours() * 60 + now.getMinutes();
+  const bedtime = timeToMinutes(window.bedtime);
+  const wakeTime = timeToMinutes(window.wakeTime);
+
+  const sinceBedtime = (current - bedtime + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const windowLength = (wakeTime - bedtime + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+
+  if (sinceBedtime < windowLength) {
+    return { phase: 'sleep', minutesLeft: windowLength - sinceBedtime };
+  }
+
+  return {
+    phase: 'awake',
+    minutesLeft: (bedtime - current + MINUTES_PER_DAY) % MINUTES_PER_DAY,
+  };
+};
+
+export interface ChartPoint {
+  week: number;
+  /** Bar height, 0-1 of the chart */
+  tib: number;
+  /** Line height, 0-1 of the chart (null when SE was not recorded) */
+  se: number | null;
+}
+
+/** Lower bound of the SE axis (percent) */
+export const SE_AXIS_MIN = 50;
+
+/**
+ * Normalize history into chart coordinates, oldest first.
+ * TIB is scaled to the longest window, SE to 50-100%.
+ */
+export const toChartPoints = (history: SleepWindow[]): ChartPoint[] => {
+  const maxTib = Math.max(...history.map((w) => w.timeInBed), 1);
+
+  return [...history]
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    .map((window) => ({
+      week: window.week,
+      tib: window.timeInBed / maxTib,
+      se: window.sleepEfficiency === null
+        ? null
+        : Math.max(0, Math.min(1, (window.sleepEfficiency - SE_AXIS_MIN) / (100 - SE_AXIS_MIN))),
+    }));
+};
@@ -25,6 +25,11 @@ export {
   useBadges,
   useGamification,
 } from './useEvolution';
+export {
+  useDiaryEntries,
+  useSaveDiaryEntry,
+} from './useDiary';
+export { useSleepWindow } from './useSleepWindow';
 
 // Sync
 export { useSync } from './useSync';
@@ -0,0 +1,138 @@
+/**
+ * useDiary Hook
+ * =============
+ * TanStack Query hooks for sleep diary entries.
+ * Saving works offline: entries are queued in syncStore and pushed by useSync.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiClient, queryKeys } from '@/api';
+import type { DiaryEntryInput, SleepDiaryEntry } from '@/api';
+import { useAuthStore } from '@/store/authStore';
+import { useSyncStore } from '@/store/syncStore';
+import { calculateSleepMetrics, getRecentDates, HISTORY_DAYS } from '@/components/diary/metrics';
+
+// ========== useDiaryEntries ==========
+
+interface UseDiaryEntriesReturn {
+  entries: SleepDiaryEntry[] | undefined;
+  isLoading: boolean;
+  isError: boolean;
+  error: Error | null;
+  refetch: () => Promise<unknown>;
+}
+
+export const useDiaryEntries = (days: number = HISTORY_DAYS): UseDiaryEntriesReturn => {
+  const { isAuthenticated } = useAuthStore();
+  const dates = getRecentDates(days);
+  const params = { from: dates[dates.length - 1], limit: days };
+
+  const { data, isLoading, isError, error, refetch } = useQuery({
+    queryKey: queryKeys.diary.list(params),
+    queryFn: async () => {
+      const response = await apiClient.request<{ entries: SleepDiaryEntry[] }>(
+        `/diary?from=${params.from}&limit=${params.limit}`
+      );
+      return response.entries;
+    },
+    enabled: isAuthenticated,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+
+  return {
+    entries: data,
+    isLoading,
+    isError,
+    error: error as Error | null,
+    refetch,
+  };
+};
+
+// ========== useSaveDiaryEntry ==========
+
+interface SaveDiaryEntryParams {
+  entry: DiaryEntryInput;
+  existing?: SleepDiaryEntry;
+}
+
+interface UseSaveDiaryEntryReturn {
+  saveEntry: (params: SaveDiaryEntryParams) => Promise<SleepDiaryEntry>;
+  isSaving: boolean;
+}
+
+/**
+ * Build the entry shown until the server copy arrives
+ */
+const toLocalEntry = (
+  entry: DiaryEntryInput,
+  existing: SleepDiaryEntry | undefined,
+  localId: string
+): SleepDiaryEntry => {
+  const now = new Date().toISOString();
+  return {
+    ...entry,
+    id: existing?.id ?? localId,
+    metrics: calculateSleepMetrics(entry),
+    version: existing?.version ?? 0,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+};
+
+export const useSaveDiaryEntry = (): UseSaveDiaryEntryReturn => {
+  const queryClient = useQueryClient();
+  const { addPendingChange, isOnline } = useSyncStore();
+
+  const mutation = useMutation({
+    mutationFn: async ({ entry, existing }: SaveDiaryEntryParams) => {
+      // If offline, queue for later
+      if (!isOnline) {
+        const localId = `local_${Date.now()}`;
+        addPendingChange({
+          localId,
+          entity: 'diary',
+          action: existing ? 'update' : 'create',
+          data: entry as unknown as Record<string, unknown>,
+          clientTimestamp: Date.now(),
+          serverId: existing?.id,
+          baseVersion: existing?.version || undefined,
+        });
+        return toLocalEntry(entry, existing, localId);
+      }
+
+      if (existing) {
+        const { date, ...fields } = entry;
+        return apiClient.request<SleepDiaryEntry>(`/diary/${date}`, {
+          method: 'PUT',
+          body: JSON.stringify(fields),
+        });
+      }
+
+      return apiClient.request<SleepDiaryEntry>('/diary', {
+        method: 'POST',
+        body: JSON.stringify(entry),
+      });
+    },
+    onSuccess: (saved) => {
+      // Show saved entry in every cached history list
+      queryClient.setQueriesData<SleepDiaryEntry[]>(
+        { queryKey: [...queryKeys.diary.all, 'list'] },
+        (entries) => {
+          if (!entries) return entries;
+          const others = entries.filter((e) => e.date !== saved.date);
+          return [...others, saved].sort((a, b) => b.date.localeCompare(a.date));
+        }
+      );
+
+      // Offline entries stay local until useSync pushes them
+      if (isOnline) {
+        queryClient.invalidateQueries({ queryKey: queryKeys.diary.all });
+      }
+    },
+  });
+
+  return {
+    saveEntry: mutation.mutateAsync,
+    isSaving: mutation.isPending,
+  };
+};
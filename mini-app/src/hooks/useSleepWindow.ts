@@ -0,0 +1,40 @@
+/**
+ * useSleepWindow Hook
+ * ===================
+ * TanStack Query hook for the prescribed sleep restriction window.
+ * Windows are set by the bot's CBT-I engine; the Mini App only reads them.
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { apiClient, queryKeys } from '@/api';
+import type { SleepWindow, SleepWindowResponse } from '@/api';
+import { useAuthStore } from '@/store/authStore';
+
+interface UseSleepWindowReturn {
+  current: SleepWindow | null;
+  history: SleepWindow[];
+  isLoading: boolean;
+  isError: boolean;
+  error: Error | null;
+  refetch: () => Promise<unknown>;
+}
+
+export const useSleepWindow = (): UseSleepWindowReturn => {
+  const { isAuthenticated } = useAuthStore();
+
+  const { data, isLoading, isError, error, refetch } = useQuery({
+    queryKey: queryKeys.sleepWindow.history(),
+    queryFn: () => apiClient.request<SleepWindowResponse>('/sleep-window'),
+    enabled: isAuthenticated,
+    staleTime: 1000 * 60 * 30, // 30 minutes (adjusted weekly)
+  });
+
+  return {
+    current: data?.current ?? null,
+    history: data?.history ?? [],
+    isLoading,
+    isError,
+    error: error as Error | null,
+    refetch,
+  };
+};
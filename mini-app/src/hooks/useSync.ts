@@ -8,8 +8,8 @@
 import { useEffect, useCallback, useRef } from 'react';
 import { useQueryClient } from '@tanstack/react-query';
 import { apiClient, queryKeys } from '@/api';
-import type { SyncPushResponse, SyncChangesResponse } from '@/api';
-import { useSyncStore } from '@/store/syncStore';
+import type { SyncPushResponse, SyncChangesResponse, SyncEntity } from '@/api';
+import { useSyncStore, type SyncConflict, type ConflictResolution } from '@/store/syncStore';
 import { useAuthStore } from '@/store/authStore';
 
 interface UseSyncReturn {
@@ -18,8 +18,10 @@ interface UseSyncReturn {
   pendingCount: number;
   lastSyncTime: number | null;
   syncError: string | null;
+  conflicts: SyncConflict[];
   sync: () => Promise<void>;
   forcePush: () => Promise<void>;
+  resolveConflict: (localId: string, resolution: ConflictResolution) => void;
 }
 
 const MAX_RETRY_COUNT = 3;
@@ -33,16 +35,38 @@ export const useSync = (): UseSyncReturn => {
     isSyncing,
     lastSyncTime,
     pendingChanges,
+    conflicts,
     syncError,
     setSyncing,
     setLastSyncTime,
     removePendingChange,
     incrementRetryCount,
+    addConflict,
+    resolveConflict,
     setSyncError,
   } = useSyncStore();
 
   const syncIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
 
+  // Refetch server copies of changed entities
+  const invalidateEntities = useCallback((entities: Set<SyncEntity>) => {
+    if (entities.has('session')) {
+      queryClient.invalidateQueries({ queryKey: queryKeys.breathing.all });
+    }
+    if (entities.has('profile')) {
+      queryClient.invalidateQueries({ queryKey: queryKeys.user.profile() });
+    }
+    if (entities.has('quest')) {
+      queryClient.invalidateQueries({ queryKey: queryKeys.user.quests() });
+    }
+    if (entities.has('badge')) {
+      queryClient.invalidateQueries({ queryKey: queryKeys.user.badges() });
+    }
+    if (entities.has('diary')) {
+      queryClient.invalidateQueries({ queryKey: queryKeys.diary.all });
+    }
+  }, [queryClient]);
+
   // Push pending changes to server
   const pushChanges = useCallback(async (): Promise<boolean> => {
     const changesToPush = pendingChanges.filter(
@@ -63,21 +87,46 @@ export const useSync = (): UseSyncReturn => {
       });
 
       // Process results
+      const changed = new Set<SyncEntity>();
       for (const result of response.results) {
-        if (result.status === 'synced') {
-          removePendingChange(result.localId);
-        } else {
-          incrementRetryCount(result.localId);
+        const change = changesToPush.find((c) => c.localId === result.localId);
+
+        switch (result.status) {
+          case 'synced':
+            removePendingChange(result.localId);
+            break;
+          case 'merged':
+            // Server combined both copies; local state must pick up the result
+            removePendingChange(result.localId);
+            if (change) changed.add(change.entity);
+            break;
+          case 'conflict':
+            if (change) {
+              addConflict({
+                change,
+                serverId: result.serverId,
+                serverVersion: result.version,
+                serverData: result.serverData ?? null,
+                policy: result.policy,
+              });
+              changed.add(change.entity);
+            }
+            break;
+          default:
+            incrementRetryCount(result.localId);
+            if (result.error) setSyncError(result.error);
         }
       }
+      invalidateEntities(changed);
 
-      setLastSyncTime(response.serverTime);
+      // lastSyncTime only advances on pull: it tells the server which copies
+      // this device has seen, and stale-change detection relies on it
       return true;
     } catch (error) {
       setSyncError(error instanceof Error ? error.message : 'Push failed');
       return false;
     }
-  }, [pendingChanges, lastSyncTime, removePendingChange, incrementRetryCount, setLastSyncTime, setSyncError]);
+  }, [pendingChanges, lastSyncTime, removePendingChange, incrementRetryCount, addConflict, invalidateEntities, setSyncError]);
 
   // Pull changes from server
   const pullChanges = useCallback(async (): Promise<boolean> => {
@@ -88,20 +137,7 @@ export const useSync = (): UseSyncReturn => {
 
       if (response.changes.length > 0) {
         // Invalidate queries for changed entities
-        const entities = new Set(response.changes.map((c) => c.entity));
-
-        if (entities.has('session')) {
-          queryClient.invalidateQueries({ queryKey: queryKeys.breathing.all });
-        }
-        if (entities.has('profile')) {
-          queryClient.invalidateQueries({ queryKey: queryKeys.user.profile() });
-        }
-        if (entities.has('quest')) {
-          queryClient.invalidateQueries({ queryKey: queryKeys.user.quests() });
-        }
-        if (entities.has('badge')) {
-          queryClient.invalidateQueries({ queryKey: queryKeys.user.badges() });
-        }
+        invalidateEntities(new Set(response.changes.map((c) => c.entity)));
       }
 
       setLastSyncTime(response.serverTime);
@@ -110,7 +146,7 @@ export const useSync = (): UseSyncReturn => {
       setSyncError(error instanceof Error ? error.message : 'Pull failed');
       return false;
     }
-  }, [lastSyncTime, queryClient, setLastSyncTime, setSyncError]);
+  }, [lastSyncTime, invalidateEntities, setLastSyncTime, setSyncError]);
 
   // Full sync: push then pull
   const sync = useCallback(async () => {
@@ -189,8 +225,10 @@ export const useSync = (): UseSyncReturn => {
     pendingCount: pendingChanges.length,
     lastSyncTime,
     syncError,
+    conflicts,
     sync,
     forcePush,
+    resolveConflict,
   };
 };
 
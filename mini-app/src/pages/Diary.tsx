@@ -0,0 +1,199 @@
+/**
+ * Diary Page
+ * ==========
+ * Sleep diary logging with live TIB/TST/SE and 14-day history.
+ * Entries are queued offline via syncStore and pushed by useSync.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { motion } from 'motion/react';
+import { useNavigate } from 'react-router-dom';
+import { Button, Card } from '@/components/common';
+import {
+  DiaryForm,
+  QUALITY_OPTIONS,
+  SE_TARGET,
+  createEmptyEntry,
+  formatMinutes,
+  getRecentDates,
+  toEntryInput,
+} from '@/components/diary';
+import { useTelegram, useDiaryEntries, useSaveDiaryEntry } from '@/hooks';
+import { useSyncStore } from '@/store';
+import { haptics } from '@/services/haptics';
+import type { DiaryEntryInput, SleepDiaryEntry } from '@/api';
+
+const formatDateLabel = (date: string, today: string): string => {
+  if (date === today) return 'Сегодня';
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString('ru-RU', {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+  });
+};
+
+export const Diary: React.FC = () => {
+  const navigate = useNavigate();
+  const { showBackButton, hideBackButton } = useTelegram();
+  const { entries, isLoading } = useDiaryEntries();
+  const { saveEntry, isSaving } = useSaveDiaryEntry();
+  const { isOnline } = useSyncStore();
+
+  const dates = useMemo(() => getRecentDates(), []);
+  const today = dates[0];
+
+  const [selectedDate, setSelectedDate] = useState<string>(today);
+  const [form, setForm] = useState<DiaryEntryInput>(() => createEmptyEntry(today));
+  const [error, setError] = useState<string | null>(null);
+
+  const entriesByDate = useMemo(() => {
+    const map = new Map<string, SleepDiaryEntry>();
+    entries?.forEach((entry) => map.set(entry.date, entry));
+    return map;
+  }, [entries]);
+
+  const existing = entriesByDate.get(selectedDate);
+
+  // Setup back button
+  useEffect(() => {
+    showBackButton(() => {
+      navigate('/');
+    });
+
+    return () => {
+      hideBackButton();
+    };
+  }, [showBackButton, hideBackButton, navigate]);
+
+  // Load the selected night into the form (query structural sharing keeps
+  // `existing` stable across refetches, so edits in progress are not reset)
+  useEffect(() => {
+    setForm(existing ? toEntryInput(existing) : createEmptyEntry(selectedDate));
+    setError(null);
+  }, [selectedDate, existing]);
+
+  const handleSave = async () => {
+    setError(null);
+    try {
+      await saveEntry({ entry: form, existing });
+      haptics.notification('success');
+    } catch (err) {
+      haptics.notification('error');
+      setError(err instanceof Error ? err.message : 'Не удалось сохранить запись');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-night-900 px-4 py-6 pb-20">
+      {/* Header */}
+      <motion.div
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="mb-4"
+      >
+        <h1 className="text-2xl font-bold text-night-100">Дневник сна</h1>
+        <p className="text-night-400 mt-1">
+          {formatDateLabel(selectedDate, today)}
+          {existing ? ' · редактирование' : ' · новая запись'}
+        </p>
+      </motion.div>
+
+      {/* Sleep window */}
+      <Card
+        padding="sm"
+        onClick={() => {
+          haptics.selectionChanged();
+          navigate('/sleep-window');
+        }}
+        className="w-full text-left mb-3"
+      >
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-night-200">🛏️ Моё окно сна</span>
+          <span className="text-night-500">›</span>
+        </div>
+      </Card>
+
+      {/* Entry form */}
+      <DiaryForm value={form} onChange={setForm} />
+
+      {error && (
+        <p className="text-sm text-red-400 mt-3">{error}</p>
+      )}
+
+      <Button
+        fullWidth
+        size="lg"
+        className="mt-4"
+        loading={isSaving}
+        onClick={handleSave}
+      >
+        {existing ? 'Обновить запись' : 'Сохранить'}
+      </Button>
+      {!isOnline && (
+        <p className="text-xs text-amber-400 text-center mt-2">
+          Офлайн: запись синхронизируется при подключении
+        </p>
+      )}
+
+      {/* History */}
+      <h2 className="text-lg font-semibold text-night-100 mt-8 mb-3">
+        Последние 14 дней
+      </h2>
+      {isLoading ? (
+        <div className="animate-pulse space-y-2">
+          {[0, 1, 2].map((i) => (
+            <div key={i} className="h-14 bg-night-800 rounded-2xl" />
+          ))}
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {dates.map((date) => {
+            const entry = entriesByDate.get(date);
+            const quality = QUALITY_OPTIONS.find((q) => q.value === entry?.subjectiveQuality);
+
+            return (
+              <Card
+                key={date}
+                padding="sm"
+                variant={date === selectedDate ? 'elevated' : 'default'}
+                onClick={() => {
+                  haptics.selectionChanged();
+                  setSelectedDate(date);
+                }}
+                className="w-full text-left"
+              >
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-night-200">
+                    {formatDateLabel(date, today)}
+                  </span>
+                  {entry ? (
+                    <span className="flex items-center gap-3 text-sm">
+                      <span className="text-night-300">
+                        {formatMinutes(entry.metrics.totalSleepTime)}
+                      </span>
+                      <span
+                        className={
+                          entry.metrics.sleepEfficiency >= SE_TARGET
+                            ? 'text-calm-green'
+                            : 'text-calm-amber'
+                        }
+                      >
+                        {entry.metrics.sleepEfficiency}%
+                      </span>
+                      <span>{quality?.emoji}</span>
+                    </span>
+                  ) : (
+                    <span className="text-xs text-night-500">нет записи</span>
+                  )}
+                </div>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Diary;
@@ -0,0 +1,172 @@
+/**
+ * Sleep Window Page
+ * =================
+ * Current prescribed bedtime / wake time with a countdown to bedtime,
+ * weekly TIB vs SE chart and the history of window adjustments.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { motion } from 'motion/react';
+import { useNavigate } from 'react-router-dom';
+import { Card } from '@/components/common';
+import { SE_TARGET, formatMinutes } from '@/components/diary';
+import {
+  ADJUSTMENT_LABELS,
+  SleepWindowChart,
+  getWindowCountdown,
+} from '@/components/sleep-window';
+import { useTelegram, useSleepWindow } from '@/hooks';
+
+const COUNTDOWN_INTERVAL_MS = 30 * 1000;
+
+const formatWeekDate = (iso: string): string =>
+  new Date(iso).toLocaleDateString('ru-RU', { day: 'numeric', month: 'short' });
+
+export const SleepWindow: React.FC = () => {
+  const navigate = useNavigate();
+  const { showBackButton, hideBackButton } = useTelegram();
+  const { current, history, isLoading } = useSleepWindow();
+  const [now, setNow] = useState(() => new Date());
+
+  // Setup back button
+  useEffect(() => {
+    showBackButton(() => {
+      navigate('/diary');
+    });
+
+    return () => {
+      hideBackButton();
+    };
+  }, [showBackButton, hideBackButton, navigate]);
+
+  // Tick the countdown
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), COUNTDOWN_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const countdown = current ? getWindowCountdown(current, now) : null;
+
+  return (
+    <div className="min-h-screen bg-night-900 px-4 py-6 pb-20">
+      {/* Header */}
+      <motion.div
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="mb-4"
+      >
+        <h1 className="text-2xl font-bold text-night-100">Окно сна</h1>
+        <p className="text-night-400 mt-1">
+          {current ? `Неделя ${current.week} · ограничение сна` : 'Ограничение сна'}
+        </p>
+      </motion.div>
+
+      {isLoading ? (
+        <div className="animate-pulse space-y-3">
+          <div className="h-40 bg-night-800 rounded-2xl" />
+          <div className="h-48 bg-night-800 rounded-2xl" />
+        </div>
+      ) : !current || !countdown ? (
+        <Card className="text-center">
+          <div className="text-4xl mb-3">🌙</div>
+          <p className="text-night-200">Окно сна ещё не назначено</p>
+          <p className="text-sm text-night-400 mt-2">
+            Заполняйте дневник сна неделю: по нему будет рассчитано время отхода ко сну и подъёма.
+          </p>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {/* Current window */}
+          <Card variant="glass">
+            <div className="flex items-center justify-between">
+              <div>
+                <div className="text-xs text-night-400">Отбой</div>
+                <div className="text-3xl font-bold text-night-100">{current.bedtime}</div>
+              </div>
+              <div className="text-night-500 text-xl">→</div>
+              <div className="text-right">
+                <div className="text-xs text-night-400">Подъём</div>
+                <div className="text-3xl font-bold text-night-100">{current.wakeTime}</div>
+              </div>
+            </div>
+            <div className="mt-3 text-sm text-night-300 text-center">
+              В постели: {formatMinutes(current.timeInBed)}
+            </div>
+          </Card>
+
+          {/* Countdown */}
+          <Card className="text-center">
+            {countdown.phase === 'awake' ? (
+              <>
+                <div className="text-xs text-night-400">До отбоя</div>
+                <div className="text-2xl font-bold text-primary-400 mt-1">
+                  {formatMinutes(countdown.minutesLeft)}
+                </div>
+                <p className="text-xs text-night-500 mt-2">
+                  Ложитесь не раньше {current.bedtime}, даже если хочется спать
+                </p>
+              </>
+            ) : (
+              <>
+                <div className="text-xs text-night-400">Время сна · до подъёма</div>
+                <div className="text-2xl font-bold text-calm-blue mt-1">
+                  {formatMinutes(countdown.minutesLeft)}
+                </div>
+                <p className="text-xs text-night-500 mt-2">
+                  Вставайте в {current.wakeTime}, даже после плохой ночи
+                </p>
+              </>
+            )}
+          </Card>
+
+          {/* TIB vs SE */}
+          <Card>
+            <div className="text-sm text-night-300 mb-3">Окно и эффективность по неделям</div>
+            <SleepWindowChart history={history} />
+          </Card>
+
+          {/* Adjustments */}
+          <h2 className="text-lg font-semibold text-night-100 pt-5">История изменений</h2>
+          <div className="space-y-2">
+            {history.map((window) => {
+              const adjustment = ADJUSTMENT_LABELS[window.adjustment];
+
+              return (
+                <Card key={`${window.week}-${window.createdAt}`} padding="sm">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <div className="text-sm text-night-200">
+                        {adjustment.icon} {adjustment.label}
+                      </div>
+                      <div className="text-xs text-night-500">
+                        Неделя {window.week} · {formatWeekDate(window.createdAt)}
+                      </div>
+                    </div>
+                    <div className="text-right text-sm">
+                      <div className="text-night-300">
+                        {window.bedtime}–{window.wakeTime}
+                      </div>
+                      {window.sleepEfficiency !== null && (
+                        <div
+                          className={
+                            window.sleepEfficiency >= (window.efficiencyTarget ?? SE_TARGET)
+                              ? 'text-calm-green'
+                              : 'text-calm-amber'
+                          }
+                        >
+                          SE {window.sleepEfficiency}%
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                </Card>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SleepWindow;
@@ -5,3 +5,5 @@
 export { Home } from './Home';
 export { Breathing } from './Breathing';
 export { Profile } from './Profile';
+export { Diary } from './Diary';
+export { SleepWindow } from './SleepWindow';
@@ -2,27 +2,45 @@
  * Sync Store
  * ==========
  * Zustand store for offline-first synchronization.
- * Manages pending changes and sync status.
+ * Manages pending changes, sync status and unresolved conflicts.
  */
 
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import type { ConflictPolicy, SyncEntity } from '@/api';
 
-interface PendingChange {
+export interface PendingChange {
   localId: string;
-  entity: 'session' | 'profile' | 'quest' | 'badge';
+  entity: SyncEntity;
   action: 'create' | 'update' | 'delete';
   data: Record<string, unknown>;
   clientTimestamp: number;
+  serverId?: string;
+  baseVersion?: number; // server version the local edit was made on
   retryCount?: number;
 }
 
+/**
+ * Change the server did not apply because the server copy changed meanwhile
+ */
+export interface SyncConflict {
+  change: PendingChange;
+  serverId: string;
+  serverVersion?: number;
+  serverData: Record<string, unknown> | null;
+  policy?: ConflictPolicy;
+  detectedAt: number;
+}
+
+export type ConflictResolution = 'keep_server' | 'keep_local';
+
 interface SyncState {
   // State
   isOnline: boolean;
   isSyncing: boolean;
   lastSyncTime: number | null;
   pendingChanges: PendingChange[];
+  conflicts: SyncConflict[];
   syncError: string | null;
 
   // Actions
@@ -34,6 +52,8 @@ interface SyncState {
   updatePendingChange: (localId: string, serverId: string) => void;
   clearPendingChanges: () => void;
   incrementRetryCount: (localId: string) => void;
+  addConflict: (conflict: Omit<SyncConflict, 'detectedAt'>) => void;
+  resolveConflict: (localId: string, resolution: ConflictResolution) => void;
   setSyncError: (error: string | null) => void;
 }
 
@@ -45,6 +65,7 @@ export const useSyncStore = create<SyncState>()(
       isSyncing: false,
       lastSyncTime: null,
       pendingChanges: [],
+      conflicts: [],
       syncError: null,
 
       // Set online status
@@ -92,14 +113,59 @@ export const useSyncStore = create<SyncState>()(
           ),
         })),
 
+      // Move a rejected change out of the queue until the user decides
+      addConflict: (conflict) =>
+        set((state) => ({
+          pendingChanges: state.pendingChanges.filter(
+            (c) => c.localId !== conflict.change.localId
+          ),
+          conflicts: [
+            ...state.conflicts.filter(
+              (c) => c.change.localId !== conflict.change.localId
+            ),
+            { ...conflict, detectedAt: Date.now() },
+          ],
+        })),
+
+      // keep_server drops the local edit; keep_local re-queues it on top of
+      // the server version so the next push overwrites the server copy
+      resolveConflict: (localId, resolution) =>
+        set((state) => {
+          const conflict = state.conflicts.find((c) => c.change.localId === localId);
+          if (!conflict) {
+            return state;
+          }
+
+          const conflicts = state.conflicts.filter((c) => c !== conflict);
+          if (resolution === 'keep_server') {
+            return { conflicts };
+          }
+
+          return {
+            conflicts,
+            pendingChanges: [
+              ...state.pendingChanges,
+              {
+                ...conflict.change,
+                action: conflict.change.action === 'create' ? 'update' : conflict.change.action,
+                serverId: conflict.serverId,
+                baseVersion: conflict.serverVersion,
+                clientTimestamp: Date.now(),
+                retryCount: 0,
+              },
+            ],
+          };
+        }),
+
       // Set sync error
       setSyncError: (error) => set({ syncError: error }),
     }),
     {
       name: 'sleepcore-sync',
-      // Persist pending changes and last sync time
+      // Persist pending changes, conflicts and last sync time
       partialize: (state) => ({
         pendingChanges: state.pendingChanges,
+        conflicts: state.conflicts,
         lastSyncTime: state.lastSyncTime,
       }),
     }
@@ -0,0 +1,89 @@
+/**
+ * Diary Metrics Tests
+ * ===================
+ * Tests for sleep diary metric calculation and date helpers.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  calculateSleepMetrics,
+  createEmptyEntry,
+  formatMinutes,
+  getRecentDates,
+  toDateKey,
+  toEntryInput,
+  HISTORY_DAYS,
+} from '../../src/components/diary/metrics';
+
+describe('Diary Metrics', () => {
+  const entry = {
+    ...createEmptyEntry('2026-01-15'),
+    bedtime: '23:00',
+    outOfBedTime: '07:00',
+    sleepOnsetLatency: 30,
+    wakeAfterSleepOnset: 30,
+  };
+
+  describe('calculateSleepMetrics', () => {
+    it('should compute TIB across midnight, TST and SE', () => {
+      const metrics = calculateSleepMetrics(entry);
+
+      expect(metrics.timeInBed).toBe(480);
+      expect(metrics.totalSleepTime).toBe(420);
+      expect(metrics.sleepEfficiency).toBe(88);
+    });
+
+    it('should handle bedtime after midnight', () => {
+      const metrics = calculateSleepMetrics({ ...entry, bedtime: '01:30' });
+      expect(metrics.timeInBed).toBe(330);
+    });
+
+    it('should clamp TST and SE at zero', () => {
+      const metrics = calculateSleepMetrics({
+        ...entry,
+        bedtime: '06:30',
+        sleepOnsetLatency: 60,
+      });
+
+      expect(metrics.totalSleepTime).toBe(0);
+      expect(metrics.sleepEfficiency).toBe(0);
+    });
+  });
+
+  describe('formatMinutes', () => {
+    it('should format hours and minutes', () => {
+      expect(formatMinutes(425)).toBe('7 ч 05 мин');
+      expect(formatMinutes(45)).toBe('45 мин');
+    });
+  });
+
+  describe('getRecentDates', () => {
+    it('should return the last 14 dates newest first', () => {
+      const dates = getRecentDates(HISTORY_DAYS, new Date(2026, 2, 5, 8, 0));
+
+      expect(dates).toHaveLength(14);
+      expect(dates[0]).toBe('2026-03-05');
+      expect(dates[4]).toBe('2026-03-01');
+      expect(dates[5]).toBe('2026-02-28');
+    });
+
+    it('should use the local calendar date', () => {
+      expect(toDateKey(new Date(2026, 0, 1, 0, 30))).toBe('2026-01-01');
+    });
+  });
+
+  describe('toEntryInput', () => {
+    it('should drop server fields from a stored entry', () => {
+      const stored = {
+        ...entry,
+        id: 'entry-1',
+        metrics: calculateSleepMetrics(entry),
+        version: 2,
+        createdAt: '2026-01-15T07:00:00.000Z',
+        updatedAt: '2026-01-15T07:00:00.000Z',
+      };
+
+      expect(toEntryInput(stored)).toEqual(entry);
+    });
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Sleep Window Schedule Tests
+ * ===========================
+ * Tests for the bedtime countdown and TIB/SE chart helpers.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getWindowCountdown, toChartPoints } from '../../src/components/sleep-window/schedule';
+import type { SleepWindow } from '../../src/api/types';
+
+describe('Sleep Window Schedule', () => {
+  const window = { bedtime: '00:30', wakeTime: '06:30' };
+
+  describe('getWindowCountdown', () => {
+    it('should count down to bedtime during the day', () => {
+      const countdown = getWindowCountdown(window, new Date(2026, 0, 15, 22, 0));
+
+      expect(countdown).toEqual({ phase: 'awake', minutesLeft: 150 });
+    });
+
+    it('should count down to bedtime right after waking', () => {
+      const countdown = getWindowCountdown(window, new Date(2026, 0, 15, 6, 30));
+
+      expect(countdown).toEqual({ phase: 'awake', minutesLeft: 18 * 60 });
+    });
+
+    it('should report time until wake inside the window', () => {
+      const countdown = getWindowCountdown(window, new Date(2026, 0, 15, 2, 15));
+
+      expect(countdown).toEqual({ phase: 'sleep', minutesLeft: 255 });
+    });
+
+    it('should handle windows starting before midnight', () => {
+      const evening = { bedtime: '23:15', wakeTime: '06:00' };
+
+      expect(getWindowCountdown(evening, new Date(2026, 0, 15, 23, 45)))
+        .toEqual({ phase: 'sleep', minutesLeft: 375 });
+      expect(getWindowCountdown(evening, new Date(2026, 0, 15, 21, 0)))
+        .toEqual({ phase: 'awake', minutesLeft: 135 });
+    });
+  });
+
+  describe('toChartPoints', () => {
+    const makeWindow = (
+      week: number,
+      timeInBed: number,
+      sleepEfficiency: number | null
+    ): SleepWindow => ({
+      week,
+      bedtime: '00:30',
+      wakeTime: '06:30',
+      timeInBed,
+      sleepEfficiency,
+      efficiencyTarget: 85,
+      adjustment: week === 1 ? 'initial' : 'maintain',
+      reason: null,
+      createdAt: `2026-01-0${week}T08:00:00.000Z`,
+    });
+
+    it('should order oldest first and scale TIB to the longest window', () => {
+      const points = toChartPoints([makeWindow(2, 300, 80), makeWindow(1, 400, 60)]);
+
+      expect(points.map((p) => p.week)).toEqual([1, 2]);
+      expect(points[0].tib).toBe(1);
+      expect(points[1].tib).toBe(0.75);
+    });
+
+    it('should scale SE to the 50-100% axis and keep missing SE', () => {
+      const points = toChartPoints([
+        makeWindow(1, 360, 75),
+        makeWindow(2, 360, 40),
+        makeWindow(3, 360, null),
+      ]);
+
+      expect(points.map((p) => p.se)).toEqual([0.5, 0, null]);
+    });
+
+    it('should return no points for empty history', () => {
+      expect(toChartPoints([])).toEqual([]);
+    });
+  });
+});
@@ -23,6 +23,7 @@ describe('Sync Store', () => {
       isSyncing: false,
       lastSyncTime: null,
       pendingChanges: [],
+      conflicts: [],
       syncError: null,
     });
   });
@@ -254,6 +255,82 @@ describe('Sync Store', () => {
     });
   });
 
+  describe('conflicts', () => {
+    const diaryChange = {
+      localId: 'local-diary',
+      entity: 'diary' as const,
+      action: 'create' as const,
+      data: { date: '2026-01-15', notes: 'local' },
+      clientTimestamp: 1000,
+    };
+
+    const addDiaryConflict = () => {
+      const { addPendingChange, addConflict } = useSyncStore.getState();
+      addPendingChange(diaryChange);
+      addConflict({
+        change: { ...diaryChange, retryCount: 0 },
+        serverId: 'server-diary',
+        serverVersion: 2,
+        serverData: { date: '2026-01-15', notes: 'server' },
+        policy: 'reject',
+      });
+    };
+
+    it('should move a conflicting change out of the queue', () => {
+      addDiaryConflict();
+
+      const state = useSyncStore.getState();
+      expect(state.pendingChanges).toHaveLength(0);
+      expect(state.conflicts).toHaveLength(1);
+      expect(state.conflicts[0].serverData).toEqual({ date: '2026-01-15', notes: 'server' });
+      expect(state.conflicts[0].detectedAt).toBeGreaterThan(0);
+    });
+
+    it('should replace an earlier conflict for the same change', () => {
+      addDiaryConflict();
+      addDiaryConflict();
+
+      expect(useSyncStore.getState().conflicts).toHaveLength(1);
+    });
+
+    it('should drop the local edit when keeping the server copy', () => {
+      addDiaryConflict();
+
+      useSyncStore.getState().resolveConflict('local-diary', 'keep_server');
+
+      const state = useSyncStore.getState();
+      expect(state.conflicts).toHaveLength(0);
+      expect(state.pendingChanges).toHaveLength(0);
+    });
+
+    it('should re-queue the local edit on top of the server version', () => {
+      addDiaryConflict();
+
+      useSyncStore.getState().resolveConflict('local-diary', 'keep_local');
+
+      const { conflicts, pendingChanges } = useSyncStore.getState();
+      expect(conflicts).toHaveLength(0);
+      expect(pendingChanges).toHaveLength(1);
+      expect(pendingChanges[0]).toMatchObject({
+        localId: 'local-diary',
+        action: 'update',
+        serverId: 'server-diary',
+        baseVersion: 2,
+        retryCount: 0,
+        data: { notes: 'local' },
+      });
+      expect(pendingChanges[0].clientTimestamp).toBeGreaterThan(1000);
+    });
+
+    it('should ignore unknown conflicts', () => {
+      addDiaryConflict();
+
+      useSyncStore.getState().resolveConflict('non-existent', 'keep_local');
+
+      expect(useSyncStore.getState().conflicts).toHaveLength(1);
+    });
+  });
+
   describe('sync workflow', () => {
     it('should handle complete sync flow', () => {
       const {
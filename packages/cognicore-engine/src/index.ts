@@ -141,6 +141,7 @@ export type {
   Observation,
   BeliefUpdateResult,
   IBeliefUpdateEngine,
+  BeliefState as BeliefUpdateState,
 } from './belief/IBeliefUpdate';
 
 // Phase 1 Integration: BeliefStateAdapter
@@ -222,8 +223,28 @@ export type {
   ICausalEdge,
   ICausalNode,
   IInterventionTarget,
+  ICausalObservation,
+  ICausalDiscoveryConfig,
+  ICausalDiscoveryResult,
+  ICausalDiscoveryEngine,
+  IDoOperatorResult,
+  IInterventionTargetingService,
 } from './causal/interfaces/ICausalGraph';
 
+export { DEFAULT_DISCOVERY_CONFIG } from './causal/interfaces/ICausalGraph';
+
+// Causal Discovery Engine - PC skeleton + BIC score search
+export {
+  CausalDiscoveryEngine,
+  createCausalDiscoveryEngine,
+} from './causal/engines/CausalDiscoveryEngine';
+
+// Intervention Targeting - do-calculus effect estimation
+export {
+  InterventionTargetingService,
+  createInterventionTargetingService,
+} from './causal/services/InterventionTargetingService';
+
 // =============================================================================
 // EXPLAINABILITY
 // =============================================================================
@@ -260,11 +281,113 @@ export type {
 export type {
   IIncomingMessage,
   IMessageAnalysis,
+  IExtractedEntity,
+  ISleepReport,
+  ISleepReportMedication,
+  SleepEntityType,
   IPipelineResult,
+  IPipelineConfig,
+  IPipelineStats,
+  IPipelineStageStats,
+  IPipelineStageResult,
+  IPipelineStage,
+  IPipelineStageData,
+  IPipelineContext,
+  IPipelineRiskAssessment,
+  IMessageProcessingPipeline,
+  StageFailurePolicy,
+  PipelineEvent,
+  PipelineEventHandler,
   MessageIntent,
   AgeGroup as PipelineAgeGroup,
 } from './pipeline/IMessagePipeline';
 
+export {
+  DEFAULT_PIPELINE_CONFIG,
+  PIPELINE_STAGE_ORDER,
+} from './pipeline/IMessagePipeline';
+
+export {
+  MessageProcessingPipeline,
+  createMessageProcessingPipeline,
+} from './pipeline/MessageProcessingPipeline';
+
+export {
+  SleepEntityExtractor,
+  createSleepEntityExtractor,
+} from './pipeline/SleepEntityExtractor';
+
+// =============================================================================
+// INTEGRATION (Cognitive Core API)
+// =============================================================================
+
+export type {
+  ICognitiveCoreAPI,
+  ICognitiveCoreConfig,
+  ICognitiveCorePersistence,
+  IDomainEvent,
+  IEventMetadata,
+  IEventBus,
+  IEventSubscription,
+  EventHandler,
+  IEventStore,
+  IStoredEvent,
+  IStateRepository,
+  ISessionRepository,
+  IUserSession,
+  ISessionContext,
+  IStateUpdatedEvent,
+  IInterventionOutcomeEvent,
+  ICrisisDetectedEvent,
+  IPredictionGeneratedEvent,
+} from './integration/ICognitiveCoreAPI';
+
+export { DEFAULT_COGNITIVE_CORE_CONFIG } from './integration/ICognitiveCoreAPI';
+
+// =============================================================================
+// PROJECTIONS (event-sourced read models)
+// =============================================================================
+
+export type {
+  IProjection,
+  IProjectionCheckpoint,
+  IProjectionSnapshot,
+  IProjectionStore,
+  IProjectionRunResult,
+  IProjectionRunnerConfig,
+  IProjectionRunner,
+} from './projections/interfaces/IProjection';
+
+export { DEFAULT_PROJECTION_RUNNER_CONFIG } from './projections/interfaces/IProjection';
+
+export {
+  ProjectionRunner,
+  InMemoryProjectionStore,
+  createProjectionRunner,
+} from './projections/ProjectionRunner';
+
+export type {
+  IInterventionEffectiveness,
+  InterventionEffectivenessState,
+} from './projections/InterventionEffectivenessProjection';
+
+export {
+  InterventionEffectivenessProjection,
+  createInterventionEffectivenessProjection,
+  rankInterventionEffectiveness,
+} from './projections/InterventionEffectivenessProjection';
+
+export type {
+  ICrisisTimelineEntry,
+  IUserCrisisTimeline,
+  CrisisTimelineState,
+} from './projections/CrisisTimelineProjection';
+
+export {
+  CrisisTimelineProjection,
+  createCrisisTimelineProjection,
+} from './projections/CrisisTimelineProjection';
+
 // =============================================================================
 // DIGITAL TWIN
 // =============================================================================
@@ -277,8 +400,20 @@ export type {
   IScenarioResult,
   ITippingPoint,
   IDigitalTwinService,
+  ISimulatedTrajectory,
+  ISimulationConfig,
+  ITwinPersonalization,
+  ITwinSimulatorService,
 } from './twin/interfaces/IDigitalTwin';
 
+export {
+  DEFAULT_SIMULATION_CONFIG,
+  generateTwinId,
+} from './twin/interfaces/IDigitalTwin';
+
+// Monte Carlo Engine - what-if trajectories over a twin state
+export { MonteCarloEngine } from './twin/engines/MonteCarloEngine';
+
 // =============================================================================
 // UTILITY TYPES
 // =============================================================================
@@ -326,6 +461,23 @@ export {
   DEFAULT_PLRNN_CONFIG,
 } from './temporal/engines/PLRNNEngine';
 
+// PLRNN Trainer - Truncated BPTT training on EMA / diary time series
+export type {
+  IPLRNNTrainingConfig,
+  IPLRNNTrainingHistory,
+  ITrainingMetrics,
+  IEMATrainingResult,
+  ITrainingSequence,
+  INormalizationStats,
+} from './temporal/interfaces/IPLRNNTrainer';
+
+export {
+  PLRNNTrainer,
+  createPLRNNTrainer,
+  DEFAULT_TRAINING_CONFIG,
+  TUNED_TRAINING_CONFIG,
+} from './temporal/engines/PLRNNTrainer';
+
 // KalmanFormer Engine - Hybrid Kalman + Transformer architecture
 export type {
   IKalmanFormerEngine,
@@ -48,10 +48,12 @@ import {
   TextAnalysisResultCompletedEvent,
   IInterventionSelectedEvent,
   ICrisisDetectedEvent,
+  IInterventionOutcomeEvent,
   IMessageReceivedEvent,
   DEFAULT_COGNITIVE_CORE_CONFIG,
   CreateCognitiveCoreAPI,
 } from './ICognitiveCoreAPI';
+import { createCognitiveCoreInfrastructure } from './CognitiveCoreInfrastructure';
 
 // Direct imports following 2024-2025 best practices (avoid barrel re-exports)
 import { StateVector } from '../state/StateVector';
@@ -150,303 +152,6 @@ function detectLanguage(text: string): 'en' | 'ru' {
   return cyrillicPattern.test(text) ? 'ru' : 'en';
 }
 
-// ============================================================================
-// IN-MEMORY EVENT BUS
-// ============================================================================
-
-/**
- * In-memory event bus implementation
- */
-class InMemoryEventBus implements IEventBus {
-  private subscriptions: Map<string, Map<string, EventHandler>> = new Map();
-  private subscriptionCounter = 0;
-
-  async publish<T extends IDomainEvent>(event: T): Promise<void> {
-    const handlers = this.subscriptions.get(event.eventType);
-    if (handlers) {
-      const promises = Array.from(handlers.values()).map(handler =>
-        handler(event).catch(err => {
-          console.error(`Error in event handler for ${event.eventType}:`, err);
-        })
-      );
-      await Promise.all(promises);
-    }
-
-    // Also publish to wildcard subscribers
-    const wildcardHandlers = this.subscriptions.get('*');
-    if (wildcardHandlers) {
-      const promises = Array.from(wildcardHandlers.values()).map(handler =>
-        handler(event).catch(err => {
-          console.error(`Error in wildcard handler:`, err);
-        })
-      );
-      await Promise.all(promises);
-    }
-  }
-
-  subscribe<T extends IDomainEvent>(
-    eventType: string,
-    handler: EventHandler<T>
-  ): IEventSubscription {
-    const subscriptionId = `sub-${++this.subscriptionCounter}`;
-
-    if (!this.subscriptions.has(eventType)) {
-      this.subscriptions.set(eventType, new Map());
-    }
-
-    this.subscriptions.get(eventType)!.set(subscriptionId, handler as EventHandler);
-
-    return {
-      id: subscriptionId,
-      eventType,
-      handler: handler as EventHandler,
-      unsubscribe: () => this.unsubscribe(subscriptionId),
-    };
-  }
-
-  subscribeMany(
-    eventTypes: string[],
-    handler: EventHandler
-  ): IEventSubscription[] {
-    return eventTypes.map(eventType => this.subscribe(eventType, handler));
-  }
-
-  unsubscribe(subscriptionId: string): void {
-    for (const handlers of this.subscriptions.values()) {
-      if (handlers.has(subscriptionId)) {
-        handlers.delete(subscriptionId);
-        return;
-      }
-    }
-  }
-
-  clearAll(): void {
-    this.subscriptions.clear();
-  }
-}
-
-// ============================================================================
-// IN-MEMORY EVENT STORE
-// ============================================================================
-
-/**
- * In-memory event store implementation
- */
-class InMemoryEventStore implements IEventStore {
-  private streams: Map<string, IDomainEvent[]> = new Map();
-  private eventBus: IEventBus;
-  private maxEvents: number;
-
-  constructor(eventBus: IEventBus, maxEvents: number = 10000) {
-    this.eventBus = eventBus;
-    this.maxEvents = maxEvents;
-  }
-
-  async append(
-    streamId: string,
-    event: IDomainEvent,
-    expectedVersion?: number
-  ): Promise<void> {
-    if (!this.streams.has(streamId)) {
-      this.streams.set(streamId, []);
-    }
-
-    const stream = this.streams.get(streamId)!;
-
-    if (expectedVersion !== undefined && stream.length !== expectedVersion) {
-      throw new Error(
-        `Concurrency conflict: expected version ${expectedVersion}, actual ${stream.length}`
-      );
-    }
-
-    stream.push(event);
-
-    // Trim if exceeds max
-    if (stream.length > this.maxEvents) {
-      stream.splice(0, stream.length - this.maxEvents);
-    }
-
-    // Publish to event bus
-    await this.eventBus.publish(event);
-  }
-
-  async appendMany(
-    streamId: string,
-    events: IDomainEvent[],
-    expectedVersion?: number
-  ): Promise<void> {
-    for (let i = 0; i < events.length; i++) {
-      const version = expectedVersion !== undefined ? expectedVersion + i : undefined;
-      await this.append(streamId, events[i], version);
-    }
-  }
-
-  async readStream(
-    streamId: string,
-    fromVersion: number = 0,
-    count?: number
-  ): Promise<IDomainEvent[]> {
-    const stream = this.streams.get(streamId) || [];
-    const result = stream.slice(fromVersion, count ? fromVersion + count : undefined);
-    return result;
-  }
-
-  async readByType(
-    eventType: string,
-    fromTimestamp?: Date,
-    toTimestamp?: Date
-  ): Promise<IDomainEvent[]> {
-    const result: IDomainEvent[] = [];
-
-    for (const stream of this.streams.values()) {
-      for (const event of stream) {
-        if (event.eventType !== eventType) continue;
-        if (fromTimestamp && event.timestamp < fromTimestamp) continue;
-        if (toTimestamp && event.timestamp > toTimestamp) continue;
-        result.push(event);
-      }
-    }
-
-    return result.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
-  }
-
-  async getStreamVersion(streamId: string): Promise<number> {
-    const stream = this.streams.get(streamId);
-    return stream ? stream.length : 0;
-  }
-
-  subscribeToStream(
-    streamId: string,
-    handler: EventHandler
-  ): IEventSubscription {
-    // Subscribe to all events but filter by stream ID
-    return this.eventBus.subscribe('*', async (event) => {
-      if (event.aggregateId === streamId) {
-        await handler(event);
-      }
-    });
-  }
-}
-
-// ============================================================================
-// IN-MEMORY STATE REPOSITORY
-// ============================================================================
-
-/**
- * In-memory state repository
- */
-class InMemoryStateRepository implements IStateRepository {
-  private states: Map<string, IStateVector> = new Map();
-  private beliefs: Map<string, BeliefState> = new Map();
-  private history: Map<string, Array<{ state: IStateVector; timestamp: Date }>> = new Map();
-
-  async getState(userId: string): Promise<IStateVector | null> {
-    return this.states.get(userId) || null;
-  }
-
-  async saveState(userId: string, state: IStateVector): Promise<void> {
-    this.states.set(userId, state);
-
-    // Add to history
-    if (!this.history.has(userId)) {
-      this.history.set(userId, []);
-    }
-    this.history.get(userId)!.push({ state, timestamp: new Date() });
-
-    // Keep last 100 entries
-    const hist = this.history.get(userId)!;
-    if (hist.length > 100) {
-      hist.splice(0, hist.length - 100);
-    }
-  }
-
-  async getBelief(userId: string): Promise<BeliefState | null> {
-    return this.beliefs.get(userId) || null;
-  }
-
-  async saveBelief(userId: string, belief: BeliefState): Promise<void> {
-    this.beliefs.set(userId, belief);
-  }
-
-  async getStateHistory(
-    userId: string,
-    limit: number = 50
-  ): Promise<Array<{ state: IStateVector; timestamp: Date }>> {
-    const hist = this.history.get(userId) || [];
-    return hist.slice(-limit);
-  }
-
-  async deleteUserData(userId: string): Promise<void> {
-    this.states.delete(userId);
-    this.beliefs.delete(userId);
-    this.history.delete(userId);
-  }
-}
-
-// ============================================================================
-// IN-MEMORY SESSION REPOSITORY
-// ============================================================================
-
-/**
- * In-memory session repository
- */
-class InMemorySessionRepository implements ISessionRepository {
-  private sessions: Map<string, IUserSession> = new Map();
-  private userActiveSessions: Map<string, string> = new Map();
-
-  async create(session: IUserSession): Promise<void> {
-    this.sessions.set(session.sessionId, session);
-
-    // Set as active session for user
-    if (session.status === 'active') {
-      this.userActiveSessions.set(session.userId, session.sessionId);
-    }
-  }
-
-  async getById(sessionId: string): Promise<IUserSession | null> {
-    return this.sessions.get(sessionId) || null;
-  }
-
-  async getActiveSession(userId: string): Promise<IUserSession | null> {
-    const sessionId = this.userActiveSessions.get(userId);
-    if (!sessionId) return null;
-
-    const session = this.sessions.get(sessionId);
-    if (!session || session.status !== 'active') {
-      this.userActiveSessions.delete(userId);
-      return null;
-    }
-
-    return session;
-  }
-
-  async update(session: IUserSession): Promise<void> {
-    this.sessions.set(session.sessionId, session);
-  }
-
-  async endSession(sessionId: string): Promise<void> {
-    const session = this.sessions.get(sessionId);
-    if (session) {
-      session.status = 'ended';
-      this.userActiveSessions.delete(session.userId);
-    }
-  }
-
-  async getSessionHistory(userId: string, limit: number = 10): Promise<IUserSession[]> {
-    const userSessions: IUserSession[] = [];
-
-    for (const session of this.sessions.values()) {
-      if (session.userId === userId) {
-        userSessions.push(session);
-      }
-    }
-
-    return userSessions
-      .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime())
-      .slice(0, limit);
-  }
-}
-
 // ============================================================================
 // COGNITIVE CORE API IMPLEMENTATION
 // ============================================================================
@@ -476,11 +181,12 @@ export class CognitiveCoreAPI implements ICognitiveCoreAPI {
   constructor(config: ICognitiveCoreConfig) {
     this.config = config;
 
-    // Initialize infrastructure
-    this.eventBus = new InMemoryEventBus();
-    this.eventStore = new InMemoryEventStore(this.eventBus, config.maxEventsInMemory);
-    this.stateRepository = new InMemoryStateRepository();
-    this.sessionRepository = new InMemorySessionRepository();
+    // Initialize infrastructure (injected adapters or in-memory defaults)
+    const infrastructure = createCognitiveCoreInfrastructure(config);
+    this.eventBus = infrastructure.eventBus;
+    this.eventStore = infrastructure.eventStore;
+    this.stateRepository = infrastructure.stateRepository;
+    this.sessionRepository = infrastructure.sessionRepository;
 
     // Initialize cognitive engines
     this.beliefEngine = createBeliefUpdateEngine();
@@ -1285,6 +991,22 @@ export class CognitiveCoreAPI implements ICognitiveCoreAPI {
 
       await this.interventionOptimizer.recordOutcome(outcome);
 
+      await this.emitEvent<IInterventionOutcomeEvent>({
+        eventId: generateId(),
+        eventType: 'INTERVENTION_OUTCOME',
+        aggregateId: command.userId,
+        aggregateType: 'intervention',
+        timestamp: outcome.timestamp,
+        version: 1,
+        payload: {
+          userId: command.userId,
+          interventionId: command.interventionId,
+          outcome,
+          rewardSignal: outcome.value,
+        },
+        metadata: this.createMetadata(command.userId),
+      });
+
       return createResponse(true, undefined, undefined, startTime);
     } catch (error) {
       return createResponse(false, undefined, {
@@ -1652,7 +1374,7 @@ export class CognitiveCoreAPI implements ICognitiveCoreAPI {
    */
   private createMetadata(
     userId: string,
-    sessionId: string,
+    sessionId?: string,
     correlationId?: string
   ): IEventMetadata {
     return {
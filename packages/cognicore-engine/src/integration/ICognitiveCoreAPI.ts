@@ -409,6 +409,20 @@ export interface ISessionContext {
 // PERSISTENCE INTERFACES
 // ============================================================================
 
+/**
+ * Event with its position in the store-wide append order
+ */
+export interface IStoredEvent {
+  /** Global position (monotonic, 1-based) */
+  readonly position: number;
+
+  /** Stream the event was appended to */
+  readonly streamId: string;
+
+  /** The event */
+  readonly event: IDomainEvent;
+}
+
 /**
  * Event store for event sourcing
  * Enables full audit trail and state reconstruction
@@ -464,6 +478,18 @@ export interface IEventStore {
     toTimestamp?: Date
   ): Promise<IDomainEvent[]>;
 
+  /**
+   * Read events across all streams in append order
+   * Used by projections to checkpoint and replay
+   * @param fromPosition - Global position to read after (0 = from the start)
+   * @param count - Maximum events to read
+   * @returns Events with their global positions
+   */
+  readAll(
+    fromPosition?: number,
+    count?: number
+  ): Promise<IStoredEvent[]>;
+
   /**
    * Get current version of stream
    * @param streamId - Stream identifier
@@ -526,6 +552,17 @@ export interface IStateRepository {
     limit?: number
   ): Promise<Array<{ state: IStateVector; timestamp: Date }>>;
 
+  /**
+   * Get belief history
+   * @param userId - User identifier
+   * @param limit - Maximum entries
+   * @returns Belief history, oldest first
+   */
+  getBeliefHistory(
+    userId: string,
+    limit?: number
+  ): Promise<Array<{ belief: BeliefState; timestamp: Date }>>;
+
   /**
    * Delete user data (GDPR right to erasure)
    * @param userId - User identifier
@@ -1095,6 +1132,27 @@ export interface ICognitiveCoreAPI {
 // FACTORY
 // ============================================================================
 
+/**
+ * Persistence adapters for Cognitive Core API
+ * Adapters left out fall back to the in-memory implementations
+ */
+export interface ICognitiveCorePersistence {
+  /** Event bus shared by the API and the event store */
+  eventBus?: IEventBus;
+
+  /**
+   * Event store, or a factory receiving the API's event bus
+   * so that appended events are still published to subscribers
+   */
+  eventStore?: IEventStore | ((eventBus: IEventBus) => IEventStore);
+
+  /** State and belief repository */
+  stateRepository?: IStateRepository;
+
+  /** Session repository */
+  sessionRepository?: ISessionRepository;
+}
+
 /**
  * Configuration for Cognitive Core API
  */
@@ -1132,6 +1190,9 @@ export interface ICognitiveCoreConfig {
 
   /** Max events to keep in memory */
   maxEventsInMemory: number;
+
+  /** Injected persistence adapters (default: in-memory) */
+  persistence?: ICognitiveCorePersistence;
 }
 
 /**
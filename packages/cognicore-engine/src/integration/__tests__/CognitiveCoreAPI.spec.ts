@@ -22,6 +22,7 @@ import {
 } from '../CognitiveCoreAPI';
 import {
   DEFAULT_COGNITIVE_CORE_CONFIG,
+  type ICognitiveCoreAPI,
   type ICognitiveCoreConfig,
   type IProcessMessageCommand,
   type IRecordObservationCommand,
@@ -33,7 +34,7 @@ import {
 } from '../ICognitiveCoreAPI';
 
 describe('CognitiveCoreAPI', () => {
-  let api: CognitiveCoreAPI;
+  let api: ICognitiveCoreAPI;
 
   beforeEach(async () => {
     api = await createCognitiveCoreAPI({
@@ -395,7 +396,7 @@ describe('CognitiveCoreAPI', () => {
           observation: {
             id: 'obs-1',
             timestamp: new Date(),
-            type: 'self_report',
+            type: 'self_report_emotion',
             data: {
               emotional: {
                 valence: 0.3,
@@ -421,7 +422,7 @@ describe('CognitiveCoreAPI', () => {
           observation: {
             id: 'obs-2',
             timestamp: new Date(),
-            type: 'self_report',
+            type: 'self_report_emotion',
             data: {
               emotional: {
                 valence: 0.5,
@@ -584,6 +585,28 @@ describe('CognitiveCoreAPI', () => {
         const result = await api.recordOutcome(command);
         expect(result.success).toBe(true);
       });
+
+      it('should emit an outcome event for projections', async () => {
+        const events: IDomainEvent[] = [];
+        api.subscribeToEvents('INTERVENTION_OUTCOME', async (event) => {
+          events.push(event);
+        });
+
+        await api.recordOutcome({
+          decisionPointId: 'dp-1',
+          userId,
+          interventionId: 'mindful_breathing',
+          outcomeType: 'user_rating',
+          value: 0.6,
+        });
+
+        expect(events).toHaveLength(1);
+        expect(events[0]).toMatchObject({
+          aggregateId: userId,
+          aggregateType: 'intervention',
+          payload: { interventionId: 'mindful_breathing', rewardSignal: 0.6 },
+        });
+      });
     });
 
     describe('getInterventionHistory', () => {
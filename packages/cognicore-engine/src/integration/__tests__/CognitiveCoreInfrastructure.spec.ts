@@ -0,0 +1,161 @@
+/**
+ * 🧪 COGNITIVE CORE INFRASTRUCTURE TESTS
+ * ======================================
+ * Injected persistence adapters and the in-memory defaults
+ *
+ * БФ "Другой путь" | БАЙТ Cognitive Core v1.0
+ */
+
+import {
+  InMemoryEventBus,
+  InMemoryEventStore,
+  InMemorySessionRepository,
+  InMemoryStateRepository,
+  createCognitiveCoreInfrastructure,
+} from '../CognitiveCoreInfrastructure';
+import {
+  DEFAULT_COGNITIVE_CORE_CONFIG,
+  type ICognitiveCorePersistence,
+  type IDomainEvent,
+  type IEventBus,
+  type IUserSession,
+} from '../ICognitiveCoreAPI';
+import type { IStateVector } from '../../state/interfaces/IStateVector';
+import type { BeliefState } from '../../belief/IBeliefUpdate';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function makeEvent(id: string, aggregateId = 'user-1'): IDomainEvent {
+  return {
+    eventId: id,
+    eventType: 'STATE_UPDATED',
+    aggregateId,
+    aggregateType: 'cognitive_state',
+    timestamp: new Date('2025-03-01T10:00:00Z'),
+    version: 1,
+    payload: {},
+    metadata: { correlationId: `corr-${id}`, userId: aggregateId, source: 'test' },
+  };
+}
+
+function makeSession(sessionId: string): IUserSession {
+  return {
+    sessionId,
+    userId: 'user-1',
+    platform: 'telegram',
+    startedAt: new Date('2025-03-01T10:00:00Z'),
+    lastActivityAt: new Date('2025-03-01T10:00:00Z'),
+    status: 'active',
+  } as IUserSession;
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('createCognitiveCoreInfrastructure', () => {
+  const { maxEventsInMemory } = DEFAULT_COGNITIVE_CORE_CONFIG;
+
+  it('should fall back to in-memory adapters', () => {
+    const infrastructure = createCognitiveCoreInfrastructure({ maxEventsInMemory });
+
+    expect(infrastructure.eventBus).toBeInstanceOf(InMemoryEventBus);
+    expect(infrastructure.eventStore).toBeInstanceOf(InMemoryEventStore);
+    expect(infrastructure.stateRepository).toBeInstanceOf(InMemoryStateRepository);
+    expect(infrastructure.sessionRepository).toBeInstanceOf(InMemorySessionRepository);
+  });
+
+  it('should use injected persistence adapters across instances', async () => {
+    const stateRepository = new InMemoryStateRepository();
+    const sessionRepository = new InMemorySessionRepository();
+    const stores: InMemoryEventStore[] = [];
+    const persistence: ICognitiveCorePersistence = {
+      eventStore: jest.fn((eventBus: IEventBus) => {
+        const store = new InMemoryEventStore(eventBus);
+        stores.push(store);
+        return store;
+      }),
+      stateRepository,
+      sessionRepository,
+    };
+
+    const first = createCognitiveCoreInfrastructure({ persistence, maxEventsInMemory });
+    await first.sessionRepository.create(makeSession('session-1'));
+    await first.stateRepository.saveState('user-1', { userId: 'user-1' } as unknown as IStateVector);
+    await first.stateRepository.saveBelief('user-1', { lastUpdated: new Date() } as unknown as BeliefState);
+    expect(persistence.eventStore).toHaveBeenCalledWith(first.eventBus);
+
+    // A new instance over the same adapters sees the earlier session and state
+    const second = createCognitiveCoreInfrastructure({ persistence, maxEventsInMemory });
+
+    expect(second.stateRepository).toBe(stateRepository);
+    expect((await second.sessionRepository.getActiveSession('user-1'))?.sessionId).toBe('session-1');
+    expect(await second.stateRepository.getState('user-1')).not.toBeNull();
+    expect(await second.stateRepository.getBeliefHistory('user-1')).toHaveLength(1);
+    expect(stores).toHaveLength(2);
+  });
+
+  it('should publish appended events through the injected bus', async () => {
+    const eventBus = new InMemoryEventBus();
+    const published: IDomainEvent[] = [];
+    eventBus.subscribe('*', async (event) => {
+      published.push(event);
+    });
+
+    const { eventStore } = createCognitiveCoreInfrastructure({
+      persistence: { eventBus },
+      maxEventsInMemory,
+    });
+    await eventStore.append('user-1', makeEvent('evt-1'));
+
+    expect(published.map(event => event.eventId)).toEqual(['evt-1']);
+  });
+});
+
+describe('InMemoryEventStore', () => {
+  it('should reject an unexpected stream version', async () => {
+    const store = new InMemoryEventStore(new InMemoryEventBus());
+    await store.append('user-1', makeEvent('evt-1'), 0);
+
+    await expect(store.append('user-1', makeEvent('evt-2'), 0)).rejects.toThrow('Concurrency conflict');
+    expect(await store.getStreamVersion('user-1')).toBe(1);
+  });
+
+  it('should read all streams in append order by global position', async () => {
+    const store = new InMemoryEventStore(new InMemoryEventBus());
+    await store.append('user-1', makeEvent('evt-1'));
+    await store.append('user-2', makeEvent('evt-2', 'user-2'));
+    await store.append('user-1', makeEvent('evt-3'));
+
+    const all = await store.readAll();
+    expect(all.map(stored => [stored.position, stored.streamId, stored.event.eventId])).toEqual([
+      [1, 'user-1', 'evt-1'],
+      [2, 'user-2', 'evt-2'],
+      [3, 'user-1', 'evt-3'],
+    ]);
+    expect((await store.readAll(1, 1)).map(stored => stored.position)).toEqual([2]);
+  });
+
+  it('should keep positions when trimming the log', async () => {
+    const store = new InMemoryEventStore(new InMemoryEventBus(), 2);
+    for (let i = 1; i <= 3; i++) {
+      await store.append('user-1', makeEvent(`evt-${i}`));
+    }
+
+    expect((await store.readAll()).map(stored => stored.position)).toEqual([2, 3]);
+  });
+});
+
+describe('InMemoryStateRepository', () => {
+  it('should erase belief history with the rest of the user data', async () => {
+    const repository = new InMemoryStateRepository();
+    await repository.saveBelief('user-1', { lastUpdated: new Date() } as unknown as BeliefState);
+
+    await repository.deleteUserData('user-1');
+
+    expect(await repository.getBelief('user-1')).toBeNull();
+    expect(await repository.getBeliefHistory('user-1')).toEqual([]);
+  });
+});
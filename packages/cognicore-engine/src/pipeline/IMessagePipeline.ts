@@ -80,6 +80,9 @@ export interface IMessageAnalysis {
   /** Topic classification */
   topic?: MessageTopic;
 
+  /** Sleep diary items reported in the message (sleep_report intent) */
+  sleepReport?: ISleepReport;
+
   /** Raw analysis data */
   raw?: unknown;
 }
@@ -98,6 +101,7 @@ export type MessageIntent =
   | 'feedback'
   | 'small_talk'
   | 'command'
+  | 'sleep_report'
   | 'unknown';
 
 /**
@@ -120,11 +124,17 @@ export type MessageTopic =
  */
 export interface IExtractedEntity {
   /** Entity type */
-  type: 'emotion' | 'time' | 'duration' | 'activity' | 'person' | 'device' | 'app';
+  type: 'emotion' | 'time' | 'duration' | 'activity' | 'person' | 'device' | 'app' | SleepEntityType;
 
   /** Entity value */
   value: string;
 
+  /** Numeric amount: minutes, count, drinks or tablets */
+  quantity?: number;
+
+  /** Time of day the entity refers to (HH:MM) */
+  time?: string;
+
   /** Confidence */
   confidence: number;
 
@@ -132,6 +142,57 @@ export interface IExtractedEntity {
   position: { start: number; end: number };
 }
 
+/**
+ * Sleep diary entity types
+ * - bedtime, sleep_onset, wake_time, out_of_bed: value is HH:MM
+ * - sleep_latency, nap: value and quantity are minutes (nap 0 = no nap)
+ * - awakenings: value and quantity are the count
+ * - substance: value is caffeine, alcohol, a medication type or none_*
+ * - back_to_sleep: value is back_to_sleep; time is HH:MM when stated
+ */
+export type SleepEntityType =
+  | 'bedtime'
+  | 'sleep_onset'
+  | 'sleep_latency'
+  | 'awakenings'
+  | 'wake_time'
+  | 'out_of_bed'
+  | 'back_to_sleep'
+  | 'nap'
+  | 'substance';
+
+/**
+ * Sleep medication mentioned in a report
+ */
+export interface ISleepReportMedication {
+  name: string;
+  type: 'hypnotic' | 'melatonin' | 'antihistamine' | 'other';
+  dose: number;
+  unit: 'tablet';
+}
+
+/**
+ * Sleep diary items extracted from free text
+ *
+ * Field names follow the Consensus Sleep Diary entry (Carney et al., 2012)
+ * so the host application can merge them into its diary model.
+ * Undefined means the item was not mentioned.
+ */
+export interface ISleepReport {
+  bedtime?: string;
+  sleepOnsetLatency?: number;
+  numberOfAwakenings?: number;
+  wakeAfterSleepOnset?: number;
+  finalAwakening?: string;
+  outOfBedTime?: string;
+  napCount?: number;
+  napMinutes?: number;
+  caffeineDrinks?: number;
+  lastCaffeineTime?: string;
+  alcoholDrinks?: number;
+  sleepMedications?: ISleepReportMedication[];
+}
+
 /**
  * Sentiment analysis result
  */
@@ -583,6 +644,12 @@ export interface IPipelineStageResult<T> {
 
   /** Early response (skip remaining stages) */
   earlyResponse?: IGeneratedResponse;
+
+  /** Stage exceeded its timeout */
+  timedOut?: boolean;
+
+  /** Failure policy applied when the stage failed */
+  failurePolicy?: StageFailurePolicy;
 }
 
 /**
@@ -617,6 +684,122 @@ export interface IPipelineResult {
   stageResults: IPipelineStageResult<unknown>[];
 }
 
+// ============================================================================
+// PIPELINE STAGES
+// ============================================================================
+
+/**
+ * What happens when a stage throws, times out or misses required data
+ * - skip: record the failure and continue with the data unchanged
+ * - abort: stop the pipeline and reject process()
+ * - fallback: apply the stage's fallback() output and continue
+ */
+export type StageFailurePolicy = 'skip' | 'abort' | 'fallback';
+
+/**
+ * Risk assessment produced by the risk_detection stage
+ */
+export interface IPipelineRiskAssessment {
+  level: RiskLevel;
+  score: number;
+  indicators: RiskIndicator[];
+}
+
+/**
+ * Data passed between stages
+ *
+ * Stages read it from the context and return a partial patch that the
+ * pipeline merges in. Custom stages add their own keys through module
+ * augmentation of this interface.
+ */
+export interface IPipelineStageData {
+  /** Message seen by later stages (a redaction stage may replace it) */
+  message: IIncomingMessage;
+
+  /** NLP analysis (nlp_analysis) */
+  analysis?: IMessageAnalysis;
+
+  /** User state (user_state, updated by risk_detection) */
+  userState?: IUserState;
+
+  /** Risk assessment (risk_detection) */
+  riskAssessment?: IPipelineRiskAssessment;
+
+  /** Generated response (response_generation) */
+  response?: IGeneratedResponse;
+}
+
+/**
+ * Context handed to every stage of one pipeline run
+ */
+export interface IPipelineContext {
+  /** Pipeline run ID */
+  readonly pipelineId: string;
+
+  /** Message as received, before any stage changed it */
+  readonly originalMessage: IIncomingMessage;
+
+  /** Data produced by earlier stages */
+  readonly data: Readonly<IPipelineStageData>;
+
+  /** Results of the stages run so far */
+  readonly stageResults: ReadonlyArray<IPipelineStageResult<unknown>>;
+
+  /**
+   * Emit a pipeline event and record it in the result
+   * @param event - Event name
+   * @param data - Event payload
+   */
+  emit(event: PipelineEvent, data: unknown): Promise<void>;
+}
+
+/**
+ * Pluggable pipeline stage
+ */
+export interface IPipelineStage {
+  /** Unique stage name */
+  name: string;
+
+  /** Position in the pipeline (ascending; ties keep registration order) */
+  order: number;
+
+  /** Keys that must be present before the stage runs */
+  requires?: Array<keyof IPipelineStageData>;
+
+  /** Timeout (ms); defaults to IPipelineConfig.stageTimeoutMs */
+  timeoutMs?: number;
+
+  /** Failure policy (default: abort) */
+  failurePolicy?: StageFailurePolicy;
+
+  /**
+   * Run the stage
+   * @param context - Pipeline context
+   * @returns Data to merge into the context
+   */
+  execute(context: IPipelineContext): Promise<Partial<IPipelineStageData> | void>;
+
+  /**
+   * Data to use when the stage fails (required for the fallback policy)
+   * @param context - Pipeline context
+   * @param error - Failure cause
+   */
+  fallback?(
+    context: IPipelineContext,
+    error: Error
+  ): Partial<IPipelineStageData> | void | Promise<Partial<IPipelineStageData> | void>;
+}
+
+/**
+ * Order of the built-in stages; custom stages are placed relative to these
+ */
+export const PIPELINE_STAGE_ORDER = {
+  nlp_analysis: 100,
+  user_state: 200,
+  risk_detection: 300,
+  response_generation: 400,
+} as const;
+
 /**
  * Pipeline configuration
  */
@@ -644,6 +827,9 @@ export interface IPipelineConfig {
 
   /** Debug mode */
   debug: boolean;
+
+  /** Default per-stage timeout (ms) */
+  stageTimeoutMs: number;
 }
 
 /**
@@ -658,6 +844,7 @@ export const DEFAULT_PIPELINE_CONFIG: IPipelineConfig = {
   maxResponseLength: 4000,
   enableAgeDetection: true,
   debug: false,
+  stageTimeoutMs: 5000,
 };
 
 // ============================================================================
@@ -705,6 +892,25 @@ export interface IMessageProcessingPipeline {
    */
   on(event: PipelineEvent, handler: PipelineEventHandler): void;
 
+  /**
+   * Register a stage
+   * @param stage - Stage to insert by its order
+   * @throws If a stage with the same name exists or a fallback is missing
+   */
+  registerStage(stage: IPipelineStage): void;
+
+  /**
+   * Remove a stage (built-in stages included)
+   * @param name - Stage name
+   * @returns Whether a stage was removed
+   */
+  removeStage(name: string): boolean;
+
+  /**
+   * Get stage names in execution order
+   */
+  getStages(): string[];
+
   /**
    * Get pipeline statistics
    * @returns Pipeline stats
@@ -753,4 +959,33 @@ export interface IPipelineStats {
 
   /** Uptime (seconds) */
   uptimeSeconds: number;
+
+  /** Latency and failures per stage name */
+  stages: Record<string, IPipelineStageStats>;
+}
+
+/**
+ * Per-stage statistics
+ */
+export interface IPipelineStageStats {
+  /** Times the stage ran */
+  runs: number;
+
+  /** Failed runs (timeouts and missing data included) */
+  failures: number;
+
+  /** Runs that exceeded the timeout */
+  timeouts: number;
+
+  /** Failures resolved by the fallback */
+  fallbacks: number;
+
+  /** Average latency (ms) */
+  avgLatencyMs: number;
+
+  /** Maximum latency (ms) */
+  maxLatencyMs: number;
+
+  /** Latency of the last run (ms) */
+  lastLatencyMs: number;
 }
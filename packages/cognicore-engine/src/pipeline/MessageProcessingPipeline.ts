@@ -12,6 +12,11 @@
  * 6. Response Generation (Age-Adaptive)
  * 7. Post-processing & Delivery Prep
  *
+ * Stages are pluggable: NLP analysis, user state, risk detection and
+ * response generation are registered as built-in stages, and custom stages
+ * (e.g. PII redaction, output safety filters) are inserted by order with
+ * their own timeout and failure policy.
+ *
  * Research Foundation:
  * - Layered Mental Health Chatbot Architecture (JMIR 2025)
  * - JITAI Design Principles (Nahum-Shani et al.)
@@ -30,10 +35,16 @@ import {
   IPipelineConfig,
   IPipelineStageResult,
   IPipelineStats,
+  IPipelineStageStats,
+  IPipelineStage,
+  IPipelineStageData,
+  IPipelineContext,
+  IPipelineRiskAssessment,
   IMessageProcessingPipeline,
   PipelineEvent,
   PipelineEventHandler,
   DEFAULT_PIPELINE_CONFIG,
+  PIPELINE_STAGE_ORDER,
   MessageIntent,
   MessageTopic,
   EmotionType,
@@ -45,6 +56,7 @@ import {
   IExtractedEntity,
   ResponseType,
 } from './IMessagePipeline';
+import { SleepEntityExtractor } from './SleepEntityExtractor';
 
 // Simple ID generator (avoids ESM uuid package issues with Jest)
 function generateId(): string {
@@ -172,19 +184,24 @@ const RUSSIAN_PATTERNS = {
  * Simple NLP analyzer for Russian text
  */
 class NlpAnalyzer {
+  private sleepExtractor = new SleepEntityExtractor();
+
   /**
    * Analyze message text
    */
   analyze(text: string, languageHint?: 'ru' | 'en'): IMessageAnalysis {
     const language = languageHint || this.detectLanguage(text);
+    const sleepEntities = this.sleepExtractor.extract(text);
+    const intent = this.detectIntent(text, sleepEntities);
 
     return {
-      intent: this.detectIntent(text),
+      intent,
       intentConfidence: 0.7, // Simplified
-      entities: this.extractEntities(text),
+      entities: [...this.extractEntities(text), ...sleepEntities],
       sentiment: this.analyzeSentiment(text),
       language,
-      topic: this.detectTopic(text),
+      topic: intent === 'sleep_report' ? 'sleep' : this.detectTopic(text),
+      sleepReport: sleepEntities.length > 0 ? this.sleepExtractor.toSleepReport(sleepEntities) : undefined,
     };
   }
 
@@ -194,7 +211,7 @@ class NlpAnalyzer {
     return cyrillicPattern.test(text) ? 'ru' : 'en';
   }
 
-  private detectIntent(text: string): MessageIntent {
+  private detectIntent(text: string, sleepEntities: IExtractedEntity[]): MessageIntent {
     // Check for crisis first (highest priority)
     for (const pattern of RUSSIAN_PATTERNS.crisis) {
       if (pattern.test(text)) {
@@ -207,6 +224,11 @@ class NlpAnalyzer {
       return 'command';
     }
 
+    // A night described in free text feeds the sleep diary
+    if (this.sleepExtractor.isSleepReport(sleepEntities)) {
+      return 'sleep_report';
+    }
+
     // Check other intents
     for (const [intent, patterns] of Object.entries(RUSSIAN_PATTERNS.intents)) {
       for (const pattern of patterns) {
@@ -333,7 +355,7 @@ class RiskDetector {
     analysis: IMessageAnalysis,
     userState: IUserState,
     messageText: string
-  ): { level: RiskLevel; score: number; indicators: RiskIndicator[] } {
+  ): IPipelineRiskAssessment {
     const indicators: RiskIndicator[] = [];
     let score = 0;
 
@@ -547,6 +569,7 @@ class ResponseGenerator {
       case 'reflection':
         return 'encouragement';
       case 'feedback':
+      case 'sleep_report':
         return 'acknowledgment';
       default:
         // Based on sentiment
@@ -630,6 +653,15 @@ class ResponseGenerator {
 // MAIN PIPELINE IMPLEMENTATION
 // ============================================================================
 
+/**
+ * Mutable state of one pipeline run
+ */
+interface IPipelineRun extends IPipelineContext {
+  data: IPipelineStageData;
+  stageResults: IPipelineStageResult<unknown>[];
+  eventsEmitted: string[];
+}
+
 /**
  * Message Processing Pipeline
  */
@@ -640,6 +672,7 @@ export class MessageProcessingPipeline implements IMessageProcessingPipeline {
   private riskDetector: RiskDetector;
   private responseGenerator: ResponseGenerator;
   private eventHandlers: Map<PipelineEvent, PipelineEventHandler[]>;
+  private stages: IPipelineStage[];
   private stats: IPipelineStats;
   private startTime: Date;
 
@@ -650,6 +683,7 @@ export class MessageProcessingPipeline implements IMessageProcessingPipeline {
     this.riskDetector = new RiskDetector();
     this.responseGenerator = new ResponseGenerator();
     this.eventHandlers = new Map();
+    this.stages = [];
     this.startTime = new Date();
 
     this.stats = {
@@ -659,7 +693,12 @@ export class MessageProcessingPipeline implements IMessageProcessingPipeline {
       interventionsDelivered: 0,
       errorCount: 0,
       uptimeSeconds: 0,
+      stages: {},
     };
+
+    for (const stage of this.createBuiltInStages()) {
+      this.registerStage(stage);
+    }
   }
 
   /**
@@ -668,105 +707,34 @@ export class MessageProcessingPipeline implements IMessageProcessingPipeline {
   async process(message: IIncomingMessage): Promise<IPipelineResult> {
     const pipelineId = generateId();
     const startTime = Date.now();
-    const stageResults: IPipelineStageResult<unknown>[] = [];
     const eventsEmitted: string[] = [];
 
+    const run: IPipelineRun = {
+      pipelineId,
+      originalMessage: message,
+      data: { message },
+      stageResults: [],
+      eventsEmitted,
+      emit: async (event, data) => {
+        await this.emit(event, data);
+        eventsEmitted.push(event);
+      },
+    };
+
     try {
       // Emit message received event
-      await this.emit('message:received', { message });
-      eventsEmitted.push('message:received');
+      await run.emit('message:received', { message });
 
-      // Stage 1: NLP Analysis
-      const analysisResult = await this.runStage('nlp_analysis', async () => {
-        return this.nlpAnalyzer.analyze(message.text, message.metadata?.languageCode as 'ru' | 'en');
-      });
-      stageResults.push(analysisResult);
-
-      if (!analysisResult.success || !analysisResult.data) {
-        throw new Error('NLP analysis failed');
+      // Snapshot so stages registered mid-run do not affect this run
+      for (const stage of [...this.stages]) {
+        await this.runStage(stage, run);
       }
 
-      const analysis = analysisResult.data as IMessageAnalysis;
-      await this.emit('message:analyzed', { analysis });
-      eventsEmitted.push('message:analyzed');
-
-      // Stage 2: Get/Create User State
-      const stateResult = await this.runStage('user_state', async () => {
-        let state = await this.userStateStore.get(message.userId);
-        if (!state) {
-          state = this.userStateStore.createDefaultState(message.userId);
-          await this.userStateStore.set(message.userId, state);
-        }
-        return state;
-      });
-      stageResults.push(stateResult);
-
-      let userState = stateResult.data as IUserState;
-
-      // Stage 3: Risk Detection
-      const riskResult = await this.runStage('risk_detection', async () => {
-        return this.riskDetector.assess(analysis, userState, message.text);
-      });
-      stageResults.push(riskResult);
-
-      const riskAssessment = riskResult.data as { level: RiskLevel; score: number; indicators: RiskIndicator[] };
-
-      // Update user state with new risk and emotional data
-      userState = await this.userStateStore.update(message.userId, {
-        risk: {
-          ...userState.risk,
-          level: riskAssessment.level,
-          score: riskAssessment.score,
-          indicators: riskAssessment.indicators,
-          crisisMode: riskAssessment.level === 'critical' || riskAssessment.level === 'high',
-          lastAssessment: new Date(),
-        },
-        emotionalState: {
-          ...userState.emotionalState,
-          primaryEmotion: analysis.sentiment.emotions[0]?.type || 'neutral',
-          intensity: analysis.sentiment.intensity,
-          recentEmotions: [
-            {
-              emotion: analysis.sentiment.emotions[0]?.type || 'neutral',
-              timestamp: new Date(),
-              intensity: analysis.sentiment.intensity,
-            },
-            ...userState.emotionalState.recentEmotions.slice(0, 9),
-          ],
-        },
-        engagement: {
-          ...userState.engagement,
-          messagesInSession: userState.engagement.messagesInSession + 1,
-          avgResponseLength:
-            (userState.engagement.avgResponseLength * userState.engagement.messagesInSession + message.text.length) /
-            (userState.engagement.messagesInSession + 1),
-        },
-      });
-
-      // Emit risk event if elevated
-      if (riskAssessment.level === 'critical' || riskAssessment.level === 'high') {
-        await this.emit('crisis:detected', { userId: message.userId, riskAssessment });
-        eventsEmitted.push('crisis:detected');
-        this.stats.crisisDetections++;
-      } else if (riskAssessment.level === 'elevated') {
-        await this.emit('risk:detected', { userId: message.userId, riskAssessment });
-        eventsEmitted.push('risk:detected');
+      const { analysis, userState, response } = run.data;
+      if (!analysis || !userState || !response) {
+        throw new Error('Pipeline finished without analysis, user state or response');
       }
 
-      await this.emit('state:updated', { userState });
-      eventsEmitted.push('state:updated');
-
-      // Stage 4: Response Generation
-      const responseResult = await this.runStage('response_generation', async () => {
-        return this.responseGenerator.generate(message, analysis, userState);
-      });
-      stageResults.push(responseResult);
-
-      const response = responseResult.data as IGeneratedResponse;
-
-      await this.emit('response:generated', { response });
-      eventsEmitted.push('response:generated');
-
       // Calculate total time
       const totalProcessingTimeMs = Date.now() - startTime;
 
@@ -777,8 +745,7 @@ export class MessageProcessingPipeline implements IMessageProcessingPipeline {
         this.stats.messagesProcessed;
 
       // Emit completion
-      await this.emit('pipeline:completed', { pipelineId, totalProcessingTimeMs });
-      eventsEmitted.push('pipeline:completed');
+      await run.emit('pipeline:completed', { pipelineId, totalProcessingTimeMs });
 
       return {
         pipelineId,
@@ -788,7 +755,7 @@ export class MessageProcessingPipeline implements IMessageProcessingPipeline {
         response,
         eventsEmitted,
         totalProcessingTimeMs,
-        stageResults,
+        stageResults: run.stageResults,
       };
     } catch (error) {
       this.stats.errorCount++;
@@ -828,44 +795,268 @@ export class MessageProcessingPipeline implements IMessageProcessingPipeline {
     this.eventHandlers.set(event, handlers);
   }
 
+  /**
+   * Register a stage
+   */
+  registerStage(stage: IPipelineStage): void {
+    if (this.stages.some(s => s.name === stage.name)) {
+      throw new Error(`Pipeline stage already registered: ${stage.name}`);
+    }
+    if (stage.failurePolicy === 'fallback' && !stage.fallback) {
+      throw new Error(`Pipeline stage ${stage.name} uses the fallback policy without a fallback`);
+    }
+
+    // Insert after every stage with the same or lower order
+    const index = this.stages.findIndex(s => s.order > stage.order);
+    this.stages.splice(index === -1 ? this.stages.length : index, 0, stage);
+  }
+
+  /**
+   * Remove a stage
+   */
+  removeStage(name: string): boolean {
+    const index = this.stages.findIndex(s => s.name === name);
+    if (index === -1) return false;
+    this.stages.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * Get stage names in execution order
+   */
+  getStages(): string[] {
+    return this.stages.map(s => s.name);
+  }
+
   /**
    * Get pipeline stats
    */
   getStats(): IPipelineStats {
+    const stages: Record<string, IPipelineStageStats> = {};
+    for (const [name, stageStats] of Object.entries(this.stats.stages)) {
+      stages[name] = { ...stageStats };
+    }
+
     return {
       ...this.stats,
       uptimeSeconds: Math.floor((Date.now() - this.startTime.getTime()) / 1000),
+      stages,
     };
   }
 
   // Private helpers
 
-  private async runStage<T>(
-    stageName: string,
-    fn: () => Promise<T>
-  ): Promise<IPipelineStageResult<T>> {
+  /**
+   * Wrap the analyzer, state store, risk detector and response generator
+   * as stages so custom stages can be ordered around them
+   */
+  private createBuiltInStages(): IPipelineStage[] {
+    return [
+      {
+        name: 'nlp_analysis',
+        order: PIPELINE_STAGE_ORDER.nlp_analysis,
+        execute: async (context) => {
+          const { message } = context.data;
+          const analysis = this.nlpAnalyzer.analyze(message.text, message.metadata?.languageCode as 'ru' | 'en');
+          await context.emit('message:analyzed', { analysis });
+          return { analysis };
+        },
+      },
+      {
+        name: 'user_state',
+        order: PIPELINE_STAGE_ORDER.user_state,
+        execute: async (context) => {
+          const { userId } = context.data.message;
+          let userState = await this.userStateStore.get(userId);
+          if (!userState) {
+            userState = this.userStateStore.createDefaultState(userId);
+            await this.userStateStore.set(userId, userState);
+          }
+          return { userState };
+        },
+      },
+      {
+        name: 'risk_detection',
+        order: PIPELINE_STAGE_ORDER.risk_detection,
+        requires: ['analysis', 'userState'],
+        execute: async (context) => {
+          const data = context.data as Required<IPipelineStageData>;
+          const { message } = data;
+          const riskAssessment = this.riskDetector.assess(data.analysis, data.userState, message.text);
+          const userState = await this.applyRiskAssessment(data, riskAssessment);
+
+          // Emit risk event if elevated
+          if (riskAssessment.level === 'critical' || riskAssessment.level === 'high') {
+            await context.emit('crisis:detected', { userId: message.userId, riskAssessment });
+            this.stats.crisisDetections++;
+          } else if (riskAssessment.level === 'elevated') {
+            await context.emit('risk:detected', { userId: message.userId, riskAssessment });
+          }
+
+          await context.emit('state:updated', { userState });
+          return { riskAssessment, userState };
+        },
+      },
+      {
+        name: 'response_generation',
+        order: PIPELINE_STAGE_ORDER.response_generation,
+        requires: ['analysis', 'userState'],
+        execute: async (context) => {
+          const { message, analysis, userState } = context.data as Required<IPipelineStageData>;
+          const response = this.responseGenerator.generate(message, analysis, userState);
+          await context.emit('response:generated', { response });
+          return { response };
+        },
+      },
+    ];
+  }
+
+  /**
+   * Update user state with new risk and emotional data
+   */
+  private applyRiskAssessment(
+    data: Required<IPipelineStageData>,
+    riskAssessment: IPipelineRiskAssessment
+  ): Promise<IUserState> {
+    const { message, analysis, userState } = data;
+
+    return this.userStateStore.update(message.userId, {
+      risk: {
+        ...userState.risk,
+        level: riskAssessment.level,
+        score: riskAssessment.score,
+        indicators: riskAssessment.indicators,
+        crisisMode: riskAssessment.level === 'critical' || riskAssessment.level === 'high',
+        lastAssessment: new Date(),
+      },
+      emotionalState: {
+        ...userState.emotionalState,
+        primaryEmotion: analysis.sentiment.emotions[0]?.type || 'neutral',
+        intensity: analysis.sentiment.intensity,
+        recentEmotions: [
+          {
+            emotion: analysis.sentiment.emotions[0]?.type || 'neutral',
+            timestamp: new Date(),
+            intensity: analysis.sentiment.intensity,
+          },
+          ...userState.emotionalState.recentEmotions.slice(0, 9),
+        ],
+      },
+      engagement: {
+        ...userState.engagement,
+        messagesInSession: userState.engagement.messagesInSession + 1,
+        avgResponseLength:
+          (userState.engagement.avgResponseLength * userState.engagement.messagesInSession + message.text.length) /
+          (userState.engagement.messagesInSession + 1),
+      },
+    });
+  }
+
+  /**
+   * Run one stage with its timeout and failure policy, merging its output
+   * into the run data. Throws when the stage aborts the pipeline.
+   */
+  private async runStage(stage: IPipelineStage, run: IPipelineRun): Promise<void> {
+    const policy = stage.failurePolicy ?? 'abort';
+    const timeoutMs = stage.timeoutMs ?? this.config.stageTimeoutMs;
     const startTime = Date.now();
+    let timedOut = false;
 
     try {
-      const data = await fn();
-      return {
-        stage: stageName,
+      const missing = (stage.requires ?? []).filter(key => run.data[key] === undefined);
+      if (missing.length > 0) {
+        throw new Error(`Pipeline stage ${stage.name} requires: ${missing.join(', ')}`);
+      }
+
+      const output = await this.withTimeout(stage.execute(run), timeoutMs, () => {
+        timedOut = true;
+        return new Error(`Pipeline stage ${stage.name} timed out after ${timeoutMs}ms`);
+      });
+      const processingTimeMs = Date.now() - startTime;
+
+      Object.assign(run.data, output || {});
+      run.stageResults.push({
+        stage: stage.name,
         success: true,
-        data,
-        processingTimeMs: Date.now() - startTime,
+        data: output || undefined,
+        processingTimeMs,
         continueProcessing: true,
-      };
+      });
+      this.recordStageStats(stage.name, processingTimeMs, { failed: false, timedOut, fallback: false });
     } catch (error) {
-      return {
-        stage: stageName,
+      const processingTimeMs = Date.now() - startTime;
+      const stageError = error instanceof Error ? error : new Error(String(error));
+      const result: IPipelineStageResult<unknown> = {
+        stage: stage.name,
         success: false,
-        error: error as Error,
-        processingTimeMs: Date.now() - startTime,
-        continueProcessing: false,
+        error: stageError,
+        processingTimeMs,
+        continueProcessing: policy !== 'abort',
+        timedOut,
+        failurePolicy: policy,
       };
+      run.stageResults.push(result);
+
+      // A throwing fallback aborts the pipeline
+      let fallback = false;
+      try {
+        if (policy === 'fallback') {
+          result.data = (await stage.fallback!(run, stageError)) || undefined;
+          Object.assign(run.data, result.data || {});
+          fallback = true;
+        }
+      } finally {
+        this.recordStageStats(stage.name, processingTimeMs, { failed: true, timedOut, fallback });
+      }
+
+      if (policy === 'abort') {
+        throw stageError;
+      }
     }
   }
 
+  /**
+   * Reject when the promise does not settle in time.
+   * The stage keeps running in the background; its late output is discarded.
+   */
+  private withTimeout<T>(promise: Promise<T>, timeoutMs: number, onTimeout: () => Error): Promise<T> {
+    let timer: ReturnType<typeof setTimeout>;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(onTimeout()), timeoutMs);
+    });
+
+    // Late rejections must not surface as unhandled
+    promise.catch(() => undefined);
+
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+  }
+
+  private recordStageStats(
+    stageName: string,
+    latencyMs: number,
+    outcome: { failed: boolean; timedOut: boolean; fallback: boolean }
+  ): void {
+    const stageStats = this.stats.stages[stageName] ?? {
+      runs: 0,
+      failures: 0,
+      timeouts: 0,
+      fallbacks: 0,
+      avgLatencyMs: 0,
+      maxLatencyMs: 0,
+      lastLatencyMs: 0,
+    };
+
+    stageStats.runs++;
+    if (outcome.failed) stageStats.failures++;
+    if (outcome.timedOut) stageStats.timeouts++;
+    if (outcome.fallback) stageStats.fallbacks++;
+    stageStats.avgLatencyMs += (latencyMs - stageStats.avgLatencyMs) / stageStats.runs;
+    stageStats.maxLatencyMs = Math.max(stageStats.maxLatencyMs, latencyMs);
+    stageStats.lastLatencyMs = latencyMs;
+
+    this.stats.stages[stageName] = stageStats;
+  }
+
   private async emit(event: PipelineEvent, data: unknown): Promise<void> {
     const handlers = this.eventHandlers.get(event) || [];
     for (const handler of handlers) {
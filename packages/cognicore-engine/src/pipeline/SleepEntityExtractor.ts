@@ -0,0 +1,589 @@
+/**
+ * 🌙 SLEEP ENTITY EXTRACTOR
+ * =========================
+ * Sleep diary items from free text and voice transcripts (Russian + English)
+ *
+ * "лёг в полночь, уснул через час, проснулся в 4 и больше не спал" becomes
+ * bedtime 00:00, sleep latency 60 min and final awakening 04:00.
+ *
+ * Research Foundation:
+ * - Consensus Sleep Diary (Carney et al., 2012): bedtime, latency,
+ *   awakenings, final awakening, out-of-bed time, naps, substances
+ * - Rule-based slot filling keeps extraction explainable and offline,
+ *   which matters for health data (no transcript leaves the process)
+ *
+ * БФ "Другой путь" | БАЙТ Cognitive Core v1.0
+ */
+
+import type {
+  IExtractedEntity,
+  ISleepReport,
+  ISleepReportMedication,
+  SleepEntityType,
+} from './IMessagePipeline';
+
+// ============================================================================
+// TOKENS
+// ============================================================================
+
+/** Letter; \w and \b do not match Cyrillic */
+const L = '[a-zа-я]';
+
+/** Word start */
+const WB = `(?<!${L})`;
+
+/** Hour and count words */
+const NUMBER_WORDS: Record<string, number> = {
+  'один': 1, 'одну': 1, 'одна': 1, 'одного': 1, 'одно': 1,
+  'два': 2, 'две': 2, 'пару': 2, 'три': 3, 'четыре': 4, 'пять': 5,
+  'шесть': 6, 'семь': 7, 'восемь': 8, 'девять': 9, 'десять': 10,
+  'одиннадцать': 11, 'двенадцать': 12, 'двадцать': 20, 'тридцать': 30, 'сорок': 40,
+  'one': 1, 'a': 1, 'an': 1, 'two': 2, 'a couple of': 2, 'three': 3, 'four': 4,
+  'five': 5, 'six': 6, 'seven': 7, 'eight': 8, 'nine': 9, 'ten': 10,
+  'eleven': 11, 'twelve': 12, 'twenty': 20, 'thirty': 30, 'forty': 40,
+  'дважды': 2, 'трижды': 3, 'twice': 2, 'once': 1,
+  'несколько': 3, 'много': 4, 'several': 3, 'a few': 3,
+};
+
+const HOUR_WORD =
+  'одиннадцать|двенадцать|десять|девять|восемь|семь|шесть|пять|четыре|три|два|' +
+  'eleven|twelve|ten|nine|eight|seven|six|five|four|three|two|one';
+
+const COUNT_WORD =
+  'одного|одну|одна|одно|один|две|два|пару|три|четыре|пять|несколько|' +
+  'a couple of|a few|several|one|two|three|four|five|an|a';
+
+/** Clock time: 23:30, 4, 11 вечера, полночь, 1 am */
+const TIME =
+  `(\\d{1,2}(?:[:.]\\d{2})?(?:\\s*(?:утра|ночи|вечера|дня|am|pm|a\\.m\\.|p\\.m\\.))?` +
+  `|полноч${L}*|полуноч${L}*|полдень|midnight|noon|час\\s+ночи` +
+  `|(?:${HOUR_WORD})(?:\\s*(?:утра|ночи|вечера|am|pm))?)`;
+
+/** Duration: час, полчаса, полтора часа, 40 минут, 1,5 часа, 20 min */
+const DURATION =
+  `(полтора\\s+часа|полчаса|пол\\s+часа|half\\s+an\\s+hour|an\\s+hour\\s+and\\s+a\\s+half` +
+  `|\\d+(?:[.,]\\d+)?\\s*(?:час(?:а|ов)?|ч\\.?|мин(?:ут[аы]?|\\.)?|hours?|hrs?|h|minutes?|mins?)(?![a-zа-я])` +
+  `|(?:одну|один|два|две|три|пять|десять|двадцать|тридцать|сорок|one|two|three|five|ten|twenty|thirty|forty)` +
+  `\\s+(?:час(?:а|ов)?|минут[аы]?|hours?|minutes?)` +
+  `|час|an\\s+hour|one\\s+hour)`;
+
+/** Optional approximation before a value */
+const APPROX = '(?:(?:примерно|около|где-то|почти|только|лишь|уже|about|around|almost|only|roughly)\\s+)?';
+
+// ============================================================================
+// PATTERNS
+// ============================================================================
+
+interface ISleepPattern {
+  type: SleepEntityType;
+  regex: RegExp;
+  /** Build value/quantity from the match; null drops the match */
+  read: (match: RegExpExecArray) => Pick<IExtractedEntity, 'value' | 'quantity' | 'time'> | null;
+}
+
+const MEDICATIONS: Array<{ pattern: string; name: string; type: ISleepReportMedication['type'] }> = [
+  { pattern: `мелатонин${L}*|melatonin`, name: 'Мелатонин', type: 'melatonin' },
+  { pattern: `донормил${L}*|доксиламин${L}*|doxylamine|unisom`, name: 'Доксиламин', type: 'antihistamine' },
+  {
+    pattern: `снотворн${L}*|зопиклон${L}*|золпидем${L}*|сомнол${L}*|имован${L}*|феназепам${L}*|sleeping\\s+pills?|zolpidem|zopiclone|ambien`,
+    name: 'Снотворное по рецепту',
+    type: 'hypnotic',
+  },
+];
+
+function re(source: string): RegExp {
+  return new RegExp(source, 'g');
+}
+
+function timeValue(token: string, role: SleepEntityType | 'caffeine'): { value: string } | null {
+  const time = parseClock(token, role);
+  return time ? { value: time } : null;
+}
+
+function minutesValue(token: string): { value: string; quantity: number } | null {
+  const minutes = parseDuration(token);
+  return minutes === null ? null : { value: String(minutes), quantity: minutes };
+}
+
+function countValue(count: number): { value: string; quantity: number } {
+  return { value: String(count), quantity: count };
+}
+
+function backToSleepValue(token: string | undefined): { value: string; time?: string } {
+  const time = token ? parseClock(token, 'back_to_sleep') : null;
+  return time ? { value: 'back_to_sleep', time } : { value: 'back_to_sleep' };
+}
+
+const SLEEP_PATTERNS: ISleepPattern[] = [
+  // ---- Bedtime ----
+  {
+    type: 'bedtime',
+    regex: re(`${WB}(?:(?:лег(?:ла|ли)?|ложил(?:ся|ась|ись)|улегл(?:ся|ась|ись))(?:\\s+спать)?|пош(?:ел|ла|ли)\\s+спать)(?:\\s+в\\s+(?:постель|кровать))?\\s+${APPROX}(?:в|около|к)\\s+${TIME}`),
+    read: m => timeValue(m[1], 'bedtime'),
+  },
+  {
+    type: 'bedtime',
+    regex: re(`${WB}(?:went\\s+to\\s+(?:bed|sleep)|got\\s+(?:in|into)\\s+bed|hit\\s+the\\s+(?:sack|hay)|in\\s+bed|(?<!out\\s+of\\s+)bed)\\s+${APPROX}(?:at|around|by)\\s+${APPROX}${TIME}`),
+    read: m => timeValue(m[1], 'bedtime'),
+  },
+
+  // ---- Sleep onset latency ----
+  {
+    type: 'sleep_latency',
+    regex: re(`${WB}(?:уснул|заснул|засыпал|провалил(?:ся|ась|ись)\\s+в\\s+сон)${L}*\\s+${APPROX}(?:через|спустя|за)\\s+${APPROX}${DURATION}`),
+    read: m => minutesValue(m[1]),
+  },
+  {
+    type: 'sleep_latency',
+    regex: re(`${WB}(?:уснул|заснул)${L}*\\s+(?:минут\\s+через\\s+(\\d+)|через\\s+(\\d+)\\s+минут)`),
+    read: m => countValue(parseInt(m[1] ?? m[2], 10)),
+  },
+  {
+    type: 'sleep_latency',
+    regex: re(`${WB}(?:засыпал${L}*|не\\s+мог(?:ла|ли)?\\s+(?:уснуть|заснуть)|ворочал(?:ся|ась|ись))\\s+${APPROX}${DURATION}`),
+    read: m => minutesValue(m[1]),
+  },
+  {
+    type: 'sleep_latency',
+    regex: re(`${WB}(?:fell\\s+asleep|got\\s+to\\s+sleep)\\s+(?:after|in|within)\\s+${APPROX}${DURATION}`),
+    read: m => minutesValue(m[1]),
+  },
+  {
+    type: 'sleep_latency',
+    regex: re(`${WB}took\\s+(?:me\\s+)?${APPROX}${DURATION}\\s+to\\s+(?:fall\\s+asleep|get\\s+to\\s+sleep)`),
+    read: m => minutesValue(m[1]),
+  },
+  {
+    type: 'sleep_latency',
+    regex: re(`${WB}(?:сразу\\s+(?:уснул|заснул)${L}*|(?:уснул|заснул)${L}*\\s+сразу|fell\\s+asleep\\s+(?:right\\s+away|immediately|straight\\s+away))`),
+    read: () => countValue(5),
+  },
+
+  // ---- Sleep onset clock time (latency = onset - bedtime) ----
+  {
+    type: 'sleep_onset',
+    regex: re(`${WB}(?:уснул|заснул)${L}*\\s+${APPROX}(?:в|около|к)\\s+${TIME}`),
+    read: m => timeValue(m[1], 'sleep_onset'),
+  },
+  {
+    type: 'sleep_onset',
+    regex: re(`${WB}(?:fell\\s+asleep|got\\s+to\\s+sleep)\\s+${APPROX}(?:at|around|by)\\s+${APPROX}${TIME}`),
+    read: m => timeValue(m[1], 'sleep_onset'),
+  },
+
+  // ---- Night awakenings ----
+  {
+    type: 'awakenings',
+    regex: re(`${WB}(?:просыпал|проснул)${L}*\\s+(?:ночью\\s+|за\\s+ночь\\s+)?(\\d+|${COUNT_WORD})\\s+раз`),
+    read: m => countValue(parseCount(m[1])),
+  },
+  {
+    type: 'awakenings',
+    regex: re(`${WB}(?:просыпал|проснул)${L}*\\s+(?:ночью\\s+|за\\s+ночь\\s+)?(дважды|трижды|раз)(?![a-zа-я])`),
+    read: m => countValue(m[1] === 'раз' ? 1 : parseCount(m[1])),
+  },
+  {
+    type: 'awakenings',
+    regex: re(`${WB}(\\d+|${COUNT_WORD})\\s+(?:пробуждени|ночных\\s+пробуждени)`),
+    read: m => countValue(parseCount(m[1])),
+  },
+  {
+    type: 'awakenings',
+    regex: re(`${WB}(?:не\\s+просыпал${L}*|без\\s+пробуждений|проспал${L}*\\s+всю\\s+ночь|(?:didn'?t|did\\s+not|never)\\s+wake\\s+up|slept\\s+through)`),
+    read: () => countValue(0),
+  },
+  {
+    type: 'awakenings',
+    regex: re(`${WB}wok(?:e|en)(?:\\s+up)?\\s+(?:(\\d+|${COUNT_WORD})\\s+times|(once|twice))(?![a-zа-я])`),
+    read: m => countValue(parseCount(m[1] ?? m[2])),
+  },
+
+  // ---- Final awakening ----
+  {
+    type: 'wake_time',
+    regex: re(`${WB}(?:проснул(?:ся|ась|ись)|пробудил(?:ся|ась|ись))\\s+(?:окончательно\\s+|совсем\\s+|рано\\s+|ночью\\s+)?${APPROX}(?:в|около|к)\\s+${TIME}`),
+    read: m => timeValue(m[1], 'wake_time'),
+  },
+  {
+    type: 'wake_time',
+    regex: re(`${WB}(?:woke(?:\\s+up)?|was\\s+awake)\\s+(?:for\\s+good\\s+)?${APPROX}(?:at|around)\\s+${APPROX}${TIME}`),
+    read: m => timeValue(m[1], 'wake_time'),
+  },
+
+  // ---- Out of bed ----
+  {
+    type: 'out_of_bed',
+    regex: re(`${WB}(?:встал(?:а|и)?|поднял(?:ся|ась|ись))\\s+(?:с\\s+(?:кровати|постели)\\s+)?${APPROX}(?:в|около|к)\\s+${TIME}`),
+    read: m => timeValue(m[1], 'out_of_bed'),
+  },
+  {
+    type: 'out_of_bed',
+    regex: re(`${WB}got\\s+(?:up|out\\s+of\\s+bed)\\s+${APPROX}(?:at|around)\\s+${APPROX}${TIME}`),
+    read: m => timeValue(m[1], 'out_of_bed'),
+  },
+  {
+    // "bed at 23, up at 7"
+    type: 'out_of_bed',
+    regex: re(`${WB}(?<!(?:woke|wake|waking)\\s+)up\\s+${APPROX}(?:at|around)\\s+${APPROX}${TIME}`),
+    read: m => timeValue(m[1], 'out_of_bed'),
+  },
+
+  // ---- Return to sleep after a night awakening ----
+  {
+    type: 'back_to_sleep',
+    regex: re(`${WB}(?:(?:потом|затем|снова|опять|вновь|обратно)\\s+(?:уснул|заснул)${L}*|(?:уснул|заснул)${L}*\\s+(?:снова|опять|вновь|обратно))` +
+      `(?:\\s+${APPROX}(?:в|около|к)\\s+${TIME})?`),
+    read: m => backToSleepValue(m[1]),
+  },
+  {
+    type: 'back_to_sleep',
+    regex: re(`${WB}(?:fell\\s+(?:back\\s+)?asleep\\s+again|fell\\s+back\\s+asleep|(?:went|got)\\s+back\\s+to\\s+sleep)` +
+      `(?:\\s+${APPROX}(?:at|around)\\s+${APPROX}${TIME})?`),
+    read: m => backToSleepValue(m[1]),
+  },
+
+  // ---- Naps ----
+  {
+    type: 'nap',
+    regex: re(`${WB}(?:вздремнул${L}*|подремал${L}*|днем\\s+(?:по)?спал${L}*|(?:по)?спал${L}*\\s+днем|дневной\\s+сон)(?:\\s+(?:на|около|примерно|минут))?\\s+${APPROX}${DURATION}`),
+    read: m => minutesValue(m[1]),
+  },
+  {
+    type: 'nap',
+    regex: re(`${WB}(?:napped|took\\s+a\\s+nap|had\\s+a\\s+nap)\\s+(?:for\\s+)?${APPROX}${DURATION}`),
+    read: m => minutesValue(m[1]),
+  },
+  {
+    type: 'nap',
+    regex: re(`${WB}(\\d+)[- ]?min(?:ute)?s?\\s+nap`),
+    read: m => countValue(parseInt(m[1], 10)),
+  },
+  {
+    type: 'nap',
+    regex: re(`${WB}(?:не\\s+(?:спал|дремал)${L}*\\s+днем|днем\\s+не\\s+(?:спал|дремал)${L}*|без\\s+дневного\\s+сна|no\\s+naps?|(?:didn'?t|did\\s+not)\\s+nap)`),
+    read: () => countValue(0),
+  },
+
+  // ---- Caffeine ----
+  {
+    type: 'substance',
+    regex: re(`${WB}(\\d+|${COUNT_WORD})\\s+(?:чаш${L}*|круж${L}*|стакан${L}*|cups?|mugs?|shots?)\\s+(?:of\\s+)?(?:кофе|эспрессо|чая|чаю|coffee|espresso|tea)`),
+    read: m => ({ value: 'caffeine', quantity: parseCount(m[1]) }),
+  },
+  {
+    type: 'substance',
+    regex: re(`${WB}(\\d+|${COUNT_WORD})\\s+(?:coffees|энергетик${L}*|energy\\s+drinks?)`),
+    read: m => ({ value: 'caffeine', quantity: parseCount(m[1]) }),
+  },
+  {
+    type: 'substance',
+    regex: re(`${WB}(?:кофе|coffee|последн${L}*(?:\\s+(?:чаш${L}*|круж${L}*|кофе))?|last\\s+(?:one|cup|coffee))\\s+${APPROX}(?:в|около|at|around)\\s+${TIME}`),
+    read: m => {
+      const time = parseClock(m[1], 'caffeine');
+      return time ? { value: 'caffeine', time } : null;
+    },
+  },
+  {
+    type: 'substance',
+    regex: re(`${WB}(?:без\\s+кофе|не\\s+пил${L}*\\s+кофе|кофе\\s+не\\s+пил${L}*|no\\s+(?:coffee|caffeine))`),
+    read: () => ({ value: 'none_caffeine', quantity: 0 }),
+  },
+
+  // ---- Alcohol ----
+  {
+    type: 'substance',
+    regex: re(`${WB}(\\d+|${COUNT_WORD})\\s+(?:бокал${L}*|рюм${L}*|бутыл${L}*|банк${L}*|порци${L}*|glass(?:es)?|beers?|pints?|shots?|drinks?)` +
+      `(?!\\s+(?:of\\s+)?(?:воды|чая|кофе|сока|молока|энергетик${L}*|water|tea|coffee|juice|milk|espresso))`),
+    read: m => ({ value: 'alcohol', quantity: parseCount(m[1]) }),
+  },
+  {
+    type: 'substance',
+    regex: re(`${WB}(?:(?:бокал|рюмк|бутылк|банк|стакан)${L}*\\s+|выпил${L}*\\s+)(?:вина|пива|виски|водки|коньяка|шампанского|алкоголя)`),
+    read: () => ({ value: 'alcohol', quantity: 1 }),
+  },
+  {
+    type: 'substance',
+    regex: re(`${WB}(?:без\\s+алкоголя|не\\s+пил${L}*\\s+алкоголь|алкоголь\\s+не\\s+пил${L}*|no\\s+alcohol|(?:didn'?t|did\\s+not)\\s+drink)`),
+    read: () => ({ value: 'none_alcohol', quantity: 0 }),
+  },
+
+  // ---- Sleep medication ----
+  ...MEDICATIONS.map((medication): ISleepPattern => ({
+    type: 'substance',
+    regex: re(`${WB}(?:принял${L}*|выпил${L}*|took)\\s+(?:(полтаблетки|пол|половину|\\d+|${COUNT_WORD}|half\\s+a)\\s+)?(?:таблетк${L}*\\s+)?(?:${medication.pattern})`),
+    read: m => ({
+      value: medication.type,
+      quantity: m[1] ? (/пол|half/.test(m[1]) ? 0.5 : parseCount(m[1])) : 1,
+    }),
+  })),
+  {
+    type: 'substance',
+    regex: re(`${WB}(?:без\\s+снотворного|не\\s+принимал${L}*\\s+(?:снотворное|таблетки|лекарства)|no\\s+sleeping\\s+pills?)`),
+    read: () => ({ value: 'none_medication', quantity: 0 }),
+  },
+];
+
+/** Entity types that make a message a sleep report on their own */
+const CORE_SLEEP_TYPES: ReadonlySet<string> = new Set<SleepEntityType>([
+  'bedtime', 'sleep_onset', 'sleep_latency', 'awakenings', 'wake_time', 'out_of_bed',
+]);
+
+// ============================================================================
+// PARSING HELPERS
+// ============================================================================
+
+/**
+ * Parse a count word or digits
+ */
+function parseCount(token: string): number {
+  const value = token.trim();
+  return /^\d+$/.test(value) ? parseInt(value, 10) : NUMBER_WORDS[value] ?? 1;
+}
+
+/**
+ * Parse a duration to minutes
+ */
+function parseDuration(token: string): number | null {
+  const value = token.trim().replace(/\s+/g, ' ');
+
+  if (/полтора|and a half/.test(value)) return 90;
+  if (/полчаса|пол час|half an hour/.test(value)) return 30;
+
+  const numeric = value.match(/^(\d+(?:[.,]\d+)?)\s*(.*)$/);
+  const wordNumber = value.match(/^([a-zа-я]+) (.*)$/);
+  let amount: number;
+  let unit: string;
+
+  if (numeric) {
+    amount = parseFloat(numeric[1].replace(',', '.'));
+    unit = numeric[2];
+  } else if (wordNumber && NUMBER_WORDS[wordNumber[1]] !== undefined) {
+    amount = NUMBER_WORDS[wordNumber[1]];
+    unit = wordNumber[2];
+  } else {
+    // "час", "an hour"
+    amount = 1;
+    unit = value;
+  }
+
+  const minutes = /^(?:ч|h)/.test(unit) ? amount * 60 : amount;
+  return minutes > 0 && minutes <= 12 * 60 ? Math.round(minutes) : null;
+}
+
+/**
+ * Parse a clock time to HH:MM
+ *
+ * Without "вечера/утра/am/pm" a bedtime or sleep onset of 6-11 is read as evening and 12
+ * as midnight; a caffeine time of 1-6 as afternoon.
+ */
+function parseClock(token: string, role: SleepEntityType | 'caffeine'): string | null {
+  const value = token.trim();
+
+  if (/^(?:полноч|полуноч|midnight)/.test(value)) return '00:00';
+  if (/^(?:полдень|noon)/.test(value)) return '12:00';
+  if (/^час\s+ночи/.test(value)) return '01:00';
+
+  const match = value.match(/^(\d{1,2}|[a-zа-я]+)(?:[:.](\d{2}))?\s*(.*)$/);
+  if (!match) return null;
+
+  let hour = /^\d+$/.test(match[1]) ? parseInt(match[1], 10) : NUMBER_WORDS[match[1]];
+  const minute = match[2] ? parseInt(match[2], 10) : 0;
+  const suffix = match[3];
+  if (hour === undefined || hour > 23 || minute > 59) return null;
+
+  if (/вечера|дня|pm|p\.m\./.test(suffix)) {
+    if (hour < 12) hour += 12;
+  } else if (/утра|ночи|am|a\.m\./.test(suffix)) {
+    if (hour === 12) hour = 0;
+  } else if (role === 'bedtime' || role === 'sleep_onset') {
+    if (hour >= 6 && hour <= 11) hour += 12;
+    else if (hour === 12) hour = 0;
+  } else if (role === 'caffeine' && hour >= 1 && hour <= 6) {
+    hour += 12;
+  }
+
+  return `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Minutes from one clock time to the next occurrence of another
+ */
+function minutesBetween(from: string, to: string): number {
+  return (toMinutes(to) - toMinutes(from) + 24 * 60) % (24 * 60);
+}
+
+function overlaps(a: IExtractedEntity, b: IExtractedEntity): boolean {
+  return a.position.start < b.position.end && a.position.end > b.position.start;
+}
+
+// ============================================================================
+// EXTRACTOR
+// ============================================================================
+
+/**
+ * Sleep entity extractor
+ */
+export class SleepEntityExtractor {
+  /**
+   * Extract sleep diary entities in text order
+   * @param text - Message text or voice transcript
+   */
+  extract(text: string): IExtractedEntity[] {
+    // ё → е keeps positions: both are one UTF-16 unit
+    const normalized = text.toLowerCase().replace(/ё/g, 'е');
+    const entities: IExtractedEntity[] = [];
+    const taken: Array<{ key: string; start: number; end: number }> = [];
+
+    for (const pattern of SLEEP_PATTERNS) {
+      pattern.regex.lastIndex = 0;
+      let match: RegExpExecArray | null;
+
+      while ((match = pattern.regex.exec(normalized)) !== null) {
+        const start = match.index;
+        const end = start + match[0].length;
+
+        const read = pattern.read(match);
+        if (!read) continue;
+
+        // The first (more specific) pattern wins an overlapping span
+        const key = `${pattern.type}:${read.value}:${read.time ? 'time' : 'amount'}`;
+        if (taken.some(t => t.key === key && start < t.end && end > t.start)) continue;
+
+        taken.push({ key, start, end });
+        entities.push({
+          type: pattern.type,
+          ...read,
+          confidence: 0.8,
+          position: { start, end },
+        });
+      }
+    }
+
+    return entities.sort((a, b) => a.position.start - b.position.start);
+  }
+
+  /**
+   * Whether the entities describe a night of sleep (not just substances)
+   */
+  isSleepReport(entities: IExtractedEntity[]): boolean {
+    return entities.some(entity => CORE_SLEEP_TYPES.has(entity.type));
+  }
+
+  /**
+   * Combine entities into diary items; later mentions override earlier ones
+   *
+   * A wake time followed by a return to sleep is a night awakening, so
+   * "проснулся в 3, потом уснул, встал в 6:30" ends the night at 06:30.
+   * @param entities - Entities from extract()
+   */
+  toSleepReport(entities: IExtractedEntity[]): ISleepReport {
+    const report: ISleepReport = {};
+    const returns = this.findReturnsToSleep(entities);
+    // "потом уснул в 4" is not the evening's sleep onset
+    const night = entities.filter(e => !returns.some(r => overlaps(e, r.back)));
+    const last = (type: SleepEntityType) => night.filter(e => e.type === type).pop();
+
+    const bedtime = last('bedtime');
+    const onset = last('sleep_onset');
+    const latency = last('sleep_latency');
+    const awakenings = last('awakenings');
+    const lastWake = last('wake_time');
+    const wake = returns.some(r => r.wake === lastWake) ? undefined : lastWake;
+    const outOfBed = last('out_of_bed');
+
+    if (bedtime) report.bedtime = bedtime.value;
+    if (latency) {
+      report.sleepOnsetLatency = latency.quantity;
+    } else if (onset && bedtime) {
+      const minutes = minutesBetween(bedtime.value, onset.value);
+      if (minutes <= 6 * 60) report.sleepOnsetLatency = minutes;
+    }
+    if (awakenings || returns.length > 0) {
+      report.numberOfAwakenings = Math.max(awakenings?.quantity ?? 0, returns.length);
+    }
+    if (returns.length > 0 && returns.every(r => r.back.time)) {
+      report.wakeAfterSleepOnset = returns.reduce(
+        (sum, r) => sum + minutesBetween(r.wake.value, r.back.time!), 0);
+    }
+    if (wake || outOfBed) {
+      report.finalAwakening = (wake ?? outOfBed)!.value;
+      report.outOfBedTime = (outOfBed ?? wake)!.value;
+    }
+
+    const naps = entities.filter(e => e.type === 'nap');
+    if (naps.length > 0) {
+      const taken = naps.filter(nap => (nap.quantity ?? 0) > 0);
+      report.napCount = taken.length;
+      report.napMinutes = taken.reduce((sum, nap) => sum + (nap.quantity ?? 0), 0);
+    }
+
+    const substances = entities.filter(e => e.type === 'substance');
+    const caffeine = substances.filter(s => s.value === 'caffeine');
+    if (caffeine.length > 0 || substances.some(s => s.value === 'none_caffeine')) {
+      report.caffeineDrinks = caffeine.reduce((sum, s) => sum + (s.quantity ?? 0), 0);
+      const times = caffeine.map(s => s.time).filter((time): time is string => !!time);
+      if (times.length > 0) {
+        report.lastCaffeineTime = times.sort().pop();
+        // "кофе в 17" alone still means at least one drink
+        report.caffeineDrinks = Math.max(report.caffeineDrinks, 1);
+      }
+    }
+
+    const alcohol = substances.filter(s => s.value === 'alcohol');
+    if (alcohol.length > 0 || substances.some(s => s.value === 'none_alcohol')) {
+      report.alcoholDrinks = alcohol.reduce((sum, s) => sum + (s.quantity ?? 0), 0);
+    }
+
+    const medications = substances.filter(s => MEDICATIONS.some(m => m.type === s.value));
+    if (medications.length > 0) {
+      report.sleepMedications = medications.map(s => {
+        const medication = MEDICATIONS.find(m => m.type === s.value)!;
+        return { name: medication.name, type: medication.type, dose: s.quantity ?? 1, unit: 'tablet' };
+      });
+    } else if (substances.some(s => s.value === 'none_medication')) {
+      report.sleepMedications = [];
+    }
+
+    return report;
+  }
+
+  /**
+   * Pair each return to sleep with the wake time it ends
+   *
+   * A return before any wake time ("лёг в 23, потом уснул") is the evening's
+   * sleep onset, not a night awakening.
+   */
+  private findReturnsToSleep(
+    entities: IExtractedEntity[]
+  ): Array<{ wake: IExtractedEntity; back: IExtractedEntity }> {
+    const returns: Array<{ wake: IExtractedEntity; back: IExtractedEntity }> = [];
+    let wake: IExtractedEntity | undefined;
+
+    for (const entity of entities) {
+      if (entity.type === 'wake_time') {
+        wake = entity;
+      } else if (entity.type === 'back_to_sleep' && wake) {
+        returns.push({ wake, back: entity });
+        wake = undefined;
+      }
+    }
+
+    return returns;
+  }
+}
+
+// ============================================================================
+// FACTORY
+// ============================================================================
+
+/**
+ * Create sleep entity extractor
+ */
+export function createSleepEntityExtractor(): SleepEntityExtractor {
+  return new SleepEntityExtractor();
+}
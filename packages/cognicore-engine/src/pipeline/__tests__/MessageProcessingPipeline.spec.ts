@@ -0,0 +1,200 @@
+/**
+ * 🧪 MESSAGE PROCESSING PIPELINE TESTS
+ * ====================================
+ * Pluggable stages: ordering, data passing, timeouts and failure policies
+ *
+ * БФ "Другой путь" | БАЙТ Cognitive Core v1.0
+ */
+
+import { MessageProcessingPipeline, createMessageProcessingPipeline } from '../MessageProcessingPipeline';
+import {
+  PIPELINE_STAGE_ORDER,
+  type IIncomingMessage,
+  type IPipelineStage,
+} from '../IMessagePipeline';
+
+// ============================================================================
+// TEST UTILITIES
+// ============================================================================
+
+function createMessage(text: string): IIncomingMessage {
+  return {
+    messageId: 'msg-1',
+    userId: 'user-1',
+    chatId: 'chat-1',
+    sessionId: 'session-1',
+    text,
+    timestamp: new Date(),
+    platform: 'telegram',
+  };
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('MessageProcessingPipeline', () => {
+  let pipeline: MessageProcessingPipeline;
+
+  beforeEach(() => {
+    pipeline = createMessageProcessingPipeline();
+  });
+
+  describe('built-in stages', () => {
+    it('should run the four stages in order and record their latency', async () => {
+      const result = await pipeline.process(createMessage('Тревога мешает мне уснуть'));
+
+      expect(pipeline.getStages()).toEqual(['nlp_analysis', 'user_state', 'risk_detection', 'response_generation']);
+      expect(result.stageResults.map(r => r.stage)).toEqual(pipeline.getStages());
+      expect(result.analysis.topic).toBe('anxiety');
+      expect(result.userState.engagement.messagesInSession).toBe(1);
+      expect(result.response.text.length).toBeGreaterThan(0);
+      expect(result.eventsEmitted).toEqual([
+        'message:received',
+        'message:analyzed',
+        'state:updated',
+        'response:generated',
+        'pipeline:completed',
+      ]);
+
+      const stats = pipeline.getStats();
+      expect(Object.keys(stats.stages)).toEqual(pipeline.getStages());
+      expect(stats.stages.nlp_analysis).toMatchObject({ runs: 1, failures: 0, timeouts: 0 });
+    });
+  });
+
+  describe('registerStage', () => {
+    it('should pass typed data between custom and built-in stages', async () => {
+      const seen: string[] = [];
+
+      pipeline.registerStage({
+        name: 'pii_redaction',
+        order: PIPELINE_STAGE_ORDER.nlp_analysis - 50,
+        execute: async ({ data }) => ({
+          message: { ...data.message, text: data.message.text.replace(/\+7\d{10}/g, '[phone]') },
+        }),
+      });
+      pipeline.registerStage({
+        name: 'sleep_intent',
+        order: PIPELINE_STAGE_ORDER.nlp_analysis + 50,
+        requires: ['analysis'],
+        execute: async ({ data }) => {
+          seen.push(data.message.text);
+          return { analysis: { ...data.analysis!, topic: 'sleep' } };
+        },
+      });
+      pipeline.registerStage({
+        name: 'safety_filter',
+        order: PIPELINE_STAGE_ORDER.response_generation + 100,
+        requires: ['response'],
+        execute: async ({ data }) => ({ response: { ...data.response!, text: `${data.response!.text} ✔` } }),
+      });
+
+      const result = await pipeline.process(createMessage('Не могу уснуть, позвони +79991234567'));
+
+      expect(pipeline.getStages()).toEqual([
+        'pii_redaction',
+        'nlp_analysis',
+        'sleep_intent',
+        'user_state',
+        'risk_detection',
+        'response_generation',
+        'safety_filter',
+      ]);
+      expect(seen).toEqual(['Не могу уснуть, позвони [phone]']);
+      expect(result.originalMessage.text).toContain('+79991234567');
+      expect(result.analysis.topic).toBe('sleep');
+      expect(result.response.text.endsWith(' ✔')).toBe(true);
+    });
+
+    it('should keep registration order for equal orders and allow replacing built-ins', async () => {
+      const noop = (name: string): IPipelineStage => ({ name, order: 150, execute: async () => undefined });
+      pipeline.registerStage(noop('first'));
+      pipeline.registerStage(noop('second'));
+
+      expect(pipeline.getStages().slice(1, 3)).toEqual(['first', 'second']);
+      expect(() => pipeline.registerStage(noop('first'))).toThrow('already registered');
+
+      expect(pipeline.removeStage('nlp_analysis')).toBe(true);
+      expect(pipeline.removeStage('nlp_analysis')).toBe(false);
+      await expect(pipeline.process(createMessage('привет'))).rejects.toThrow('requires: analysis');
+    });
+
+    it('should reject the fallback policy without a fallback', () => {
+      expect(() =>
+        pipeline.registerStage({
+          name: 'broken',
+          order: 10,
+          failurePolicy: 'fallback',
+          execute: async () => undefined,
+        })
+      ).toThrow('without a fallback');
+    });
+  });
+
+  describe('failure policies', () => {
+    it('should skip a failing stage and continue', async () => {
+      pipeline.registerStage({
+        name: 'flaky',
+        order: 150,
+        failurePolicy: 'skip',
+        execute: async () => {
+          throw new Error('classifier unavailable');
+        },
+      });
+
+      const result = await pipeline.process(createMessage('привет'));
+      const flaky = result.stageResults.find(r => r.stage === 'flaky');
+
+      expect(flaky).toMatchObject({ success: false, continueProcessing: true, failurePolicy: 'skip' });
+      expect(flaky?.error?.message).toBe('classifier unavailable');
+      expect(result.response).toBeDefined();
+      expect(pipeline.getStats().stages.flaky).toMatchObject({ runs: 1, failures: 1, fallbacks: 0 });
+    });
+
+    it('should apply the fallback output after a timeout', async () => {
+      pipeline.registerStage({
+        name: 'slow_filter',
+        order: 500,
+        timeoutMs: 20,
+        failurePolicy: 'fallback',
+        execute: async ({ data }) => {
+          await delay(200);
+          return { response: { ...data.response!, text: 'late' } };
+        },
+        fallback: ({ data }, error) => ({
+          response: { ...data.response!, text: `Безопасный ответ (${error.message})` },
+        }),
+      });
+
+      const result = await pipeline.process(createMessage('привет'));
+
+      expect(result.response.text).toBe('Безопасный ответ (Pipeline stage slow_filter timed out after 20ms)');
+      expect(result.stageResults[result.stageResults.length - 1]).toMatchObject({ timedOut: true, success: false });
+      expect(pipeline.getStats().stages.slow_filter).toMatchObject({ runs: 1, failures: 1, timeouts: 1, fallbacks: 1 });
+    });
+
+    it('should abort the pipeline by default', async () => {
+      const errors: unknown[] = [];
+      pipeline.on('pipeline:error', data => {
+        errors.push(data);
+      });
+      pipeline.registerStage({
+        name: 'strict',
+        order: 50,
+        execute: async () => {
+          throw new Error('redactor failed');
+        },
+      });
+
+      await expect(pipeline.process(createMessage('привет'))).rejects.toThrow('redactor failed');
+      expect(errors).toHaveLength(1);
+      expect(pipeline.getStats()).toMatchObject({ errorCount: 1, messagesProcessed: 0 });
+      expect(pipeline.getStats().stages.nlp_analysis).toBeUndefined();
+    });
+  });
+});
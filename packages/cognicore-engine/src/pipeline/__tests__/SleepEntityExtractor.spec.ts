@@ -0,0 +1,168 @@
+/**
+ * 🧪 SLEEP ENTITY EXTRACTOR TESTS
+ * ===============================
+ * Russian and English sleep diary items from free text
+ *
+ * БФ "Другой путь" | БАЙТ Cognitive Core v1.0
+ */
+
+import { SleepEntityExtractor } from '../SleepEntityExtractor';
+import { createMessageProcessingPipeline } from '../MessageProcessingPipeline';
+
+describe('SleepEntityExtractor', () => {
+  const extractor = new SleepEntityExtractor();
+  const report = (text: string) => extractor.toSleepReport(extractor.extract(text));
+
+  describe('Russian', () => {
+    it('should read bedtime, latency and an early final awakening', () => {
+      const text = 'лёг в полночь, уснул через час, проснулся в 4 и больше не спал';
+      const entities = extractor.extract(text);
+
+      expect(entities.map(e => [e.type, e.value])).toEqual([
+        ['bedtime', '00:00'],
+        ['sleep_latency', '60'],
+        ['wake_time', '04:00'],
+      ]);
+      expect(text.slice(entities[0].position.start, entities[0].position.end)).toBe('лёг в полночь');
+      expect(report(text)).toEqual({
+        bedtime: '00:00',
+        sleepOnsetLatency: 60,
+        finalAwakening: '04:00',
+        outOfBedTime: '04:00',
+      });
+    });
+
+    it('should read evening hours, awakenings, out-of-bed time and naps', () => {
+      expect(report(
+        'Легла около 11, заснула только в 12:30, просыпалась дважды, ' +
+        'проснулась в 6.45, встала в 7:15. Днём вздремнула на полчаса'
+      )).toEqual({
+        bedtime: '23:00',
+        sleepOnsetLatency: 90,
+        numberOfAwakenings: 2,
+        finalAwakening: '06:45',
+        outOfBedTime: '07:15',
+        napCount: 1,
+        napMinutes: 30,
+      });
+    });
+
+    it('should read substances and explicit absences', () => {
+      expect(report('выпил 2 чашки кофе, последний кофе в 5, бокал вина и принял полтаблетки мелатонина')).toEqual({
+        caffeineDrinks: 2,
+        lastCaffeineTime: '17:00',
+        alcoholDrinks: 1,
+        sleepMedications: [{ name: 'Мелатонин', type: 'melatonin', dose: 0.5, unit: 'tablet' }],
+      });
+      expect(report('без кофе и без алкоголя, днём не спал, не просыпался')).toEqual({
+        caffeineDrinks: 0,
+        alcoholDrinks: 0,
+        napCount: 0,
+        napMinutes: 0,
+        numberOfAwakenings: 0,
+      });
+    });
+
+    it('should end the night at the out-of-bed time after a return to sleep', () => {
+      expect(report('проснулся в 3:00, потом уснул, встал в 6:30')).toEqual({
+        numberOfAwakenings: 1,
+        finalAwakening: '06:30',
+        outOfBedTime: '06:30',
+      });
+      expect(report('легла в 23, проснулась ночью в 3, снова заснула в 3:40, проснулась в 6:45 и встала в 7')).toEqual({
+        bedtime: '23:00',
+        numberOfAwakenings: 1,
+        wakeAfterSleepOnset: 40,
+        finalAwakening: '06:45',
+        outOfBedTime: '07:00',
+      });
+    });
+
+    it('should keep "потом уснул" before any awakening as sleep onset', () => {
+      expect(report('лёг в 23, потом уснул в 23:40, проснулся в 7')).toEqual({
+        bedtime: '23:00',
+        sleepOnsetLatency: 40,
+        finalAwakening: '07:00',
+        outOfBedTime: '07:00',
+      });
+    });
+
+    it('should read the last caffeine time without naming the drink again', () => {
+      expect(report('выпила 3 чашки кофе, последний в 17:00')).toEqual({
+        caffeineDrinks: 3,
+        lastCaffeineTime: '17:00',
+      });
+    });
+
+    it('should ignore unrelated times and drinks', () => {
+      expect(extractor.extract('пошёл в 7 на работу, выпил стакан воды')).toEqual([]);
+    });
+  });
+
+  describe('English', () => {
+    it('should read a full night', () => {
+      expect(report(
+        'Went to bed at 11:30 pm, took me about 40 minutes to fall asleep, woke up 3 times, ' +
+        'woke at 5 and got up at 6:30. Had 2 cups of coffee and 3 beers, no nap'
+      )).toEqual({
+        bedtime: '23:30',
+        sleepOnsetLatency: 40,
+        numberOfAwakenings: 3,
+        finalAwakening: '05:00',
+        outOfBedTime: '06:30',
+        napCount: 0,
+        napMinutes: 0,
+        caffeineDrinks: 2,
+        alcoholDrinks: 3,
+      });
+    });
+
+    it('should read short bed and up times', () => {
+      expect(report('bed at 23, up at 7')).toEqual({
+        bedtime: '23:00',
+        finalAwakening: '07:00',
+        outOfBedTime: '07:00',
+      });
+      expect(report('woke up at 5 and got out of bed at 6')).toEqual({
+        finalAwakening: '05:00',
+        outOfBedTime: '06:00',
+      });
+    });
+
+    it('should count a wake followed by falling back asleep as a night awakening', () => {
+      expect(report('Went to bed at 11 pm, woke at 2, fell back asleep around 2:30, got up at 6:30')).toEqual({
+        bedtime: '23:00',
+        numberOfAwakenings: 1,
+        wakeAfterSleepOnset: 30,
+        finalAwakening: '06:30',
+        outOfBedTime: '06:30',
+      });
+    });
+
+    it('should derive latency from the sleep onset time', () => {
+      expect(report('in bed by midnight, fell asleep around 1 am, took a sleeping pill')).toMatchObject({
+        bedtime: '00:00',
+        sleepOnsetLatency: 60,
+        sleepMedications: [{ type: 'hypnotic', dose: 1 }],
+      });
+    });
+  });
+
+  describe('pipeline', () => {
+    it('should classify a described night as a sleep report', async () => {
+      const analysis = await createMessageProcessingPipeline().analyzeOnly('лёг в 23, проснулся в 7');
+
+      expect(analysis.intent).toBe('sleep_report');
+      expect(analysis.topic).toBe('sleep');
+      expect(analysis.sleepReport).toEqual({ bedtime: '23:00', finalAwakening: '07:00', outOfBedTime: '07:00' });
+      expect(analysis.entities.filter(e => e.type === 'bedtime')).toHaveLength(1);
+    });
+
+    it('should not treat substances alone as a sleep report', async () => {
+      const analysis = await createMessageProcessingPipeline().analyzeOnly('выпил 2 чашки кофе');
+
+      expect(analysis.intent).not.toBe('sleep_report');
+      expect(analysis.sleepReport).toEqual({ caffeineDrinks: 2 });
+    });
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * 📽️ CRISIS TIMELINE PROJECTION
+ * ==============================
+ * Per-user timeline of CRISIS_DETECTED events for clinical review
+ *
+ * Scientific Foundation:
+ * - Stanley & Brown (2012): Safety Planning Intervention - reviewing
+ *   the sequence of past crises
+ * - Kleiman et al. (2017): suicidal ideation fluctuates over hours,
+ *   so episodes are kept with exact timestamps
+ *
+ * БФ "Другой путь" | БАЙТ Cognitive Core v1.0
+ */
+
+import type { ICrisisDetectedEvent, IDomainEvent } from '../integration/ICognitiveCoreAPI';
+import type { IProjection } from './interfaces/IProjection';
+
+// ============================================================================
+// READ MODEL
+// ============================================================================
+
+/**
+ * One detected crisis
+ */
+export interface ICrisisTimelineEntry {
+  /** Source event ID */
+  eventId: string;
+
+  /** Session in which the crisis was detected */
+  sessionId: string;
+
+  /** Detection time */
+  detectedAt: Date;
+
+  /** Risk level (0-1) */
+  riskLevel: number;
+
+  /** Crisis type */
+  crisisType: ICrisisDetectedEvent['payload']['crisisType'];
+
+  /** Recommended action */
+  recommendedAction: ICrisisDetectedEvent['payload']['recommendedAction'];
+
+  /** Indicators that triggered detection */
+  triggerIndicators: string[];
+}
+
+/**
+ * Crisis timeline of one user
+ */
+export interface IUserCrisisTimeline {
+  /** User ID */
+  userId: string;
+
+  /** Crises, oldest first (capped at maxEntriesPerUser) */
+  entries: ICrisisTimelineEntry[];
+
+  /** Crises detected in total, including trimmed entries */
+  totalCrises: number;
+
+  /** Highest risk level seen */
+  peakRiskLevel: number;
+
+  /** First detection */
+  firstCrisisAt: Date;
+
+  /** Latest detection */
+  lastCrisisAt: Date;
+}
+
+/**
+ * Crisis timelines keyed by user ID
+ */
+export type CrisisTimelineState = Record<string, IUserCrisisTimeline>;
+
+// ============================================================================
+// PROJECTION
+// ============================================================================
+
+/**
+ * Crisis timeline projection
+ */
+export class CrisisTimelineProjection implements IProjection<CrisisTimelineState> {
+  readonly name = 'crisis_timeline';
+  readonly version: number = 1;
+  readonly eventTypes = ['CRISIS_DETECTED'] as const;
+
+  /**
+   * @param maxEntriesPerUser - Entries kept per user (oldest trimmed first)
+   */
+  constructor(private readonly maxEntriesPerUser: number = 200) {}
+
+  initialState(): CrisisTimelineState {
+    return {};
+  }
+
+  apply(state: CrisisTimelineState, event: IDomainEvent): CrisisTimelineState {
+    const payload = (event as ICrisisDetectedEvent).payload;
+
+    const timeline = state[payload.userId] ?? {
+      userId: payload.userId,
+      entries: [],
+      totalCrises: 0,
+      peakRiskLevel: 0,
+      firstCrisisAt: event.timestamp,
+      lastCrisisAt: event.timestamp,
+    };
+
+    timeline.entries.push({
+      eventId: event.eventId,
+      sessionId: payload.sessionId,
+      detectedAt: event.timestamp,
+      riskLevel: payload.riskLevel,
+      crisisType: payload.crisisType,
+      recommendedAction: payload.recommendedAction,
+      triggerIndicators: [...payload.triggerIndicators],
+    });
+    timeline.entries.sort((a, b) => a.detectedAt.getTime() - b.detectedAt.getTime());
+    if (timeline.entries.length > this.maxEntriesPerUser) {
+      timeline.entries.splice(0, timeline.entries.length - this.maxEntriesPerUser);
+    }
+
+    timeline.totalCrises++;
+    timeline.peakRiskLevel = Math.max(timeline.peakRiskLevel, payload.riskLevel);
+    if (event.timestamp < timeline.firstCrisisAt) timeline.firstCrisisAt = event.timestamp;
+    if (event.timestamp > timeline.lastCrisisAt) timeline.lastCrisisAt = event.timestamp;
+
+    state[payload.userId] = timeline;
+    return state;
+  }
+}
+
+/**
+ * Factory function for creating the crisis timeline projection
+ */
+export function createCrisisTimelineProjection(
+  maxEntriesPerUser?: number
+): CrisisTimelineProjection {
+  return new CrisisTimelineProjection(maxEntriesPerUser);
+}
@@ -0,0 +1,120 @@
+/**
+ * 📽️ INTERVENTION EFFECTIVENESS PROJECTION
+ * =========================================
+ * Read model of outcomes per intervention from INTERVENTION_OUTCOME events
+ *
+ * Scientific Foundation:
+ * - Nahum-Shani et al. (2018): JITAI proximal outcomes per decision point
+ * - Running means (Welford, 1962) so replay is a single pass
+ *
+ * БФ "Другой путь" | БАЙТ Cognitive Core v1.0
+ */
+
+import type { IDomainEvent, IInterventionOutcomeEvent } from '../integration/ICognitiveCoreAPI';
+import type { IProjection } from './interfaces/IProjection';
+
+// ============================================================================
+// READ MODEL
+// ============================================================================
+
+/**
+ * Outcome statistics of one intervention
+ */
+export interface IInterventionEffectiveness {
+  /** Intervention ID */
+  interventionId: string;
+
+  /** Outcomes recorded */
+  outcomes: number;
+
+  /** Outcomes with value > 0 */
+  positiveOutcomes: number;
+
+  /** Mean normalized outcome value (-1 to 1) */
+  meanValue: number;
+
+  /** Mean reward signal */
+  meanReward: number;
+
+  /** Count and mean value per outcome type */
+  byOutcomeType: Record<string, { count: number; meanValue: number }>;
+
+  /** Time of the latest outcome */
+  lastOutcomeAt: Date;
+}
+
+/**
+ * Effectiveness table keyed by intervention ID
+ */
+export type InterventionEffectivenessState = Record<string, IInterventionEffectiveness>;
+
+// ============================================================================
+// PROJECTION
+// ============================================================================
+
+/**
+ * Intervention effectiveness projection
+ */
+export class InterventionEffectivenessProjection
+  implements IProjection<InterventionEffectivenessState>
+{
+  readonly name = 'intervention_effectiveness';
+  readonly version: number = 1;
+  readonly eventTypes = ['INTERVENTION_OUTCOME'] as const;
+
+  initialState(): InterventionEffectivenessState {
+    return {};
+  }
+
+  apply(state: InterventionEffectivenessState, event: IDomainEvent): InterventionEffectivenessState {
+    const { interventionId, outcome, rewardSignal } = (event as IInterventionOutcomeEvent).payload;
+
+    const row = state[interventionId] ?? {
+      interventionId,
+      outcomes: 0,
+      positiveOutcomes: 0,
+      meanValue: 0,
+      meanReward: 0,
+      byOutcomeType: {},
+      lastOutcomeAt: event.timestamp,
+    };
+
+    row.outcomes++;
+    if (outcome.value > 0) row.positiveOutcomes++;
+    row.meanValue += (outcome.value - row.meanValue) / row.outcomes;
+    row.meanReward += (rewardSignal - row.meanReward) / row.outcomes;
+
+    const byType = row.byOutcomeType[outcome.outcomeType] ?? { count: 0, meanValue: 0 };
+    byType.count++;
+    byType.meanValue += (outcome.value - byType.meanValue) / byType.count;
+    row.byOutcomeType[outcome.outcomeType] = byType;
+
+    if (event.timestamp >= row.lastOutcomeAt) {
+      row.lastOutcomeAt = event.timestamp;
+    }
+
+    state[interventionId] = row;
+    return state;
+  }
+}
+
+/**
+ * Interventions ordered by mean outcome value
+ * @param state - Effectiveness table
+ * @param minOutcomes - Skip interventions with fewer outcomes
+ */
+export function rankInterventionEffectiveness(
+  state: InterventionEffectivenessState,
+  minOutcomes: number = 1
+): IInterventionEffectiveness[] {
+  return Object.values(state)
+    .filter(row => row.outcomes >= minOutcomes)
+    .sort((a, b) => b.meanValue - a.meanValue || b.outcomes - a.outcomes);
+}
+
+/**
+ * Factory function for creating the intervention effectiveness projection
+ */
+export function createInterventionEffectivenessProjection(): InterventionEffectivenessProjection {
+  return new InterventionEffectivenessProjection();
+}
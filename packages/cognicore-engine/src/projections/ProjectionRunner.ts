@@ -0,0 +1,218 @@
+/**
+ * 📽️ PROJECTION RUNNER
+ * =====================
+ * Builds read models from IEventStore with checkpoints and replay
+ *
+ * Each registered projection keeps its own checkpoint (last global event
+ * position). catchUp() reads events after the checkpoint in batches and
+ * saves state + checkpoint after every batch, so an interrupted run resumes
+ * where it stopped. A projection whose version changed is replayed from the
+ * first event.
+ *
+ * БФ "Другой путь" | БАЙТ Cognitive Core v1.0
+ */
+
+import type { IEventBus, IEventStore, IEventSubscription } from '../integration/ICognitiveCoreAPI';
+import {
+  DEFAULT_PROJECTION_RUNNER_CONFIG,
+  type CreateProjectionRunner,
+  type IProjection,
+  type IProjectionCheckpoint,
+  type IProjectionRunner,
+  type IProjectionRunnerConfig,
+  type IProjectionRunResult,
+  type IProjectionSnapshot,
+  type IProjectionStore,
+} from './interfaces/IProjection';
+
+// ============================================================================
+// IN-MEMORY PROJECTION STORE
+// ============================================================================
+
+/**
+ * In-memory projection store (default; state is lost on restart)
+ */
+export class InMemoryProjectionStore implements IProjectionStore {
+  private snapshots: Map<string, IProjectionSnapshot> = new Map();
+
+  async load<TState>(projectionName: string): Promise<IProjectionSnapshot<TState> | null> {
+    return (this.snapshots.get(projectionName) as IProjectionSnapshot<TState> | undefined) ?? null;
+  }
+
+  async save<TState>(snapshot: IProjectionSnapshot<TState>): Promise<void> {
+    this.snapshots.set(snapshot.checkpoint.projectionName, snapshot);
+  }
+
+  async delete(projectionName: string): Promise<void> {
+    this.snapshots.delete(projectionName);
+  }
+}
+
+// ============================================================================
+// PROJECTION RUNNER
+// ============================================================================
+
+/**
+ * Projection runner implementation
+ */
+export class ProjectionRunner implements IProjectionRunner {
+  private projections: Map<string, IProjection<unknown>> = new Map();
+  private config: IProjectionRunnerConfig;
+
+  /** Runs are serialized so live catch-ups never apply an event twice */
+  private runQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly eventStore: IEventStore,
+    private readonly store: IProjectionStore = new InMemoryProjectionStore(),
+    config: Partial<IProjectionRunnerConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_PROJECTION_RUNNER_CONFIG, ...config };
+  }
+
+  register<TState>(projection: IProjection<TState>): void {
+    if (this.projections.has(projection.name)) {
+      throw new Error(`Projection already registered: ${projection.name}`);
+    }
+    this.projections.set(projection.name, projection as IProjection<unknown>);
+  }
+
+  catchUp(projectionName?: string): Promise<IProjectionRunResult[]> {
+    const projections = projectionName
+      ? [this.getProjection(projectionName)]
+      : Array.from(this.projections.values());
+
+    return this.enqueue(async () => {
+      const results: IProjectionRunResult[] = [];
+      for (const projection of projections) {
+        results.push(await this.run(projection, false));
+      }
+      return results;
+    });
+  }
+
+  rebuild(projectionName: string): Promise<IProjectionRunResult> {
+    const projection = this.getProjection(projectionName);
+    return this.enqueue(() => this.run(projection, true));
+  }
+
+  async getState<TState>(projectionName: string): Promise<TState> {
+    const projection = this.getProjection(projectionName);
+    const snapshot = await this.store.load<TState>(projectionName);
+
+    if (!snapshot || snapshot.checkpoint.version !== projection.version) {
+      return projection.initialState() as TState;
+    }
+    return snapshot.state;
+  }
+
+  async getCheckpoint(projectionName: string): Promise<IProjectionCheckpoint | null> {
+    this.getProjection(projectionName);
+    const snapshot = await this.store.load(projectionName);
+    return snapshot?.checkpoint ?? null;
+  }
+
+  attach(eventBus: IEventBus): IEventSubscription {
+    return eventBus.subscribe('*', async () => {
+      await this.catchUp();
+    });
+  }
+
+  // ============================================================================
+  // PRIVATE HELPERS
+  // ============================================================================
+
+  private getProjection(projectionName: string): IProjection<unknown> {
+    const projection = this.projections.get(projectionName);
+    if (!projection) {
+      throw new Error(`Unknown projection: ${projectionName}`);
+    }
+    return projection;
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.runQueue.then(task);
+    this.runQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Apply events after the checkpoint, or from the start when replaying
+   */
+  private async run(
+    projection: IProjection<unknown>,
+    forceReplay: boolean
+  ): Promise<IProjectionRunResult> {
+    if (forceReplay) {
+      await this.store.delete(projection.name);
+    }
+
+    const snapshot = await this.store.load(projection.name);
+    const replayed = !snapshot || snapshot.checkpoint.version !== projection.version;
+
+    let state = replayed ? projection.initialState() : snapshot.state;
+    let position = replayed ? 0 : snapshot.checkpoint.position;
+    let eventsRead = 0;
+    let eventsApplied = 0;
+    const eventTypes = new Set(projection.eventTypes);
+
+    for (;;) {
+      const batch = await this.eventStore.readAll(position, this.config.batchSize);
+      if (batch.length === 0) break;
+
+      for (const stored of batch) {
+        if (eventTypes.has(stored.event.eventType)) {
+          state = projection.apply(state, stored.event);
+          eventsApplied++;
+        }
+        position = stored.position;
+      }
+      eventsRead += batch.length;
+
+      await this.save(projection, state, position);
+      if (batch.length < this.config.batchSize) break;
+    }
+
+    // Record the new version even when there was nothing to replay
+    if (replayed && eventsRead === 0) {
+      await this.save(projection, state, position);
+    }
+
+    return {
+      projectionName: projection.name,
+      replayed,
+      eventsRead,
+      eventsApplied,
+      position,
+    };
+  }
+
+  private async save(
+    projection: IProjection<unknown>,
+    state: unknown,
+    position: number
+  ): Promise<void> {
+    await this.store.save({
+      checkpoint: {
+        projectionName: projection.name,
+        version: projection.version,
+        position,
+        updatedAt: new Date(),
+      },
+      state,
+    });
+  }
+}
+
+// ============================================================================
+// FACTORY FUNCTION
+// ============================================================================
+
+/**
+ * Factory function for creating a projection runner
+ */
+export const createProjectionRunner: CreateProjectionRunner = (
+  eventStore,
+  store,
+  config
+) => new ProjectionRunner(eventStore, store, config);
@@ -0,0 +1,286 @@
+/**
+ * 🧪 PROJECTION RUNNER TESTS
+ * ==========================
+ * Checkpointing, replay and the built-in read models
+ *
+ * БФ "Другой путь" | БАЙТ Cognitive Core v1.0
+ */
+
+import {
+  ProjectionRunner,
+  InMemoryProjectionStore,
+  createProjectionRunner,
+} from '../ProjectionRunner';
+import {
+  InterventionEffectivenessProjection,
+  rankInterventionEffectiveness,
+  type InterventionEffectivenessState,
+} from '../InterventionEffectivenessProjection';
+import {
+  CrisisTimelineProjection,
+  type CrisisTimelineState,
+} from '../CrisisTimelineProjection';
+import { InMemoryEventBus, InMemoryEventStore } from '../../integration/CognitiveCoreInfrastructure';
+import type {
+  EventHandler,
+  IDomainEvent,
+  IEventBus,
+  IEventStore,
+  IStoredEvent,
+} from '../../integration/ICognitiveCoreAPI';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Event log exposing only what projections read
+ */
+class EventLog {
+  private events: IStoredEvent[] = [];
+
+  append(event: IDomainEvent): void {
+    this.events.push({ position: this.events.length + 1, streamId: event.aggregateId, event });
+  }
+
+  asStore(): IEventStore {
+    return {
+      readAll: async (fromPosition = 0, count?: number) => {
+        const result = this.events.filter(stored => stored.position > fromPosition);
+        return count ? result.slice(0, count) : result;
+      },
+    } as IEventStore;
+  }
+}
+
+let eventCounter = 0;
+
+function outcomeEvent(interventionId: string, value: number, outcomeType = 'engagement'): IDomainEvent {
+  const timestamp = new Date(Date.UTC(2025, 2, 1, 10, eventCounter));
+  return {
+    eventId: `evt-${++eventCounter}`,
+    eventType: 'INTERVENTION_OUTCOME',
+    aggregateId: 'user-1',
+    aggregateType: 'intervention',
+    timestamp,
+    version: 1,
+    payload: {
+      userId: 'user-1',
+      interventionId,
+      outcome: {
+        decisionPointId: `dp-${eventCounter}`,
+        userId: 'user-1',
+        interventionId,
+        timestamp,
+        latencySeconds: 60,
+        outcomeType,
+        value,
+        rawValue: value,
+        confidence: 0.9,
+      },
+      rewardSignal: value,
+    },
+    metadata: { correlationId: 'corr', userId: 'user-1', source: 'test' },
+  };
+}
+
+function crisisEvent(userId: string, minute: number, riskLevel: number): IDomainEvent {
+  return {
+    eventId: `evt-${++eventCounter}`,
+    eventType: 'CRISIS_DETECTED',
+    aggregateId: userId,
+    aggregateType: 'cognitive_state',
+    timestamp: new Date(Date.UTC(2025, 2, 1, 12, minute)),
+    version: 1,
+    payload: {
+      userId,
+      sessionId: `session-${userId}`,
+      riskLevel,
+      triggerIndicators: ['hopelessness'],
+      recommendedAction: 'immediate_response',
+      crisisType: 'acute_distress',
+    },
+    metadata: { correlationId: 'corr', userId, source: 'test' },
+  };
+}
+
+function messageEvent(): IDomainEvent {
+  return {
+    eventId: `evt-${++eventCounter}`,
+    eventType: 'MESSAGE_RECEIVED',
+    aggregateId: 'user-1',
+    aggregateType: 'conversation',
+    timestamp: new Date(),
+    version: 1,
+    payload: {},
+    metadata: { correlationId: 'corr', source: 'test' },
+  };
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('ProjectionRunner', () => {
+  let log: EventLog;
+  let store: InMemoryProjectionStore;
+  let runner: ProjectionRunner;
+
+  beforeEach(() => {
+    log = new EventLog();
+    store = new InMemoryProjectionStore();
+    runner = new ProjectionRunner(log.asStore(), store);
+    runner.register(new InterventionEffectivenessProjection());
+  });
+
+  describe('catchUp', () => {
+    it('should build the read model and checkpoint the last position', async () => {
+      log.append(outcomeEvent('breathing', 0.5));
+      log.append(messageEvent());
+      log.append(outcomeEvent('breathing', -0.1, 'self_reported_mood'));
+
+      const [result] = await runner.catchUp();
+
+      expect(result).toEqual({
+        projectionName: 'intervention_effectiveness',
+        replayed: true,
+        eventsRead: 3,
+        eventsApplied: 2,
+        position: 3,
+      });
+
+      const state = await runner.getState<InterventionEffectivenessState>('intervention_effectiveness');
+      expect(state.breathing).toMatchObject({ outcomes: 2, positiveOutcomes: 1, meanReward: 0.2 });
+      expect(state.breathing.meanValue).toBeCloseTo(0.2);
+      expect(state.breathing.byOutcomeType.self_reported_mood).toEqual({ count: 1, meanValue: -0.1 });
+      expect((await runner.getCheckpoint('intervention_effectiveness'))?.position).toBe(3);
+    });
+
+    it('should apply only events after the checkpoint', async () => {
+      log.append(outcomeEvent('breathing', 1));
+      await runner.catchUp();
+
+      log.append(outcomeEvent('grounding', 0.4));
+      const [result] = await runner.catchUp('intervention_effectiveness');
+
+      expect(result).toMatchObject({ replayed: false, eventsRead: 1, position: 2 });
+      const state = await runner.getState<InterventionEffectivenessState>('intervention_effectiveness');
+      expect(state.breathing.outcomes).toBe(1);
+      expect(rankInterventionEffectiveness(state).map(r => r.interventionId)).toEqual(['breathing', 'grounding']);
+    });
+
+    it('should save a checkpoint after every batch', async () => {
+      const batched = createProjectionRunner(log.asStore(), store, { batchSize: 2 });
+      batched.register(new InterventionEffectivenessProjection());
+      for (let i = 0; i < 5; i++) log.append(outcomeEvent('breathing', 0.2));
+      const save = jest.spyOn(store, 'save');
+
+      const [result] = await batched.catchUp();
+
+      expect(result.eventsApplied).toBe(5);
+      expect(save.mock.calls.map(([snapshot]) => snapshot.checkpoint.position)).toEqual([2, 4, 5]);
+    });
+
+    it('should reject unknown and duplicate projections', async () => {
+      expect(() => runner.register(new InterventionEffectivenessProjection())).toThrow('already registered');
+      expect(() => runner.catchUp('nope')).toThrow('Unknown projection');
+    });
+  });
+
+  describe('replay', () => {
+    it('should replay from the first event when the projection version changes', async () => {
+      log.append(outcomeEvent('breathing', 1));
+      log.append(outcomeEvent('breathing', 0));
+      await runner.catchUp();
+
+      class RevisedProjection extends InterventionEffectivenessProjection {
+        readonly version = 2;
+      }
+      const revised = new ProjectionRunner(log.asStore(), store);
+      revised.register(new RevisedProjection());
+
+      // Stale state is not served before the replay
+      expect(await revised.getState('intervention_effectiveness')).toEqual({});
+
+      const [result] = await revised.catchUp();
+      expect(result).toMatchObject({ replayed: true, eventsRead: 2, position: 2 });
+      expect((await revised.getCheckpoint('intervention_effectiveness'))?.version).toBe(2);
+      expect((await revised.getState<InterventionEffectivenessState>('intervention_effectiveness')).breathing.outcomes).toBe(2);
+    });
+
+    it('should rebuild on request without double counting', async () => {
+      log.append(outcomeEvent('breathing', 1));
+      await runner.catchUp();
+
+      const result = await runner.rebuild('intervention_effectiveness');
+
+      expect(result).toMatchObject({ replayed: true, eventsApplied: 1 });
+      expect((await runner.getState<InterventionEffectivenessState>('intervention_effectiveness')).breathing.outcomes).toBe(1);
+    });
+  });
+
+  describe('attach', () => {
+    it('should catch up on every published event', async () => {
+      let handler: EventHandler | undefined;
+      const bus = {
+        subscribe: jest.fn((_type: string, h: EventHandler) => {
+          handler = h;
+          return { id: 'sub-1', eventType: '*', handler: h, unsubscribe: jest.fn() };
+        }),
+      } as unknown as IEventBus;
+
+      runner.attach(bus);
+      const event = outcomeEvent('breathing', 0.6);
+      log.append(event);
+      await handler!(event);
+
+      expect(bus.subscribe).toHaveBeenCalledWith('*', expect.any(Function));
+      expect((await runner.getState<InterventionEffectivenessState>('intervention_effectiveness')).breathing.outcomes).toBe(1);
+    });
+
+    it('should follow outcomes appended to the in-memory event store', async () => {
+      const bus = new InMemoryEventBus();
+      const events = new InMemoryEventStore(bus);
+      const live = new ProjectionRunner(events, store);
+      live.register(new InterventionEffectivenessProjection());
+      live.attach(bus);
+
+      await events.append('user-1', outcomeEvent('breathing', 0.6));
+      await events.append('user-1', messageEvent());
+
+      const state = await live.getState<InterventionEffectivenessState>('intervention_effectiveness');
+      expect(state.breathing).toMatchObject({ outcomes: 1, meanReward: 0.6 });
+      expect((await live.getCheckpoint('intervention_effectiveness'))?.position).toBe(2);
+    });
+  });
+});
+
+describe('CrisisTimelineProjection', () => {
+  it('should keep an ordered crisis timeline per user', async () => {
+    const log = new EventLog();
+    const runner = createProjectionRunner(log.asStore());
+    runner.register(new CrisisTimelineProjection(2));
+
+    log.append(crisisEvent('user-1', 30, 0.6));
+    log.append(crisisEvent('user-1', 10, 0.9));
+    log.append(crisisEvent('user-2', 20, 0.7));
+    log.append(crisisEvent('user-1', 50, 0.5));
+    await runner.catchUp();
+
+    const state = await runner.getState<CrisisTimelineState>('crisis_timeline');
+
+    expect(Object.keys(state)).toEqual(['user-1', 'user-2']);
+    expect(state['user-1']).toMatchObject({
+      totalCrises: 3,
+      peakRiskLevel: 0.9,
+      firstCrisisAt: new Date(Date.UTC(2025, 2, 1, 12, 10)),
+      lastCrisisAt: new Date(Date.UTC(2025, 2, 1, 12, 50)),
+    });
+    expect(state['user-1'].entries.map(e => e.riskLevel)).toEqual([0.6, 0.5]);
+    expect(state['user-2'].entries[0]).toMatchObject({
+      sessionId: 'session-user-2',
+      crisisType: 'acute_distress',
+      triggerIndicators: ['hopelessness'],
+    });
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * 📽️ PROJECTIONS - INTERFACES
+ * ============================
+ * Event-sourced read models over CognitiveCoreAPI domain events
+ *
+ * Architecture Patterns:
+ * - CQRS read side: projections fold IEventStore streams into read models
+ * - Checkpointing: each projection stores the last global position applied
+ * - Replay: bumping a projection's version rebuilds it from the first event
+ *
+ * Scientific Foundation:
+ * - Greg Young (2010): CQRS Documents - projections and replay
+ * - Fowler (2005): Event Sourcing - rebuilding state from the event log
+ * - EventStoreDB persistent subscriptions and checkpoints (2024)
+ *
+ * БФ "Другой путь" | БАЙТ Cognitive Core v1.0
+ */
+
+import type { IDomainEvent, IEventBus, IEventStore, IEventSubscription } from '../../integration/ICognitiveCoreAPI';
+
+// ============================================================================
+// PROJECTION
+// ============================================================================
+
+/**
+ * Projection: a pure fold of domain events into a read model
+ */
+export interface IProjection<TState = unknown> {
+  /** Unique projection name (checkpoint key) */
+  readonly name: string;
+
+  /**
+   * Projection version; bump whenever apply() or the state shape changes.
+   * A stored checkpoint with another version triggers a full replay.
+   */
+  readonly version: number;
+
+  /** Event types the projection consumes (others are skipped) */
+  readonly eventTypes: readonly string[];
+
+  /** Empty read model */
+  initialState(): TState;
+
+  /**
+   * Apply one event
+   * @param state - Current read model (may be mutated and returned)
+   * @param event - Event of one of eventTypes
+   * @returns Updated read model
+   */
+  apply(state: TState, event: IDomainEvent): TState;
+}
+
+/**
+ * Checkpoint of a projection's progress
+ */
+export interface IProjectionCheckpoint {
+  /** Projection name */
+  readonly projectionName: string;
+
+  /** Projection version the state was built with */
+  readonly version: number;
+
+  /** Last global event position applied */
+  readonly position: number;
+
+  /** When the checkpoint was written */
+  readonly updatedAt: Date;
+}
+
+/**
+ * Stored read model with its checkpoint
+ */
+export interface IProjectionSnapshot<TState = unknown> {
+  readonly checkpoint: IProjectionCheckpoint;
+  readonly state: TState;
+}
+
+// ============================================================================
+// STORE
+// ============================================================================
+
+/**
+ * Persistence for projection state and checkpoints.
+ * State and checkpoint are saved together so they cannot diverge.
+ */
+export interface IProjectionStore {
+  /**
+   * Load a projection's snapshot
+   * @param projectionName - Projection name
+   * @returns Snapshot or null if never built
+   */
+  load<TState>(projectionName: string): Promise<IProjectionSnapshot<TState> | null>;
+
+  /**
+   * Save a projection's state and checkpoint
+   * @param snapshot - Snapshot to save
+   */
+  save<TState>(snapshot: IProjectionSnapshot<TState>): Promise<void>;
+
+  /**
+   * Delete a projection's snapshot (forces replay)
+   * @param projectionName - Projection name
+   */
+  delete(projectionName: string): Promise<void>;
+}
+
+// ============================================================================
+// RUNNER
+// ============================================================================
+
+/**
+ * Result of bringing a projection up to date
+ */
+export interface IProjectionRunResult {
+  /** Projection name */
+  readonly projectionName: string;
+
+  /** Whether the projection was rebuilt from the first event */
+  readonly replayed: boolean;
+
+  /** Events read from the store */
+  readonly eventsRead: number;
+
+  /** Events applied (matching eventTypes) */
+  readonly eventsApplied: number;
+
+  /** Checkpoint after the run */
+  readonly position: number;
+}
+
+/**
+ * Projection runner configuration
+ */
+export interface IProjectionRunnerConfig {
+  /** Events read per batch; a checkpoint is saved after each batch */
+  readonly batchSize: number;
+}
+
+/**
+ * Default runner configuration
+ */
+export const DEFAULT_PROJECTION_RUNNER_CONFIG: IProjectionRunnerConfig = {
+  batchSize: 500,
+};
+
+/**
+ * Runs projections against an event store
+ */
+export interface IProjectionRunner {
+  /**
+   * Register a projection
+   * @param projection - Projection to register
+   */
+  register<TState>(projection: IProjection<TState>): void;
+
+  /**
+   * Apply events appended since each projection's checkpoint.
+   * Projections whose stored version differs are replayed from the start.
+   * @param projectionName - Run one projection only
+   */
+  catchUp(projectionName?: string): Promise<IProjectionRunResult[]>;
+
+  /**
+   * Discard a projection's state and replay the full history
+   * @param projectionName - Projection to rebuild
+   */
+  rebuild(projectionName: string): Promise<IProjectionRunResult>;
+
+  /**
+   * Current read model (after the last catch-up)
+   * @param projectionName - Projection name
+   */
+  getState<TState>(projectionName: string): Promise<TState>;
+
+  /**
+   * Current checkpoint, or null if never built
+   * @param projectionName - Projection name
+   */
+  getCheckpoint(projectionName: string): Promise<IProjectionCheckpoint | null>;
+
+  /**
+   * Catch up on every event published to the bus (live updates)
+   * @param eventBus - Bus the event store publishes to
+   * @returns Subscription to stop live updates
+   */
+  attach(eventBus: IEventBus): IEventSubscription;
+}
+
+/**
+ * Factory function type
+ */
+export type CreateProjectionRunner = (
+  eventStore: IEventStore,
+  store?: IProjectionStore,
+  config?: Partial<IProjectionRunnerConfig>
+) => IProjectionRunner;
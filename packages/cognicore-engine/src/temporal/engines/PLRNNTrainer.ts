@@ -98,7 +98,7 @@ export class PLRNNTrainer {
    * Prepare training sequences from dataset (public for testing)
    */
   prepareTrainingData(dataset: StudentLifeDataset): ITrainingSequence[] {
-    const { train, validation } = this.prepareTrainingDataInternal(dataset);
+    const { train, validation } = this.prepareTrainingDataInternal(dataset, this.config);
     return [...train, ...validation];
   }
 
@@ -213,7 +213,9 @@ export class PLRNNTrainer {
    * Train on single sequence (public for testing)
    */
   async trainOnSequence(sequence: ITrainingSequence, learningRate?: number): Promise<number> {
-    const result = this.trainOnSequenceInternal(sequence, false, learningRate ?? this.config.learningRate, 0);
+    const result = this.trainOnSequenceInternal(
+      sequence, false, learningRate ?? this.config.learningRate, 0, this.config
+    );
     return result.loss;
   }
 
@@ -228,15 +230,34 @@ export class PLRNNTrainer {
     dataset: StudentLifeDataset,
     config?: Partial<IPLRNNTrainingConfig>
   ): Promise<IEMATrainingResult> {
-    // Merge config
+    // Per-call overrides control preparation (regularization and split) and
+    // training, but do not change the trainer's own configuration
+    const cfg = { ...this.config, ...config };
+
+    // Prepare data
+    const { train, validation } = this.prepareTrainingDataInternal(dataset, cfg);
+
+    return this.trainOnSequences(train, validation, cfg);
+  }
+
+  /**
+   * Train PLRNN on already prepared sequences.
+   * Use this for data sources other than StudentLife; the caller is
+   * responsible for normalization, gap handling and the train/validation split.
+   */
+  async trainOnSequences(
+    trainSequences: ITrainingSequence[],
+    validation: ITrainingSequence[],
+    config?: Partial<IPLRNNTrainingConfig>
+  ): Promise<IEMATrainingResult> {
+    // Merge config (for this call only)
     const cfg = { ...this.config, ...config };
-    this.config = cfg;
 
     // Reset optimizer state
     this.engine.resetAdamState();
 
-    // Prepare data
-    const { train, validation } = this.prepareTrainingDataInternal(dataset);
+    // Shuffled in place during training
+    const train = [...trainSequences];
 
     if (train.length === 0) {
       throw new Error('No training sequences after preparation');
@@ -273,11 +294,11 @@ export class PLRNNTrainer {
       const tfRatio = cfg.teacherForcingRatio * Math.pow(cfg.teacherForcingDecay, epoch);
 
       // Training epoch
-      const trainResult = this.runEpoch(train, false, lr, tfRatio);
+      const trainResult = this.runEpoch(train, false, lr, tfRatio, cfg);
       history.epochLosses.push(trainResult.avgLoss);
 
       // Validation epoch (no gradient updates)
-      const valResult = this.runEpoch(validation, true, lr, 0);
+      const valResult = this.runEpoch(validation, true, lr, 0, cfg);
       history.epochValidationLosses.push(valResult.avgLoss);
 
       // Track per-horizon losses
@@ -348,7 +369,8 @@ export class PLRNNTrainer {
     sequences: ITrainingSequence[],
     isValidation: boolean,
     learningRate: number,
-    teacherForcingRatio: number
+    teacherForcingRatio: number,
+    config: IPLRNNTrainingConfig
   ): IEpochResult {
     const startTime = Date.now();
     let totalLoss = 0;
@@ -357,14 +379,14 @@ export class PLRNNTrainer {
     const horizonCounts = new Map<number, number>();
 
     // Initialize horizon tracking
-    for (const h of this.config.horizons) {
+    for (const h of config.horizons) {
       horizonLosses.set(h, 0);
       horizonCounts.set(h, 0);
     }
 
     // Process each sequence
     for (const seq of sequences) {
-      const result = this.trainOnSequenceInternal(seq, isValidation, learningRate, teacherForcingRatio);
+      const result = this.trainOnSequenceInternal(seq, isValidation, learningRate, teacherForcingRatio, config);
       totalLoss += result.loss * result.samples;
       totalSamples += result.samples;
 
@@ -376,7 +398,7 @@ export class PLRNNTrainer {
     }
 
     // Average horizon losses
-    for (const h of this.config.horizons) {
+    for (const h of config.horizons) {
       const count = horizonCounts.get(h) ?? 1;
       horizonLosses.set(h, (horizonLosses.get(h) ?? 0) / count);
     }
@@ -400,12 +422,13 @@ export class PLRNNTrainer {
     sequence: ITrainingSequence,
     isValidation: boolean,
     learningRate: number,
-    teacherForcingRatio: number
+    teacherForcingRatio: number,
+    config: IPLRNNTrainingConfig
   ): { loss: number; samples: number; horizonLosses: Map<number, number> } {
     const values = sequence.values;
     const n = this.engine.getLatentDim();
-    const windowSize = this.config.bpttTruncationWindow;
-    const overlap = this.config.bpttOverlapSteps;
+    const windowSize = config.bpttTruncationWindow;
+    const overlap = config.bpttOverlapSteps;
 
     if (values.length < windowSize + 1) {
       return { loss: 0, samples: 0, horizonLosses: new Map() };
@@ -414,7 +437,7 @@ export class PLRNNTrainer {
     let totalLoss = 0;
     let totalSamples = 0;
     const horizonLosses = new Map<number, number>();
-    for (const h of this.config.horizons) {
+    for (const h of config.horizons) {
       horizonLosses.set(h, 0);
     }
 
@@ -480,9 +503,9 @@ export class PLRNNTrainer {
         // Multi-horizon loss
         const lastState = states[states.length - 1]!;
         const lastIdx = windowEnd;
-        for (let hi = 0; hi < this.config.horizons.length; hi++) {
-          const h = this.config.horizons[hi]!;
-          const weight = this.config.horizonWeights[hi] ?? 0.5;
+        for (let hi = 0; hi < config.horizons.length; hi++) {
+          const h = config.horizons[hi]!;
+          const weight = config.horizonWeights[hi] ?? 0.5;
 
           if (lastIdx + h < values.length) {
             // Multi-step prediction
@@ -505,9 +528,9 @@ export class PLRNNTrainer {
         this.engine.applyGradients(
           gradAccum,
           learningRate,
-          this.config.l1Regularization,
-          this.config.l2Regularization,
-          this.config.gradientClip
+          config.l1Regularization,
+          config.l2Regularization,
+          config.gradientClip
         );
       } else {
         // Validation: just compute loss
@@ -522,7 +545,7 @@ export class PLRNNTrainer {
         // Multi-horizon validation loss
         const lastState = states[states.length - 1]!;
         const lastIdx = windowEnd;
-        for (const h of this.config.horizons) {
+        for (const h of config.horizons) {
           if (lastIdx + h < values.length) {
             let predState = lastState;
             for (let s = 0; s < h; s++) {
@@ -630,14 +653,14 @@ export class PLRNNTrainer {
   /**
    * Prepare training and validation sequences from dataset
    */
-  private prepareTrainingDataInternal(dataset: StudentLifeDataset): {
+  private prepareTrainingDataInternal(dataset: StudentLifeDataset, config: IPLRNNTrainingConfig): {
     train: ITrainingSequence[];
     validation: ITrainingSequence[];
   } {
     const allSequences: ITrainingSequence[] = [];
 
     for (const participant of dataset.participants) {
-      if (participant.observations.length < this.config.bpttTruncationWindow + 1) {
+      if (participant.observations.length < config.bpttTruncationWindow + 1) {
         continue; // Skip short sequences
       }
 
@@ -647,11 +670,11 @@ export class PLRNNTrainer {
       let normStats: INormalizationStats | undefined;
 
       // Handle irregular sampling
-      if (this.config.handleIrregularSampling) {
+      if (config.handleIrregularSampling) {
         const regularized = this.regularizeTimesteps(
           values,
           timestamps,
-          this.config.targetIntervalHours
+          config.targetIntervalHours
         );
         values = regularized.values;
         timestamps = regularized.timestamps;
@@ -659,7 +682,7 @@ export class PLRNNTrainer {
       }
 
       // Per-participant normalization
-      if (this.config.perParticipantNormalization) {
+      if (config.perParticipantNormalization) {
         const normalized = this.normalizeSequence(values);
         values = normalized.values;
         normStats = normalized.stats;
@@ -676,7 +699,7 @@ export class PLRNNTrainer {
 
     // Split into train/validation
     this.shuffleArray(allSequences);
-    const splitIdx = Math.floor(allSequences.length * (1 - this.config.validationSplit));
+    const splitIdx = Math.floor(allSequences.length * (1 - config.validationSplit));
 
     return {
       train: allSequences.slice(0, splitIdx),
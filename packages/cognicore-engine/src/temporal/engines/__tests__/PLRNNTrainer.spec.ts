@@ -287,6 +287,41 @@ describe('PLRNNTrainer', () => {
       expect(result.history.bestValidationLoss).toBeDefined();
       expect(result.history.bestValidationLoss).toBeGreaterThan(0);
     });
+
+    it('should train on externally prepared sequences', async () => {
+      const sequences = trainer.prepareTrainingData(smallDataset);
+      const train = sequences.slice(0, 3);
+      const validation = sequences.slice(3);
+      const trainIds = train.map(s => s.participantId);
+
+      const result = await trainer.trainOnSequences(train, validation, {
+        epochs: 3,
+        verbose: false,
+      });
+
+      expect(result.history.epochLosses.length).toBeLessThanOrEqual(3);
+      expect(result.metrics.perHorizonMAE.size).toBeGreaterThan(0);
+      expect(result.config.epochs).toBe(3);
+      // Caller's array is not shuffled
+      expect(train.map(s => s.participantId)).toEqual(trainIds);
+    });
+
+    it('should reject empty training sequences', async () => {
+      await expect(trainer.trainOnSequences([], [])).rejects.toThrow('No training sequences');
+    });
+
+    it('should not keep per-call overrides for later calls', async () => {
+      const before = trainer.getConfig();
+
+      const result = await trainer.trainOnEMAData(smallDataset, {
+        epochs: 2,
+        validationSplit: 0.5,
+        verbose: false,
+      });
+
+      expect(result.config).toMatchObject({ epochs: 2, validationSplit: 0.5 });
+      expect(trainer.getConfig()).toEqual(before);
+    });
   });
 
   describe('Learning Rate Schedule', () => {
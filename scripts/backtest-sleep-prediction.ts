@@ -0,0 +1,134 @@
+#!/usr/bin/env npx ts-node
+/**
+ * Sleep Prediction Backtest Script
+ * ================================
+ *
+ * Replays all sleep diaries through SleepPredictionService (walk-forward)
+ * and writes a JSON report comparing PLRNN, hybrid and naive forecasts and
+ * their early warnings against ISI deterioration.
+ *
+ * Usage:
+ *   npx ts-node scripts/backtest-sleep-prediction.ts [options]
+ *
+ * Options:
+ *   --out=PATH       Output file for the report
+ *                    (default: ./data/reports/sleep-backtest.json)
+ *   --weights=PATH   Population prior exported by train-sleep-model.ts
+ *   --no-online      Do not fine-tune user models while replaying
+ *
+ * Examples:
+ *   # Backtest the untrained prior
+ *   npx ts-node scripts/backtest-sleep-prediction.ts
+ *
+ *   # Backtest diary-trained weights
+ *   npx ts-node scripts/backtest-sleep-prediction.ts --weights=./data/models/sleep-plrnn.json
+ *
+ * Environment:
+ *   DATABASE_PATH         - SQLite database path (default: ./data/sleepcore.db)
+ *   ENCRYPTION_MASTER_KEY - Required if diary PHI fields are encrypted
+ *
+ * @packageDocumentation
+ */
+
+import { config } from 'dotenv';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Load environment variables
+config();
+
+// Parse command line arguments
+const args = process.argv.slice(2);
+const options = {
+  onlineLearning: !args.includes('--no-online'),
+  out: './data/reports/sleep-backtest.json',
+  weights: undefined as string | undefined,
+};
+
+const outArg = args.find((a) => a.startsWith('--out='));
+if (outArg) {
+  options.out = outArg.split('=')[1] || options.out;
+}
+
+const weightsArg = args.find((a) => a.startsWith('--weights='));
+if (weightsArg) {
+  options.weights = weightsArg.split('=')[1] || undefined;
+}
+
+const format = (value: number | null, digits = 2): string => (value === null ? '-' : value.toFixed(digits));
+
+/**
+ * Main backtest function
+ */
+async function main(): Promise<void> {
+  console.log('\n========================================');
+  console.log('  SleepCore Sleep Prediction Backtest');
+  console.log('========================================\n');
+
+  const dbPath = process.env.DATABASE_PATH || './data/sleepcore.db';
+
+  console.log('Configuration:');
+  console.log(`  Database: ${dbPath}`);
+  console.log(`  Output: ${options.out}`);
+  console.log(`  Weights: ${options.weights ?? 'untrained prior'}`);
+  console.log(`  Online learning: ${options.onlineLearning}`);
+  console.log('');
+
+  // Dynamic imports to ensure env is loaded first
+  const { initializeDatabase, SleepDiaryRepository, AssessmentRepository } = await import(
+    '../src/infrastructure/database'
+  );
+  const { SleepPredictionBacktester } = await import('../src/bot/services/SleepPredictionBacktester');
+
+  const populationWeights = options.weights
+    ? JSON.parse(fs.readFileSync(options.weights, 'utf8')).weights
+    : undefined;
+
+  console.log('Connecting to database...');
+  const db = await initializeDatabase(dbPath, { runMigrations: true });
+
+  try {
+    const diaryEntries = await new SleepDiaryRepository(db).findAll();
+    const assessments = await new AssessmentRepository(db).findAll();
+    console.log(`Loaded ${diaryEntries.length} diary entries and ${assessments.length} assessments\n`);
+
+    const backtester = new SleepPredictionBacktester({ onlineLearning: options.onlineLearning });
+    const report = await backtester.run({ diaryEntries, assessments, populationWeights });
+
+    console.log('--- Forecast MAE (SE %, SOL/WASO min) ---\n');
+    console.log('─'.repeat(70));
+    console.log('  Model            Days   Metric                     n        MAE');
+    console.log('─'.repeat(70));
+    for (const p of report.predictions) {
+      console.log(
+        `  ${p.model.padEnd(16)} ${String(p.horizonDays).padStart(4)}   ${p.metric.padEnd(22)} ` +
+          `${String(p.n).padStart(6)} ${format(p.mae).padStart(10)}`
+      );
+    }
+    console.log('─'.repeat(70));
+
+    console.log(`\n--- Early Warnings (${report.isiEvents.length} ISI deteriorations) ---\n`);
+    console.log('─'.repeat(70));
+    console.log('  Model            Alerts   Precision   Recall   Lead time (days)');
+    console.log('─'.repeat(70));
+    for (const w of report.earlyWarnings) {
+      console.log(
+        `  ${w.model.padEnd(16)} ${String(w.alerts).padStart(6)} ${format(w.precision).padStart(11)} ` +
+          `${format(w.recall).padStart(8)} ${format(w.meanLeadTimeDays, 1).padStart(18)}`
+      );
+    }
+    console.log('─'.repeat(70));
+
+    fs.mkdirSync(path.dirname(options.out), { recursive: true });
+    fs.writeFileSync(options.out, JSON.stringify(report, null, 2));
+    console.log(`\nReport written to ${options.out}\n`);
+  } finally {
+    await db.close();
+  }
+}
+
+// Run
+main().catch((error) => {
+  console.error('\nBacktest failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,141 @@
+#!/usr/bin/env npx ts-node
+/**
+ * Sleep What-If Simulation Script
+ * ===============================
+ *
+ * Builds a user's sleep digital twin from the diary and prints Monte Carlo
+ * forecast bands of SE and TST under the current prescription and
+ * alternative ones.
+ *
+ * Usage:
+ *   npx ts-node scripts/simulate-sleep-scenarios.ts --user=ID [options]
+ *
+ * Options:
+ *   --user=ID          User whose diary feeds the twin (required)
+ *   --tib=MIN          Simulate a TIB change instead of the standard set (e.g. -15)
+ *   --wake-shift=MIN   Simulate a wake-time shift (negative = earlier)
+ *   --days=N           Forecast horizon in nights (default: 28)
+ *   --out=PATH         Also write the full result as JSON
+ *
+ * Examples:
+ *   # Standard alternatives (TIB ±15 min, wake time 30 min earlier)
+ *   npx ts-node scripts/simulate-sleep-scenarios.ts --user=123456
+ *
+ *   # Custom prescription: 15 min less in bed, waking 30 min earlier
+ *   npx ts-node scripts/simulate-sleep-scenarios.ts --user=123456 --tib=-15 --wake-shift=-30
+ *
+ * Environment:
+ *   DATABASE_PATH         - SQLite database path (default: ./data/sleepcore.db)
+ *   ENCRYPTION_MASTER_KEY - Required if diary PHI fields are encrypted
+ *
+ * @packageDocumentation
+ */
+
+import { config } from 'dotenv';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Load environment variables
+config();
+
+// Parse command line arguments
+const args = process.argv.slice(2);
+
+const argValue = (name: string): string | undefined =>
+  args.find((a) => a.startsWith(`--${name}=`))?.split('=')[1] || undefined;
+
+const numberArg = (name: string): number | undefined => {
+  const value = argValue(name);
+  return value === undefined ? undefined : Number(value);
+};
+
+const options = {
+  user: argValue('user'),
+  tib: numberArg('tib'),
+  wakeShift: numberArg('wake-shift'),
+  days: numberArg('days'),
+  out: argValue('out'),
+};
+
+/**
+ * Main simulation function
+ */
+async function main(): Promise<void> {
+  console.log('\n========================================');
+  console.log('  SleepCore What-If Simulation');
+  console.log('========================================\n');
+
+  if (!options.user) {
+    throw new Error('--user=ID is required');
+  }
+
+  const dbPath = process.env.DATABASE_PATH || './data/sleepcore.db';
+
+  // Dynamic imports to ensure env is loaded first
+  const { initializeDatabase, SleepDiaryRepository } = await import('../src/infrastructure/database');
+  const { SleepDigitalTwinService, SLEEP_WHAT_IF_SCENARIOS } = await import(
+    '../src/bot/services/SleepDigitalTwinService'
+  );
+
+  const custom = options.tib !== undefined || options.wakeShift !== undefined;
+  const scenarios = custom
+    ? [
+        {
+          id: 'custom',
+          name: `TIB ${options.tib ?? 0} min, wake time ${options.wakeShift ?? 0} min`,
+          nameRu: `Время в постели ${options.tib ?? 0} мин, подъём ${options.wakeShift ?? 0} мин`,
+          change: { tibChangeMinutes: options.tib, wakeTimeShiftMinutes: options.wakeShift },
+        },
+      ]
+    : SLEEP_WHAT_IF_SCENARIOS;
+
+  console.log('Connecting to database...');
+  const db = await initializeDatabase(dbPath, { runMigrations: true });
+
+  try {
+    const entries = await new SleepDiaryRepository(db).findAll();
+    const result = await new SleepDigitalTwinService().whatIf(options.user, entries, scenarios, options.days);
+
+    if (!result) {
+      console.log(`Not enough recent diary nights for user ${options.user}\n`);
+      return;
+    }
+
+    console.log(
+      `Twin as of ${result.asOf}: SE ${result.current.sleepEfficiency.toFixed(1)}%, ` +
+        `TST ${Math.round(result.current.tstMinutes)} min\n`
+    );
+
+    const [lowerQ, upperQ] = result.bandQuantiles;
+    console.log(`--- Forecast after ${result.horizonDays} nights (${lowerQ * 100}-${upperQ * 100}% band) ---\n`);
+    console.log('─'.repeat(78));
+    console.log('  Scenario                 TIB    Wake    SE % (band)          TST min (band)');
+    console.log('─'.repeat(78));
+    for (const forecast of result.scenarios) {
+      const se = forecast.bands.sleepEfficiency[forecast.bands.sleepEfficiency.length - 1]!;
+      const tst = forecast.bands.tstMinutes[forecast.bands.tstMinutes.length - 1]!;
+      const seCell = `${se.median.toFixed(1)} (${se.lower}-${se.upper})`;
+      const tstCell = `${tst.median.toFixed(0)} (${tst.lower}-${tst.upper})`;
+      console.log(
+        `  ${forecast.scenario.name.padEnd(22)} ${String(forecast.prescription.timeInBedMinutes).padStart(5)}  ` +
+          `${forecast.prescription.wakeTime}   ${seCell.padEnd(20)} ${tstCell}`
+      );
+    }
+    console.log('─'.repeat(78));
+
+    if (options.out) {
+      fs.mkdirSync(path.dirname(options.out), { recursive: true });
+      fs.writeFileSync(options.out, JSON.stringify(result, null, 2));
+      console.log(`\nResult written to ${options.out}`);
+    }
+    console.log('');
+  } finally {
+    await db.close();
+  }
+}
+
+// Run
+main().catch((error) => {
+  console.error('\nSimulation failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
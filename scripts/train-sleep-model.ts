@@ -0,0 +1,140 @@
+#!/usr/bin/env npx ts-node
+/**
+ * Sleep Model Training Script
+ * ===========================
+ *
+ * Trains the 5D sleep PLRNN on all sleep diary histories and exports
+ * the weights for SleepPredictionService.
+ *
+ * Usage:
+ *   npx ts-node scripts/train-sleep-model.ts [options]
+ *
+ * Options:
+ *   --out=PATH      Output file for weights and report
+ *                   (default: ./data/models/sleep-plrnn.json)
+ *   --epochs=N      Maximum training epochs (default: 50)
+ *   --deploy        Save the weights as the population prior in the database
+ *                   (the bot loads it at startup)
+ *   --verbose       Log every epoch
+ *
+ * Examples:
+ *   # Train and review the report
+ *   npx ts-node scripts/train-sleep-model.ts
+ *
+ *   # Train and deploy as the population prior
+ *   npx ts-node scripts/train-sleep-model.ts --deploy
+ *
+ * Environment:
+ *   DATABASE_PATH         - SQLite database path (default: ./data/sleepcore.db)
+ *   ENCRYPTION_MASTER_KEY - Required if diary PHI fields are encrypted
+ *
+ * @packageDocumentation
+ */
+
+import { config } from 'dotenv';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Load environment variables
+config();
+
+// Parse command line arguments
+const args = process.argv.slice(2);
+const options = {
+  deploy: args.includes('--deploy'),
+  verbose: args.includes('--verbose'),
+  out: './data/models/sleep-plrnn.json',
+  epochs: 50,
+};
+
+const outArg = args.find((a) => a.startsWith('--out='));
+if (outArg) {
+  options.out = outArg.split('=')[1] || options.out;
+}
+
+const epochsArg = args.find((a) => a.startsWith('--epochs='));
+if (epochsArg) {
+  options.epochs = parseInt(epochsArg.split('=')[1], 10) || 50;
+}
+
+/**
+ * Main training function
+ */
+async function main(): Promise<void> {
+  console.log('\n========================================');
+  console.log('  SleepCore Sleep Model Training');
+  console.log('========================================\n');
+
+  const dbPath = process.env.DATABASE_PATH || './data/sleepcore.db';
+
+  console.log('Configuration:');
+  console.log(`  Database: ${dbPath}`);
+  console.log(`  Output: ${options.out}`);
+  console.log(`  Max epochs: ${options.epochs}`);
+  console.log(`  Deploy: ${options.deploy}`);
+  console.log('');
+
+  // Dynamic imports to ensure env is loaded first
+  const { initializeDatabase, SleepDiaryRepository, PLRNNModelRepository } = await import(
+    '../src/infrastructure/database'
+  );
+  const { SleepModelTrainingService } = await import('../src/bot/services/SleepModelTrainingService');
+  const { createSleepPredictionService } = await import('../src/bot/services/SleepPredictionService');
+
+  console.log('Connecting to database...');
+  const db = await initializeDatabase(dbPath, { runMigrations: true });
+
+  try {
+    const entries = await new SleepDiaryRepository(db).findAll();
+    console.log(`Loaded ${entries.length} diary entries\n`);
+
+    const trainingService = new SleepModelTrainingService({
+      training: {
+        epochs: options.epochs,
+        verbose: options.verbose,
+      },
+    });
+
+    const { weights, report } = await trainingService.train(entries);
+
+    console.log('\n--- Training Report ---\n');
+    console.log(`Users: ${report.users.train} train / ${report.users.validation} validation`);
+    console.log(`Sequences: ${report.sequences.train} train / ${report.sequences.validation} validation`);
+    console.log(`Nights: ${report.nights.observed} observed, ${report.nights.interpolated} interpolated`);
+    console.log(`Epochs: ${report.epochs} (best: ${report.bestEpoch}, val loss ${report.bestValidationLoss.toFixed(4)})`);
+    console.log('');
+    console.log('Next-night MAE on validation users:');
+    console.log('─'.repeat(70));
+    console.log('  Dimension              Unit       PLRNN   Persistence   Improvement');
+    console.log('─'.repeat(70));
+    for (const d of report.perDimension) {
+      console.log(
+        `  ${d.dimension.padEnd(22)} ${d.unit.padEnd(6)} ${d.mae.toFixed(2).padStart(9)} ` +
+          `${d.persistenceMae.toFixed(2).padStart(13)} ${`${d.improvement.toFixed(1)}%`.padStart(13)}`
+      );
+    }
+    console.log('─'.repeat(70));
+    console.log(`  Overall improvement over persistence: ${report.improvementOverPersistence.toFixed(1)}%`);
+    console.log(`  Evaluated nights: ${report.evaluatedNights}\n`);
+
+    // Export
+    fs.mkdirSync(path.dirname(options.out), { recursive: true });
+    fs.writeFileSync(options.out, JSON.stringify({ report, weights }, null, 2));
+    console.log(`Weights written to ${options.out}`);
+
+    if (options.deploy) {
+      const predictionService = createSleepPredictionService(undefined, new PLRNNModelRepository(db));
+      await predictionService.setPopulationModel(weights);
+      console.log('Weights deployed as the population prior (used after the bot restarts)');
+    }
+    console.log('');
+  } finally {
+    await db.close();
+  }
+}
+
+// Run
+main().catch((error) => {
+  console.error('\nTraining failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
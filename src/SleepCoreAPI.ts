@@ -27,6 +27,11 @@ import type {
   ISleepMetrics,
   ISleepDiaryEntry,
 } from './sleep/interfaces/ISleepState';
+import type {
+  ISleepDiaryRepository,
+  ISleepWindowRepository,
+  SleepWindowAdjustment,
+} from './infrastructure/database/interfaces/IRepository';
 import type {
   ICBTIPlan,
   ICBTIIntervention,
@@ -204,6 +209,27 @@ export class SleepCoreAPI {
     this._db = db;
   }
 
+  /**
+   * Persist sleep diary entries through a repository
+   * so history survives restarts
+   */
+  setDiaryRepository(repository: ISleepDiaryRepository): void {
+    this.diaryService.setRepository(repository);
+  }
+
+  /**
+   * Optional sleep window history (mini-app sleep window page)
+   */
+  private sleepWindowRepository: ISleepWindowRepository | null = null;
+
+  /**
+   * Record every sleep restriction prescription and adjustment
+   * so patients can see their current and past windows
+   */
+  setSleepWindowRepository(repository: ISleepWindowRepository): void {
+    this.sleepWindowRepository = repository;
+  }
+
   constructor() {
     this.diaryService = new SleepDiaryService();
     this.cbtiEngine = new CBTIEngine();
@@ -269,29 +295,29 @@ export class SleepCoreAPI {
   /**
    * Add a sleep diary entry
    */
-  addDiaryEntry(entry: ISleepDiaryEntry): ISleepMetrics {
-    const metrics = this.diaryService.addEntry(entry);
+  async addDiaryEntry(entry: ISleepDiaryEntry): Promise<ISleepMetrics> {
+    const metrics = await this.diaryService.addEntry(entry);
     return metrics;
   }
 
   /**
    * Get weekly sleep summary
    */
-  getWeeklySummary(userId: string, weekStart: string) {
+  async getWeeklySummary(userId: string, weekStart: string) {
     return this.diaryService.calculateWeeklySummary(userId, weekStart);
   }
 
   /**
    * Analyze sleep patterns
    */
-  analyzePatterns(userId: string) {
+  async analyzePatterns(userId: string) {
     return this.diaryService.analyzePatterns(userId);
   }
 
   /**
    * Estimate ISI score from diary data
    */
-  estimateISI(userId: string): number {
+  async estimateISI(userId: string): Promise<number> {
     return this.diaryService.estimateISI(userId);
   }
 
@@ -313,6 +339,7 @@ export class SleepCoreAPI {
     if (session) {
       this.sessions.set(userId, { ...session, plan });
     }
+    this.recordSleepWindow(userId, null, plan);
 
     // Initialize POMDP with baseline
     for (const state of baselineData) {
@@ -332,9 +359,9 @@ export class SleepCoreAPI {
   /**
    * Process daily check-in and get recommendations
    */
-  processDailyCheckIn(checkIn: IDailyCheckIn): IInterventionResult {
+  async processDailyCheckIn(checkIn: IDailyCheckIn): Promise<IInterventionResult> {
     // Add diary entry
-    const metrics = this.addDiaryEntry(checkIn.diaryEntry);
+    const metrics = await this.addDiaryEntry(checkIn.diaryEntry);
 
     // Create observation for POMDP
     const observation: ISleepObservation = {
@@ -356,7 +383,8 @@ export class SleepCoreAPI {
     }
 
     // Get current sleep state
-    const currentState = this.buildSleepState(checkIn, metrics);
+    const isiScore = await this.estimateISI(checkIn.userId);
+    const currentState = this.buildSleepState(checkIn, metrics, isiScore);
 
     // Store sleep state
     const userStates = this.sleepStates.get(checkIn.userId) || [];
@@ -413,6 +441,7 @@ export class SleepCoreAPI {
 
     // Update session
     this.sessions.set(userId, { ...session, plan: updatedPlan });
+    this.recordSleepWindow(userId, session.plan, updatedPlan);
 
     return updatedPlan;
   }
@@ -1052,12 +1081,56 @@ export class SleepCoreAPI {
 
   // ============= Private Helpers =============
 
+  /**
+   * Persist the sleep restriction window when it is prescribed or re-evaluated.
+   * Fire-and-forget: history is for display, treatment must not wait on it.
+   */
+  private recordSleepWindow(userId: string, previous: ICBTIPlan | null, plan: ICBTIPlan): void {
+    const window = plan.activeComponents.sleepRestriction;
+    if (!this.sleepWindowRepository || !window) return;
+
+    const prior = previous?.activeComponents.sleepRestriction ?? null;
+    // Not enough data for an evaluation, prescription carried over unchanged
+    if (prior && prior.currentWeek === window.currentWeek) return;
+
+    let adjustment: SleepWindowAdjustment = 'initial';
+    if (prior) {
+      adjustment = window.prescribedTIB > prior.prescribedTIB
+        ? 'increase'
+        : window.prescribedTIB < prior.prescribedTIB
+          ? 'decrease'
+          : 'maintain';
+    }
+
+    const observedEfficiency = prior
+      ? plan.progress.sleepEfficiencyCurrent
+      : plan.progress.sleepEfficiencyBaseline;
+    const se = Math.round(observedEfficiency);
+    const change = prior ? window.prescribedTIB - prior.prescribedTIB : 0;
+    const adjustmentReason = prior
+      ? `Average SE ${se}% → ${adjustment} (${change >= 0 ? '+' : ''}${change} min)`
+      : `Baseline SE ${se}%`;
+
+    this.sleepWindowRepository.record(userId, {
+      week: window.currentWeek,
+      bedtime: window.prescribedBedtime,
+      wakeTime: window.prescribedWakeTime,
+      timeInBed: window.prescribedTIB,
+      sleepEfficiencyTarget: window.efficiencyThreshold,
+      observedEfficiency,
+      adjustment,
+      adjustmentReason,
+    }).catch((error) => {
+      console.error('[SleepCore] Failed to record sleep window:', error);
+    });
+  }
+
   private getRecentStates(userId: string, days: number): ISleepState[] {
     const allStates = this.sleepStates.get(userId) || [];
     return allStates.slice(-days);
   }
 
-  private buildSleepState(checkIn: IDailyCheckIn, metrics: ISleepMetrics): ISleepState {
+  private buildSleepState(checkIn: IDailyCheckIn, metrics: ISleepMetrics, isiScore: number): ISleepState {
     // Build a minimal ISleepState from check-in data
     // In production, would aggregate more data
     return {
@@ -1082,7 +1155,7 @@ export class SleepCoreAPI {
         isRecoverable: true,
       },
       insomnia: {
-        isiScore: this.estimateISI(checkIn.userId),
+        isiScore,
         severity: 'moderate',
         subtype: 'mixed',
         durationWeeks: 4,
@@ -0,0 +1,171 @@
+/**
+ * QuestionnaireEngine - Generic Questionnaire Scoring
+ * ====================================================
+ * Scores any instrument described by IQuestionnaireDefinition:
+ * - Validates responses against item options
+ * - Computes total and subscale scores (sum / mean / custom)
+ * - Maps the total to a severity band
+ * - Raises item-level safety alerts
+ *
+ * @packageDocumentation
+ * @module @sleepcore/assessment
+ */
+
+import type {
+  IQuestionnaireDefinition,
+  IQuestionnaireItem,
+  IQuestionnaireResult,
+  IQuestionnaireScores,
+  ISeverityBand,
+  QuestionnaireId,
+  QuestionnaireResponses,
+} from '../interfaces/IQuestionnaire';
+
+import { PSQI } from '../instruments/PSQIRussian';
+import { ESS } from '../instruments/ESSRussian';
+import { DBAS16 } from '../instruments/DBAS16Russian';
+import { PHQ9 } from '../instruments/PHQ9Russian';
+import { GAD7 } from '../instruments/GAD7Russian';
+
+/**
+ * Instruments shipped with SleepCore, in menu order
+ */
+export const QUESTIONNAIRES: readonly IQuestionnaireDefinition[] = [PSQI, ESS, DBAS16, PHQ9, GAD7];
+
+/**
+ * Questionnaire Engine
+ */
+export class QuestionnaireEngine {
+  private readonly definitions = new Map<QuestionnaireId, IQuestionnaireDefinition>();
+
+  constructor(definitions: readonly IQuestionnaireDefinition[] = QUESTIONNAIRES) {
+    for (const definition of definitions) {
+      this.definitions.set(definition.id, definition);
+    }
+  }
+
+  /**
+   * Check if an instrument is registered
+   */
+  has(id: string): id is QuestionnaireId {
+    return this.definitions.has(id as QuestionnaireId);
+  }
+
+  /**
+   * Get instrument definition
+   */
+  getDefinition(id: QuestionnaireId): IQuestionnaireDefinition {
+    const definition = this.definitions.get(id);
+    if (!definition) {
+      throw new Error(`Unknown questionnaire: ${id}`);
+    }
+    return definition;
+  }
+
+  /**
+   * List registered instruments
+   */
+  list(): readonly IQuestionnaireDefinition[] {
+    return Array.from(this.definitions.values());
+  }
+
+  /**
+   * Score a completed questionnaire
+   * @throws Error if a response is missing or not one of the item's options
+   */
+  score(id: QuestionnaireId, responses: QuestionnaireResponses): IQuestionnaireResult {
+    const definition = this.getDefinition(id);
+
+    for (const item of definition.items) {
+      this.validateResponse(definition, item, responses[item.id]);
+    }
+
+    const scores = this.computeScores(definition, responses);
+    const band = this.getSeverityBand(definition, scores.total);
+    const alerts = (definition.alerts ?? []).filter(
+      (alert) => responses[alert.itemId] >= alert.minValue
+    );
+
+    return {
+      questionnaireId: definition.id,
+      totalScore: scores.total,
+      maxScore: definition.scoring.max,
+      severity: band.id,
+      severityLabel: band.labelRu,
+      interpretation: band.interpretationRu,
+      isClinical: band.isClinical,
+      subscales: scores.subscales,
+      alerts,
+    };
+  }
+
+  /**
+   * Get severity band for a total score
+   */
+  getSeverityBand(definition: IQuestionnaireDefinition, score: number): ISeverityBand {
+    const bands = definition.severityBands;
+    return bands.find((band) => score <= band.max) ?? bands[bands.length - 1];
+  }
+
+  /**
+   * Check if change exceeds the instrument's MCID
+   * Always false for instruments without an established MCID
+   */
+  isClinicallyMeaningfulChange(
+    id: QuestionnaireId,
+    baselineScore: number,
+    currentScore: number
+  ): boolean {
+    const { mcid } = this.getDefinition(id);
+    return mcid !== null && Math.abs(baselineScore - currentScore) >= mcid;
+  }
+
+  private validateResponse(
+    definition: IQuestionnaireDefinition,
+    item: IQuestionnaireItem,
+    value: number | undefined
+  ): void {
+    if (value === undefined) {
+      throw new Error(`${definition.shortName}: missing response for ${item.id}`);
+    }
+    if (!item.options.some((option) => option.value === value)) {
+      throw new Error(`${definition.shortName}: invalid response ${value} for ${item.id}`);
+    }
+  }
+
+  private computeScores(
+    definition: IQuestionnaireDefinition,
+    responses: QuestionnaireResponses
+  ): IQuestionnaireScores {
+    const { scoring } = definition;
+
+    if (scoring.method === 'custom') {
+      if (!scoring.compute) {
+        throw new Error(`${definition.shortName}: custom scoring requires compute()`);
+      }
+      return scoring.compute(responses);
+    }
+
+    const aggregate = (itemIds: readonly string[]): number => {
+      const sum = itemIds.reduce((total, itemId) => total + responses[itemId], 0);
+      if (scoring.method === 'sum') return sum;
+      const factor = Math.pow(10, scoring.precision ?? 2);
+      return Math.round((sum / itemIds.length) * factor) / factor;
+    };
+
+    const subscales: Record<string, number> = {};
+    for (const subscale of definition.subscales) {
+      if (subscale.itemIds) {
+        subscales[subscale.id] = aggregate(subscale.itemIds);
+      }
+    }
+
+    return {
+      total: aggregate(definition.items.map((item) => item.id)),
+      subscales,
+    };
+  }
+}
+
+// Singleton instance
+export const questionnaireEngine = new QuestionnaireEngine();
@@ -28,3 +28,32 @@ export type {
   IISIItem,
   IISINormativeData,
 } from './instruments/ISIRussian';
+
+// Generic questionnaire model and scoring engine
+export {
+  QuestionnaireEngine,
+  questionnaireEngine,
+  QUESTIONNAIRES,
+} from './engines/QuestionnaireEngine';
+
+export type {
+  QuestionnaireId,
+  QuestionnaireItemType,
+  QuestionnaireResponses,
+  IQuestionnaireOption,
+  IQuestionnaireItem,
+  IQuestionnaireSubscale,
+  ISeverityBand,
+  IItemAlert,
+  IQuestionnaireScores,
+  IQuestionnaireScoring,
+  IQuestionnaireDefinition,
+  IQuestionnaireResult,
+} from './interfaces/IQuestionnaire';
+
+// Russian versions: PSQI, ESS, DBAS-16, PHQ-9, GAD-7
+export { PSQI } from './instruments/PSQIRussian';
+export { ESS } from './instruments/ESSRussian';
+export { DBAS16, DBAS_CLINICAL_CUTOFF } from './instruments/DBAS16Russian';
+export { PHQ9, PHQ_FREQUENCY_OPTIONS } from './instruments/PHQ9Russian';
+export { GAD7 } from './instruments/GAD7Russian';
@@ -0,0 +1,102 @@
+/**
+ * DBAS16Russian - Dysfunctional Beliefs and Attitudes about Sleep (Russian)
+ * ==========================================================================
+ *
+ * Sleep-related cognitions targeted by cognitive restructuring
+ * (CBT-I Core 5, "Sleep Thoughts").
+ *
+ * Original Development:
+ * - Morin, C.M., Vallières, A., & Ivers, H. (2007) - 16-item short form
+ *
+ * Scoring:
+ * - 16 items, 0 (strongly disagree) to 10 (strongly agree)
+ * - Total and subscales are item means (0-10)
+ * - Mean > 3.8: clinically significant dysfunctional beliefs (Carney et al., 2010)
+ * - Subscales: consequences, worry/helplessness, expectations, medication
+ *
+ * References:
+ * - Morin, C.M. et al. (2007). Sleep, 30(11), 1547-1554
+ * - Carney, C.E. et al. (2010). Behav Sleep Med, 8(1), 1-14
+ *
+ * @packageDocumentation
+ * @module @sleepcore/assessment
+ */
+
+import type { IQuestionnaireDefinition, IQuestionnaireOption } from '../interfaces/IQuestionnaire';
+
+/**
+ * Clinical cutoff for the DBAS-16 mean score
+ */
+export const DBAS_CLINICAL_CUTOFF = 3.8;
+
+const AGREEMENT_OPTIONS: readonly IQuestionnaireOption[] = Array.from({ length: 11 }, (_, value) => ({
+  value,
+  labelRu: String(value),
+  labelEn: String(value),
+}));
+
+const item = (number: number, textRu: string, textEn: string) => ({
+  id: `q${number}`,
+  number,
+  type: 'choice' as const,
+  textRu,
+  textEn,
+  options: AGREEMENT_OPTIONS,
+});
+
+export const DBAS16: IQuestionnaireDefinition = {
+  id: 'dbas',
+  shortName: 'DBAS-16',
+  nameRu: 'Шкала дисфункциональных убеждений о сне (DBAS-16)',
+  nameEn: 'Dysfunctional Beliefs and Attitudes about Sleep (DBAS-16)',
+  icon: '🧠',
+  instructionsRu: 'Насколько Вы согласны с каждым утверждением? 0 — совершенно не согласны, 10 — полностью согласны.',
+  items: [
+    item(1, 'Мне нужно 8 часов сна, чтобы утром чувствовать бодрость и хорошо функционировать днём', 'I need 8 hours of sleep to feel refreshed and function well during the day'),
+    item(2, 'Если я не высыпаюсь ночью, мне нужно наверстать это на следующий день — дневным сном или более долгим сном следующей ночью', 'When I don\'t get the proper amount of sleep on a given night, I need to catch up on the next day by napping or on the next night by sleeping longer'),
+    item(3, 'Меня беспокоит, что хроническая бессонница может серьёзно навредить моему физическому здоровью', 'I am concerned that chronic insomnia may have serious consequences on my physical health'),
+    item(4, 'Меня беспокоит, что я могу потерять контроль над своей способностью спать', 'I am worried that I may lose control over my abilities to sleep'),
+    item(5, 'После плохой ночи я знаю, что это помешает моим повседневным делам на следующий день', 'After a poor night\'s sleep, I know that it will interfere with my daily activities on the next day'),
+    item(6, 'Чтобы днём сохранять бодрость и работоспособность, лучше принять снотворное, чем плохо спать ночью', 'In order to be alert and function well during the day, I believe I would be better off taking a sleeping pill rather than having a poor night\'s sleep'),
+    item(7, 'Когда днём я чувствую раздражение, подавленность или тревогу, это в основном из-за плохого сна прошлой ночью', 'When I feel irritable, depressed, or anxious during the day, it is mostly because I did not sleep well the night before'),
+    item(8, 'Если я плохо сплю одну ночь, это нарушает мой сон на всю неделю', 'When I sleep poorly on one night, I know it will disturb my sleep schedule for the whole week'),
+    item(9, 'Без достаточного сна я едва могу функционировать на следующий день', 'Without an adequate night\'s sleep, I can hardly function the next day'),
+    item(10, 'Я не могу предсказать, будет ли у меня хорошая или плохая ночь', 'I can\'t ever predict whether I\'ll have a good or poor night\'s sleep'),
+    item(11, 'У меня мало возможностей справиться с негативными последствиями плохого сна', 'I have little ability to manage the negative consequences of disturbed sleep'),
+    item(12, 'Когда днём я чувствую усталость, упадок сил или плохо справляюсь с делами, это обычно из-за плохого сна прошлой ночью', 'When I feel tired, have no energy, or just seem not to function well during the day, it is generally because I did not sleep well the night before'),
+    item(13, 'Я считаю, что бессонница — это, по сути, результат химического дисбаланса в организме', 'I believe insomnia is essentially the result of a chemical imbalance'),
+    item(14, 'Мне кажется, бессонница лишает меня возможности радоваться жизни и мешает делать то, что я хочу', 'I feel insomnia is ruining my ability to enjoy life and prevents me from doing what I want'),
+    item(15, 'Лекарство — вероятно, единственное решение проблемы бессонницы', 'Medication is probably the only solution to sleeplessness'),
+    item(16, 'После плохой ночи я избегаю или отменяю дела (социальные, семейные)', 'I avoid or cancel obligations (social, family) after a poor night\'s sleep'),
+  ],
+  scoring: { method: 'mean', min: 0, max: 10, precision: 2 },
+  subscales: [
+    { id: 'consequences', nameRu: 'Последствия бессонницы', nameEn: 'Perceived consequences', itemIds: ['q5', 'q7', 'q9', 'q12', 'q16'], max: 10 },
+    { id: 'worry', nameRu: 'Беспокойство и беспомощность', nameEn: 'Worry/helplessness', itemIds: ['q3', 'q4', 'q8', 'q10', 'q11', 'q14'], max: 10 },
+    { id: 'expectations', nameRu: 'Ожидания от сна', nameEn: 'Sleep expectations', itemIds: ['q1', 'q2'], max: 10 },
+    { id: 'medication', nameRu: 'Отношение к лекарствам', nameEn: 'Medication', itemIds: ['q6', 'q13', 'q15'], max: 10 },
+  ],
+  severityBands: [
+    {
+      id: 'adaptive',
+      min: 0,
+      max: DBAS_CLINICAL_CUTOFF,
+      labelRu: 'Реалистичные убеждения о сне',
+      interpretationRu: 'Ваши убеждения о сне в целом реалистичны и не поддерживают бессонницу.',
+      isClinical: false,
+    },
+    {
+      id: 'dysfunctional',
+      min: DBAS_CLINICAL_CUTOFF,
+      max: 10,
+      labelRu: 'Дисфункциональные убеждения о сне',
+      interpretationRu: 'Часть убеждений о сне поддерживает бессонницу. Техники когнитивной реструктуризации помогут их пересмотреть — начните с самой высокой подшкалы.',
+      isClinical: true,
+    },
+  ],
+  mcid: null,
+  references: [
+    'Morin, C.M. et al. (2007). Sleep, 30(11), 1547-1554',
+    'Carney, C.E. et al. (2010). Behav Sleep Med, 8(1), 1-14',
+  ],
+};
@@ -0,0 +1,104 @@
+/**
+ * ESSRussian - Epworth Sleepiness Scale (Russian Version)
+ * ========================================================
+ *
+ * Daytime sleepiness screening. High ESS during sleep restriction is a
+ * safety signal (drowsy driving) and may point to sleep apnea rather
+ * than insomnia.
+ *
+ * Original Development:
+ * - Johns, M.W. (1991)
+ *
+ * Russian Version:
+ * - Russian translation licensed via Mapi Research Trust (epworthsleepinessscale.com)
+ *
+ * Scoring:
+ * - 8 situations, 0-3 each, total 0-24
+ * - ≥11: excessive daytime sleepiness
+ * - MCID: 2 points (Patel et al., 2018)
+ *
+ * References:
+ * - Johns, M.W. (1991). Sleep, 14(6), 540-545
+ * - Patel, S. et al. (2018). Am J Respir Crit Care Med, 197(7), 961-963
+ *
+ * @packageDocumentation
+ * @module @sleepcore/assessment
+ */
+
+import type { IQuestionnaireDefinition, IQuestionnaireOption } from '../interfaces/IQuestionnaire';
+
+const DOZING_OPTIONS: readonly IQuestionnaireOption[] = [
+  { value: 0, labelRu: 'Не задремлю никогда', labelEn: 'Would never doze' },
+  { value: 1, labelRu: 'Небольшая вероятность', labelEn: 'Slight chance of dozing' },
+  { value: 2, labelRu: 'Умеренная вероятность', labelEn: 'Moderate chance of dozing' },
+  { value: 3, labelRu: 'Высокая вероятность', labelEn: 'High chance of dozing' },
+];
+
+const item = (number: number, textRu: string, textEn: string) => ({
+  id: `q${number}`,
+  number,
+  type: 'choice' as const,
+  textRu,
+  textEn,
+  options: DOZING_OPTIONS,
+});
+
+export const ESS: IQuestionnaireDefinition = {
+  id: 'ess',
+  shortName: 'ESS',
+  nameRu: 'Шкала сонливости Эпворта (ESS)',
+  nameEn: 'Epworth Sleepiness Scale',
+  icon: '😪',
+  instructionsRu: 'Насколько вероятно, что Вы задремлете или уснёте в следующих ситуациях (а не просто почувствуете усталость)? Отвечайте исходя из своего обычного образа жизни в последнее время.',
+  items: [
+    item(1, 'Сидя и читая', 'Sitting and reading'),
+    item(2, 'При просмотре телепередач', 'Watching TV'),
+    item(3, 'Сидя без активной деятельности в общественном месте (например, в театре или на собрании)', 'Sitting inactive in a public place (e.g. a theatre or a meeting)'),
+    item(4, 'В качестве пассажира в автомобиле, если поездка длится час без перерыва', 'As a passenger in a car for an hour without a break'),
+    item(5, 'Лёжа, чтобы отдохнуть днём, когда позволяют обстоятельства', 'Lying down to rest in the afternoon when circumstances permit'),
+    item(6, 'Сидя и разговаривая с кем-либо', 'Sitting and talking to someone'),
+    item(7, 'Спокойно сидя после обеда без алкоголя', 'Sitting quietly after a lunch without alcohol'),
+    item(8, 'За рулём автомобиля, остановившись на несколько минут в пробке', 'In a car, while stopped for a few minutes in the traffic'),
+  ],
+  scoring: { method: 'sum', min: 0, max: 24 },
+  subscales: [],
+  severityBands: [
+    {
+      id: 'normal',
+      min: 0,
+      max: 10,
+      labelRu: 'Нормальный уровень дневной сонливости',
+      interpretationRu: 'Дневная сонливость в пределах нормы.',
+      isClinical: false,
+    },
+    {
+      id: 'mild',
+      min: 11,
+      max: 12,
+      labelRu: 'Лёгкая избыточная сонливость',
+      interpretationRu: 'Сонливость немного повышена. При ограничении сна это ожидаемо, но будьте осторожны за рулём.',
+      isClinical: true,
+    },
+    {
+      id: 'moderate',
+      min: 13,
+      max: 15,
+      labelRu: 'Умеренная избыточная сонливость',
+      interpretationRu: 'Сонливость умеренно повышена. Не садитесь за руль в сонном состоянии и сообщите об этом врачу.',
+      isClinical: true,
+    },
+    {
+      id: 'severe',
+      min: 16,
+      max: 24,
+      labelRu: 'Выраженная избыточная сонливость',
+      interpretationRu: 'Сонливость выражена. Откажитесь от вождения и обратитесь к врачу-сомнологу: нужно исключить апноэ сна и другие причины.',
+      isClinical: true,
+    },
+  ],
+  mcid: 2,
+  references: [
+    'Johns, M.W. (1991). Sleep, 14(6), 540-545',
+    'Patel, S. et al. (2018). Am J Respir Crit Care Med, 197(7), 961-963',
+  ],
+};
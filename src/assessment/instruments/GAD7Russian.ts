@@ -0,0 +1,96 @@
+/**
+ * GAD7Russian - Generalized Anxiety Disorder 7 (Russian Version)
+ * ===============================================================
+ *
+ * Anxiety severity screening; pre-sleep worry is a core perpetuating
+ * factor of insomnia (Harvey, 2002).
+ *
+ * Original Development:
+ * - Spitzer, R.L., Kroenke, K., Williams, J.B., & Löwe, B. (2006)
+ *
+ * Russian Version:
+ * - Official Russian translation distributed by Pfizer (phqscreeners.com)
+ *
+ * Scoring:
+ * - 7 items, 0-3 each, total 0-21
+ * - ≥10: clinically significant anxiety (sensitivity 89%, specificity 82%)
+ * - MCID: 4 points (Toussaint et al., 2020)
+ *
+ * References:
+ * - Spitzer, R.L. et al. (2006). Arch Intern Med, 166(10), 1092-1097
+ * - Toussaint, A. et al. (2020). J Affect Disord, 265, 395-401
+ *
+ * @packageDocumentation
+ * @module @sleepcore/assessment
+ */
+
+import type { IQuestionnaireDefinition } from '../interfaces/IQuestionnaire';
+import { PHQ_FREQUENCY_OPTIONS } from './PHQ9Russian';
+
+const item = (number: number, textRu: string, textEn: string) => ({
+  id: `q${number}`,
+  number,
+  type: 'choice' as const,
+  textRu,
+  textEn,
+  options: PHQ_FREQUENCY_OPTIONS,
+});
+
+export const GAD7: IQuestionnaireDefinition = {
+  id: 'gad7',
+  shortName: 'GAD-7',
+  nameRu: 'Шкала генерализованного тревожного расстройства (GAD-7)',
+  nameEn: 'Generalized Anxiety Disorder 7-item scale',
+  icon: '🌀',
+  instructionsRu: 'Как часто за последние 2 недели Вас беспокоили следующие проблемы?',
+  items: [
+    item(1, 'Вы нервничали, тревожились или испытывали сильный стресс', 'Feeling nervous, anxious, or on edge'),
+    item(2, 'Вы были неспособны успокоиться или контролировать своё волнение', 'Not being able to stop or control worrying'),
+    item(3, 'Вы слишком сильно волновались по различным поводам', 'Worrying too much about different things'),
+    item(4, 'Вам было трудно расслабиться', 'Trouble relaxing'),
+    item(5, 'Вы были настолько суетливы, что Вам было тяжело усидеть на месте', 'Being so restless that it is hard to sit still'),
+    item(6, 'Вы легко злились или раздражались', 'Becoming easily annoyed or irritable'),
+    item(7, 'Вы испытывали страх, словно должно произойти нечто ужасное', 'Feeling afraid, as if something awful might happen'),
+  ],
+  scoring: { method: 'sum', min: 0, max: 21 },
+  subscales: [],
+  severityBands: [
+    {
+      id: 'minimal',
+      min: 0,
+      max: 4,
+      labelRu: 'Минимальная тревога',
+      interpretationRu: 'Выраженной тревоги нет.',
+      isClinical: false,
+    },
+    {
+      id: 'mild',
+      min: 5,
+      max: 9,
+      labelRu: 'Лёгкая тревога',
+      interpretationRu: 'Есть лёгкая тревога. Техники релаксации и «время для беспокойства» из программы помогут снизить её влияние на сон.',
+      isClinical: false,
+    },
+    {
+      id: 'moderate',
+      min: 10,
+      max: 14,
+      labelRu: 'Умеренная тревога',
+      interpretationRu: 'Тревога умеренная. Рекомендуется обсудить её с врачом или психотерапевтом параллельно с программой КПТ-И.',
+      isClinical: true,
+    },
+    {
+      id: 'severe',
+      min: 15,
+      max: 21,
+      labelRu: 'Выраженная тревога',
+      interpretationRu: 'Тревога выраженная. Пожалуйста, обратитесь к врачу-психотерапевту: может потребоваться отдельное лечение.',
+      isClinical: true,
+    },
+  ],
+  mcid: 4,
+  references: [
+    'Spitzer, R.L. et al. (2006). Arch Intern Med, 166(10), 1092-1097',
+    'Toussaint, A. et al. (2020). J Affect Disord, 265, 395-401',
+  ],
+};
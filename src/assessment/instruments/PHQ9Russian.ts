@@ -0,0 +1,124 @@
+/**
+ * PHQ9Russian - Patient Health Questionnaire-9 (Russian Version)
+ * ===============================================================
+ *
+ * Depression severity screening; comorbid depression is common in
+ * insomnia and changes the CBT-I plan (AASM 2021, ESRS 2023).
+ *
+ * Original Development:
+ * - Kroenke, K., Spitzer, R.L., & Williams, J.B. (2001)
+ *
+ * Russian Version:
+ * - Official Russian translation distributed by Pfizer (phqscreeners.com)
+ *
+ * Scoring:
+ * - 9 items, 0-3 each, total 0-27
+ * - ≥10: clinically significant depression (sensitivity 88%, specificity 88%)
+ * - MCID: 5 points (Löwe et al., 2004)
+ * - Item 9 (thoughts of death / self-harm) > 0 requires safety follow-up
+ *
+ * References:
+ * - Kroenke, K. et al. (2001). J Gen Intern Med, 16(9), 606-613
+ * - Löwe, B. et al. (2004). Med Care, 42(12), 1194-1201
+ *
+ * @packageDocumentation
+ * @module @sleepcore/assessment
+ */
+
+import type { IQuestionnaireDefinition, IQuestionnaireOption } from '../interfaces/IQuestionnaire';
+
+/**
+ * Frequency options shared with GAD-7
+ */
+export const PHQ_FREQUENCY_OPTIONS: readonly IQuestionnaireOption[] = [
+  { value: 0, labelRu: 'Ни разу', labelEn: 'Not at all' },
+  { value: 1, labelRu: 'Несколько дней', labelEn: 'Several days' },
+  { value: 2, labelRu: 'Более половины дней', labelEn: 'More than half the days' },
+  { value: 3, labelRu: 'Почти каждый день', labelEn: 'Nearly every day' },
+];
+
+const item = (number: number, textRu: string, textEn: string) => ({
+  id: `q${number}`,
+  number,
+  type: 'choice' as const,
+  textRu,
+  textEn,
+  options: PHQ_FREQUENCY_OPTIONS,
+});
+
+export const PHQ9: IQuestionnaireDefinition = {
+  id: 'phq9',
+  shortName: 'PHQ-9',
+  nameRu: 'Опросник здоровья пациента (PHQ-9)',
+  nameEn: 'Patient Health Questionnaire-9',
+  icon: '💭',
+  instructionsRu: 'Как часто за последние 2 недели Вас беспокоили следующие проблемы?',
+  items: [
+    item(1, 'Вам не хотелось ничего делать', 'Little interest or pleasure in doing things'),
+    item(2, 'У Вас было плохое настроение, Вы были подавлены или испытывали чувство безысходности', 'Feeling down, depressed, or hopeless'),
+    item(3, 'Вам было трудно заснуть, у Вас был прерывистый сон, или Вы слишком много спали', 'Trouble falling or staying asleep, or sleeping too much'),
+    item(4, 'Вы чувствовали усталость, или у Вас было мало сил', 'Feeling tired or having little energy'),
+    item(5, 'У Вас был плохой аппетит, или Вы переедали', 'Poor appetite or overeating'),
+    item(6, 'Вы плохо о себе думали: считали себя неудачником, были в себе разочарованы или считали, что подвели свою семью', 'Feeling bad about yourself — or that you are a failure or have let yourself or your family down'),
+    item(7, 'Вам было трудно сосредоточиться (например, на чтении или просмотре телепередач)', 'Trouble concentrating on things, such as reading the newspaper or watching television'),
+    item(8, 'Вы двигались или говорили настолько медленно, что окружающие это замечали? Или, наоборот, были настолько суетливы или взбудоражены, что двигались больше обычного', 'Moving or speaking so slowly that other people could have noticed? Or the opposite — being so fidgety or restless that you have been moving around a lot more than usual'),
+    item(9, 'Вас посещали мысли о том, что лучше было бы умереть, или о том, чтобы причинить себе вред', 'Thoughts that you would be better off dead or of hurting yourself in some way'),
+  ],
+  scoring: { method: 'sum', min: 0, max: 27 },
+  subscales: [],
+  severityBands: [
+    {
+      id: 'minimal',
+      min: 0,
+      max: 4,
+      labelRu: 'Минимальные симптомы депрессии',
+      interpretationRu: 'Выраженных симптомов депрессии нет.',
+      isClinical: false,
+    },
+    {
+      id: 'mild',
+      min: 5,
+      max: 9,
+      labelRu: 'Лёгкие симптомы депрессии',
+      interpretationRu: 'Есть лёгкие симптомы сниженного настроения. Улучшение сна часто помогает и настроению — повторите опрос через 2-4 недели.',
+      isClinical: false,
+    },
+    {
+      id: 'moderate',
+      min: 10,
+      max: 14,
+      labelRu: 'Умеренная депрессия',
+      interpretationRu: 'Симптомы депрессии умеренные. Рекомендуется обсудить их с врачом или психотерапевтом параллельно с программой КПТ-И.',
+      isClinical: true,
+    },
+    {
+      id: 'moderately_severe',
+      min: 15,
+      max: 19,
+      labelRu: 'Умеренно тяжёлая депрессия',
+      interpretationRu: 'Симптомы депрессии выражены. Пожалуйста, обратитесь к врачу: может потребоваться лечение депрессии.',
+      isClinical: true,
+    },
+    {
+      id: 'severe',
+      min: 20,
+      max: 27,
+      labelRu: 'Тяжёлая депрессия',
+      interpretationRu: 'Симптомы депрессии тяжёлые. Обратитесь к врачу-психиатру или психотерапевту как можно скорее.',
+      isClinical: true,
+    },
+  ],
+  mcid: 5,
+  alerts: [
+    {
+      type: 'suicidal_ideation',
+      itemId: 'q9',
+      minValue: 1,
+      messageRu: 'Вы отметили мысли о смерти или о причинении себе вреда. Вы не одни — пожалуйста, поговорите со специалистом. Телефон доверия: 8-800-2000-122 (бесплатно, круглосуточно).',
+    },
+  ],
+  references: [
+    'Kroenke, K. et al. (2001). J Gen Intern Med, 16(9), 606-613',
+    'Löwe, B. et al. (2004). Med Care, 42(12), 1194-1201',
+  ],
+};
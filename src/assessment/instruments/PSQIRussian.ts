@@ -0,0 +1,254 @@
+/**
+ * PSQIRussian - Pittsburgh Sleep Quality Index (Russian Version)
+ * ===============================================================
+ *
+ * Global sleep quality over the past month; complements ISI with
+ * sleep timing, efficiency, disturbances and medication use.
+ *
+ * Original Development:
+ * - Buysse, D.J., Reynolds, C.F., Monk, T.H., Berman, S.R., & Kupfer, D.J. (1989)
+ *
+ * Russian Version:
+ * - Russian adaptation used in Russian Society of Somnologists practice
+ *   (Pigarev et al.; Mapi Research Trust licensed translation)
+ *
+ * Scoring (Buysse, 1989):
+ * - 19 self-rated items → 7 components, each 0-3
+ * - C1 quality, C2 latency, C3 duration, C4 efficiency,
+ *   C5 disturbances, C6 medication, C7 daytime dysfunction
+ * - Global score 0-21; >5 distinguishes poor sleepers (sensitivity 89.6%, specificity 86.5%)
+ * - MCID: 3 points (Hughes et al., 2009)
+ *
+ * Delivery:
+ * - Clock times and durations are answered with preset ranges so the
+ *   whole index fits inline buttons; each preset carries the range midpoint
+ *
+ * References:
+ * - Buysse, D.J. et al. (1989). Psychiatry Res, 28(2), 193-213
+ * - Hughes, C.M. et al. (2009). Arch Phys Med Rehabil, 90(8), 1354-1358
+ *
+ * @packageDocumentation
+ * @module @sleepcore/assessment
+ */
+
+import type {
+  IQuestionnaireDefinition,
+  IQuestionnaireItem,
+  IQuestionnaireOption,
+  IQuestionnaireScores,
+  QuestionnaireResponses,
+} from '../interfaces/IQuestionnaire';
+
+const FREQUENCY_OPTIONS: readonly IQuestionnaireOption[] = [
+  { value: 0, labelRu: 'Не было за последний месяц', labelEn: 'Not during the past month' },
+  { value: 1, labelRu: 'Реже раза в неделю', labelEn: 'Less than once a week' },
+  { value: 2, labelRu: '1-2 раза в неделю', labelEn: 'Once or twice a week' },
+  { value: 3, labelRu: '3 раза в неделю и чаще', labelEn: 'Three or more times a week' },
+];
+
+const disturbance = (number: number, id: string, textRu: string, textEn: string): IQuestionnaireItem => ({
+  id,
+  number,
+  type: 'choice',
+  textRu: `Как часто за последний месяц у Вас были проблемы со сном, потому что Вы… ${textRu}`,
+  textEn: `During the past month, how often have you had trouble sleeping because you… ${textEn}`,
+  options: FREQUENCY_OPTIONS,
+});
+
+/**
+ * PSQI component scoring (Buysse, 1989)
+ */
+function scorePSQIComponents(r: QuestionnaireResponses): IQuestionnaireScores {
+  const band = (value: number, cutoffs: readonly number[]): number => {
+    const index = cutoffs.findIndex((cutoff) => value <= cutoff);
+    return index === -1 ? cutoffs.length : index;
+  };
+
+  // C2: Q2 latency score + Q5a
+  const latencyScore = band(r.q2, [15, 30, 60]);
+  const latency = band(latencyScore + r.q5a, [0, 2, 4]);
+
+  // C3: hours of actual sleep (>7 → 0, 6-7 → 1, 5-6 → 2, <5 → 3)
+  const duration = r.q4 > 7 ? 0 : r.q4 >= 6 ? 1 : r.q4 >= 5 ? 2 : 3;
+
+  // C4: habitual sleep efficiency = hours slept / hours in bed
+  const minutesInBed = (r.q3 - r.q1 + 1440) % 1440 || 1440;
+  const efficiency = Math.min(100, (r.q4 * 60 / minutesInBed) * 100);
+  const efficiencyScore = efficiency >= 85 ? 0 : efficiency >= 75 ? 1 : efficiency >= 65 ? 2 : 3;
+
+  // C5: sum of Q5b-Q5j
+  const disturbanceSum = ['q5b', 'q5c', 'q5d', 'q5e', 'q5f', 'q5g', 'q5h', 'q5i', 'q5j']
+    .reduce((sum, id) => sum + r[id], 0);
+  const disturbances = band(disturbanceSum, [0, 9, 18]);
+
+  // C7: Q8 + Q9
+  const dysfunction = band(r.q8 + r.q9, [0, 2, 4]);
+
+  const subscales = {
+    quality: r.q6,
+    latency,
+    duration,
+    efficiency: efficiencyScore,
+    disturbances,
+    medication: r.q7,
+    dysfunction,
+  };
+
+  return {
+    total: Object.values(subscales).reduce((sum, value) => sum + value, 0),
+    subscales,
+  };
+}
+
+export const PSQI: IQuestionnaireDefinition = {
+  id: 'psqi',
+  shortName: 'PSQI',
+  nameRu: 'Питтсбургский индекс качества сна (PSQI)',
+  nameEn: 'Pittsburgh Sleep Quality Index',
+  icon: '🌙',
+  instructionsRu: 'Вопросы касаются Вашего обычного сна только за последний месяц. Выбирайте ответ, который точнее всего описывает большинство дней и ночей.',
+  items: [
+    {
+      id: 'q1',
+      number: 1,
+      type: 'time',
+      textRu: 'В какое время Вы обычно ложились спать вечером?',
+      textEn: 'What time have you usually gone to bed at night?',
+      options: [
+        { value: 1260, labelRu: 'Около 21:00', labelEn: 'About 21:00' },
+        { value: 1320, labelRu: 'Около 22:00', labelEn: 'About 22:00' },
+        { value: 1380, labelRu: 'Около 23:00', labelEn: 'About 23:00' },
+        { value: 0, labelRu: 'Около 00:00', labelEn: 'About 00:00' },
+        { value: 60, labelRu: 'Около 01:00', labelEn: 'About 01:00' },
+        { value: 120, labelRu: '02:00 или позже', labelEn: '02:00 or later' },
+      ],
+    },
+    {
+      id: 'q2',
+      number: 2,
+      type: 'number',
+      textRu: 'Сколько минут Вам обычно требовалось, чтобы заснуть?',
+      textEn: 'How long (in minutes) has it usually taken you to fall asleep each night?',
+      options: [
+        { value: 10, labelRu: '15 минут и меньше', labelEn: '15 minutes or less' },
+        { value: 25, labelRu: '16-30 минут', labelEn: '16-30 minutes' },
+        { value: 45, labelRu: '31-60 минут', labelEn: '31-60 minutes' },
+        { value: 75, labelRu: 'Больше часа', labelEn: 'More than an hour' },
+      ],
+    },
+    {
+      id: 'q3',
+      number: 3,
+      type: 'time',
+      textRu: 'В какое время Вы обычно вставали утром?',
+      textEn: 'What time have you usually gotten up in the morning?',
+      options: [
+        { value: 300, labelRu: 'Около 05:00', labelEn: 'About 05:00' },
+        { value: 360, labelRu: 'Около 06:00', labelEn: 'About 06:00' },
+        { value: 420, labelRu: 'Около 07:00', labelEn: 'About 07:00' },
+        { value: 480, labelRu: 'Около 08:00', labelEn: 'About 08:00' },
+        { value: 540, labelRu: 'Около 09:00', labelEn: 'About 09:00' },
+        { value: 600, labelRu: '10:00 или позже', labelEn: '10:00 or later' },
+      ],
+    },
+    {
+      id: 'q4',
+      number: 4,
+      type: 'number',
+      textRu: 'Сколько часов Вы действительно спали ночью? (Это может отличаться от времени, проведённого в постели.)',
+      textEn: 'How many hours of actual sleep did you get at night? (This may be different than the number of hours you spent in bed.)',
+      options: [
+        { value: 4.5, labelRu: 'Меньше 5 часов', labelEn: 'Less than 5 hours' },
+        { value: 5.5, labelRu: '5-6 часов', labelEn: '5-6 hours' },
+        { value: 6.5, labelRu: '6-7 часов', labelEn: '6-7 hours' },
+        { value: 7.5, labelRu: '7-8 часов', labelEn: '7-8 hours' },
+        { value: 8.5, labelRu: 'Больше 8 часов', labelEn: 'More than 8 hours' },
+      ],
+    },
+    disturbance(5, 'q5a', 'не могли заснуть в течение 30 минут', 'cannot get to sleep within 30 minutes'),
+    disturbance(6, 'q5b', 'просыпались посреди ночи или рано утром', 'wake up in the middle of the night or early morning'),
+    disturbance(7, 'q5c', 'вставали в туалет', 'have to get up to use the bathroom'),
+    disturbance(8, 'q5d', 'не могли свободно дышать', 'cannot breathe comfortably'),
+    disturbance(9, 'q5e', 'кашляли или громко храпели', 'cough or snore loudly'),
+    disturbance(10, 'q5f', 'чувствовали холод', 'feel too cold'),
+    disturbance(11, 'q5g', 'чувствовали жар', 'feel too hot'),
+    disturbance(12, 'q5h', 'видели плохие сны', 'had bad dreams'),
+    disturbance(13, 'q5i', 'испытывали боль', 'have pain'),
+    disturbance(14, 'q5j', 'по другой причине', 'other reason'),
+    {
+      id: 'q6',
+      number: 15,
+      type: 'choice',
+      textRu: 'Как бы Вы в целом оценили качество своего сна за последний месяц?',
+      textEn: 'During the past month, how would you rate your sleep quality overall?',
+      options: [
+        { value: 0, labelRu: 'Очень хорошее', labelEn: 'Very good' },
+        { value: 1, labelRu: 'Довольно хорошее', labelEn: 'Fairly good' },
+        { value: 2, labelRu: 'Довольно плохое', labelEn: 'Fairly bad' },
+        { value: 3, labelRu: 'Очень плохое', labelEn: 'Very bad' },
+      ],
+    },
+    {
+      id: 'q7',
+      number: 16,
+      type: 'choice',
+      textRu: 'Как часто за последний месяц Вы принимали лекарства, чтобы заснуть (по назначению врача или без него)?',
+      textEn: 'During the past month, how often have you taken medicine to help you sleep (prescribed or "over the counter")?',
+      options: FREQUENCY_OPTIONS,
+    },
+    {
+      id: 'q8',
+      number: 17,
+      type: 'choice',
+      textRu: 'Как часто за последний месяц Вам было трудно не заснуть за рулём, во время еды или общения?',
+      textEn: 'During the past month, how often have you had trouble staying awake while driving, eating meals, or engaging in social activity?',
+      options: FREQUENCY_OPTIONS,
+    },
+    {
+      id: 'q9',
+      number: 18,
+      type: 'choice',
+      textRu: 'Насколько трудно за последний месяц Вам было сохранять энергию и желание делать дела?',
+      textEn: 'During the past month, how much of a problem has it been for you to keep up enough enthusiasm to get things done?',
+      options: [
+        { value: 0, labelRu: 'Совсем не трудно', labelEn: 'No problem at all' },
+        { value: 1, labelRu: 'Немного трудно', labelEn: 'Only a very slight problem' },
+        { value: 2, labelRu: 'Довольно трудно', labelEn: 'Somewhat of a problem' },
+        { value: 3, labelRu: 'Очень трудно', labelEn: 'A very big problem' },
+      ],
+    },
+  ],
+  scoring: { method: 'custom', min: 0, max: 21, compute: scorePSQIComponents },
+  subscales: [
+    { id: 'quality', nameRu: 'Субъективное качество сна', nameEn: 'Subjective sleep quality', max: 3 },
+    { id: 'latency', nameRu: 'Время засыпания', nameEn: 'Sleep latency', max: 3 },
+    { id: 'duration', nameRu: 'Продолжительность сна', nameEn: 'Sleep duration', max: 3 },
+    { id: 'efficiency', nameRu: 'Эффективность сна', nameEn: 'Habitual sleep efficiency', max: 3 },
+    { id: 'disturbances', nameRu: 'Нарушения сна', nameEn: 'Sleep disturbances', max: 3 },
+    { id: 'medication', nameRu: 'Снотворные препараты', nameEn: 'Use of sleeping medication', max: 3 },
+    { id: 'dysfunction', nameRu: 'Дневная дисфункция', nameEn: 'Daytime dysfunction', max: 3 },
+  ],
+  severityBands: [
+    {
+      id: 'good',
+      min: 0,
+      max: 5,
+      labelRu: 'Хорошее качество сна',
+      interpretationRu: 'Качество Вашего сна за последний месяц в пределах нормы.',
+      isClinical: false,
+    },
+    {
+      id: 'poor',
+      min: 6,
+      max: 21,
+      labelRu: 'Плохое качество сна',
+      interpretationRu: 'Качество сна снижено. Посмотрите на компоненты с наибольшим баллом — на них направлена программа КПТ-И.',
+      isClinical: true,
+    },
+  ],
+  mcid: 3,
+  references: [
+    'Buysse, D.J. et al. (1989). Psychiatry Res, 28(2), 193-213',
+    'Hughes, C.M. et al. (2009). Arch Phys Med Rehabil, 90(8), 1354-1358',
+  ],
+};
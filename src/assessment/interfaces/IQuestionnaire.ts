@@ -0,0 +1,153 @@
+/**
+ * IQuestionnaire - Generic Questionnaire Definition Model
+ * ========================================================
+ *
+ * Declarative description of a psychometric instrument: items, scoring,
+ * subscales, severity bands and MCID. One scoring engine handles every
+ * instrument defined with this model (ISI keeps its dedicated class).
+ *
+ * Instruments:
+ * - PSQI: Pittsburgh Sleep Quality Index (Buysse et al., 1989)
+ * - ESS: Epworth Sleepiness Scale (Johns, 1991)
+ * - DBAS-16: Dysfunctional Beliefs and Attitudes about Sleep (Morin et al., 2007)
+ * - PHQ-9: Patient Health Questionnaire (Kroenke et al., 2001)
+ * - GAD-7: Generalized Anxiety Disorder scale (Spitzer et al., 2006)
+ *
+ * @packageDocumentation
+ * @module @sleepcore/assessment
+ */
+
+/**
+ * Questionnaire identifier
+ * Matches the `type` column of the assessments table
+ */
+export type QuestionnaireId = 'psqi' | 'ess' | 'dbas' | 'phq9' | 'gad7';
+
+/**
+ * Item response format
+ * - choice: Likert/frequency options
+ * - time: clock time, value in minutes after midnight
+ * - number: quantity (minutes, hours), value in the item's unit
+ *
+ * All formats are answered by picking an option, so every instrument
+ * can be delivered with inline buttons.
+ */
+export type QuestionnaireItemType = 'choice' | 'time' | 'number';
+
+/**
+ * Answer option
+ */
+export interface IQuestionnaireOption {
+  readonly value: number;
+  readonly labelRu: string;
+  readonly labelEn: string;
+}
+
+/**
+ * Questionnaire item
+ */
+export interface IQuestionnaireItem {
+  readonly id: string;
+  readonly number: number;
+  readonly type: QuestionnaireItemType;
+  readonly textRu: string;
+  readonly textEn: string;
+  readonly options: readonly IQuestionnaireOption[];
+}
+
+/**
+ * Item responses keyed by item ID
+ */
+export type QuestionnaireResponses = Readonly<Record<string, number>>;
+
+/**
+ * Subscale (or PSQI component) definition
+ */
+export interface IQuestionnaireSubscale {
+  readonly id: string;
+  readonly nameRu: string;
+  readonly nameEn: string;
+  /** Items aggregated by the engine; omitted when a custom scorer computes it */
+  readonly itemIds?: readonly string[];
+  readonly max: number;
+}
+
+/**
+ * Severity band; bands are ordered and matched by `score <= max`
+ */
+export interface ISeverityBand {
+  readonly id: string;
+  readonly min: number;
+  readonly max: number;
+  readonly labelRu: string;
+  readonly interpretationRu: string;
+  readonly isClinical: boolean;
+}
+
+/**
+ * Safety alert raised by a single item (e.g. PHQ-9 item 9)
+ */
+export interface IItemAlert {
+  readonly type: 'suicidal_ideation';
+  readonly itemId: string;
+  readonly minValue: number;
+  readonly messageRu: string;
+}
+
+/**
+ * Scores produced by a scoring method
+ */
+export interface IQuestionnaireScores {
+  readonly total: number;
+  readonly subscales: Readonly<Record<string, number>>;
+}
+
+/**
+ * Scoring rules
+ * - sum: total = sum of items, subscales = sum of their items
+ * - mean: total = mean of items, subscales = mean of their items
+ * - custom: `compute` derives total and subscales (PSQI components)
+ */
+export interface IQuestionnaireScoring {
+  readonly method: 'sum' | 'mean' | 'custom';
+  readonly min: number;
+  readonly max: number;
+  /** Decimal places kept for mean scores */
+  readonly precision?: number;
+  readonly compute?: (responses: QuestionnaireResponses) => IQuestionnaireScores;
+}
+
+/**
+ * Complete instrument definition
+ */
+export interface IQuestionnaireDefinition {
+  readonly id: QuestionnaireId;
+  readonly shortName: string;
+  readonly nameRu: string;
+  readonly nameEn: string;
+  readonly icon: string;
+  readonly instructionsRu: string;
+  readonly items: readonly IQuestionnaireItem[];
+  readonly scoring: IQuestionnaireScoring;
+  readonly subscales: readonly IQuestionnaireSubscale[];
+  readonly severityBands: readonly ISeverityBand[];
+  /** Minimal Clinically Important Difference (null if not established) */
+  readonly mcid: number | null;
+  readonly alerts?: readonly IItemAlert[];
+  readonly references: readonly string[];
+}
+
+/**
+ * Scored questionnaire
+ */
+export interface IQuestionnaireResult {
+  readonly questionnaireId: QuestionnaireId;
+  readonly totalScore: number;
+  readonly maxScore: number;
+  readonly severity: string;
+  readonly severityLabel: string;
+  readonly interpretation: string;
+  readonly isClinical: boolean;
+  readonly subscales: Readonly<Record<string, number>>;
+  readonly alerts: readonly IItemAlert[];
+}
@@ -85,9 +85,11 @@ class AEReportCommand implements ICommand, IConversationCommand {
    */
   private getAEService(ctx: ISleepCoreContext): AdverseEventService {
     if (!this.aeService) {
-      // For now, create with a mock DB connection
-      // In production, this would use the real database
-      this.aeService = createAdverseEventService({} as never);
+      const db = ctx.sleepCore.db;
+      if (!db) {
+        throw new Error('Database connection not configured. Call sleepCore.setDatabase() first.');
+      }
+      this.aeService = createAdverseEventService(db);
     }
     return this.aeService;
   }
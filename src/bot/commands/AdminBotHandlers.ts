@@ -0,0 +1,97 @@
+/**
+ * Admin Bot Handlers
+ * ==================
+ * Binds /admin (with arguments) and the admin:* callbacks to a Grammy bot.
+ *
+ * Registered before the bot's general callback handler so admin buttons
+ * never fall through to it. Authorization stays in AdminCommand, which
+ * re-checks the caller on every command and callback. Files attached to a
+ * result (E2B XML batches) are sent as documents after the message.
+ *
+ * @packageDocumentation
+ * @module @sleepcore/bot/commands
+ */
+
+import { GrammyError, InlineKeyboard, InputFile, type Bot, type Context } from 'grammy';
+import type {
+  ICommandDocument,
+  ICommandResult,
+  IInlineButton,
+  ISleepCoreContext,
+} from './interfaces/ICommand';
+import { adminCommand, type AdminCommand } from './AdminCommand';
+
+/**
+ * Register /admin and admin:* callbacks
+ * @param toSleepCoreContext - builds the command context from a Grammy update
+ */
+export function setupAdminHandlers<C extends Context>(
+  bot: Bot<C>,
+  toSleepCoreContext: (ctx: C) => ISleepCoreContext,
+  command: AdminCommand = adminCommand
+): void {
+  bot.command([command.name, ...command.aliases], async (ctx) => {
+    const args = ctx.match?.toString().trim();
+    const result = await command.execute(toSleepCoreContext(ctx), args || undefined);
+    await replyWithResult(ctx, result);
+    await sendDocument(ctx, result.document);
+  });
+
+  bot.callbackQuery(/^admin:/, async (ctx) => {
+    try {
+      const result = await command.handleCallback(toSleepCoreContext(ctx), ctx.callbackQuery.data, {});
+      await editWithResult(ctx, result);
+      await ctx.answerCallbackQuery();
+      await sendDocument(ctx, result.document);
+    } catch (error) {
+      console.error('[Admin] Callback error:', error);
+      await ctx.answerCallbackQuery({ text: 'Ошибка. Попробуйте позже.' });
+    }
+  });
+}
+
+async function replyWithResult(ctx: Context, result: ICommandResult): Promise<void> {
+  if (!result.message) return;
+  await ctx.reply(result.message, { parse_mode: 'Markdown', reply_markup: toKeyboard(result.keyboard) });
+}
+
+/**
+ * Replace the menu message in place; send a new one when it cannot be edited
+ */
+async function editWithResult(ctx: Context, result: ICommandResult): Promise<void> {
+  if (!result.message) return;
+  const keyboard = toKeyboard(result.keyboard);
+
+  try {
+    await ctx.editMessageText(result.message, { parse_mode: 'Markdown', reply_markup: keyboard });
+  } catch (error) {
+    if (!(error instanceof GrammyError && error.description.includes('not modified'))) {
+      await ctx.reply(result.message, { parse_mode: 'Markdown', reply_markup: keyboard });
+    }
+  }
+}
+
+async function sendDocument(ctx: Context, document?: ICommandDocument): Promise<void> {
+  if (!document) return;
+  await ctx.replyWithDocument(
+    new InputFile(Buffer.from(document.content, 'utf-8'), document.fileName),
+    document.caption ? { caption: document.caption } : undefined
+  );
+}
+
+function toKeyboard(buttons?: IInlineButton[][]): InlineKeyboard | undefined {
+  if (!buttons) return undefined;
+
+  const keyboard = new InlineKeyboard();
+  for (const row of buttons) {
+    for (const button of row) {
+      if (button.url) {
+        keyboard.url(button.text, button.url);
+      } else {
+        keyboard.text(button.text, button.callbackData || 'noop');
+      }
+    }
+    keyboard.row();
+  }
+  return keyboard;
+}
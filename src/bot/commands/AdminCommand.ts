@@ -15,6 +15,9 @@
  * - ISI outcome tracking
  * - Safety monitoring (ISI worsening alerts)
  * - Audit trail viewing (super admin)
+ * - ICH E2B(R3) adverse event export (super admin)
+ * - Supervised medication tapering: plan creation, step sign-off, hold/resume
+ * - Assessment protocol adherence and cohort assignment
  *
  * @packageDocumentation
  * @module @sleepcore/bot/commands
@@ -40,6 +43,15 @@ import {
   type ExportFormat,
   type AnonymizationLevel,
 } from '../services/AnonymizedDataExportService';
+import { createE2BExportService } from '../services/E2BExportService';
+import {
+  MedicationTaperingService,
+  createMedicationTaperingService,
+  type ITaperPlan,
+  type TaperMedicationClass,
+} from '../services/MedicationTaperingService';
+import type { ISISchedulingService, IAdherenceReport } from '../services/ISISchedulingService';
+import type { ISleepMedicationDose } from '../../sleep/interfaces/ISleepState';
 
 // ==================== Types ====================
 
@@ -53,6 +65,36 @@ type AdminStep =
   | 'data_export'
   | 'unauthorized';
 
+/**
+ * Plan creation from the command line:
+ * /admin taper <user ID> <dose> <mg|tablet> <class> <medication name>
+ */
+const TAPER_USAGE = '/admin taper <ID участника> <доза> <mg|tablet> <z_drug|benzodiazepine|other> <препарат>';
+
+/**
+ * Cohort assignment from the command line:
+ * /admin cohort <user ID> <protocol ID>
+ */
+const COHORT_USAGE = '/admin cohort <ID участника> <протокол>';
+
+/**
+ * Participants listed in the adherence view, lowest adherence first
+ */
+const ADHERENCE_LIST_SIZE = 10;
+
+const TAPER_CLASS_LABELS: Record<TaperMedicationClass, string> = {
+  z_drug: 'Z-препарат',
+  benzodiazepine: 'бензодиазепин',
+  other: 'другое',
+};
+
+const TAPER_STATUS_LABELS: Record<ITaperPlan['status'], string> = {
+  active: '🟢 Активен',
+  on_hold: '⏸ Приостановлен',
+  completed: '✅ Завершён',
+  cancelled: '⛔ Отменён',
+};
+
 // ==================== Admin Command ====================
 
 /**
@@ -78,6 +120,15 @@ export class AdminCommand implements IConversationCommand {
 
   private adminService: AdminDashboardService | null = null;
   private exportService: AnonymizedDataExportService | null = null;
+  private taperService: MedicationTaperingService | null = null;
+  private assessmentScheduler: ISISchedulingService | null = null;
+
+  /**
+   * Attach the running assessment scheduler (adherence and cohort views)
+   */
+  setAssessmentScheduler(scheduler: ISISchedulingService): void {
+    this.assessmentScheduler = scheduler;
+  }
 
   /**
    * Get or create admin service
@@ -107,10 +158,24 @@ export class AdminCommand implements IConversationCommand {
     return this.exportService;
   }
 
+  /**
+   * Get or create tapering service
+   */
+  private getTaperService(ctx: ISleepCoreContext): MedicationTaperingService {
+    if (!this.taperService) {
+      const db = ctx.sleepCore.db;
+      if (!db) {
+        throw new Error('Database connection not configured. Call sleepCore.setDatabase() first.');
+      }
+      this.taperService = createMedicationTaperingService(db);
+    }
+    return this.taperService;
+  }
+
   /**
    * Execute admin command
    */
-  async execute(ctx: ISleepCoreContext): Promise<ICommandResult> {
+  async execute(ctx: ISleepCoreContext, args?: string): Promise<ICommandResult> {
     const adminService = this.getAdminService(ctx);
 
     // Authorization check (HIPAA minimum necessary)
@@ -126,6 +191,14 @@ export class AdminCommand implements IConversationCommand {
       };
     }
 
+    if (args?.trim().startsWith('taper')) {
+      return this.createTaperPlan(ctx, args.trim().split(/\s+/).slice(1));
+    }
+
+    if (args?.trim().startsWith('cohort')) {
+      return this.assignCohort(ctx, args.trim().split(/\s+/).slice(1));
+    }
+
     // Log admin access
     adminService.logAdminAction(ctx.userId, ctx.displayName, 'VIEW_DASHBOARD');
 
@@ -239,6 +312,32 @@ export class AdminCommand implements IConversationCommand {
         return this.performDataExport(ctx, format, level);
       }
 
+      case 'e2b': {
+        if (!adminService.isSuperAdmin(ctx.userId)) {
+          return {
+            success: false,
+            message: formatter.error('Экспорт данных доступен только супер-администраторам.'),
+          };
+        }
+        const days = parseInt(param, 10) || 0;
+        return this.performE2BExport(ctx, days);
+      }
+
+      case 'taper': {
+        const userId = parseInt(param, 10);
+        adminService.logAdminAction(ctx.userId, ctx.displayName, 'VIEW_TAPER_PLAN', userId);
+        return this.showTaperPlan(ctx, userId);
+      }
+
+      case 'taper_signoff':
+      case 'taper_hold':
+      case 'taper_resume':
+        return this.updateTaperPlan(ctx, action, parseInt(param, 10));
+
+      case 'adherence':
+        adminService.logAdminAction(ctx.userId, ctx.displayName, 'VIEW_ADHERENCE');
+        return this.showAdherence();
+
       case 'refresh':
         return this.showDashboard(ctx);
 
@@ -273,6 +372,7 @@ ${formatter.divider()}
       [{ text: '📊 Дашборд метрик', callbackData: 'admin:dashboard' }],
       [{ text: '👥 Список участников', callbackData: 'admin:users' }],
       [{ text: '⚠️ Оповещения безопасности', callbackData: 'admin:safety' }],
+      [{ text: '📅 Соблюдение графика опросов', callbackData: 'admin:adherence' }],
     ];
 
     // Super admin only: audit log and data export
@@ -513,6 +613,8 @@ ${formatter.tip('Нажмите на ID для подробностей')}
           ? '\n⚠️ *ВНИМАНИЕ: Значительное ухудшение ISI*'
           : '';
 
+      const adherence = this.assessmentScheduler?.getAdherenceReport(user.externalId) ?? null;
+
       const message = `
 ${formatter.header('👤 Карточка участника')}
 
@@ -526,6 +628,8 @@ ${formatter.divider()}
 • Статус: ${this.getStatusLabel(user.status)}
 • Согласие: ${user.consentGiven ? '✅ Да' : '❌ Нет'}
 • Последняя активность: ${user.lastActivityAt ? formatter.formatDate(user.lastActivityAt) : '-'}
+• Протокол опросов: ${adherence?.protocolId ?? user.assessmentProtocol ?? 'по умолчанию'}
+• Соблюдение графика: ${adherence ? this.formatAdherenceRate(adherence) : 'не включён в график'}
 
 ${formatter.divider()}
 
@@ -545,6 +649,7 @@ ${formatter.divider()}
       `.trim();
 
       const keyboard: IInlineButton[][] = [
+        [{ text: '💊 Снижение дозы', callbackData: `admin:taper:${user.id}` }],
         [{ text: '◀️ К списку', callbackData: 'admin:users' }],
         [{ text: '🏠 Главное меню', callbackData: 'admin:main' }],
       ];
@@ -734,6 +839,11 @@ ${formatter.divider()}
 • Сессии терапии
 • Adverse Events (если есть)
 
+${formatter.divider()}
+
+*E2B(R3) XML*
+Отчёты о нежелательных явлениях в формате ICH E2B(R3) для Росздравнадзора и спонсора
+
 ${formatter.divider()}
 ${formatter.tip('Все экспорты логируются в журнал аудита (21 CFR Part 11)')}
     `.trim();
@@ -747,6 +857,11 @@ ${formatter.tip('Все экспорты логируются в журнал а
         { text: '📄 JSON (де-идент.)', callbackData: 'admin:export_run:json_de_identified' },
         { text: '📄 JSON (анон.)', callbackData: 'admin:export_run:json_anonymized' },
       ],
+      [
+        { text: '🧾 E2B (30 дн.)', callbackData: 'admin:e2b:30' },
+        { text: '🧾 E2B (90 дн.)', callbackData: 'admin:e2b:90' },
+        { text: '🧾 E2B (все)', callbackData: 'admin:e2b:all' },
+      ],
       [{ text: '◀️ Назад', callbackData: 'admin:main' }],
     ];
 
@@ -860,8 +975,386 @@ ${formatter.tip('Данные готовы для передачи исслед
     }
   }
 
+  /**
+   * Export adverse event reports as an ICH E2B(R3) XML batch
+   * @param days - Reporting period in days (0 = all reports)
+   */
+  private async performE2BExport(ctx: ISleepCoreContext, days: number): Promise<ICommandResult> {
+    const adminService = this.getAdminService(ctx);
+    const e2bService = createE2BExportService(adminService.getAEService());
+
+    try {
+      const to = new Date();
+      const from = days > 0 ? new Date(to.getTime() - days * 24 * 60 * 60 * 1000) : new Date(0);
+      const result = await e2bService.exportDateRange(from, to);
+
+      adminService.logAdminAction(ctx.userId, ctx.displayName, 'EXPORT_ADVERSE_EVENTS');
+
+      const keyboard: IInlineButton[][] = [
+        [{ text: '📤 Новый экспорт', callbackData: 'admin:export' }],
+        [{ text: '◀️ Назад', callbackData: 'admin:main' }],
+      ];
+
+      if (result.reportIds.length === 0 && result.skipped.length === 0) {
+        return {
+          success: true,
+          message: formatter.info('Нет отчётов о нежелательных явлениях за выбранный период.'),
+          keyboard,
+        };
+      }
+
+      const skippedLines = result.skipped
+        .map((s) => `• AE-${s.id ?? '?'}: ${s.reason}`)
+        .join('\n');
+
+      const message = `
+${formatter.header('🧾 Экспорт E2B(R3)')}
+
+*Параметры*
+• Период: ${days > 0 ? `${days} дн.` : 'все отчёты'}
+• Отчётов в пакете: ${result.reportIds.length}
+• Пропущено: ${result.skipped.length}
+${skippedLines}
+
+${formatter.divider()}
+
+*Аудит*
+• Batch ID: ${result.batchId}
+• Администратор: ${ctx.displayName}
+
+${formatter.tip('Перед отправкой проверьте кодировку MedDRA для реакций без кода')}
+      `.trim();
+
+      return {
+        success: true,
+        message,
+        keyboard,
+        document: result.reportIds.length > 0
+          ? { fileName: result.fileName, content: result.xml, caption: `E2B(R3): ${result.reportIds.length}` }
+          : undefined,
+      };
+    } catch (error) {
+      console.error('[Admin] E2B export error:', error);
+      return {
+        success: false,
+        message: formatter.error('Ошибка экспорта E2B. Проверьте логи.'),
+        keyboard: [[{ text: '◀️ Назад', callbackData: 'admin:export' }]],
+      };
+    }
+  }
+
+  // ==================== Medication Tapering ====================
+
+  /**
+   * Show a participant's taper plan with the clinician actions it allows
+   * @param targetUserId - Database user ID
+   */
+  private async showTaperPlan(ctx: ISleepCoreContext, targetUserId: number): Promise<ICommandResult> {
+    const adminService = this.getAdminService(ctx);
+    const taperService = this.getTaperService(ctx);
+    const back: IInlineButton[] = [{ text: '◀️ К участнику', callbackData: `admin:user:${targetUserId}` }];
+
+    try {
+      const detail = await adminService.getUserDetail(targetUserId);
+      if (!detail) {
+        return {
+          success: false,
+          message: formatter.error('Участник не найден.'),
+          keyboard: [[{ text: '◀️ Назад', callbackData: 'admin:users' }]],
+        };
+      }
+
+      const plan = await taperService.getOpenPlan(detail.user.externalId);
+      if (!plan) {
+        const message = `
+${formatter.header('💊 Снижение дозы')}
+
+*${detail.user.displayName}* (ID: ${targetUserId})
+
+${formatter.info('Нет активного плана снижения дозы.')}
+
+Создать план (шаг 0 подписывает назначивший врач):
+\`${TAPER_USAGE.replace('<ID участника>', String(targetUserId))}\`
+        `.trim();
+
+        return { success: true, message, keyboard: [back] };
+      }
+
+      const status = taperService.getStatus(plan);
+      const use = await taperService.getNightlyUse(plan.id);
+      const unit = this.formatDoseUnit(plan.medication.unit);
+      const current = plan.steps[plan.currentStep];
+
+      const message = `
+${formatter.header('💊 Снижение дозы')}
+
+*${detail.user.displayName}* (ID: ${targetUserId})
+
+*План #${plan.id}* ${TAPER_STATUS_LABELS[plan.status]}${plan.holdReason === 'adverse_event' ? ' (нежелательное явление)' : ''}
+• Препарат: ${plan.medication.name} (${TAPER_CLASS_LABELS[plan.medicationClass]})
+• Текущая доза: ${status.currentDose} ${unit}, шаг ${plan.currentStep} из ${plan.steps.length - 1}, ${status.daysOnStep} дн.
+• Следующая доза: ${status.nextDose !== null ? `${status.nextDose} ${unit}` : '-'}
+• Схема: -${plan.reductionPercent}% каждые ${plan.stepIntervalDays} дн.
+${status.awaitingSignOff ? '\n⏳ *Следующий шаг ждёт подписи врача*\n' : ''}
+${formatter.divider()}
+
+*Дневник на текущем шаге*
+• Ночей с ответом о препаратах: ${use?.nightsReported ?? 0}
+• Выше назначенной дозы: ${use?.nightsAbovePrescribed ?? 0}
+• Без препарата: ${use?.nightsWithout ?? 0}
+• Нежелательные явления: ${current.adverseEventIds.length > 0 ? current.adverseEventIds.map((id) => `AE-${id}`).join(', ') : 'нет'}
+      `.trim();
+
+      const keyboard: IInlineButton[][] = [];
+      if (status.awaitingSignOff && status.nextDose !== null) {
+        keyboard.push([{
+          text: `✅ Подписать шаг: ${status.nextDose} ${unit}`,
+          callbackData: `admin:taper_signoff:${targetUserId}`,
+        }]);
+      }
+      if (plan.status === 'active') {
+        keyboard.push([{ text: '⏸ Приостановить', callbackData: `admin:taper_hold:${targetUserId}` }]);
+      } else if (plan.status === 'on_hold') {
+        keyboard.push([{ text: '▶️ Возобновить', callbackData: `admin:taper_resume:${targetUserId}` }]);
+      }
+      keyboard.push(back);
+
+      return { success: true, message, keyboard };
+    } catch (error) {
+      console.error('[Admin] Taper plan error:', error);
+      return {
+        success: false,
+        message: formatter.error('Ошибка загрузки плана снижения дозы.'),
+        keyboard: [back],
+      };
+    }
+  }
+
+  /**
+   * Clinician action on a participant's open plan; the admin is recorded as the clinician
+   */
+  private async updateTaperPlan(
+    ctx: ISleepCoreContext,
+    action: 'taper_signoff' | 'taper_hold' | 'taper_resume',
+    targetUserId: number
+  ): Promise<ICommandResult> {
+    const adminService = this.getAdminService(ctx);
+    const taperService = this.getTaperService(ctx);
+
+    try {
+      const detail = await adminService.getUserDetail(targetUserId);
+      const plan = detail ? await taperService.getOpenPlan(detail.user.externalId) : null;
+      if (!plan) {
+        return this.showTaperPlan(ctx, targetUserId);
+      }
+
+      const updated = action === 'taper_signoff'
+        ? await taperService.signOffNextStep(plan.id, ctx.userId)
+        : action === 'taper_hold'
+          ? await taperService.holdPlan(plan.id, 'clinician', ctx.userId)
+          : await taperService.resumePlan(plan.id, ctx.userId);
+
+      if (!updated) {
+        return {
+          success: false,
+          message: formatter.error('Действие недоступно для текущего состояния плана.'),
+          keyboard: [[{ text: '◀️ К плану', callbackData: `admin:taper:${targetUserId}` }]],
+        };
+      }
+
+      const auditAction = action === 'taper_signoff'
+        ? 'SIGN_OFF_TAPER_STEP'
+        : action === 'taper_hold' ? 'HOLD_TAPER_PLAN' : 'RESUME_TAPER_PLAN';
+      adminService.logAdminAction(ctx.userId, ctx.displayName, auditAction, targetUserId, `plan #${plan.id}`);
+    } catch (error) {
+      console.error('[Admin] Taper plan update error:', error);
+      return {
+        success: false,
+        message: formatter.error('Ошибка изменения плана снижения дозы.'),
+        keyboard: [[{ text: '◀️ К плану', callbackData: `admin:taper:${targetUserId}` }]],
+      };
+    }
+
+    return this.showTaperPlan(ctx, targetUserId);
+  }
+
+  /**
+   * Create a plan from "/admin taper" arguments; the admin signs off step 0 as prescriber
+   */
+  private async createTaperPlan(ctx: ISleepCoreContext, args: string[]): Promise<ICommandResult> {
+    const adminService = this.getAdminService(ctx);
+    const [userArg, doseArg, unit, medicationClass, ...nameParts] = args;
+    const targetUserId = parseInt(userArg, 10);
+    const dose = parseFloat((doseArg ?? '').replace(',', '.'));
+    const name = nameParts.join(' ');
+
+    if (
+      !(targetUserId > 0) ||
+      !(dose > 0) ||
+      (unit !== 'mg' && unit !== 'tablet') ||
+      !(medicationClass in TAPER_CLASS_LABELS) ||
+      !name
+    ) {
+      return {
+        success: false,
+        message: formatter.error(`Формат: \`${TAPER_USAGE}\``),
+      };
+    }
+
+    try {
+      const detail = await adminService.getUserDetail(targetUserId);
+      if (!detail) {
+        return { success: false, message: formatter.error('Участник не найден.') };
+      }
+
+      const taperService = this.getTaperService(ctx);
+      if (await taperService.getOpenPlan(detail.user.externalId)) {
+        return {
+          success: false,
+          message: formatter.error('У участника уже есть открытый план снижения дозы.'),
+          keyboard: [[{ text: '💊 Открыть план', callbackData: `admin:taper:${targetUserId}` }]],
+        };
+      }
+
+      const medication: ISleepMedicationDose = {
+        name,
+        type: medicationClass === 'other' ? 'other' : 'hypnotic',
+        dose,
+        unit,
+      };
+      const plan = await taperService.createPlan({
+        userId: detail.user.externalId,
+        medication,
+        medicationClass: medicationClass as TaperMedicationClass,
+        prescribedBy: ctx.userId,
+      });
+      adminService.logAdminAction(ctx.userId, ctx.displayName, 'CREATE_TAPER_PLAN', targetUserId, `plan #${plan.id}`);
+    } catch (error) {
+      console.error('[Admin] Taper plan creation error:', error);
+      return { success: false, message: formatter.error('Ошибка создания плана снижения дозы.') };
+    }
+
+    return this.showTaperPlan(ctx, targetUserId);
+  }
+
+  // ==================== Assessment Adherence ====================
+
+  /**
+   * Adherence to the assessment protocols across enrolled participants
+   */
+  private showAdherence(): ICommandResult {
+    const back: IInlineButton[] = [{ text: '🏠 Главное меню', callbackData: 'admin:main' }];
+
+    if (!this.assessmentScheduler) {
+      return {
+        success: false,
+        message: formatter.error('Планировщик опросов не подключён.'),
+        keyboard: [back],
+      };
+    }
+
+    const reports = this.assessmentScheduler.getAdherenceReports();
+    if (reports.length === 0) {
+      return {
+        success: true,
+        message: `${formatter.header('📅 Соблюдение графика')}\n\n${formatter.info('Пока никто не включён в график опросов.')}`,
+        keyboard: [back],
+      };
+    }
+
+    const byProtocol = new Map<string, IAdherenceReport[]>();
+    for (const report of reports) {
+      byProtocol.set(report.protocolId, [...(byProtocol.get(report.protocolId) ?? []), report]);
+    }
+
+    const protocolLines = [...byProtocol].map(([protocolId, group]) => {
+      const answered = group.reduce((sum, r) => sum + r.completed + r.late, 0);
+      const missed = group.reduce((sum, r) => sum + r.missed, 0);
+      const rate = answered + missed > 0 ? `${Math.round((answered / (answered + missed)) * 100)}%` : '-';
+      return `• *${protocolId}*: ${group.length} уч., соблюдение ${rate}, пропущено ${missed}`;
+    });
+
+    const lowest = reports
+      .filter((r) => r.missed > 0 || r.due > 0)
+      .sort((a, b) => (a.adherenceRate ?? 1) - (b.adherenceRate ?? 1) || b.missed - a.missed)
+      .slice(0, ADHERENCE_LIST_SIZE)
+      .map((r) => `• ${r.userId.slice(0, 8)}... (${r.protocolId}): ${this.formatAdherenceRate(r)}, ждёт ответа: ${r.due}`);
+
+    const message = `
+${formatter.header('📅 Соблюдение графика')}
+
+*По протоколам*
+${protocolLines.join('\n')}
+
+${formatter.divider()}
+
+*Требуют внимания*
+${lowest.length > 0 ? lowest.join('\n') : '  Нет пропусков'}
+
+Сменить протокол участника:
+\`${COHORT_USAGE}\`
+    `.trim();
+
+    return {
+      success: true,
+      message,
+      keyboard: [[{ text: '🔄 Обновить', callbackData: 'admin:adherence' }], back],
+    };
+  }
+
+  /**
+   * Assign a participant to an assessment protocol (study cohort).
+   * Stored on the user record for enrollment; an enrolled participant
+   * is moved to the new protocol immediately.
+   */
+  private async assignCohort(ctx: ISleepCoreContext, args: string[]): Promise<ICommandResult> {
+    const adminService = this.getAdminService(ctx);
+    const [userArg, protocolId] = args;
+    const targetUserId = parseInt(userArg, 10);
+
+    if (!(targetUserId > 0) || !protocolId) {
+      return { success: false, message: formatter.error(`Формат: \`${COHORT_USAGE}\``) };
+    }
+
+    if (this.assessmentScheduler && !this.assessmentScheduler.getProtocol(protocolId)) {
+      return { success: false, message: formatter.error(`Неизвестный протокол: ${protocolId}`) };
+    }
+
+    try {
+      const detail = await adminService.getUserDetail(targetUserId);
+      if (!detail || !(await adminService.setAssessmentProtocol(targetUserId, protocolId))) {
+        return { success: false, message: formatter.error('Участник не найден.') };
+      }
+
+      const moved = await this.assessmentScheduler?.changeProtocol(detail.user.externalId, protocolId);
+      adminService.logAdminAction(ctx.userId, ctx.displayName, 'ASSIGN_COHORT', targetUserId, protocolId);
+
+      return {
+        success: true,
+        message: formatter.success(
+          moved
+            ? `Участник ${targetUserId} переведён на протокол ${protocolId}.`
+            : `Участник ${targetUserId} будет включён в протокол ${protocolId} после первого ISI.`
+        ),
+        keyboard: [[{ text: '👤 К участнику', callbackData: `admin:user:${targetUserId}` }]],
+      };
+    } catch (error) {
+      console.error('[Admin] Cohort assignment error:', error);
+      return { success: false, message: formatter.error('Ошибка назначения протокола.') };
+    }
+  }
+
   // ==================== Helpers ====================
 
+  private formatAdherenceRate(report: IAdherenceReport): string {
+    const rate = report.adherenceRate !== null ? `${Math.round(report.adherenceRate * 100)}%` : '-';
+    return `${rate} (ответов ${report.completed + report.late}, пропущено ${report.missed})`;
+  }
+
+  private formatDoseUnit(unit: ISleepMedicationDose['unit']): string {
+    return unit === 'mg' ? 'мг' : 'табл.';
+  }
+
   private getStatusIcon(status: IUserSummary['status']): string {
     const icons: Record<IUserSummary['status'], string> = {
       active: '🟢',
@@ -0,0 +1,303 @@
+/**
+ * /assess Command - Validated Questionnaires
+ * ===========================================
+ * Delivers any instrument registered in the QuestionnaireEngine
+ * (PSQI, ESS, DBAS-16, PHQ-9, GAD-7) one item per message.
+ *
+ * Flow:
+ * - Menu → instructions → items with option buttons → scored result
+ * - Answers travel in callback data (one base36 option index per item),
+ *   so an interrupted questionnaire never leaves stale session state
+ * - The completed result is returned in metadata; main.ts persists it
+ *   through recordQuestionnaireAssessment
+ *
+ * Safety:
+ * - PHQ-9 item 9 > 0 shows crisis resources with a link to /sos
+ * - main.ts escalates the alert through CrisisEscalationService, like a
+ *   crisis detected in free text
+ *
+ * @packageDocumentation
+ * @module @sleepcore/bot/commands
+ */
+
+import type {
+  IConversationCommand,
+  ISleepCoreContext,
+  ICommandResult,
+  IInlineButton,
+} from './interfaces/ICommand';
+import { formatter } from './utils/MessageFormatter';
+import { sonya } from '../persona';
+import { questionnaireEngine } from '../../assessment';
+import type {
+  IQuestionnaireDefinition,
+  IQuestionnaireItem,
+  QuestionnaireId,
+} from '../../assessment';
+
+/**
+ * Options with labels up to this length are laid out in a grid
+ */
+const COMPACT_LABEL_LENGTH = 3;
+
+/**
+ * Buttons per row for compact (numeric) options
+ */
+const COMPACT_ROW_SIZE = 6;
+
+/**
+ * /assess Command Implementation
+ */
+export class AssessCommand implements IConversationCommand {
+  readonly name = 'assess';
+  readonly description = 'Опросники о сне и самочувствии';
+  readonly aliases = ['тесты', 'опросники', 'questionnaires'];
+  readonly requiresSession = false;
+  readonly steps = ['menu', 'intro', 'item', 'result'];
+
+  /**
+   * Execute the command
+   * @param args - Optional questionnaire ID to start directly
+   */
+  async execute(_ctx: ISleepCoreContext, args?: string): Promise<ICommandResult> {
+    const id = args?.trim().toLowerCase();
+    if (id && questionnaireEngine.has(id)) {
+      return this.showIntro(id);
+    }
+    return this.showMenu();
+  }
+
+  /**
+   * Handle step in conversation
+   */
+  async handleStep(
+    ctx: ISleepCoreContext,
+    _step: string,
+    _data: Record<string, unknown>
+  ): Promise<ICommandResult> {
+    return this.execute(ctx);
+  }
+
+  /**
+   * Handle callback query
+   * - assess:menu
+   * - assess:start:<id>
+   * - assess:a:<id>:<startedAt>:<answers>
+   */
+  async handleCallback(
+    _ctx: ISleepCoreContext,
+    callbackData: string,
+    _conversationData: Record<string, unknown>
+  ): Promise<ICommandResult> {
+    const [, action, id, startedAt, answers = ''] = callbackData.split(':');
+
+    if (action === 'menu') {
+      return this.showMenu();
+    }
+
+    if (!id || !questionnaireEngine.has(id)) {
+      return { success: false, error: `Unknown questionnaire: ${id}` };
+    }
+
+    switch (action) {
+      case 'start':
+        return this.showIntro(id);
+
+      case 'a':
+        return this.handleAnswers(id, startedAt, answers);
+
+      default:
+        return { success: false, error: `Unknown action: ${action}` };
+    }
+  }
+
+  // ==================== Response Handlers ====================
+
+  private showMenu(): ICommandResult {
+    const instruments = questionnaireEngine.list();
+
+    const list = instruments
+      .map((q) => `${q.icon} *${q.shortName}* — ${q.nameRu.replace(/\s*\(.*\)$/, '')}`)
+      .join('\n');
+
+    const message = `
+${sonya.emoji} *${sonya.name}*
+
+Опросники помогают точнее оценить сон и самочувствие и увидеть изменения за время программы.
+
+${formatter.header('Опросники')}
+
+${list}
+
+${formatter.tip('Отвечайте про последние недели, а не только про прошлую ночь')}
+    `.trim();
+
+    const keyboard: IInlineButton[][] = instruments.map((q) => [
+      { text: `${q.icon} ${q.shortName} (${q.items.length} вопр.)`, callbackData: `assess:start:${q.id}` },
+    ]);
+
+    return {
+      success: true,
+      message,
+      keyboard,
+      metadata: { step: 'menu' },
+    };
+  }
+
+  private showIntro(id: QuestionnaireId): ICommandResult {
+    const definition = questionnaireEngine.getDefinition(id);
+    const startedAt = Date.now().toString(36);
+
+    const message = `
+${definition.icon} *${definition.nameRu}*
+
+${definition.instructionsRu}
+
+Вопросов: ${definition.items.length}
+    `.trim();
+
+    return {
+      success: true,
+      message,
+      keyboard: [
+        [{ text: '▶️ Начать', callbackData: `assess:a:${id}:${startedAt}:` }],
+        [{ text: '⬅️ Все опросники', callbackData: 'assess:menu' }],
+      ],
+      metadata: { step: 'intro', instrument: id },
+    };
+  }
+
+  private handleAnswers(id: QuestionnaireId, startedAt: string, answers: string): ICommandResult {
+    const definition = questionnaireEngine.getDefinition(id);
+
+    if (answers.length > definition.items.length) {
+      return { success: false, error: 'Too many answers' };
+    }
+
+    if (answers.length < definition.items.length) {
+      return this.showItem(definition, startedAt, answers);
+    }
+
+    return this.showResult(definition, startedAt, answers);
+  }
+
+  private showItem(
+    definition: IQuestionnaireDefinition,
+    startedAt: string,
+    answers: string
+  ): ICommandResult {
+    const index = answers.length;
+    const item = definition.items[index];
+    const prefix = `assess:a:${definition.id}:${startedAt}:${answers}`;
+
+    const message = `
+${definition.icon} *${definition.shortName}* · вопрос ${index + 1} из ${definition.items.length}
+
+${item.textRu}
+    `.trim();
+
+    const keyboard = this.buildOptionKeyboard(item, prefix);
+
+    const navigation: IInlineButton[] = [];
+    if (index > 0) {
+      navigation.push({
+        text: '⬅️ Назад',
+        callbackData: `assess:a:${definition.id}:${startedAt}:${answers.slice(0, -1)}`,
+      });
+    }
+    navigation.push({ text: '✖️ Прервать', callbackData: 'assess:menu' });
+    keyboard.push(navigation);
+
+    return {
+      success: true,
+      message,
+      keyboard,
+      metadata: { step: 'item', instrument: definition.id, itemIndex: index },
+    };
+  }
+
+  private showResult(
+    definition: IQuestionnaireDefinition,
+    startedAt: string,
+    answers: string
+  ): ICommandResult {
+    const responses: Record<string, number> = {};
+    for (const [index, item] of definition.items.entries()) {
+      const option = item.options[parseInt(answers[index], 36)];
+      if (!option) {
+        return { success: false, error: `Invalid answer for ${item.id}` };
+      }
+      responses[item.id] = option.value;
+    }
+
+    const result = questionnaireEngine.score(definition.id, responses);
+
+    const subscaleLines = definition.subscales
+      .filter((subscale) => result.subscales[subscale.id] !== undefined)
+      .map((subscale) => `• ${subscale.nameRu}: *${result.subscales[subscale.id]}*/${subscale.max}`);
+
+    const sections = [
+      `${definition.icon} *${definition.shortName}: результат*`,
+      formatter.divider(),
+      `Балл: *${result.totalScore}* из ${result.maxScore}`,
+      `${result.isClinical ? '🟠' : '🟢'} *${result.severityLabel}*`,
+      result.interpretation,
+    ];
+
+    if (subscaleLines.length > 0) {
+      sections.push(`${formatter.header('Шкалы')}\n\n${subscaleLines.join('\n')}`);
+    }
+
+    for (const alert of result.alerts) {
+      sections.push(`⚠️ *Важно*\n${alert.messageRu}`);
+    }
+
+    sections.push(formatter.tip('Результат сохранён. Повторите опросник позже, чтобы увидеть динамику.'));
+
+    const keyboard: IInlineButton[][] = [];
+    if (result.alerts.length > 0) {
+      keyboard.push([{ text: '🆘 Экстренная помощь', callbackData: 'menu:sos' }]);
+    }
+    keyboard.push([{ text: '📋 Другие опросники', callbackData: 'assess:menu' }]);
+
+    const startedAtMs = parseInt(startedAt, 36);
+
+    return {
+      success: true,
+      message: sections.join('\n\n'),
+      keyboard,
+      metadata: {
+        step: 'result',
+        completed: true,
+        instrument: definition.id,
+        result,
+        responses,
+        startedAt: Number.isFinite(startedAtMs) ? new Date(startedAtMs).toISOString() : null,
+        completedAt: new Date().toISOString(),
+      },
+    };
+  }
+
+  // ==================== Helper Methods ====================
+
+  private buildOptionKeyboard(item: IQuestionnaireItem, prefix: string): IInlineButton[][] {
+    const buttons: IInlineButton[] = item.options.map((option, index) => ({
+      text: option.labelRu,
+      callbackData: `${prefix}${index.toString(36)}`,
+    }));
+
+    const compact = item.options.every((option) => option.labelRu.length <= COMPACT_LABEL_LENGTH);
+    if (!compact) {
+      return buttons.map((button) => [button]);
+    }
+
+    const rows: IInlineButton[][] = [];
+    for (let i = 0; i < buttons.length; i += COMPACT_ROW_SIZE) {
+      rows.push(buttons.slice(i, i + COMPACT_ROW_SIZE));
+    }
+    return rows;
+  }
+}
+
+// Export singleton
+export const assessCommand = new AssessCommand();
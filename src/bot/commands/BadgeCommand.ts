@@ -21,7 +21,11 @@ import type {
 } from './interfaces/ICommand';
 import { formatter } from './utils/MessageFormatter';
 import { sonya } from '../persona';
-import { getGamificationEngine } from '../services/GamificationContext';
+import {
+  getGamificationEngine,
+  getGamificationUserId,
+  requireGamificationProfile,
+} from '../services/GamificationContext';
 import type { IBadge, BadgeCategory, BadgeRarity } from '../../modules/quests';
 
 /**
@@ -39,6 +43,9 @@ export class BadgeCommand implements IConversationCommand {
    * Execute the command - show badge collection
    */
   async execute(ctx: ISleepCoreContext, args?: string): Promise<ICommandResult> {
+    const missingProfile = requireGamificationProfile(ctx);
+    if (missingProfile) return missingProfile;
+
     if (args) {
       // Handle subcommands
       const [subcommand] = args.split(' ');
@@ -64,6 +71,9 @@ export class BadgeCommand implements IConversationCommand {
     step: string,
     data: Record<string, unknown>
   ): Promise<ICommandResult> {
+    const missingProfile = requireGamificationProfile(ctx);
+    if (missingProfile) return missingProfile;
+
     switch (step) {
       case 'list':
         return this.showBadgeCollection(ctx);
@@ -84,6 +94,9 @@ export class BadgeCommand implements IConversationCommand {
     callbackData: string,
     _conversationData: Record<string, unknown>
   ): Promise<ICommandResult> {
+    const missingProfile = requireGamificationProfile(ctx);
+    if (missingProfile) return missingProfile;
+
     const [, action, param] = callbackData.split(':');
 
     switch (action) {
@@ -111,7 +124,7 @@ export class BadgeCommand implements IConversationCommand {
    */
   private async showBadgeCollection(ctx: ISleepCoreContext): Promise<ICommandResult> {
     const engine = await getGamificationEngine();
-    const userId = parseInt(ctx.userId, 10);
+    const userId = getGamificationUserId(ctx);
 
     const userBadges = await engine.getUserBadges(userId);
     const allBadges = engine.getAllBadges();
@@ -213,7 +226,7 @@ ${formatter.tip('Выбери категорию для подробностей
    */
   private async showNewBadges(ctx: ISleepCoreContext): Promise<ICommandResult> {
     const engine = await getGamificationEngine();
-    const userId = parseInt(ctx.userId, 10);
+    const userId = getGamificationUserId(ctx);
 
     const userBadges = await engine.getUserBadges(userId);
     const allBadges = engine.getAllBadges();
@@ -264,7 +277,7 @@ ${badgesText}
    */
   private async showCategory(ctx: ISleepCoreContext, category: BadgeCategory): Promise<ICommandResult> {
     const engine = await getGamificationEngine();
-    const userId = parseInt(ctx.userId, 10);
+    const userId = getGamificationUserId(ctx);
 
     const allBadges = engine.getAllBadges();
     const allInCategory = allBadges.filter((b) => b.category === category && !b.hidden);
@@ -326,7 +339,7 @@ ${formatter.tip('Нажми на бейдж для подробностей')}
    */
   private async showAllBadges(ctx: ISleepCoreContext): Promise<ICommandResult> {
     const engine = await getGamificationEngine();
-    const userId = parseInt(ctx.userId, 10);
+    const userId = getGamificationUserId(ctx);
 
     const allBadges = engine.getAllBadges().filter((b) => !b.hidden);
     const userBadges = await engine.getUserBadges(userId);
@@ -405,7 +418,7 @@ ${badgesText}
    */
   private async showProgress(ctx: ISleepCoreContext): Promise<ICommandResult> {
     const engine = await getGamificationEngine();
-    const userId = parseInt(ctx.userId, 10);
+    const userId = getGamificationUserId(ctx);
 
     const profile = await engine.getPlayerProfile(userId);
     const allBadges = engine.getAllBadges();
@@ -503,7 +516,7 @@ ${formatter.tip('Продолжай — ты близко к цели!')}
    */
   private async showBadgeDetails(ctx: ISleepCoreContext, badgeId: string): Promise<ICommandResult> {
     const engine = await getGamificationEngine();
-    const userId = parseInt(ctx.userId, 10);
+    const userId = getGamificationUserId(ctx);
 
     const allBadges = engine.getAllBadges();
     const badge = allBadges.find((b) => b.id === badgeId);
@@ -14,9 +14,9 @@
  * @module @sleepcore/bot/commands
  */
 
-import { Bot, Context } from 'grammy';
+import { Bot, Context, InputFile } from 'grammy';
 import type { InlineKeyboardButton } from 'grammy/types';
-import type { ICommand, ICommandRegistry, ISleepCoreContext, IUserSession, IConversationCommand, IInlineButton } from './interfaces/ICommand';
+import type { ICommand, ICommandRegistry, ISleepCoreContext, IUserSession, IConversationCommand, IInlineButton, ICommandDocument } from './interfaces/ICommand';
 import { SleepCoreAPI } from '../../SleepCoreAPI';
 import { CrisisDetectionService, createCrisisDetectionService, ICrisisResponse } from '../services/CrisisDetectionService';
 import { CrisisEscalationService, createCrisisEscalationService } from '../services/CrisisEscalationService';
@@ -342,6 +342,10 @@ export class CommandHandler implements ICommandRegistry {
         await this.editOrSendMessage(ctx, result);
       }
 
+      if (result.document) {
+        await this.sendDocument(ctx, result.document);
+      }
+
       // Update session
       if (result.metadata) {
         this.updateSessionData(sleepCoreCtx.userId, result.metadata);
@@ -425,13 +429,29 @@ export class CommandHandler implements ICommandRegistry {
    */
   private async sendCommandResult(
     ctx: Context,
-    result: { success: boolean; message?: string; keyboard?: IInlineButton[][]; error?: string }
+    result: { success: boolean; message?: string; keyboard?: IInlineButton[][]; document?: ICommandDocument; error?: string }
   ): Promise<void> {
     if (!result.success && result.error) {
       await ctx.reply(`❌ ${result.error}`);
       return;
     }
 
+    if (result.message) {
+      await this.replyWithResult(ctx, result);
+    }
+
+    if (result.document) {
+      await this.sendDocument(ctx, result.document);
+    }
+  }
+
+  /**
+   * Send result message with inline keyboard
+   */
+  private async replyWithResult(
+    ctx: Context,
+    result: { message?: string; keyboard?: IInlineButton[][] }
+  ): Promise<void> {
     if (!result.message) return;
 
     // Build reply options - using type assertion for Grammy compatibility
@@ -451,6 +471,16 @@ export class CommandHandler implements ICommandRegistry {
     await ctx.reply(result.message, options);
   }
 
+  /**
+   * Send file attached to command result
+   */
+  private async sendDocument(ctx: Context, document: ICommandDocument): Promise<void> {
+    await ctx.replyWithDocument(
+      new InputFile(Buffer.from(document.content, 'utf-8'), document.fileName),
+      document.caption ? { caption: document.caption } : undefined
+    );
+  }
+
   /**
    * Map IInlineButton to Grammy InlineKeyboardButton
    */
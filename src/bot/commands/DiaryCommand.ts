@@ -13,6 +13,16 @@
  * 2. Wake time (quick time picker)
  * 3. Sleep quality (1-5 rating)
  *
+ * Optional details after saving (Consensus Sleep Diary, Carney 2012):
+ * caffeine, alcohol, naps, sleep medication with dose, exercise and
+ * early morning awakening. Users on a taper plan can record tonight's
+ * prescribed dose with one tap (MedicationTaperingService); every saved
+ * entry runs the plan's withdrawal check.
+ *
+ * Free text and voice transcripts that describe a night ("лёг в полночь,
+ * уснул через час...") are offered as an entry via fromText(); the user
+ * confirms it by rating sleep quality (SleepDiaryTextParser).
+ *
  * @packageDocumentation
  * @module @sleepcore/bot/commands
  */
@@ -23,9 +33,17 @@ import type {
   ICommandResult,
   IInlineButton,
 } from './interfaces/ICommand';
-import type { ISleepDiaryEntry } from '../../sleep/interfaces/ISleepState';
+import type {
+  ExerciseTiming,
+  ISleepDiaryEntry,
+  ISleepMedicationDose,
+  SleepMedicationType,
+} from '../../sleep/interfaces/ISleepState';
 import { formatter } from './utils/MessageFormatter';
 import { sonya } from '../persona';
+import { MedicationTaperingService } from '../services/MedicationTaperingService';
+import { getZonedTime, resolveTimezone } from '../services/ZonedTime';
+import { SleepDiaryTextParser } from '../../diary/SleepDiaryTextParser';
 
 /**
  * Diary entry steps
@@ -37,6 +55,14 @@ type DiaryStep =
   | 'waketime_hour'
   | 'waketime_minute'
   | 'sleep_quality'
+  | 'caffeine'
+  | 'caffeine_time'
+  | 'alcohol'
+  | 'naps'
+  | 'medication'
+  | 'medication_dose'
+  | 'exercise'
+  | 'early_awakening'
   | 'summary';
 
 /**
@@ -49,9 +75,50 @@ interface DiaryData {
   waketimeHour?: number;
   waketimeMinute?: number;
   sleepQuality?: number;
+  caffeineDrinks?: number;
+  lastCaffeineHour?: number;
+  alcoholDrinks?: number;
+  napMinutes?: number;
+  medicationType?: SleepMedicationType | 'none';
+  medicationDose?: number;
+  /** Tonight's dose under the user's taper plan, offered on the medication step */
+  plannedMedication?: ISleepMedicationDose;
+  medicationFromPlan?: boolean;
+  /** The saved entry triggered a withdrawal report and put the taper plan on hold */
+  taperOnHold?: boolean;
+  exerciseTiming?: ExerciseTiming;
+  earlyAwakeningMinutes?: number;
+  /** Entry parsed from free text, awaiting confirmation */
+  textEntry?: Partial<ISleepDiaryEntry>;
   [key: string]: unknown; // Index signature for Record compatibility
 }
 
+/**
+ * Cleared detail answers: conversation data outlives a single entry
+ */
+const NO_DETAILS: Partial<DiaryData> = {
+  caffeineDrinks: undefined,
+  lastCaffeineHour: undefined,
+  alcoholDrinks: undefined,
+  napMinutes: undefined,
+  medicationType: undefined,
+  medicationDose: undefined,
+  plannedMedication: undefined,
+  medicationFromPlan: undefined,
+  exerciseTiming: undefined,
+  earlyAwakeningMinutes: undefined,
+};
+
+/**
+ * Sleep medication choices (tablets)
+ */
+const MEDICATIONS: Record<SleepMedicationType, { label: string; name: string }> = {
+  hypnotic: { label: '💊 Снотворное по рецепту', name: 'Снотворное по рецепту' },
+  melatonin: { label: '🌙 Мелатонин', name: 'Мелатонин' },
+  antihistamine: { label: '💤 Доксиламин (Донормил)', name: 'Доксиламин' },
+  other: { label: '❔ Другое', name: 'Другое средство' },
+};
+
 /**
  * /diary Command Implementation
  */
@@ -61,6 +128,9 @@ export class DiaryCommand implements IConversationCommand {
   readonly aliases = ['sleep', 'log', 'дневник'];
   readonly requiresSession = true;
 
+  private taperService: MedicationTaperingService | null = null;
+  private readonly textParser = new SleepDiaryTextParser();
+
   readonly steps: DiaryStep[] = [
     'intro',
     'bedtime_hour',
@@ -68,6 +138,14 @@ export class DiaryCommand implements IConversationCommand {
     'waketime_hour',
     'waketime_minute',
     'sleep_quality',
+    'caffeine',
+    'caffeine_time',
+    'alcohol',
+    'naps',
+    'medication',
+    'medication_dose',
+    'exercise',
+    'early_awakening',
     'summary',
   ];
 
@@ -75,8 +153,47 @@ export class DiaryCommand implements IConversationCommand {
    * Main execute method
    */
   async execute(ctx: ISleepCoreContext): Promise<ICommandResult> {
-    const today = new Date().toISOString().split('T')[0];
-    return this.handleStep(ctx, 'intro', { date: today });
+    return this.handleStep(ctx, 'intro', { date: this.getLocalDate(ctx), ...NO_DETAILS });
+  }
+
+  /**
+   * Offer a diary entry described in a message or voice transcript
+   * @returns Confirmation prompt, or null when the text is not a full night
+   */
+  async fromText(ctx: ISleepCoreContext, text: string): Promise<ICommandResult | null> {
+    const parsed = this.textParser.parse(text);
+    if (!parsed.isComplete) {
+      return null;
+    }
+
+    const date = this.getLocalDate(ctx);
+
+    const message = `
+${sonya.emoji} *${sonya.name}*
+
+Похоже, это рассказ о прошлой ночи. Записать в дневник сна?
+
+${formatter.header('Что получилось')}
+
+${this.formatTextEntry(parsed.entry).join('\n')}
+
+*Оцени качество сна — и запись сохранится:*
+    `.trim();
+
+    const keyboard: IInlineButton[][] = [
+      [1, 2, 3, 4, 5].map((rating) => ({
+        text: `${['😫', '😕', '😐', '🙂', '😊'][rating - 1]} ${rating}`,
+        callbackData: `diary:text_quality:${rating}`,
+      })),
+      [{ text: '❌ Не записывать', callbackData: 'diary:text_cancel' }],
+    ];
+
+    return {
+      success: true,
+      message,
+      keyboard,
+      metadata: { step: 'text_confirm', date, textEntry: parsed.entry },
+    };
   }
 
   /**
@@ -102,6 +219,22 @@ export class DiaryCommand implements IConversationCommand {
         return this.showWaketimeMinute(ctx, diaryData);
       case 'sleep_quality':
         return this.showSleepQuality(ctx, diaryData);
+      case 'caffeine':
+        return this.showCaffeine(ctx, diaryData);
+      case 'caffeine_time':
+        return this.showCaffeineTime(ctx, diaryData);
+      case 'alcohol':
+        return this.showAlcohol(ctx, diaryData);
+      case 'naps':
+        return this.showNaps(ctx, diaryData);
+      case 'medication':
+        return this.showMedication(ctx, diaryData);
+      case 'medication_dose':
+        return this.showMedicationDose(ctx, diaryData);
+      case 'exercise':
+        return this.showExercise(ctx, diaryData);
+      case 'early_awakening':
+        return this.showEarlyAwakening(ctx, diaryData);
       case 'summary':
         return this.showSummary(ctx, diaryData);
       default:
@@ -146,6 +279,47 @@ export class DiaryCommand implements IConversationCommand {
         return this.saveDiaryEntry(ctx, diaryData);
       case 'confirm':
         return this.handleStep(ctx, 'summary', diaryData);
+      case 'details':
+        return this.handleStep(ctx, 'caffeine', { ...diaryData, ...NO_DETAILS });
+      case 'caffeine':
+        diaryData.caffeineDrinks = parseInt(value);
+        return this.handleStep(ctx, diaryData.caffeineDrinks > 0 ? 'caffeine_time' : 'alcohol', diaryData);
+      case 'caffeine_time':
+        diaryData.lastCaffeineHour = parseInt(value);
+        return this.handleStep(ctx, 'alcohol', diaryData);
+      case 'alcohol':
+        diaryData.alcoholDrinks = parseInt(value);
+        return this.handleStep(ctx, 'naps', diaryData);
+      case 'naps':
+        diaryData.napMinutes = parseInt(value);
+        return this.handleStep(ctx, 'medication', diaryData);
+      case 'med':
+        if (value === 'plan' && diaryData.plannedMedication) {
+          diaryData.medicationType = diaryData.plannedMedication.type;
+          diaryData.medicationDose = diaryData.plannedMedication.dose;
+          diaryData.medicationFromPlan = true;
+          return this.handleStep(ctx, 'exercise', diaryData);
+        }
+        diaryData.medicationType = value as DiaryData['medicationType'];
+        diaryData.medicationFromPlan = false;
+        return this.handleStep(ctx, value === 'none' ? 'exercise' : 'medication_dose', diaryData);
+      case 'med_dose':
+        diaryData.medicationDose = parseFloat(value);
+        return this.handleStep(ctx, 'exercise', diaryData);
+      case 'exercise':
+        diaryData.exerciseTiming = value as ExerciseTiming;
+        return this.handleStep(ctx, 'early_awakening', diaryData);
+      case 'early':
+        diaryData.earlyAwakeningMinutes = parseInt(value);
+        return this.saveDiaryEntry(ctx, diaryData);
+      case 'text_quality':
+        return this.saveTextEntry(ctx, diaryData, parseInt(value));
+      case 'text_cancel':
+        return {
+          success: true,
+          message: `${sonya.emoji} Хорошо, не записываю. Дневник всегда можно заполнить через /diary`,
+          metadata: { step: 'text_cancelled' },
+        };
       default:
         return { success: false, error: `Unknown action: ${action}` };
     }
@@ -388,6 +562,220 @@ ${formatter.header('Шаг 3/3: Качество сна')}
     };
   }
 
+  // ==================== Details (Consensus Sleep Diary) ====================
+
+  private async showCaffeine(
+    ctx: ISleepCoreContext,
+    data: DiaryData
+  ): Promise<ICommandResult> {
+    const message = `
+${formatter.header('Подробности 1/6: Кофеин')}
+
+☕ Сколько напитков с кофеином было вчера?
+_Кофе, чай, кола, энергетики_
+    `.trim();
+
+    return {
+      success: true,
+      message,
+      keyboard: [this.countButtons('caffeine')],
+      metadata: { step: 'caffeine', ...data },
+    };
+  }
+
+  private async showCaffeineTime(
+    ctx: ISleepCoreContext,
+    data: DiaryData
+  ): Promise<ICommandResult> {
+    const message = `
+${formatter.header('Подробности 1/6: Кофеин')}
+
+☕ Во сколько был последний такой напиток?
+_Выбери ближайшее время:_
+    `.trim();
+
+    const keyboard: IInlineButton[][] = [
+      [10, 12, 14].map((hour) => ({ text: this.formatTime(hour, 0), callbackData: `diary:caffeine_time:${hour}` })),
+      [16, 18, 20].map((hour) => ({ text: this.formatTime(hour, 0), callbackData: `diary:caffeine_time:${hour}` })),
+    ];
+
+    return {
+      success: true,
+      message,
+      keyboard,
+      metadata: { step: 'caffeine_time', ...data },
+    };
+  }
+
+  private async showAlcohol(
+    ctx: ISleepCoreContext,
+    data: DiaryData
+  ): Promise<ICommandResult> {
+    const message = `
+${formatter.header('Подробности 2/6: Алкоголь')}
+
+🍷 Сколько порций алкоголя было вчера?
+_Порция — бокал вина, бутылка пива или 40 мл крепкого_
+    `.trim();
+
+    return {
+      success: true,
+      message,
+      keyboard: [this.countButtons('alcohol')],
+      metadata: { step: 'alcohol', ...data },
+    };
+  }
+
+  private async showNaps(
+    ctx: ISleepCoreContext,
+    data: DiaryData
+  ): Promise<ICommandResult> {
+    const message = `
+${formatter.header('Подробности 3/6: Дневной сон')}
+
+😴 Удавалось вздремнуть вчера днём?
+    `.trim();
+
+    const keyboard: IInlineButton[][] = [
+      [
+        { text: 'Нет', callbackData: 'diary:naps:0' },
+        { text: 'До 20 мин', callbackData: 'diary:naps:20' },
+      ],
+      [
+        { text: 'Около 45 мин', callbackData: 'diary:naps:45' },
+        { text: 'Больше часа', callbackData: 'diary:naps:90' },
+      ],
+    ];
+
+    return {
+      success: true,
+      message,
+      keyboard,
+      metadata: { step: 'naps', ...data },
+    };
+  }
+
+  private async showMedication(
+    ctx: ISleepCoreContext,
+    data: DiaryData
+  ): Promise<ICommandResult> {
+    const message = `
+${formatter.header('Подробности 4/6: Лекарства для сна')}
+
+💊 Принимали что-нибудь для сна этой ночью?
+    `.trim();
+
+    const plannedMedication = (await this.getPlannedMedication(ctx)) ?? undefined;
+
+    const keyboard: IInlineButton[][] = [
+      ...(plannedMedication
+        ? [[{
+            text: `📋 По плану снижения: ${this.formatMedication(plannedMedication)}`,
+            callbackData: 'diary:med:plan',
+          }]]
+        : []),
+      [{ text: 'Нет', callbackData: 'diary:med:none' }],
+      ...(Object.keys(MEDICATIONS) as SleepMedicationType[]).map((type) => [
+        { text: MEDICATIONS[type].label, callbackData: `diary:med:${type}` },
+      ]),
+    ];
+
+    return {
+      success: true,
+      message,
+      keyboard,
+      metadata: { step: 'medication', ...data, plannedMedication },
+    };
+  }
+
+  private async showMedicationDose(
+    ctx: ISleepCoreContext,
+    data: DiaryData
+  ): Promise<ICommandResult> {
+    const name = data.medicationType && data.medicationType !== 'none'
+      ? MEDICATIONS[data.medicationType].name
+      : '';
+
+    const message = `
+${formatter.header('Подробности 4/6: Лекарства для сна')}
+
+💊 ${name}: какая доза?
+    `.trim();
+
+    const keyboard: IInlineButton[][] = [
+      [
+        { text: '½ таблетки', callbackData: 'diary:med_dose:0.5' },
+        { text: '1 таблетка', callbackData: 'diary:med_dose:1' },
+        { text: '2 таблетки', callbackData: 'diary:med_dose:2' },
+      ],
+    ];
+
+    return {
+      success: true,
+      message,
+      keyboard,
+      metadata: { step: 'medication_dose', ...data },
+    };
+  }
+
+  private async showExercise(
+    ctx: ISleepCoreContext,
+    data: DiaryData
+  ): Promise<ICommandResult> {
+    const message = `
+${formatter.header('Подробности 5/6: Физическая активность')}
+
+🏃 Когда вчера была тренировка или активная прогулка?
+    `.trim();
+
+    const keyboard: IInlineButton[][] = [
+      [
+        { text: 'Не было', callbackData: 'diary:exercise:none' },
+        { text: '🌅 Утром', callbackData: 'diary:exercise:morning' },
+      ],
+      [
+        { text: '☀️ Днём', callbackData: 'diary:exercise:afternoon' },
+        { text: '🌆 Вечером', callbackData: 'diary:exercise:evening' },
+      ],
+    ];
+
+    return {
+      success: true,
+      message,
+      keyboard,
+      metadata: { step: 'exercise', ...data },
+    };
+  }
+
+  private async showEarlyAwakening(
+    ctx: ISleepCoreContext,
+    data: DiaryData
+  ): Promise<ICommandResult> {
+    const message = `
+${formatter.header('Подробности 6/6: Раннее пробуждение')}
+
+⏰ Сегодня утром получилось проснуться раньше, чем планировалось?
+    `.trim();
+
+    const keyboard: IInlineButton[][] = [
+      [
+        { text: 'Нет', callbackData: 'diary:early:0' },
+        { text: 'На ~30 мин', callbackData: 'diary:early:30' },
+      ],
+      [
+        { text: 'На ~1 час', callbackData: 'diary:early:60' },
+        { text: 'Больше чем на час', callbackData: 'diary:early:90' },
+      ],
+    ];
+
+    return {
+      success: true,
+      message,
+      keyboard,
+      metadata: { step: 'early_awakening', ...data },
+    };
+  }
+
   private async saveDiaryEntry(
     ctx: ISleepCoreContext,
     data: DiaryData
@@ -431,10 +819,12 @@ ${formatter.header('Шаг 3/3: Качество сна')}
         outOfBedTime: waketime,
         subjectiveQuality: qualityMap[data.sleepQuality! - 1] || 'fair',
         morningAlertness: data.sleepQuality!,
+        ...this.buildDetails(data),
       };
 
       // Use type assertion since we're providing a simplified entry
-      ctx.sleepCore.addDiaryEntry(entry as ISleepDiaryEntry);
+      await ctx.sleepCore.addDiaryEntry(entry as ISleepDiaryEntry);
+      data.taperOnHold = await this.checkTaperWithdrawal(ctx);
     } catch (error) {
       // Log error but continue to show summary
       console.error('Failed to save diary entry:', error);
@@ -443,6 +833,54 @@ ${formatter.header('Шаг 3/3: Качество сна')}
     return this.handleStep(ctx, 'summary', data);
   }
 
+  /**
+   * Save a confirmed free-text entry and show the usual summary
+   */
+  private async saveTextEntry(
+    ctx: ISleepCoreContext,
+    data: DiaryData,
+    quality: number
+  ): Promise<ICommandResult> {
+    if (!data.textEntry?.bedtime || !data.textEntry.finalAwakening || !data.date) {
+      return {
+        success: false,
+        message: `${sonya.emoji} Данные сессии потеряны. Напиши про сон ещё раз или начни с /diary`,
+      };
+    }
+
+    const entry = this.textParser.toEntry(data.textEntry, ctx.userId, data.date, quality);
+    let taperOnHold = false;
+
+    try {
+      await ctx.sleepCore.addDiaryEntry(entry);
+      taperOnHold = await this.checkTaperWithdrawal(ctx);
+    } catch (error) {
+      // Log error but continue to show summary
+      console.error('Failed to save diary entry:', error);
+    }
+
+    const [bedtimeHour, bedtimeMinute] = entry.bedtime.split(':').map(Number);
+    const [waketimeHour, waketimeMinute] = entry.outOfBedTime.split(':').map(Number);
+    const medication = entry.sleepMedications?.[0];
+
+    return this.handleStep(ctx, 'summary', {
+      date: data.date,
+      bedtimeHour,
+      bedtimeMinute,
+      waketimeHour,
+      waketimeMinute,
+      sleepQuality: entry.morningAlertness,
+      ...NO_DETAILS,
+      caffeineDrinks: entry.caffeineDrinks,
+      lastCaffeineHour: entry.lastCaffeineTime ? parseInt(entry.lastCaffeineTime) : undefined,
+      alcoholDrinks: entry.alcoholDrinks,
+      napMinutes: entry.napMinutes,
+      medicationType: medication ? medication.type : entry.sleepMedications && 'none',
+      medicationDose: medication?.dose,
+      taperOnHold,
+    });
+  }
+
   private async showSummary(
     ctx: ISleepCoreContext,
     data: DiaryData
@@ -467,6 +905,12 @@ ${formatter.header('Шаг 3/3: Качество сна')}
         ? sonya.say('Запись сохранена! Продолжай отслеживать.')
         : sonya.respondToEmotion('tired').text;
 
+    const detailLines = this.formatDetails(data);
+    const details = detailLines.length > 0 ? `\n${detailLines.join('\n')}\n` : '';
+    const taperNote = data.taperOnHold
+      ? `\n⏸ Сон после снижения дозы ухудшился, поэтому снижение приостановлено. Врач увидит отчёт, а до его решения продолжай текущую дозу.\n`
+      : '';
+
     const message = `
 ${sonya.emoji} *${sonya.name}*
 
@@ -478,7 +922,7 @@ ${formatter.header('Твой сон')}
 ⏰ Встали: ${waketime}
 ⏱ В постели: ${formatter.duration(durationMinutes)}
 ${qualityEmoji} Качество: ${data.sleepQuality}/5
-
+${details}${taperNote}
 ${formatter.divider()}
 
 ${formatter.sleepEfficiency(estimatedSE)}
@@ -488,6 +932,9 @@ ${sonya.tip('Заполняй дневник каждое утро для луч
     `.trim();
 
     const keyboard: IInlineButton[][] = [
+      ...(detailLines.length === 0
+        ? [[{ text: '📝 Кофеин, алкоголь, лекарства…', callbackData: 'diary:details:start' }]]
+        : []),
       [{ text: '📅 Задание на сегодня', callbackData: 'today:show' }],
       [{ text: '📊 Мой прогресс', callbackData: 'progress:show' }],
     ];
@@ -502,6 +949,177 @@ ${sonya.tip('Заполняй дневник каждое утро для луч
 
   // ==================== Helpers ====================
 
+  /**
+   * Tonight's dose under the user's taper plan, or null without a database,
+   * without a plan or on error
+   */
+  private async getPlannedMedication(ctx: ISleepCoreContext): Promise<ISleepMedicationDose | null> {
+    const taperService = this.getTaperService(ctx);
+    if (!taperService) return null;
+
+    try {
+      const dose = await taperService.getPrescribedDose(ctx.userId);
+      return dose && dose.dose > 0 ? dose : null;
+    } catch (error) {
+      console.error('[DiaryCommand] Taper plan lookup failed:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Withdrawal check of the user's open taper plan after a saved entry.
+   * True when it reported an adverse event (an active plan is then held).
+   */
+  private async checkTaperWithdrawal(ctx: ISleepCoreContext): Promise<boolean> {
+    const taperService = this.getTaperService(ctx);
+    if (!taperService) return false;
+
+    try {
+      const plan = await taperService.getOpenPlan(ctx.userId);
+      if (!plan) return false;
+      const check = await taperService.checkWithdrawal(plan.id);
+      return check?.report != null;
+    } catch (error) {
+      console.error('[DiaryCommand] Withdrawal check failed:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Entry date: today in the user's timezone, so a night described after
+   * local midnight is not filed under the previous UTC day
+   */
+  private getLocalDate(ctx: ISleepCoreContext): string {
+    return getZonedTime(new Date(), resolveTimezone(ctx.timezone)).dateKey;
+  }
+
+  /**
+   * Taper service on the API's database, or null without one
+   */
+  private getTaperService(ctx: ISleepCoreContext): MedicationTaperingService | null {
+    const db = ctx.sleepCore.db;
+    if (!db) return null;
+    this.taperService ??= new MedicationTaperingService(db);
+    return this.taperService;
+  }
+
+  /**
+   * "Зопиклон 5 мг"
+   */
+  private formatMedication(medication: ISleepMedicationDose): string {
+    const unit = medication.unit === 'mg' ? 'мг' : 'табл.';
+    return `${medication.name} ${medication.dose} ${unit}`;
+  }
+
+  /**
+   * Consensus Sleep Diary fields from the optional detail steps
+   */
+  private buildDetails(data: DiaryData): Partial<ISleepDiaryEntry> {
+    let medication: ISleepMedicationDose[] | undefined;
+    if (data.medicationFromPlan && data.plannedMedication) {
+      medication = [{ ...data.plannedMedication }];
+    } else if (data.medicationType === 'none') {
+      medication = [];
+    } else if (data.medicationType) {
+      medication = [{
+        name: MEDICATIONS[data.medicationType].name,
+        type: data.medicationType,
+        dose: data.medicationDose ?? 1,
+        unit: 'tablet',
+      }];
+    }
+
+    return {
+      caffeineDrinks: data.caffeineDrinks,
+      lastCaffeineTime: data.lastCaffeineHour !== undefined
+        ? this.formatTime(data.lastCaffeineHour, 0)
+        : undefined,
+      alcoholDrinks: data.alcoholDrinks,
+      napCount: data.napMinutes !== undefined ? (data.napMinutes > 0 ? 1 : 0) : undefined,
+      napMinutes: data.napMinutes,
+      sleepMedications: medication,
+      exerciseTiming: data.exerciseTiming,
+      earlyAwakeningMinutes: data.earlyAwakeningMinutes,
+    };
+  }
+
+  /**
+   * Summary lines for the reported details
+   */
+  private formatDetails(data: DiaryData): string[] {
+    const lines: string[] = [];
+
+    if (data.caffeineDrinks !== undefined) {
+      const last = data.lastCaffeineHour !== undefined && data.caffeineDrinks > 0
+        ? ` (последний в ${this.formatTime(data.lastCaffeineHour, 0)})`
+        : '';
+      lines.push(`☕ Кофеин: ${data.caffeineDrinks}${last}`);
+    }
+    if (data.alcoholDrinks !== undefined) {
+      lines.push(`🍷 Алкоголь: ${data.alcoholDrinks}`);
+    }
+    if (data.napMinutes !== undefined) {
+      lines.push(`😴 Дневной сон: ${data.napMinutes > 0 ? formatter.duration(data.napMinutes) : 'нет'}`);
+    }
+    if (data.medicationType !== undefined) {
+      let medication = 'нет';
+      if (data.medicationFromPlan && data.plannedMedication) {
+        medication = this.formatMedication(data.plannedMedication);
+      } else if (data.medicationType !== 'none') {
+        medication = `${MEDICATIONS[data.medicationType].name}, ${data.medicationDose ?? 1} табл.`;
+      }
+      lines.push(`💊 Для сна: ${medication}`);
+    }
+
+    return lines;
+  }
+
+  /**
+   * Lines of a parsed free-text entry for confirmation
+   */
+  private formatTextEntry(entry: Partial<ISleepDiaryEntry>): string[] {
+    const lines = [`🛏 Легли: ${entry.bedtime}`];
+
+    if (entry.sleepOnsetLatency !== undefined) {
+      lines.push(`💤 Уснули через: ${formatter.duration(entry.sleepOnsetLatency)}`);
+    }
+    if (entry.numberOfAwakenings !== undefined) {
+      lines.push(`🌙 Пробуждений ночью: ${entry.numberOfAwakenings}`);
+    }
+    lines.push(`⏰ Проснулись: ${entry.finalAwakening}`);
+    if (entry.outOfBedTime && entry.outOfBedTime !== entry.finalAwakening) {
+      lines.push(`🚶 Встали: ${entry.outOfBedTime}`);
+    }
+    if (entry.napMinutes !== undefined) {
+      lines.push(`😴 Дневной сон: ${entry.napMinutes > 0 ? formatter.duration(entry.napMinutes) : 'нет'}`);
+    }
+    if (entry.caffeineDrinks !== undefined) {
+      const last = entry.lastCaffeineTime ? ` (последний в ${entry.lastCaffeineTime})` : '';
+      lines.push(`☕ Кофеин: ${entry.caffeineDrinks}${last}`);
+    }
+    if (entry.alcoholDrinks !== undefined) {
+      lines.push(`🍷 Алкоголь: ${entry.alcoholDrinks}`);
+    }
+    if (entry.sleepMedications !== undefined) {
+      const medication = entry.sleepMedications
+        .map((dose) => `${MEDICATIONS[dose.type].name}, ${dose.dose} табл.`)
+        .join('; ');
+      lines.push(`💊 Для сна: ${medication || 'нет'}`);
+    }
+
+    return lines;
+  }
+
+  /**
+   * 0 / 1 / 2 / 3+ buttons
+   */
+  private countButtons(action: string): IInlineButton[] {
+    return [0, 1, 2, 3].map((count) => ({
+      text: count === 3 ? '3+' : String(count),
+      callbackData: `diary:${action}:${count}`,
+    }));
+  }
+
   private getTimeOfDay(): 'morning' | 'day' | 'evening' | 'night' {
     const hour = new Date().getHours();
     if (hour >= 6 && hour < 12) return 'morning';
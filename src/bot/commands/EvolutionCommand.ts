@@ -21,7 +21,11 @@ import type {
 } from './interfaces/ICommand';
 import { formatter } from './utils/MessageFormatter';
 import { sonya } from '../persona';
-import { getGamificationEngine } from '../services/GamificationContext';
+import {
+  getGamificationEngine,
+  getGamificationUserId,
+  requireGamificationProfile,
+} from '../services/GamificationContext';
 import { EVOLUTION_STAGES, type SonyaStageId } from '../../modules/evolution';
 
 /**
@@ -39,6 +43,9 @@ export class EvolutionCommand implements IConversationCommand {
    * Execute the command - show Sonya status
    */
   async execute(ctx: ISleepCoreContext, args?: string): Promise<ICommandResult> {
+    const missingProfile = requireGamificationProfile(ctx);
+    if (missingProfile) return missingProfile;
+
     if (args) {
       switch (args) {
         case 'history':
@@ -63,6 +70,9 @@ export class EvolutionCommand implements IConversationCommand {
     step: string,
     _data: Record<string, unknown>
   ): Promise<ICommandResult> {
+    const missingProfile = requireGamificationProfile(ctx);
+    if (missingProfile) return missingProfile;
+
     switch (step) {
       case 'status':
         return this.showSonyaStatus(ctx);
@@ -83,6 +93,9 @@ export class EvolutionCommand implements IConversationCommand {
     callbackData: string,
     _conversationData: Record<string, unknown>
   ): Promise<ICommandResult> {
+    const missingProfile = requireGamificationProfile(ctx);
+    if (missingProfile) return missingProfile;
+
     const [, action] = callbackData.split(':');
 
     switch (action) {
@@ -108,7 +121,7 @@ export class EvolutionCommand implements IConversationCommand {
    */
   private async showSonyaStatus(ctx: ISleepCoreContext): Promise<ICommandResult> {
     const engine = await getGamificationEngine();
-    const userId = parseInt(ctx.userId, 10);
+    const userId = getGamificationUserId(ctx);
 
     const profile = await engine.getPlayerProfile(userId);
     const currentStage = profile.sonyaStage;
@@ -194,7 +207,7 @@ ${formatter.tip(`${currentStage.abilities.length} способностей до
    */
   private async showEvolutionHistory(ctx: ISleepCoreContext): Promise<ICommandResult> {
     const engine = await getGamificationEngine();
-    const userId = parseInt(ctx.userId, 10);
+    const userId = getGamificationUserId(ctx);
 
     const profile = await engine.getPlayerProfile(userId);
 
@@ -247,7 +260,7 @@ ${sonya.emoji} _Мы прошли этот путь вместе!_
    */
   private async showAbilities(ctx: ISleepCoreContext): Promise<ICommandResult> {
     const engine = await getGamificationEngine();
-    const userId = parseInt(ctx.userId, 10);
+    const userId = getGamificationUserId(ctx);
 
     const profile = await engine.getPlayerProfile(userId);
     const currentStage = profile.sonyaStage;
@@ -304,7 +317,7 @@ ${lockedAbilities.length > 5 ? `\n_...и ещё ${lockedAbilities.length - 5}_`
    */
   private async showNextStage(ctx: ISleepCoreContext): Promise<ICommandResult> {
     const engine = await getGamificationEngine();
-    const userId = parseInt(ctx.userId, 10);
+    const userId = getGamificationUserId(ctx);
 
     const profile = await engine.getPlayerProfile(userId);
     const currentStage = profile.sonyaStage;
@@ -379,7 +392,7 @@ ${formatter.tip(progress >= 80 ? 'Почти готово!' : 'Продолжа
    */
   private async interactWithSonya(ctx: ISleepCoreContext): Promise<ICommandResult> {
     const engine = await getGamificationEngine();
-    const userId = parseInt(ctx.userId, 10);
+    const userId = getGamificationUserId(ctx);
 
     // Record action which may trigger evolution check
     const result = await engine.recordAction(userId, 'daily_check_in');
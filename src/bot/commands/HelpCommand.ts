@@ -70,6 +70,11 @@ export class HelpCommand implements ICommand {
       icon: '📊',
       description: 'Ваш еженедельный прогресс',
     },
+    {
+      name: '/assess',
+      icon: '📋',
+      description: 'Опросники: PSQI, ESS, DBAS-16, PHQ-9, GAD-7',
+    },
     {
       name: '/sos',
       icon: '🆘',
@@ -19,7 +19,11 @@ import type {
   IInlineButton,
 } from './interfaces/ICommand';
 import { formatter } from './utils/MessageFormatter';
-import { getGamificationEngine } from '../services/GamificationContext';
+import {
+  getGamificationEngine,
+  getGamificationUserId,
+  requireGamificationProfile,
+} from '../services/GamificationContext';
 
 /**
  * /profile Command Implementation
@@ -35,6 +39,9 @@ export class ProfileCommand implements IConversationCommand {
    * Execute the command - show profile overview
    */
   async execute(ctx: ISleepCoreContext, args?: string): Promise<ICommandResult> {
+    const missingProfile = requireGamificationProfile(ctx);
+    if (missingProfile) return missingProfile;
+
     if (args) {
       switch (args) {
         case 'xp':
@@ -59,6 +66,9 @@ export class ProfileCommand implements IConversationCommand {
     step: string,
     _data: Record<string, unknown>
   ): Promise<ICommandResult> {
+    const missingProfile = requireGamificationProfile(ctx);
+    if (missingProfile) return missingProfile;
+
     switch (step) {
       case 'overview':
         return this.showProfileOverview(ctx);
@@ -81,6 +91,9 @@ export class ProfileCommand implements IConversationCommand {
     callbackData: string,
     _conversationData: Record<string, unknown>
   ): Promise<ICommandResult> {
+    const missingProfile = requireGamificationProfile(ctx);
+    if (missingProfile) return missingProfile;
+
     const [, action, _param] = callbackData.split(':');
 
     switch (action) {
@@ -111,7 +124,7 @@ export class ProfileCommand implements IConversationCommand {
   private async showProfileOverview(ctx: ISleepCoreContext): Promise<ICommandResult> {
     try {
       const engine = await getGamificationEngine();
-      const userId = parseInt(ctx.userId, 10);
+      const userId = getGamificationUserId(ctx);
 
       const profile = await engine.getPlayerProfile(userId);
 
@@ -191,7 +204,7 @@ ${formatter.tip('Выбери раздел для подробностей')}
   private async showXPDetails(ctx: ISleepCoreContext): Promise<ICommandResult> {
     try {
       const engine = await getGamificationEngine();
-      const userId = parseInt(ctx.userId, 10);
+      const userId = getGamificationUserId(ctx);
 
       const xpStatus = await engine.getXPStatus(userId);
       const profile = await engine.getPlayerProfile(userId);
@@ -249,7 +262,7 @@ ${formatter.divider()}
   private async showStreaks(ctx: ISleepCoreContext): Promise<ICommandResult> {
     try {
       const engine = await getGamificationEngine();
-      const userId = parseInt(ctx.userId, 10);
+      const userId = getGamificationUserId(ctx);
 
       const streaks = await engine.getStreaks(userId);
       const settings = await engine.getSettings(userId);
@@ -317,7 +330,7 @@ ${formatter.tip('Заходи каждый день чтобы поддержи
   private async showSettings(ctx: ISleepCoreContext): Promise<ICommandResult> {
     try {
       const engine = await getGamificationEngine();
-      const userId = parseInt(ctx.userId, 10);
+      const userId = getGamificationUserId(ctx);
 
       const settings = await engine.getSettings(userId);
 
@@ -373,7 +386,7 @@ ${formatter.tip('Настройки влияют на сохранение пр
   private async toggleCompassionMode(ctx: ISleepCoreContext): Promise<ICommandResult> {
     try {
       const engine = await getGamificationEngine();
-      const userId = parseInt(ctx.userId, 10);
+      const userId = getGamificationUserId(ctx);
 
       const settings = await engine.getSettings(userId);
       await engine.updateSettings(userId, {
@@ -400,7 +413,7 @@ ${formatter.tip('Настройки влияют на сохранение пр
   private async toggleSoftReset(ctx: ISleepCoreContext): Promise<ICommandResult> {
     try {
       const engine = await getGamificationEngine();
-      const userId = parseInt(ctx.userId, 10);
+      const userId = getGamificationUserId(ctx);
 
       const settings = await engine.getSettings(userId);
       await engine.updateSettings(userId, {
@@ -427,7 +440,7 @@ ${formatter.tip('Настройки влияют на сохранение пр
   private async doDailyCheckIn(ctx: ISleepCoreContext): Promise<ICommandResult> {
     try {
       const engine = await getGamificationEngine();
-      const userId = parseInt(ctx.userId, 10);
+      const userId = getGamificationUserId(ctx);
 
       const result = await engine.recordDailyCheckIn(userId);
 
@@ -7,6 +7,8 @@
  * - Weekly progress reports reduce dropout to 12-20% (Sleepio study)
  * - Visual feedback increases engagement (JMIR 2025)
  * - Traffic light indicators (KANOPEE pattern)
+ * - Personal causal factors from the diary (SleepCausalAnalysisService)
+ * - Link to sleep window what-if forecasts (/whatif)
  *
  * @packageDocumentation
  * @module @sleepcore/bot/commands
@@ -20,6 +22,11 @@ import type {
 } from './interfaces/ICommand';
 import { formatter } from './utils/MessageFormatter';
 import { sonya } from '../persona';
+import {
+  SleepCausalAnalysisService,
+  type ISleepCausalAnalysis,
+  type ISleepFactorEffect,
+} from '../services/SleepCausalAnalysisService';
 
 /**
  * /progress Command Implementation
@@ -30,6 +37,8 @@ export class ProgressCommand implements ICommand {
   readonly aliases = ['stats', 'report', 'прогресс'];
   readonly requiresSession = true;
 
+  private causalService: SleepCausalAnalysisService | null = null;
+
   /**
    * Execute the command
    */
@@ -129,6 +138,12 @@ ${formatter.tip('Чем больше данных, тем точнее анал
       ? formatter.bulletList(report.achievements.slice(0, 3))
       : 'Пока нет достижений';
 
+    // What seems to affect sleep most (needs the diary database)
+    const causalAnalysis = await this.getCausalAnalysis(ctx);
+    const causalSection = causalAnalysis
+      ? `\n${formatter.divider()}\n\n${this.buildCausalSection(causalAnalysis)}\n`
+      : '';
+
     // Improvements list
     const improvementsList = report.improvements.length > 0
       ? formatter.bulletList(report.improvements.slice(0, 3))
@@ -167,7 +182,7 @@ ${achievementsList}
 
 *🎯 Фокус на следующую неделю:*
 ${improvementsList}
-
+${causalSection}
 ${formatter.divider()}
 
 ${statusInfo.icon} *${statusInfo.label}*
@@ -178,18 +193,67 @@ _${statusInfo.description}_
       [{ text: '📊 Подробная статистика', callbackData: 'progress:detailed' }],
       [{ text: '📅 Задание на сегодня', callbackData: 'today:show' }],
       [{ text: '📤 Экспорт для врача', callbackData: 'progress:export' }],
+      [{ text: '🔮 Что если изменить окно сна', callbackData: 'menu:whatif' }],
     ];
 
     return {
       success: true,
       message,
       keyboard,
-      metadata: { report },
+      metadata: { report, causalAnalysis },
     };
   }
 
   // ==================== Helpers ====================
 
+  /**
+   * Personal causal analysis, or null without a database or on failure
+   */
+  private async getCausalAnalysis(ctx: ISleepCoreContext): Promise<ISleepCausalAnalysis | null> {
+    const db = ctx.sleepCore.db;
+    if (!db) return null;
+
+    try {
+      this.causalService ??= new SleepCausalAnalysisService();
+      return await this.causalService.analyzeStored(db, ctx.userId);
+    } catch (error) {
+      console.error('[ProgressCommand] Causal analysis failed:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Build the "what seems to affect your sleep most" section
+   */
+  private buildCausalSection(analysis: ISleepCausalAnalysis): string {
+    const title = '*🔍 Что, похоже, сильнее всего влияет на ваш сон:*';
+
+    if (analysis.status === 'insufficient_data') {
+      return `${title}\nНочей дневника до первого анализа: ${analysis.nightsNeeded}.`;
+    }
+    if (analysis.topFactors.length === 0) {
+      return `${title}\nПока явных закономерностей не видно. Продолжайте вести дневник!`;
+    }
+
+    const lines = analysis.topFactors.slice(0, 3).map((effect) => this.formatFactorEffect(effect));
+    return `${title}\n${formatter.bulletList(lines)}\n_Это закономерности в вашем дневнике, а не медицинский вывод._`;
+  }
+
+  /**
+   * Format one factor effect with its confidence interval
+   */
+  private formatFactorEffect(effect: ISleepFactorEffect): string {
+    const step = effect.unit === 'min' ? ` (+${effect.step} мин)` : '';
+    const outcome = effect.outcome === 'sleepEfficiency'
+      ? { label: 'эффективность сна', unit: '%' }
+      : { label: 'засыпание', unit: ' мин' };
+    const signed = (value: number): string => `${value > 0 ? '+' : value < 0 ? '−' : ''}${Math.abs(value).toFixed(1)}`;
+    const icon = effect.improvesSleep ? '✅' : '⚠️';
+
+    return `${icon} ${effect.labelRu}${step} → ${outcome.label} ${signed(effect.effect)}${outcome.unit} ` +
+      `(${signed(effect.lowerBound)}…${signed(effect.upperBound)})`;
+  }
+
   /**
    * Build ASCII trend chart from SE values
    */
@@ -20,9 +20,12 @@ import type {
 } from './interfaces/ICommand';
 import { formatter } from './utils/MessageFormatter';
 import { sonya } from '../persona';
-import { getGamificationEngine } from '../services/GamificationContext';
+import {
+  getGamificationEngine,
+  getGamificationUserId,
+  requireGamificationProfile,
+} from '../services/GamificationContext';
 import type { IActiveQuestInfo } from '../../modules/gamification';
-import { questService } from '../../modules/quests'; // Keep for quest definitions
 
 /**
  * /quest Command Implementation
@@ -38,6 +41,9 @@ export class QuestCommand implements IConversationCommand {
    * Execute the command - show quest list
    */
   async execute(ctx: ISleepCoreContext, args?: string): Promise<ICommandResult> {
+    const missingProfile = requireGamificationProfile(ctx);
+    if (missingProfile) return missingProfile;
+
     if (args) {
       // Handle subcommands
       const [subcommand, ..._rest] = args.split(' ');
@@ -65,6 +71,9 @@ export class QuestCommand implements IConversationCommand {
     step: string,
     data: Record<string, unknown>
   ): Promise<ICommandResult> {
+    const missingProfile = requireGamificationProfile(ctx);
+    if (missingProfile) return missingProfile;
+
     switch (step) {
       case 'list':
         return this.showQuestHub(ctx);
@@ -87,6 +96,9 @@ export class QuestCommand implements IConversationCommand {
     callbackData: string,
     _conversationData: Record<string, unknown>
   ): Promise<ICommandResult> {
+    const missingProfile = requireGamificationProfile(ctx);
+    if (missingProfile) return missingProfile;
+
     const [, action, questId] = callbackData.split(':');
 
     switch (action) {
@@ -117,12 +129,12 @@ export class QuestCommand implements IConversationCommand {
   private async showQuestHub(ctx: ISleepCoreContext): Promise<ICommandResult> {
     try {
       const engine = await getGamificationEngine();
-      const userId = parseInt(ctx.userId, 10);
+      const userId = getGamificationUserId(ctx);
 
       const activeQuests = await engine.getActiveQuests(userId);
       const availableQuests = await engine.getAvailableQuests(userId);
       const completedCount = await engine.getCompletedQuestCount(userId);
-      const totalQuests = questService.getAllQuests().length;
+      const totalQuests = engine.getAllQuests().length;
 
       // Get total XP from profile
       const profile = await engine.getPlayerProfile(userId);
@@ -176,7 +188,7 @@ ${formatter.tip('Выбери раздел для подробностей')}
   private async showActiveQuests(ctx: ISleepCoreContext): Promise<ICommandResult> {
     try {
       const engine = await getGamificationEngine();
-      const userId = parseInt(ctx.userId, 10);
+      const userId = getGamificationUserId(ctx);
       const activeQuests = await engine.getActiveQuests(userId);
 
       if (activeQuests.length === 0) {
@@ -231,7 +243,8 @@ ${formatter.tip('Нажми на квест для подробностей')}
    * Show available quests
    */
   private async showAvailableQuests(ctx: ISleepCoreContext): Promise<ICommandResult> {
-    const availableQuests = questService.getAvailableQuests(ctx.userId);
+    const engine = await getGamificationEngine();
+    const availableQuests = await engine.getAvailableQuests(getGamificationUserId(ctx));
 
     if (availableQuests.length === 0) {
       const message = `
@@ -302,7 +315,8 @@ ${formatter.tip('Выбери квест чтобы начать')}
    * Show completed quests
    */
   private async showCompletedQuests(ctx: ISleepCoreContext): Promise<ICommandResult> {
-    const completedIds = questService.getCompletedQuestIds(ctx.userId);
+    const engine = await getGamificationEngine();
+    const completedIds = await engine.getCompletedQuestIds(getGamificationUserId(ctx));
 
     if (completedIds.length === 0) {
       const message = `
@@ -323,7 +337,7 @@ ${formatter.info('Пока нет завершённых квестов')}
     let totalXP = 0;
 
     for (const questId of completedIds) {
-      const quest = questService.getQuest(questId);
+      const quest = engine.getQuest(questId);
       if (!quest) continue;
       questsText += `✅ ${quest.icon} ${quest.title} (+${quest.reward.xp} XP)\n`;
       totalXP += quest.reward.xp;
@@ -349,7 +363,9 @@ ${formatter.divider()}
    * Show quest details
    */
   private async showQuestDetails(ctx: ISleepCoreContext, questId: string): Promise<ICommandResult> {
-    const quest = questService.getQuest(questId);
+    const engine = await getGamificationEngine();
+    const userId = getGamificationUserId(ctx);
+    const quest = engine.getQuest(questId);
 
     if (!quest) {
       return {
@@ -359,11 +375,11 @@ ${formatter.divider()}
     }
 
     // Check if active
-    const activeQuests = questService.getActiveQuests(ctx.userId);
-    const activeQuest = activeQuests.find((aq) => aq.questId === questId);
+    const activeQuests = await engine.getActiveQuests(userId);
+    const activeQuest = activeQuests.find((aq) => aq.quest.id === questId);
 
     // Check if completed
-    const completedIds = questService.getCompletedQuestIds(ctx.userId);
+    const completedIds = await engine.getCompletedQuestIds(userId);
     const isCompleted = completedIds.includes(questId);
 
     const difficultyLabel = quest.difficulty === 'easy' ? '🟢 Лёгкий' :
@@ -383,12 +399,10 @@ ${formatter.divider()}
     if (isCompleted) {
       statusText = '✅ *Выполнен*';
     } else if (activeQuest) {
-      const percentage = questService.getProgressPercentage(activeQuest);
-      const daysRemaining = questService.getDaysRemaining(activeQuest);
       progressText = `
-📊 *Прогресс:* ${activeQuest.progress.currentValue}/${activeQuest.progress.targetValue}
-${formatter.progressBar(percentage, 10)} ${percentage}%
-⏳ Осталось: ${daysRemaining} дней
+📊 *Прогресс:* ${activeQuest.currentValue}/${activeQuest.targetValue}
+${formatter.progressBar(activeQuest.progress, 10)} ${activeQuest.progress}%
+⏳ Осталось: ${activeQuest.daysRemaining} дней
       `.trim();
       statusText = '🔄 *В процессе*';
     } else {
@@ -434,7 +448,7 @@ ${progressText ? `\n${progressText}` : ''}
   private async startQuest(ctx: ISleepCoreContext, questId: string): Promise<ICommandResult> {
     try {
       const engine = await getGamificationEngine();
-      const userId = parseInt(ctx.userId, 10);
+      const userId = getGamificationUserId(ctx);
       const result = await engine.startQuest(userId, questId);
 
       if (!result) {
@@ -444,7 +458,7 @@ ${progressText ? `\n${progressText}` : ''}
         };
       }
 
-      const quest = questService.getQuest(questId)!;
+      const quest = engine.getQuest(questId)!;
 
       const message = `
 🚀 *Квест начат!*
@@ -478,7 +492,8 @@ ${formatter.tip('Прогресс обновляется автоматичес
    * Abandon a quest
    */
   private async abandonQuest(ctx: ISleepCoreContext, questId: string): Promise<ICommandResult> {
-    const quest = questService.getQuest(questId);
+    const engine = await getGamificationEngine();
+    const quest = engine.getQuest(questId);
 
     // Note: QuestService doesn't have abandonQuest method, this is a placeholder
     // In production, you'd implement this in QuestService
@@ -502,29 +517,6 @@ ${quest?.icon || '🎯'} ${quest?.title || questId}
 
   // ==================== Helpers ====================
 
-  /**
-   * Format active quests preview for hub (legacy - uses questService)
-   */
-  private formatActiveQuestsPreview(activeQuests: ReturnType<typeof questService.getActiveQuests>): string {
-    if (activeQuests.length === 0) return '';
-
-    let text = '*🎯 Активные квесты:*\n';
-
-    for (const active of activeQuests.slice(0, 2)) {
-      const quest = questService.getQuest(active.questId);
-      if (!quest) continue;
-
-      const percentage = questService.getProgressPercentage(active);
-      text += `${quest.icon} ${quest.title} — ${percentage}%\n`;
-    }
-
-    if (activeQuests.length > 2) {
-      text += `_...и ещё ${activeQuests.length - 2}_\n`;
-    }
-
-    return text;
-  }
-
   /**
    * Format active quests preview (new - uses GamificationEngine format)
    */
@@ -37,6 +37,8 @@ import type {
 } from './interfaces/ICommand';
 import { formatter } from './utils/MessageFormatter';
 import { sonya } from '../persona';
+import { questionnaireEngine } from '../../assessment';
+import type { QuestionnaireId } from '../../assessment';
 
 /**
  * Therapy session cores (6-week structure)
@@ -74,6 +76,8 @@ interface ICoreSession {
   readonly components: readonly string[];
   readonly homework: readonly string[];
   readonly icon: string;
+  /** Questionnaire offered with the homework (delivered by /assess) */
+  readonly assessment?: QuestionnaireId;
 }
 
 /**
@@ -209,6 +213,7 @@ const CORE_SESSIONS: readonly ICoreSession[] = [
       'Опробовать парадоксальное намерение',
       'Заполнить DBAS в конце недели',
     ],
+    assessment: 'dbas',
   },
   {
     id: 'problem_prevention',
@@ -632,6 +637,14 @@ ${sonya.tip('Регулярное выполнение заданий — клю
       [{ text: '📓 Открыть дневник', callbackData: 'diary:start' }],
     ];
 
+    if (core.assessment) {
+      const questionnaire = questionnaireEngine.getDefinition(core.assessment);
+      keyboard.splice(1, 0, [{
+        text: `📋 Заполнить ${questionnaire.shortName}`,
+        callbackData: `assess:start:${questionnaire.id}`,
+      }]);
+    }
+
     return {
       success: true,
       message,
@@ -0,0 +1,176 @@
+/**
+ * /whatif Command - Sleep Prescription What-If
+ * ============================================
+ * Runs the user's sleep digital twin over the stored diary and shows
+ * forecast bands for the current sleep window and standard alternatives
+ * (time in bed ±15 min, wake time 30 min earlier).
+ *
+ * Research basis:
+ * - Spielman et al. (1987): sleep restriction therapy
+ * - Frontiers 2025: digital twins for precision mental health
+ *
+ * The forecast is an educational what-if, not a new prescription:
+ * the sleep window is only changed together with the clinician.
+ *
+ * @packageDocumentation
+ * @module @sleepcore/bot/commands
+ */
+
+import type {
+  ICommand,
+  ISleepCoreContext,
+  ICommandResult,
+  IInlineButton,
+} from './interfaces/ICommand';
+import { formatter } from './utils/MessageFormatter';
+import { sonya } from '../persona';
+import {
+  DEFAULT_SLEEP_TWIN_CONFIG,
+  SleepDigitalTwinService,
+  type ISleepForecastBandPoint,
+  type ISleepScenarioForecast,
+  type ISleepWhatIfResult,
+} from '../services/SleepDigitalTwinService';
+
+/**
+ * Night of the forecast shown next to the horizon end
+ */
+const FIRST_WEEK_NIGHT = 7;
+
+/**
+ * /whatif Command Implementation
+ */
+export class WhatIfCommand implements ICommand {
+  readonly name = 'whatif';
+  readonly description = 'Что если изменить окно сна';
+  readonly aliases = ['twin', 'прогноз'];
+  readonly requiresSession = false;
+
+  private twinService: SleepDigitalTwinService | null = null;
+
+  /**
+   * Execute the command
+   */
+  async execute(ctx: ISleepCoreContext): Promise<ICommandResult> {
+    const db = ctx.sleepCore.db;
+    if (!db) {
+      return {
+        success: false,
+        message: formatter.warning('Прогноз недоступен: дневник сна не сохраняется на этом сервере.'),
+      };
+    }
+
+    try {
+      this.twinService ??= new SleepDigitalTwinService();
+      const result = await this.twinService.whatIfStored(db, ctx.userId);
+      return result ? this.showForecast(result) : this.showInsufficientData();
+    } catch (error) {
+      console.error('[WhatIfCommand] Simulation failed:', error);
+      return {
+        success: false,
+        message: formatter.error('Не удалось построить прогноз. Попробуй позже.'),
+      };
+    }
+  }
+
+  // ==================== Response Handlers ====================
+
+  private showInsufficientData(): ICommandResult {
+    const { minNights, historyWindowDays } = DEFAULT_SLEEP_TWIN_CONFIG;
+    const message = `
+${formatter.info('Недостаточно данных')}
+
+Для прогноза нужно минимум *${minNights} ночей* дневника за последние ${historyWindowDays} дней.
+
+${formatter.tip('Записывай сон каждое утро — так модель точнее')}
+    `.trim();
+
+    const keyboard: IInlineButton[][] = [
+      [{ text: '📓 Записать сон', callbackData: 'diary:start' }],
+    ];
+
+    return { success: true, message, keyboard };
+  }
+
+  private showForecast(result: ISleepWhatIfResult): ICommandResult {
+    const [lower, upper] = result.bandQuantiles;
+    const bandShare = Math.round((upper - lower) * 100);
+    const scenarios = result.scenarios.map((forecast) => this.formatScenario(forecast, result.horizonDays));
+
+    const message = `
+${sonya.emoji} *${sonya.name}*
+
+${formatter.header('Что если')}
+
+Модель построена по твоему дневнику (последняя ночь — ${result.asOf}).
+Сейчас: эффективность сна *${Math.round(result.current.sleepEfficiency)}%*, сон *${formatter.duration(Math.round(result.current.tstMinutes))}*.
+
+${formatter.divider()}
+
+${scenarios.join('\n\n')}
+
+${formatter.divider()}
+
+_В скобках — диапазон, в который попадают ${bandShare}% смоделированных вариантов._
+${formatter.tip('Это модель по твоему дневнику, а не назначение. Окно сна меняй только вместе с врачом.')}
+    `.trim();
+
+    const keyboard: IInlineButton[][] = [
+      [{ text: '📊 Прогресс', callbackData: 'menu:progress' }],
+      [{ text: '📓 Записать сон', callbackData: 'diary:start' }],
+    ];
+
+    return {
+      success: true,
+      message,
+      keyboard,
+      metadata: { whatIf: result },
+    };
+  }
+
+  // ==================== Helpers ====================
+
+  /**
+   * One scenario: prescription, SE bands after a week and at the horizon,
+   * TST band at the horizon and the chance of reaching the SE goal
+   */
+  private formatScenario(forecast: ISleepScenarioForecast, horizonDays: number): string {
+    const { sleepEfficiency, tstMinutes } = forecast.bands;
+    const seWeek = sleepEfficiency.find((point) => point.day === FIRST_WEEK_NIGHT);
+    const seEnd = sleepEfficiency[sleepEfficiency.length - 1];
+    const tstEnd = tstMinutes[tstMinutes.length - 1];
+    const { timeInBedMinutes, wakeTime } = forecast.prescription;
+
+    const lines = [
+      `*${forecast.scenario.nameRu}*`,
+      `В постели ${formatter.duration(timeInBedMinutes)}, подъём ${wakeTime}`,
+    ];
+    if (seWeek && seWeek !== seEnd) {
+      lines.push(`Эффективность через ${FIRST_WEEK_NIGHT} ночей: ${this.formatPercentBand(seWeek)}`);
+    }
+    if (seEnd) {
+      lines.push(`Эффективность через ${horizonDays} ночей: ${this.formatPercentBand(seEnd)}`);
+    }
+    if (tstEnd) {
+      lines.push(`Сон через ${horizonDays} ночей: ${this.formatDurationBand(tstEnd)}`);
+    }
+    lines.push(
+      `Шанс эффективности ≥ ${DEFAULT_SLEEP_TWIN_CONFIG.targetSleepEfficiency}%: ` +
+        `${Math.round(forecast.probabilityAboveTarget * 100)}%`
+    );
+
+    return lines.join('\n');
+  }
+
+  private formatPercentBand(point: ISleepForecastBandPoint): string {
+    return `${Math.round(point.median)}% (${Math.round(point.lower)}–${Math.round(point.upper)}%)`;
+  }
+
+  private formatDurationBand(point: ISleepForecastBandPoint): string {
+    const format = (minutes: number): string => formatter.duration(Math.max(0, Math.round(minutes)));
+    return `${format(point.median)} (${format(point.lower)} – ${format(point.upper)})`;
+  }
+}
+
+// Export singleton
+export const whatIfCommand = new WhatIfCommand();
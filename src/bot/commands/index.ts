@@ -15,6 +15,9 @@
  * - /rehearsal - Pre-sleep mental rehearsal (Smart Memory Window)
  * - /recall - Morning memory quiz (Smart Memory Window)
  * - /smart_tips - Context-aware content recommendations (Content Library)
+ * - /assess - Validated questionnaires (PSQI, ESS, DBAS-16, PHQ-9, GAD-7)
+ * - /whatif - Sleep window what-if forecasts (sleep digital twin)
+ * - /admin - Study administration (dashboard, adherence, safety, exports)
  *
  * @packageDocumentation
  * @module @sleepcore/bot/commands
@@ -26,6 +29,7 @@ export type {
   IConversationCommand,
   ICommandRegistry,
   ICommandResult,
+  ICommandDocument,
   ISleepCoreContext,
   IUserSession,
   IInlineButton,
@@ -59,6 +63,12 @@ export { SmartTipsCommand, smartTipsCommand } from './SmartTipsCommand';
 
 // Phase 7: Structured CBT-I Sessions
 export { TherapyCommand, therapyCommand } from './TherapyCommand';
+export { AssessCommand, assessCommand } from './AssessCommand';
+export { WhatIfCommand, whatIfCommand } from './WhatIfCommand';
+
+// Phase 1.3: Clinical Pilot Administration
+export { AdminCommand, adminCommand } from './AdminCommand';
+export { setupAdminHandlers } from './AdminBotHandlers';
 
 // ==================== Handler ====================
 export { CommandHandler, createCommandHandler } from './CommandHandler';
@@ -70,7 +80,7 @@ export {
   DEFAULT_COMMAND_CONFIGS,
   getTimeOfDay,
   getCurrentTimeOfDay,
-  getMoscowHour,
+  getCurrentHour,
   ContextAwareMenuService,
   createContextAwareMenuService,
 } from './registry';
@@ -101,6 +111,8 @@ import { badgeCommand } from './BadgeCommand';
 import { evolutionCommand } from './EvolutionCommand';
 import { smartTipsCommand } from './SmartTipsCommand';
 import { therapyCommand } from './TherapyCommand';
+import { assessCommand } from './AssessCommand';
+import { whatIfCommand } from './WhatIfCommand';
 
 /**
  * All registered commands
@@ -124,6 +136,8 @@ export const allCommands = [
   smartTipsCommand,
   // Phase 7: Structured CBT-I Sessions
   therapyCommand,
+  assessCommand,
+  whatIfCommand,
 ] as const;
 
 /**
@@ -24,6 +24,9 @@ export interface ISleepCoreContext extends Context {
   /** User ID from Telegram */
   readonly userId: string;
 
+  /** Database user ID (users.id), once the user is registered */
+  readonly dbUserId?: number;
+
   /** Chat ID */
   readonly chatId: number;
 
@@ -33,6 +36,9 @@ export interface ISleepCoreContext extends Context {
   /** User's language code */
   readonly languageCode: string;
 
+  /** User's IANA timezone (users.timezone), when known */
+  readonly timezone?: string;
+
   /** SleepCore API instance */
   readonly sleepCore: SleepCoreAPI;
 }
@@ -56,6 +62,9 @@ export interface ICommandResult {
   /** Whether to remove keyboard */
   removeKeyboard?: boolean;
 
+  /** File to send after the message */
+  document?: ICommandDocument;
+
   /** Error message if failed */
   error?: string;
 
@@ -63,6 +72,16 @@ export interface ICommandResult {
   metadata?: Record<string, unknown>;
 }
 
+/**
+ * File attached to a command result
+ */
+export interface ICommandDocument {
+  fileName: string;
+  /** UTF-8 file content */
+  content: string;
+  caption?: string;
+}
+
 /**
  * Inline keyboard button
  */
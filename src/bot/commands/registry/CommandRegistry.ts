@@ -13,6 +13,7 @@
  */
 
 import type { ICommand, ICommandRegistry } from '../interfaces/ICommand';
+import { DEFAULT_TIMEZONE, getLocalHour } from '../../services/ZonedTime';
 
 // ==================== Types ====================
 
@@ -215,6 +216,24 @@ export const DEFAULT_COMMAND_CONFIGS: Record<string, Partial<ICommandConfig>> =
     availablePhases: ['onboarding', 'assessment', 'active', 'maintenance', 'graduated'],
   },
 
+  assess: {
+    priority: 10,
+    category: 'tools',
+    icon: '📋',
+    shortLabel: 'Опросники',
+    showInMenu: false, // Offered from therapy homework and /help
+    availablePhases: ['assessment', 'active', 'maintenance', 'graduated'],
+  },
+
+  whatif: {
+    priority: 10,
+    category: 'tools',
+    icon: '🔮',
+    shortLabel: 'Что если',
+    showInMenu: false, // Offered from /progress
+    availablePhases: ['active', 'maintenance', 'graduated'],
+  },
+
   settings: {
     priority: 10,
     category: 'tools',
@@ -393,7 +412,7 @@ export class CommandRegistry implements ICommandRegistry {
 // ==================== Time Utilities ====================
 
 /**
- * Determine time of day from hour (Moscow timezone)
+ * Determine time of day from a local hour
  */
 export function getTimeOfDay(hour: number): TimeOfDay {
   if (hour >= 5 && hour < 12) return 'morning';
@@ -403,22 +422,17 @@ export function getTimeOfDay(hour: number): TimeOfDay {
 }
 
 /**
- * Get current time of day in Moscow timezone
+ * Get current time of day in the user's timezone (Moscow by default)
  */
-export function getCurrentTimeOfDay(): TimeOfDay {
-  // Get Moscow time (UTC+3)
-  const now = new Date();
-  const utcHour = now.getUTCHours();
-  const moscowHour = (utcHour + 3) % 24;
-  return getTimeOfDay(moscowHour);
+export function getCurrentTimeOfDay(timezone: string = DEFAULT_TIMEZONE): TimeOfDay {
+  return getTimeOfDay(getLocalHour(timezone));
 }
 
 /**
- * Get Moscow hour
+ * Get current hour in the user's timezone (Moscow by default)
  */
-export function getMoscowHour(): number {
-  const now = new Date();
-  return (now.getUTCHours() + 3) % 24;
+export function getCurrentHour(timezone: string = DEFAULT_TIMEZONE): number {
+  return getLocalHour(timezone);
 }
 
 // ==================== Singleton Export ====================
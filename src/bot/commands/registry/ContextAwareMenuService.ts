@@ -22,12 +22,12 @@ import {
   type ICommandContext,
   type IRegisteredCommand,
   type TimeOfDay,
-  getCurrentTimeOfDay,
-  getMoscowHour,
+  getTimeOfDay,
 } from './CommandRegistry';
 import type { IInlineButton } from '../interfaces/ICommand';
 import { sonya, type EmotionalState } from '../../persona';
 import { sentimentAnalysis } from '../../services';
+import { DEFAULT_TIMEZONE, getLocalHour, getZonedTime, resolveTimezone } from '../../services/ZonedTime';
 
 // ==================== Types ====================
 
@@ -147,9 +147,12 @@ export class ContextAwareMenuService {
     lastSleepEfficiency?: number;
     sleepEfficiencyTrend?: 'improving' | 'stable' | 'declining';
     lastMessage?: string;
+    /** User's IANA timezone; Moscow when unknown */
+    timezone?: string;
   }): IJITAIContext {
     const now = new Date();
-    const timeOfDay = getCurrentTimeOfDay();
+    const local = getZonedTime(now, resolveTimezone(sessionData.timezone));
+    const timeOfDay = getTimeOfDay(local.hour);
 
     // Calculate days since last activity
     const lastActivity = sessionData.lastActivityAt || now;
@@ -158,7 +161,7 @@ export class ContextAwareMenuService {
     );
 
     // Check pending diary (not filled today)
-    const today = now.toISOString().split('T')[0];
+    const today = local.dateKey;
     const hasPendingDiary = sessionData.lastDiaryDate !== today;
 
     // Check pending assessment (weekly ISI)
@@ -197,7 +200,7 @@ export class ContextAwareMenuService {
 
     return {
       timeOfDay,
-      dayOfWeek: now.getDay(),
+      dayOfWeek: local.dayOfWeek,
       therapyPhase,
       therapyWeek,
       hasPendingDiary,
@@ -440,13 +443,14 @@ export class ContextAwareMenuService {
 
   /**
    * Generate time-specific proactive notification with Sonya
-   * For cron-based push messages
+   * For cron-based push messages; hour is taken in the user's timezone
    */
   generateProactiveNotification(
     context: IJITAIContext,
-    userName?: string
+    userName?: string,
+    timezone: string = DEFAULT_TIMEZONE
   ): { message: string; keyboard: IInlineButton[][] } | null {
-    const hour = getMoscowHour();
+    const hour = getLocalHour(timezone);
     const suggestions = this.registry.getProactiveSuggestions(context);
 
     if (suggestions.length === 0) return null;
@@ -14,7 +14,7 @@ export {
   DEFAULT_COMMAND_CONFIGS,
   getTimeOfDay,
   getCurrentTimeOfDay,
-  getMoscowHour,
+  getCurrentHour,
 } from './CommandRegistry';
 
 export type {
@@ -43,8 +43,16 @@ export type AdminAction =
   | 'VIEW_ASSESSMENTS'
   | 'VIEW_ADVERSE_EVENTS'
   | 'EXPORT_DATA'
+  | 'EXPORT_ADVERSE_EVENTS'
   | 'VIEW_DATA_EXPORT'
-  | 'VIEW_AUDIT_LOG';
+  | 'VIEW_AUDIT_LOG'
+  | 'VIEW_TAPER_PLAN'
+  | 'CREATE_TAPER_PLAN'
+  | 'SIGN_OFF_TAPER_STEP'
+  | 'HOLD_TAPER_PLAN'
+  | 'RESUME_TAPER_PLAN'
+  | 'VIEW_ADHERENCE'
+  | 'ASSIGN_COHORT';
 
 /**
  * Dashboard metrics summary
@@ -107,6 +115,8 @@ export interface IUserSummary {
   diaryCount: number;
   sessionCount: number;
   status: 'active' | 'inactive' | 'dropped' | 'completed';
+  /** Assessment protocol (study cohort); null = deployment default */
+  assessmentProtocol: string | null;
 }
 
 /**
@@ -435,7 +445,7 @@ export class AdminDashboardService {
    */
   private async getSafetyMetrics(): Promise<IDashboardMetrics['safety']> {
     // Get AE statistics from the service
-    const aeStats = this.aeService.getStatistics();
+    const aeStats = await this.aeService.getStatistics();
 
     // ISI worsening (≥7 point increase from baseline)
     const isiWorsening = await this.db.queryOne<{ count: number }>(
@@ -466,22 +476,22 @@ export class AdminDashboardService {
   /**
    * Get safety alerts for admin view
    */
-  getSafetyAlerts(): ISafetyAlert[] {
+  async getSafetyAlerts(): Promise<ISafetyAlert[]> {
     return this.aeService.getUnacknowledgedAlerts();
   }
 
   /**
    * Get all safety alerts (including acknowledged)
    */
-  getAllSafetyAlerts(limit: number = 100): ISafetyAlert[] {
+  async getAllSafetyAlerts(limit: number = 100): Promise<ISafetyAlert[]> {
     return this.aeService.getAllAlerts(limit);
   }
 
   /**
    * Acknowledge safety alert
    */
-  acknowledgeSafetyAlert(index: number, adminId: string): boolean {
-    return this.aeService.acknowledgeAlert(index, adminId);
+  async acknowledgeSafetyAlert(alertId: number, adminId: string): Promise<boolean> {
+    return this.aeService.acknowledgeAlert(alertId, adminId);
   }
 
   /**
@@ -520,8 +530,9 @@ export class AdminDashboardService {
       created_at: string;
       last_activity_at: string | null;
       consent_given: number;
+      assessment_protocol: string | null;
     }>(
-      `SELECT id, external_id, first_name, created_at, last_activity_at, consent_given
+      `SELECT id, external_id, first_name, created_at, last_activity_at, consent_given, assessment_protocol
        FROM users WHERE deleted_at IS NULL
        ORDER BY created_at DESC
        LIMIT ? OFFSET ?`,
@@ -592,12 +603,25 @@ export class AdminDashboardService {
         diaryCount: diaryCount?.count || 0,
         sessionCount: sessionCount?.count || 0,
         status,
+        assessmentProtocol: user.assessment_protocol ?? null,
       });
     }
 
     return summaries;
   }
 
+  /**
+   * Assign a user to an assessment protocol (study cohort)
+   * @returns False if the user does not exist
+   */
+  async setAssessmentProtocol(userId: number, protocolId: string): Promise<boolean> {
+    const result = await this.db.execute(
+      `UPDATE users SET assessment_protocol = ?, updated_at = ? WHERE id = ? AND deleted_at IS NULL`,
+      [protocolId, new Date().toISOString(), userId]
+    );
+    return result.changes > 0;
+  }
+
   /**
    * Get detailed user info (for admin view)
    */
@@ -22,6 +22,12 @@
  */
 
 import type { IDatabaseConnection } from '../../infrastructure/database/interfaces/IDatabaseConnection';
+import type {
+  IAdverseEventEntity,
+  IAdverseEventRepository,
+  ISafetyAlertEntity,
+} from '../../infrastructure/database/interfaces/IRepository';
+import { AdverseEventRepository } from '../../infrastructure/database/repositories/AdverseEventRepository';
 
 // ==================== Types ====================
 
@@ -166,6 +172,19 @@ export const DTX_AE_CATEGORIES = {
     meddraSOC: 'Product issues',
     description: 'Technical issue that impacted therapy safety',
   },
+  // Supervised hypnotic taper (MedicationTaperingService)
+  REBOUND_INSOMNIA: {
+    code: 'DTX012',
+    term: 'Rebound insomnia',
+    meddraSOC: 'Psychiatric disorders',
+    description: 'Sleep worsening after a hypnotic dose reduction',
+  },
+  WITHDRAWAL_SYMPTOMS: {
+    code: 'DTX013',
+    term: 'Drug withdrawal syndrome',
+    meddraSOC: 'General disorders',
+    description: 'Withdrawal symptoms during a supervised hypnotic taper',
+  },
 } as const;
 
 /**
@@ -244,10 +263,23 @@ export interface IAdverseEventReport {
   notes?: string;
 }
 
+/**
+ * Follow-up record for an AE report (ICH E2B(R3) follow-up numbering)
+ */
+export interface IAdverseEventFollowUp {
+  eventId: number;
+  followUpNumber: number;
+  /** Changed report fields with their new values */
+  changes: Record<string, unknown>;
+  recordedAt: Date;
+}
+
 /**
  * Safety alert for immediate attention
  */
 export interface ISafetyAlert {
+  /** Stable alert ID */
+  id?: number;
   type: 'ISI_WORSENING' | 'SERIOUS_AE' | 'SUSAR' | 'DEADLINE_APPROACHING';
   severity: 'warning' | 'critical';
   userId: string;
@@ -282,13 +314,10 @@ const AE_CONFIG = {
  * Manages AE tracking, classification, and regulatory compliance
  */
 export class AdverseEventService {
-  private db: IDatabaseConnection;
-  private events: Map<number, IAdverseEventReport> = new Map();
-  private alerts: ISafetyAlert[] = [];
-  private nextEventId = 1;
+  private repository: IAdverseEventRepository;
 
-  constructor(db: IDatabaseConnection) {
-    this.db = db;
+  constructor(repository: IAdverseEventRepository) {
+    this.repository = repository;
   }
 
   // ==================== Event Reporting ====================
@@ -300,7 +329,6 @@ export class AdverseEventService {
   async reportAdverseEvent(
     report: Omit<IAdverseEventReport, 'id' | 'reportedAt' | 'regulatoryDeadline' | 'reportStatus'>
   ): Promise<IAdverseEventReport> {
-    const id = this.nextEventId++;
     const reportedAt = new Date();
 
     // Calculate regulatory deadline
@@ -319,22 +347,21 @@ export class AdverseEventService {
     const regulatoryDeadline = new Date(reportedAt);
     regulatoryDeadline.setDate(regulatoryDeadline.getDate() + deadlineDays);
 
-    const fullReport: IAdverseEventReport = {
+    const entity = await this.repository.insert(toEntity({
       ...report,
-      id,
       reportedAt,
       regulatoryDeadline,
       reportStatus: 'draft',
-    };
-
-    this.events.set(id, fullReport);
+    }));
+    const fullReport = fromEntity(entity);
+    const id = entity.id!;
 
     // Log to console (audit trail)
     this.logAEAction('REPORT_CREATED', fullReport);
 
     // Create safety alert if serious
     if (fullReport.isSerious) {
-      this.createSafetyAlert({
+      await this.createSafetyAlert({
         type: 'SERIOUS_AE',
         severity: 'critical',
         userId: fullReport.userId,
@@ -347,7 +374,7 @@ export class AdverseEventService {
 
     // Check for SUSAR (unexpected serious)
     if (fullReport.isSerious && fullReport.expectedness === 'unexpected') {
-      this.createSafetyAlert({
+      await this.createSafetyAlert({
         type: 'SUSAR',
         severity: 'critical',
         userId: fullReport.userId,
@@ -363,26 +390,50 @@ export class AdverseEventService {
 
   /**
    * Update existing AE report
+   * Changed fields are recorded as the next numbered follow-up
    */
   async updateAdverseEvent(
     id: number,
     updates: Partial<IAdverseEventReport>
   ): Promise<IAdverseEventReport | null> {
-    const existing = this.events.get(id);
+    const existing = await this.getReportById(id);
     if (!existing) return null;
 
-    const updated: IAdverseEventReport = {
-      ...existing,
-      ...updates,
-      lastUpdatedAt: new Date(),
-    };
+    const changes: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(updates)) {
+      if (IMMUTABLE_REPORT_FIELDS.includes(key as keyof IAdverseEventReport)) continue;
+      if (JSON.stringify(value) !== JSON.stringify(existing[key as keyof IAdverseEventReport])) {
+        changes[key] = value;
+      }
+    }
+
+    const recordedAt = new Date();
+    const entity = await this.repository.update(id, toEntity({ ...existing, ...changes } as IAdverseEventReport));
+    if (!entity) return null;
+
+    if (Object.keys(changes).length > 0) {
+      await this.repository.addFollowUp(id, JSON.stringify(changes), recordedAt);
+    }
 
-    this.events.set(id, updated);
+    const updated = fromEntity(entity);
     this.logAEAction('REPORT_UPDATED', updated);
 
     return updated;
   }
 
+  /**
+   * Get follow-ups recorded for a report
+   */
+  async getFollowUps(id: number): Promise<IAdverseEventFollowUp[]> {
+    const followUps = await this.repository.findFollowUps(id);
+    return followUps.map((followUp) => ({
+      eventId: followUp.eventId,
+      followUpNumber: followUp.followUpNumber,
+      changes: JSON.parse(followUp.changesJson) as Record<string, unknown>,
+      recordedAt: followUp.recordedAt,
+    }));
+  }
+
   /**
    * Auto-detect potential AE from ISI score change
    * Called after each ISI assessment
@@ -397,7 +448,7 @@ export class AdverseEventService {
 
     if (isiIncrease >= AE_CONFIG.isiWorseningThreshold) {
       // Create safety alert
-      this.createSafetyAlert({
+      await this.createSafetyAlert({
         type: 'ISI_WORSENING',
         severity: 'warning',
         userId,
@@ -598,38 +649,46 @@ export class AdverseEventService {
   /**
    * Create safety alert
    */
-  private createSafetyAlert(alert: ISafetyAlert): void {
-    this.alerts.push(alert);
+  private async createSafetyAlert(alert: ISafetyAlert): Promise<ISafetyAlert> {
+    const stored = await this.repository.insertAlert({
+      alertType: alert.type,
+      severity: alert.severity,
+      userId: alert.userId,
+      userDisplayName: alert.userDisplayName,
+      message: alert.message,
+      eventId: alert.eventId,
+      acknowledged: alert.acknowledged,
+      acknowledgedBy: alert.acknowledgedBy,
+      acknowledgedAt: alert.acknowledgedAt,
+      deletedAt: null,
+    });
     console.log(
       `[AE Service] SAFETY ALERT: ${alert.type} | ${alert.severity} | User: ${alert.userId} | ${alert.message}`
     );
+    return fromAlertEntity(stored);
   }
 
   /**
    * Get all unacknowledged safety alerts
    */
-  getUnacknowledgedAlerts(): ISafetyAlert[] {
-    return this.alerts.filter((a) => !a.acknowledged);
+  async getUnacknowledgedAlerts(): Promise<ISafetyAlert[]> {
+    const alerts = await this.repository.findAlerts({ unacknowledgedOnly: true });
+    return alerts.map(fromAlertEntity);
   }
 
   /**
    * Get all safety alerts
    */
-  getAllAlerts(limit: number = 100): ISafetyAlert[] {
-    return this.alerts.slice(-limit);
+  async getAllAlerts(limit: number = 100): Promise<ISafetyAlert[]> {
+    const alerts = await this.repository.findAlerts({ limit });
+    return alerts.map(fromAlertEntity);
   }
 
   /**
    * Acknowledge safety alert
    */
-  acknowledgeAlert(index: number, acknowledgedBy: string): boolean {
-    if (index < 0 || index >= this.alerts.length) return false;
-
-    this.alerts[index].acknowledged = true;
-    this.alerts[index].acknowledgedBy = acknowledgedBy;
-    this.alerts[index].acknowledgedAt = new Date();
-
-    return true;
+  async acknowledgeAlert(alertId: number, acknowledgedBy: string): Promise<boolean> {
+    return this.repository.acknowledgeAlert(alertId, acknowledgedBy, new Date());
   }
 
   // ==================== Deadline Monitoring ====================
@@ -638,21 +697,24 @@ export class AdverseEventService {
    * Check for approaching deadlines
    * Should be called daily by cron job
    */
-  checkDeadlines(): ISafetyAlert[] {
+  async checkDeadlines(): Promise<ISafetyAlert[]> {
     const now = new Date();
     const newAlerts: ISafetyAlert[] = [];
 
-    for (const [id, event] of this.events) {
+    for (const event of (await this.repository.findOpenWithDeadline()).map(fromEntity)) {
+      const id = event.id!;
       if (!event.regulatoryDeadline) continue;
-      if (event.reportStatus === 'closed') continue;
-      if (event.reportStatus === 'submitted_roszdravnadzor') continue;
 
       const daysUntilDeadline = Math.ceil(
         (event.regulatoryDeadline.getTime() - now.getTime()) / (1000 * 60 * 60 * 24)
       );
 
       if (daysUntilDeadline <= AE_CONFIG.deadlineReminderDays && daysUntilDeadline > 0) {
-        const alert: ISafetyAlert = {
+        // Avoid duplicate alerts
+        const existingAlert = await this.repository.findOpenAlert('DEADLINE_APPROACHING', id);
+        if (existingAlert) continue;
+
+        const alert = await this.createSafetyAlert({
           type: 'DEADLINE_APPROACHING',
           severity: daysUntilDeadline <= 1 ? 'critical' : 'warning',
           userId: event.userId,
@@ -660,16 +722,8 @@ export class AdverseEventService {
           eventId: id,
           createdAt: new Date(),
           acknowledged: false,
-        };
-
-        // Avoid duplicate alerts
-        const existingAlert = this.alerts.find(
-          (a) => a.type === 'DEADLINE_APPROACHING' && a.eventId === id && !a.acknowledged
-        );
-        if (!existingAlert) {
-          this.createSafetyAlert(alert);
-          newAlerts.push(alert);
-        }
+        });
+        newAlerts.push(alert);
       }
     }
 
@@ -681,45 +735,44 @@ export class AdverseEventService {
   /**
    * Get all AE reports
    */
-  getAllReports(filters?: {
+  async getAllReports(filters?: {
     userId?: string;
     isSerious?: boolean;
     status?: ReportStatus;
-  }): IAdverseEventReport[] {
-    let reports = Array.from(this.events.values());
-
-    if (filters?.userId) {
-      reports = reports.filter((r) => r.userId === filters.userId);
-    }
-    if (filters?.isSerious !== undefined) {
-      reports = reports.filter((r) => r.isSerious === filters.isSerious);
-    }
-    if (filters?.status) {
-      reports = reports.filter((r) => r.reportStatus === filters.status);
-    }
-
-    return reports.sort((a, b) => b.reportedAt.getTime() - a.reportedAt.getTime());
+    /** Inclusive reportedAt range */
+    from?: Date;
+    to?: Date;
+  }): Promise<IAdverseEventReport[]> {
+    const entities = await this.repository.findReports({
+      userId: filters?.userId,
+      isSerious: filters?.isSerious,
+      reportStatus: filters?.status,
+      reportedFrom: filters?.from,
+      reportedTo: filters?.to,
+    });
+    return entities.map(fromEntity);
   }
 
   /**
    * Get AE report by ID
    */
-  getReportById(id: number): IAdverseEventReport | undefined {
-    return this.events.get(id);
+  async getReportById(id: number): Promise<IAdverseEventReport | undefined> {
+    const entity = await this.repository.findById(id);
+    return entity ? fromEntity(entity) : undefined;
   }
 
   /**
    * Get AE statistics for dashboard
    */
-  getStatistics(): {
+  async getStatistics(): Promise<{
     total: number;
     serious: number;
     nonSerious: number;
     pending: number;
     byCategory: Record<string, number>;
     bySeverity: Record<string, number>;
-  } {
-    const reports = Array.from(this.events.values());
+  }> {
+    const reports = await this.getAllReports();
 
     const byCategory: Record<string, number> = {};
     const bySeverity: Record<string, number> = { mild: 0, moderate: 0, severe: 0 };
@@ -749,10 +802,12 @@ export class AdverseEventService {
    * Export AE report in CIOMS-like format
    * For regulatory submission
    */
-  exportCIOMSFormat(id: number): string | null {
-    const report = this.events.get(id);
+  async exportCIOMSFormat(id: number): Promise<string | null> {
+    const report = await this.getReportById(id);
     if (!report) return null;
 
+    const followUps = await this.getFollowUps(id);
+
     const lines = [
       '========== CIOMS FORM I - ADVERSE EVENT REPORT ==========',
       '',
@@ -801,6 +856,10 @@ export class AdverseEventService {
       `Status: ${report.reportStatus}`,
       report.regulatoryDeadline ? `Deadline: ${report.regulatoryDeadline.toISOString().split('T')[0]}` : '',
       '',
+      followUps.length ? '--- FOLLOW-UPS ---' : '',
+      ...followUps.map((f) =>
+        `Follow-up #${f.followUpNumber} (${f.recordedAt.toISOString().split('T')[0]}): ${Object.keys(f.changes).join(', ')}`
+      ),
       '==========================================================',
     ];
 
@@ -821,10 +880,112 @@ export class AdverseEventService {
   }
 }
 
+// ==================== Persistence Mapping ====================
+
+/**
+ * Report fields that follow-ups never change
+ */
+const IMMUTABLE_REPORT_FIELDS: (keyof IAdverseEventReport)[] = ['id', 'reportedAt', 'lastUpdatedAt'];
+
+/**
+ * Map report to repository entity
+ */
+function toEntity(report: IAdverseEventReport): Omit<IAdverseEventEntity, 'id' | 'createdAt' | 'updatedAt'> {
+  return {
+    userId: report.userId,
+    userInternalId: report.userInternalId,
+    ciomsJson: JSON.stringify(report.cioms),
+    reactionTerm: report.cioms.reactionTerm,
+    severity: report.severity,
+    isSerious: report.isSerious,
+    seriousnessCriteriaJson: report.seriousnessCriteria ? JSON.stringify(report.seriousnessCriteria) : undefined,
+    expectedness: report.expectedness,
+    dtxCategory: report.dtxCategory,
+    customTerm: report.customTerm,
+    description: report.description,
+    onsetDate: report.onsetDate,
+    resolutionDate: report.resolutionDate,
+    outcome: report.outcome,
+    causality: report.causality,
+    actionTaken: report.actionTaken,
+    currentIsi: report.currentISI,
+    baselineIsi: report.baselineISI,
+    currentWeek: report.currentWeek,
+    reportStatus: report.reportStatus,
+    regulatoryDeadline: report.regulatoryDeadline,
+    submittedToRoszdravnadzor: report.submittedToRoszdravnadzor,
+    submittedToEthics: report.submittedToEthics,
+    reportedAt: report.reportedAt,
+    reportedBy: report.reportedBy,
+    notes: report.notes,
+    deletedAt: null,
+  };
+}
+
+/**
+ * Map repository entity to report
+ */
+function fromEntity(entity: IAdverseEventEntity): IAdverseEventReport {
+  const cioms = JSON.parse(entity.ciomsJson) as Omit<ICIOMSMinimumData, 'reactionOnsetDate'> & {
+    reactionOnsetDate: string;
+  };
+
+  return {
+    id: entity.id,
+    userId: entity.userId,
+    userInternalId: entity.userInternalId,
+    cioms: { ...cioms, reactionOnsetDate: new Date(cioms.reactionOnsetDate) },
+    severity: entity.severity as AESeverity,
+    isSerious: entity.isSerious,
+    seriousnessCriteria: entity.seriousnessCriteriaJson
+      ? (JSON.parse(entity.seriousnessCriteriaJson) as SeriousnessCriteria[])
+      : undefined,
+    expectedness: entity.expectedness as Expectedness,
+    dtxCategory: entity.dtxCategory as keyof typeof DTX_AE_CATEGORIES | undefined,
+    customTerm: entity.customTerm,
+    description: entity.description,
+    onsetDate: entity.onsetDate,
+    resolutionDate: entity.resolutionDate,
+    outcome: entity.outcome as AEOutcome,
+    causality: entity.causality as CausalityAssessment,
+    actionTaken: entity.actionTaken as ActionTaken,
+    currentISI: entity.currentIsi,
+    baselineISI: entity.baselineIsi,
+    currentWeek: entity.currentWeek,
+    reportStatus: entity.reportStatus as ReportStatus,
+    regulatoryDeadline: entity.regulatoryDeadline,
+    submittedToRoszdravnadzor: entity.submittedToRoszdravnadzor,
+    submittedToEthics: entity.submittedToEthics,
+    reportedAt: entity.reportedAt,
+    reportedBy: entity.reportedBy as IAdverseEventReport['reportedBy'],
+    lastUpdatedAt: entity.updatedAt,
+    notes: entity.notes,
+  };
+}
+
+/**
+ * Map repository alert entity to safety alert
+ */
+function fromAlertEntity(entity: ISafetyAlertEntity): ISafetyAlert {
+  return {
+    id: entity.id,
+    type: entity.alertType as ISafetyAlert['type'],
+    severity: entity.severity as ISafetyAlert['severity'],
+    userId: entity.userId,
+    userDisplayName: entity.userDisplayName,
+    message: entity.message,
+    eventId: entity.eventId,
+    createdAt: entity.createdAt ?? new Date(),
+    acknowledged: entity.acknowledged,
+    acknowledgedBy: entity.acknowledgedBy,
+    acknowledgedAt: entity.acknowledgedAt,
+  };
+}
+
 // ==================== Factory ====================
 
 export function createAdverseEventService(db: IDatabaseConnection): AdverseEventService {
-  return new AdverseEventService(db);
+  return new AdverseEventService(new AdverseEventRepository(db));
 }
 
 export default AdverseEventService;
@@ -154,6 +154,15 @@ export interface IAnonymizedDiaryEntry {
   timeInBed?: number; // minutes
   sleepEfficiency?: number; // percentage
   sleepQuality?: number; // 1-5
+  // Consensus Sleep Diary items (undefined = not reported)
+  napCount?: number;
+  napMinutes?: number;
+  caffeineDrinks?: number;
+  lastCaffeineTime?: string; // HH:MM only
+  alcoholDrinks?: number;
+  sleepMedications?: Array<{ type: string; dose: number; unit: string }>; // names dropped
+  earlyAwakeningMinutes?: number;
+  exerciseTiming?: string;
 }
 
 /**
@@ -280,7 +289,7 @@ export class AnonymizedDataExportService {
       '',
       '2. What data will be shared?',
       `   - ${config.includeISI ? 'ISI assessment scores' : ''}`,
-      `   - ${config.includeDiary ? 'Sleep diary metrics (anonymized times)' : ''}`,
+      `   - ${config.includeDiary ? 'Sleep diary metrics (anonymized times, naps, caffeine, alcohol, sleep medication class and dose)' : ''}`,
       `   - ${config.includeSessions ? 'Therapy session completion data' : ''}`,
       `   - ${config.includeAdverseEvents ? 'Adverse event reports (de-identified)' : ''}`,
       '',
@@ -342,7 +351,10 @@ export class AnonymizedDataExportService {
           `SELECT d.id, d.user_id, d.date, d.bedtime, d.wake_time,
                   d.sleep_onset_latency, d.wake_after_sleep_onset,
                   d.total_sleep_time, d.time_in_bed, d.sleep_efficiency,
-                  d.sleep_quality, d.created_at
+                  d.sleep_quality, d.nap_count, d.nap_minutes,
+                  d.caffeine_drinks, d.last_caffeine_time, d.alcohol_drinks,
+                  d.sleep_medications_json, d.early_awakening_minutes,
+                  d.exercise_timing, d.created_at
            FROM sleep_diary_entries d
            JOIN users u ON d.user_id = u.id
            WHERE d.deleted_at IS NULL AND u.consent_given = 1`
@@ -607,10 +619,35 @@ export class AnonymizedDataExportService {
         timeInBed: diary.time_in_bed as number | undefined,
         sleepEfficiency: diary.sleep_efficiency as number | undefined,
         sleepQuality: diary.sleep_quality as number | undefined,
+        napCount: (diary.nap_count as number | null) ?? undefined,
+        napMinutes: (diary.nap_minutes as number | null) ?? undefined,
+        caffeineDrinks: (diary.caffeine_drinks as number | null) ?? undefined,
+        lastCaffeineTime: diary.last_caffeine_time
+          ? this.anonymizeTime(diary.last_caffeine_time as string)
+          : undefined,
+        alcoholDrinks: (diary.alcohol_drinks as number | null) ?? undefined,
+        sleepMedications: this.anonymizeMedications(diary.sleep_medications_json as string | null),
+        earlyAwakeningMinutes: (diary.early_awakening_minutes as number | null) ?? undefined,
+        exerciseTiming: (diary.exercise_timing as string | null) ?? undefined,
       };
     });
   }
 
+  /**
+   * Keep medication class and dose; free-text names may identify a participant
+   */
+  private anonymizeMedications(
+    json: string | null | undefined
+  ): IAnonymizedDiaryEntry['sleepMedications'] {
+    if (!json) return undefined;
+    try {
+      const medications = JSON.parse(json) as Array<{ type: string; dose: number; unit: string }>;
+      return medications.map(({ type, dose, unit }) => ({ type, dose, unit }));
+    } catch {
+      return undefined;
+    }
+  }
+
   /**
    * Anonymize adverse events
    */
@@ -782,11 +819,23 @@ export class AnonymizedDataExportService {
     if (dataset.diaryEntries && dataset.diaryEntries.length > 0) {
       sections.push('# SLEEP_DIARY');
       sections.push(
-        'participant_id,entry_date,day_number,week_number,bedtime,waketime,sol_min,waso_min,tst_min,tib_min,se_pct,quality'
+        'participant_id,entry_date,day_number,week_number,bedtime,waketime,sol_min,waso_min,tst_min,tib_min,se_pct,quality,' +
+          'nap_count,nap_min,caffeine_drinks,last_caffeine,alcohol_drinks,medications,early_awakening_min,exercise'
       );
       for (const d of dataset.diaryEntries) {
+        // Reported zeros are kept; only unreported items are blank
+        const csd = [
+          d.napCount,
+          d.napMinutes,
+          d.caffeineDrinks,
+          d.lastCaffeineTime,
+          d.alcoholDrinks,
+          d.sleepMedications?.map((m) => `${m.type} ${m.dose}${m.unit}`).join('|'),
+          d.earlyAwakeningMinutes,
+          d.exerciseTiming,
+        ].map((v) => (v === undefined ? '' : String(v)));
         sections.push(
-          `${d.participantId},${d.entryDate},${d.dayNumber},${d.weekNumber},${d.bedtime || ''},${d.waketime || ''},${d.sleepOnsetLatency || ''},${d.wakeAfterSleepOnset || ''},${d.totalSleepTime || ''},${d.timeInBed || ''},${d.sleepEfficiency || ''},${d.sleepQuality || ''}`
+          `${d.participantId},${d.entryDate},${d.dayNumber},${d.weekNumber},${d.bedtime || ''},${d.waketime || ''},${d.sleepOnsetLatency || ''},${d.wakeAfterSleepOnset || ''},${d.totalSleepTime || ''},${d.timeInBed || ''},${d.sleepEfficiency || ''},${d.sleepQuality || ''},${csd.join(',')}`
         );
       }
       sections.push('');
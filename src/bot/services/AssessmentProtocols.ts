@@ -0,0 +1,188 @@
+/**
+ * Assessment Protocols
+ * ====================
+ * Declarative assessment schedules per cohort / study arm, evaluated by
+ * ISISchedulingService for every enrolled user.
+ *
+ * A protocol lists, per instrument:
+ * - Weeks from enrollment at which the instrument is administered
+ * - Window around each timepoint (days before / after the target day)
+ * - Reminder policy (follow-up cadence and cap)
+ * - Missed-assessment handling once the window closes
+ *
+ * Research basis:
+ * - dCBT-I trials: ISI at baseline, W2-W8, W12 (Somryst DREAM, Sleepio SAC)
+ * - ePRO visit windows: ±3 days for weekly, ±7 days for follow-up visits
+ *   (FDA PRO Guidance 2009; ISPOR ePRO Good Research Practices)
+ *
+ * @packageDocumentation
+ * @module @sleepcore/bot/services
+ */
+
+import type { IAssessmentEntity } from '../../infrastructure/database/interfaces/IRepository';
+
+// ==================== Types ====================
+
+/**
+ * Instrument delivered by a protocol (matches assessments.type)
+ */
+export type ScheduledInstrument = Extract<
+  IAssessmentEntity['type'],
+  'isi' | 'psqi' | 'ess' | 'dbas' | 'phq9' | 'gad7'
+>;
+
+/**
+ * What happens when a timepoint window closes without a response
+ * - mark_missed: record the timepoint as missed and move to the next one
+ * - allow_late: keep offering it until the next timepoint of the same
+ *   instrument opens; a response after the window is recorded as late
+ */
+export type MissedAssessmentPolicy = 'mark_missed' | 'allow_late';
+
+/**
+ * Window around a timepoint, in days relative to week * 7
+ */
+export interface IAssessmentWindow {
+  readonly daysBefore: number;
+  readonly daysAfter: number;
+}
+
+/**
+ * Follow-up reminder policy
+ */
+export interface IReminderPolicy {
+  /** Days between the first notification and each follow-up */
+  readonly everyDays: number;
+  /** Follow-ups sent per timepoint after the first notification */
+  readonly maxFollowUps: number;
+}
+
+/**
+ * One instrument's schedule within a protocol
+ */
+export interface IScheduledInstrument {
+  readonly instrument: ScheduledInstrument;
+  /** Weeks from enrollment (0 = baseline), ascending */
+  readonly weeks: readonly number[];
+  readonly window?: IAssessmentWindow;
+  readonly reminders?: IReminderPolicy;
+  readonly missedPolicy?: MissedAssessmentPolicy;
+}
+
+/**
+ * Assessment protocol for a cohort or study arm
+ */
+export interface IAssessmentProtocol {
+  readonly id: string;
+  readonly name: string;
+  readonly description?: string;
+  readonly schedules: readonly IScheduledInstrument[];
+  /** Defaults for schedules that do not override them */
+  readonly window: IAssessmentWindow;
+  readonly reminders: IReminderPolicy;
+  readonly missedPolicy: MissedAssessmentPolicy;
+}
+
+/**
+ * Instrument schedule with protocol defaults applied
+ */
+export interface IResolvedSchedule {
+  readonly instrument: ScheduledInstrument;
+  readonly weeks: readonly number[];
+  readonly window: IAssessmentWindow;
+  readonly reminders: IReminderPolicy;
+  readonly missedPolicy: MissedAssessmentPolicy;
+}
+
+// ==================== Built-in Protocols ====================
+
+/**
+ * Default protocol: biweekly ISI through end of treatment, week 12 follow-up.
+ * Open-ended windows keep the original behaviour of offering an overdue
+ * ISI until it is completed or the next timepoint arrives.
+ */
+export const STANDARD_PROTOCOL: IAssessmentProtocol = {
+  id: 'standard',
+  name: 'Standard dCBT-I',
+  description: 'ISI at baseline, weeks 2, 4, 6, 8 and 12',
+  schedules: [
+    { instrument: 'isi', weeks: [0, 2, 4, 6, 8, 12] },
+  ],
+  window: { daysBefore: 0, daysAfter: 6 },
+  reminders: { everyDays: 1, maxFollowUps: 3 },
+  missedPolicy: 'allow_late',
+};
+
+/**
+ * Research protocol: weekly ISI in the first month, mood screening at
+ * baseline and end of treatment, 6-month follow-up.
+ */
+export const INTENSIVE_RESEARCH_PROTOCOL: IAssessmentProtocol = {
+  id: 'intensive_research',
+  name: 'Intensive research arm',
+  description: 'Weekly ISI in month 1, PHQ-9 at baseline and week 8, 6-month follow-up',
+  schedules: [
+    { instrument: 'isi', weeks: [0, 1, 2, 3, 4, 6, 8, 12, 26], window: { daysBefore: 0, daysAfter: 3 } },
+    { instrument: 'phq9', weeks: [0, 8, 26] },
+    { instrument: 'gad7', weeks: [0, 8, 26] },
+  ],
+  window: { daysBefore: 3, daysAfter: 3 },
+  reminders: { everyDays: 1, maxFollowUps: 2 },
+  missedPolicy: 'mark_missed',
+};
+
+/**
+ * Protocols available without configuration
+ */
+export const BUILT_IN_PROTOCOLS: readonly IAssessmentProtocol[] = [
+  STANDARD_PROTOCOL,
+  INTENSIVE_RESEARCH_PROTOCOL,
+];
+
+export const DEFAULT_PROTOCOL_ID = STANDARD_PROTOCOL.id;
+
+// ==================== Helpers ====================
+
+/**
+ * Apply protocol defaults to each instrument schedule
+ */
+export function resolveSchedules(protocol: IAssessmentProtocol): IResolvedSchedule[] {
+  return protocol.schedules.map((schedule) => ({
+    instrument: schedule.instrument,
+    weeks: [...schedule.weeks].sort((a, b) => a - b),
+    window: schedule.window ?? protocol.window,
+    reminders: schedule.reminders ?? protocol.reminders,
+    missedPolicy: schedule.missedPolicy ?? protocol.missedPolicy,
+  }));
+}
+
+/**
+ * Validate a protocol definition
+ * @throws Error describing the first problem found
+ */
+export function validateProtocol(protocol: IAssessmentProtocol): void {
+  if (!protocol.id) {
+    throw new Error('Assessment protocol requires an id');
+  }
+  if (protocol.schedules.length === 0) {
+    throw new Error(`Protocol ${protocol.id}: no instruments scheduled`);
+  }
+
+  const seen = new Set<string>();
+  for (const schedule of resolveSchedules(protocol)) {
+    if (seen.has(schedule.instrument)) {
+      throw new Error(`Protocol ${protocol.id}: ${schedule.instrument} scheduled twice`);
+    }
+    seen.add(schedule.instrument);
+
+    if (schedule.weeks.length === 0 || schedule.weeks.some((w) => !Number.isInteger(w) || w < 0)) {
+      throw new Error(`Protocol ${protocol.id}: ${schedule.instrument} weeks must be non-negative integers`);
+    }
+    if (schedule.window.daysBefore < 0 || schedule.window.daysAfter < 0) {
+      throw new Error(`Protocol ${protocol.id}: ${schedule.instrument} window must not be negative`);
+    }
+    if (schedule.reminders.everyDays < 1 || schedule.reminders.maxFollowUps < 0) {
+      throw new Error(`Protocol ${protocol.id}: ${schedule.instrument} reminder policy is invalid`);
+    }
+  }
+}
@@ -34,6 +34,7 @@ import {
   CrisisDetectorConfig,
   StateRiskData,
 } from '@cognicore/engine';
+import type { IItemAlert } from '../../assessment';
 
 // ============================================================================
 // TYPES & INTERFACES
@@ -102,6 +103,11 @@ export const DEFAULT_CRISIS_SERVICE_CONFIG: ICrisisDetectionServiceConfig = {
   adminUserIds: [],
 };
 
+/**
+ * Questionnaire alert answer treated as critical (PHQ-9 item 9 "nearly every day")
+ */
+const QUESTIONNAIRE_CRITICAL_VALUE = 3;
+
 // ============================================================================
 // CRISIS RESPONSE MESSAGES
 // ============================================================================
@@ -257,6 +263,42 @@ export class CrisisDetectionService {
     };
   }
 
+  /**
+   * Turn a questionnaire safety alert (PHQ-9 item 9) into a crisis event
+   * Any positive answer needs clinician follow-up; "nearly every day" is critical
+   *
+   * @param userId - User identifier
+   * @param chatId - Chat identifier
+   * @param alert - Alert raised by the scored questionnaire
+   * @param value - Answer given to the alert item
+   * @returns Logged crisis event, ready for escalation
+   */
+  analyzeQuestionnaireAlert(
+    userId: string,
+    chatId: string,
+    alert: IItemAlert,
+    value: number
+  ): ICrisisEvent {
+    const severity: CrisisSeverity = value >= QUESTIONNAIRE_CRITICAL_VALUE ? 'critical' : 'high';
+    const action: CrisisAction = severity === 'critical' ? 'emergency' : 'interrupt';
+
+    const event: ICrisisEvent = {
+      userId,
+      chatId,
+      timestamp: new Date(),
+      severity,
+      crisisType: alert.type,
+      confidence: 1,
+      action,
+      messageText: `${alert.itemId}=${value}`,
+      indicators: [`questionnaire:${alert.itemId}`],
+      responseProvided: true,
+    };
+
+    this.logEvent(event);
+    return event;
+  }
+
   /**
    * Quick check for crisis indicators
    * Use for fast pre-screening before full analysis
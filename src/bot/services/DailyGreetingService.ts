@@ -22,6 +22,7 @@
  */
 
 import { InlineKeyboard } from 'grammy';
+import { DEFAULT_TIMEZONE, getLocalHour } from './ZonedTime';
 
 // ==================== Types ====================
 
@@ -178,16 +179,6 @@ function getTimeOfDay(hour?: number): TimeOfDay {
   return 'night';
 }
 
-/**
- * Get current Moscow hour
- */
-function getMoscowHour(): number {
-  const now = new Date();
-  const moscowOffset = 3 * 60; // UTC+3
-  const localOffset = now.getTimezoneOffset();
-  const moscowTime = new Date(now.getTime() + (moscowOffset + localOffset) * 60 * 1000);
-  return moscowTime.getHours();
-}
 
 /**
  * Get random item from array
@@ -280,9 +271,10 @@ export class DailyGreetingService {
 
   /**
    * Generate simple greeting without mood check
+   * @param timezone - User's IANA timezone, used when timeOfDay is not given
    */
-  generateSimple(userName?: string, timeOfDay?: TimeOfDay): string {
-    const tod = timeOfDay ?? getTimeOfDay(getMoscowHour());
+  generateSimple(userName?: string, timeOfDay?: TimeOfDay, timezone: string = DEFAULT_TIMEZONE): string {
+    const tod = timeOfDay ?? getTimeOfDay(getLocalHour(timezone));
     const greetings = this.getGreetingsForTime(tod);
     const greeting = randomFrom(greetings);
 
@@ -402,10 +394,10 @@ export class DailyGreetingService {
   }
 
   /**
-   * Get current time of day
+   * Get current time of day in the user's timezone (Moscow by default)
    */
-  getCurrentTimeOfDay(): TimeOfDay {
-    return getTimeOfDay(getMoscowHour());
+  getCurrentTimeOfDay(timezone: string = DEFAULT_TIMEZONE): TimeOfDay {
+    return getTimeOfDay(getLocalHour(timezone));
   }
 
   /**
@@ -0,0 +1,604 @@
+/**
+ * E2B(R3) Export Service
+ * ======================
+ * Builds ICH E2B(R3) Individual Case Safety Reports (ICSR) from stored
+ * adverse event reports for submission to regulators and sponsor safety
+ * databases.
+ *
+ * Research basis:
+ * - ICH E2B(R3) Implementation Guide v5.02: HL7 v3 ICSR message (PORR_IN049016UV)
+ *   wrapped in a batch (MCCI_IN200100UV01)
+ * - ICH E2B(R3) code lists (OID 2.16.840.1.113883.3.989.2.1.1.*)
+ * - MedDRA for reaction coding (OID 2.16.840.1.113883.6.163)
+ * - ISO 5218 for patient sex
+ *
+ * Notes:
+ * - Patient name is masked (nullFlavor MSK) unless initials were reported
+ * - Reactions without a known MedDRA code are sent with the verbatim term
+ *   and nullFlavor UNK so the receiving safety database can code them
+ *
+ * @packageDocumentation
+ * @module @sleepcore/bot/services
+ */
+
+import { randomUUID } from 'crypto';
+import type {
+  AdverseEventService,
+  IAdverseEventReport,
+  SeriousnessCriteria,
+  AEOutcome,
+  ActionTaken,
+  DTX_AE_CATEGORIES,
+} from './AdverseEventService';
+
+// ==================== Constants ====================
+
+/**
+ * E2B(R3) object identifiers
+ */
+export const E2B_OID = {
+  hl7Interaction: '2.16.840.1.113883.1.6',
+  hl7TriggerEvent: '2.16.840.1.113883.1.18',
+  hl7ActCode: '2.16.840.1.113883.5.4',
+  batchNumber: '2.16.840.1.113883.3.989.2.1.3.22',
+  batchSender: '2.16.840.1.113883.3.989.2.1.3.13',
+  batchReceiver: '2.16.840.1.113883.3.989.2.1.3.14',
+  messageNumber: '2.16.840.1.113883.3.989.2.1.3.1',
+  messageSender: '2.16.840.1.113883.3.989.2.1.3.11',
+  messageReceiver: '2.16.840.1.113883.3.989.2.1.3.12',
+  reportId: '2.16.840.1.113883.3.989.2.1.3.1',
+  worldwideCaseId: '2.16.840.1.113883.3.989.2.1.3.2',
+  messageType: '2.16.840.1.113883.3.989.2.1.1.1',
+  reportType: '2.16.840.1.113883.3.989.2.1.1.2',
+  qualification: '2.16.840.1.113883.3.989.2.1.1.6',
+  senderType: '2.16.840.1.113883.3.989.2.1.1.7',
+  outcome: '2.16.840.1.113883.3.989.2.1.1.11',
+  drugRole: '2.16.840.1.113883.3.989.2.1.1.13',
+  actionTaken: '2.16.840.1.113883.3.989.2.1.1.15',
+  observationCode: '2.16.840.1.113883.3.989.2.1.1.19',
+  organizerCode: '2.16.840.1.113883.3.989.2.1.1.20',
+  sourceReportCode: '2.16.840.1.113883.3.989.2.1.1.22',
+  characteristicCode: '2.16.840.1.113883.3.989.2.1.1.23',
+  meddra: '2.16.840.1.113883.6.163',
+  sex: '1.0.5218',
+} as const;
+
+/**
+ * Observation codes (E2B(R3) code list 2.16.840.1.113883.3.989.2.1.1.19)
+ */
+const OBSERVATION = {
+  age: '3',
+  drugRole: '20',
+  localExpedited: '23',
+  outcome: '27',
+  reaction: '29',
+  causality: '39',
+} as const;
+
+/**
+ * Seriousness criteria observation codes (E.i.3.2a-f)
+ */
+const SERIOUSNESS_CODES: Record<SeriousnessCriteria, string> = {
+  death: '34',
+  life_threatening: '21',
+  hospitalization: '33',
+  disability: '35',
+  congenital_anomaly: '12',
+  medically_important: '26',
+};
+
+/**
+ * Reaction outcome (E.i.7)
+ */
+const OUTCOME_CODES: Record<AEOutcome, string> = {
+  recovered: '1',
+  recovering: '2',
+  not_recovered: '3',
+  recovered_with_sequelae: '4',
+  fatal: '5',
+  unknown: '0',
+};
+
+/**
+ * Action taken with the product (G.k.8)
+ * Therapy interruption has no separate code and is reported as withdrawn.
+ */
+const ACTION_TAKEN_CODES: Record<ActionTaken, string> = {
+  none: '4',
+  dose_reduced: '2',
+  temporarily_interrupted: '1',
+  permanently_discontinued: '1',
+  not_applicable: '9',
+};
+
+/**
+ * Primary source qualification (C.2.r.4)
+ */
+const QUALIFICATION_CODES: Record<IAdverseEventReport['cioms']['reporterType'], string> = {
+  patient: '5',
+  healthcare_professional: '3',
+  other: '5',
+};
+
+/**
+ * Default MedDRA Preferred Term codes for DTx AE categories.
+ * Categories without a single matching PT are left to the receiver to code.
+ */
+export const DEFAULT_MEDDRA_CODES: Partial<Record<keyof typeof DTX_AE_CATEGORIES, string>> = {
+  SYMPTOM_DETERIORATION: '10022437', // Insomnia
+  ANXIETY_INCREASE: '10002855', // Anxiety
+  EXCESSIVE_DAYTIME_SLEEPINESS: '10041349', // Somnolence
+  FATIGUE: '10016256', // Fatigue
+  HEADACHE: '10019211', // Headache
+  DIZZINESS: '10013573', // Dizziness
+  SUICIDAL_IDEATION: '10042458', // Suicidal ideation
+  ACCIDENT_INJURY: '10022116', // Injury
+  WITHDRAWAL_SYMPTOMS: '10013754', // Drug withdrawal syndrome
+};
+
+// ==================== Types ====================
+
+/**
+ * Sender/receiver configuration (N.1.3, N.1.4, C.3)
+ */
+export interface IE2BExportConfig {
+  /** Sender identifier (N.1.3 / N.2.r.2) */
+  senderId: string;
+  /** Sender organisation name (C.3.2) */
+  senderOrganization: string;
+  /** Receiver identifier (N.1.4 / N.2.r.3) */
+  receiverId: string;
+  /** ISO 3166 country of the primary source, used in case ids */
+  countryCode: string;
+  /** MedDRA version of the reaction codes */
+  meddraVersion: string;
+  /** MedDRA codes per DTx category */
+  meddraCodes: Partial<Record<keyof typeof DTX_AE_CATEGORIES, string>>;
+  /** Time source for creation timestamps */
+  now: () => Date;
+}
+
+/**
+ * Default configuration for the SleepCore clinical pilot
+ */
+export const DEFAULT_E2B_CONFIG: IE2BExportConfig = {
+  senderId: 'SLEEPCORE',
+  senderOrganization: 'SleepCore DTx',
+  receiverId: 'ROSZDRAVNADZOR',
+  countryCode: 'RU',
+  meddraVersion: '27.0',
+  meddraCodes: DEFAULT_MEDDRA_CODES,
+  now: () => new Date(),
+};
+
+/**
+ * Report that could not be exported
+ */
+export interface IE2BSkippedReport {
+  id?: number;
+  reason: string;
+}
+
+/**
+ * Batch export result
+ */
+export interface IE2BExportResult {
+  /** E2B(R3) batch XML (MCCI_IN200100UV01) */
+  xml: string;
+  fileName: string;
+  batchId: string;
+  /** Sender's safety report ids (C.1.1) in batch order */
+  reportIds: string[];
+  skipped: IE2BSkippedReport[];
+}
+
+// ==================== E2B Export Service ====================
+
+/**
+ * E2B(R3) Export Service
+ * Maps IAdverseEventReport to ICH E2B(R3) ICSR XML
+ */
+export class E2BExportService {
+  private aeService: AdverseEventService;
+  private config: IE2BExportConfig;
+
+  constructor(aeService: AdverseEventService, config: Partial<IE2BExportConfig> = {}) {
+    this.aeService = aeService;
+    this.config = { ...DEFAULT_E2B_CONFIG, ...config };
+  }
+
+  /**
+   * Export stored reports received in a date range (inclusive) as one batch
+   */
+  async exportDateRange(from: Date, to: Date): Promise<IE2BExportResult> {
+    const reports = await this.aeService.getAllReports({ from, to });
+    // Oldest first, matching the order reports were received
+    return this.exportReports([...reports].reverse());
+  }
+
+  /**
+   * Export a single stored report
+   * @returns null if the report does not exist
+   */
+  async exportReportById(id: number): Promise<IE2BExportResult | null> {
+    const report = await this.aeService.getReportById(id);
+    return report ? this.exportReports([report]) : null;
+  }
+
+  /**
+   * Build an E2B(R3) batch from reports
+   * Reports missing the CIOMS minimum criteria are skipped
+   */
+  exportReports(reports: IAdverseEventReport[]): IE2BExportResult {
+    const createdAt = this.config.now();
+    const batchId = `${this.config.senderId}-${formatTimestamp(createdAt)}`;
+
+    const messages: string[] = [];
+    const reportIds: string[] = [];
+    const skipped: IE2BSkippedReport[] = [];
+
+    for (const report of reports) {
+      const missing = validateE2BReport(report);
+      if (missing.length > 0) {
+        skipped.push({ id: report.id, reason: `Missing required elements: ${missing.join(', ')}` });
+        continue;
+      }
+
+      const reportId = this.getSafetyReportId(report);
+      reportIds.push(reportId);
+      messages.push(this.buildMessage(report, reportId, createdAt));
+    }
+
+    const xml = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<MCCI_IN200100UV01 ITSVersion="XML_1.0" xmlns="urn:hl7-org:v3"' +
+        ' xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"' +
+        ' xsi:schemaLocation="urn:hl7-org:v3 multicacheschemas/MCCI_IN200100UV01.xsd">',
+      `<id extension="${escapeXml(batchId)}" root="${E2B_OID.batchNumber}"/>`,
+      `<creationTime value="${formatTimestamp(createdAt)}"/>`,
+      '<responseModeCode code="D"/>',
+      `<interactionId extension="MCCI_IN200100UV01" root="${E2B_OID.hl7Interaction}"/>`,
+      `<name code="1" codeSystem="${E2B_OID.messageType}"/>`,
+      ...messages,
+      device('receiver', 'RCV', this.config.receiverId, E2B_OID.batchReceiver),
+      device('sender', 'SND', this.config.senderId, E2B_OID.batchSender),
+      '</MCCI_IN200100UV01>',
+    ].join('\n');
+
+    return {
+      xml,
+      fileName: `e2b_r3_${formatTimestamp(createdAt)}.xml`,
+      batchId,
+      reportIds,
+      skipped,
+    };
+  }
+
+  /**
+   * Sender's safety report unique identifier (C.1.1): country-sender-number
+   */
+  getSafetyReportId(report: IAdverseEventReport): string {
+    return `${this.config.countryCode}-${this.config.senderId}-AE-${report.id}`;
+  }
+
+  // ==================== Message Building ====================
+
+  /**
+   * Build one ICSR message (PORR_IN049016UV)
+   */
+  private buildMessage(report: IAdverseEventReport, reportId: string, createdAt: Date): string {
+    const reactionId = randomUUID();
+    const productId = randomUUID();
+    const lastInformation = report.lastUpdatedAt ?? report.reportedAt;
+    const expedited = report.isSerious && report.expectedness === 'unexpected';
+
+    return [
+      '<PORR_IN049016UV>',
+      `<id extension="${escapeXml(reportId)}" root="${E2B_OID.messageNumber}"/>`,
+      `<creationTime value="${formatTimestamp(createdAt)}"/>`,
+      `<interactionId extension="PORR_IN049016UV" root="${E2B_OID.hl7Interaction}"/>`,
+      '<processingCode code="P"/>',
+      '<processingModeCode code="T"/>',
+      '<acceptAckCode code="AL"/>',
+      device('receiver', 'RCV', this.config.receiverId, E2B_OID.messageReceiver),
+      device('sender', 'SND', this.config.senderId, E2B_OID.messageSender),
+      '<controlActProcess classCode="CACT" moodCode="EVN">',
+      `<code code="PORR_TE049016UV" codeSystem="${E2B_OID.hl7TriggerEvent}"/>`,
+      `<effectiveTime value="${formatTimestamp(createdAt)}"/>`,
+      '<subject typeCode="SUBJ">',
+      '<investigationEvent classCode="INVSTG" moodCode="EVN">',
+      `<id extension="${escapeXml(reportId)}" root="${E2B_OID.reportId}"/>`,
+      `<id extension="${escapeXml(reportId)}" root="${E2B_OID.worldwideCaseId}"/>`,
+      `<code code="PAT_ADV_EVNT" codeSystem="${E2B_OID.hl7ActCode}"/>`,
+      `<text>${escapeXml(buildNarrative(report))}</text>`,
+      '<statusCode code="active"/>',
+      `<effectiveTime><low value="${formatTimestamp(report.reportedAt)}"/></effectiveTime>`,
+      `<availabilityTime value="${formatTimestamp(lastInformation)}"/>`,
+      '<component typeCode="COMP">',
+      '<adverseEventAssessment classCode="INVSTG" moodCode="EVN">',
+      '<subject1 typeCode="SBJ">',
+      '<primaryRole classCode="INVSBJ">',
+      this.buildPatient(report),
+      this.buildReaction(report, reactionId),
+      this.buildProduct(report, productId),
+      '</primaryRole>',
+      '</subject1>',
+      this.buildDrugRole(productId),
+      this.buildCausality(report, reactionId, productId),
+      '</adverseEventAssessment>',
+      '</component>',
+      '<component typeCode="COMP">',
+      '<observationEvent classCode="OBS" moodCode="EVN">',
+      `<code code="${OBSERVATION.localExpedited}" codeSystem="${E2B_OID.observationCode}"/>`,
+      `<value xsi:type="BL" value="${expedited}"/>`,
+      '</observationEvent>',
+      '</component>',
+      this.buildPrimarySource(report),
+      this.buildSender(),
+      '<subjectOf2 typeCode="SUBJ">',
+      '<investigationCharacteristic classCode="OBS" moodCode="EVN">',
+      `<code code="1" codeSystem="${E2B_OID.characteristicCode}"/>`,
+      // C.1.3 Type of report: 2 = report from study
+      `<value xsi:type="CE" code="2" codeSystem="${E2B_OID.reportType}"/>`,
+      '</investigationCharacteristic>',
+      '</subjectOf2>',
+      '</investigationEvent>',
+      '</subject>',
+      '</controlActProcess>',
+      '</PORR_IN049016UV>',
+    ].join('\n');
+  }
+
+  /**
+   * Patient characteristics (D.1, D.2.2, D.5)
+   */
+  private buildPatient(report: IAdverseEventReport): string {
+    const { patientInitials, patientAge, patientSex } = report.cioms;
+    const sexCode = patientSex === 'male' ? '1' : patientSex === 'female' ? '2' : null;
+
+    return [
+      '<player1 classCode="PSN" determinerCode="INSTANCE">',
+      patientInitials ? `<name>${escapeXml(patientInitials)}</name>` : '<name nullFlavor="MSK"/>',
+      sexCode
+        ? `<administrativeGenderCode code="${sexCode}" codeSystem="${E2B_OID.sex}"/>`
+        : '<administrativeGenderCode nullFlavor="UNK"/>',
+      '</player1>',
+      patientAge !== undefined
+        ? [
+            '<subjectOf2 typeCode="SBJ">',
+            '<observation classCode="OBS" moodCode="EVN">',
+            `<code code="${OBSERVATION.age}" codeSystem="${E2B_OID.observationCode}"/>`,
+            `<value xsi:type="PQ" value="${patientAge}" unit="a"/>`,
+            '</observation>',
+            '</subjectOf2>',
+          ].join('\n')
+        : '',
+    ].filter(Boolean).join('\n');
+  }
+
+  /**
+   * Reaction / event (E.i)
+   */
+  private buildReaction(report: IAdverseEventReport, reactionId: string): string {
+    const meddraCode = report.dtxCategory ? this.config.meddraCodes[report.dtxCategory] : undefined;
+    const term = escapeXml(report.customTerm || report.cioms.reactionTerm);
+    const originalText = `<originalText>${term}</originalText>`;
+    const criteria = new Set(report.isSerious ? report.seriousnessCriteria ?? [] : []);
+
+    const seriousness = (Object.keys(SERIOUSNESS_CODES) as SeriousnessCriteria[]).map((criterion) => [
+      '<outboundRelationship2 typeCode="PERT">',
+      '<observation classCode="OBS" moodCode="EVN">',
+      `<code code="${SERIOUSNESS_CODES[criterion]}" codeSystem="${E2B_OID.observationCode}"/>`,
+      criteria.has(criterion) ? '<value xsi:type="BL" value="true"/>' : '<value xsi:type="BL" nullFlavor="NI"/>',
+      '</observation>',
+      '</outboundRelationship2>',
+    ].join('\n'));
+
+    return [
+      '<subjectOf2 typeCode="SBJ">',
+      '<observation classCode="OBS" moodCode="EVN">',
+      `<id root="${reactionId}"/>`,
+      `<code code="${OBSERVATION.reaction}" codeSystem="${E2B_OID.observationCode}"/>`,
+      '<effectiveTime xsi:type="IVL_TS">',
+      `<low value="${formatDate(report.onsetDate)}"/>`,
+      report.resolutionDate ? `<high value="${formatDate(report.resolutionDate)}"/>` : '',
+      '</effectiveTime>',
+      meddraCode
+        ? `<value xsi:type="CE" code="${meddraCode}" codeSystem="${E2B_OID.meddra}" codeSystemVersion="${escapeXml(this.config.meddraVersion)}">${originalText}</value>`
+        : `<value xsi:type="CE" nullFlavor="UNK">${originalText}</value>`,
+      ...seriousness,
+      '<outboundRelationship2 typeCode="PERT">',
+      '<observation classCode="OBS" moodCode="EVN">',
+      `<code code="${OBSERVATION.outcome}" codeSystem="${E2B_OID.observationCode}"/>`,
+      `<value xsi:type="CE" code="${OUTCOME_CODES[report.outcome]}" codeSystem="${E2B_OID.outcome}"/>`,
+      '</observation>',
+      '</outboundRelationship2>',
+      '</observation>',
+      '</subjectOf2>',
+    ].filter(Boolean).join('\n');
+  }
+
+  /**
+   * Suspect product and action taken (G.k.2.2, G.k.8)
+   */
+  private buildProduct(report: IAdverseEventReport, productId: string): string {
+    const { productName, productVersion } = report.cioms;
+    const name = productVersion ? `${productName} ${productVersion}` : productName;
+
+    return [
+      '<subjectOf2 typeCode="SBJ">',
+      '<organizer classCode="CATEGORY" moodCode="EVN">',
+      `<code code="4" codeSystem="${E2B_OID.organizerCode}"/>`,
+      '<component typeCode="COMP">',
+      '<substanceAdministration classCode="SBADM" moodCode="EVN">',
+      `<id root="${productId}"/>`,
+      '<consumable typeCode="CSM">',
+      '<instanceOfKind classCode="INST">',
+      '<kindOfProduct classCode="MMAT" determinerCode="KIND">',
+      `<name>${escapeXml(name)}</name>`,
+      '</kindOfProduct>',
+      '</instanceOfKind>',
+      '</consumable>',
+      '<inboundRelationship typeCode="CAUS">',
+      '<act classCode="ACT" moodCode="EVN">',
+      `<code code="${ACTION_TAKEN_CODES[report.actionTaken]}" codeSystem="${E2B_OID.actionTaken}"/>`,
+      '</act>',
+      '</inboundRelationship>',
+      '</substanceAdministration>',
+      '</component>',
+      '</organizer>',
+      '</subjectOf2>',
+    ].join('\n');
+  }
+
+  /**
+   * Characterisation of product role (G.k.1): 1 = suspect
+   */
+  private buildDrugRole(productId: string): string {
+    return [
+      '<component typeCode="COMP">',
+      '<causalityAssessment classCode="OBS" moodCode="EVN">',
+      `<code code="${OBSERVATION.drugRole}" codeSystem="${E2B_OID.observationCode}"/>`,
+      `<value xsi:type="CE" code="1" codeSystem="${E2B_OID.drugRole}"/>`,
+      '<subject2 typeCode="SUBJ">',
+      `<productUseReference classCode="SBADM" moodCode="EVN"><id root="${productId}"/></productUseReference>`,
+      '</subject2>',
+      '</causalityAssessment>',
+      '</component>',
+    ].join('\n');
+  }
+
+  /**
+   * Relatedness of product to reaction (G.k.9.i.2.r), WHO-UMC method
+   */
+  private buildCausality(report: IAdverseEventReport, reactionId: string, productId: string): string {
+    return [
+      '<component1 typeCode="COMP">',
+      '<causalityAssessment classCode="OBS" moodCode="EVN">',
+      `<code code="${OBSERVATION.causality}" codeSystem="${E2B_OID.observationCode}"/>`,
+      `<value xsi:type="ST">${escapeXml(report.causality)}</value>`,
+      '<methodCode><originalText>WHO-UMC</originalText></methodCode>',
+      '<author typeCode="AUT">',
+      '<assignedEntity classCode="ASSIGNED">',
+      `<code><originalText>${report.reportedBy === 'clinician' ? 'Investigator' : 'Sponsor'}</originalText></code>`,
+      '</assignedEntity>',
+      '</author>',
+      '<subject1 typeCode="SUBJ">',
+      `<adverseEffectReference classCode="CAUS" moodCode="EVN"><id root="${reactionId}"/></adverseEffectReference>`,
+      '</subject1>',
+      '<subject2 typeCode="SUBJ">',
+      `<productUseReference classCode="SBADM" moodCode="EVN"><id root="${productId}"/></productUseReference>`,
+      '</subject2>',
+      '</causalityAssessment>',
+      '</component1>',
+    ].join('\n');
+  }
+
+  /**
+   * Primary source qualification (C.2.r)
+   */
+  private buildPrimarySource(report: IAdverseEventReport): string {
+    return [
+      '<outboundRelationship typeCode="SPRT">',
+      '<relatedInvestigation classCode="INVSTG" moodCode="EVN">',
+      `<code code="2" codeSystem="${E2B_OID.sourceReportCode}"/>`,
+      '<subjectOf2 typeCode="SUBJ">',
+      '<controlActEvent classCode="CACT" moodCode="EVN">',
+      '<author typeCode="AUT">',
+      '<assignedEntity classCode="ASSIGNED">',
+      `<code code="${QUALIFICATION_CODES[report.cioms.reporterType]}" codeSystem="${E2B_OID.qualification}"/>`,
+      '</assignedEntity>',
+      '</author>',
+      '</controlActEvent>',
+      '</subjectOf2>',
+      '</relatedInvestigation>',
+      '</outboundRelationship>',
+    ].join('\n');
+  }
+
+  /**
+   * Information on sender of case (C.3): 1 = pharmaceutical company
+   */
+  private buildSender(): string {
+    return [
+      '<subjectOf1 typeCode="SUBJ">',
+      '<controlActEvent classCode="CACT" moodCode="EVN">',
+      '<author typeCode="AUT">',
+      '<assignedEntity classCode="ASSIGNED">',
+      `<code code="1" codeSystem="${E2B_OID.senderType}"/>`,
+      '<representedOrganization classCode="ORG" determinerCode="INSTANCE">',
+      `<name>${escapeXml(this.config.senderOrganization)}</name>`,
+      '</representedOrganization>',
+      '</assignedEntity>',
+      '</author>',
+      '</controlActEvent>',
+      '</subjectOf1>',
+    ].join('\n');
+  }
+}
+
+// ==================== Helpers ====================
+
+/**
+ * Check CIOMS minimum criteria required for a valid ICSR
+ * @returns names of missing elements (empty when valid)
+ */
+export function validateE2BReport(report: IAdverseEventReport): string[] {
+  const missing: string[] = [];
+  if (report.id === undefined) missing.push('C.1.1 report id');
+  if (!report.cioms.reporterType) missing.push('C.2.r primary source');
+  if (!report.cioms.patientId) missing.push('D patient');
+  if (!report.cioms.productName) missing.push('G.k.2.2 product');
+  if (!(report.customTerm || report.cioms.reactionTerm)) missing.push('E.i.1 reaction');
+  return missing;
+}
+
+/**
+ * Case narrative (H.1)
+ */
+function buildNarrative(report: IAdverseEventReport): string {
+  const context = [
+    report.baselineISI !== undefined ? `Baseline ISI: ${report.baselineISI}.` : '',
+    report.currentISI !== undefined ? `Current ISI: ${report.currentISI}.` : '',
+    report.currentWeek !== undefined ? `Program week: ${report.currentWeek}.` : '',
+  ].filter(Boolean).join(' ');
+
+  return [report.description, context].filter(Boolean).join(' ');
+}
+
+function device(element: 'receiver' | 'sender', typeCode: string, id: string, root: string): string {
+  return `<${element} typeCode="${typeCode}"><device classCode="DEV" determinerCode="INSTANCE">` +
+    `<id extension="${escapeXml(id)}" root="${root}"/></device></${element}>`;
+}
+
+/**
+ * HL7 TS timestamp in UTC (YYYYMMDDHHMMSS+0000)
+ */
+function formatTimestamp(date: Date): string {
+  return `${date.toISOString().replace(/[-:T]/g, '').slice(0, 14)}+0000`;
+}
+
+/**
+ * HL7 TS date (YYYYMMDD)
+ */
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// ==================== Factory ====================
+
+export function createE2BExportService(
+  aeService: AdverseEventService,
+  config?: Partial<IE2BExportConfig>
+): E2BExportService {
+  return new E2BExportService(aeService, config);
+}
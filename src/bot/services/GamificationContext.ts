@@ -14,11 +14,16 @@
 
 import { EventEmitter } from 'events';
 import type { IGamificationEngine } from '../../modules/gamification';
+import type { IQuestCompletionResult } from '../../modules/quests';
+import type { ICriteriaDataSource } from '../../modules/quests/CriteriaDataSource';
+import type { IDatabaseConnection } from '../../infrastructure/database/interfaces/IDatabaseConnection';
+import type { ICommandResult, ISleepCoreContext } from '../commands/interfaces/ICommand';
 import { GamificationEngine } from '../../modules/gamification';
 import { GamificationRepository } from '../../infrastructure/database/repositories/GamificationRepository';
 import { SQLiteConnection } from '../../infrastructure/database/sqlite/SQLiteConnection';
 import { SQLiteMigration } from '../../infrastructure/database/sqlite/SQLiteMigration';
 import { MIGRATIONS } from '../../infrastructure/database/migrations';
+import { loadGamificationDefinitions } from '../../modules/quests/DefinitionLoader';
 
 /**
  * GamificationContext singleton
@@ -49,6 +54,22 @@ class GamificationContextClass {
     this.initializing = null;
   }
 
+  /**
+   * Use the bot's own (already migrated) database connection.
+   * Quest, badge and metric rows reference users(id), so commands, the voice
+   * handler and the mini-app API must share one database.
+   */
+  attach(db: IDatabaseConnection, options: { criteriaDataSource?: ICriteriaDataSource } = {}): void {
+    if (this.initialized) return;
+
+    this.engine = new GamificationEngine(new GamificationRepository(db), this.eventEmitter, {
+      definitions: loadGamificationDefinitions(),
+      criteriaDataSource: options.criteriaDataSource,
+    });
+    this.initialized = true;
+    console.log('[GamificationContext] Attached to application database');
+  }
+
   private async doInitialize(dbPath: string): Promise<void> {
     try {
       // Create database connection
@@ -64,9 +85,11 @@ class GamificationContextClass {
       await migration.initialize();
       await migration.migrate([...MIGRATIONS]);
 
-      // Create repository and engine
+      // Create repository and engine with product-defined badges and quests
       const repository = new GamificationRepository(this.db);
-      this.engine = new GamificationEngine(repository, this.eventEmitter);
+      this.engine = new GamificationEngine(repository, this.eventEmitter, {
+        definitions: loadGamificationDefinitions(),
+      });
 
       this.initialized = true;
       console.log('[GamificationContext] Initialized successfully');
@@ -102,7 +125,7 @@ class GamificationContextClass {
   }
 
   /**
-   * Close database connection
+   * Close database connection (an attached connection is left to its owner)
    */
   async close(): Promise<void> {
     if (this.db) {
@@ -127,3 +150,42 @@ export async function getGamificationEngine(): Promise<IGamificationEngine> {
   }
   return gamificationContext.getEngine();
 }
+
+/**
+ * Gamification user key for a command context
+ * Gamification rows reference users(id), not the Telegram ID.
+ * @throws Error if the user has no database record yet
+ */
+export function getGamificationUserId(ctx: ISleepCoreContext): number {
+  if (ctx.dbUserId === undefined) {
+    throw new Error(`No database user for Telegram user ${ctx.userId}`);
+  }
+  return ctx.dbUserId;
+}
+
+/**
+ * Reply for gamification commands when the user has no database record yet
+ * (never pressed /start, or the users.id lookup failed this session)
+ * @returns null when gamification is available for the user
+ */
+export function requireGamificationProfile(ctx: ISleepCoreContext): ICommandResult | null {
+  if (ctx.dbUserId !== undefined) return null;
+  return {
+    success: false,
+    message: '🦉 Квесты, бейджи и прогресс Сони появятся, когда у тебя будет профиль.\n\n' +
+      'Нажми /start — это займёт минуту.',
+    keyboard: [[{ text: '🚀 Начать', callbackData: 'menu:start' }]],
+  };
+}
+
+/** Quest metric advanced by each saved voice diary entry */
+export const VOICE_DIARY_METRIC = 'voice_entries';
+
+/**
+ * Advance quests after a saved voice diary entry
+ * @param userId - Database user ID (users.id)
+ */
+export async function recordVoiceDiaryEntry(userId: number): Promise<IQuestCompletionResult[]> {
+  const engine = await getGamificationEngine();
+  return engine.updateQuestProgress(userId, VOICE_DIARY_METRIC, 1);
+}
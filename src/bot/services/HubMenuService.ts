@@ -452,10 +452,11 @@ export default hubMenu;
  * Uses AdaptiveKeyboardService for personalized command ordering
  *
  * @param userId - User's Telegram ID
+ * @param timezone - User's IANA timezone (Moscow when unknown)
  * @returns Personalized InlineKeyboard
  */
-export async function buildAdaptiveHubKeyboard(userId: string): Promise<InlineKeyboard> {
-  return adaptiveKeyboardService.generateKeyboard(userId);
+export async function buildAdaptiveHubKeyboard(userId: string, timezone?: string): Promise<InlineKeyboard> {
+  return adaptiveKeyboardService.generateKeyboard(userId, undefined, timezone);
 }
 
 /**
@@ -464,21 +465,24 @@ export async function buildAdaptiveHubKeyboard(userId: string): Promise<InlineKe
  * @param userId - User's Telegram ID
  * @param command - Command that was clicked
  * @param sessionId - Optional session identifier
+ * @param timezone - User's IANA timezone (Moscow when unknown)
  */
 export async function recordHubInteraction(
   userId: string,
   command: string,
-  sessionId?: string
+  sessionId?: string,
+  timezone?: string
 ): Promise<void> {
-  await adaptiveKeyboardService.recordCommandClick(userId, command, sessionId);
+  await adaptiveKeyboardService.recordCommandClick(userId, command, sessionId, timezone);
 }
 
 /**
  * Get personalized keyboard layout for a user
  *
  * @param userId - User's Telegram ID
+ * @param timezone - User's IANA timezone (Moscow when unknown)
  * @returns Keyboard layout with adaptation info
  */
-export async function getAdaptiveLayout(userId: string) {
-  return adaptiveKeyboardService.generateLayout(userId);
+export async function getAdaptiveLayout(userId: string, timezone?: string) {
+  return adaptiveKeyboardService.generateLayout(userId, undefined, timezone);
 }
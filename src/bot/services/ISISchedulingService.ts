@@ -1,7 +1,7 @@
 /**
  * ISI Scheduling Service
  * ======================
- * Automated biweekly ISI (Insomnia Severity Index) assessment scheduling.
+ * Automated assessment scheduling driven by declarative protocols.
  *
  * Research basis (2025):
  * - ISI standard recall period: "last month" or "last 2 weeks" (Morin et al., 2011)
@@ -10,10 +10,19 @@
  * - Semi-random scheduling improves compliance (JMIR EMA 2024)
  *
  * Schedule:
- * - Baseline: At enrollment (via /start)
- * - Week 2, 4, 6: Treatment phase assessments
- * - Week 8: End of treatment
- * - Week 12: Follow-up assessment
+ * - Each user follows one assessment protocol (see AssessmentProtocols);
+ *   the default is biweekly ISI at baseline, W2-W8 and W12
+ * - The protocol (study cohort) is chosen at enrollment and can be
+ *   changed later with changeProtocol()
+ * - Every instrument in the protocol is tracked separately: its next
+ *   timepoint, window, reminders and missed timepoints
+ * - getAdherenceReport() lists every scheduled timepoint with its status
+ *
+ * Notifications go out at 10:00 in each user's own timezone; weeks are
+ * counted in local calendar days so DST transitions do not shift them.
+ *
+ * With a repository attached, enrollment, score history and reminder
+ * state are persisted, so follow-ups survive restarts (rehydrate()).
  *
  * @packageDocumentation
  * @module @sleepcore/bot/services
@@ -23,56 +32,179 @@ import * as cron from 'node-cron';
 import type { Bot, Context } from 'grammy';
 import { formatter } from '../commands/utils/MessageFormatter';
 import { sonya } from '../persona';
+import { questionnaireEngine } from '../../assessment';
+import type {
+  IAssessmentScheduleEntity,
+  IAssessmentScheduleRepository,
+} from '../../infrastructure/database/interfaces/IRepository';
+import {
+  BUILT_IN_PROTOCOLS,
+  DEFAULT_PROTOCOL_ID,
+  resolveSchedules,
+  validateProtocol,
+  type IAssessmentProtocol,
+  type IResolvedSchedule,
+  type ScheduledInstrument,
+} from './AssessmentProtocols';
+import {
+  DEFAULT_TIMEZONE,
+  addDaysToDateKey,
+  daysBetweenDateKeys,
+  getZonedTime,
+  isLocalTimeDue,
+  resolveTimezone,
+  systemClock,
+  type IClock,
+} from './ZonedTime';
 
 // ==================== Constants ====================
 
 /**
- * ISI Assessment Schedule
- * Based on dCBT-I clinical trial protocols (Somryst DREAM, Sleepio SAC)
+ * Assessment dispatch settings.
+ * Timepoints, windows and reminder policy come from the user's protocol.
  */
 const ISI_SCHEDULE = {
-  /** Assessment interval in days (2 weeks = 14 days) */
-  intervalDays: 14,
-  /** Time of day for assessment notification (10:00 MSK) */
+  /** Time of day for assessment notification (10:00 user local time) */
   notificationHour: 10,
-  /** Reminder if not completed within N hours */
-  reminderAfterHours: 24,
-  /** Assessment windows (weeks from enrollment) */
-  assessmentWeeks: [0, 2, 4, 6, 8, 12],
-  /** Cron expression for daily check (10:00 MSK) */
-  cronExpression: '0 10 * * *',
+  notificationTime: '10:00',
+  /** Dispatch loop - checks each user's local time every 5 minutes */
+  cronExpression: '*/5 * * * *',
+  /** Catch-up window for missed ticks / DST-skipped times */
+  catchUpMinutes: 90,
 } as const;
 
 /**
- * Assessment status tracking
+ * Assessment status tracking (one per user and instrument)
  */
 interface IUserAssessmentData {
   chatId: number;
   odlikerId: string;
   userName?: string;
   enrollmentDate: Date;
+  /** IANA timezone used for delivery and week counting */
+  timezone: string;
+  /** Assessment protocol the user follows */
+  protocolId: string;
+  instrument: ScheduledInstrument;
+  /** Local date (YYYY-MM-DD) of the last daily check */
+  lastCheckDate?: string;
   lastAssessmentDate?: Date;
   lastAssessmentWeek?: number;
+  /** Next scheduled week, -1 once all timepoints are closed */
   nextAssessmentWeek: number;
   reminderSent: boolean;
-  /** ISI scores history */
-  isiHistory: Array<{ week: number; score: number; date: Date }>;
+  /** Follow-up reminders sent for the open timepoint */
+  reminderCount: number;
+  /** Score history; unscheduled entries were completed outside any window */
+  history: Array<{ week: number; score: number; date: Date; unscheduled?: boolean }>;
+  /** Timepoints closed without a response */
+  missedWeeks: number[];
+}
+
+/**
+ * Status of a scheduled timepoint
+ * - upcoming: window not open yet
+ * - due: window open (or overdue under allow_late)
+ * - completed: answered within the window
+ * - late: answered after the window closed
+ * - missed: closed without a response
+ */
+export type AssessmentTimepointStatus = 'upcoming' | 'due' | 'completed' | 'late' | 'missed';
+
+/**
+ * Scheduled timepoint in an adherence report
+ */
+export interface IAssessmentTimepoint {
+  readonly instrument: ScheduledInstrument;
+  readonly week: number;
+  /** Local dates (YYYY-MM-DD) */
+  readonly windowStart: string;
+  readonly windowEnd: string;
+  readonly status: AssessmentTimepointStatus;
+  readonly completedAt?: Date;
+  readonly score?: number;
+}
+
+/**
+ * Adherence to the user's assessment protocol
+ */
+export interface IAdherenceReport {
+  readonly userId: string;
+  readonly protocolId: string;
+  readonly generatedAt: Date;
+  readonly assessments: IAssessmentTimepoint[];
+  readonly completed: number;
+  readonly late: number;
+  readonly missed: number;
+  readonly due: number;
+  readonly upcoming: number;
+  /** Answered share of closed timepoints (completed + late), null before any closes */
+  readonly adherenceRate: number | null;
+}
+
+/**
+ * Service options
+ */
+export interface IISISchedulingOptions {
+  /** Time source (fake clock in tests) */
+  clock?: IClock;
+  /** Durable schedule storage (in-memory only when omitted) */
+  repository?: IAssessmentScheduleRepository;
+  /** Protocols in addition to the built-in ones */
+  protocols?: readonly IAssessmentProtocol[];
+  /** Protocol for enrollments that do not name one (default: standard) */
+  defaultProtocolId?: string;
 }
 
 // ==================== ISI Scheduling Service ====================
 
 /**
  * ISI Scheduling Service
- * Manages biweekly ISI assessment reminders for all enrolled users
+ * Manages protocol assessment reminders for all enrolled users
  */
 export class ISISchedulingService {
   private bot: Bot<Context>;
-  private users: Map<string, IUserAssessmentData> = new Map();
+  private users: Map<string, Map<ScheduledInstrument, IUserAssessmentData>> = new Map();
   private cronJob: cron.ScheduledTask | null = null;
   private isRunning = false;
+  private clock: IClock;
+  private repository?: IAssessmentScheduleRepository;
+  private protocols: Map<string, IAssessmentProtocol> = new Map();
+  private defaultProtocolId: string;
 
-  constructor(bot: Bot<Context>) {
+  constructor(bot: Bot<Context>, options: IISISchedulingOptions = {}) {
     this.bot = bot;
+    this.clock = options.clock ?? systemClock;
+    this.repository = options.repository;
+
+    for (const protocol of [...BUILT_IN_PROTOCOLS, ...(options.protocols ?? [])]) {
+      validateProtocol(protocol);
+      this.protocols.set(protocol.id, protocol);
+    }
+
+    this.defaultProtocolId = options.defaultProtocolId || DEFAULT_PROTOCOL_ID;
+    if (!this.protocols.has(this.defaultProtocolId)) {
+      throw new Error(`Unknown assessment protocol: ${this.defaultProtocolId}`);
+    }
+  }
+
+  /**
+   * Restore enrolled users from the repository.
+   * Call once on startup, before start().
+   */
+  async rehydrate(): Promise<number> {
+    if (!this.repository) return 0;
+
+    const schedules = await this.repository.findActive();
+    for (const entity of schedules) {
+      const track = entityToUserData(entity);
+      const tracks = this.users.get(track.odlikerId) ?? new Map();
+      tracks.set(track.instrument, track);
+      this.users.set(track.odlikerId, tracks);
+    }
+
+    console.log(`[ISI Schedule] Rehydrated ${this.users.size} enrolled user(s)`);
+    return this.users.size;
   }
 
   /**
@@ -81,21 +213,19 @@ export class ISISchedulingService {
   start(): void {
     if (this.isRunning) return;
 
-    // Schedule daily check at 10:00 MSK
+    // Dispatch loop - each user is checked at 10:00 their local time
     this.cronJob = cron.schedule(
       ISI_SCHEDULE.cronExpression,
       async () => {
-        console.log('[ISI Schedule] Running daily assessment check');
         await this.checkAndSendAssessments();
       },
-      { timezone: 'Europe/Moscow' }
+      { timezone: DEFAULT_TIMEZONE }
     );
 
     this.isRunning = true;
     console.log('[ISI Schedule] Service started');
-    console.log(`[ISI Schedule] Notification time: ${ISI_SCHEDULE.notificationHour}:00 MSK`);
-    console.log(`[ISI Schedule] Assessment interval: every ${ISI_SCHEDULE.intervalDays} days`);
-    console.log(`[ISI Schedule] Assessment weeks: ${ISI_SCHEDULE.assessmentWeeks.join(', ')}`);
+    console.log(`[ISI Schedule] Notification time: ${ISI_SCHEDULE.notificationTime} user local time`);
+    console.log(`[ISI Schedule] Protocols: ${[...this.protocols.keys()].join(', ')} (default: ${this.defaultProtocolId})`);
   }
 
   /**
@@ -111,120 +241,260 @@ export class ISISchedulingService {
   }
 
   /**
-   * Enroll user in ISI assessment schedule
+   * Enroll user in an assessment protocol
    * Called after consent is given and baseline ISI is completed
+   * @throws Error if the protocol is not registered
    */
-  enrollUser(
+  async enrollUser(
     userId: string,
     chatId: number,
     userName?: string,
-    baselineISI?: number
-  ): void {
-    const enrollmentDate = new Date();
-
-    const userData: IUserAssessmentData = {
-      chatId,
-      odlikerId: userId,
-      userName,
-      enrollmentDate,
-      lastAssessmentDate: baselineISI !== undefined ? enrollmentDate : undefined,
-      lastAssessmentWeek: baselineISI !== undefined ? 0 : undefined,
-      nextAssessmentWeek: baselineISI !== undefined ? 2 : 0, // Week 2 if baseline done, else 0
-      reminderSent: false,
-      isiHistory: baselineISI !== undefined
-        ? [{ week: 0, score: baselineISI, date: enrollmentDate }]
-        : [],
-    };
+    baselineISI?: number,
+    timezone?: string,
+    protocolId: string = this.defaultProtocolId
+  ): Promise<void> {
+    const protocol = this.protocols.get(protocolId);
+    if (!protocol) {
+      throw new Error(`Unknown assessment protocol: ${protocolId}`);
+    }
 
-    this.users.set(userId, userData);
-    console.log(`[ISI Schedule] Enrolled user ${userId}, next assessment: Week ${userData.nextAssessmentWeek}`);
+    const enrollmentDate = this.clock.now();
+    const schedules = resolveSchedules(protocol);
+
+    // Drop instruments the new protocol does not schedule
+    const previous = this.users.get(userId);
+    if (previous) {
+      for (const instrument of previous.keys()) {
+        if (!schedules.some((s) => s.instrument === instrument)) {
+          await this.removeSchedule(userId, instrument);
+        }
+      }
+    }
+
+    const tracks = new Map<ScheduledInstrument, IUserAssessmentData>();
+    this.users.set(userId, tracks);
+
+    for (const schedule of schedules) {
+      const baselineDone = schedule.instrument === 'isi'
+        && baselineISI !== undefined
+        && schedule.weeks[0] === 0;
+
+      const userData: IUserAssessmentData = {
+        chatId,
+        odlikerId: userId,
+        userName,
+        enrollmentDate,
+        timezone: resolveTimezone(timezone),
+        protocolId: protocol.id,
+        instrument: schedule.instrument,
+        lastAssessmentDate: baselineDone ? enrollmentDate : undefined,
+        lastAssessmentWeek: baselineDone ? 0 : undefined,
+        nextAssessmentWeek: baselineDone ? (schedule.weeks[1] ?? -1) : schedule.weeks[0],
+        reminderSent: false,
+        reminderCount: 0,
+        history: baselineDone
+          ? [{ week: 0, score: baselineISI, date: enrollmentDate }]
+          : [],
+        missedWeeks: [],
+      };
+
+      tracks.set(schedule.instrument, userData);
+      console.log(
+        `[ISI Schedule] Enrolled user ${userId} (${protocol.id}), next ${schedule.instrument}: Week ${userData.nextAssessmentWeek}`
+      );
+      await this.persist(userData);
+    }
   }
 
   /**
-   * Record ISI assessment completion
+   * Move an enrolled user to another protocol (cohort).
+   * Enrollment date, answers and missed timepoints are kept; each
+   * instrument continues with the first timepoint after the last closed one.
+   * @returns False if the user is not enrolled
+   * @throws Error if the protocol is not registered
    */
-  recordAssessment(userId: string, isiScore: number): void {
-    const user = this.users.get(userId);
-    if (!user) {
-      console.warn(`[ISI Schedule] User ${userId} not enrolled, cannot record assessment`);
-      return;
+  async changeProtocol(userId: string, protocolId: string): Promise<boolean> {
+    const protocol = this.protocols.get(protocolId);
+    if (!protocol) {
+      throw new Error(`Unknown assessment protocol: ${protocolId}`);
     }
 
-    const currentWeek = this.getCurrentWeek(user.enrollmentDate);
+    const tracks = this.users.get(userId);
+    const template = tracks?.values().next().value;
+    if (!tracks || !template) return false;
 
-    // Update user data
-    user.lastAssessmentDate = new Date();
-    user.lastAssessmentWeek = currentWeek;
-    user.reminderSent = false;
+    const schedules = resolveSchedules(protocol);
+    for (const instrument of [...tracks.keys()]) {
+      if (!schedules.some((s) => s.instrument === instrument)) {
+        tracks.delete(instrument);
+        await this.removeSchedule(userId, instrument);
+      }
+    }
 
-    // Add to history
-    user.isiHistory.push({
-      week: currentWeek,
-      score: isiScore,
-      date: new Date(),
-    });
+    for (const schedule of schedules) {
+      const track: IUserAssessmentData = tracks.get(schedule.instrument) ?? {
+        chatId: template.chatId,
+        odlikerId: userId,
+        userName: template.userName,
+        enrollmentDate: template.enrollmentDate,
+        timezone: template.timezone,
+        protocolId: protocol.id,
+        instrument: schedule.instrument,
+        nextAssessmentWeek: -1,
+        reminderSent: false,
+        reminderCount: 0,
+        history: [],
+        missedWeeks: [],
+      };
+
+      const lastClosed = Math.max(-1, track.lastAssessmentWeek ?? -1, ...track.missedWeeks);
+      const nextWeek = schedule.weeks.find((week) => week > lastClosed) ?? -1;
+      if (nextWeek !== track.nextAssessmentWeek) {
+        track.nextAssessmentWeek = nextWeek;
+        track.reminderSent = false;
+        track.reminderCount = 0;
+      }
+      track.protocolId = protocol.id;
+
+      tracks.set(schedule.instrument, track);
+      await this.persist(track);
+    }
 
-    // Calculate next assessment week
-    const nextWeekIndex = ISI_SCHEDULE.assessmentWeeks.findIndex((w) => w > currentWeek);
-    user.nextAssessmentWeek = nextWeekIndex >= 0
-      ? ISI_SCHEDULE.assessmentWeeks[nextWeekIndex]
-      : -1; // -1 means study completed
+    console.log(`[ISI Schedule] User ${userId} moved to protocol ${protocol.id}`);
+    return true;
+  }
 
-    console.log(`[ISI Schedule] User ${userId} completed Week ${currentWeek} ISI (score: ${isiScore})`);
-    console.log(`[ISI Schedule] Next assessment: ${user.nextAssessmentWeek >= 0 ? `Week ${user.nextAssessmentWeek}` : 'Study complete'}`);
+  /**
+   * Record assessment completion.
+   * A response inside the next timepoint's window (or overdue under
+   * allow_late) completes that timepoint; otherwise it is kept in the
+   * history as unscheduled and the schedule does not move.
+   */
+  async recordAssessment(
+    userId: string,
+    score: number,
+    instrument: ScheduledInstrument = 'isi'
+  ): Promise<void> {
+    const user = this.users.get(userId)?.get(instrument);
+    const schedule = user && this.getSchedule(user);
+    if (!user || !schedule) {
+      console.warn(`[ISI Schedule] User ${userId} not enrolled for ${instrument}, cannot record assessment`);
+      return;
+    }
+
+    const day = this.getDaysSinceEnrollment(user);
+    const now = this.clock.now();
+    this.closeMissedTimepoints(user, schedule, day);
+
+    user.lastAssessmentDate = now;
+
+    const scheduledWeek = user.nextAssessmentWeek;
+    if (scheduledWeek >= 0 && day >= windowStartDay(scheduledWeek, schedule)) {
+      user.lastAssessmentWeek = scheduledWeek;
+      user.history.push({ week: scheduledWeek, score, date: now });
+      this.advance(user, schedule);
+      console.log(`[ISI Schedule] User ${userId} completed Week ${scheduledWeek} ${instrument} (score: ${score})`);
+    } else {
+      user.history.push({ week: Math.floor(day / 7), score, date: now, unscheduled: true });
+      console.log(`[ISI Schedule] User ${userId} completed unscheduled ${instrument} (score: ${score})`);
+    }
+
+    console.log(`[ISI Schedule] Next ${instrument}: ${user.nextAssessmentWeek >= 0 ? `Week ${user.nextAssessmentWeek}` : 'Study complete'}`);
 
     // Check for clinically significant change
-    this.checkClinicalChange(userId, user);
+    if (instrument === 'isi') {
+      this.checkClinicalChange(userId, user);
+    }
+
+    await this.persist(user);
+  }
+
+  /**
+   * Update user's timezone (e.g. after they change it in settings)
+   */
+  async setUserTimezone(userId: string, timezone: string): Promise<void> {
+    for (const user of this.users.get(userId)?.values() ?? []) {
+      user.timezone = resolveTimezone(timezone);
+      await this.persist(user);
+    }
   }
 
   /**
-   * Unenroll user from ISI schedule
+   * Unenroll user from all scheduled assessments
    */
-  unenrollUser(userId: string): void {
+  async unenrollUser(userId: string): Promise<void> {
     this.users.delete(userId);
     console.log(`[ISI Schedule] Unenrolled user ${userId}`);
+    await this.removeSchedule(userId);
   }
 
   /**
-   * Check and send assessments for all enrolled users
+   * Check and send assessments for users whose local check time has come.
+   * Called by the cron loop; public so it can be driven with a fake clock.
    */
-  private async checkAndSendAssessments(): Promise<void> {
-    const now = new Date();
+  async checkAndSendAssessments(): Promise<void> {
+    const now = this.clock.now();
 
-    for (const [userId, userData] of this.users) {
-      try {
-        // Skip if study completed
+    for (const [userId, tracks] of [...this.users]) {
+      for (const userData of [...tracks.values()]) {
+        // Skip if all timepoints are closed
         if (userData.nextAssessmentWeek < 0) continue;
 
-        const currentWeek = this.getCurrentWeek(userData.enrollmentDate);
-
-        // Check if it's time for assessment
-        if (currentWeek >= userData.nextAssessmentWeek) {
-          // Check if already sent reminder today
-          if (userData.reminderSent) {
-            // Check if we need to send follow-up reminder
-            const hoursSinceLastAssessment = userData.lastAssessmentDate
-              ? (now.getTime() - userData.lastAssessmentDate.getTime()) / (1000 * 60 * 60)
-              : Infinity;
-
-            if (hoursSinceLastAssessment > ISI_SCHEDULE.reminderAfterHours) {
-              await this.sendFollowUpReminder(userData);
-            }
-            continue;
-          }
-
-          // Send initial assessment notification
-          await this.sendAssessmentNotification(userData, currentWeek);
-          userData.reminderSent = true;
+        // Once per local day, at the user's local notification time
+        const local = getZonedTime(now, userData.timezone);
+        if (userData.lastCheckDate === local.dateKey) continue;
+        if (!isLocalTimeDue(local, ISI_SCHEDULE.notificationTime, ISI_SCHEDULE.catchUpMinutes)) continue;
+        userData.lastCheckDate = local.dateKey;
+
+        try {
+          await this.processTimepoint(userData);
+        } catch (error) {
+          console.error(`[ISI Schedule] Error processing user ${userId}:`, error);
+        }
+
+        // User may have been removed (blocked bot)
+        if (!this.users.has(userId)) {
+          await this.removeSchedule(userId);
+          break;
         }
-      } catch (error) {
-        console.error(`[ISI Schedule] Error processing user ${userId}:`, error);
+        await this.persist(userData);
       }
     }
   }
 
   /**
-   * Send ISI assessment notification
+   * Close expired timepoints, then send the first notification or a
+   * follow-up for the open one according to the reminder policy
+   */
+  private async processTimepoint(userData: IUserAssessmentData): Promise<void> {
+    const schedule = this.getSchedule(userData);
+    if (!schedule) return;
+
+    const day = this.getDaysSinceEnrollment(userData);
+    this.closeMissedTimepoints(userData, schedule, day);
+    if (userData.nextAssessmentWeek < 0) return;
+
+    const opensOn = windowStartDay(userData.nextAssessmentWeek, schedule);
+    if (day < opensOn) return;
+
+    if (!userData.reminderSent) {
+      await this.sendAssessmentNotification(userData, userData.nextAssessmentWeek);
+      userData.reminderSent = true;
+      return;
+    }
+
+    const { everyDays, maxFollowUps } = schedule.reminders;
+    if (
+      userData.reminderCount < maxFollowUps
+      && day - opensOn >= (userData.reminderCount + 1) * everyDays
+    ) {
+      await this.sendFollowUpReminder(userData);
+      userData.reminderCount++;
+    }
+  }
+
+  /**
+   * Send assessment notification
    */
   private async sendAssessmentNotification(
     userData: IUserAssessmentData,
@@ -238,20 +508,24 @@ export class ISISchedulingService {
       weekDescription = 'начальная оценка';
     } else if (currentWeek === 8) {
       weekDescription = 'завершение основной программы';
-    } else if (currentWeek === 12) {
+    } else if (currentWeek > 8) {
       weekDescription = 'контрольная оценка';
     } else {
       weekDescription = `неделя ${currentWeek}`;
     }
 
     const encouragement = sonya.encourageByWeek(Math.min(currentWeek, 8));
+    const isISI = userData.instrument === 'isi';
+    const invitation = isISI
+      ? 'Пришло время оценить качество твоего сна'
+      : `Пришло время заполнить опросник ${getShortName(userData.instrument)}`;
 
     const message = `
 ${formatter.header('Время оценки сна')}
 
 ${encouragement.emoji} Привет, ${name}!
 
-Пришло время оценить качество твоего сна (*${weekDescription}*).
+${invitation} (*${weekDescription}*).
 
 Это займёт всего *2-3 минуты* и поможет отслеживать прогресс.
 
@@ -262,17 +536,21 @@ ${this.getProgressMessage(userData)}
 ${formatter.tip('Регулярная оценка — ключ к успеху терапии')}
     `.trim();
 
-    const keyboard = [
-      [{ text: '📋 Пройти оценку ISI', callback_data: 'isi_schedule:start_assessment' }],
-      [{ text: '⏰ Напомнить позже', callback_data: 'isi_schedule:remind_later' }],
-    ];
+    const keyboard = isISI
+      ? [
+          [{ text: '📋 Пройти оценку ISI', callback_data: 'isi_schedule:start_assessment' }],
+          [{ text: '⏰ Напомнить позже', callback_data: 'isi_schedule:remind_later' }],
+        ]
+      : [
+          [{ text: `📋 Пройти ${getShortName(userData.instrument)}`, callback_data: `assess:start:${userData.instrument}` }],
+        ];
 
     try {
       await this.bot.api.sendMessage(userData.chatId, message, {
         parse_mode: 'Markdown',
         reply_markup: { inline_keyboard: keyboard },
       });
-      console.log(`[ISI Schedule] Sent assessment notification to user ${userData.odlikerId}`);
+      console.log(`[ISI Schedule] Sent ${userData.instrument} notification to user ${userData.odlikerId}`);
     } catch (error) {
       this.handleSendError(error, userData);
     }
@@ -283,17 +561,23 @@ ${formatter.tip('Регулярная оценка — ключ к успеху
    */
   private async sendFollowUpReminder(userData: IUserAssessmentData): Promise<void> {
     const name = userData.userName || 'друг';
+    const shortName = getShortName(userData.instrument);
 
     const message = `
 ${sonya.emoji} ${name}, напоминаю об оценке сна!
 
-Ты ещё не прошёл(а) ISI-опрос. Это важно для отслеживания прогресса.
+Опросник ${shortName} ещё ждёт тебя. Это важно для отслеживания прогресса.
 
 ${formatter.tip('Оценка займёт всего 2-3 минуты')}
     `.trim();
 
     const keyboard = [
-      [{ text: '📋 Пройти сейчас', callback_data: 'isi_schedule:start_assessment' }],
+      [{
+        text: '📋 Пройти сейчас',
+        callback_data: userData.instrument === 'isi'
+          ? 'isi_schedule:start_assessment'
+          : `assess:start:${userData.instrument}`,
+      }],
     ];
 
     try {
@@ -301,7 +585,7 @@ ${formatter.tip('Оценка займёт всего 2-3 минуты')}
         parse_mode: 'Markdown',
         reply_markup: { inline_keyboard: keyboard },
       });
-      console.log(`[ISI Schedule] Sent follow-up reminder to user ${userData.odlikerId}`);
+      console.log(`[ISI Schedule] Sent ${userData.instrument} follow-up reminder to user ${userData.odlikerId}`);
     } catch (error) {
       this.handleSendError(error, userData);
     }
@@ -311,12 +595,16 @@ ${formatter.tip('Оценка займёт всего 2-3 минуты')}
    * Get progress message based on ISI history
    */
   private getProgressMessage(userData: IUserAssessmentData): string {
-    if (userData.isiHistory.length < 2) {
+    if (userData.instrument !== 'isi') {
+      return '📊 Ответы помогут точнее подобрать программу.';
+    }
+
+    if (userData.history.length < 2) {
       return '📊 Это поможет создать базовую линию для сравнения.';
     }
 
-    const baseline = userData.isiHistory[0];
-    const latest = userData.isiHistory[userData.isiHistory.length - 1];
+    const baseline = userData.history[0];
+    const latest = userData.history[userData.history.length - 1];
     const change = baseline.score - latest.score;
 
     if (change >= 7) {
@@ -336,10 +624,10 @@ ${formatter.tip('Оценка займёт всего 2-3 минуты')}
    * Check for clinically significant change and notify
    */
   private checkClinicalChange(userId: string, userData: IUserAssessmentData): void {
-    if (userData.isiHistory.length < 2) return;
+    if (userData.history.length < 2) return;
 
-    const baseline = userData.isiHistory[0];
-    const latest = userData.isiHistory[userData.isiHistory.length - 1];
+    const baseline = userData.history[0];
+    const latest = userData.history[userData.history.length - 1];
     const change = baseline.score - latest.score;
 
     // MCID threshold: 6-7 points within-person (PMC 3079939)
@@ -362,14 +650,79 @@ ${formatter.tip('Оценка займёт всего 2-3 минуты')}
   }
 
   /**
-   * Calculate current week from enrollment
+   * Record timepoints whose window has closed without a response
    */
-  private getCurrentWeek(enrollmentDate: Date): number {
-    const now = new Date();
-    const daysSinceEnrollment = Math.floor(
-      (now.getTime() - enrollmentDate.getTime()) / (1000 * 60 * 60 * 24)
-    );
-    return Math.floor(daysSinceEnrollment / 7);
+  private closeMissedTimepoints(
+    user: IUserAssessmentData,
+    schedule: IResolvedSchedule,
+    day: number
+  ): void {
+    while (user.nextAssessmentWeek >= 0 && isTimepointClosed(user.nextAssessmentWeek, schedule, day)) {
+      const week = user.nextAssessmentWeek;
+      user.missedWeeks.push(week);
+      this.advance(user, schedule);
+      console.log(`[ISI Schedule] User ${user.odlikerId} missed Week ${week} ${user.instrument}`);
+    }
+  }
+
+  /**
+   * Move to the timepoint after the current one and reset reminders
+   */
+  private advance(user: IUserAssessmentData, schedule: IResolvedSchedule): void {
+    const index = schedule.weeks.indexOf(user.nextAssessmentWeek);
+    user.nextAssessmentWeek = schedule.weeks[index + 1] ?? -1; // -1 means study completed
+    user.reminderSent = false;
+    user.reminderCount = 0;
+  }
+
+  /**
+   * Resolve the instrument schedule of a track from its protocol
+   */
+  private getSchedule(user: IUserAssessmentData): IResolvedSchedule | undefined {
+    const protocol = this.protocols.get(user.protocolId);
+    if (!protocol) {
+      console.warn(`[ISI Schedule] Unknown protocol ${user.protocolId} for user ${user.odlikerId}`);
+      return undefined;
+    }
+    return resolveSchedules(protocol).find((s) => s.instrument === user.instrument);
+  }
+
+  /**
+   * Local calendar days since enrollment
+   */
+  private getDaysSinceEnrollment(user: IUserAssessmentData): number {
+    const enrolled = getZonedTime(user.enrollmentDate, user.timezone).dateKey;
+    const today = getZonedTime(this.clock.now(), user.timezone).dateKey;
+    return Math.max(0, daysBetweenDateKeys(enrolled, today));
+  }
+
+  /**
+   * Write schedule state through to the repository (no-op without one).
+   * Failures are logged: reminders must not stop because storage is down.
+   */
+  private async persist(userData: IUserAssessmentData): Promise<void> {
+    if (!this.repository) return;
+    try {
+      await this.repository.upsert(userDataToEntity(userData));
+    } catch (error) {
+      console.error(`[ISI Schedule] Failed to persist schedule ${userData.odlikerId}:`, error);
+    }
+  }
+
+  /**
+   * Soft delete one or all of the user's schedules (no-op without a repository)
+   */
+  private async removeSchedule(userId: string, instrument?: ScheduledInstrument): Promise<void> {
+    if (!this.repository) return;
+    try {
+      if (instrument) {
+        await this.repository.removeByUserAndInstrument(userId, instrument);
+      } else {
+        await this.repository.removeByUser(userId);
+      }
+    } catch (error) {
+      console.error(`[ISI Schedule] Failed to remove schedule ${userId}:`, error);
+    }
   }
 
   /**
@@ -388,10 +741,13 @@ ${formatter.tip('Оценка займёт всего 2-3 минуты')}
   }
 
   /**
-   * Get user assessment data (for external queries)
+   * Get user assessment data for one instrument (for external queries)
    */
-  getUserData(userId: string): IUserAssessmentData | undefined {
-    return this.users.get(userId);
+  getUserData(
+    userId: string,
+    instrument: ScheduledInstrument = 'isi'
+  ): IUserAssessmentData | undefined {
+    return this.users.get(userId)?.get(instrument);
   }
 
   /**
@@ -408,39 +764,248 @@ ${formatter.tip('Оценка займёт всего 2-3 минуты')}
     return ISI_SCHEDULE;
   }
 
+  /**
+   * Get a registered protocol
+   */
+  getProtocol(protocolId: string): IAssessmentProtocol | undefined {
+    return this.protocols.get(protocolId);
+  }
+
   /**
    * Check if user is due for assessment
    */
-  isAssessmentDue(userId: string): boolean {
-    const user = this.users.get(userId);
-    if (!user) return false;
+  isAssessmentDue(userId: string, instrument: ScheduledInstrument = 'isi'): boolean {
+    const info = this.getNextAssessmentInfo(userId, instrument);
+    return info !== null && info.daysUntil === 0;
+  }
+
+  /**
+   * Get next assessment info for user (days until its window opens)
+   */
+  getNextAssessmentInfo(
+    userId: string,
+    instrument: ScheduledInstrument = 'isi'
+  ): { week: number; daysUntil: number } | null {
+    const user = this.users.get(userId)?.get(instrument);
+    const schedule = user && this.getSchedule(user);
+    if (!user || !schedule) return null;
 
-    const currentWeek = this.getCurrentWeek(user.enrollmentDate);
-    return currentWeek >= user.nextAssessmentWeek && user.nextAssessmentWeek >= 0;
+    const day = this.getDaysSinceEnrollment(user);
+    const week = nextOpenWeek(user, schedule, day);
+    if (week < 0) return null;
+
+    return {
+      week,
+      daysUntil: Math.max(0, windowStartDay(week, schedule) - day),
+    };
   }
 
   /**
-   * Get next assessment info for user
+   * Report adherence to every scheduled timepoint of the user's protocol
    */
-  getNextAssessmentInfo(userId: string): { week: number; daysUntil: number } | null {
-    const user = this.users.get(userId);
-    if (!user || user.nextAssessmentWeek < 0) return null;
+  getAdherenceReport(userId: string): IAdherenceReport | null {
+    const tracks = this.users.get(userId);
+    if (!tracks || tracks.size === 0) return null;
+
+    const assessments: IAssessmentTimepoint[] = [];
+    let protocolId = this.defaultProtocolId;
+
+    for (const user of tracks.values()) {
+      const schedule = this.getSchedule(user);
+      if (!schedule) continue;
+      protocolId = user.protocolId;
+      assessments.push(...this.evaluateTimepoints(user, schedule));
+    }
+
+    const count = (status: AssessmentTimepointStatus): number =>
+      assessments.filter((a) => a.status === status).length;
 
-    const currentWeek = this.getCurrentWeek(user.enrollmentDate);
-    const weeksUntil = user.nextAssessmentWeek - currentWeek;
-    const daysUntil = Math.max(0, weeksUntil * 7);
+    const completed = count('completed');
+    const late = count('late');
+    const missed = count('missed');
+    const closed = completed + late + missed;
 
     return {
-      week: user.nextAssessmentWeek,
-      daysUntil,
+      userId,
+      protocolId,
+      generatedAt: this.clock.now(),
+      assessments,
+      completed,
+      late,
+      missed,
+      due: count('due'),
+      upcoming: count('upcoming'),
+      adherenceRate: closed > 0 ? (completed + late) / closed : null,
     };
   }
+
+  /**
+   * Adherence reports for all enrolled users
+   */
+  getAdherenceReports(): IAdherenceReport[] {
+    return [...this.users.keys()]
+      .map((userId) => this.getAdherenceReport(userId))
+      .filter((report): report is IAdherenceReport => report !== null);
+  }
+
+  /**
+   * Status of each scheduled timepoint of one instrument
+   */
+  private evaluateTimepoints(
+    user: IUserAssessmentData,
+    schedule: IResolvedSchedule
+  ): IAssessmentTimepoint[] {
+    const enrolled = getZonedTime(user.enrollmentDate, user.timezone).dateKey;
+    const day = this.getDaysSinceEnrollment(user);
+    const openWeek = nextOpenWeek(user, schedule, day);
+
+    return schedule.weeks.map((week) => {
+      const start = windowStartDay(week, schedule);
+      const end = windowEndDay(week, schedule);
+      const entry = user.history.find((h) => h.week === week && !h.unscheduled);
+
+      let status: AssessmentTimepointStatus;
+      if (entry) {
+        const answeredOn = daysBetweenDateKeys(enrolled, getZonedTime(entry.date, user.timezone).dateKey);
+        status = answeredOn > end ? 'late' : 'completed';
+      } else if (user.missedWeeks.includes(week) || openWeek < 0 || week < openWeek) {
+        status = 'missed';
+      } else if (week === openWeek && day >= start) {
+        status = 'due';
+      } else {
+        status = 'upcoming';
+      }
+
+      return {
+        instrument: user.instrument,
+        week,
+        windowStart: addDaysToDateKey(enrolled, start),
+        windowEnd: addDaysToDateKey(enrolled, end),
+        status,
+        completedAt: entry?.date,
+        score: entry?.score,
+      };
+    });
+  }
+}
+
+// ==================== Schedule Helpers ====================
+
+/**
+ * First day of a timepoint's window (days from enrollment)
+ */
+function windowStartDay(week: number, schedule: IResolvedSchedule): number {
+  return Math.max(0, week * 7 - schedule.window.daysBefore);
+}
+
+/**
+ * Last day of a timepoint's window (days from enrollment)
+ */
+function windowEndDay(week: number, schedule: IResolvedSchedule): number {
+  return week * 7 + schedule.window.daysAfter;
+}
+
+/**
+ * Whether a timepoint without a response is closed on the given day.
+ * mark_missed closes at the end of the window; allow_late keeps it open
+ * until the next timepoint of the same instrument opens (the last one
+ * stays open).
+ */
+function isTimepointClosed(week: number, schedule: IResolvedSchedule, day: number): boolean {
+  if (day <= windowEndDay(week, schedule)) return false;
+  if (schedule.missedPolicy === 'mark_missed') return true;
+
+  const following = schedule.weeks[schedule.weeks.indexOf(week) + 1];
+  return following !== undefined && day >= windowStartDay(following, schedule);
+}
+
+/**
+ * Next timepoint still open on the given day, without mutating the track
+ * (the daily check closes expired timepoints only at notification time)
+ */
+function nextOpenWeek(user: IUserAssessmentData, schedule: IResolvedSchedule, day: number): number {
+  let week = user.nextAssessmentWeek;
+  while (week >= 0 && isTimepointClosed(week, schedule, day)) {
+    week = schedule.weeks[schedule.weeks.indexOf(week) + 1] ?? -1;
+  }
+  return week;
+}
+
+function getShortName(instrument: ScheduledInstrument): string {
+  return questionnaireEngine.has(instrument)
+    ? questionnaireEngine.getDefinition(instrument).shortName
+    : instrument.toUpperCase();
+}
+
+// ==================== Entity Mapping ====================
+
+function userDataToEntity(
+  userData: IUserAssessmentData
+): Omit<IAssessmentScheduleEntity, 'id' | 'createdAt' | 'updatedAt'> {
+  return {
+    userId: userData.odlikerId,
+    instrument: userData.instrument,
+    chatId: userData.chatId,
+    userName: userData.userName,
+    timezone: userData.timezone,
+    enrollmentDate: userData.enrollmentDate,
+    lastCheckDate: userData.lastCheckDate,
+    lastAssessmentDate: userData.lastAssessmentDate,
+    lastAssessmentWeek: userData.lastAssessmentWeek,
+    nextAssessmentWeek: userData.nextAssessmentWeek,
+    reminderSent: userData.reminderSent,
+    historyJson: JSON.stringify(
+      userData.history.map((h) => ({
+        week: h.week,
+        score: h.score,
+        date: h.date.toISOString(),
+        ...(h.unscheduled ? { unscheduled: true } : {}),
+      }))
+    ),
+    protocolId: userData.protocolId,
+    reminderCount: userData.reminderCount,
+    missedWeeksJson: JSON.stringify(userData.missedWeeks),
+  };
+}
+
+function entityToUserData(entity: IAssessmentScheduleEntity): IUserAssessmentData {
+  const history = JSON.parse(entity.historyJson) as Array<{
+    week: number;
+    score: number;
+    date: string;
+    unscheduled?: boolean;
+  }>;
+  return {
+    chatId: entity.chatId,
+    odlikerId: entity.userId,
+    userName: entity.userName,
+    enrollmentDate: entity.enrollmentDate,
+    timezone: resolveTimezone(entity.timezone),
+    protocolId: entity.protocolId,
+    instrument: entity.instrument as ScheduledInstrument,
+    lastCheckDate: entity.lastCheckDate,
+    lastAssessmentDate: entity.lastAssessmentDate,
+    lastAssessmentWeek: entity.lastAssessmentWeek,
+    nextAssessmentWeek: entity.nextAssessmentWeek,
+    reminderSent: entity.reminderSent,
+    reminderCount: entity.reminderCount,
+    history: history.map((h) => ({
+      week: h.week,
+      score: h.score,
+      date: new Date(h.date),
+      ...(h.unscheduled ? { unscheduled: true } : {}),
+    })),
+    missedWeeks: JSON.parse(entity.missedWeeksJson) as number[],
+  };
 }
 
 // ==================== Factory ====================
 
-export function createISISchedulingService(bot: Bot<Context>): ISISchedulingService {
-  return new ISISchedulingService(bot);
+export function createISISchedulingService(
+  bot: Bot<Context>,
+  options?: IISISchedulingOptions
+): ISISchedulingService {
+  return new ISISchedulingService(bot, options);
 }
 
 export default ISISchedulingService;
@@ -0,0 +1,715 @@
+/**
+ * 💊 MEDICATION TAPERING SERVICE
+ * =============================
+ * Supervised hypnotic discontinuation alongside CBT-I: a gradual dose
+ * reduction schedule where every step is signed off by a clinician.
+ *
+ * Scientific Foundation:
+ * - Morin et al. (2004): CBT-I plus supervised taper, 85% drug-free vs 48% taper alone
+ * - Riemann et al. (2023): European Insomnia Guideline, Z-drugs and
+ *   benzodiazepines ≤4 weeks (EuropeanInsomnia2023.getPharmacologicalEvidence)
+ * - Lader (2011), NICE CKS: reduce by ~25% of the starting dose every 2 weeks
+ * - Ashton (2005): hold at the current dose when withdrawal symptoms appear
+ *
+ * Protocol:
+ * - The plan starts at the current dose (step 0) and ends at 0
+ * - A step never starts without clinician sign-off, even when it is due
+ * - Nightly use is recorded in the sleep diary (sleepMedications)
+ * - Rebound insomnia in the diary or reported withdrawal symptoms create an
+ *   adverse event through AdverseEventService and put the plan on hold;
+ *   only a clinician can resume it
+ *
+ * The plan supports a prescriber's decision, it does not replace it.
+ *
+ * © БФ "Другой путь", 2025-2026
+ *
+ * @packageDocumentation
+ * @module @sleepcore/bot/services
+ */
+
+import type { IDatabaseConnection } from '../../infrastructure/database/interfaces/IDatabaseConnection';
+import type {
+  IMedicationTaperPlanEntity,
+  IMedicationTaperRepository,
+  ISleepDiaryEntryEntity,
+} from '../../infrastructure/database/interfaces/IRepository';
+import { MedicationTaperRepository } from '../../infrastructure/database/repositories/MedicationTaperRepository';
+import { SleepDiaryRepository } from '../../infrastructure/database/repositories/SleepDiaryRepository';
+import type { ISleepMedicationDose } from '../../sleep/interfaces/ISleepState';
+import {
+  createAdverseEventService,
+  DTX_AE_CATEGORIES,
+  type AdverseEventService,
+  type AESeverity,
+  type IAdverseEventReport,
+} from './AdverseEventService';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Pharmacological class being tapered
+ */
+export type TaperMedicationClass = 'z_drug' | 'benzodiazepine' | 'other';
+
+/**
+ * Plan status
+ */
+export type TaperPlanStatus = 'active' | 'on_hold' | 'completed' | 'cancelled';
+
+/**
+ * Why a plan is on hold
+ */
+export type TaperHoldReason = 'adverse_event' | 'clinician' | 'patient_request';
+
+/**
+ * Patient-reported withdrawal symptom
+ */
+export type WithdrawalSymptom =
+  | 'anxiety'
+  | 'tremor'
+  | 'sweating'
+  | 'palpitations'
+  | 'irritability'
+  | 'perceptual_changes'
+  | 'seizure';
+
+/**
+ * One dose level of the schedule
+ */
+export interface ITaperStep {
+  /** 0 = starting dose */
+  readonly step: number;
+  readonly dose: number;
+  readonly status: 'planned' | 'current' | 'completed';
+  /** Clinician who signed off the step (the prescriber for step 0) */
+  readonly signedOffBy?: string;
+  readonly signedOffAt?: Date;
+  readonly startedAt?: Date;
+  readonly completedAt?: Date;
+  /** Adverse events reported while on this step */
+  readonly adverseEventIds: readonly number[];
+}
+
+/**
+ * Taper plan
+ */
+export interface ITaperPlan {
+  readonly id: number;
+  readonly userId: string;
+  /** Medication at the starting dose */
+  readonly medication: ISleepMedicationDose;
+  readonly medicationClass: TaperMedicationClass;
+  /** Reduction per step, % of the starting dose */
+  readonly reductionPercent: number;
+  readonly stepIntervalDays: number;
+  readonly status: TaperPlanStatus;
+  readonly holdReason?: TaperHoldReason;
+  /** Index into steps of the dose currently taken */
+  readonly currentStep: number;
+  readonly steps: readonly ITaperStep[];
+  readonly prescribedBy: string;
+  readonly createdAt?: Date;
+}
+
+/**
+ * New plan request
+ */
+export interface ITaperPlanRequest {
+  readonly userId: string;
+  /** Medication at the current nightly dose */
+  readonly medication: ISleepMedicationDose;
+  readonly medicationClass: TaperMedicationClass;
+  /** Clinician prescribing the taper; signs off step 0 */
+  readonly prescribedBy: string;
+  readonly reductionPercent?: number;
+  readonly stepIntervalDays?: number;
+  readonly startDate?: Date;
+}
+
+/**
+ * Where the plan stands on a given day
+ */
+export interface ITaperStatus {
+  readonly currentDose: number;
+  /** Null after the last step */
+  readonly nextDose: number | null;
+  readonly daysOnStep: number;
+  /** The current step has lasted the full interval */
+  readonly nextStepDue: boolean;
+  /** Due and active: waiting for clinician sign-off */
+  readonly awaitingSignOff: boolean;
+}
+
+/**
+ * Diary-recorded use on the current step
+ */
+export interface INightlyUseSummary {
+  /** Nights with the medication item reported */
+  readonly nightsReported: number;
+  /** Nights above the prescribed dose */
+  readonly nightsAbovePrescribed: number;
+  /** Nights without the medication */
+  readonly nightsWithout: number;
+}
+
+/**
+ * Withdrawal check result
+ */
+export interface IWithdrawalCheck {
+  readonly plan: ITaperPlan;
+  readonly reboundInsomnia: boolean;
+  /** Current step minus previous dose (SE points), null without enough nights */
+  readonly efficiencyChange: number | null;
+  /** Current step minus previous dose (SOL minutes), null without enough nights */
+  readonly latencyChange: number | null;
+  /** Adverse event created by this check */
+  readonly report: IAdverseEventReport | null;
+}
+
+/**
+ * Tapering configuration
+ */
+export interface IMedicationTaperingConfig {
+  /** Default reduction per step (% of the starting dose) */
+  readonly reductionPercent: number;
+
+  /** Default step length (days) */
+  readonly stepIntervalDays: number;
+
+  /** Dose precision per unit (a quarter tablet, half a milligram) */
+  readonly doseRounding: Readonly<Record<ISleepMedicationDose['unit'], number>>;
+
+  /** Diary nights needed before and after a reduction to compare them */
+  readonly withdrawalMinNights: number;
+
+  /** Nights at the previous dose used as the baseline */
+  readonly withdrawalBaselineNights: number;
+
+  /** SE drop (points) that counts as rebound insomnia */
+  readonly reboundEfficiencyDrop: number;
+
+  /** SOL increase (minutes) that counts as rebound insomnia */
+  readonly reboundLatencyIncrease: number;
+}
+
+/**
+ * Default tapering configuration
+ */
+export const DEFAULT_MEDICATION_TAPERING_CONFIG: IMedicationTaperingConfig = {
+  reductionPercent: 25,
+  stepIntervalDays: 14,
+  doseRounding: { mg: 0.5, tablet: 0.25 },
+  withdrawalMinNights: 3,
+  withdrawalBaselineNights: 7,
+  reboundEfficiencyDrop: 10,
+  reboundLatencyIncrease: 30,
+};
+
+/**
+ * Stored step (dates as ISO strings)
+ */
+type StoredTaperStep = Omit<ITaperStep, 'signedOffAt' | 'startedAt' | 'completedAt'> & {
+  signedOffAt?: string;
+  startedAt?: string;
+  completedAt?: string;
+};
+
+// ============================================================================
+// MEDICATION TAPERING SERVICE
+// ============================================================================
+
+/**
+ * Medication Tapering Service
+ * Plans, sign-offs, holds and withdrawal monitoring
+ */
+export class MedicationTaperingService {
+  private readonly config: IMedicationTaperingConfig;
+  private readonly repository: IMedicationTaperRepository;
+  private readonly diaryRepository: SleepDiaryRepository;
+  private readonly aeService: AdverseEventService;
+
+  constructor(db: IDatabaseConnection, config: Partial<IMedicationTaperingConfig> = {}) {
+    this.config = { ...DEFAULT_MEDICATION_TAPERING_CONFIG, ...config };
+    this.repository = new MedicationTaperRepository(db);
+    this.diaryRepository = new SleepDiaryRepository(db);
+    this.aeService = createAdverseEventService(db);
+  }
+
+  // ==================== Planning ====================
+
+  /**
+   * Dose levels from the starting dose down to 0
+   */
+  buildSchedule(
+    startingDose: number,
+    unit: ISleepMedicationDose['unit'],
+    reductionPercent: number = this.config.reductionPercent
+  ): number[] {
+    if (!(startingDose > 0)) {
+      throw new Error('Starting dose must be positive');
+    }
+    if (!(reductionPercent > 0 && reductionPercent <= 100)) {
+      throw new Error('Reduction percent must be in (0, 100]');
+    }
+
+    const precision = this.config.doseRounding[unit];
+    const doses = [startingDose];
+    for (let k = 1; doses[doses.length - 1] > 0; k++) {
+      const exact = startingDose * (1 - (k * reductionPercent) / 100);
+      const dose = exact < precision / 2 ? 0 : roundTo(exact, precision);
+      if (dose < doses[doses.length - 1]) doses.push(dose);
+    }
+    return doses;
+  }
+
+  /**
+   * Create a plan at the current dose; the prescriber signs off step 0
+   */
+  async createPlan(request: ITaperPlanRequest): Promise<ITaperPlan> {
+    if (await this.repository.findOpenByUser(request.userId)) {
+      throw new Error(`User ${request.userId} already has an open taper plan`);
+    }
+
+    const reductionPercent = request.reductionPercent ?? this.config.reductionPercent;
+    const stepIntervalDays = request.stepIntervalDays ?? this.config.stepIntervalDays;
+    if (!(stepIntervalDays >= 1)) {
+      throw new Error('Step interval must be at least 1 day');
+    }
+
+    const startedAt = request.startDate ?? new Date();
+    const steps: ITaperStep[] = this.buildSchedule(
+      request.medication.dose,
+      request.medication.unit,
+      reductionPercent
+    ).map((dose, step) => step === 0
+      ? {
+          step,
+          dose,
+          status: 'current',
+          signedOffBy: request.prescribedBy,
+          signedOffAt: startedAt,
+          startedAt,
+          adverseEventIds: [],
+        }
+      : { step, dose, status: 'planned', adverseEventIds: [] });
+
+    const entity = await this.repository.insert({
+      userId: request.userId,
+      medicationName: request.medication.name,
+      medicationType: request.medication.type,
+      medicationClass: request.medicationClass,
+      doseUnit: request.medication.unit,
+      startingDose: request.medication.dose,
+      reductionPercent,
+      stepIntervalDays,
+      status: 'active',
+      currentStep: 0,
+      stepsJson: serializeSteps(steps),
+      prescribedBy: request.prescribedBy,
+    });
+    const plan = fromEntity(entity);
+    this.logAction('PLAN_CREATED', plan, request.prescribedBy);
+    return plan;
+  }
+
+  /**
+   * Get plan by ID
+   */
+  async getPlan(planId: number): Promise<ITaperPlan | null> {
+    const entity = await this.repository.findById(planId);
+    return entity ? fromEntity(entity) : null;
+  }
+
+  /**
+   * Get the user's active or on-hold plan
+   */
+  async getOpenPlan(userId: string): Promise<ITaperPlan | null> {
+    const entity = await this.repository.findOpenByUser(userId);
+    return entity ? fromEntity(entity) : null;
+  }
+
+  /**
+   * Dose to take tonight under the user's open plan, for the sleep diary.
+   * Null without an open plan.
+   */
+  async getPrescribedDose(userId: string): Promise<ISleepMedicationDose | null> {
+    const plan = await this.getOpenPlan(userId);
+    if (!plan) return null;
+
+    return {
+      name: plan.medication.name,
+      type: plan.medication.type,
+      dose: plan.steps[plan.currentStep].dose,
+      unit: plan.medication.unit,
+    };
+  }
+
+  /**
+   * Where the plan stands on a given day
+   */
+  getStatus(plan: ITaperPlan, asOf: Date = new Date()): ITaperStatus {
+    const current = plan.steps[plan.currentStep];
+    const next = plan.steps[plan.currentStep + 1];
+    const daysOnStep = current.startedAt
+      ? Math.max(0, Math.floor((asOf.getTime() - current.startedAt.getTime()) / DAY_MS))
+      : 0;
+    const nextStepDue = next !== undefined && daysOnStep >= plan.stepIntervalDays;
+
+    return {
+      currentDose: current.dose,
+      nextDose: next?.dose ?? null,
+      daysOnStep,
+      nextStepDue,
+      awaitingSignOff: nextStepDue && plan.status === 'active',
+    };
+  }
+
+  // ==================== Clinician Actions ====================
+
+  /**
+   * Start the next dose reduction.
+   * Null if the plan is missing, on hold, finished or the step is not due yet.
+   */
+  async signOffNextStep(
+    planId: number,
+    clinicianId: string,
+    asOf: Date = new Date()
+  ): Promise<ITaperPlan | null> {
+    const plan = await this.getPlan(planId);
+    if (!plan || !this.getStatus(plan, asOf).awaitingSignOff) return null;
+
+    const nextIndex = plan.currentStep + 1;
+    const steps = plan.steps.map((step, i): ITaperStep => {
+      if (i === plan.currentStep) return { ...step, status: 'completed', completedAt: asOf };
+      if (i === nextIndex) {
+        return { ...step, status: 'current', signedOffBy: clinicianId, signedOffAt: asOf, startedAt: asOf };
+      }
+      return step;
+    });
+    const finished = steps[nextIndex].dose === 0;
+
+    const updated = await this.save(plan, {
+      currentStep: nextIndex,
+      status: finished ? 'completed' : 'active',
+      steps,
+    });
+    this.logAction(finished ? 'TAPER_COMPLETED' : 'STEP_SIGNED_OFF', updated, clinicianId);
+    return updated;
+  }
+
+  /**
+   * Hold at the current dose
+   */
+  async holdPlan(
+    planId: number,
+    reason: TaperHoldReason,
+    heldBy: string
+  ): Promise<ITaperPlan | null> {
+    const plan = await this.getPlan(planId);
+    if (!plan || plan.status !== 'active') return null;
+
+    const updated = await this.save(plan, { status: 'on_hold', holdReason: reason });
+    this.logAction(`PLAN_HELD:${reason}`, updated, heldBy);
+    return updated;
+  }
+
+  /**
+   * Resume a held plan; the next reduction still needs its own sign-off
+   */
+  async resumePlan(planId: number, clinicianId: string): Promise<ITaperPlan | null> {
+    const plan = await this.getPlan(planId);
+    if (!plan || plan.status !== 'on_hold') return null;
+
+    const updated = await this.save(plan, { status: 'active', holdReason: null });
+    this.logAction('PLAN_RESUMED', updated, clinicianId);
+    return updated;
+  }
+
+  /**
+   * Stop tapering, e.g. when the clinician switches strategy
+   */
+  async cancelPlan(planId: number, clinicianId: string): Promise<ITaperPlan | null> {
+    const plan = await this.getPlan(planId);
+    if (!plan || plan.status === 'completed' || plan.status === 'cancelled') return null;
+
+    const updated = await this.save(plan, { status: 'cancelled' });
+    this.logAction('PLAN_CANCELLED', updated, clinicianId);
+    return updated;
+  }
+
+  // ==================== Monitoring ====================
+
+  /**
+   * Diary-recorded use since the current step started
+   */
+  async getNightlyUse(planId: number, asOf: Date = new Date()): Promise<INightlyUseSummary | null> {
+    const plan = await this.getPlan(planId);
+    if (!plan) return null;
+
+    const current = plan.steps[plan.currentStep];
+    const entries = await this.diaryRepository.findByUserAndDateRange(
+      plan.userId,
+      toDateString(current.startedAt ?? asOf),
+      toDateString(asOf)
+    );
+    return summarizeNightlyUse(plan, entries);
+  }
+
+  /**
+   * Check for withdrawal after a reduction: rebound insomnia in the diary
+   * (current step vs the nights before it) and reported symptoms.
+   * Reports an adverse event and holds an active plan when either is found.
+   */
+  async checkWithdrawal(
+    planId: number,
+    symptoms: readonly WithdrawalSymptom[] = [],
+    asOf: Date = new Date()
+  ): Promise<IWithdrawalCheck | null> {
+    const plan = await this.getPlan(planId);
+    if (!plan) return null;
+
+    const current = plan.steps[plan.currentStep];
+    const { efficiencyChange, latencyChange } = plan.currentStep > 0 && current.startedAt
+      ? await this.compareWithPreviousDose(plan.userId, current.startedAt, asOf)
+      : { efficiencyChange: null, latencyChange: null };
+
+    const reboundInsomnia =
+      (efficiencyChange !== null && -efficiencyChange >= this.config.reboundEfficiencyDrop) ||
+      (latencyChange !== null && latencyChange >= this.config.reboundLatencyIncrease);
+
+    // Diary rebound is reported once per step; new symptoms are always reported
+    const reboundReported = current.adverseEventIds.length > 0;
+    if (symptoms.length === 0 && (!reboundInsomnia || reboundReported)) {
+      return { plan, reboundInsomnia, efficiencyChange, latencyChange, report: null };
+    }
+
+    const report = await this.reportWithdrawal(plan, symptoms, reboundInsomnia, efficiencyChange, latencyChange);
+
+    const steps = plan.steps.map((step, i) => i === plan.currentStep
+      ? { ...step, adverseEventIds: [...step.adverseEventIds, report.id!] }
+      : step);
+    const updated = await this.save(plan, plan.status === 'active'
+      ? { steps, status: 'on_hold', holdReason: 'adverse_event' }
+      : { steps });
+    if (updated.status !== plan.status) this.logAction('PLAN_HELD:adverse_event', updated, 'system');
+
+    return { plan: updated, reboundInsomnia, efficiencyChange, latencyChange, report };
+  }
+
+  // ==================== Helpers ====================
+
+  /**
+   * Mean SE and SOL change from the previous dose's last nights
+   */
+  private async compareWithPreviousDose(
+    userId: string,
+    stepStart: Date,
+    asOf: Date
+  ): Promise<{ efficiencyChange: number | null; latencyChange: number | null }> {
+    const stepStartDate = toDateString(stepStart);
+    const baselineStart = toDateString(new Date(stepStart.getTime() - this.config.withdrawalBaselineNights * DAY_MS));
+    const entries = await this.diaryRepository.findByUserAndDateRange(userId, baselineStart, toDateString(asOf));
+
+    const before = entries.filter((e) => e.date < stepStartDate);
+    const after = entries.filter((e) => e.date >= stepStartDate);
+    if (before.length < this.config.withdrawalMinNights || after.length < this.config.withdrawalMinNights) {
+      return { efficiencyChange: null, latencyChange: null };
+    }
+
+    return {
+      efficiencyChange: round1(mean(after.map((e) => e.sleepEfficiency)) - mean(before.map((e) => e.sleepEfficiency))),
+      latencyChange: round1(mean(after.map((e) => e.sleepOnsetLatency)) - mean(before.map((e) => e.sleepOnsetLatency))),
+    };
+  }
+
+  /**
+   * Create the adverse event for a withdrawal finding
+   */
+  private async reportWithdrawal(
+    plan: ITaperPlan,
+    symptoms: readonly WithdrawalSymptom[],
+    reboundInsomnia: boolean,
+    efficiencyChange: number | null,
+    latencyChange: number | null
+  ): Promise<IAdverseEventReport> {
+    const dtxCategory = symptoms.length > 0 ? 'WITHDRAWAL_SYMPTOMS' : 'REBOUND_INSOMNIA';
+    const seizure = symptoms.includes('seizure');
+    const severity: AESeverity = seizure
+      ? 'severe'
+      : symptoms.length >= 3 || reboundInsomnia ? 'moderate' : 'mild';
+    const dose = `${plan.medication.name} ${plan.steps[plan.currentStep].dose} ${plan.medication.unit}`;
+
+    const findings: string[] = [];
+    if (symptoms.length > 0) findings.push(`reported symptoms: ${symptoms.join(', ')}`);
+    if (reboundInsomnia) {
+      findings.push(`rebound insomnia: SE ${formatChange(efficiencyChange)} points, SOL ${formatChange(latencyChange)} min`);
+    }
+
+    const now = new Date();
+    return this.aeService.reportAdverseEvent({
+      userId: plan.userId,
+      cioms: {
+        reporterType: 'patient',
+        patientId: plan.userId,
+        productName: 'SleepCore DTx',
+        productVersion: '1.0.0',
+        reactionTerm: DTX_AE_CATEGORIES[dtxCategory].term,
+        reactionOnsetDate: now,
+      },
+      severity,
+      isSerious: seizure,
+      seriousnessCriteria: seizure ? ['medically_important'] : undefined,
+      expectedness: seizure ? 'unexpected' : 'expected',
+      dtxCategory,
+      description: `Supervised taper plan #${plan.id}, step ${plan.currentStep} (${dose}): ${findings.join('; ')}`,
+      onsetDate: now,
+      outcome: 'not_recovered',
+      causality: 'possible',
+      actionTaken: plan.status === 'active' ? 'temporarily_interrupted' : 'none',
+      reportedBy: symptoms.length > 0 ? 'patient' : 'system',
+    });
+  }
+
+  /**
+   * Persist plan changes
+   */
+  private async save(
+    plan: ITaperPlan,
+    changes: {
+      status?: TaperPlanStatus;
+      holdReason?: TaperHoldReason | null;
+      currentStep?: number;
+      steps?: readonly ITaperStep[];
+    }
+  ): Promise<ITaperPlan> {
+    const entity = await this.repository.update(plan.id, {
+      status: changes.status,
+      currentStep: changes.currentStep,
+      stepsJson: changes.steps ? serializeSteps(changes.steps) : undefined,
+      holdReason: changes.holdReason,
+    });
+    return entity ? fromEntity(entity) : plan;
+  }
+
+  /**
+   * Audit trail for plan changes
+   */
+  private logAction(action: string, plan: ITaperPlan, actor: string): void {
+    console.log(
+      `[Taper] ${action} | Plan #${plan.id} | User: ${plan.userId} | ` +
+        `Step ${plan.currentStep} (${plan.steps[plan.currentStep].dose} ${plan.medication.unit}) | By: ${actor}`
+    );
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function fromEntity(entity: IMedicationTaperPlanEntity): ITaperPlan {
+  const steps = (JSON.parse(entity.stepsJson) as StoredTaperStep[]).map((step): ITaperStep => ({
+    ...step,
+    signedOffAt: step.signedOffAt ? new Date(step.signedOffAt) : undefined,
+    startedAt: step.startedAt ? new Date(step.startedAt) : undefined,
+    completedAt: step.completedAt ? new Date(step.completedAt) : undefined,
+  }));
+
+  return {
+    id: entity.id!,
+    userId: entity.userId,
+    medication: {
+      name: entity.medicationName,
+      type: entity.medicationType,
+      dose: entity.startingDose,
+      unit: entity.doseUnit,
+    },
+    medicationClass: entity.medicationClass as TaperMedicationClass,
+    reductionPercent: entity.reductionPercent,
+    stepIntervalDays: entity.stepIntervalDays,
+    status: entity.status as TaperPlanStatus,
+    holdReason: entity.holdReason as TaperHoldReason | undefined,
+    currentStep: entity.currentStep,
+    steps,
+    prescribedBy: entity.prescribedBy,
+    createdAt: entity.createdAt,
+  };
+}
+
+function serializeSteps(steps: readonly ITaperStep[]): string {
+  return JSON.stringify(steps.map((step): StoredTaperStep => ({
+    ...step,
+    signedOffAt: step.signedOffAt?.toISOString(),
+    startedAt: step.startedAt?.toISOString(),
+    completedAt: step.completedAt?.toISOString(),
+  })));
+}
+
+/**
+ * Count reported nights against the current step's dose
+ */
+function summarizeNightlyUse(
+  plan: ITaperPlan,
+  entries: readonly ISleepDiaryEntryEntity[]
+): INightlyUseSummary {
+  const prescribed = plan.steps[plan.currentStep].dose;
+  let nightsReported = 0;
+  let nightsAbovePrescribed = 0;
+  let nightsWithout = 0;
+
+  for (const entry of entries) {
+    if (!entry.sleepMedications) continue;
+    nightsReported++;
+
+    const taken = entry.sleepMedications.filter((m) => m.type === plan.medication.type);
+    if (taken.length === 0) {
+      nightsWithout++;
+      continue;
+    }
+    // Doses in another unit cannot be compared with the plan
+    const dose = taken
+      .filter((m) => m.unit === plan.medication.unit)
+      .reduce((sum, m) => sum + m.dose, 0);
+    if (dose > prescribed) nightsAbovePrescribed++;
+  }
+
+  return { nightsReported, nightsAbovePrescribed, nightsWithout };
+}
+
+function roundTo(value: number, precision: number): number {
+  return Number((Math.round(value / precision) * precision).toFixed(3));
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function formatChange(value: number | null): string {
+  if (value === null) return 'n/a';
+  return `${value > 0 ? '+' : ''}${value}`;
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// ============================================================================
+// FACTORY
+// ============================================================================
+
+/**
+ * Create tapering service
+ */
+export function createMedicationTaperingService(
+  db: IDatabaseConnection,
+  config?: Partial<IMedicationTaperingConfig>
+): MedicationTaperingService {
+  return new MedicationTaperingService(db, config);
+}
@@ -0,0 +1,320 @@
+/**
+ * 🗂️ PLRNN MODEL REGISTRY
+ * =======================
+ * Population prior plus per-user fine-tuned PLRNN models for
+ * SleepPredictionService.
+ *
+ * Scientific Foundation:
+ * - Koppe et al. (2019): subject-specific PLRNNs initialized from a group model
+ * - npj Digital Medicine 2025: personalized PLRNNs outperform pooled models for EMA
+ *
+ * Architecture:
+ * - The prior is shared read-only; it only changes via setPopulationWeights
+ * - A user's model is forked from the prior on their first training sample
+ * - Users without a model fall back to the prior
+ * - Weights, latest state, sample count and validation loss are persisted
+ *   through IPLRNNModelRepository when one is configured
+ *
+ * © БФ "Другой путь", 2025-2026
+ *
+ * @packageDocumentation
+ * @module @sleepcore/bot/services
+ */
+
+import {
+  createPLRNNEngine,
+  type IPLRNNEngine,
+  type IPLRNNConfig,
+  type IPLRNNState,
+  type IPLRNNWeights,
+} from '@cognicore/engine';
+
+import type {
+  IPLRNNModelEntity,
+  IPLRNNModelRepository,
+} from '../../infrastructure/database/interfaces/IRepository';
+
+// ============================================================================
+// TYPES & CONSTANTS
+// ============================================================================
+
+/**
+ * Model key of the population prior
+ */
+export const POPULATION_MODEL_KEY = 'population';
+
+/**
+ * Smoothing factor for the running validation loss
+ * (one-step-ahead loss measured before each online update)
+ */
+const VALIDATION_LOSS_SMOOTHING = 0.1;
+
+/**
+ * Model key of a user's fine-tuned model
+ */
+export function getUserModelKey(userId: string): string {
+  return `user:${userId}`;
+}
+
+/**
+ * Model metadata as reported by the registry
+ */
+export interface IPLRNNModelInfo {
+  /** Whether predictions for the user use their own model or the prior */
+  readonly scope: 'population' | 'user';
+  /** Persisted version (0 if never saved) */
+  readonly version: number;
+  /** Samples the model has been trained on */
+  readonly trainingSamples: number;
+  /** Running one-step-ahead validation loss, null until measured */
+  readonly validationLoss: number | null;
+}
+
+/**
+ * In-memory model record
+ */
+interface IModelRecord {
+  engine: IPLRNNEngine;
+  version: number;
+  validationLoss: number | null;
+}
+
+// ============================================================================
+// PLRNN MODEL REGISTRY
+// ============================================================================
+
+/**
+ * PLRNN Model Registry
+ * Holds the population prior and per-user fine-tuned engines
+ */
+export class PLRNNModelRegistry {
+  private population: IModelRecord;
+  private userModels: Map<string, IModelRecord> = new Map();
+  private repository: IPLRNNModelRepository | null = null;
+
+  constructor(
+    private readonly plrnnConfig: Partial<IPLRNNConfig> = {},
+    repository?: IPLRNNModelRepository
+  ) {
+    this.population = {
+      engine: createPLRNNEngine(plrnnConfig),
+      version: 0,
+      validationLoss: null,
+    };
+    this.repository = repository ?? null;
+  }
+
+  /**
+   * Persist models through a repository
+   */
+  setRepository(repository: IPLRNNModelRepository): void {
+    this.repository = repository;
+  }
+
+  // ==========================================================================
+  // ENGINE ACCESS
+  // ==========================================================================
+
+  /**
+   * Population prior engine
+   */
+  getPopulationEngine(): IPLRNNEngine {
+    return this.population.engine;
+  }
+
+  /**
+   * Engine for predictions: the user's model, or the prior if they have none
+   */
+  getEngine(userId: string): IPLRNNEngine {
+    return this.userModels.get(userId)?.engine ?? this.population.engine;
+  }
+
+  /**
+   * Engine for training: the user's model, forked from the prior on first use
+   */
+  getOrCreateUserEngine(userId: string): IPLRNNEngine {
+    let record = this.userModels.get(userId);
+    if (!record) {
+      const prior = this.population.engine.getWeights();
+      record = {
+        engine: this.createEngine({
+          ...prior,
+          meta: { ...prior.meta, trainedAt: new Date(), trainingSamples: 0, validationLoss: Infinity },
+        }),
+        version: 0,
+        validationLoss: null,
+      };
+      this.userModels.set(userId, record);
+    }
+    return record.engine;
+  }
+
+  /**
+   * Whether the user has their own model
+   */
+  hasUserModel(userId: string): boolean {
+    return this.userModels.has(userId);
+  }
+
+  /**
+   * Number of users with their own model
+   */
+  getUserModelCount(): number {
+    return this.userModels.size;
+  }
+
+  /**
+   * Metadata of the model used for a user (the prior when no user is given)
+   */
+  getModelInfo(userId?: string): IPLRNNModelInfo {
+    const userRecord = userId !== undefined ? this.userModels.get(userId) : undefined;
+    const record = userRecord ?? this.population;
+
+    return {
+      scope: userRecord ? 'user' : 'population',
+      version: record.version,
+      trainingSamples: record.engine.getWeights().meta.trainingSamples,
+      validationLoss: record.validationLoss,
+    };
+  }
+
+  /**
+   * Record the one-step-ahead loss of an online training sample
+   */
+  recordValidationLoss(userId: string, loss: number): void {
+    const record = this.userModels.get(userId);
+    if (!record || !Number.isFinite(loss)) return;
+
+    record.validationLoss = record.validationLoss === null
+      ? loss
+      : record.validationLoss + VALIDATION_LOSS_SMOOTHING * (loss - record.validationLoss);
+  }
+
+  /**
+   * Replace the population prior (e.g. after offline training).
+   * Existing user models are kept.
+   */
+  setPopulationWeights(weights: IPLRNNWeights): void {
+    this.population = {
+      engine: this.createEngine(weights),
+      version: this.population.version,
+      validationLoss: Number.isFinite(weights.meta.validationLoss) ? weights.meta.validationLoss : null,
+    };
+  }
+
+  // ==========================================================================
+  // PERSISTENCE
+  // ==========================================================================
+
+  /**
+   * Load the persisted population prior
+   * @returns false if none is stored or no repository is configured
+   */
+  async loadPopulation(): Promise<boolean> {
+    const entity = await this.repository?.findByKey(POPULATION_MODEL_KEY);
+    if (!entity) return false;
+
+    this.population = this.entityToRecord(entity);
+    return true;
+  }
+
+  /**
+   * Save the population prior
+   */
+  async savePopulation(): Promise<IPLRNNModelEntity | null> {
+    if (!this.repository) return null;
+
+    const entity = await this.repository.saveModel(
+      this.recordToEntity(POPULATION_MODEL_KEY, this.population)
+    );
+    this.population.version = entity.version;
+    return entity;
+  }
+
+  /**
+   * Load a user's persisted model
+   * @returns The user's last saved state, or null if they have no model
+   */
+  async loadUser(userId: string): Promise<IPLRNNState | null> {
+    const entity = await this.repository?.findByKey(getUserModelKey(userId));
+    if (!entity) return null;
+
+    this.userModels.set(userId, this.entityToRecord(entity));
+    return entity.stateJson ? parseState(entity.stateJson) : null;
+  }
+
+  /**
+   * Save a user's model with their latest state
+   * @returns null if the user has no model or no repository is configured
+   */
+  async saveUser(userId: string, state?: IPLRNNState): Promise<IPLRNNModelEntity | null> {
+    const record = this.userModels.get(userId);
+    if (!this.repository || !record) return null;
+
+    const entity = await this.repository.saveModel({
+      ...this.recordToEntity(getUserModelKey(userId), record),
+      userId,
+      stateJson: state ? JSON.stringify(state) : undefined,
+    });
+    record.version = entity.version;
+    return entity;
+  }
+
+  /**
+   * Drop a user's model in memory and in storage (GDPR)
+   */
+  async deleteUser(userId: string): Promise<void> {
+    this.userModels.delete(userId);
+    await this.repository?.deleteByUserId(userId);
+  }
+
+  // ==========================================================================
+  // HELPERS
+  // ==========================================================================
+
+  private createEngine(weights: IPLRNNWeights): IPLRNNEngine {
+    const engine = createPLRNNEngine(this.plrnnConfig);
+    engine.loadWeights(weights);
+    return engine;
+  }
+
+  private entityToRecord(entity: IPLRNNModelEntity): IModelRecord {
+    return {
+      engine: this.createEngine(JSON.parse(entity.weightsJson) as IPLRNNWeights),
+      version: entity.version,
+      validationLoss: entity.validationLoss ?? null,
+    };
+  }
+
+  private recordToEntity(
+    modelKey: string,
+    record: IModelRecord
+  ): Omit<IPLRNNModelEntity, 'id' | 'version' | 'createdAt' | 'updatedAt'> {
+    const weights = record.engine.getWeights();
+    return {
+      modelKey,
+      weightsJson: JSON.stringify(weights),
+      trainingSamples: weights.meta.trainingSamples,
+      validationLoss: record.validationLoss ?? undefined,
+      trainedAt: new Date(weights.meta.trainedAt),
+    };
+  }
+}
+
+/**
+ * Parse a persisted PLRNN state (timestamps are stored as ISO strings)
+ */
+function parseState(json: string): IPLRNNState {
+  const state = JSON.parse(json) as IPLRNNState;
+  return { ...state, timestamp: new Date(state.timestamp) };
+}
+
+/**
+ * Create PLRNN model registry
+ */
+export function createPLRNNModelRegistry(
+  plrnnConfig?: Partial<IPLRNNConfig>,
+  repository?: IPLRNNModelRepository
+): PLRNNModelRegistry {
+  return new PLRNNModelRegistry(plrnnConfig, repository);
+}
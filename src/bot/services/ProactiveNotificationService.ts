@@ -11,6 +11,13 @@
  * - Meta's 14-day rule: follow-ups only within 14 days of first contact
  * - Alert fatigue: max 2 notifications/day (PMC 5466696)
  *
+ * Delivery runs on a frequent dispatch loop instead of fixed MSK cron
+ * times: each user is notified when *their* local time reaches the
+ * morningTime/eveningTime stored in INotificationPreferences.
+ *
+ * With a repository attached, subscriptions and dispatch state are
+ * written through to the database and restored by rehydrate() on startup.
+ *
  * @packageDocumentation
  * @module @sleepcore/bot/services
  */
@@ -20,22 +27,44 @@ import type { Bot, Context } from 'grammy';
 import {
   ContextAwareMenuService,
   type ICommandContext,
-  getMoscowHour,
 } from '../commands/registry';
 import { dailyGreeting } from './DailyGreetingService';
+import type {
+  INotificationSubscriptionEntity,
+  INotificationSubscriptionRepository,
+} from '../../infrastructure/database/interfaces/IRepository';
+import {
+  DEFAULT_TIMEZONE,
+  getZonedTime,
+  isLocalTimeDue,
+  isValidTimezone,
+  systemClock,
+  type IClock,
+  type IZonedTime,
+} from './ZonedTime';
 
 // ==================== Constants (Research-Based) ====================
 
 /**
- * Notification timing based on research
- * - Morning: 08:00 MSK (JMIR 2025 - diary completion)
- * - Evening: 20:00 MSK (PLOS One - "golden hour" 17:00-20:00)
+ * Default notification timing (user local time) based on research
+ * - Morning: 08:00 (JMIR 2025 - diary completion)
+ * - Evening: 20:00 (PLOS One - "golden hour" 17:00-20:00)
  * - NOT 21:00 - too close to sleep time for CBT-I users
  */
 const NOTIFICATION_TIMES = {
-  morning: { hour: 8, cronExpression: '0 8 * * *' },
-  evening: { hour: 20, cronExpression: '0 20 * * *' }, // Changed from 21:00
-  reengagement: { hour: 12, cronExpression: '0 12 * * *' },
+  morning: { hour: 8, time: '08:00' },
+  evening: { hour: 20, time: '20:00' }, // Changed from 21:00
+  reengagement: { hour: 12, time: '12:00' },
+} as const;
+
+/**
+ * Dispatch loop settings
+ * - Runs every 5 minutes and checks each user's local time
+ * - Catch-up window tolerates missed ticks and DST-skipped targets
+ */
+const DISPATCH_CONFIG = {
+  cronExpression: '*/5 * * * *',
+  catchUpMinutes: 90,
 } as const;
 
 /**
@@ -63,6 +92,11 @@ export interface INotificationPreferences {
   timezone: string;
 }
 
+/**
+ * Notification slot within a user's local day
+ */
+export type NotificationSlot = 'morning' | 'evening' | 'reengagement';
+
 /**
  * Active user session data with Meta 14-day tracking
  */
@@ -80,6 +114,8 @@ export interface IUserNotificationData {
   reengagementAttempts: number;
   /** Last user response to notification */
   lastResponseAt?: Date;
+  /** Local date (YYYY-MM-DD) each slot was last dispatched - prevents resends */
+  lastSlotDates?: Partial<Record<NotificationSlot, string>>;
 }
 
 /**
@@ -88,10 +124,20 @@ export interface IUserNotificationData {
 export interface INotificationJob {
   id: string;
   cronExpression: string;
-  type: 'morning' | 'evening' | 'reengagement';
+  type: NotificationSlot | 'dispatch';
   handler: () => Promise<void>;
 }
 
+/**
+ * Service options
+ */
+export interface IProactiveNotificationOptions {
+  /** Time source (fake clock in tests) */
+  clock?: IClock;
+  /** Durable subscription storage (in-memory only when omitted) */
+  repository?: INotificationSubscriptionRepository;
+}
+
 // ==================== Proactive Notification Service ====================
 
 /**
@@ -104,10 +150,36 @@ export class ProactiveNotificationService {
   private activeUsers: Map<string, IUserNotificationData> = new Map();
   private jobs: Map<string, cron.ScheduledTask> = new Map();
   private isRunning = false;
-
-  constructor(bot: Bot<Context>, menuService: ContextAwareMenuService) {
+  private clock: IClock;
+  private repository?: INotificationSubscriptionRepository;
+
+  constructor(
+    bot: Bot<Context>,
+    menuService: ContextAwareMenuService,
+    options: IProactiveNotificationOptions = {}
+  ) {
     this.bot = bot;
     this.menuService = menuService;
+    this.clock = options.clock ?? systemClock;
+    this.repository = options.repository;
+  }
+
+  /**
+   * Restore enabled subscriptions from the repository.
+   * Call once on startup, before start().
+   */
+  async rehydrate(): Promise<number> {
+    if (!this.repository) return 0;
+
+    const subscriptions = await this.repository.findEnabled();
+    for (const entity of subscriptions) {
+      const userData = entityToUserData(entity);
+      userData.preferences = this.normalizePreferences(userData.userId, userData.preferences);
+      this.activeUsers.set(userData.userId, userData);
+    }
+
+    console.log(`[Notifications] Rehydrated ${subscriptions.length} subscription(s)`);
+    return subscriptions.length;
   }
 
   /**
@@ -116,34 +188,18 @@ export class ProactiveNotificationService {
   start(): void {
     if (this.isRunning) return;
 
-    // Morning notification - 08:00 MSK (research-backed for diary)
-    this.scheduleJob({
-      id: 'morning',
-      cronExpression: NOTIFICATION_TIMES.morning.cronExpression,
-      type: 'morning',
-      handler: () => this.sendMorningNotifications(),
-    });
-
-    // Evening notification - 20:00 MSK (research: "golden hour")
-    this.scheduleJob({
-      id: 'evening',
-      cronExpression: NOTIFICATION_TIMES.evening.cronExpression,
-      type: 'evening',
-      handler: () => this.sendEveningNotifications(),
-    });
-
-    // Re-engagement check - 12:00 MSK daily
+    // Per-user dispatch loop - each user is notified at their local time
     this.scheduleJob({
-      id: 'reengagement',
-      cronExpression: NOTIFICATION_TIMES.reengagement.cronExpression,
-      type: 'reengagement',
-      handler: () => this.sendReengagementNotifications(),
+      id: 'dispatch',
+      cronExpression: DISPATCH_CONFIG.cronExpression,
+      type: 'dispatch',
+      handler: () => this.dispatchDueNotifications(),
     });
 
     this.isRunning = true;
-    console.log('[Notifications] Service started (research-compliant timings)');
-    console.log(`[Notifications] Morning: ${NOTIFICATION_TIMES.morning.hour}:00 MSK`);
-    console.log(`[Notifications] Evening: ${NOTIFICATION_TIMES.evening.hour}:00 MSK (golden hour)`);
+    console.log('[Notifications] Service started (research-compliant timings, user local time)');
+    console.log(`[Notifications] Morning default: ${NOTIFICATION_TIMES.morning.time}`);
+    console.log(`[Notifications] Evening default: ${NOTIFICATION_TIMES.evening.time} (golden hour)`);
     console.log(`[Notifications] Re-engagement: after ${REENGAGEMENT_CONFIG.minInactiveDays} days (max ${REENGAGEMENT_CONFIG.maxFollowUpDays} days)`);
   }
 
@@ -163,48 +219,79 @@ export class ProactiveNotificationService {
   /**
    * Register user for notifications
    */
-  registerUser(data: Omit<IUserNotificationData, 'firstInteractionAt' | 'reengagementAttempts'>): void {
+  async registerUser(
+    data: Omit<IUserNotificationData, 'firstInteractionAt' | 'reengagementAttempts'>
+  ): Promise<void> {
     if (!data.preferences.enabled) return;
 
     const fullData: IUserNotificationData = {
       ...data,
-      firstInteractionAt: new Date(),
+      preferences: this.normalizePreferences(data.userId, data.preferences),
+      firstInteractionAt: this.clock.now(),
       reengagementAttempts: 0,
     };
 
     this.activeUsers.set(data.userId, fullData);
     console.log(`[Notifications] Registered user: ${data.userId}`);
+    await this.persist(fullData);
   }
 
   /**
    * Unregister user from notifications
    */
-  unregisterUser(userId: string): void {
+  async unregisterUser(userId: string): Promise<void> {
     this.activeUsers.delete(userId);
     console.log(`[Notifications] Unregistered user: ${userId}`);
+    await this.disableSubscription(userId);
+  }
+
+  /**
+   * Update notification preferences (timezone, times, opt-out)
+   */
+  async updatePreferences(userId: string, preferences: Partial<INotificationPreferences>): Promise<void> {
+    const user = this.activeUsers.get(userId);
+    if (!user) return;
+
+    const merged = { ...user.preferences, ...preferences };
+    if (!merged.enabled) {
+      await this.unregisterUser(userId);
+      return;
+    }
+    user.preferences = this.normalizePreferences(userId, merged);
+    await this.persist(user);
+  }
+
+  /**
+   * Get user notification data
+   */
+  getUserData(userId: string): IUserNotificationData | undefined {
+    return this.activeUsers.get(userId);
   }
 
   /**
    * Record user response (resets 14-day window)
    * Call this when user interacts with bot
    */
-  recordUserResponse(userId: string): void {
+  async recordUserResponse(userId: string): Promise<void> {
     const user = this.activeUsers.get(userId);
     if (user) {
-      user.lastResponseAt = new Date();
+      const now = this.clock.now();
+      user.lastResponseAt = now;
       user.reengagementAttempts = 0; // Reset on engagement
       // Extend 14-day window on response (Meta's rule)
-      user.firstInteractionAt = new Date();
+      user.firstInteractionAt = now;
+      await this.persist(user);
     }
   }
 
   /**
    * Update user context (for personalized notifications)
    */
-  updateUserContext(userId: string, context: Partial<ICommandContext>): void {
+  async updateUserContext(userId: string, context: Partial<ICommandContext>): Promise<void> {
     const user = this.activeUsers.get(userId);
     if (user) {
       user.context = { ...user.context, ...context };
+      await this.persist(user);
     }
   }
 
@@ -212,8 +299,9 @@ export class ProactiveNotificationService {
    * Check if we can send notification (Meta's 14-day rule)
    */
   private canSendFollowUp(userData: IUserNotificationData): boolean {
+    const now = this.clock.now().getTime();
     const daysSinceFirstInteraction = Math.floor(
-      (Date.now() - userData.firstInteractionAt.getTime()) / (1000 * 60 * 60 * 24)
+      (now - userData.firstInteractionAt.getTime()) / (1000 * 60 * 60 * 24)
     );
 
     // Meta's rule: stop after 14 days without response
@@ -223,7 +311,7 @@ export class ProactiveNotificationService {
         return false;
       }
       const daysSinceResponse = Math.floor(
-        (Date.now() - userData.lastResponseAt.getTime()) / (1000 * 60 * 60 * 24)
+        (now - userData.lastResponseAt.getTime()) / (1000 * 60 * 60 * 24)
       );
       if (daysSinceResponse > REENGAGEMENT_CONFIG.maxFollowUpDays) {
         return false;
@@ -240,7 +328,7 @@ export class ProactiveNotificationService {
     if (!userData.lastNotificationAt) return false;
 
     const hoursSinceNotification =
-      (Date.now() - userData.lastNotificationAt.getTime()) / (1000 * 60 * 60);
+      (this.clock.now().getTime() - userData.lastNotificationAt.getTime()) / (1000 * 60 * 60);
 
     return hoursSinceNotification < REENGAGEMENT_CONFIG.cooldownHours;
   }
@@ -259,7 +347,7 @@ export class ProactiveNotificationService {
           console.error(`[Notifications] Job ${job.id} failed:`, error);
         }
       },
-      { timezone: 'Europe/Moscow' }
+      { timezone: DEFAULT_TIMEZONE }
     );
 
     this.jobs.set(job.id, task);
@@ -267,81 +355,127 @@ export class ProactiveNotificationService {
   }
 
   /**
-   * Send morning notifications with integrated mood check
-   * Uses DailyGreetingService for personalized, mood-aware greetings
+   * Run one dispatch cycle: send every slot that is due in each user's local time.
+   * Called by the cron loop; public so it can be driven with a fake clock.
    */
-  private async sendMorningNotifications(): Promise<void> {
-    const hour = getMoscowHour();
-    if (hour !== NOTIFICATION_TIMES.morning.hour) return;
+  async dispatchDueNotifications(): Promise<void> {
+    const now = this.clock.now();
 
     for (const [userId, userData] of this.activeUsers) {
-      try {
-        // Check 14-day rule
-        if (!this.canSendFollowUp(userData)) {
-          console.log(`[Notifications] Skipping ${userId} - exceeded 14-day window`);
-          continue;
+      const local = getZonedTime(now, userData.preferences.timezone);
+
+      for (const slot of ['morning', 'evening', 'reengagement'] as const) {
+        if (!this.isSlotDue(userData, slot, local)) continue;
+
+        // Mark before sending so a failing user is not retried every tick
+        userData.lastSlotDates = { ...userData.lastSlotDates, [slot]: local.dateKey };
+
+        try {
+          if (slot === 'morning') {
+            await this.sendMorningNotification(userId, userData);
+          } else if (slot === 'evening') {
+            await this.sendEveningNotification(userId, userData);
+          } else {
+            await this.sendReengagementNotification(userId, userData, local);
+          }
+        } catch (error) {
+          console.error(`[Notifications] Failed to notify ${userId}:`, error);
         }
 
-        const context = this.buildFullContext(userData);
-
-        // Use DailyGreetingService for mood-integrated morning notification
-        const { message, keyboard } = dailyGreeting.generateMorningNotification(
-          userData.userName,
-          undefined, // streak - would need to be passed in userData
-          context.hasPendingDiary
-        );
-
-        // Convert InlineKeyboard to notification format
-        const notification = {
-          message,
-          keyboard: this.convertInlineKeyboard(keyboard),
-        };
-
-        await this.sendNotification(userData.chatId, notification);
-        userData.lastNotificationAt = new Date();
-        console.log(`[Notifications] Sent mood-integrated morning notification to ${userId}`);
-      } catch (error) {
-        console.error(`[Notifications] Failed to notify ${userId}:`, error);
+        // User may have been removed (blocked bot, 14-day rule)
+        if (!this.activeUsers.has(userId)) {
+          await this.disableSubscription(userId);
+          break;
+        }
+        await this.persist(userData);
       }
     }
   }
 
   /**
-   * Send evening notifications (20:00 - research "golden hour")
-   * Uses DailyGreetingService for mood-aware evening greetings
+   * Check whether a slot is due for the user at their local time
    */
-  private async sendEveningNotifications(): Promise<void> {
-    const hour = getMoscowHour();
-    if (hour !== NOTIFICATION_TIMES.evening.hour) return;
+  private isSlotDue(
+    userData: IUserNotificationData,
+    slot: NotificationSlot,
+    local: IZonedTime
+  ): boolean {
+    if (userData.lastSlotDates?.[slot] === local.dateKey) return false;
+
+    const targetTime =
+      slot === 'morning'
+        ? userData.preferences.morningTime
+        : slot === 'evening'
+          ? userData.preferences.eveningTime
+          : NOTIFICATION_TIMES.reengagement.time;
+
+    return isLocalTimeDue(local, targetTime, DISPATCH_CONFIG.catchUpMinutes);
+  }
 
-    for (const [userId, userData] of this.activeUsers) {
-      try {
-        // Check 14-day rule
-        if (!this.canSendFollowUp(userData)) {
-          continue;
-        }
+  /**
+   * Send morning notification with integrated mood check
+   * Uses DailyGreetingService for personalized, mood-aware greetings
+   */
+  private async sendMorningNotification(
+    userId: string,
+    userData: IUserNotificationData
+  ): Promise<void> {
+    // Check 14-day rule
+    if (!this.canSendFollowUp(userData)) {
+      console.log(`[Notifications] Skipping ${userId} - exceeded 14-day window`);
+      return;
+    }
 
-        const context = this.buildFullContext(userData);
-
-        // Use DailyGreetingService for mood-integrated evening notification
-        const { message, keyboard } = dailyGreeting.generateEveningNotification(
-          userData.userName,
-          context.hasPendingDiary
-        );
-
-        // Convert InlineKeyboard to notification format
-        const notification = {
-          message,
-          keyboard: this.convertInlineKeyboard(keyboard),
-        };
-
-        await this.sendNotification(userData.chatId, notification);
-        userData.lastNotificationAt = new Date();
-        console.log(`[Notifications] Sent mood-integrated evening notification to ${userId}`);
-      } catch (error) {
-        console.error(`[Notifications] Failed to notify ${userId}:`, error);
-      }
+    const context = this.buildFullContext(userData);
+
+    // Use DailyGreetingService for mood-integrated morning notification
+    const { message, keyboard } = dailyGreeting.generateMorningNotification(
+      userData.userName,
+      undefined, // streak - would need to be passed in userData
+      context.hasPendingDiary
+    );
+
+    // Convert InlineKeyboard to notification format
+    const notification = {
+      message,
+      keyboard: this.convertInlineKeyboard(keyboard),
+    };
+
+    await this.sendNotification(userData.chatId, notification);
+    userData.lastNotificationAt = this.clock.now();
+    console.log(`[Notifications] Sent mood-integrated morning notification to ${userId}`);
+  }
+
+  /**
+   * Send evening notification (20:00 default - research "golden hour")
+   * Uses DailyGreetingService for mood-aware evening greetings
+   */
+  private async sendEveningNotification(
+    userId: string,
+    userData: IUserNotificationData
+  ): Promise<void> {
+    // Check 14-day rule
+    if (!this.canSendFollowUp(userData)) {
+      return;
     }
+
+    const context = this.buildFullContext(userData);
+
+    // Use DailyGreetingService for mood-integrated evening notification
+    const { message, keyboard } = dailyGreeting.generateEveningNotification(
+      userData.userName,
+      context.hasPendingDiary
+    );
+
+    // Convert InlineKeyboard to notification format
+    const notification = {
+      message,
+      keyboard: this.convertInlineKeyboard(keyboard),
+    };
+
+    await this.sendNotification(userData.chatId, notification);
+    userData.lastNotificationAt = this.clock.now();
+    console.log(`[Notifications] Sent mood-integrated evening notification to ${userId}`);
   }
 
   /**
@@ -361,60 +495,59 @@ export class ProactiveNotificationService {
   }
 
   /**
-   * Send re-engagement notifications to inactive users
+   * Send re-engagement notification to an inactive user
    * Research: 7+ days inactive, not 2 days (PMC 9092233)
    */
-  private async sendReengagementNotifications(): Promise<void> {
-    for (const [userId, userData] of this.activeUsers) {
-      try {
-        const context = this.buildFullContext(userData);
+  private async sendReengagementNotification(
+    userId: string,
+    userData: IUserNotificationData,
+    local: IZonedTime
+  ): Promise<void> {
+    const context = this.buildFullContext(userData, local);
 
-        // Research-based: wait 7 days, not 2 (PMC: early re-engagement ineffective)
-        if (context.daysSinceLastActivity < REENGAGEMENT_CONFIG.minInactiveDays) {
-          continue;
-        }
+    // Research-based: wait 7 days, not 2 (PMC: early re-engagement ineffective)
+    if (context.daysSinceLastActivity < REENGAGEMENT_CONFIG.minInactiveDays) {
+      return;
+    }
 
-        // Check 14-day rule
-        if (!this.canSendFollowUp(userData)) {
-          console.log(`[Notifications] Removing ${userId} - exceeded 14-day window without response`);
-          this.activeUsers.delete(userId);
-          continue;
-        }
+    // Check 14-day rule
+    if (!this.canSendFollowUp(userData)) {
+      console.log(`[Notifications] Removing ${userId} - exceeded 14-day window without response`);
+      this.activeUsers.delete(userId);
+      return;
+    }
 
-        // Check cooldown
-        if (this.isInCooldown(userData)) {
-          continue;
-        }
+    // Check cooldown
+    if (this.isInCooldown(userData)) {
+      return;
+    }
 
-        const notification = this.menuService.generateReengagementMessage(
-          context,
-          userData.userName
-        );
+    const notification = this.menuService.generateReengagementMessage(
+      context,
+      userData.userName
+    );
 
-        if (notification) {
-          await this.sendNotification(userData.chatId, notification);
-          userData.lastNotificationAt = new Date();
-          userData.reengagementAttempts++;
-          console.log(`[Notifications] Sent re-engagement to ${userId} (attempt ${userData.reengagementAttempts})`);
-        }
-      } catch (error) {
-        console.error(`[Notifications] Failed to notify ${userId}:`, error);
-      }
+    if (notification) {
+      await this.sendNotification(userData.chatId, notification);
+      userData.lastNotificationAt = this.clock.now();
+      userData.reengagementAttempts++;
+      console.log(`[Notifications] Sent re-engagement to ${userId} (attempt ${userData.reengagementAttempts})`);
     }
   }
 
   /**
    * Build full context from partial user data
    */
-  private buildFullContext(userData: IUserNotificationData): ICommandContext {
-    const now = new Date();
+  private buildFullContext(userData: IUserNotificationData, local?: IZonedTime): ICommandContext {
+    const now = this.clock.now();
+    const zoned = local ?? getZonedTime(now, userData.preferences.timezone);
     const lastActivity = userData.context.daysSinceLastActivity
       ? new Date(now.getTime() - userData.context.daysSinceLastActivity * 24 * 60 * 60 * 1000)
       : now;
 
     return {
       timeOfDay: userData.context.timeOfDay || 'day',
-      dayOfWeek: now.getDay(),
+      dayOfWeek: zoned.dayOfWeek,
       therapyPhase: userData.context.therapyPhase || 'active',
       therapyWeek: userData.context.therapyWeek || 1,
       hasPendingDiary: userData.context.hasPendingDiary ?? true,
@@ -425,6 +558,49 @@ export class ProactiveNotificationService {
     };
   }
 
+  /**
+   * Write user state through to the repository (no-op without one).
+   * Failures are logged: delivery must not stop because storage is down.
+   */
+  private async persist(userData: IUserNotificationData): Promise<void> {
+    if (!this.repository) return;
+    try {
+      await this.repository.upsert(userDataToEntity(userData));
+    } catch (error) {
+      console.error(`[Notifications] Failed to persist subscription ${userData.userId}:`, error);
+    }
+  }
+
+  /**
+   * Mark subscription disabled in the repository (no-op without one)
+   */
+  private async disableSubscription(userId: string): Promise<void> {
+    if (!this.repository) return;
+    try {
+      await this.repository.disable(userId);
+    } catch (error) {
+      console.error(`[Notifications] Failed to disable subscription ${userId}:`, error);
+    }
+  }
+
+  /**
+   * Fill defaults and fall back to DEFAULT_TIMEZONE for unknown zones
+   */
+  private normalizePreferences(
+    userId: string,
+    preferences: INotificationPreferences
+  ): INotificationPreferences {
+    if (preferences.timezone && !isValidTimezone(preferences.timezone)) {
+      console.warn(`[Notifications] Unknown timezone "${preferences.timezone}" for ${userId}, using ${DEFAULT_TIMEZONE}`);
+    }
+    return {
+      enabled: preferences.enabled,
+      morningTime: preferences.morningTime || NOTIFICATION_TIMES.morning.time,
+      eveningTime: preferences.eveningTime || NOTIFICATION_TIMES.evening.time,
+      timezone: isValidTimezone(preferences.timezone) ? preferences.timezone : DEFAULT_TIMEZONE,
+    };
+  }
+
   /**
    * Send notification to user
    */
@@ -487,18 +663,62 @@ export class ProactiveNotificationService {
   getConfig() {
     return {
       times: NOTIFICATION_TIMES,
+      dispatch: DISPATCH_CONFIG,
       reengagement: REENGAGEMENT_CONFIG,
     };
   }
 }
 
+// ==================== Entity Mapping ====================
+
+function userDataToEntity(
+  userData: IUserNotificationData
+): Omit<INotificationSubscriptionEntity, 'id' | 'createdAt' | 'updatedAt'> {
+  return {
+    userId: userData.userId,
+    chatId: userData.chatId,
+    userName: userData.userName,
+    enabled: userData.preferences.enabled,
+    morningTime: userData.preferences.morningTime,
+    eveningTime: userData.preferences.eveningTime,
+    timezone: userData.preferences.timezone,
+    contextJson: JSON.stringify(userData.context),
+    firstInteractionAt: userData.firstInteractionAt,
+    lastNotificationAt: userData.lastNotificationAt,
+    lastResponseAt: userData.lastResponseAt,
+    reengagementAttempts: userData.reengagementAttempts,
+    lastSlotDatesJson: JSON.stringify(userData.lastSlotDates ?? {}),
+  };
+}
+
+function entityToUserData(entity: INotificationSubscriptionEntity): IUserNotificationData {
+  return {
+    chatId: entity.chatId,
+    userId: entity.userId,
+    userName: entity.userName,
+    preferences: {
+      enabled: entity.enabled,
+      morningTime: entity.morningTime,
+      eveningTime: entity.eveningTime,
+      timezone: entity.timezone,
+    },
+    context: JSON.parse(entity.contextJson) as Partial<ICommandContext>,
+    firstInteractionAt: entity.firstInteractionAt,
+    lastNotificationAt: entity.lastNotificationAt,
+    reengagementAttempts: entity.reengagementAttempts,
+    lastResponseAt: entity.lastResponseAt,
+    lastSlotDates: JSON.parse(entity.lastSlotDatesJson) as IUserNotificationData['lastSlotDates'],
+  };
+}
+
 // ==================== Factory ====================
 
 export function createProactiveNotificationService(
   bot: Bot<Context>,
-  menuService: ContextAwareMenuService
+  menuService: ContextAwareMenuService,
+  options?: IProactiveNotificationOptions
 ): ProactiveNotificationService {
-  return new ProactiveNotificationService(bot, menuService);
+  return new ProactiveNotificationService(bot, menuService, options);
 }
 
 export default ProactiveNotificationService;
@@ -0,0 +1,71 @@
+/**
+ * QuestionnaireAssessmentRecorder - /assess Result Persistence
+ * ============================================================
+ * Stores a completed questionnaire from AssessCommand metadata as an
+ * ePRO assessment row.
+ *
+ * assessments.user_id references users(id), so results are stored under
+ * the database user ID, never the Telegram ID.
+ *
+ * @packageDocumentation
+ * @module @sleepcore/bot/services
+ */
+
+import type { IQuestionnaireResult } from '../../assessment';
+import { questionnaireEngine } from '../../assessment';
+import type {
+  IAssessmentEntity,
+  IAssessmentRepository,
+} from '../../infrastructure/database/interfaces/IRepository';
+
+/**
+ * Build the assessment row for a completed questionnaire
+ * @param dbUserId - Database user ID (users.id)
+ * @param metadata - Metadata of the AssessCommand result step
+ */
+export function buildQuestionnaireAssessment(
+  dbUserId: number,
+  metadata: Record<string, unknown>
+): Omit<IAssessmentEntity, 'id' | 'createdAt' | 'updatedAt'> {
+  const scored = metadata.result as IQuestionnaireResult;
+  const responses = metadata.responses as Record<string, number>;
+  const startedAt = metadata.startedAt as string | null;
+  const completedAt = metadata.completedAt as string;
+  const { shortName } = questionnaireEngine.getDefinition(scored.questionnaireId);
+
+  return {
+    userId: String(dbUserId),
+    type: scored.questionnaireId,
+    score: scored.totalScore,
+    severity: scored.severity,
+    category: scored.isClinical ? 'clinical' : 'non_clinical',
+    // ePRO format: item-level responses plus derived subscales
+    responsesJson: JSON.stringify({
+      items: Object.entries(responses).map(([item, value]) => ({ item, value })),
+      subscales: scored.subscales,
+      alerts: scored.alerts.map((alert) => alert.type),
+      startedAt,
+      completedAt,
+      totalDurationMs: startedAt
+        ? new Date(completedAt).getTime() - new Date(startedAt).getTime()
+        : null,
+    }),
+    interpretation: `${shortName} Score: ${scored.totalScore}/${scored.maxScore} - ${scored.severity}`,
+    assessedAt: new Date(completedAt),
+    deletedAt: null,
+  };
+}
+
+/**
+ * Persist a completed questionnaire
+ * @param repository - Assessment repository
+ * @param dbUserId - Database user ID (users.id)
+ * @param metadata - Metadata of the AssessCommand result step
+ */
+export async function recordQuestionnaireAssessment(
+  repository: Pick<IAssessmentRepository, 'insert'>,
+  dbUserId: number,
+  metadata: Record<string, unknown>
+): Promise<IAssessmentEntity> {
+  return repository.insert(buildQuestionnaireAssessment(dbUserId, metadata));
+}
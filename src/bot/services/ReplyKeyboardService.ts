@@ -16,6 +16,7 @@
 
 import { Keyboard } from 'grammy';
 import type { TimeOfDay } from '../commands/registry';
+import { DEFAULT_TIMEZONE, getLocalHour } from './ZonedTime';
 
 // ==================== Types ====================
 
@@ -161,15 +162,10 @@ const LAYOUTS_BY_TIME: Record<TimeOfDay, IKeyboardLayout> = {
  */
 export class ReplyKeyboardService {
   /**
-   * Get current time of day (Moscow timezone)
+   * Get current time of day in the user's timezone (Moscow by default)
    */
-  getTimeOfDay(): TimeOfDay {
-    const now = new Date();
-    // Moscow is UTC+3
-    const moscowOffset = 3 * 60;
-    const localOffset = now.getTimezoneOffset();
-    const moscowTime = new Date(now.getTime() + (moscowOffset + localOffset) * 60000);
-    const hour = moscowTime.getHours();
+  getTimeOfDay(timezone: string = DEFAULT_TIMEZONE): TimeOfDay {
+    const hour = getLocalHour(timezone);
 
     if (hour >= 6 && hour < 12) return 'morning';
     if (hour >= 12 && hour < 18) return 'day';
@@ -0,0 +1,513 @@
+/**
+ * 🔬 SLEEP CAUSAL ANALYSIS SERVICE
+ * ================================
+ * Personal causal analysis of modifiable sleep behaviors: which factors
+ * most affect a user's sleep efficiency and sleep onset latency.
+ *
+ * Scientific Foundation:
+ * - Spirtes, Glymour & Scheines (2000): PC algorithm
+ * - Pearl (2009): do-calculus, backdoor adjustment
+ * - Künsch (1989): moving block bootstrap for dependent data
+ * - Bootzin (1972): stimulus control (time awake in bed)
+ *
+ * Pipeline:
+ * - One observation per diary night: the sleep window (lights off to
+ *   wake), time in bed around it, wake-time irregularity and program
+ *   practice, the previous morning's mood as a control, SE and SOL
+ * - Variables are z-scored; CausalDiscoveryEngine learns a personal DAG
+ *   (no mental-health priors, outcomes cannot cause behaviors)
+ * - InterventionTargetingService.estimateDoEffect gives the total effect
+ *   of each factor on each outcome
+ * - Moving block bootstrap over nights gives confidence intervals
+ *
+ * Results are associations within one person's diary, not clinical advice.
+ *
+ * © БФ "Другой путь", 2025-2026
+ *
+ * @packageDocumentation
+ * @module @sleepcore/bot/services
+ */
+
+import {
+  CausalDiscoveryEngine,
+  InterventionTargetingService,
+  type ICausalDiscoveryConfig,
+  type ICausalGraph,
+  type ICausalObservation,
+} from '@cognicore/engine';
+
+import type { IDatabaseConnection } from '../../infrastructure/database/interfaces/IDatabaseConnection';
+import type {
+  ISleepDiaryEntryEntity,
+  ITherapySessionEntity,
+} from '../../infrastructure/database/interfaces/IRepository';
+import { SleepDiaryRepository } from '../../infrastructure/database/repositories/SleepDiaryRepository';
+import { TherapySessionRepository } from '../../infrastructure/database/repositories/TherapySessionRepository';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Sleep outcome analyzed
+ */
+export type SleepCausalOutcome = 'sleepEfficiency' | 'sleepOnsetLatency';
+
+/**
+ * Modifiable factor
+ */
+export type SleepCausalFactor =
+  | 'sleepWindow'
+  | 'lightsOffDelay'
+  | 'outOfBedDelay'
+  | 'wakeTimeIrregularity'
+  | 'therapyPractice';
+
+/**
+ * Analysis configuration
+ */
+export interface ISleepCausalAnalysisConfig {
+  /** Diary window before the newest night (days) */
+  readonly windowDays: number;
+
+  /** Minimum diary nights in the window */
+  readonly minNights: number;
+
+  /** Minimum nights that differ from a factor's most common value */
+  readonly minVaryingNights: number;
+
+  /** Bootstrap resamples */
+  readonly bootstrapSamples: number;
+
+  /** Moving block length (nights) */
+  readonly blockLength: number;
+
+  /** Confidence level of the intervals */
+  readonly confidenceLevel: number;
+
+  /** Random seed for the bootstrap */
+  readonly seed: number;
+
+  /** CausalDiscoveryEngine overrides */
+  readonly discovery: Partial<ICausalDiscoveryConfig>;
+}
+
+/**
+ * Default analysis configuration
+ */
+export const DEFAULT_SLEEP_CAUSAL_ANALYSIS_CONFIG: ISleepCausalAnalysisConfig = {
+  windowDays: 42, // 6 weeks
+  minNights: 21,
+  minVaryingNights: 5,
+  bootstrapSamples: 50,
+  blockLength: 7, // keeps weekly structure inside blocks
+  confidenceLevel: 0.9,
+  seed: 1,
+  discovery: {
+    significanceLevel: 0.05,
+    maxParents: 3,
+  },
+};
+
+/**
+ * Estimated effect of one factor on one outcome
+ */
+export interface ISleepFactorEffect {
+  readonly factor: SleepCausalFactor;
+  readonly outcome: SleepCausalOutcome;
+  readonly label: string;
+  readonly labelRu: string;
+  /** Size of one factor step, in factor units */
+  readonly step: number;
+  /** Factor unit ('min' or 'day') */
+  readonly unit: string;
+  /** Outcome change per step (SE %, SOL min) */
+  readonly effect: number;
+  readonly lowerBound: number;
+  readonly upperBound: number;
+  /** Effect in outcome SDs per factor SD */
+  readonly standardizedEffect: number;
+  /** Share of bootstrap resamples in which the factor affects the outcome */
+  readonly stability: number;
+  /** Interval excludes zero */
+  readonly supported: boolean;
+  /** Increasing the factor improves sleep */
+  readonly improvesSleep: boolean;
+  /** Effect identifiable by backdoor adjustment */
+  readonly identifiable: boolean;
+}
+
+/**
+ * Personal causal analysis
+ */
+export interface ISleepCausalAnalysis {
+  readonly userId: string;
+  readonly generatedAt: string;
+  readonly status: 'ok' | 'insufficient_data';
+  /** Diary nights used */
+  readonly nights: number;
+  /** Nights still needed before the analysis runs */
+  readonly nightsNeeded: number;
+  readonly period: { readonly from: string; readonly to: string } | null;
+  readonly confidenceLevel: number;
+  /** Factors without enough variation in the window */
+  readonly excludedFactors: SleepCausalFactor[];
+  /** Effects per outcome, strongest first */
+  readonly effects: Readonly<Record<SleepCausalOutcome, ISleepFactorEffect[]>>;
+  /** Supported effects, strongest first, one per factor */
+  readonly topFactors: ISleepFactorEffect[];
+}
+
+const FACTORS: ReadonlyArray<{
+  id: SleepCausalFactor;
+  label: string;
+  labelRu: string;
+  step: number;
+  unit: string;
+}> = [
+  { id: 'sleepWindow', label: 'Longer sleep window', labelRu: 'Более длинное окно сна', step: 30, unit: 'min' },
+  { id: 'lightsOffDelay', label: 'Time in bed before lights off', labelRu: 'Время в постели до выключения света', step: 15, unit: 'min' },
+  { id: 'outOfBedDelay', label: 'Lying in bed after waking', labelRu: 'Время в постели после пробуждения', step: 15, unit: 'min' },
+  { id: 'wakeTimeIrregularity', label: 'Irregular wake time', labelRu: 'Нерегулярное время подъёма', step: 30, unit: 'min' },
+  { id: 'therapyPractice', label: 'Program practice the day before', labelRu: 'Практика по программе накануне', step: 1, unit: 'day' },
+];
+
+const OUTCOMES: readonly SleepCausalOutcome[] = ['sleepEfficiency', 'sleepOnsetLatency'];
+
+/** Previous morning's mood: adjusted for, never ranked */
+const CONTROL = 'previousMood';
+
+// ============================================================================
+// SLEEP CAUSAL ANALYSIS SERVICE
+// ============================================================================
+
+/**
+ * Sleep Causal Analysis Service
+ */
+export class SleepCausalAnalysisService {
+  private readonly config: ISleepCausalAnalysisConfig;
+  private readonly targeting = new InterventionTargetingService();
+
+  constructor(config: Partial<ISleepCausalAnalysisConfig> = {}) {
+    this.config = {
+      ...DEFAULT_SLEEP_CAUSAL_ANALYSIS_CONFIG,
+      ...config,
+      discovery: { ...DEFAULT_SLEEP_CAUSAL_ANALYSIS_CONFIG.discovery, ...config.discovery },
+    };
+  }
+
+  /**
+   * Analyze a user's diary and completed therapy sessions
+   */
+  async analyze(
+    userId: string,
+    diaryEntries: readonly ISleepDiaryEntryEntity[],
+    therapySessions: readonly ITherapySessionEntity[] = []
+  ): Promise<ISleepCausalAnalysis> {
+    const nights = this.buildNights(userId, diaryEntries, therapySessions);
+    const empty = { sleepEfficiency: [], sleepOnsetLatency: [] };
+    const base = {
+      userId,
+      generatedAt: new Date().toISOString(),
+      nights: nights.length,
+      nightsNeeded: Math.max(0, this.config.minNights - nights.length),
+      period: nights.length > 0 ? { from: nights[0]!.date, to: nights[nights.length - 1]!.date } : null,
+      confidenceLevel: this.config.confidenceLevel,
+    };
+
+    if (nights.length < this.config.minNights) {
+      return { ...base, status: 'insufficient_data', excludedFactors: [], effects: empty, topFactors: [] };
+    }
+
+    const excludedFactors = FACTORS.map((f) => f.id).filter(
+      (id) => varyingNights(nights.map((n) => n.values[id])) < this.config.minVaryingNights
+    );
+    const factors = FACTORS.filter((f) => !excludedFactors.includes(f.id));
+    const variables = [...factors.map((f) => f.id as string), CONTROL, ...OUTCOMES];
+
+    const observations = nights.map((n) => n.values);
+    const sds = new Map(variables.map((v) => [v, standardDeviation(observations.map((o) => o[v]!))]));
+
+    const point = await this.estimate(observations, variables, factors);
+
+    const rng = createRng(this.config.seed);
+    const samples = new Map<string, number[]>();
+    for (let b = 0; b < this.config.bootstrapSamples; b++) {
+      const resample = blockBootstrap(observations, this.config.blockLength, rng);
+      for (const [key, value] of await this.estimate(resample, variables, factors)) {
+        samples.set(key, [...(samples.get(key) ?? []), value.standardized]);
+      }
+    }
+
+    const alpha = (1 - this.config.confidenceLevel) / 2;
+    const effects = { sleepEfficiency: [], sleepOnsetLatency: [] } as Record<
+      SleepCausalOutcome,
+      ISleepFactorEffect[]
+    >;
+
+    for (const outcome of OUTCOMES) {
+      for (const factor of factors) {
+        const key = `${factor.id}->${outcome}`;
+        const estimate = point.get(key)!;
+        const draws = samples.get(key) ?? [];
+        // Standardized -> outcome units per factor step
+        const scale = sds.get(factor.id)! > 0 ? (sds.get(outcome)! / sds.get(factor.id)!) * factor.step : 0;
+        const lower = quantile(draws, alpha) * scale;
+        const upper = quantile(draws, 1 - alpha) * scale;
+        const effect = estimate.standardized * scale;
+
+        effects[outcome].push({
+          factor: factor.id,
+          outcome,
+          label: factor.label,
+          labelRu: factor.labelRu,
+          step: factor.step,
+          unit: factor.unit,
+          effect: round2(effect),
+          lowerBound: round2(lower),
+          upperBound: round2(upper),
+          standardizedEffect: round2(estimate.standardized),
+          stability: draws.length > 0 ? draws.filter((d) => d !== 0).length / draws.length : 0,
+          supported: effect !== 0 && (lower > 0 || upper < 0),
+          // Higher SE is better, shorter SOL is better
+          improvesSleep: outcome === 'sleepEfficiency' ? effect > 0 : effect < 0,
+          identifiable: estimate.identifiable,
+        });
+      }
+      effects[outcome].sort((a, b) => Math.abs(b.standardizedEffect) - Math.abs(a.standardizedEffect));
+    }
+
+    const topFactors: ISleepFactorEffect[] = [];
+    for (const effect of [...effects.sleepEfficiency, ...effects.sleepOnsetLatency]
+      .filter((e) => e.supported)
+      .sort((a, b) => Math.abs(b.standardizedEffect) - Math.abs(a.standardizedEffect))) {
+      if (!topFactors.some((t) => t.factor === effect.factor)) topFactors.push(effect);
+    }
+
+    return { ...base, status: 'ok', excludedFactors, effects, topFactors };
+  }
+
+  /**
+   * Analyze the stored diary window ending at `asOf`
+   */
+  async analyzeStored(
+    db: IDatabaseConnection,
+    userId: string,
+    asOf: Date = new Date()
+  ): Promise<ISleepCausalAnalysis> {
+    const end = asOf.toISOString().slice(0, 10);
+    const start = toDateString(toDayNumber(end) - this.config.windowDays + 1);
+    const [diaryEntries, therapySessions] = await Promise.all([
+      new SleepDiaryRepository(db).findByUserAndDateRange(userId, start, end),
+      new TherapySessionRepository(db).findBy({ userId, status: 'completed' }),
+    ]);
+    return this.analyze(userId, diaryEntries, therapySessions);
+  }
+
+  /**
+   * Discover the personal DAG and estimate every factor -> outcome effect
+   */
+  private async estimate(
+    observations: ReadonlyArray<Record<string, number>>,
+    variables: string[],
+    factors: ReadonlyArray<{ id: SleepCausalFactor }>
+  ): Promise<Map<string, { standardized: number; identifiable: boolean }>> {
+    const standardized = standardize(observations, variables);
+    const forbiddenEdges: string[][] = [];
+    for (const outcome of OUTCOMES) {
+      // Tonight's sleep cannot cause tonight's behaviors or last morning's mood
+      for (const v of [...factors.map((f) => f.id), CONTROL]) forbiddenEdges.push([outcome, v]);
+    }
+    for (const factor of factors) forbiddenEdges.push([factor.id, CONTROL]);
+    // Sleep onset happens before the rest of the night
+    forbiddenEdges.push(['sleepEfficiency', 'sleepOnsetLatency']);
+
+    const engine = new CausalDiscoveryEngine({
+      ...this.config.discovery,
+      useDomainPriors: false,
+      respectTemporalOrder: false,
+      forbiddenEdges,
+      minObservations: this.config.minNights,
+    });
+    const { graph } = await engine.discoverStructure(standardized);
+
+    const estimates = new Map<string, { standardized: number; identifiable: boolean }>();
+    for (const outcome of OUTCOMES) {
+      for (const factor of factors) {
+        estimates.set(`${factor.id}->${outcome}`, await this.doEffect(graph, factor.id, outcome));
+      }
+    }
+    return estimates;
+  }
+
+  private async doEffect(
+    graph: ICausalGraph,
+    factor: string,
+    outcome: string
+  ): Promise<{ standardized: number; identifiable: boolean }> {
+    if (!graph.nodes.has(factor) || !graph.nodes.has(outcome)) {
+      return { standardized: 0, identifiable: false };
+    }
+    const result = await this.targeting.estimateDoEffect(graph, factor, outcome, 1);
+    return { standardized: result.averageTreatmentEffect, identifiable: result.isIdentifiable };
+  }
+
+  /**
+   * One row of variables per diary night in the window
+   */
+  private buildNights(
+    userId: string,
+    diaryEntries: readonly ISleepDiaryEntryEntity[],
+    therapySessions: readonly ITherapySessionEntity[]
+  ): Array<{ date: string; values: Record<string, number> }> {
+    const byDate = new Map<string, ISleepDiaryEntryEntity>();
+    for (const entry of diaryEntries) {
+      if (entry.userId === userId) byDate.set(entry.date, entry);
+    }
+    const sorted = [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date));
+    const newest = sorted[sorted.length - 1];
+    if (!newest) return [];
+
+    const newestDay = toDayNumber(newest.date);
+    const window = sorted.filter((e) => toDayNumber(e.date) > newestDay - this.config.windowDays);
+
+    const practiceDays = new Set(
+      therapySessions
+        .filter((s) => s.userId === userId && s.status === 'completed' && s.completedAt)
+        .map((s) => toDayNumber(new Date(s.completedAt!).toISOString().slice(0, 10)))
+    );
+    const medianWake = median(window.map((e) => parseClock(e.wakeTime)));
+    const meanMood = mean(window.map((e) => e.morningMood));
+
+    return window.map((entry) => {
+      const day = toDayNumber(entry.date);
+      const bedtime = parseClock(entry.bedtime);
+      const lightsOff = parseClock(entry.lightsOffTime);
+      const wake = parseClock(entry.wakeTime);
+      return {
+        date: entry.date,
+        values: {
+          // Time in bed = lightsOffDelay + sleepWindow + outOfBedDelay; the parts are not collinear
+          sleepWindow: (wake - lightsOff + MINUTES_PER_DAY) % MINUTES_PER_DAY,
+          lightsOffDelay: Math.max(0, clockDifference(lightsOff, bedtime)),
+          outOfBedDelay: Math.max(0, clockDifference(parseClock(entry.outOfBedTime), wake)),
+          wakeTimeIrregularity: Math.abs(clockDifference(wake, medianWake)),
+          therapyPractice: practiceDays.has(day - 1) ? 1 : 0,
+          previousMood: byDate.get(toDateString(day - 1))?.morningMood ?? meanMood,
+          sleepEfficiency: entry.sleepEfficiency,
+          sleepOnsetLatency: entry.sleepOnsetLatency,
+        },
+      };
+    });
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function standardize(
+  rows: ReadonlyArray<Record<string, number>>,
+  variables: string[]
+): ICausalObservation[] {
+  const stats = variables.map((v) => {
+    const values = rows.map((r) => r[v]!);
+    return { v, m: mean(values), sd: standardDeviation(values) };
+  });
+  return rows.map((row, i) => ({
+    timestamp: new Date(i * DAY_MS),
+    variables: new Map(stats.map(({ v, m, sd }) => [v, sd > 0 ? (row[v]! - m) / sd : 0])),
+  }));
+}
+
+/**
+ * Moving block bootstrap: concatenated random blocks of consecutive nights
+ */
+function blockBootstrap<T>(rows: readonly T[], blockLength: number, rng: () => number): T[] {
+  const length = Math.min(blockLength, rows.length);
+  const resample: T[] = [];
+  while (resample.length < rows.length) {
+    const start = Math.floor(rng() * (rows.length - length + 1));
+    resample.push(...rows.slice(start, start + length));
+  }
+  return resample.slice(0, rows.length);
+}
+
+/**
+ * Nights that differ from the most common value
+ */
+function varyingNights(values: number[]): number {
+  const counts = new Map<number, number>();
+  for (const v of values) counts.set(v, (counts.get(v) ?? 0) + 1);
+  return values.length - Math.max(0, ...counts.values());
+}
+
+function createRng(seed: number): () => number {
+  let s = seed;
+  return () => {
+    s |= 0;
+    s = (s + 0x6d2b79f5) | 0;
+    let t = Math.imul(s ^ (s >>> 15), 1 | s);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+function standardDeviation(values: number[]): number {
+  const m = mean(values);
+  return Math.sqrt(mean(values.map((v) => (v - m) ** 2)));
+}
+
+function median(values: number[]): number {
+  return quantile(values, 0.5);
+}
+
+function quantile(values: number[], q: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower]! + (sorted[upper]! - sorted[lower]!) * (position - lower);
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function parseClock(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours ?? 0) * 60 + (minutes ?? 0);
+}
+
+/**
+ * Signed difference a − b in minutes, across midnight
+ */
+function clockDifference(a: number, b: number): number {
+  const diff = (((a - b) % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  return diff > MINUTES_PER_DAY / 2 ? diff - MINUTES_PER_DAY : diff;
+}
+
+function toDayNumber(date: string): number {
+  return Math.round(Date.parse(`${date}T00:00:00Z`) / DAY_MS);
+}
+
+function toDateString(day: number): string {
+  return new Date(day * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Create sleep causal analysis service
+ */
+export function createSleepCausalAnalysisService(
+  config?: Partial<ISleepCausalAnalysisConfig>
+): SleepCausalAnalysisService {
+  return new SleepCausalAnalysisService(config);
+}
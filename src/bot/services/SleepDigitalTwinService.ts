@@ -0,0 +1,769 @@
+/**
+ * 🪞 SLEEP DIGITAL TWIN SERVICE
+ * =============================
+ * Sleep-specific digital twin fed by sleep diary entries, with Monte Carlo
+ * what-if simulations of alternative sleep prescriptions.
+ *
+ * Scientific Foundation:
+ * - Spielman et al. (1987): sleep restriction therapy
+ * - Miller et al., Sleep Med Rev 2014: TST dips early in restriction, SE rises
+ * - Waterhouse et al., Lancet 2007: re-entrainment of roughly 1 h per day
+ * - Frontiers 2025: digital twins for precision mental health
+ *
+ * Model:
+ * - Twin state variables are the diary-observable ISleepPOMDPState
+ *   dimensions (SE, SOL, WASO, circadian deviation) plus total sleep time
+ * - Each variable is an Ornstein-Uhlenbeck process around the personal
+ *   baseline, with reversion rate and volatility learned from the diary (AR(1))
+ * - A prescription moves the baselines (TIB change) and shocks the start
+ *   state (wake-time shift); MonteCarloEngine samples the trajectories
+ * - Results come back as per-night forecast bands of SE and TST
+ *
+ * © БФ "Другой путь", 2025-2026
+ *
+ * @packageDocumentation
+ * @module @sleepcore/bot/services
+ */
+
+import {
+  DEFAULT_SIMULATION_CONFIG,
+  MonteCarloEngine,
+  generateTwinId,
+  type IDigitalTwinState,
+  type ISimulationConfig,
+  type ITwinPersonalization,
+  type ITwinStateVariable,
+} from '@cognicore/engine';
+
+import type { IDatabaseConnection } from '../../infrastructure/database/interfaces/IDatabaseConnection';
+import type { ISleepDiaryEntryEntity } from '../../infrastructure/database/interfaces/IRepository';
+import { SleepDiaryRepository } from '../../infrastructure/database/repositories/SleepDiaryRepository';
+import type { ISleepPOMDPState } from '../../platform/SleepCorePOMDP';
+import { DEFAULT_SLEEP_PREDICTION_CONFIG, type ISleepPredictionConfig } from './SleepPredictionService';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Twin state variable (ISleepPOMDPState dimensions observable from the diary + TST)
+ */
+export type SleepTwinVariable =
+  | keyof Pick<ISleepPOMDPState, 'sleepEfficiency' | 'solMinutes' | 'wasoMinutes' | 'circadianDeviation'>
+  | 'tstMinutes';
+
+/**
+ * Twin values in reporting units (SE %, minutes, circadian deviation in hours)
+ */
+export type SleepTwinValues = Readonly<Record<SleepTwinVariable, number>>;
+
+/**
+ * Metric returned as forecast bands
+ */
+export type SleepForecastMetric = 'sleepEfficiency' | 'tstMinutes';
+
+/**
+ * Sleep prescription (sleep window)
+ */
+export interface ISleepPrescription {
+  /** Prescribed time in bed (minutes) */
+  readonly timeInBedMinutes: number;
+  /** Prescribed wake time (HH:MM) */
+  readonly wakeTime: string;
+}
+
+/**
+ * Change to the current prescription
+ */
+export interface ISleepPrescriptionChange {
+  /** Minutes to move the wake time, keeping TIB (positive = later) */
+  readonly wakeTimeShiftMinutes?: number;
+  /** Minutes added to (positive) or removed from (negative) time in bed */
+  readonly tibChangeMinutes?: number;
+}
+
+/**
+ * What-if scenario
+ */
+export interface ISleepWhatIfScenario {
+  readonly id: string;
+  readonly name: string;
+  readonly nameRu: string;
+  readonly change: ISleepPrescriptionChange;
+}
+
+/**
+ * Sleep twin configuration
+ */
+export interface ISleepTwinConfig {
+  /** Normalization parameters (shared with SleepPredictionService) */
+  readonly normalization: ISleepPredictionConfig['normalization'];
+
+  /** Circadian deviation mapped to [0, 1] over ±this many hours */
+  readonly maxCircadianDeviationHours: number;
+
+  /** Diary window used to build the twin (days before the newest night) */
+  readonly historyWindowDays: number;
+
+  /** Minimum nights in the window */
+  readonly minNights: number;
+
+  /** Nights averaged into the personal baseline */
+  readonly baselineNights: number;
+
+  /** Nights averaged into the current state */
+  readonly currentNights: number;
+
+  /** Default simulation horizon (nights) */
+  readonly horizonDays: number;
+
+  /** Lower bound for prescribed time in bed (minutes) */
+  readonly minTimeInBedMinutes: number;
+
+  /** Fraction of removed TIB that comes out of sleep (the rest is wake) */
+  readonly restrictionSleepLoss: number;
+
+  /** Fraction of added TIB that becomes sleep */
+  readonly extensionSleepGain: number;
+
+  /** First-night cost of a wake-time shift, per hour of shift */
+  readonly misalignmentCost: Readonly<Record<SleepForecastMetric, number>>;
+
+  /** Daily reversion rate of circadian deviation (re-entrainment) */
+  readonly reentrainmentRate: number;
+
+  /** Bounds for learned reversion rates of the other variables */
+  readonly reversionRateBounds: readonly [number, number];
+
+  /** Lower and upper quantiles of the forecast bands */
+  readonly bandQuantiles: readonly [number, number];
+
+  /** SE goal used for probabilityAboveTarget (%) */
+  readonly targetSleepEfficiency: number;
+
+  /** MonteCarloEngine overrides */
+  readonly simulation: Partial<ISimulationConfig>;
+}
+
+/**
+ * Default sleep twin configuration
+ */
+export const DEFAULT_SLEEP_TWIN_CONFIG: ISleepTwinConfig = {
+  normalization: DEFAULT_SLEEP_PREDICTION_CONFIG.normalization,
+  maxCircadianDeviationHours: 6,
+  historyWindowDays: 28,
+  minNights: 7,
+  baselineNights: 14,
+  currentNights: 3,
+  horizonDays: 28,
+  minTimeInBedMinutes: 300, // SRT floor of 5 h
+  restrictionSleepLoss: 0.25,
+  extensionSleepGain: 0.5,
+  misalignmentCost: {
+    sleepEfficiency: 3, // percentage points per hour
+    tstMinutes: 20,
+  },
+  reentrainmentRate: 0.5,
+  reversionRateBounds: [0.1, 0.5],
+  bandQuantiles: [0.1, 0.9],
+  targetSleepEfficiency: 85,
+  simulation: {
+    numTrajectories: 500,
+    timeStepDays: 1, // one step per night
+    noiseLevel: 1, // volatility is already the nightly innovation SD
+    includeWeekly: false,
+    propagateUncertainty: false,
+  },
+};
+
+/**
+ * Sleep twin built from a user's diary
+ */
+export interface ISleepTwin {
+  readonly userId: string;
+  /** Date of the newest diary night (YYYY-MM-DD) */
+  readonly asOf: string;
+  /** Diary nights used */
+  readonly nights: number;
+  readonly prescription: ISleepPrescription;
+  /** Mean of the most recent nights */
+  readonly current: SleepTwinValues;
+  /** Personal baseline the twin reverts to */
+  readonly baseline: SleepTwinValues;
+  /** Engine twin state (normalized variables) */
+  readonly state: IDigitalTwinState;
+  /** Learned reversion rates and volatilities */
+  readonly personalization: ITwinPersonalization;
+}
+
+/**
+ * One night of a forecast band
+ */
+export interface ISleepForecastBandPoint {
+  /** Nights since the prescription starts (1 = first night) */
+  readonly day: number;
+  readonly date: string;
+  readonly mean: number;
+  readonly lower: number;
+  readonly median: number;
+  readonly upper: number;
+}
+
+/**
+ * Simulated outcome of one scenario
+ */
+export interface ISleepScenarioForecast {
+  readonly scenario: ISleepWhatIfScenario;
+  readonly prescription: ISleepPrescription;
+  /** Values the twin settles at under the prescription */
+  readonly equilibrium: SleepTwinValues;
+  readonly bands: Readonly<Record<SleepForecastMetric, ISleepForecastBandPoint[]>>;
+  /** Share of trajectories ending at or above targetSleepEfficiency */
+  readonly probabilityAboveTarget: number;
+  readonly simulationCount: number;
+}
+
+/**
+ * What-if simulation result
+ */
+export interface ISleepWhatIfResult {
+  readonly generatedAt: string;
+  readonly userId: string;
+  readonly asOf: string;
+  readonly horizonDays: number;
+  readonly bandQuantiles: readonly [number, number];
+  readonly current: SleepTwinValues;
+  readonly baseline: SleepTwinValues;
+  /** Current prescription first, then the requested scenarios */
+  readonly scenarios: ISleepScenarioForecast[];
+}
+
+/**
+ * Current prescription (no change)
+ */
+export const CURRENT_PRESCRIPTION_SCENARIO: ISleepWhatIfScenario = {
+  id: 'current',
+  name: 'Current prescription',
+  nameRu: 'Текущее предписание',
+  change: {},
+};
+
+/**
+ * Standard prescription alternatives
+ */
+export const SLEEP_WHAT_IF_SCENARIOS: readonly ISleepWhatIfScenario[] = [
+  {
+    id: 'tib_minus_15',
+    name: 'Time in bed −15 min',
+    nameRu: 'Время в постели −15 мин',
+    change: { tibChangeMinutes: -15 },
+  },
+  {
+    id: 'tib_plus_15',
+    name: 'Time in bed +15 min',
+    nameRu: 'Время в постели +15 мин',
+    change: { tibChangeMinutes: 15 },
+  },
+  {
+    id: 'wake_earlier_30',
+    name: 'Wake time 30 min earlier',
+    nameRu: 'Подъём на 30 мин раньше',
+    change: { wakeTimeShiftMinutes: -30 },
+  },
+];
+
+const TWIN_VARIABLES: ReadonlyArray<{ id: SleepTwinVariable; name: string; nameRu: string }> = [
+  { id: 'sleepEfficiency', name: 'Sleep Efficiency', nameRu: 'Эффективность сна' },
+  { id: 'solMinutes', name: 'Sleep Onset Latency', nameRu: 'Время засыпания' },
+  { id: 'wasoMinutes', name: 'Wake After Sleep Onset', nameRu: 'Бодрствование после засыпания' },
+  { id: 'circadianDeviation', name: 'Circadian Deviation', nameRu: 'Циркадное отклонение' },
+  { id: 'tstMinutes', name: 'Total Sleep Time', nameRu: 'Общее время сна' },
+];
+
+// ============================================================================
+// SLEEP DIGITAL TWIN SERVICE
+// ============================================================================
+
+/**
+ * Sleep Digital Twin Service
+ */
+export class SleepDigitalTwinService {
+  private readonly config: ISleepTwinConfig;
+  private readonly engine: MonteCarloEngine;
+
+  constructor(config: Partial<ISleepTwinConfig> = {}) {
+    this.config = { ...DEFAULT_SLEEP_TWIN_CONFIG, ...config };
+    this.engine = new MonteCarloEngine({
+      ...DEFAULT_SIMULATION_CONFIG,
+      ...DEFAULT_SLEEP_TWIN_CONFIG.simulation,
+      ...config.simulation,
+    });
+  }
+
+  /**
+   * Build the twin from a user's diary entries.
+   * Returns null if the recent diary has fewer than minNights nights.
+   */
+  buildTwin(userId: string, entries: readonly ISleepDiaryEntryEntity[]): ISleepTwin | null {
+    const byDate = new Map<string, ISleepDiaryEntryEntity>();
+    for (const entry of entries) {
+      if (entry.userId === userId) byDate.set(entry.date, entry);
+    }
+    const sorted = [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date));
+    const newest = sorted[sorted.length - 1];
+    if (!newest) return null;
+
+    const newestDay = toDayNumber(newest.date);
+    const window = sorted.filter((e) => toDayNumber(e.date) > newestDay - this.config.historyWindowDays);
+    if (window.length < this.config.minNights) return null;
+
+    const referenceWake = median(window.map((e) => parseClock(e.wakeTime)));
+    const series = window.map((e) => this.observeNight(e, referenceWake));
+    const baselineEntries = window.slice(-this.config.baselineNights);
+    const baseline = meanValues(series.slice(-this.config.baselineNights));
+    const current = meanValues(series.slice(-this.config.currentNights));
+
+    const now = new Date();
+    const lastObserved = new Date(`${newest.date}T00:00:00Z`);
+    const coverage = Math.min(1, window.length / this.config.historyWindowDays);
+    const [minRate, maxRate] = this.config.reversionRateBounds;
+
+    const variables = new Map<string, ITwinStateVariable>();
+    const meanReversionRate = new Map<string, number>();
+    const volatility = new Map<string, number>();
+    const learnedPriors = new Map<string, { mean: number; variance: number }>();
+
+    for (const def of TWIN_VARIABLES) {
+      const values = series.map((v) => this.normalize(def.id, v[def.id]));
+      const { mean: seriesMean, variance, phi, innovationStd } = fitAR1(values);
+
+      meanReversionRate.set(
+        def.id,
+        def.id === 'circadianDeviation'
+          ? this.config.reentrainmentRate
+          : clamp(1 - phi, minRate, maxRate)
+      );
+      volatility.set(def.id, innovationStd);
+      learnedPriors.set(def.id, { mean: seriesMean, variance });
+
+      const last = values[values.length - 1]!;
+      const previous = values[values.length - 2] ?? last;
+      variables.set(def.id, {
+        id: def.id,
+        name: def.name,
+        nameRu: def.nameRu,
+        value: this.normalize(def.id, current[def.id]),
+        variance,
+        confidence: coverage,
+        velocity: last - previous,
+        acceleration: 0,
+        baselineValue: this.normalize(def.id, baseline[def.id]),
+        historicalMean: seriesMean,
+        historicalStd: Math.sqrt(variance),
+        lastObserved,
+        lastUpdated: now,
+        observationCount: values.length,
+        dataSource: ['ema_survey'],
+      });
+    }
+
+    const state: IDigitalTwinState = {
+      id: generateTwinId('SLDT'),
+      // Engine twins are keyed by numeric Telegram ids
+      userId: parseInt(userId, 10) || 0,
+      timestamp: now,
+      version: 1,
+      variables,
+      overallWellbeing: clamp(current.sleepEfficiency / this.config.normalization.maxSE, 0, 1),
+      stability: 'stable',
+      dominantAttractor: 'point',
+      resilience: 0.5,
+      lyapunovExponent: -0.3,
+      autocorrelation: fitAR1(series.map((v) => v.sleepEfficiency)).phi,
+      varianceRatio: 1.0,
+      stateUncertainty: 1 - coverage,
+      dataQuality: coverage,
+      causalGraphId: `sleep_${userId}`,
+      syncMetadata: {
+        lastSync: now,
+        syncMode: 'unidirectional_p2v',
+        pendingUpdates: 0,
+        syncHealth: 1.0,
+      },
+    };
+
+    const personalization: ITwinPersonalization = {
+      userId: state.userId,
+      learnedAt: now,
+      lastValidated: now,
+      meanReversionRate,
+      volatility,
+      sensitivityMatrix: new Map(),
+      interventionResponse: new Map(),
+      stressorVulnerability: new Map(),
+      protectiveFactorEfficacy: new Map(),
+      circadianPattern: new Map(),
+      weeklyPattern: new Map(),
+      seasonalPattern: new Map(),
+      intraIndividualVariability: volatility,
+      responseLatency: new Map(),
+      sustainedEffectRate: new Map(),
+      learnedPriors,
+      dataPointsUsed: window.length,
+      fitQuality: 0,
+      crossValidationScore: 0,
+    };
+
+    return {
+      userId,
+      asOf: newest.date,
+      nights: window.length,
+      prescription: {
+        timeInBedMinutes: Math.round(mean(baselineEntries.map((e) => e.timeInBed))),
+        wakeTime: formatClock(referenceWake),
+      },
+      current,
+      baseline,
+      state,
+      personalization,
+    };
+  }
+
+  /**
+   * Simulate the current prescription and the given alternatives
+   */
+  async simulate(
+    twin: ISleepTwin,
+    scenarios: readonly ISleepWhatIfScenario[] = SLEEP_WHAT_IF_SCENARIOS,
+    horizonDays: number = this.config.horizonDays
+  ): Promise<ISleepWhatIfResult> {
+    const forecasts: ISleepScenarioForecast[] = [];
+    for (const scenario of [CURRENT_PRESCRIPTION_SCENARIO, ...scenarios]) {
+      forecasts.push(await this.simulateScenario(twin, scenario, horizonDays));
+    }
+
+    return {
+      generatedAt: new Date().toISOString(),
+      userId: twin.userId,
+      asOf: twin.asOf,
+      horizonDays,
+      bandQuantiles: this.config.bandQuantiles,
+      current: twin.current,
+      baseline: twin.baseline,
+      scenarios: forecasts,
+    };
+  }
+
+  /**
+   * Build the twin and simulate in one step (null if the diary is too short)
+   */
+  async whatIf(
+    userId: string,
+    entries: readonly ISleepDiaryEntryEntity[],
+    scenarios?: readonly ISleepWhatIfScenario[],
+    horizonDays?: number
+  ): Promise<ISleepWhatIfResult | null> {
+    const twin = this.buildTwin(userId, entries);
+    return twin ? this.simulate(twin, scenarios, horizonDays) : null;
+  }
+
+  /**
+   * Build the twin from the stored diary window ending at `asOf` and simulate
+   * (null if the diary is too short)
+   */
+  async whatIfStored(
+    db: IDatabaseConnection,
+    userId: string,
+    scenarios?: readonly ISleepWhatIfScenario[],
+    horizonDays?: number,
+    asOf: Date = new Date()
+  ): Promise<ISleepWhatIfResult | null> {
+    const end = asOf.toISOString().slice(0, 10);
+    const start = toDateString(toDayNumber(end) - this.config.historyWindowDays + 1);
+    const entries = await new SleepDiaryRepository(db).findByUserAndDateRange(userId, start, end);
+    return this.whatIf(userId, entries, scenarios, horizonDays);
+  }
+
+  /**
+   * Prescription, equilibrium and start state under a prescription change
+   */
+  prescribe(
+    twin: ISleepTwin,
+    change: ISleepPrescriptionChange
+  ): { prescription: ISleepPrescription; equilibrium: SleepTwinValues; start: SleepTwinValues } {
+    const { baseline, current, prescription } = twin;
+
+    // TIB change: removed time comes mostly out of wake, added time only partly becomes sleep
+    const tib = prescription.timeInBedMinutes;
+    const newTib = Math.max(this.config.minTimeInBedMinutes, tib + (change.tibChangeMinutes ?? 0));
+    const tibDelta = newTib - tib;
+    const newTst = clamp(
+      baseline.tstMinutes +
+        (tibDelta < 0 ? this.config.restrictionSleepLoss : this.config.extensionSleepGain) * tibDelta,
+      0,
+      newTib
+    );
+    const awake = tib - baseline.tstMinutes;
+    const wakeRatio = awake > 0 ? (newTib - newTst) / awake : 1;
+
+    const equilibrium: SleepTwinValues = {
+      sleepEfficiency: Math.min(this.config.normalization.maxSE, (newTst / newTib) * 100),
+      tstMinutes: newTst,
+      solMinutes: baseline.solMinutes * wakeRatio,
+      wasoMinutes: baseline.wasoMinutes * wakeRatio,
+      circadianDeviation: baseline.circadianDeviation,
+    };
+
+    // Wake-time shift: the schedule moves, the body clock re-entrains
+    const shiftHours = (change.wakeTimeShiftMinutes ?? 0) / 60;
+    const cost = this.config.misalignmentCost;
+    const start: SleepTwinValues = {
+      ...current,
+      sleepEfficiency: current.sleepEfficiency - cost.sleepEfficiency * Math.abs(shiftHours),
+      tstMinutes: current.tstMinutes - cost.tstMinutes * Math.abs(shiftHours),
+      circadianDeviation: current.circadianDeviation - shiftHours,
+    };
+
+    return {
+      prescription: {
+        timeInBedMinutes: newTib,
+        wakeTime: formatClock(parseClock(prescription.wakeTime) + (change.wakeTimeShiftMinutes ?? 0)),
+      },
+      equilibrium,
+      start,
+    };
+  }
+
+  private async simulateScenario(
+    twin: ISleepTwin,
+    scenario: ISleepWhatIfScenario,
+    horizonDays: number
+  ): Promise<ISleepScenarioForecast> {
+    const { prescription, equilibrium, start } = this.prescribe(twin, scenario.change);
+
+    const variables = new Map<string, ITwinStateVariable>();
+    for (const [id, variable] of twin.state.variables) {
+      const key = id as SleepTwinVariable;
+      variables.set(id, {
+        ...variable,
+        value: this.normalize(key, start[key]),
+        baselineValue: this.normalize(key, equilibrium[key]),
+      });
+    }
+    const startState: IDigitalTwinState = { ...twin.state, variables };
+
+    // Prescriptions act through the start state and baselines, not the engine's intervention effect
+    const engineScenario = {
+      ...this.engine.createBaselineScenario(startState, horizonDays),
+      name: scenario.name,
+      nameRu: scenario.nameRu,
+      description: scenario.name,
+      descriptionRu: scenario.nameRu,
+    };
+    const result = await this.engine.simulateScenario(startState, engineScenario, twin.personalization);
+
+    const bands = {} as Record<SleepForecastMetric, ISleepForecastBandPoint[]>;
+    for (const metric of ['sleepEfficiency', 'tstMinutes'] as const) {
+      // Timepoint 0 is the start state itself
+      bands[metric] = result.expectedTrajectory.timepoints.slice(1).map((day, i) => {
+        const values = result.trajectories.map((trajectory) =>
+          this.denormalize(metric, trajectory.states.get(metric)?.[i + 1] ?? 0)
+        );
+        return {
+          day,
+          date: toDateString(toDayNumber(twin.asOf) + day),
+          mean: round1(mean(values)),
+          lower: round1(quantile(values, this.config.bandQuantiles[0])),
+          median: round1(quantile(values, 0.5)),
+          upper: round1(quantile(values, this.config.bandQuantiles[1])),
+        };
+      });
+    }
+
+    const finalSE = result.trajectories.map((trajectory) => {
+      const values = trajectory.states.get('sleepEfficiency') ?? [];
+      return this.denormalize('sleepEfficiency', values[values.length - 1] ?? 0);
+    });
+
+    return {
+      scenario,
+      prescription,
+      equilibrium: mapValues(equilibrium, round1),
+      bands,
+      probabilityAboveTarget:
+        finalSE.filter((se) => se >= this.config.targetSleepEfficiency).length / Math.max(1, finalSE.length),
+      simulationCount: result.simulationCount,
+    };
+  }
+
+  private observeNight(entry: ISleepDiaryEntryEntity, referenceWake: number): SleepTwinValues {
+    return {
+      sleepEfficiency: entry.sleepEfficiency,
+      solMinutes: entry.sleepOnsetLatency,
+      wasoMinutes: entry.wakeAfterSleepOnset,
+      // Positive = woke later than usual (delayed)
+      circadianDeviation: clockDifference(parseClock(entry.wakeTime), referenceWake) / 60,
+      tstMinutes: entry.totalSleepTime,
+    };
+  }
+
+  private scale(variable: SleepTwinVariable): number {
+    const norm = this.config.normalization;
+    switch (variable) {
+      case 'sleepEfficiency':
+        return norm.maxSE;
+      case 'solMinutes':
+        return norm.maxSOL;
+      case 'wasoMinutes':
+        return norm.maxWASO;
+      case 'tstMinutes':
+        return norm.maxTST * 60;
+      case 'circadianDeviation':
+        return this.config.maxCircadianDeviationHours * 2;
+    }
+  }
+
+  private normalize(variable: SleepTwinVariable, value: number): number {
+    const offset = variable === 'circadianDeviation' ? this.config.maxCircadianDeviationHours : 0;
+    return clamp((value + offset) / this.scale(variable), 0, 1);
+  }
+
+  private denormalize(variable: SleepTwinVariable, value: number): number {
+    const offset = variable === 'circadianDeviation' ? this.config.maxCircadianDeviationHours : 0;
+    return value * this.scale(variable) - offset;
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Diary-observable ISleepPOMDPState dimensions of twin values
+ */
+export function twinValuesToPOMDPState(
+  values: SleepTwinValues
+): Pick<ISleepPOMDPState, 'sleepEfficiency' | 'solMinutes' | 'wasoMinutes' | 'circadianDeviation'> {
+  return {
+    sleepEfficiency: values.sleepEfficiency,
+    solMinutes: values.solMinutes,
+    wasoMinutes: values.wasoMinutes,
+    circadianDeviation: values.circadianDeviation,
+  };
+}
+
+/**
+ * AR(1) fit: mean, variance, autoregressive coefficient and innovation SD
+ */
+function fitAR1(values: number[]): { mean: number; variance: number; phi: number; innovationStd: number } {
+  const m = mean(values);
+  const demeaned = values.map((v) => v - m);
+  const variance = demeaned.reduce((sum, d) => sum + d * d, 0) / Math.max(1, values.length);
+
+  let numerator = 0;
+  let denominator = 0;
+  for (let i = 1; i < demeaned.length; i++) {
+    numerator += demeaned[i]! * demeaned[i - 1]!;
+    denominator += demeaned[i - 1]! ** 2;
+  }
+  const phi = denominator > 0 ? clamp(numerator / denominator, -1, 1) : 0;
+
+  let residuals = 0;
+  for (let i = 1; i < demeaned.length; i++) {
+    residuals += (demeaned[i]! - phi * demeaned[i - 1]!) ** 2;
+  }
+  const innovationStd = demeaned.length > 1 ? Math.sqrt(residuals / (demeaned.length - 1)) : 0;
+
+  return { mean: m, variance, phi, innovationStd };
+}
+
+function meanValues(series: SleepTwinValues[]): SleepTwinValues {
+  return {
+    sleepEfficiency: mean(series.map((v) => v.sleepEfficiency)),
+    solMinutes: mean(series.map((v) => v.solMinutes)),
+    wasoMinutes: mean(series.map((v) => v.wasoMinutes)),
+    circadianDeviation: mean(series.map((v) => v.circadianDeviation)),
+    tstMinutes: mean(series.map((v) => v.tstMinutes)),
+  };
+}
+
+function mapValues(values: SleepTwinValues, fn: (value: number) => number): SleepTwinValues {
+  return {
+    sleepEfficiency: fn(values.sleepEfficiency),
+    solMinutes: fn(values.solMinutes),
+    wasoMinutes: fn(values.wasoMinutes),
+    circadianDeviation: fn(values.circadianDeviation),
+    tstMinutes: fn(values.tstMinutes),
+  };
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+function median(values: number[]): number {
+  return quantile(values, 0.5);
+}
+
+/**
+ * Linear-interpolated quantile
+ */
+function quantile(values: number[], q: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower]! + (sorted[upper]! - sorted[lower]!) * (position - lower);
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Minutes since midnight of an HH:MM clock time
+ */
+function parseClock(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours ?? 0) * 60 + (minutes ?? 0);
+}
+
+function formatClock(minutes: number): string {
+  const wrapped = ((Math.round(minutes) % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const hh = String(Math.floor(wrapped / 60)).padStart(2, '0');
+  const mm = String(wrapped % 60).padStart(2, '0');
+  return `${hh}:${mm}`;
+}
+
+/**
+ * Signed difference a − b in minutes, across midnight
+ */
+function clockDifference(a: number, b: number): number {
+  const diff = (((a - b) % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  return diff > MINUTES_PER_DAY / 2 ? diff - MINUTES_PER_DAY : diff;
+}
+
+function toDayNumber(date: string): number {
+  return Math.round(Date.parse(`${date}T00:00:00Z`) / DAY_MS);
+}
+
+function toDateString(day: number): string {
+  return new Date(day * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Create sleep digital twin service
+ */
+export function createSleepDigitalTwinService(
+  config?: Partial<ISleepTwinConfig>
+): SleepDigitalTwinService {
+  return new SleepDigitalTwinService(config);
+}
@@ -0,0 +1,446 @@
+/**
+ * 🏋️ SLEEP MODEL TRAINING SERVICE
+ * ===============================
+ * Offline PLRNN training on SleepCore sleep diary histories.
+ *
+ * Scientific Foundation:
+ * - Fechtelpeter et al., npj Digital Medicine 2025: PLRNN benchmark on EMA data
+ * - Williams & Peng (1990): Truncated BPTT
+ * - Koppe et al. (2019): group-level PLRNN as prior for subject-level models
+ *
+ * Pipeline:
+ * - One sequence per user and run of nights from sleep_diary_entries,
+ *   normalized exactly like SleepPredictionService (SLEEP_DIMENSION_MAPPING)
+ * - Short gaps are linearly interpolated, longer gaps split the history
+ * - Train/validation split by user, so validation users are unseen
+ * - Truncated BPTT via PLRNNTrainer with early stopping on validation loss
+ * - Next-night MAE per dimension against persistence ("tomorrow = today")
+ *
+ * The resulting weights are meant to become the population prior
+ * (SleepPredictionService.setPopulationModel).
+ *
+ * © БФ "Другой путь", 2025-2026
+ *
+ * @packageDocumentation
+ * @module @sleepcore/bot/services
+ */
+
+import {
+  PLRNNEngine,
+  PLRNNTrainer,
+  type IPLRNNEngine,
+  type IPLRNNConfig,
+  type IPLRNNState,
+  type IPLRNNWeights,
+  type IPLRNNTrainingConfig,
+  type ITrainingSequence,
+} from '@cognicore/engine';
+
+import type { ISleepDiaryEntryEntity } from '../../infrastructure/database/interfaces/IRepository';
+import {
+  DEFAULT_SLEEP_PREDICTION_CONFIG,
+  SLEEP_DIMENSION_MAPPING,
+  diaryEntryToHistoryEntry,
+  normalizeSleepObservation,
+  type ISleepPredictionConfig,
+} from './SleepPredictionService';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Diary training configuration
+ */
+export interface ISleepModelTrainingConfig {
+  /** PLRNN configuration (must match SleepPredictionService) */
+  readonly plrnnConfig?: Partial<IPLRNNConfig>;
+
+  /** Normalization parameters (must match SleepPredictionService) */
+  readonly normalization: ISleepPredictionConfig['normalization'];
+
+  /** Longest run of missing nights that is interpolated instead of splitting */
+  readonly maxInterpolatedDays: number;
+
+  /** Minimum nights per sequence (shorter runs are dropped) */
+  readonly minSequenceLength: number;
+
+  /** Fraction of users held out for validation */
+  readonly validationSplit: number;
+
+  /** PLRNNTrainer overrides */
+  readonly training: Partial<IPLRNNTrainingConfig>;
+}
+
+/**
+ * Default diary training configuration
+ */
+export const DEFAULT_SLEEP_MODEL_TRAINING_CONFIG: ISleepModelTrainingConfig = {
+  plrnnConfig: DEFAULT_SLEEP_PREDICTION_CONFIG.plrnnConfig,
+  normalization: DEFAULT_SLEEP_PREDICTION_CONFIG.normalization,
+  maxInterpolatedDays: 2,
+  minSequenceLength: 8, // BPTT window + 1
+  validationSplit: 0.2,
+  training: {
+    bpttTruncationWindow: 7, // 1 week
+    bpttOverlapSteps: 2,
+    epochs: 50,
+    earlyStoppingPatience: 10,
+    horizons: [1, 3, 7], // nights ahead
+    horizonWeights: [1.0, 0.5, 0.25],
+    // Gaps are handled when building sequences
+    handleIrregularSampling: false,
+    targetIntervalHours: 24,
+    // Keep the fixed 0-1 scale used at prediction time
+    perParticipantNormalization: false,
+  },
+};
+
+/**
+ * Training sequence built from a user's diary
+ */
+export interface IDiaryTrainingSequence extends ITrainingSequence {
+  /** Per night: false if the night was interpolated */
+  readonly observed: boolean[];
+}
+
+/**
+ * Next-night error for one sleep dimension
+ */
+export interface ISleepDimensionError {
+  readonly dimension: (typeof SLEEP_DIMENSION_MAPPING)[keyof typeof SLEEP_DIMENSION_MAPPING];
+  /** Unit of the MAE values ('%', 'min' or '0-1') */
+  readonly unit: string;
+  /** Model MAE */
+  readonly mae: number;
+  /** MAE of predicting the previous night */
+  readonly persistenceMae: number;
+  /** Improvement over persistence in % (negative if worse) */
+  readonly improvement: number;
+}
+
+/**
+ * Next-night evaluation of a model on diary sequences
+ */
+export interface ISleepModelEvaluation {
+  /** Observed nights that were predicted */
+  readonly evaluatedNights: number;
+  readonly perDimension: ISleepDimensionError[];
+  /** Improvement over persistence in %, over all normalized dimensions */
+  readonly improvementOverPersistence: number;
+}
+
+/**
+ * Training report
+ */
+export interface ISleepModelTrainingReport extends ISleepModelEvaluation {
+  readonly users: { readonly train: number; readonly validation: number };
+  readonly sequences: { readonly train: number; readonly validation: number };
+  readonly nights: { readonly observed: number; readonly interpolated: number };
+  readonly epochs: number;
+  readonly bestEpoch: number;
+  readonly bestValidationLoss: number;
+  readonly converged: boolean;
+}
+
+/**
+ * Training result
+ */
+export interface ISleepModelTrainingResult {
+  /** Best weights, ready for SleepPredictionService.setPopulationModel */
+  readonly weights: IPLRNNWeights;
+  readonly report: ISleepModelTrainingReport;
+}
+
+// ============================================================================
+// SLEEP MODEL TRAINING SERVICE
+// ============================================================================
+
+/**
+ * Sleep Model Training Service
+ * Fits the 5D sleep PLRNN on diary histories
+ */
+export class SleepModelTrainingService {
+  private readonly config: ISleepModelTrainingConfig;
+
+  constructor(config: Partial<ISleepModelTrainingConfig> = {}) {
+    this.config = {
+      ...DEFAULT_SLEEP_MODEL_TRAINING_CONFIG,
+      ...config,
+      training: {
+        ...DEFAULT_SLEEP_MODEL_TRAINING_CONFIG.training,
+        ...config.training,
+      },
+    };
+  }
+
+  // ==========================================================================
+  // SEQUENCE PREPARATION
+  // ==========================================================================
+
+  /**
+   * Build normalized training sequences from diary entries (any user order)
+   */
+  buildSequences(entries: readonly ISleepDiaryEntryEntity[]): IDiaryTrainingSequence[] {
+    const byUser = new Map<string, Map<number, ISleepDiaryEntryEntity>>();
+    for (const entry of entries) {
+      const day = toDayNumber(entry.date);
+      if (Number.isNaN(day)) continue;
+
+      const nights = byUser.get(entry.userId) ?? new Map<number, ISleepDiaryEntryEntity>();
+      nights.set(day, entry); // Latest entry wins for duplicate dates
+      byUser.set(entry.userId, nights);
+    }
+
+    const sequences: IDiaryTrainingSequence[] = [];
+    for (const [userId, nights] of byUser) {
+      const days = [...nights.keys()].sort((a, b) => a - b);
+
+      let run: { values: number[][]; days: number[]; observed: boolean[] } | null = null;
+      for (const day of days) {
+        const values = this.normalizeEntry(nights.get(day)!);
+
+        const lastDay = run?.days[run.days.length - 1];
+        const missing = lastDay !== undefined ? day - lastDay - 1 : Infinity;
+
+        if (run && missing <= this.config.maxInterpolatedDays) {
+          const previous = run.values[run.values.length - 1]!;
+          for (let i = 1; i <= missing; i++) {
+            const weight = i / (missing + 1);
+            run.values.push(previous.map((v, d) => v + (values[d]! - v) * weight));
+            run.days.push(lastDay! + i);
+            run.observed.push(false);
+          }
+        } else {
+          this.pushSequence(sequences, userId, run);
+          run = { values: [], days: [], observed: [] };
+        }
+
+        run.values.push(values);
+        run.days.push(day);
+        run.observed.push(true);
+      }
+      this.pushSequence(sequences, userId, run);
+    }
+
+    return sequences;
+  }
+
+  /**
+   * Split sequences into train and validation sets by user.
+   * The split is deterministic (users are ordered by a hash of their ID).
+   */
+  splitByUser(sequences: IDiaryTrainingSequence[]): {
+    train: IDiaryTrainingSequence[];
+    validation: IDiaryTrainingSequence[];
+  } {
+    const users = [...new Set(sequences.map((s) => s.participantId))]
+      .sort((a, b) => hashUserId(a) - hashUserId(b) || a.localeCompare(b));
+
+    const validationCount = users.length < 2
+      ? 0
+      : Math.max(1, Math.round(users.length * this.config.validationSplit));
+    const validationUsers = new Set(users.slice(users.length - validationCount));
+
+    return {
+      train: sequences.filter((s) => !validationUsers.has(s.participantId)),
+      validation: sequences.filter((s) => validationUsers.has(s.participantId)),
+    };
+  }
+
+  // ==========================================================================
+  // TRAINING
+  // ==========================================================================
+
+  /**
+   * Train the sleep PLRNN on diary entries of all users
+   */
+  async train(entries: readonly ISleepDiaryEntryEntity[]): Promise<ISleepModelTrainingResult> {
+    const { train, validation } = this.splitByUser(this.buildSequences(entries));
+
+    if (train.length === 0 || validation.length === 0) {
+      throw new Error(
+        `Not enough diary data: need at least 2 users with ${this.config.minSequenceLength}+ nights in a row`
+      );
+    }
+
+    const engine = new PLRNNEngine(this.config.plrnnConfig);
+    engine.initialize(this.config.plrnnConfig ?? {});
+
+    const trainer = new PLRNNTrainer(engine, this.config.training);
+    const result = await trainer.trainOnSequences(train, validation);
+
+    // The trainer leaves the best weights loaded
+    const evaluation = this.evaluate(engine, validation);
+
+    const all = [...train, ...validation];
+    const observedNights = countNights(all, true);
+    const weights: IPLRNNWeights = {
+      ...result.trainedWeights,
+      meta: {
+        ...result.trainedWeights.meta,
+        trainedAt: new Date(),
+        trainingSamples: countNights(train, true),
+        validationLoss: result.history.bestValidationLoss,
+      },
+    };
+
+    return {
+      weights,
+      report: {
+        users: {
+          train: new Set(train.map((s) => s.participantId)).size,
+          validation: new Set(validation.map((s) => s.participantId)).size,
+        },
+        sequences: { train: train.length, validation: validation.length },
+        nights: { observed: observedNights, interpolated: countNights(all, false) },
+        epochs: result.history.epochLosses.length,
+        bestEpoch: result.history.bestEpoch,
+        bestValidationLoss: result.history.bestValidationLoss,
+        converged: result.history.converged,
+        ...evaluation,
+      },
+    };
+  }
+
+  // ==========================================================================
+  // EVALUATION
+  // ==========================================================================
+
+  /**
+   * Next-night MAE per dimension against persistence.
+   * States are built the same way SleepPredictionService builds them;
+   * only observed (not interpolated) nights are scored.
+   */
+  evaluate(engine: IPLRNNEngine, sequences: readonly IDiaryTrainingSequence[]): ISleepModelEvaluation {
+    const dims = Object.keys(SLEEP_DIMENSION_MAPPING).length;
+    const modelError = new Array<number>(dims).fill(0);
+    const persistenceError = new Array<number>(dims).fill(0);
+    let evaluatedNights = 0;
+
+    for (const sequence of sequences) {
+      for (let t = 0; t < sequence.values.length - 1; t++) {
+        if (!sequence.observed[t + 1]) continue;
+
+        const current = sequence.values[t]!;
+        const actual = sequence.values[t + 1]!;
+        const predicted = engine.forward(this.createState(current, sequence.timestamps[t]!)).observedState;
+
+        for (let d = 0; d < dims; d++) {
+          // Clamped like SleepPredictionService.plrnnStateToSleepMetrics
+          const p = Math.max(0, Math.min(1, predicted[d] ?? 0));
+          modelError[d] = modelError[d]! + Math.abs(p - actual[d]!);
+          persistenceError[d] = persistenceError[d]! + Math.abs(current[d]! - actual[d]!);
+        }
+        evaluatedNights++;
+      }
+    }
+
+    const { scales, units } = this.getDimensionScales();
+    const perDimension = modelError.map((error, d): ISleepDimensionError => {
+      const mae = evaluatedNights > 0 ? error / evaluatedNights : 0;
+      const persistenceMae = evaluatedNights > 0 ? persistenceError[d]! / evaluatedNights : 0;
+      return {
+        dimension: SLEEP_DIMENSION_MAPPING[d as keyof typeof SLEEP_DIMENSION_MAPPING],
+        unit: units[d]!,
+        mae: mae * scales[d]!,
+        persistenceMae: persistenceMae * scales[d]!,
+        improvement: improvement(mae, persistenceMae),
+      };
+    });
+
+    return {
+      evaluatedNights,
+      perDimension,
+      improvementOverPersistence: improvement(
+        modelError.reduce((sum, e) => sum + e, 0),
+        persistenceError.reduce((sum, e) => sum + e, 0)
+      ),
+    };
+  }
+
+  // ==========================================================================
+  // HELPERS
+  // ==========================================================================
+
+  private normalizeEntry(entry: ISleepDiaryEntryEntity): number[] {
+    const { metrics, subjectiveQuality } = diaryEntryToHistoryEntry(entry);
+    return normalizeSleepObservation(metrics, subjectiveQuality, this.config.normalization);
+  }
+
+  private pushSequence(
+    sequences: IDiaryTrainingSequence[],
+    userId: string,
+    run: { values: number[][]; days: number[]; observed: boolean[] } | null
+  ): void {
+    if (!run || run.values.length < this.config.minSequenceLength) return;
+
+    sequences.push({
+      participantId: userId,
+      values: run.values,
+      timestamps: run.days.map((day) => new Date(day * DAY_MS)),
+      wasInterpolated: run.observed.includes(false),
+      observed: run.observed,
+    });
+  }
+
+  private createState(observation: number[], timestamp: Date): IPLRNNState {
+    return {
+      latentState: [...observation],
+      hiddenActivations: new Array(this.config.plrnnConfig?.hiddenUnits ?? 16).fill(0),
+      observedState: [...observation],
+      uncertainty: observation.map(() => 0.1),
+      timestamp,
+      timestep: 0,
+    };
+  }
+
+  /**
+   * Factors from the 0-1 scale back to reporting units
+   */
+  private getDimensionScales(): { scales: number[]; units: string[] } {
+    const norm = this.config.normalization;
+    return {
+      scales: [norm.maxSE, norm.maxSOL, norm.maxWASO, norm.maxTST * 60, 1],
+      units: ['%', 'min', 'min', 'min', '0-1'],
+    };
+  }
+}
+
+/**
+ * Days since epoch for a YYYY-MM-DD diary date
+ */
+function toDayNumber(date: string): number {
+  return Math.round(Date.parse(`${date}T00:00:00Z`) / DAY_MS);
+}
+
+/**
+ * FNV-1a hash for a stable, non-alphabetical user order
+ */
+function hashUserId(userId: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < userId.length; i++) {
+    hash ^= userId.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+function countNights(sequences: readonly IDiaryTrainingSequence[], observed: boolean): number {
+  return sequences.reduce((sum, s) => sum + s.observed.filter((o) => o === observed).length, 0);
+}
+
+function improvement(error: number, baseline: number): number {
+  return baseline > 0 ? ((baseline - error) / baseline) * 100 : 0;
+}
+
+/**
+ * Create sleep model training service
+ */
+export function createSleepModelTrainingService(
+  config?: Partial<ISleepModelTrainingConfig>
+): SleepModelTrainingService {
+  return new SleepModelTrainingService(config);
+}
@@ -0,0 +1,568 @@
+/**
+ * 📐 SLEEP PREDICTION BACKTESTER
+ * ==============================
+ * Walk-forward evaluation of SleepPredictionService on historical diaries.
+ *
+ * Scientific Foundation:
+ * - Tashman (2000): out-of-sample, rolling-origin forecast evaluation
+ * - Fechtelpeter et al., npj Digital Medicine 2025: PLRNN vs. naive EMA baselines
+ * - Morin et al. (2011): ISI change of 6+ points is clinically meaningful
+ *
+ * Method:
+ * - Each user's diary is replayed night by night; only nights up to the
+ *   forecast origin are known to the models
+ * - PLRNN (predict), hybrid (predictHybrid), persistence and moving-average
+ *   forecasts are collected against the actual SE/SOL/WASO
+ * - Early-warning alerts are scored against later ISI deterioration:
+ *   an alert is a hit if a deterioration follows within the lead window,
+ *   a deterioration is detected if an alert preceded it within the window
+ *
+ * © БФ "Другой путь", 2025-2026
+ *
+ * @packageDocumentation
+ * @module @sleepcore/bot/services
+ */
+
+import type { IPLRNNWeights } from '@cognicore/engine';
+
+import { ISI_MCID } from '../../assessment';
+import type {
+  IAssessmentEntity,
+  ISleepDiaryEntryEntity,
+} from '../../infrastructure/database/interfaces/IRepository';
+import {
+  SleepPredictionService,
+  DEFAULT_SLEEP_PREDICTION_CONFIG,
+  diaryEntryToHistoryEntry,
+  type ISleepPredictionConfig,
+  type ISleepPrediction,
+} from './SleepPredictionService';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Forecasting models under comparison
+ */
+export type BacktestModel = 'plrnn' | 'hybrid' | 'persistence' | 'moving_average';
+
+/**
+ * Models that raise deterioration alerts
+ */
+export type BacktestAlertModel = Exclude<BacktestModel, 'persistence'>;
+
+/**
+ * Scored sleep metrics
+ */
+export type BacktestMetric = 'sleepEfficiency' | 'sleepOnsetLatency' | 'wakeAfterSleepOnset';
+
+/**
+ * SleepPredictionService horizon
+ */
+export type BacktestHorizon = keyof ISleepPredictionConfig['horizons'];
+
+/**
+ * Backtest configuration
+ */
+export interface ISleepBacktestConfig {
+  /** SleepPredictionService configuration overrides */
+  readonly predictionConfig: Partial<ISleepPredictionConfig>;
+
+  /** Horizons to forecast at every origin */
+  readonly horizons: BacktestHorizon[];
+
+  /** Fine-tune user models while replaying (as trainOnline does live) */
+  readonly onlineLearning: boolean;
+
+  /** Nights averaged by the moving-average baseline */
+  readonly movingAverageWindow: number;
+
+  /** Horizon whose prediction is used for early warnings */
+  readonly warningHorizon: BacktestHorizon;
+
+  /** Deterioration risk at or above which a PLRNN alert is raised */
+  readonly alertRiskThreshold: number;
+
+  /** ISI increase between consecutive assessments counted as deterioration */
+  readonly isiDeteriorationPoints: number;
+
+  /** Maximum days from alert to deterioration */
+  readonly leadWindowDays: number;
+}
+
+/**
+ * Default backtest configuration
+ */
+export const DEFAULT_SLEEP_BACKTEST_CONFIG: ISleepBacktestConfig = {
+  predictionConfig: {},
+  horizons: ['short', 'medium', 'long'],
+  onlineLearning: true,
+  movingAverageWindow: 7,
+  warningHorizon: 'medium',
+  alertRiskThreshold: 0.5,
+  isiDeteriorationPoints: ISI_MCID,
+  leadWindowDays: 28,
+};
+
+/**
+ * Historical data to replay
+ */
+export interface ISleepBacktestInput {
+  readonly diaryEntries: readonly ISleepDiaryEntryEntity[];
+  /** Assessments of any type; only ISI is used */
+  readonly assessments: readonly IAssessmentEntity[];
+  /** Population prior to start from (e.g. from SleepModelTrainingService) */
+  readonly populationWeights?: IPLRNNWeights;
+}
+
+type MetricValues = Record<BacktestMetric, number>;
+
+/**
+ * One forecast with its outcome
+ */
+export interface IBacktestSample {
+  readonly userId: string;
+  /** Forecast origin (YYYY-MM-DD) */
+  readonly date: string;
+  /** Forecast night (YYYY-MM-DD) */
+  readonly targetDate: string;
+  readonly horizonDays: number;
+  readonly model: BacktestModel;
+  readonly predicted: MetricValues;
+  readonly actual: MetricValues;
+}
+
+/**
+ * Deterioration alert raised at a forecast origin
+ */
+export interface IBacktestAlert {
+  readonly userId: string;
+  readonly date: string;
+  readonly model: BacktestAlertModel;
+  /** Deterioration risk (PLRNN models) or SE drop in points (moving average) */
+  readonly score: number;
+  /** Shortest days-to-critical estimate among warnings, if any */
+  readonly estimatedDaysToCritical: number | null;
+}
+
+/**
+ * ISI deterioration between two consecutive assessments
+ */
+export interface IBacktestIsiEvent {
+  readonly userId: string;
+  readonly date: string;
+  readonly previousScore: number;
+  readonly score: number;
+}
+
+/**
+ * Forecast accuracy per model, horizon and metric
+ */
+export interface IBacktestPredictionScore {
+  readonly model: BacktestModel;
+  readonly horizonDays: number;
+  readonly metric: BacktestMetric;
+  readonly n: number;
+  readonly mae: number | null;
+  readonly rmse: number | null;
+  /** Mean of predicted - actual */
+  readonly bias: number | null;
+}
+
+/**
+ * Early-warning accuracy per model
+ */
+export interface IBacktestWarningScore {
+  readonly model: BacktestAlertModel;
+  readonly alerts: number;
+  /** Alerts followed by a deterioration within the lead window */
+  readonly truePositiveAlerts: number;
+  /** Deteriorations with at least one forecast origin in the lead window */
+  readonly evaluableEvents: number;
+  readonly detectedEvents: number;
+  readonly precision: number | null;
+  readonly recall: number | null;
+  /** Days from the first alert to a detected deterioration */
+  readonly meanLeadTimeDays: number | null;
+  readonly medianLeadTimeDays: number | null;
+  /** MAE of days-to-critical estimates against the actual lead time */
+  readonly daysToCriticalMae: number | null;
+}
+
+/**
+ * Machine-readable backtest report
+ */
+export interface ISleepBacktestReport {
+  readonly generatedAt: string;
+  readonly config: ISleepBacktestConfig;
+  readonly users: number;
+  /** Forecast origins with enough history to predict */
+  readonly origins: number;
+  readonly predictions: IBacktestPredictionScore[];
+  readonly earlyWarnings: IBacktestWarningScore[];
+  readonly isiEvents: IBacktestIsiEvent[];
+  readonly samples: IBacktestSample[];
+  readonly alerts: IBacktestAlert[];
+}
+
+const FORECAST_MODELS: BacktestModel[] = ['plrnn', 'hybrid', 'persistence', 'moving_average'];
+const ALERT_MODELS: BacktestAlertModel[] = ['plrnn', 'hybrid', 'moving_average'];
+const METRICS: BacktestMetric[] = ['sleepEfficiency', 'sleepOnsetLatency', 'wakeAfterSleepOnset'];
+
+// ============================================================================
+// SLEEP PREDICTION BACKTESTER
+// ============================================================================
+
+/**
+ * Sleep Prediction Backtester
+ * Replays diaries through SleepPredictionService and scores the forecasts
+ */
+export class SleepPredictionBacktester {
+  private readonly config: ISleepBacktestConfig;
+  private readonly predictionConfig: ISleepPredictionConfig;
+
+  constructor(config: Partial<ISleepBacktestConfig> = {}) {
+    this.config = { ...DEFAULT_SLEEP_BACKTEST_CONFIG, ...config };
+    this.predictionConfig = { ...DEFAULT_SLEEP_PREDICTION_CONFIG, ...this.config.predictionConfig };
+  }
+
+  /**
+   * Run the walk-forward backtest over all users in the input
+   */
+  async run(input: ISleepBacktestInput): Promise<ISleepBacktestReport> {
+    const service = new SleepPredictionService(this.config.predictionConfig);
+    service.initialize();
+    if (input.populationWeights) {
+      await service.setPopulationModel(input.populationWeights);
+    }
+
+    const diaries = groupDiaries(input.diaryEntries);
+    const isiEvents = this.findIsiEvents(input.assessments);
+
+    const samples: IBacktestSample[] = [];
+    const alerts: IBacktestAlert[] = [];
+    const origins = new Map<string, number[]>();
+
+    for (const [userId, nights] of diaries) {
+      const userOrigins = await this.replayUser(service, userId, nights, samples, alerts);
+      origins.set(userId, userOrigins);
+    }
+
+    return {
+      generatedAt: new Date().toISOString(),
+      config: this.config,
+      users: diaries.size,
+      origins: [...origins.values()].reduce((sum, days) => sum + days.length, 0),
+      predictions: scorePredictions(samples),
+      earlyWarnings: ALERT_MODELS.map((model) =>
+        this.scoreWarnings(model, alerts.filter((a) => a.model === model), isiEvents, origins)
+      ),
+      isiEvents,
+      samples,
+      alerts,
+    };
+  }
+
+  // ==========================================================================
+  // REPLAY
+  // ==========================================================================
+
+  /**
+   * Replay one user's diary
+   * @returns Day numbers of the forecast origins
+   */
+  private async replayUser(
+    service: SleepPredictionService,
+    userId: string,
+    nights: Map<number, ISleepDiaryEntryEntity>,
+    samples: IBacktestSample[],
+    alerts: IBacktestAlert[]
+  ): Promise<number[]> {
+    const { minHistoryEntries, horizons, earlyWarning } = this.predictionConfig;
+    const days = [...nights.keys()].sort((a, b) => a - b);
+    const known: ISleepDiaryEntryEntity[] = [];
+    const origins: number[] = [];
+
+    for (const day of days) {
+      const entry = nights.get(day)!;
+      const historyEntry = diaryEntryToHistoryEntry(entry);
+      if (this.config.onlineLearning) {
+        await service.trainOnline(userId, historyEntry);
+      } else {
+        service.addSleepEntry(historyEntry);
+      }
+      known.push(entry);
+
+      if (service.getHistory(userId).length < minHistoryEntries) continue;
+      origins.push(day);
+
+      for (const horizon of this.config.horizons) {
+        const horizonDays = Math.round(horizons[horizon] / 24);
+        const target = nights.get(day + horizonDays);
+
+        const plrnn = service.predict(userId, horizon);
+        const hybrid = service.predictHybrid(userId, horizon);
+
+        if (horizon === this.config.warningHorizon) {
+          this.collectAlert(alerts, userId, day, 'plrnn', plrnn);
+          this.collectAlert(alerts, userId, day, 'hybrid', hybrid);
+        }
+
+        if (!target) continue;
+
+        const forecasts: Record<BacktestModel, MetricValues | null> = {
+          plrnn: plrnn ? predictionToMetrics(plrnn) : null,
+          hybrid: hybrid ? predictionToMetrics(hybrid) : null,
+          persistence: entryToMetrics(entry),
+          moving_average: averageMetrics(known.slice(-this.config.movingAverageWindow)),
+        };
+
+        for (const model of FORECAST_MODELS) {
+          const predicted = forecasts[model];
+          if (!predicted) continue;
+          samples.push({
+            userId,
+            date: toDateString(day),
+            targetDate: toDateString(day + horizonDays),
+            horizonDays,
+            model,
+            predicted,
+            actual: entryToMetrics(target),
+          });
+        }
+      }
+
+      // Naive alert: weekly mean SE dropped against the week before
+      const window = this.config.movingAverageWindow;
+      if (known.length >= window * 2) {
+        const drop = averageMetrics(known.slice(-window * 2, -window)).sleepEfficiency
+          - averageMetrics(known.slice(-window)).sleepEfficiency;
+        if (drop >= earlyWarning.seDropThreshold) {
+          alerts.push({
+            userId,
+            date: toDateString(day),
+            model: 'moving_average',
+            score: drop,
+            estimatedDaysToCritical: null,
+          });
+        }
+      }
+    }
+
+    return origins;
+  }
+
+  private collectAlert(
+    alerts: IBacktestAlert[],
+    userId: string,
+    day: number,
+    model: BacktestAlertModel,
+    prediction: ISleepPrediction | null
+  ): void {
+    if (!prediction || prediction.deteriorationRisk < this.config.alertRiskThreshold) return;
+
+    const estimates = prediction.earlyWarnings
+      .map((w) => w.estimatedDaysToCritical)
+      .filter((d): d is number => d !== null);
+
+    alerts.push({
+      userId,
+      date: toDateString(day),
+      model,
+      score: prediction.deteriorationRisk,
+      estimatedDaysToCritical: estimates.length > 0 ? Math.min(...estimates) : null,
+    });
+  }
+
+  // ==========================================================================
+  // EARLY WARNING SCORING
+  // ==========================================================================
+
+  /**
+   * ISI deteriorations between consecutive assessments of each user
+   */
+  private findIsiEvents(assessments: readonly IAssessmentEntity[]): IBacktestIsiEvent[] {
+    const byUser = new Map<string, IAssessmentEntity[]>();
+    for (const assessment of assessments) {
+      if (assessment.type !== 'isi') continue;
+      const list = byUser.get(assessment.userId) ?? [];
+      list.push(assessment);
+      byUser.set(assessment.userId, list);
+    }
+
+    const events: IBacktestIsiEvent[] = [];
+    for (const [userId, list] of byUser) {
+      list.sort((a, b) => a.assessedAt.getTime() - b.assessedAt.getTime());
+      for (let i = 1; i < list.length; i++) {
+        const previous = list[i - 1]!;
+        const current = list[i]!;
+        if (current.score - previous.score >= this.config.isiDeteriorationPoints) {
+          events.push({
+            userId,
+            date: toDateString(Math.floor(current.assessedAt.getTime() / DAY_MS)),
+            previousScore: previous.score,
+            score: current.score,
+          });
+        }
+      }
+    }
+
+    return events;
+  }
+
+  private scoreWarnings(
+    model: BacktestAlertModel,
+    alerts: IBacktestAlert[],
+    events: IBacktestIsiEvent[],
+    origins: Map<string, number[]>
+  ): IBacktestWarningScore {
+    const window = this.config.leadWindowDays;
+    const inWindow = (alertDay: number, eventDay: number): boolean =>
+      eventDay >= alertDay && eventDay - alertDay <= window;
+
+    const truePositiveAlerts = alerts.filter((alert) =>
+      events.some((e) => e.userId === alert.userId && inWindow(toDayNumber(alert.date), toDayNumber(e.date)))
+    ).length;
+
+    let evaluableEvents = 0;
+    const leadTimes: number[] = [];
+    const daysToCriticalErrors: number[] = [];
+
+    for (const event of events) {
+      const eventDay = toDayNumber(event.date);
+      const userOrigins = origins.get(event.userId) ?? [];
+      if (!userOrigins.some((day) => inWindow(day, eventDay))) continue;
+      evaluableEvents++;
+
+      const preceding = alerts
+        .filter((a) => a.userId === event.userId && inWindow(toDayNumber(a.date), eventDay))
+        .sort((a, b) => a.date.localeCompare(b.date));
+      const first = preceding[0];
+      if (!first) continue;
+
+      const leadTime = eventDay - toDayNumber(first.date);
+      leadTimes.push(leadTime);
+      if (first.estimatedDaysToCritical !== null) {
+        daysToCriticalErrors.push(Math.abs(first.estimatedDaysToCritical - leadTime));
+      }
+    }
+
+    return {
+      model,
+      alerts: alerts.length,
+      truePositiveAlerts,
+      evaluableEvents,
+      detectedEvents: leadTimes.length,
+      precision: alerts.length > 0 ? truePositiveAlerts / alerts.length : null,
+      recall: evaluableEvents > 0 ? leadTimes.length / evaluableEvents : null,
+      meanLeadTimeDays: mean(leadTimes),
+      medianLeadTimeDays: median(leadTimes),
+      daysToCriticalMae: mean(daysToCriticalErrors),
+    };
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Diary nights per user keyed by day number (latest entry wins per date)
+ */
+function groupDiaries(
+  entries: readonly ISleepDiaryEntryEntity[]
+): Map<string, Map<number, ISleepDiaryEntryEntity>> {
+  const byUser = new Map<string, Map<number, ISleepDiaryEntryEntity>>();
+  for (const entry of entries) {
+    const day = toDayNumber(entry.date);
+    if (Number.isNaN(day)) continue;
+
+    const nights = byUser.get(entry.userId) ?? new Map<number, ISleepDiaryEntryEntity>();
+    nights.set(day, entry);
+    byUser.set(entry.userId, nights);
+  }
+  return byUser;
+}
+
+function scorePredictions(samples: IBacktestSample[]): IBacktestPredictionScore[] {
+  const groups = new Map<string, IBacktestSample[]>();
+  for (const sample of samples) {
+    const key = `${sample.model}:${sample.horizonDays}`;
+    const group = groups.get(key) ?? [];
+    group.push(sample);
+    groups.set(key, group);
+  }
+
+  const scores: IBacktestPredictionScore[] = [];
+  for (const group of groups.values()) {
+    const { model, horizonDays } = group[0]!;
+    for (const metric of METRICS) {
+      const errors = group.map((s) => s.predicted[metric] - s.actual[metric]);
+      scores.push({
+        model,
+        horizonDays,
+        metric,
+        n: errors.length,
+        mae: mean(errors.map(Math.abs)),
+        rmse: errors.length > 0 ? Math.sqrt(mean(errors.map((e) => e * e))!) : null,
+        bias: mean(errors),
+      });
+    }
+  }
+  return scores;
+}
+
+function predictionToMetrics(prediction: ISleepPrediction): MetricValues {
+  return {
+    sleepEfficiency: prediction.predictedSleepEfficiency.value,
+    sleepOnsetLatency: prediction.predictedMetrics.sleepOnsetLatency,
+    wakeAfterSleepOnset: prediction.predictedMetrics.wakeAfterSleepOnset,
+  };
+}
+
+function entryToMetrics(entry: ISleepDiaryEntryEntity): MetricValues {
+  return {
+    sleepEfficiency: entry.sleepEfficiency,
+    sleepOnsetLatency: entry.sleepOnsetLatency,
+    wakeAfterSleepOnset: entry.wakeAfterSleepOnset,
+  };
+}
+
+function averageMetrics(entries: ISleepDiaryEntryEntity[]): MetricValues {
+  return {
+    sleepEfficiency: mean(entries.map((e) => e.sleepEfficiency)) ?? 0,
+    sleepOnsetLatency: mean(entries.map((e) => e.sleepOnsetLatency)) ?? 0,
+    wakeAfterSleepOnset: mean(entries.map((e) => e.wakeAfterSleepOnset)) ?? 0,
+  };
+}
+
+function mean(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1]! + sorted[mid]!) / 2 : sorted[mid]!;
+}
+
+function toDayNumber(date: string): number {
+  return Math.round(Date.parse(`${date}T00:00:00Z`) / DAY_MS);
+}
+
+function toDateString(day: number): string {
+  return new Date(day * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Create sleep prediction backtester
+ */
+export function createSleepPredictionBacktester(
+  config?: Partial<ISleepBacktestConfig>
+): SleepPredictionBacktester {
+  return new SleepPredictionBacktester(config);
+}
@@ -13,6 +13,7 @@
  * - Maps sleep metrics to 5D state vector (SE, SOL, WASO, TST, Quality)
  * - Implements early warning signals for sleep deterioration
  * - Hybrid prediction: Kalman for short-term, PLRNN for long-term
+ * - Per-user fine-tuned models over a population prior (PLRNNModelRegistry)
  *
  * © БФ "Другой путь", 2025-2026
  *
@@ -21,7 +22,6 @@
  */
 
 import {
-  createPLRNNEngine,
   DEFAULT_PLRNN_CONFIG,
   type IPLRNNEngine,
   type IPLRNNConfig,
@@ -30,9 +30,15 @@ import {
   type IEarlyWarningSignal,
   type ICausalNetwork,
   type IInterventionSimulation,
+  type IPLRNNWeights,
 } from '@cognicore/engine';
 
 import type { ISleepMetrics, ISleepDiaryEntry } from '../../sleep/interfaces/ISleepState';
+import type {
+  IPLRNNModelRepository,
+  ISleepDiaryEntryEntity,
+} from '../../infrastructure/database/interfaces/IRepository';
+import { PLRNNModelRegistry, type IPLRNNModelInfo } from './PLRNNModelRegistry';
 
 // ============================================================================
 // TYPES & INTERFACES
@@ -133,6 +139,24 @@ export const DEFAULT_SLEEP_PREDICTION_CONFIG: ISleepPredictionConfig = {
   },
 };
 
+/**
+ * Normalize sleep metrics to the PLRNN observation vector
+ * (order as in SLEEP_DIMENSION_MAPPING, all dimensions in 0-1)
+ */
+export function normalizeSleepObservation(
+  metrics: Pick<ISleepMetrics, 'sleepEfficiency' | 'sleepOnsetLatency' | 'wakeAfterSleepOnset' | 'totalSleepTime'>,
+  subjectiveQuality: number,
+  norm: ISleepPredictionConfig['normalization']
+): number[] {
+  return [
+    metrics.sleepEfficiency / norm.maxSE,
+    Math.min(metrics.sleepOnsetLatency / norm.maxSOL, 1),
+    Math.min(metrics.wakeAfterSleepOnset / norm.maxWASO, 1),
+    Math.min((metrics.totalSleepTime / 60) / norm.maxTST, 1), // Convert minutes to hours
+    subjectiveQuality,
+  ];
+}
+
 /**
  * Sleep prediction result
  */
@@ -231,6 +255,30 @@ export interface ISleepHistoryEntry {
   readonly subjectiveQuality: number; // 0-1 normalized
 }
 
+/**
+ * Convert a stored diary entry to a prediction history entry
+ * (diary quality is 1-5, the model uses 0-1)
+ */
+export function diaryEntryToHistoryEntry(entry: ISleepDiaryEntryEntity): ISleepHistoryEntry {
+  return {
+    userId: entry.userId,
+    date: new Date(`${entry.date}T00:00:00Z`),
+    metrics: {
+      timeInBed: entry.timeInBed,
+      totalSleepTime: entry.totalSleepTime,
+      sleepOnsetLatency: entry.sleepOnsetLatency,
+      wakeAfterSleepOnset: entry.wakeAfterSleepOnset,
+      numberOfAwakenings: entry.nightAwakenings,
+      sleepEfficiency: entry.sleepEfficiency,
+      bedtime: entry.bedtime,
+      wakeTime: entry.wakeTime,
+      finalAwakening: entry.wakeTime,
+      outOfBedTime: entry.outOfBedTime,
+    },
+    subjectiveQuality: Math.max(0, Math.min(1, (entry.sleepQuality - 1) / 4)),
+  };
+}
+
 // ============================================================================
 // SLEEP PREDICTION SERVICE
 // ============================================================================
@@ -241,14 +289,15 @@ export interface ISleepHistoryEntry {
  */
 export class SleepPredictionService {
   private config: ISleepPredictionConfig;
-  private plrnnEngine: IPLRNNEngine;
+  private modelRegistry: PLRNNModelRegistry;
   private userStates: Map<string, IPLRNNState> = new Map();
   private userHistory: Map<string, ISleepHistoryEntry[]> = new Map();
+  private restoredUsers: Set<string> = new Set();
   private initialized = false;
 
-  constructor(config: Partial<ISleepPredictionConfig> = {}) {
+  constructor(config: Partial<ISleepPredictionConfig> = {}, modelRepository?: IPLRNNModelRepository) {
     this.config = { ...DEFAULT_SLEEP_PREDICTION_CONFIG, ...config };
-    this.plrnnEngine = createPLRNNEngine(this.config.plrnnConfig);
+    this.modelRegistry = new PLRNNModelRegistry(this.config.plrnnConfig, modelRepository);
   }
 
   // ==========================================================================
@@ -261,7 +310,7 @@ export class SleepPredictionService {
   initialize(): void {
     if (this.initialized) return;
 
-    this.plrnnEngine.initialize(this.config.plrnnConfig ?? {});
+    // Engines are created initialized by the model registry
     this.initialized = true;
 
     console.info('[SleepPrediction] Engine initialized with config:', {
@@ -290,16 +339,11 @@ export class SleepPredictionService {
     subjectiveQuality: number = 0.5,
     timestamp: Date = new Date()
   ): IPLRNNState {
-    const norm = this.config.normalization;
-
-    // Normalize metrics to 0-1 range
-    const normalizedState = [
-      metrics.sleepEfficiency / norm.maxSE,
-      Math.min(metrics.sleepOnsetLatency / norm.maxSOL, 1),
-      Math.min(metrics.wakeAfterSleepOnset / norm.maxWASO, 1),
-      Math.min((metrics.totalSleepTime / 60) / norm.maxTST, 1), // Convert minutes to hours
+    const normalizedState = normalizeSleepObservation(
+      metrics,
       subjectiveQuality,
-    ];
+      this.config.normalization
+    );
 
     // Initial uncertainty based on data quality
     const uncertainty = normalizedState.map(() => 0.1);
@@ -347,8 +391,9 @@ export class SleepPredictionService {
     const history = this.userHistory.get(entry.userId) || [];
     history.push(entry);
 
-    // Keep last 90 days of history
-    const cutoffDate = new Date();
+    // Keep last 90 days of history (relative to the newest night, so replays
+    // of historical diaries behave like live use)
+    const cutoffDate = new Date(Math.max(...history.map(e => e.date.getTime())));
     cutoffDate.setDate(cutoffDate.getDate() - 90);
     const filteredHistory = history.filter(e => e.date >= cutoffDate);
 
@@ -363,7 +408,7 @@ export class SleepPredictionService {
 
     // Run forward pass to update state
     if (this.initialized) {
-      const updatedState = this.plrnnEngine.forward(plrnnState);
+      const updatedState = this.modelRegistry.getEngine(entry.userId).forward(plrnnState);
       this.userStates.set(entry.userId, updatedState);
     } else {
       this.userStates.set(entry.userId, plrnnState);
@@ -417,7 +462,7 @@ export class SleepPredictionService {
     const daysAhead = Math.round(hoursAhead / 24);
 
     // Run PLRNN prediction
-    const plrnnPrediction = this.plrnnEngine.predict(currentState, daysAhead);
+    const plrnnPrediction = this.modelRegistry.getEngine(userId).predict(currentState, daysAhead);
 
     // Extract sleep efficiency trajectory
     const seTrajectory = plrnnPrediction.trajectory.map((state, idx) => {
@@ -787,10 +832,11 @@ export class SleepPredictionService {
 
   /**
    * Extract causal network for sleep dynamics
+   * (the user's model if given and available, otherwise the population prior)
    */
-  extractCausalNetwork(): ICausalNetwork | null {
+  extractCausalNetwork(userId?: string): ICausalNetwork | null {
     if (!this.initialized) return null;
-    return this.plrnnEngine.extractCausalNetwork();
+    return this.getEngineFor(userId).extractCausalNetwork();
   }
 
   /**
@@ -805,7 +851,7 @@ export class SleepPredictionService {
     const state = this.userStates.get(userId);
     if (!state || !this.initialized) return null;
 
-    return this.plrnnEngine.simulateIntervention(state, target, intervention, magnitude);
+    return this.modelRegistry.getEngine(userId).simulateIntervention(state, target, intervention, magnitude);
   }
 
   // ==========================================================================
@@ -814,23 +860,118 @@ export class SleepPredictionService {
 
   /**
    * Train on new sleep data (online learning)
+   * Fine-tunes the user's own model (forked from the population prior);
+   * the prior and other users' models are not affected. The persisted
+   * model is restored before the first update and saved after each one.
    */
-  trainOnline(userId: string, entry: ISleepHistoryEntry): void {
+  async trainOnline(userId: string, entry: ISleepHistoryEntry): Promise<void> {
     if (!this.initialized) {
       this.initialize();
     }
-
-    const state = this.sleepMetricsToPLRNNState(entry.metrics, entry.subjectiveQuality, entry.date);
-
-    // IPLRNNTrainingSample requires observations array and timestamps
-    this.plrnnEngine.trainOnline({
-      observations: [state.observedState],
-      timestamps: [entry.date],
-      userId,
-    });
+    await this.ensureUserModel(userId);
+
+    // Learn the transition from the previous night to this one
+    const history = this.userHistory.get(userId) ?? [];
+    const previous = history[history.length - 1];
+    if (previous) {
+      const previousState = this.sleepMetricsToPLRNNState(
+        previous.metrics,
+        previous.subjectiveQuality,
+        previous.date
+      );
+      const state = this.sleepMetricsToPLRNNState(entry.metrics, entry.subjectiveQuality, entry.date);
+
+      const result = this.modelRegistry.getOrCreateUserEngine(userId).trainOnline({
+        observations: [previousState.observedState, state.observedState],
+        timestamps: [previous.date, entry.date],
+        userId,
+      });
+      this.modelRegistry.recordValidationLoss(userId, result.validationLoss);
+    }
 
     // Update stored state
     this.addSleepEntry(entry);
+    await this.saveUserModel(userId);
+  }
+
+  // ==========================================================================
+  // MODEL PERSISTENCE
+  // ==========================================================================
+
+  /**
+   * Persist models through a repository
+   */
+  setModelRepository(repository: IPLRNNModelRepository): void {
+    this.modelRegistry.setRepository(repository);
+  }
+
+  /**
+   * Load the persisted population prior
+   * @returns false if none is stored
+   */
+  async loadPopulationModel(): Promise<boolean> {
+    return this.modelRegistry.loadPopulation();
+  }
+
+  /**
+   * Replace the population prior (e.g. with offline-trained weights) and persist it
+   */
+  async setPopulationModel(weights: IPLRNNWeights): Promise<void> {
+    this.modelRegistry.setPopulationWeights(weights);
+    await this.modelRegistry.savePopulation();
+  }
+
+  /**
+   * Restore a user's model and latest state after a restart
+   * @returns false if the user has no persisted model
+   */
+  async restoreUserModel(userId: string): Promise<boolean> {
+    this.restoredUsers.add(userId);
+    const state = await this.modelRegistry.loadUser(userId);
+    if (state) {
+      this.userStates.set(userId, state);
+    }
+    return this.modelRegistry.hasUserModel(userId);
+  }
+
+  /**
+   * Restore a user's model on first access; later calls are no-ops
+   */
+  async ensureUserModel(userId: string): Promise<void> {
+    if (this.restoredUsers.has(userId)) return;
+    await this.restoreUserModel(userId);
+  }
+
+  /**
+   * Persist a user's fine-tuned model and latest state
+   */
+  async saveUserModel(userId: string): Promise<void> {
+    await this.modelRegistry.saveUser(userId, this.userStates.get(userId));
+  }
+
+  /**
+   * Forget a user's model, state and history (GDPR)
+   */
+  async deleteUserModel(userId: string): Promise<void> {
+    this.userStates.delete(userId);
+    this.userHistory.delete(userId);
+    await this.modelRegistry.deleteUser(userId);
+  }
+
+  /**
+   * Metadata of the model used for a user's predictions
+   */
+  getModelInfo(userId: string): IPLRNNModelInfo {
+    return this.modelRegistry.getModelInfo(userId);
+  }
+
+  /**
+   * User's engine when given, otherwise the population prior
+   */
+  private getEngineFor(userId?: string): IPLRNNEngine {
+    return userId !== undefined
+      ? this.modelRegistry.getEngine(userId)
+      : this.modelRegistry.getPopulationEngine();
   }
 
   // ==========================================================================
@@ -839,8 +980,9 @@ export class SleepPredictionService {
 
   /**
    * Get model complexity metrics
+   * (the user's model if given and available, otherwise the population prior)
    */
-  getComplexityMetrics(): {
+  getComplexityMetrics(userId?: string): {
     effectiveDimensionality: number;
     sparsity: number;
     lyapunovExponent: number;
@@ -848,7 +990,7 @@ export class SleepPredictionService {
     if (!this.initialized) {
       return { effectiveDimensionality: 5, sparsity: 0, lyapunovExponent: 0 };
     }
-    return this.plrnnEngine.getComplexityMetrics();
+    return this.getEngineFor(userId).getComplexityMetrics();
   }
 
   /**
@@ -858,6 +1000,7 @@ export class SleepPredictionService {
     usersTracked: number;
     totalEntries: number;
     averageHistoryLength: number;
+    personalizedModels: number;
   } {
     let totalEntries = 0;
     for (const history of this.userHistory.values()) {
@@ -870,6 +1013,7 @@ export class SleepPredictionService {
       averageHistoryLength: this.userHistory.size > 0
         ? totalEntries / this.userHistory.size
         : 0,
+      personalizedModels: this.modelRegistry.getUserModelCount(),
     };
   }
 }
@@ -882,9 +1026,10 @@ export class SleepPredictionService {
  * Create sleep prediction service
  */
 export function createSleepPredictionService(
-  config?: Partial<ISleepPredictionConfig>
+  config?: Partial<ISleepPredictionConfig>,
+  modelRepository?: IPLRNNModelRepository
 ): SleepPredictionService {
-  return new SleepPredictionService(config);
+  return new SleepPredictionService(config, modelRepository);
 }
 
 /**
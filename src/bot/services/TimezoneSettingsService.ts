@@ -0,0 +1,102 @@
+/**
+ * TimezoneSettingsService - User Timezone Changes
+ * ===============================================
+ * Applies a timezone chosen in /settings everywhere it is used.
+ *
+ * A user's zone lives in three places: users.timezone (loaded into the
+ * session), proactive notification preferences and ISI assessment
+ * schedules. Changing only one of them would deliver reminders and
+ * assessments at different local times, so all three are updated together.
+ *
+ * @packageDocumentation
+ * @module @sleepcore/bot/services
+ */
+
+import type { UserRepository } from '../../infrastructure/database/repositories/UserRepository';
+import type { ProactiveNotificationService } from './ProactiveNotificationService';
+import type { ISISchedulingService } from './ISISchedulingService';
+import { isValidTimezone } from './ZonedTime';
+
+// ==================== Types ====================
+
+/**
+ * Timezone offered in the settings menu
+ */
+export interface ITimezoneChoice {
+  readonly label: string;
+  readonly timezone: string;
+}
+
+/**
+ * Services that hold a copy of the user's timezone; all optional so the
+ * bot keeps working without a database
+ */
+export interface ITimezoneSettingsDependencies {
+  readonly userRepository?: Pick<UserRepository, 'update'>;
+  readonly notificationService?: Pick<ProactiveNotificationService, 'updatePreferences'>;
+  readonly isiSchedulingService?: Pick<ISISchedulingService, 'setUserTimezone'>;
+}
+
+// ==================== Constants ====================
+
+/**
+ * Russian time zones from Kaliningrad to Kamchatka
+ */
+export const TIMEZONE_CHOICES: readonly ITimezoneChoice[] = [
+  { label: 'Калининград (UTC+2)', timezone: 'Europe/Kaliningrad' },
+  { label: 'Москва (UTC+3)', timezone: 'Europe/Moscow' },
+  { label: 'Самара (UTC+4)', timezone: 'Europe/Samara' },
+  { label: 'Екатеринбург (UTC+5)', timezone: 'Asia/Yekaterinburg' },
+  { label: 'Омск (UTC+6)', timezone: 'Asia/Omsk' },
+  { label: 'Новосибирск (UTC+7)', timezone: 'Asia/Novosibirsk' },
+  { label: 'Иркутск (UTC+8)', timezone: 'Asia/Irkutsk' },
+  { label: 'Якутск (UTC+9)', timezone: 'Asia/Yakutsk' },
+  { label: 'Владивосток (UTC+10)', timezone: 'Asia/Vladivostok' },
+  { label: 'Магадан (UTC+11)', timezone: 'Asia/Magadan' },
+  { label: 'Камчатка (UTC+12)', timezone: 'Asia/Kamchatka' },
+];
+
+// ==================== Service ====================
+
+/**
+ * Timezone Settings Service
+ */
+export class TimezoneSettingsService {
+  constructor(private readonly deps: ITimezoneSettingsDependencies = {}) {}
+
+  /**
+   * Human-readable name of a timezone
+   */
+  getLabel(timezone: string): string {
+    return TIMEZONE_CHOICES.find((choice) => choice.timezone === timezone)?.label ?? timezone;
+  }
+
+  /**
+   * Store a new timezone for a user
+   * @param userId - Telegram user ID (notification and ISI key)
+   * @param dbUserId - users.id, when the user is registered
+   * @returns False if the timezone is not a valid IANA zone
+   */
+  async setTimezone(userId: string, dbUserId: number | undefined, timezone: string): Promise<boolean> {
+    if (!isValidTimezone(timezone)) return false;
+
+    const { userRepository, notificationService, isiSchedulingService } = this.deps;
+    if (userRepository && dbUserId) {
+      await userRepository.update(dbUserId, { timezone });
+    }
+    await notificationService?.updatePreferences(userId, { timezone });
+    await isiSchedulingService?.setUserTimezone(userId, timezone);
+
+    console.log(`[Settings] Timezone for ${userId} set to ${timezone}`);
+    return true;
+  }
+}
+
+/**
+ * Factory function
+ */
+export function createTimezoneSettingsService(
+  deps: ITimezoneSettingsDependencies = {}
+): TimezoneSettingsService {
+  return new TimezoneSettingsService(deps);
+}
@@ -0,0 +1,170 @@
+/**
+ * Zoned Time Utilities
+ * ====================
+ * Per-user local time for cron-driven delivery.
+ *
+ * Users span Kaliningrad (UTC+2) to Kamchatka (UTC+12), so a fixed
+ * Europe/Moscow schedule delivers the 08:00 diary reminder at 05:00
+ * for some of them. All local-time math goes through Intl with IANA
+ * zone names, which keeps it correct across daylight-saving changes.
+ *
+ * @packageDocumentation
+ * @module @sleepcore/bot/services
+ */
+
+// ==================== Constants ====================
+
+/**
+ * Fallback timezone for users without a valid stored zone
+ */
+export const DEFAULT_TIMEZONE = 'Europe/Moscow';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const WEEKDAYS: Record<string, number> = {
+  Sun: 0,
+  Mon: 1,
+  Tue: 2,
+  Wed: 3,
+  Thu: 4,
+  Fri: 5,
+  Sat: 6,
+};
+
+// ==================== Types ====================
+
+/**
+ * Source of the current time (injectable for tests)
+ */
+export interface IClock {
+  now(): Date;
+}
+
+/**
+ * Wall-clock time in a specific timezone
+ */
+export interface IZonedTime {
+  /** Local calendar date, YYYY-MM-DD */
+  readonly dateKey: string;
+  readonly hour: number;
+  readonly minute: number;
+  /** Minutes since local midnight (0-1439) */
+  readonly minutesOfDay: number;
+  /** 0 = Sunday */
+  readonly dayOfWeek: number;
+}
+
+/**
+ * System clock
+ */
+export const systemClock: IClock = {
+  now: () => new Date(),
+};
+
+// ==================== Functions ====================
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      weekday: 'short',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Check that a string is an IANA timezone known to the runtime
+ */
+export function isValidTimezone(timeZone: string | undefined | null): timeZone is string {
+  if (!timeZone) return false;
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Return the timezone if valid, otherwise DEFAULT_TIMEZONE
+ */
+export function resolveTimezone(timeZone: string | undefined | null): string {
+  return isValidTimezone(timeZone) ? timeZone : DEFAULT_TIMEZONE;
+}
+
+/**
+ * Get wall-clock time for an instant in the given timezone
+ */
+export function getZonedTime(date: Date, timeZone: string): IZonedTime {
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(resolveTimezone(timeZone)).formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+
+  const hour = Number(parts.hour);
+  const minute = Number(parts.minute);
+
+  return {
+    dateKey: `${parts.year}-${parts.month}-${parts.day}`,
+    hour,
+    minute,
+    minutesOfDay: hour * 60 + minute,
+    dayOfWeek: WEEKDAYS[parts.weekday] ?? 0,
+  };
+}
+
+/**
+ * Get current local hour in the given timezone
+ */
+export function getLocalHour(timeZone: string = DEFAULT_TIMEZONE, now: Date = new Date()): number {
+  return getZonedTime(now, timeZone).hour;
+}
+
+/**
+ * Parse "HH:MM" into minutes since midnight
+ */
+export function parseTimeOfDay(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+}
+
+/**
+ * Whole calendar days from one YYYY-MM-DD date to another.
+ * Works on dates, not instants, so 23/25-hour DST days count as one day.
+ */
+export function daysBetweenDateKeys(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / MS_PER_DAY);
+}
+
+/**
+ * Shift a YYYY-MM-DD date by whole calendar days
+ */
+export function addDaysToDateKey(dateKey: string, days: number): string {
+  return new Date(Date.parse(`${dateKey}T00:00:00Z`) + days * MS_PER_DAY).toISOString().slice(0, 10);
+}
+
+/**
+ * Check whether a local target time has been reached and is still
+ * within the catch-up window. The window absorbs missed dispatch ticks
+ * and targets that fall into a skipped DST hour; callers dedupe by
+ * local date so repeated hours on fall-back do not send twice.
+ */
+export function isLocalTimeDue(
+  local: IZonedTime,
+  targetTime: string,
+  catchUpMinutes: number
+): boolean {
+  const elapsed = local.minutesOfDay - parseTimeOfDay(targetTime);
+  return elapsed >= 0 && elapsed < catchUpMinutes;
+}
@@ -17,8 +17,34 @@ export type {
   INotificationPreferences,
   IUserNotificationData,
   INotificationJob,
+  NotificationSlot,
+  IProactiveNotificationOptions,
 } from './ProactiveNotificationService';
 
+// ==================== Zoned Time (Per-User Timezones) ====================
+export {
+  DEFAULT_TIMEZONE,
+  systemClock,
+  getZonedTime,
+  getLocalHour,
+  isValidTimezone,
+  resolveTimezone,
+  parseTimeOfDay,
+  daysBetweenDateKeys,
+  addDaysToDateKey,
+  isLocalTimeDue,
+} from './ZonedTime';
+
+export type { IClock, IZonedTime } from './ZonedTime';
+
+export {
+  TimezoneSettingsService,
+  createTimezoneSettingsService,
+  TIMEZONE_CHOICES,
+} from './TimezoneSettingsService';
+
+export type { ITimezoneChoice, ITimezoneSettingsDependencies } from './TimezoneSettingsService';
+
 // ==================== Sentiment Analysis (Emotion-Aware UI) ====================
 export {
   SentimentAnalysisService,
@@ -148,6 +174,10 @@ export {
 export {
   gamificationContext,
   getGamificationEngine,
+  getGamificationUserId,
+  requireGamificationProfile,
+  recordVoiceDiaryEntry,
+  VOICE_DIARY_METRIC,
 } from './GamificationContext';
 
 // ==================== ISI Scheduling (Phase 1.3) ====================
@@ -156,6 +186,37 @@ export {
   createISISchedulingService,
 } from './ISISchedulingService';
 
+export type {
+  IISISchedulingOptions,
+  IAdherenceReport,
+  IAssessmentTimepoint,
+  AssessmentTimepointStatus,
+} from './ISISchedulingService';
+
+export {
+  STANDARD_PROTOCOL,
+  INTENSIVE_RESEARCH_PROTOCOL,
+  BUILT_IN_PROTOCOLS,
+  DEFAULT_PROTOCOL_ID,
+  resolveSchedules,
+  validateProtocol,
+} from './AssessmentProtocols';
+
+export type {
+  ScheduledInstrument,
+  MissedAssessmentPolicy,
+  IAssessmentWindow,
+  IReminderPolicy,
+  IScheduledInstrument,
+  IAssessmentProtocol,
+  IResolvedSchedule,
+} from './AssessmentProtocols';
+
+export {
+  buildQuestionnaireAssessment,
+  recordQuestionnaireAssessment,
+} from './QuestionnaireAssessmentRecorder';
+
 // ==================== Admin Dashboard (Phase 1.3) ====================
 export {
   AdminDashboardService,
@@ -187,9 +248,26 @@ export type {
   ReportStatus,
   ICIOMSMinimumData,
   IAdverseEventReport,
+  IAdverseEventFollowUp,
   ISafetyAlert,
 } from './AdverseEventService';
 
+// ==================== E2B(R3) Export ====================
+export {
+  E2BExportService,
+  createE2BExportService,
+  validateE2BReport,
+  DEFAULT_E2B_CONFIG,
+  DEFAULT_MEDDRA_CODES,
+  E2B_OID,
+} from './E2BExportService';
+
+export type {
+  IE2BExportConfig,
+  IE2BExportResult,
+  IE2BSkippedReport,
+} from './E2BExportService';
+
 // ==================== Anonymized Data Export (Phase 1.3) ====================
 export {
   AnonymizedDataExportService,
@@ -249,6 +327,8 @@ export {
   createSleepPredictionService,
   DEFAULT_SLEEP_PREDICTION_CONFIG,
   SLEEP_DIMENSION_MAPPING,
+  normalizeSleepObservation,
+  diaryEntryToHistoryEntry,
 } from './SleepPredictionService';
 
 export type {
@@ -258,5 +338,107 @@ export type {
   ISleepEarlyWarning,
 } from './SleepPredictionService';
 
+export {
+  PLRNNModelRegistry,
+  createPLRNNModelRegistry,
+  getUserModelKey,
+  POPULATION_MODEL_KEY,
+} from './PLRNNModelRegistry';
+
+export type { IPLRNNModelInfo } from './PLRNNModelRegistry';
+
+export {
+  SleepModelTrainingService,
+  createSleepModelTrainingService,
+  DEFAULT_SLEEP_MODEL_TRAINING_CONFIG,
+} from './SleepModelTrainingService';
+
+export type {
+  ISleepModelTrainingConfig,
+  IDiaryTrainingSequence,
+  ISleepDimensionError,
+  ISleepModelEvaluation,
+  ISleepModelTrainingReport,
+  ISleepModelTrainingResult,
+} from './SleepModelTrainingService';
+
+export {
+  SleepPredictionBacktester,
+  createSleepPredictionBacktester,
+  DEFAULT_SLEEP_BACKTEST_CONFIG,
+} from './SleepPredictionBacktester';
+
+export type {
+  BacktestModel,
+  BacktestAlertModel,
+  BacktestMetric,
+  BacktestHorizon,
+  ISleepBacktestConfig,
+  ISleepBacktestInput,
+  ISleepBacktestReport,
+  IBacktestSample,
+  IBacktestAlert,
+  IBacktestIsiEvent,
+  IBacktestPredictionScore,
+  IBacktestWarningScore,
+} from './SleepPredictionBacktester';
+
+export {
+  SleepDigitalTwinService,
+  createSleepDigitalTwinService,
+  twinValuesToPOMDPState,
+  DEFAULT_SLEEP_TWIN_CONFIG,
+  CURRENT_PRESCRIPTION_SCENARIO,
+  SLEEP_WHAT_IF_SCENARIOS,
+} from './SleepDigitalTwinService';
+
+export type {
+  SleepTwinVariable,
+  SleepTwinValues,
+  SleepForecastMetric,
+  ISleepPrescription,
+  ISleepPrescriptionChange,
+  ISleepWhatIfScenario,
+  ISleepTwinConfig,
+  ISleepTwin,
+  ISleepForecastBandPoint,
+  ISleepScenarioForecast,
+  ISleepWhatIfResult,
+} from './SleepDigitalTwinService';
+
+export {
+  SleepCausalAnalysisService,
+  createSleepCausalAnalysisService,
+  DEFAULT_SLEEP_CAUSAL_ANALYSIS_CONFIG,
+} from './SleepCausalAnalysisService';
+
+export type {
+  SleepCausalOutcome,
+  SleepCausalFactor,
+  ISleepCausalAnalysisConfig,
+  ISleepFactorEffect,
+  ISleepCausalAnalysis,
+} from './SleepCausalAnalysisService';
+
+export {
+  MedicationTaperingService,
+  createMedicationTaperingService,
+  DEFAULT_MEDICATION_TAPERING_CONFIG,
+} from './MedicationTaperingService';
+
+export type {
+  TaperMedicationClass,
+  TaperPlanStatus,
+  TaperHoldReason,
+  WithdrawalSymptom,
+  ITaperStep,
+  ITaperPlan,
+  ITaperPlanRequest,
+  ITaperStatus,
+  INightlyUseSummary,
+  IWithdrawalCheck,
+  IMedicationTaperingConfig,
+} from './MedicationTaperingService';
+
 // ==================== Modules Re-export ====================
 export * from '../../modules';
@@ -29,6 +29,7 @@ import {
   type ISleepPrediction,
   type ISleepHistoryEntry,
 } from '../../bot/services/SleepPredictionService';
+import type { IPLRNNModelRepository } from '../../infrastructure/database/interfaces/IRepository';
 import type {
   ISleepRestrictionPrescription,
   ISleepRestrictionRules,
@@ -279,11 +280,44 @@ export class AdaptiveSleepRestrictionService {
 
   constructor(
     config: Partial<IAdaptiveServiceConfig> = {},
-    customRules?: ISleepRestrictionRules
+    customRules?: ISleepRestrictionRules,
+    modelRepository?: IPLRNNModelRepository
   ) {
     this.config = { ...DEFAULT_ADAPTIVE_CONFIG, ...config };
     this.baseEngine = new SleepRestrictionEngine(customRules);
-    this.predictionService = createSleepPredictionService();
+    this.predictionService = createSleepPredictionService({}, modelRepository);
+  }
+
+  // ==========================================================================
+  // PLRNN MODEL PERSISTENCE
+  // ==========================================================================
+
+  /**
+   * Persist PLRNN models through a repository
+   */
+  setModelRepository(repository: IPLRNNModelRepository): void {
+    this.predictionService.setModelRepository(repository);
+  }
+
+  /**
+   * Load the deployed population prior (scripts/train-sleep-model.ts --deploy)
+   * @returns false if none is stored
+   */
+  async loadPopulationModel(): Promise<boolean> {
+    return this.predictionService.loadPopulationModel();
+  }
+
+  /**
+   * Learn from a newly saved diary night
+   * The user's model is restored on first access and saved after the update.
+   * @param previous - Night before, seeds the transition when the history is empty (e.g. after a restart)
+   */
+  async recordSleepEntry(entry: ISleepHistoryEntry, previous?: ISleepHistoryEntry): Promise<void> {
+    await this.predictionService.ensureUserModel(entry.userId);
+    if (previous && this.predictionService.getHistory(entry.userId).length === 0) {
+      this.predictionService.addSleepEntry(previous);
+    }
+    await this.predictionService.trainOnline(entry.userId, entry);
   }
 
   // ==========================================================================
@@ -1056,9 +1090,10 @@ export class AdaptiveSleepRestrictionService {
  */
 export function createAdaptiveSleepRestrictionService(
   config?: Partial<IAdaptiveServiceConfig>,
-  customRules?: ISleepRestrictionRules
+  customRules?: ISleepRestrictionRules,
+  modelRepository?: IPLRNNModelRepository
 ): AdaptiveSleepRestrictionService {
-  return new AdaptiveSleepRestrictionService(config, customRules);
+  return new AdaptiveSleepRestrictionService(config, customRules, modelRepository);
 }
 
 /**
@@ -3,6 +3,18 @@
  * ===========================================
  * Handles sleep diary entries, calculations, and analysis.
  *
+ * Persistence:
+ * - With an ISleepDiaryRepository attached, entries are written through
+ *   to the database and each user's history is loaded lazily on first access
+ * - Loaded histories are kept in a bounded LRU cache (maxCachedUsers)
+ * - Without a repository the service keeps entries in memory only
+ *
+ * Consensus Sleep Diary (Carney et al., 2012):
+ * - Naps, caffeine, alcohol, sleep medication, early awakening and
+ *   exercise are optional; analysis uses the nights where they were reported
+ * - Hypnotic use and caffeine within 6 h of bedtime (Drake et al., 2013)
+ *   are flagged as issues
+ *
  * @packageDocumentation
  * @module @sleepcore/diary
  */
@@ -14,6 +26,10 @@ import type {
   InsomniaSubtype,
   Chronotype,
 } from '../sleep/interfaces/ISleepState';
+import type {
+  ISleepDiaryRepository,
+  ISleepDiaryEntryEntity,
+} from '../infrastructure/database/interfaces/IRepository';
 
 /**
  * Sleep diary configuration
@@ -23,6 +39,12 @@ export interface ISleepDiaryConfig {
   readonly sleepEfficiencyTarget: number;
   readonly optimalSleepHoursMin: number;
   readonly optimalSleepHoursMax: number;
+  /** Max users whose history is kept in memory (repository mode only) */
+  readonly maxCachedUsers: number;
+  /** Days of history loaded from the repository on first access */
+  readonly historyDays: number;
+  /** Caffeine closer to bedtime than this counts as late (minutes) */
+  readonly caffeineCutoffMinutes: number;
 }
 
 /**
@@ -33,6 +55,9 @@ export const DEFAULT_DIARY_CONFIG: ISleepDiaryConfig = {
   sleepEfficiencyTarget: 85,
   optimalSleepHoursMin: 7,
   optimalSleepHoursMax: 9,
+  maxCachedUsers: 500,
+  historyDays: 90,
+  caffeineCutoffMinutes: 6 * 60,
 };
 
 /**
@@ -84,6 +109,17 @@ export interface ISleepPatternAnalysis {
     readonly avgSE: number;
   };
 
+  /** Consensus Sleep Diary items; averages are null when never reported */
+  readonly lifestyle: {
+    readonly nightsReported: number;
+    readonly avgNapMinutes: number | null;
+    readonly avgCaffeineDrinks: number | null;
+    readonly avgAlcoholDrinks: number | null;
+    readonly lateCaffeineNights: number;
+    readonly hypnoticNights: number;
+    readonly avgEarlyAwakeningMinutes: number | null;
+  };
+
   readonly issues: {
     readonly id: string;
     readonly description: string;
@@ -96,22 +132,54 @@ export interface ISleepPatternAnalysis {
  * Sleep Diary Service
  */
 export class SleepDiaryService {
+  /** Per-user entries sorted by date; LRU order when a repository is attached */
   private entries: Map<string, ISleepDiaryEntry[]> = new Map();
+  /** In-flight history loads, so concurrent callers share one query */
+  private loading: Map<string, Promise<ISleepDiaryEntry[]>> = new Map();
   private config: ISleepDiaryConfig;
+  private repository: ISleepDiaryRepository | null;
 
-  constructor(config: Partial<ISleepDiaryConfig> = {}) {
+  constructor(
+    config: Partial<ISleepDiaryConfig> = {},
+    repository?: ISleepDiaryRepository
+  ) {
     this.config = { ...DEFAULT_DIARY_CONFIG, ...config };
+    this.repository = repository ?? null;
   }
 
   /**
-   * Add a new diary entry
+   * Attach a repository after construction.
+   * Clears the cache so histories are reloaded from the database.
    */
-  addEntry(entry: ISleepDiaryEntry): ISleepMetrics {
-    const userEntries = this.entries.get(entry.userId) || [];
-    userEntries.push(entry);
-    this.entries.set(entry.userId, userEntries);
+  setRepository(repository: ISleepDiaryRepository): void {
+    this.repository = repository;
+    this.entries.clear();
+    this.loading.clear();
+  }
 
-    return this.calculateMetrics(entry);
+  /**
+   * Add a new diary entry.
+   * An entry for a date that already exists replaces it (one entry per night).
+   * The cached history is updated before the write, so an entry whose save
+   * fails is still available until restart; the save error is rethrown.
+   */
+  async addEntry(entry: ISleepDiaryEntry): Promise<ISleepMetrics> {
+    const metrics = this.calculateMetrics(entry);
+
+    const userEntries = await this.loadUserEntries(entry.userId);
+    const existing = userEntries.findIndex(e => e.date === entry.date);
+    if (existing >= 0) {
+      userEntries[existing] = entry;
+    } else {
+      userEntries.push(entry);
+      userEntries.sort((a, b) => a.date.localeCompare(b.date));
+    }
+
+    if (this.repository) {
+      await this.repository.upsert(entryToEntity(entry, metrics));
+    }
+
+    return metrics;
   }
 
   /**
@@ -151,9 +219,9 @@ export class SleepDiaryService {
   /**
    * Get entries for user
    */
-  getEntries(userId: string, days?: number): ISleepDiaryEntry[] {
-    const userEntries = this.entries.get(userId) || [];
-    if (!days) return userEntries;
+  async getEntries(userId: string, days?: number): Promise<ISleepDiaryEntry[]> {
+    const userEntries = await this.loadUserEntries(userId);
+    if (!days) return [...userEntries];
 
     const cutoffDate = new Date();
     cutoffDate.setDate(cutoffDate.getDate() - days);
@@ -164,8 +232,8 @@ export class SleepDiaryService {
   /**
    * Calculate weekly summary
    */
-  calculateWeeklySummary(userId: string, weekStart: string): IWeeklySleepSummary {
-    const weekEntries = this.getEntriesForWeek(userId, weekStart);
+  async calculateWeeklySummary(userId: string, weekStart: string): Promise<IWeeklySleepSummary> {
+    const weekEntries = await this.getEntriesForWeek(userId, weekStart);
     const metrics = weekEntries.map(e => this.calculateMetrics(e));
 
     const weekEnd = new Date(weekStart);
@@ -216,8 +284,8 @@ export class SleepDiaryService {
   /**
    * Analyze sleep patterns
    */
-  analyzePatterns(userId: string): ISleepPatternAnalysis {
-    const entries = this.getEntries(userId, 14);
+  async analyzePatterns(userId: string): Promise<ISleepPatternAnalysis> {
+    const entries = await this.getEntries(userId, 14);
     const metrics = entries.map(e => this.calculateMetrics(e));
 
     if (entries.length < this.config.minimumEntriesForAnalysis) {
@@ -249,8 +317,10 @@ export class SleepDiaryService {
       avgSE: Math.round(avgSE),
     };
 
+    const lifestyle = this.summarizeLifestyle(entries);
+
     // Identify issues
-    const issues = this.identifyIssues(entries, metrics);
+    const issues = this.identifyIssues(entries, metrics, lifestyle);
 
     return {
       userId,
@@ -269,6 +339,7 @@ export class SleepDiaryService {
         estimatedChronotype,
       },
       insomnia,
+      lifestyle,
       issues,
     };
   }
@@ -276,8 +347,8 @@ export class SleepDiaryService {
   /**
    * Calculate Insomnia Severity Index (ISI) from diary data
    */
-  estimateISI(userId: string): number {
-    const entries = this.getEntries(userId, 14);
+  async estimateISI(userId: string): Promise<number> {
+    const entries = await this.getEntries(userId, 14);
     if (entries.length < 7) return -1; // Not enough data
 
     const metrics = entries.map(e => this.calculateMetrics(e));
@@ -293,8 +364,12 @@ export class SleepDiaryService {
     // Difficulty staying asleep (based on WASO)
     const q2 = avgWASO < 15 ? 0 : avgWASO < 30 ? 1 : avgWASO < 45 ? 2 : avgWASO < 60 ? 3 : 4;
 
-    // Early morning awakening (estimate based on overall)
-    const q3 = avgSE > 90 ? 0 : avgSE > 85 ? 1 : avgSE > 75 ? 2 : avgSE > 65 ? 3 : 4;
+    // Early morning awakening (reported when available, otherwise estimated from SE)
+    const earlyAwakening = this.reported(entries, e => e.earlyAwakeningMinutes);
+    const avgEMA = this.average(earlyAwakening);
+    const q3 = earlyAwakening.length > 0
+      ? avgEMA < 15 ? 0 : avgEMA < 30 ? 1 : avgEMA < 45 ? 2 : avgEMA < 60 ? 3 : 4
+      : avgSE > 90 ? 0 : avgSE > 85 ? 1 : avgSE > 75 ? 2 : avgSE > 65 ? 3 : 4;
 
     // Satisfaction (from quality ratings)
     const qualityAvg = this.average(entries.map(e =>
@@ -386,12 +461,83 @@ export class SleepDiaryService {
     return 'severe';
   }
 
-  private getEntriesForWeek(userId: string, weekStart: string): ISleepDiaryEntry[] {
-    const entries = this.entries.get(userId) || [];
+  /**
+   * Get cached entries for user, loading history from the repository on a miss
+   */
+  private async loadUserEntries(userId: string): Promise<ISleepDiaryEntry[]> {
+    const cached = this.entries.get(userId);
+    if (cached) {
+      if (this.repository) {
+        // Refresh LRU position
+        this.entries.delete(userId);
+        this.entries.set(userId, cached);
+      }
+      return cached;
+    }
+
+    if (!this.repository) {
+      const created: ISleepDiaryEntry[] = [];
+      this.entries.set(userId, created);
+      return created;
+    }
+
+    const pending = this.loading.get(userId);
+    if (pending) return pending;
+
+    const load = this.fetchHistory(userId)
+      .then(loaded => {
+        this.entries.set(userId, loaded);
+        this.evictIfNeeded();
+        return loaded;
+      })
+      .finally(() => this.loading.delete(userId));
+    this.loading.set(userId, load);
+    return load;
+  }
+
+  private async fetchHistory(userId: string): Promise<ISleepDiaryEntry[]> {
+    const start = new Date();
+    start.setDate(start.getDate() - this.config.historyDays);
+    const end = new Date();
+    end.setDate(end.getDate() + 1);
+
+    const entities = await this.repository!.findByUserAndDateRange(
+      userId,
+      start.toISOString().split('T')[0],
+      end.toISOString().split('T')[0]
+    );
+    return entities.map(entityToEntry);
+  }
+
+  private evictIfNeeded(): void {
+    while (this.entries.size > this.config.maxCachedUsers) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  private async getEntriesForWeek(userId: string, weekStart: string): Promise<ISleepDiaryEntry[]> {
     const start = new Date(weekStart);
     const end = new Date(weekStart);
     end.setDate(end.getDate() + 7);
 
+    // Weeks older than the cached window are read straight from the repository
+    const windowStart = new Date();
+    windowStart.setDate(windowStart.getDate() - this.config.historyDays);
+    if (this.repository && start < windowStart) {
+      const lastDay = new Date(end);
+      lastDay.setDate(lastDay.getDate() - 1);
+      const entities = await this.repository.findByUserAndDateRange(
+        userId,
+        weekStart,
+        lastDay.toISOString().split('T')[0]
+      );
+      return entities.map(entityToEntry);
+    }
+
+    const entries = await this.loadUserEntries(userId);
+
     return entries.filter(e => {
       const date = new Date(e.date);
       return date >= start && date < end;
@@ -424,9 +570,53 @@ export class SleepDiaryService {
     return recommendations;
   }
 
+  /**
+   * Summarize the Consensus Sleep Diary items over the nights they were reported
+   */
+  private summarizeLifestyle(entries: ISleepDiaryEntry[]): ISleepPatternAnalysis['lifestyle'] {
+    const averageOrNull = (values: number[]) =>
+      values.length > 0 ? Math.round(this.average(values) * 10) / 10 : null;
+
+    return {
+      nightsReported: entries.filter(e =>
+        e.napMinutes !== undefined ||
+        e.caffeineDrinks !== undefined ||
+        e.alcoholDrinks !== undefined ||
+        e.sleepMedications !== undefined ||
+        e.earlyAwakeningMinutes !== undefined ||
+        e.exerciseTiming !== undefined
+      ).length,
+      avgNapMinutes: averageOrNull(this.reported(entries, e => e.napMinutes)),
+      avgCaffeineDrinks: averageOrNull(this.reported(entries, e => e.caffeineDrinks)),
+      avgAlcoholDrinks: averageOrNull(this.reported(entries, e => e.alcoholDrinks)),
+      lateCaffeineNights: entries.filter(e => this.hadLateCaffeine(e)).length,
+      hypnoticNights: entries.filter(e =>
+        (e.sleepMedications ?? []).some(m => m.type === 'hypnotic')
+      ).length,
+      avgEarlyAwakeningMinutes: averageOrNull(this.reported(entries, e => e.earlyAwakeningMinutes)),
+    };
+  }
+
+  /**
+   * Caffeine within the cutoff before bedtime (the previous evening)
+   */
+  private hadLateCaffeine(entry: ISleepDiaryEntry): boolean {
+    if (!entry.caffeineDrinks || !entry.lastCaffeineTime) return false;
+    const gap = (this.timeToMinutes(entry.bedtime) - this.timeToMinutes(entry.lastCaffeineTime) + 24 * 60) % (24 * 60);
+    return gap < this.config.caffeineCutoffMinutes;
+  }
+
+  private reported(
+    entries: ISleepDiaryEntry[],
+    pick: (entry: ISleepDiaryEntry) => number | undefined
+  ): number[] {
+    return entries.map(pick).filter((v): v is number => v !== undefined);
+  }
+
   private identifyIssues(
     entries: ISleepDiaryEntry[],
-    metrics: ISleepMetrics[]
+    metrics: ISleepMetrics[],
+    lifestyle: ISleepPatternAnalysis['lifestyle']
   ): ISleepPatternAnalysis['issues'] {
     const issues: ISleepPatternAnalysis['issues'] = [];
 
@@ -475,15 +665,106 @@ export class SleepDiaryService {
       });
     }
 
+    // Any hypnotic use is flagged: tapering is planned with the prescriber
+    if (lifestyle.hypnoticNights > 0) {
+      issues.push({
+        id: 'hypnotic_use',
+        description: 'Приём снотворных (план снижения обсуждается с врачом)',
+        frequency: Math.round((lifestyle.hypnoticNights / entries.length) * 100),
+        severity: lifestyle.hypnoticNights > entries.length * 0.5 ? 'high' : 'medium',
+      });
+    }
+
+    // Check for caffeine close to bedtime
+    if (lifestyle.lateCaffeineNights > entries.length * 0.25) {
+      issues.push({
+        id: 'late_caffeine',
+        description: 'Кофеин менее чем за 6 часов до сна',
+        frequency: Math.round((lifestyle.lateCaffeineNights / entries.length) * 100),
+        severity: lifestyle.lateCaffeineNights > entries.length * 0.5 ? 'high' : 'medium',
+      });
+    }
+
     return issues;
   }
 }
 
+// ==========================================================================
+// Entity mapping
+// ==========================================================================
+
+const QUALITY_SCALE: readonly SleepQualityRating[] = [
+  'very_poor',
+  'poor',
+  'fair',
+  'good',
+  'excellent',
+];
+
+function entryToEntity(
+  entry: ISleepDiaryEntry,
+  metrics: ISleepMetrics
+): Omit<ISleepDiaryEntryEntity, 'id' | 'createdAt' | 'updatedAt'> {
+  return {
+    userId: entry.userId,
+    date: entry.date,
+    bedtime: entry.bedtime,
+    lightsOffTime: entry.lightsOffTime,
+    sleepOnsetLatency: entry.sleepOnsetLatency,
+    wakeTime: entry.finalAwakening,
+    outOfBedTime: entry.outOfBedTime,
+    nightAwakenings: entry.numberOfAwakenings,
+    wakeAfterSleepOnset: entry.wakeAfterSleepOnset,
+    totalSleepTime: metrics.totalSleepTime,
+    timeInBed: metrics.timeInBed,
+    sleepEfficiency: metrics.sleepEfficiency,
+    sleepQuality: QUALITY_SCALE.indexOf(entry.subjectiveQuality) + 1 || 3,
+    morningMood: entry.morningAlertness,
+    notes: entry.notes,
+    napCount: entry.napCount,
+    napMinutes: entry.napMinutes,
+    caffeineDrinks: entry.caffeineDrinks,
+    lastCaffeineTime: entry.lastCaffeineTime,
+    alcoholDrinks: entry.alcoholDrinks,
+    sleepMedications: entry.sleepMedications,
+    earlyAwakeningMinutes: entry.earlyAwakeningMinutes,
+    exerciseTiming: entry.exerciseTiming,
+    deletedAt: null,
+  };
+}
+
+function entityToEntry(entity: ISleepDiaryEntryEntity): ISleepDiaryEntry {
+  const qualityIndex = Math.min(Math.max(Math.round(entity.sleepQuality), 1), 5) - 1;
+  return {
+    userId: entity.userId,
+    date: entity.date,
+    bedtime: entity.bedtime,
+    lightsOffTime: entity.lightsOffTime,
+    sleepOnsetLatency: entity.sleepOnsetLatency,
+    numberOfAwakenings: entity.nightAwakenings,
+    wakeAfterSleepOnset: entity.wakeAfterSleepOnset,
+    finalAwakening: entity.wakeTime,
+    outOfBedTime: entity.outOfBedTime,
+    subjectiveQuality: QUALITY_SCALE[qualityIndex],
+    morningAlertness: entity.morningMood,
+    notes: entity.notes,
+    napCount: entity.napCount,
+    napMinutes: entity.napMinutes,
+    caffeineDrinks: entity.caffeineDrinks,
+    lastCaffeineTime: entity.lastCaffeineTime,
+    alcoholDrinks: entity.alcoholDrinks,
+    sleepMedications: entity.sleepMedications,
+    earlyAwakeningMinutes: entity.earlyAwakeningMinutes,
+    exerciseTiming: entity.exerciseTiming,
+  };
+}
+
 /**
  * Factory function
  */
 export function createSleepDiaryService(
-  config?: Partial<ISleepDiaryConfig>
+  config?: Partial<ISleepDiaryConfig>,
+  repository?: ISleepDiaryRepository
 ): SleepDiaryService {
-  return new SleepDiaryService(config);
+  return new SleepDiaryService(config, repository);
 }
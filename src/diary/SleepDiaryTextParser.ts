@@ -0,0 +1,115 @@
+/**
+ * SleepDiaryTextParser - Diary Entries from Free Text
+ * ===================================================
+ * Turns messages and voice transcripts like "лёг в полночь, уснул через час,
+ * проснулся в 4 и больше не спал" into a partial sleep diary entry.
+ *
+ * Extraction runs in @cognicore/engine (SleepEntityExtractor, Russian and
+ * English); this module maps it onto ISleepDiaryEntry. An entry is offered
+ * for confirmation only when bedtime and final awakening were both found.
+ * Unreported latency and awakenings get the same defaults as /diary.
+ *
+ * @packageDocumentation
+ * @module @sleepcore/diary
+ */
+
+import { createSleepEntityExtractor, type SleepEntityExtractor } from '@cognicore/engine';
+import type {
+  ISleepDiaryEntry,
+  SleepQualityRating,
+} from '../sleep/interfaces/ISleepState';
+
+/**
+ * Diary items found in a text
+ */
+export interface ISleepDiaryTextParse {
+  /** Items found, named as in ISleepDiaryEntry */
+  readonly entry: Partial<ISleepDiaryEntry>;
+  /** Names of the items found */
+  readonly fields: ReadonlyArray<keyof ISleepDiaryEntry>;
+  /** Bedtime and final awakening are known, so an entry can be saved */
+  readonly isComplete: boolean;
+}
+
+const QUALITY_RATINGS: readonly SleepQualityRating[] = ['very_poor', 'poor', 'fair', 'good', 'excellent'];
+
+/**
+ * Free-text sleep diary parser
+ */
+export class SleepDiaryTextParser {
+  private readonly extractor: SleepEntityExtractor = createSleepEntityExtractor();
+
+  /**
+   * Extract diary items from a message or transcript
+   */
+  parse(text: string): ISleepDiaryTextParse {
+    const report = this.extractor.toSleepReport(this.extractor.extract(text));
+
+    const entry: Partial<ISleepDiaryEntry> = {};
+    for (const [key, value] of Object.entries(report)) {
+      if (value !== undefined) {
+        (entry as Record<string, unknown>)[key] = value;
+      }
+    }
+
+    return {
+      entry,
+      fields: Object.keys(entry) as Array<keyof ISleepDiaryEntry>,
+      isComplete: entry.bedtime !== undefined && entry.finalAwakening !== undefined,
+    };
+  }
+
+  /**
+   * Complete a parsed entry with the user's quality rating
+   * @param quality - Sleep quality 1-5 (also used as morning alertness)
+   * @throws If bedtime or final awakening is missing
+   */
+  toEntry(
+    partial: Partial<ISleepDiaryEntry>,
+    userId: string,
+    date: string,
+    quality: number
+  ): ISleepDiaryEntry {
+    if (!partial.bedtime || !partial.finalAwakening) {
+      throw new Error('Bedtime and final awakening are required');
+    }
+
+    const rating = Math.min(Math.max(Math.round(quality), 1), 5);
+    const outOfBedTime = partial.outOfBedTime ?? partial.finalAwakening;
+    const numberOfAwakenings = partial.numberOfAwakenings ?? 1;
+
+    return {
+      ...partial,
+      userId,
+      date,
+      bedtime: partial.bedtime,
+      lightsOffTime: partial.lightsOffTime ?? partial.bedtime,
+      sleepOnsetLatency: partial.sleepOnsetLatency ?? 15,
+      numberOfAwakenings,
+      wakeAfterSleepOnset: partial.wakeAfterSleepOnset
+        ?? (numberOfAwakenings > 0 ? Math.round(this.minutesBetween(partial.bedtime, outOfBedTime) * 0.1) : 0),
+      finalAwakening: partial.finalAwakening,
+      outOfBedTime,
+      subjectiveQuality: QUALITY_RATINGS[rating - 1],
+      morningAlertness: rating,
+    };
+  }
+
+  /**
+   * Minutes from one clock time to the next occurrence of another
+   */
+  private minutesBetween(from: string, to: string): number {
+    const toMinutes = (time: string) => {
+      const [hours, minutes] = time.split(':').map(Number);
+      return hours * 60 + minutes;
+    };
+    return (toMinutes(to) - toMinutes(from) + 24 * 60) % (24 * 60);
+  }
+}
+
+/**
+ * Create free-text sleep diary parser
+ */
+export function createSleepDiaryTextParser(): SleepDiaryTextParser {
+  return new SleepDiaryTextParser();
+}
@@ -43,6 +43,9 @@ export type {
   ISleepBehaviors,
   ISleepCognitions,
   ISleepDiaryEntry,
+  ISleepMedicationDose,
+  SleepMedicationType,
+  ExerciseTiming,
   IWearableSleepData,
   ISleepStateBuilder,
   ISleepStateFactory,
@@ -99,6 +102,8 @@ export type {
   IWeeklySleepSummary,
   ISleepPatternAnalysis,
 } from './diary/SleepDiaryService';
+export { SleepDiaryTextParser, createSleepDiaryTextParser } from './diary/SleepDiaryTextParser';
+export type { ISleepDiaryTextParse } from './diary/SleepDiaryTextParser';
 
 // ============= Platform (POMDP) =============
 export { SleepCorePOMDP } from './platform/SleepCorePOMDP';
@@ -268,14 +273,14 @@ export const BUILD_DATE = new Date().toISOString().split('T')[0];
  *
  * // Add diary entries for 7 days (baseline)
  * for (const entry of baselineEntries) {
- *   sleepCore.addDiaryEntry(entry);
+ *   await sleepCore.addDiaryEntry(entry);
  * }
  *
  * // Initialize treatment
  * const plan = sleepCore.initializeTreatment('user123', baselineStates);
  *
  * // Daily check-in
- * const result = sleepCore.processDailyCheckIn({
+ * const result = await sleepCore.processDailyCheckIn({
  *   userId: 'user123',
  *   date: '2025-01-15',
  *   diaryEntry: todayEntry,
@@ -0,0 +1,619 @@
+/**
+ * CognitiveCorePersistence - SQL Adapters for CognitiveCoreAPI
+ * ============================================================
+ *
+ * Event store, state repository and session repository implementing the
+ * @cognicore/engine persistence interfaces over IDatabaseConnection, so
+ * engine state, belief history and domain events survive restarts.
+ * Works with both SQLite and PostgreSQL (tables from migration 017).
+ *
+ * Features:
+ * - Append-only event streams with optimistic concurrency
+ *   (expectedVersion checked against getStreamVersion, UNIQUE(stream_id, version))
+ * - Appended events published to the API's event bus
+ * - State and belief snapshots with bounded history per user
+ * - Dates and Maps (BeliefState distributions) preserved through JSON
+ * - Projection state and checkpoints for the engine's ProjectionRunner
+ *   (migration 018)
+ *
+ * Usage:
+ * ```typescript
+ * import { createCognitiveCorePersistence } from './infrastructure/database';
+ *
+ * const api = await createCognitiveCoreAPI({
+ *   persistence: createCognitiveCorePersistence(db),
+ * });
+ * ```
+ *
+ * @packageDocumentation
+ * @module @sleepcore/infrastructure/database
+ */
+
+import type {
+  BeliefUpdateState,
+  EventHandler,
+  ICognitiveCorePersistence,
+  IDomainEvent,
+  IEventBus,
+  IEventStore,
+  IEventSubscription,
+  IProjectionSnapshot,
+  IProjectionStore,
+  ISessionRepository,
+  IStateRepository,
+  IStateVector,
+  IStoredEvent,
+  IUserSession,
+} from '@cognicore/engine';
+import type { IDatabaseConnection } from '../interfaces/IDatabaseConnection';
+
+// ============================================================================
+// Rows
+// ============================================================================
+
+/**
+ * Event row in database
+ */
+interface CognitiveEventRow {
+  id: number;
+  stream_id: string;
+  stream_version: number;
+  event_id: string;
+  event_type: string;
+  aggregate_id: string;
+  aggregate_type: IDomainEvent['aggregateType'];
+  event_version: number;
+  payload_json: string;
+  metadata_json: string;
+  occurred_at: string;
+}
+
+/**
+ * State or belief snapshot row in database
+ */
+interface CognitiveStateRow {
+  data_json: string;
+  recorded_at: string;
+}
+
+/**
+ * Session row in database
+ */
+interface CognitiveSessionRow {
+  session_json: string;
+}
+
+/**
+ * Projection row in database
+ */
+interface CognitiveProjectionRow {
+  projection_name: string;
+  version: number;
+  position: number | string;
+  state_json: string;
+  checkpointed_at: string;
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/**
+ * Configuration for the SQL persistence adapters
+ */
+export interface ICognitiveCorePersistenceConfig {
+  /** State and belief snapshots kept per user (default: 100, as in memory) */
+  readonly stateHistoryLimit?: number;
+
+  /** Attempts for appends without expectedVersion that lose a version race */
+  readonly appendRetries?: number;
+}
+
+/**
+ * Default configuration
+ */
+const DEFAULT_CONFIG: Required<ICognitiveCorePersistenceConfig> = {
+  stateHistoryLimit: 100,
+  appendRetries: 3,
+};
+
+// ============================================================================
+// JSON Codec
+// ============================================================================
+
+/**
+ * Serialize engine data, tagging Dates and Maps so they can be restored
+ */
+function toJson(value: unknown): string {
+  return JSON.stringify(value, function (this: Record<string, unknown>, key, val: unknown) {
+    const raw = this[key];
+    if (raw instanceof Date) return { $date: raw.toISOString() };
+    if (raw instanceof Map) return { $map: Array.from(raw.entries()) };
+    return val;
+  });
+}
+
+/**
+ * Parse engine data written by toJson
+ */
+function fromJson<T>(json: string): T {
+  return JSON.parse(json, (_key, val: unknown) => {
+    if (val && typeof val === 'object' && !Array.isArray(val)) {
+      const tagged = val as { $date?: unknown; $map?: unknown };
+      if (typeof tagged.$date === 'string') return new Date(tagged.$date);
+      if (Array.isArray(tagged.$map)) return new Map(tagged.$map as Array<[unknown, unknown]>);
+    }
+    return val;
+  }) as T;
+}
+
+/**
+ * UNIQUE(stream_id, stream_version) violation: another writer appended first
+ * (SQLite "UNIQUE constraint failed", PostgreSQL code 23505)
+ */
+function isVersionConflict(error: unknown): boolean {
+  // Driver errors may come from another realm, so instanceof Error is not reliable
+  const { message, code } = (error ?? {}) as { message?: unknown; code?: unknown };
+  if (typeof message !== 'string' || !message.includes('stream_version')) return false;
+  return code === '23505' || message.includes('UNIQUE constraint failed');
+}
+
+// ============================================================================
+// Event Store
+// ============================================================================
+
+/**
+ * SQL event store
+ *
+ * Stream versions are 1-based positions; getStreamVersion returns the
+ * number of events in the stream, matching the in-memory store.
+ */
+export class SQLEventStore implements IEventStore {
+  private readonly config: Required<ICognitiveCorePersistenceConfig>;
+
+  /** Serializes appends: a connection holds one open transaction at a time */
+  private appendQueue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly db: IDatabaseConnection,
+    private readonly eventBus: IEventBus,
+    config?: ICognitiveCorePersistenceConfig
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  async append(
+    streamId: string,
+    event: IDomainEvent,
+    expectedVersion?: number
+  ): Promise<void> {
+    await this.appendMany(streamId, [event], expectedVersion);
+  }
+
+  async appendMany(
+    streamId: string,
+    events: IDomainEvent[],
+    expectedVersion?: number
+  ): Promise<void> {
+    if (events.length === 0) return;
+
+    const write = this.appendQueue.then(() => this.writeEvents(streamId, events, expectedVersion));
+    this.appendQueue = write.catch(() => undefined);
+    await write;
+
+    // Publish to event bus
+    for (const event of events) {
+      await this.eventBus.publish(event);
+    }
+  }
+
+  async readStream(
+    streamId: string,
+    fromVersion: number = 0,
+    count?: number
+  ): Promise<IDomainEvent[]> {
+    const params: unknown[] = [streamId, fromVersion];
+    let sql = `SELECT * FROM cognitive_events
+       WHERE stream_id = ? AND stream_version > ?
+       ORDER BY stream_version`;
+    if (count) {
+      sql += ' LIMIT ?';
+      params.push(count);
+    }
+
+    const rows = await this.db.query<CognitiveEventRow>(sql, params);
+    return rows.map((row) => this.rowToEvent(row));
+  }
+
+  async readByType(
+    eventType: string,
+    fromTimestamp?: Date,
+    toTimestamp?: Date
+  ): Promise<IDomainEvent[]> {
+    const conditions = ['event_type = ?'];
+    const params: unknown[] = [eventType];
+
+    if (fromTimestamp) {
+      conditions.push('occurred_at >= ?');
+      params.push(fromTimestamp.toISOString());
+    }
+    if (toTimestamp) {
+      conditions.push('occurred_at <= ?');
+      params.push(toTimestamp.toISOString());
+    }
+
+    const rows = await this.db.query<CognitiveEventRow>(
+      `SELECT * FROM cognitive_events
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY occurred_at, id`,
+      params
+    );
+    return rows.map((row) => this.rowToEvent(row));
+  }
+
+  /**
+   * Global position is the cognitive_events row ID. With concurrent
+   * PostgreSQL writers an ID may commit after a higher one, so readers
+   * should checkpoint only after appends have settled.
+   */
+  async readAll(
+    fromPosition: number = 0,
+    count?: number
+  ): Promise<IStoredEvent[]> {
+    const params: unknown[] = [fromPosition];
+    let sql = `SELECT * FROM cognitive_events WHERE id > ? ORDER BY id`;
+    if (count) {
+      sql += ' LIMIT ?';
+      params.push(count);
+    }
+
+    const rows = await this.db.query<CognitiveEventRow>(sql, params);
+    return rows.map((row) => ({
+      position: Number(row.id),
+      streamId: row.stream_id,
+      event: this.rowToEvent(row),
+    }));
+  }
+
+  async getStreamVersion(streamId: string): Promise<number> {
+    const row = await this.db.queryOne<{ version: number | string | null }>(
+      `SELECT MAX(stream_version) AS version FROM cognitive_events WHERE stream_id = ?`,
+      [streamId]
+    );
+    return Number(row?.version ?? 0);
+  }
+
+  subscribeToStream(
+    streamId: string,
+    handler: EventHandler
+  ): IEventSubscription {
+    // Subscribe to all events but filter by stream ID
+    return this.eventBus.subscribe('*', async (event) => {
+      if (event.aggregateId === streamId) {
+        await handler(event);
+      }
+    });
+  }
+
+  /**
+   * Insert events after the current stream version in one transaction.
+   * Losing a version race is retried when no version was expected,
+   * otherwise reported as a concurrency conflict.
+   */
+  private async writeEvents(
+    streamId: string,
+    events: IDomainEvent[],
+    expectedVersion?: number
+  ): Promise<void> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await this.db.transaction(async (tx) => {
+          const row = await tx.queryOne<{ version: number | string | null }>(
+            `SELECT MAX(stream_version) AS version FROM cognitive_events WHERE stream_id = ?`,
+            [streamId]
+          );
+          const current = Number(row?.version ?? 0);
+
+          if (expectedVersion !== undefined && current !== expectedVersion) {
+            throw new Error(
+              `Concurrency conflict: expected version ${expectedVersion}, actual ${current}`
+            );
+          }
+
+          for (let i = 0; i < events.length; i++) {
+            const event = events[i];
+            await tx.execute(
+              `INSERT INTO cognitive_events (
+                stream_id, stream_version, event_id, event_type, aggregate_id,
+                aggregate_type, event_version, payload_json, metadata_json, occurred_at
+              ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+              [
+                streamId,
+                current + i + 1,
+                event.eventId,
+                event.eventType,
+                event.aggregateId,
+                event.aggregateType,
+                event.version,
+                toJson(event.payload),
+                toJson(event.metadata),
+                event.timestamp.toISOString(),
+              ]
+            );
+          }
+        });
+        return;
+      } catch (error) {
+        if (!isVersionConflict(error)) throw error;
+        if (expectedVersion === undefined && attempt < this.config.appendRetries) continue;
+
+        const actual = await this.getStreamVersion(streamId);
+        throw new Error(
+          `Concurrency conflict: expected version ${expectedVersion ?? 'any'}, actual ${actual}`
+        );
+      }
+    }
+  }
+
+  private rowToEvent(row: CognitiveEventRow): IDomainEvent {
+    return {
+      eventId: row.event_id,
+      eventType: row.event_type,
+      aggregateId: row.aggregate_id,
+      aggregateType: row.aggregate_type,
+      timestamp: new Date(row.occurred_at),
+      version: row.event_version,
+      payload: fromJson<unknown>(row.payload_json),
+      metadata: fromJson<IDomainEvent['metadata']>(row.metadata_json),
+    };
+  }
+}
+
+// ============================================================================
+// State Repository
+// ============================================================================
+
+/**
+ * SQL state repository
+ *
+ * Every save is a snapshot; the newest snapshot is the current value.
+ */
+export class SQLStateRepository implements IStateRepository {
+  private readonly config: Required<ICognitiveCorePersistenceConfig>;
+
+  constructor(
+    private readonly db: IDatabaseConnection,
+    config?: ICognitiveCorePersistenceConfig
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  async getState(userId: string): Promise<IStateVector | null> {
+    const [latest] = await this.readSnapshots<IStateVector>(userId, 'state', 1);
+    return latest?.data ?? null;
+  }
+
+  async saveState(userId: string, state: IStateVector): Promise<void> {
+    await this.writeSnapshot(userId, 'state', state);
+  }
+
+  async getBelief(userId: string): Promise<BeliefUpdateState | null> {
+    const [latest] = await this.readSnapshots<BeliefUpdateState>(userId, 'belief', 1);
+    return latest?.data ?? null;
+  }
+
+  async saveBelief(userId: string, belief: BeliefUpdateState): Promise<void> {
+    await this.writeSnapshot(userId, 'belief', belief);
+  }
+
+  async getStateHistory(
+    userId: string,
+    limit: number = 50
+  ): Promise<Array<{ state: IStateVector; timestamp: Date }>> {
+    const snapshots = await this.readSnapshots<IStateVector>(userId, 'state', limit);
+    return snapshots.reverse().map((s) => ({ state: s.data, timestamp: s.timestamp }));
+  }
+
+  async getBeliefHistory(
+    userId: string,
+    limit: number = 50
+  ): Promise<Array<{ belief: BeliefUpdateState; timestamp: Date }>> {
+    const snapshots = await this.readSnapshots<BeliefUpdateState>(userId, 'belief', limit);
+    return snapshots.reverse().map((s) => ({ belief: s.data, timestamp: s.timestamp }));
+  }
+
+  async deleteUserData(userId: string): Promise<void> {
+    await this.db.execute(`DELETE FROM cognitive_state_history WHERE user_id = ?`, [userId]);
+  }
+
+  /**
+   * Newest snapshots first
+   */
+  private async readSnapshots<T>(
+    userId: string,
+    kind: 'state' | 'belief',
+    limit: number
+  ): Promise<Array<{ data: T; timestamp: Date }>> {
+    const rows = await this.db.query<CognitiveStateRow>(
+      `SELECT data_json, recorded_at FROM cognitive_state_history
+       WHERE user_id = ? AND kind = ?
+       ORDER BY id DESC LIMIT ?`,
+      [userId, kind, limit]
+    );
+    return rows.map((row) => ({
+      data: fromJson<T>(row.data_json),
+      timestamp: new Date(row.recorded_at),
+    }));
+  }
+
+  /**
+   * Insert a snapshot and keep the last stateHistoryLimit per user and kind
+   */
+  private async writeSnapshot(
+    userId: string,
+    kind: 'state' | 'belief',
+    data: unknown
+  ): Promise<void> {
+    await this.db.execute(
+      `INSERT INTO cognitive_state_history (user_id, kind, data_json, recorded_at)
+       VALUES (?, ?, ?, ?)`,
+      [userId, kind, toJson(data), new Date().toISOString()]
+    );
+    await this.db.execute(
+      `DELETE FROM cognitive_state_history
+       WHERE user_id = ? AND kind = ? AND id NOT IN (
+         SELECT id FROM cognitive_state_history
+         WHERE user_id = ? AND kind = ?
+         ORDER BY id DESC LIMIT ?
+       )`,
+      [userId, kind, userId, kind, this.config.stateHistoryLimit]
+    );
+  }
+}
+
+// ============================================================================
+// Session Repository
+// ============================================================================
+
+/**
+ * SQL session repository
+ */
+export class SQLSessionRepository implements ISessionRepository {
+  constructor(private readonly db: IDatabaseConnection) {}
+
+  async create(session: IUserSession): Promise<void> {
+    await this.db.execute(
+      `INSERT INTO cognitive_sessions (session_id, user_id, status, started_at, session_json)
+       VALUES (?, ?, ?, ?, ?)`,
+      [
+        session.sessionId,
+        session.userId,
+        session.status,
+        session.startedAt.toISOString(),
+        toJson(session),
+      ]
+    );
+  }
+
+  async getById(sessionId: string): Promise<IUserSession | null> {
+    const row = await this.db.queryOne<CognitiveSessionRow>(
+      `SELECT session_json FROM cognitive_sessions WHERE session_id = ?`,
+      [sessionId]
+    );
+    return row ? fromJson<IUserSession>(row.session_json) : null;
+  }
+
+  async getActiveSession(userId: string): Promise<IUserSession | null> {
+    const row = await this.db.queryOne<CognitiveSessionRow>(
+      `SELECT session_json FROM cognitive_sessions
+       WHERE user_id = ? AND status = 'active'
+       ORDER BY started_at DESC, id DESC LIMIT 1`,
+      [userId]
+    );
+    return row ? fromJson<IUserSession>(row.session_json) : null;
+  }
+
+  async update(session: IUserSession): Promise<void> {
+    await this.db.execute(
+      `UPDATE cognitive_sessions
+       SET status = ?, session_json = ?, updated_at = datetime('now')
+       WHERE session_id = ?`,
+      [session.status, toJson(session), session.sessionId]
+    );
+  }
+
+  async endSession(sessionId: string): Promise<void> {
+    const session = await this.getById(sessionId);
+    if (session) {
+      session.status = 'ended';
+      await this.update(session);
+    }
+  }
+
+  async getSessionHistory(userId: string, limit: number = 10): Promise<IUserSession[]> {
+    const rows = await this.db.query<CognitiveSessionRow>(
+      `SELECT session_json FROM cognitive_sessions
+       WHERE user_id = ?
+       ORDER BY started_at DESC, id DESC LIMIT ?`,
+      [userId, limit]
+    );
+    return rows.map((row) => fromJson<IUserSession>(row.session_json));
+  }
+}
+
+// ============================================================================
+// Projection Store
+// ============================================================================
+
+/**
+ * SQL projection store for the engine's ProjectionRunner
+ */
+export class SQLProjectionStore implements IProjectionStore {
+  constructor(private readonly db: IDatabaseConnection) {}
+
+  async load<TState>(projectionName: string): Promise<IProjectionSnapshot<TState> | null> {
+    const row = await this.db.queryOne<CognitiveProjectionRow>(
+      `SELECT * FROM cognitive_projections WHERE projection_name = ?`,
+      [projectionName]
+    );
+    if (!row) return null;
+
+    return {
+      checkpoint: {
+        projectionName: row.projection_name,
+        version: row.version,
+        position: Number(row.position),
+        updatedAt: new Date(row.checkpointed_at),
+      },
+      state: fromJson<TState>(row.state_json),
+    };
+  }
+
+  async save<TState>(snapshot: IProjectionSnapshot<TState>): Promise<void> {
+    const { checkpoint } = snapshot;
+    await this.db.execute(
+      `INSERT INTO cognitive_projections (
+        projection_name, version, position, state_json, checkpointed_at
+      ) VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(projection_name) DO UPDATE SET
+        version = excluded.version,
+        position = excluded.position,
+        state_json = excluded.state_json,
+        checkpointed_at = excluded.checkpointed_at,
+        updated_at = datetime('now')`,
+      [
+        checkpoint.projectionName,
+        checkpoint.version,
+        checkpoint.position,
+        toJson(snapshot.state),
+        checkpoint.updatedAt.toISOString(),
+      ]
+    );
+  }
+
+  async delete(projectionName: string): Promise<void> {
+    await this.db.execute(
+      `DELETE FROM cognitive_projections WHERE projection_name = ?`,
+      [projectionName]
+    );
+  }
+}
+
+// ============================================================================
+// Factory
+// ============================================================================
+
+/**
+ * Create SQL persistence adapters for ICognitiveCoreConfig.persistence.
+ * The event bus stays in memory; the event store publishes to it.
+ */
+export function createCognitiveCorePersistence(
+  db: IDatabaseConnection,
+  config?: ICognitiveCorePersistenceConfig
+): ICognitiveCorePersistence {
+  return {
+    eventStore: (eventBus: IEventBus) => new SQLEventStore(db, eventBus, config),
+    stateRepository: new SQLStateRepository(db, config),
+    sessionRepository: new SQLSessionRepository(db),
+  };
+}
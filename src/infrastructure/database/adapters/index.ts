@@ -2,7 +2,8 @@
  * Database Adapters
  * =================
  *
- * Adapters for integrating SQLite/PostgreSQL with external frameworks.
+ * Adapters for integrating SQLite/PostgreSQL with external frameworks
+ * (grammY sessions, @cognicore/engine CognitiveCoreAPI).
  *
  * @packageDocumentation
  * @module @sleepcore/infrastructure/database
@@ -14,3 +15,12 @@ export {
   type StorageAdapter,
   type IGrammySessionAdapterConfig,
 } from './GrammySessionAdapter';
+
+export {
+  SQLEventStore,
+  SQLStateRepository,
+  SQLSessionRepository,
+  SQLProjectionStore,
+  createCognitiveCorePersistence,
+  type ICognitiveCorePersistenceConfig,
+} from './CognitiveCorePersistence';
@@ -57,6 +57,24 @@ export type {
   IUserRepository,
   IVoiceDiaryEntryEntity,
   IVoiceDiaryRepository,
+  INotificationSubscriptionEntity,
+  INotificationSubscriptionRepository,
+  IAssessmentScheduleEntity,
+  IAssessmentScheduleRepository,
+  SleepWindowAdjustment,
+  ISleepWindowEntity,
+  ISleepWindowRepository,
+  WearableImportFormat,
+  IWearableSleepRecordEntity,
+  IWearableSleepRepository,
+  IAdverseEventEntity,
+  IAdverseEventFollowUpEntity,
+  ISafetyAlertEntity,
+  IAdverseEventRepository,
+  IPLRNNModelEntity,
+  IPLRNNModelRepository,
+  IMedicationTaperPlanEntity,
+  IMedicationTaperRepository,
 } from './interfaces/IRepository';
 
 export type {
@@ -66,6 +84,7 @@ export type {
   IAchievementEntity,
   IStreakEntity,
   IUserQuestEntity,
+  IGamificationMetricEntity,
   IInventoryEntity,
   IEquippedItemsEntity,
   IGamificationSettingsEntity,
@@ -128,6 +147,13 @@ export { AssessmentRepository } from './repositories/AssessmentRepository';
 export { TherapySessionRepository } from './repositories/TherapySessionRepository';
 export { GamificationRepository } from './repositories/GamificationRepository';
 export { VoiceDiaryRepository } from './repositories/VoiceDiaryRepository';
+export { NotificationSubscriptionRepository } from './repositories/NotificationSubscriptionRepository';
+export { AssessmentScheduleRepository } from './repositories/AssessmentScheduleRepository';
+export { SleepWindowRepository } from './repositories/SleepWindowRepository';
+export { WearableSleepRepository } from './repositories/WearableSleepRepository';
+export { AdverseEventRepository } from './repositories/AdverseEventRepository';
+export { PLRNNModelRepository } from './repositories/PLRNNModelRepository';
+export { MedicationTaperRepository } from './repositories/MedicationTaperRepository';
 
 // ============================================================================
 // Migrations
@@ -136,7 +162,7 @@ export { VoiceDiaryRepository } from './repositories/VoiceDiaryRepository';
 export { MIGRATIONS, getMigration, getLatestVersion } from './migrations';
 
 // ============================================================================
-// Adapters (Grammy Session Storage)
+// Adapters (Grammy Session Storage, Cognitive Core Persistence)
 // ============================================================================
 
 export {
@@ -144,6 +170,12 @@ export {
   createGrammySessionAdapter,
   type StorageAdapter,
   type IGrammySessionAdapterConfig,
+  SQLEventStore,
+  SQLStateRepository,
+  SQLSessionRepository,
+  SQLProjectionStore,
+  createCognitiveCorePersistence,
+  type ICognitiveCorePersistenceConfig,
 } from './adapters';
 
 // ============================================================================
@@ -118,6 +118,16 @@ export interface IUserQuestEntity extends IEntity {
   readonly objectivesJson: string;
 }
 
+/**
+ * Activity metric entity (badge criteria counters)
+ */
+export interface IGamificationMetricEntity extends IEntity {
+  readonly userId: number;
+  readonly metric: string;
+  readonly count: number;
+  readonly bestStreak: number;
+}
+
 /**
  * Inventory item entity
  */
@@ -356,6 +366,23 @@ export interface IGamificationRepository {
    */
   getCompletedQuestCount(userId: number): Promise<number>;
 
+  // ==================== METRICS ====================
+
+  /**
+   * Get all activity metrics for a user
+   */
+  getMetrics(userId: number): Promise<IGamificationMetricEntity[]>;
+
+  /**
+   * Add to an activity counter
+   */
+  incrementMetric(userId: number, metric: string, amount?: number): Promise<IGamificationMetricEntity>;
+
+  /**
+   * Record a streak for a metric (kept only if higher than the best so far)
+   */
+  recordMetricStreak(userId: number, metric: string, streak: number): Promise<IGamificationMetricEntity>;
+
   // ==================== INVENTORY ====================
 
   /**
@@ -490,6 +517,7 @@ export interface IGamificationRepository {
     achievements: IAchievementEntity[];
     streaks: IStreakEntity[];
     quests: IUserQuestEntity[];
+    metrics: IGamificationMetricEntity[];
     inventory: IInventoryEntity[];
     settings: IGamificationSettingsEntity | null;
   }>;
@@ -15,6 +15,12 @@
  */
 
 import type { IQueryOptions } from './IDatabaseConnection';
+import type {
+  ExerciseTiming,
+  ISleepMedicationDose,
+  IWearableSleepData,
+  SleepMedicationType,
+} from '../../../sleep/interfaces/ISleepState';
 
 /**
  * Base entity interface with audit fields
@@ -117,6 +123,7 @@ export interface IRepository<T extends IEntity, ID = number> {
  * Sleep diary entry entity
  */
 export interface ISleepDiaryEntryEntity extends IEntity {
+  /** Bot-level user ID (users.external_id) */
   readonly userId: string;
   readonly date: string;
   readonly bedtime: string;
@@ -132,6 +139,15 @@ export interface ISleepDiaryEntryEntity extends IEntity {
   readonly sleepQuality: number;
   readonly morningMood: number;
   readonly notes?: string;
+  // Consensus Sleep Diary items (migration 015), undefined when not reported
+  readonly napCount?: number;
+  readonly napMinutes?: number;
+  readonly caffeineDrinks?: number;
+  readonly lastCaffeineTime?: string;
+  readonly alcoholDrinks?: number;
+  readonly sleepMedications?: readonly ISleepMedicationDose[];
+  readonly earlyAwakeningMinutes?: number;
+  readonly exerciseTiming?: ExerciseTiming;
 }
 
 /**
@@ -183,6 +199,13 @@ export interface ISleepDiaryRepository extends IRepository<ISleepDiaryEntryEntit
     startDate: string,
     endDate: string
   ): Promise<number>;
+
+  /**
+   * Upsert entry (insert or update by user+date)
+   */
+  upsert(
+    entity: Omit<ISleepDiaryEntryEntity, 'id' | 'createdAt' | 'updatedAt'>
+  ): Promise<ISleepDiaryEntryEntity>;
 }
 
 /**
@@ -190,7 +213,9 @@ export interface ISleepDiaryRepository extends IRepository<ISleepDiaryEntryEntit
  */
 export interface IAssessmentEntity extends IEntity {
   readonly userId: string;
-  readonly type: 'isi' | 'meq' | 'mctq' | 'dbas' | 'tcm' | 'ayurveda';
+  readonly type:
+    | 'isi' | 'meq' | 'mctq' | 'dbas' | 'tcm' | 'ayurveda'
+    | 'psqi' | 'ess' | 'phq9' | 'gad7';
   readonly score: number;
   readonly severity?: string;
   readonly category?: string;
@@ -314,6 +339,8 @@ export interface IUserEntity extends IEntity {
   readonly consentGiven: boolean;
   readonly consentDate?: Date;
   readonly lastActivityAt?: Date;
+  /** Assessment protocol (study cohort); the default protocol when unset */
+  readonly assessmentProtocol?: string;
 }
 
 /**
@@ -398,3 +425,430 @@ export interface IVoiceDiaryRepository extends IRepository<IVoiceDiaryEntryEntit
     emotionBreakdown: Record<string, number>;
   }>;
 }
+
+/**
+ * Notification subscription entity
+ * Persisted state of ProactiveNotificationService per user
+ */
+export interface INotificationSubscriptionEntity extends IEntity {
+  /** Bot-level user ID (Telegram ID as string) */
+  readonly userId: string;
+  readonly chatId: number;
+  readonly userName?: string;
+  readonly enabled: boolean;
+  readonly morningTime: string;
+  readonly eveningTime: string;
+  readonly timezone: string;
+  readonly contextJson: string;
+  readonly firstInteractionAt: Date;
+  readonly lastNotificationAt?: Date;
+  readonly lastResponseAt?: Date;
+  readonly reengagementAttempts: number;
+  readonly lastSlotDatesJson: string;
+}
+
+/**
+ * Notification subscription repository interface
+ */
+export interface INotificationSubscriptionRepository
+  extends IRepository<INotificationSubscriptionEntity> {
+  /**
+   * Find subscription by bot-level user ID
+   */
+  findByUserId(userId: string): Promise<INotificationSubscriptionEntity | null>;
+
+  /**
+   * Find all enabled subscriptions (for rehydration on startup)
+   */
+  findEnabled(): Promise<INotificationSubscriptionEntity[]>;
+
+  /**
+   * Upsert subscription (insert or update by user ID)
+   */
+  upsert(
+    entity: Omit<INotificationSubscriptionEntity, 'id' | 'createdAt' | 'updatedAt'>
+  ): Promise<INotificationSubscriptionEntity>;
+
+  /**
+   * Disable subscription without losing its state
+   */
+  disable(userId: string): Promise<boolean>;
+}
+
+/**
+ * Assessment schedule entity
+ * Persisted state of ISISchedulingService per user and instrument
+ */
+export interface IAssessmentScheduleEntity extends IEntity {
+  /** Bot-level user ID (Telegram ID as string) */
+  readonly userId: string;
+  readonly instrument: IAssessmentEntity['type'];
+  readonly chatId: number;
+  readonly userName?: string;
+  readonly timezone: string;
+  readonly enrollmentDate: Date;
+  readonly lastCheckDate?: string;
+  readonly lastAssessmentDate?: Date;
+  readonly lastAssessmentWeek?: number;
+  readonly nextAssessmentWeek: number;
+  readonly reminderSent: boolean;
+  /** JSON array of { week, score, date, unscheduled? } */
+  readonly historyJson: string;
+  /** Assessment protocol the schedule follows */
+  readonly protocolId: string;
+  /** Follow-up reminders sent for the open timepoint */
+  readonly reminderCount: number;
+  /** JSON array of weeks closed without a response */
+  readonly missedWeeksJson: string;
+}
+
+/**
+ * Assessment schedule repository interface
+ */
+export interface IAssessmentScheduleRepository extends IRepository<IAssessmentScheduleEntity> {
+  /**
+   * Find schedule by user and instrument
+   */
+  findByUserAndInstrument(
+    userId: string,
+    instrument: IAssessmentScheduleEntity['instrument']
+  ): Promise<IAssessmentScheduleEntity | null>;
+
+  /**
+   * Find all active schedules for an instrument (for rehydration on startup)
+   */
+  findActiveByInstrument(
+    instrument: IAssessmentScheduleEntity['instrument']
+  ): Promise<IAssessmentScheduleEntity[]>;
+
+  /**
+   * Find all active schedules across instruments (for rehydration on startup)
+   */
+  findActive(): Promise<IAssessmentScheduleEntity[]>;
+
+  /**
+   * Upsert schedule (insert or update by user + instrument)
+   */
+  upsert(
+    entity: Omit<IAssessmentScheduleEntity, 'id' | 'createdAt' | 'updatedAt'>
+  ): Promise<IAssessmentScheduleEntity>;
+
+  /**
+   * Soft delete schedule by user and instrument
+   */
+  removeByUserAndInstrument(
+    userId: string,
+    instrument: IAssessmentScheduleEntity['instrument']
+  ): Promise<boolean>;
+
+  /**
+   * Soft delete all schedules of a user
+   */
+  removeByUser(userId: string): Promise<number>;
+}
+
+/**
+ * Sleep window adjustment direction
+ */
+export type SleepWindowAdjustment = 'initial' | 'increase' | 'decrease' | 'maintain';
+
+/**
+ * Sleep window entity
+ * One prescribed sleep restriction window (sleep_window_history row)
+ */
+export interface ISleepWindowEntity extends IEntity {
+  /** Database user ID (users.id) */
+  readonly userId: number;
+  readonly planId?: number;
+  readonly week: number;
+  /** Prescribed bedtime (HH:MM) */
+  readonly bedtime: string;
+  /** Prescribed wake time (HH:MM) */
+  readonly wakeTime: string;
+  /** Prescribed time in bed (minutes) */
+  readonly timeInBed: number;
+  readonly sleepEfficiencyTarget?: number;
+  /** Average SE that triggered this window (percent) */
+  readonly observedEfficiency?: number;
+  readonly adjustment: SleepWindowAdjustment;
+  readonly adjustmentReason?: string;
+}
+
+/**
+ * Sleep window repository interface
+ * Queries are keyed by the bot-level user ID (users.external_id)
+ */
+export interface ISleepWindowRepository extends IRepository<ISleepWindowEntity> {
+  /**
+   * Append a window for a bot user; returns null if the user is not registered
+   */
+  record(
+    externalId: string,
+    window: Omit<ISleepWindowEntity, 'id' | 'userId' | 'createdAt' | 'updatedAt'>
+  ): Promise<ISleepWindowEntity | null>;
+
+  /**
+   * Find the most recent window for a bot user
+   */
+  findCurrent(externalId: string): Promise<ISleepWindowEntity | null>;
+
+  /**
+   * Find windows for a bot user, newest first
+   */
+  findHistory(externalId: string, limit?: number): Promise<ISleepWindowEntity[]>;
+}
+
+/**
+ * File format a wearable night was imported from
+ */
+export type WearableImportFormat = 'apple_health_xml' | 'fitbit_json' | 'oura_json' | 'csv';
+
+/**
+ * Wearable sleep record entity
+ * One imported night per user, date and device source
+ */
+export interface IWearableSleepRecordEntity extends IEntity {
+  /** Bot-level user ID (Telegram ID as string) */
+  readonly userId: string;
+  /** Wake date (YYYY-MM-DD), same convention as the sleep diary */
+  readonly date: string;
+  readonly source: IWearableSleepData['source'];
+  readonly importFormat: WearableImportFormat;
+  /** Local bedtime / wake time (HH:MM) */
+  readonly bedtime: string;
+  readonly wakeTime: string;
+  /** Minutes */
+  readonly totalSleepTime: number;
+  /** Percent */
+  readonly sleepEfficiency: number;
+  /** JSON ISleepArchitecture (absent without stage data) */
+  readonly stagesJson?: string;
+  readonly heartRateAvg?: number;
+  readonly hrvAvg?: number;
+  readonly respiratoryRate?: number;
+  readonly skinTemperature?: number;
+  readonly importedAt: Date;
+}
+
+/**
+ * Wearable sleep record repository interface
+ */
+export interface IWearableSleepRepository extends IRepository<IWearableSleepRecordEntity> {
+  /**
+   * Find records by user and wake-date range (inclusive)
+   */
+  findByUserAndDateRange(
+    userId: string,
+    startDate: string,
+    endDate: string
+  ): Promise<IWearableSleepRecordEntity[]>;
+
+  /**
+   * Upsert record (insert or update by user + date + source)
+   */
+  upsert(
+    entity: Omit<IWearableSleepRecordEntity, 'id' | 'createdAt' | 'updatedAt'>
+  ): Promise<IWearableSleepRecordEntity>;
+}
+
+/**
+ * Adverse event report entity (CIOMS / ICH E2A fields)
+ * Classification values are stored as the AdverseEventService literals
+ */
+export interface IAdverseEventEntity extends IEntity {
+  /** Bot-level user ID (Telegram ID as string) */
+  readonly userId: string;
+  readonly userInternalId?: number;
+  /** JSON ICIOMSMinimumData */
+  readonly ciomsJson: string;
+  readonly reactionTerm: string;
+  readonly severity: string;
+  readonly isSerious: boolean;
+  /** JSON SeriousnessCriteria[] */
+  readonly seriousnessCriteriaJson?: string;
+  readonly expectedness: string;
+  readonly dtxCategory?: string;
+  readonly customTerm?: string;
+  readonly description: string;
+  readonly onsetDate: Date;
+  readonly resolutionDate?: Date;
+  readonly outcome: string;
+  readonly causality: string;
+  readonly actionTaken: string;
+  readonly currentIsi?: number;
+  readonly baselineIsi?: number;
+  readonly currentWeek?: number;
+  readonly reportStatus: string;
+  readonly regulatoryDeadline?: Date;
+  readonly submittedToRoszdravnadzor?: Date;
+  readonly submittedToEthics?: Date;
+  readonly reportedAt: Date;
+  readonly reportedBy: string;
+  readonly notes?: string;
+}
+
+/**
+ * Adverse event follow-up entity (append-only, numbered per report)
+ */
+export interface IAdverseEventFollowUpEntity extends IEntity {
+  readonly eventId: number;
+  /** 1-based follow-up number within the report */
+  readonly followUpNumber: number;
+  /** JSON object of changed report fields (new values) */
+  readonly changesJson: string;
+  readonly recordedAt: Date;
+}
+
+/**
+ * Safety alert entity
+ */
+export interface ISafetyAlertEntity extends IEntity {
+  readonly alertType: string;
+  readonly severity: string;
+  readonly userId: string;
+  readonly userDisplayName?: string;
+  readonly message: string;
+  readonly eventId?: number;
+  readonly acknowledged: boolean;
+  readonly acknowledgedBy?: string;
+  readonly acknowledgedAt?: Date;
+}
+
+/**
+ * Adverse event repository interface
+ * Reports via IRepository; follow-ups and safety alerts via dedicated methods
+ */
+export interface IAdverseEventRepository extends IRepository<IAdverseEventEntity> {
+  /**
+   * Find reports, newest first
+   */
+  findReports(filters?: {
+    userId?: string;
+    isSerious?: boolean;
+    reportStatus?: string;
+    /** Inclusive reported_at bounds */
+    reportedFrom?: Date;
+    reportedTo?: Date;
+  }): Promise<IAdverseEventEntity[]>;
+
+  /**
+   * Find reports with a deadline that are not yet closed or submitted to the regulator
+   */
+  findOpenWithDeadline(): Promise<IAdverseEventEntity[]>;
+
+  /**
+   * Append follow-up with the next number for the report
+   */
+  addFollowUp(eventId: number, changesJson: string, recordedAt: Date): Promise<IAdverseEventFollowUpEntity>;
+
+  /**
+   * Find follow-ups for a report in order
+   */
+  findFollowUps(eventId: number): Promise<IAdverseEventFollowUpEntity[]>;
+
+  /**
+   * Insert safety alert
+   */
+  insertAlert(
+    alert: Omit<ISafetyAlertEntity, 'id' | 'createdAt' | 'updatedAt'>
+  ): Promise<ISafetyAlertEntity>;
+
+  /**
+   * Find alerts in creation order (latest `limit` when given)
+   */
+  findAlerts(options?: { unacknowledgedOnly?: boolean; limit?: number }): Promise<ISafetyAlertEntity[]>;
+
+  /**
+   * Find unacknowledged alert of a type for a report
+   */
+  findOpenAlert(alertType: string, eventId: number): Promise<ISafetyAlertEntity | null>;
+
+  /**
+   * Acknowledge alert
+   * @returns false if the alert does not exist or is already acknowledged
+   */
+  acknowledgeAlert(id: number, acknowledgedBy: string, acknowledgedAt: Date): Promise<boolean>;
+}
+
+/**
+ * PLRNN model entity
+ * Population prior (model_key 'population') or a user's fine-tuned model
+ */
+export interface IPLRNNModelEntity extends IEntity {
+  /** 'population' or 'user:<userId>' */
+  readonly modelKey: string;
+  /** Bot-level user ID (Telegram ID as string), absent for the prior */
+  readonly userId?: string;
+  /** Incremented on every save */
+  readonly version: number;
+  /** JSON IPLRNNWeights */
+  readonly weightsJson: string;
+  /** JSON IPLRNNState (latest user state) */
+  readonly stateJson?: string;
+  readonly trainingSamples: number;
+  /** Absent until validated */
+  readonly validationLoss?: number;
+  readonly trainedAt: Date;
+}
+
+/**
+ * PLRNN model repository interface
+ */
+export interface IPLRNNModelRepository extends IRepository<IPLRNNModelEntity> {
+  /**
+   * Find active model by key
+   */
+  findByKey(modelKey: string): Promise<IPLRNNModelEntity | null>;
+
+  /**
+   * Insert or replace a model by key, incrementing its version
+   */
+  saveModel(
+    entity: Omit<IPLRNNModelEntity, 'id' | 'version' | 'createdAt' | 'updatedAt'>
+  ): Promise<IPLRNNModelEntity>;
+
+  /**
+   * Soft delete a user's model (GDPR)
+   */
+  deleteByUserId(userId: string): Promise<boolean>;
+}
+
+/**
+ * Medication taper plan entity
+ * Status and class values are stored as the MedicationTaperingService literals
+ */
+export interface IMedicationTaperPlanEntity extends IEntity {
+  /** Bot-level user ID (Telegram ID as string) */
+  readonly userId: string;
+  readonly medicationName: string;
+  readonly medicationType: SleepMedicationType;
+  readonly medicationClass: string;
+  readonly doseUnit: ISleepMedicationDose['unit'];
+  readonly startingDose: number;
+  /** Reduction per step, % of the starting dose */
+  readonly reductionPercent: number;
+  readonly stepIntervalDays: number;
+  readonly status: string;
+  /** Null clears the reason on update */
+  readonly holdReason?: string | null;
+  /** Index into the schedule of the dose currently taken */
+  readonly currentStep: number;
+  /** JSON ITaperStep[] */
+  readonly stepsJson: string;
+  readonly prescribedBy: string;
+}
+
+/**
+ * Medication taper plan repository interface
+ */
+export interface IMedicationTaperRepository extends IRepository<IMedicationTaperPlanEntity> {
+  /**
+   * Find the user's active or on-hold plan
+   */
+  findOpenByUser(userId: string): Promise<IMedicationTaperPlanEntity | null>;
+
+  /**
+   * Find all of a user's plans, newest first
+   */
+  findByUser(userId: string): Promise<IMedicationTaperPlanEntity[]>;
+}
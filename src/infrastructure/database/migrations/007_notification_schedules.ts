@@ -0,0 +1,101 @@
+/**
+ * Migration 007 - Notification Subscriptions & Assessment Schedules
+ * ==================================================================
+ *
+ * Creates tables backing ProactiveNotificationService and ISISchedulingService.
+ * Without them every restart drops all reminder subscriptions and the
+ * week 2/4/6/8/12 ISI follow-up state.
+ *
+ * Both tables are keyed by the bot-level user ID (Telegram ID as string),
+ * which is how the scheduling services identify users.
+ *
+ * Features:
+ * - Per-user timezone and delivery times
+ * - Dispatch dedupe state (last slot dates, last check date)
+ * - ISI score history per enrollment
+ * - Soft delete support
+ *
+ * @packageDocumentation
+ * @module @sleepcore/infrastructure/database
+ */
+
+import type { IMigration } from '../interfaces/IDatabaseConnection';
+
+export const migration007: IMigration = {
+  version: 7,
+  name: 'notification_schedules',
+
+  up: `
+    -- Proactive notification subscriptions
+    CREATE TABLE IF NOT EXISTS notification_subscriptions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id TEXT NOT NULL UNIQUE,
+      chat_id INTEGER NOT NULL,
+      user_name TEXT,
+
+      -- Preferences
+      enabled INTEGER NOT NULL DEFAULT 1,
+      morning_time TEXT NOT NULL DEFAULT '08:00',
+      evening_time TEXT NOT NULL DEFAULT '20:00',
+      timezone TEXT NOT NULL DEFAULT 'Europe/Moscow',
+
+      -- Personalization context (JSON)
+      context_json TEXT NOT NULL DEFAULT '{}',
+
+      -- Engagement tracking (Meta 14-day rule)
+      first_interaction_at TEXT NOT NULL,
+      last_notification_at TEXT,
+      last_response_at TEXT,
+      reengagement_attempts INTEGER NOT NULL DEFAULT 0,
+
+      -- Dispatch dedupe: local date per slot (JSON)
+      last_slot_dates_json TEXT NOT NULL DEFAULT '{}',
+
+      -- Standard audit fields
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+      deleted_at TEXT
+    );
+
+    -- Assessment schedules (ISI biweekly protocol)
+    CREATE TABLE IF NOT EXISTS assessment_schedules (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id TEXT NOT NULL,
+      instrument TEXT NOT NULL DEFAULT 'isi',
+      chat_id INTEGER NOT NULL,
+      user_name TEXT,
+      timezone TEXT NOT NULL DEFAULT 'Europe/Moscow',
+
+      -- Schedule state
+      enrollment_date TEXT NOT NULL,
+      last_check_date TEXT,
+      last_assessment_date TEXT,
+      last_assessment_week INTEGER,
+      next_assessment_week INTEGER NOT NULL DEFAULT 0,
+      reminder_sent INTEGER NOT NULL DEFAULT 0,
+
+      -- Score history (JSON array of { week, score, date })
+      history_json TEXT NOT NULL DEFAULT '[]',
+
+      -- Standard audit fields
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+      deleted_at TEXT,
+
+      UNIQUE(user_id, instrument)
+    );
+
+    -- Performance indexes
+    CREATE INDEX IF NOT EXISTS idx_notification_subs_enabled ON notification_subscriptions(enabled, deleted_at);
+    CREATE INDEX IF NOT EXISTS idx_assessment_schedules_user ON assessment_schedules(user_id);
+    CREATE INDEX IF NOT EXISTS idx_assessment_schedules_deleted ON assessment_schedules(deleted_at);
+  `,
+
+  down: `
+    DROP INDEX IF EXISTS idx_assessment_schedules_deleted;
+    DROP INDEX IF EXISTS idx_assessment_schedules_user;
+    DROP INDEX IF EXISTS idx_notification_subs_enabled;
+    DROP TABLE IF EXISTS assessment_schedules;
+    DROP TABLE IF EXISTS notification_subscriptions;
+  `,
+};
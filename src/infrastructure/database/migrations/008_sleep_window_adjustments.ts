@@ -0,0 +1,49 @@
+/**
+ * Migration 008 - Sleep Window Adjustments
+ * =========================================
+ *
+ * Extends sleep_window_history (migration 002) so each row records why the
+ * window was set: the observed sleep efficiency that triggered the change
+ * and the direction of the adjustment.
+ *
+ * The table previously had no writer; SleepCoreAPI now appends a row every
+ * time the sleep restriction prescription is created or re-evaluated, and
+ * the mini-app API reads it to show the current window and its history.
+ *
+ * Features:
+ * - Observed SE alongside the SE target
+ * - Adjustment direction (initial / increase / decrease / maintain)
+ * - Standard audit fields for BaseRepository (updated_at, deleted_at)
+ *
+ * @packageDocumentation
+ * @module @sleepcore/infrastructure/database
+ */
+
+import type { IMigration } from '../interfaces/IDatabaseConnection';
+
+export const migration008: IMigration = {
+  version: 8,
+  name: 'sleep_window_adjustments',
+
+  up: `
+    -- Adjustment context
+    ALTER TABLE sleep_window_history ADD COLUMN observed_efficiency REAL;
+    ALTER TABLE sleep_window_history ADD COLUMN adjustment TEXT NOT NULL DEFAULT 'initial'
+      CHECK (adjustment IN ('initial', 'increase', 'decrease', 'maintain'));
+
+    -- Standard audit fields
+    ALTER TABLE sleep_window_history ADD COLUMN updated_at TEXT;
+    ALTER TABLE sleep_window_history ADD COLUMN deleted_at TEXT;
+
+    -- Latest window per user
+    CREATE INDEX IF NOT EXISTS idx_window_user_created ON sleep_window_history(user_id, created_at);
+  `,
+
+  down: `
+    DROP INDEX IF EXISTS idx_window_user_created;
+    ALTER TABLE sleep_window_history DROP COLUMN deleted_at;
+    ALTER TABLE sleep_window_history DROP COLUMN updated_at;
+    ALTER TABLE sleep_window_history DROP COLUMN adjustment;
+    ALTER TABLE sleep_window_history DROP COLUMN observed_efficiency;
+  `,
+};
@@ -0,0 +1,64 @@
+/**
+ * Migration 009 - Questionnaire Types
+ * ====================================
+ *
+ * Extends the assessments.type CHECK constraint (migration 001) with the
+ * instruments delivered by the generic questionnaire engine: PSQI, ESS,
+ * PHQ-9 and GAD-7. DBAS-16 results use the existing 'dbas' type.
+ *
+ * SQLite cannot alter a CHECK constraint in place, so the table is rebuilt
+ * and its rows and indexes are carried over. Rows keep their ids; on
+ * PostgreSQL the migration converter advances the id sequence past them.
+ *
+ * @packageDocumentation
+ * @module @sleepcore/infrastructure/database
+ */
+
+import type { IMigration } from '../interfaces/IDatabaseConnection';
+
+const rebuildAssessments = (types: readonly string[]): string => `
+    CREATE TABLE assessments_rebuild (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL,
+      type TEXT NOT NULL CHECK(type IN (${types.map((type) => `'${type}'`).join(', ')})),
+      score REAL NOT NULL,
+      severity TEXT,
+      category TEXT,
+      responses_json TEXT NOT NULL,
+      interpretation TEXT,
+      assessed_at TEXT NOT NULL DEFAULT (datetime('now')),
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+      deleted_at TEXT,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    );
+
+    INSERT INTO assessments_rebuild
+      (id, user_id, type, score, severity, category, responses_json, interpretation,
+       assessed_at, created_at, updated_at, deleted_at)
+    SELECT id, user_id, type, score, severity, category, responses_json, interpretation,
+           assessed_at, created_at, updated_at, deleted_at
+    FROM assessments
+    WHERE type IN (${types.map((type) => `'${type}'`).join(', ')});
+
+    DROP TABLE assessments;
+    ALTER TABLE assessments_rebuild RENAME TO assessments;
+
+    CREATE INDEX IF NOT EXISTS idx_assessments_user_type ON assessments(user_id, type);
+    CREATE INDEX IF NOT EXISTS idx_assessments_type ON assessments(type);
+    CREATE INDEX IF NOT EXISTS idx_assessments_assessed ON assessments(assessed_at);
+    CREATE INDEX IF NOT EXISTS idx_assessments_deleted ON assessments(deleted_at);
+`;
+
+const BASE_TYPES = ['isi', 'meq', 'mctq', 'dbas', 'tcm', 'ayurveda'] as const;
+const QUESTIONNAIRE_TYPES = ['psqi', 'ess', 'phq9', 'gad7'] as const;
+
+export const migration009: IMigration = {
+  version: 9,
+  name: 'questionnaire_types',
+
+  up: rebuildAssessments([...BASE_TYPES, ...QUESTIONNAIRE_TYPES]),
+
+  // Rows of the new types are dropped on rollback
+  down: rebuildAssessments(BASE_TYPES),
+};
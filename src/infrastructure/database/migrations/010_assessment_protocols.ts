@@ -0,0 +1,40 @@
+/**
+ * Migration 010 - Assessment Protocols
+ * =====================================
+ *
+ * Extends assessment_schedules (migration 007) so each schedule row is
+ * evaluated against a declarative assessment protocol instead of the
+ * hard-coded biweekly ISI timetable.
+ *
+ * Features:
+ * - Protocol ID per row (cohort / study arm)
+ * - Follow-up reminders sent for the open timepoint
+ * - Timepoints closed without a response, for adherence reporting
+ *
+ * @packageDocumentation
+ * @module @sleepcore/infrastructure/database
+ */
+
+import type { IMigration } from '../interfaces/IDatabaseConnection';
+
+export const migration010: IMigration = {
+  version: 10,
+  name: 'assessment_protocols',
+
+  up: `
+    -- Protocol assignment (existing rows keep the biweekly ISI schedule)
+    ALTER TABLE assessment_schedules ADD COLUMN protocol_id TEXT NOT NULL DEFAULT 'standard';
+
+    -- Reminder state for the open timepoint
+    ALTER TABLE assessment_schedules ADD COLUMN reminder_count INTEGER NOT NULL DEFAULT 0;
+
+    -- Missed timepoints (JSON array of weeks)
+    ALTER TABLE assessment_schedules ADD COLUMN missed_weeks_json TEXT NOT NULL DEFAULT '[]';
+  `,
+
+  down: `
+    ALTER TABLE assessment_schedules DROP COLUMN missed_weeks_json;
+    ALTER TABLE assessment_schedules DROP COLUMN reminder_count;
+    ALTER TABLE assessment_schedules DROP COLUMN protocol_id;
+  `,
+};
@@ -0,0 +1,74 @@
+/**
+ * Migration 011 - Wearable Sleep Records
+ * =======================================
+ *
+ * Creates wearable_sleep_records for nights imported from device exports
+ * (Apple Health, Fitbit / Google Takeout, Oura, generic CSV).
+ *
+ * Research basis:
+ * - Consumer sleep trackers agree with PSG on TST within ~30 min but
+ *   overestimate it in insomnia (de Zambotti et al., 2019)
+ * - Diary vs device comparison exposes sleep-state misperception
+ *   (Harvey & Tang, 2012)
+ *
+ * Features:
+ * - One night per user, date and device source (re-import updates it)
+ * - Normalized timing, TST and SE; stage architecture as JSON
+ * - Physiological averages (HR, HRV, respiratory rate, skin temperature)
+ * - Soft delete support
+ *
+ * @packageDocumentation
+ * @module @sleepcore/infrastructure/database
+ */
+
+import type { IMigration } from '../interfaces/IDatabaseConnection';
+
+export const migration011: IMigration = {
+  version: 11,
+  name: 'wearable_sleep_records',
+
+  up: `
+    CREATE TABLE IF NOT EXISTS wearable_sleep_records (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id TEXT NOT NULL,
+      date TEXT NOT NULL,
+      source TEXT NOT NULL
+        CHECK (source IN ('apple_health', 'google_fit', 'oura', 'fitbit', 'whoop', 'garmin', 'other')),
+      import_format TEXT NOT NULL
+        CHECK (import_format IN ('apple_health_xml', 'fitbit_json', 'oura_json', 'csv')),
+
+      -- Night timing (local HH:MM) and totals
+      bedtime TEXT NOT NULL,
+      wake_time TEXT NOT NULL,
+      total_sleep_time INTEGER NOT NULL,
+      sleep_efficiency REAL NOT NULL,
+
+      -- Sleep architecture (JSON ISleepArchitecture, NULL without stages)
+      stages_json TEXT,
+
+      -- Physiology
+      heart_rate_avg REAL,
+      hrv_avg REAL,
+      respiratory_rate REAL,
+      skin_temperature REAL,
+
+      imported_at TEXT NOT NULL DEFAULT (datetime('now')),
+
+      -- Standard audit fields
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+      deleted_at TEXT,
+
+      UNIQUE(user_id, date, source)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_wearable_sleep_user_date ON wearable_sleep_records(user_id, date);
+    CREATE INDEX IF NOT EXISTS idx_wearable_sleep_deleted ON wearable_sleep_records(deleted_at);
+  `,
+
+  down: `
+    DROP INDEX IF EXISTS idx_wearable_sleep_deleted;
+    DROP INDEX IF EXISTS idx_wearable_sleep_user_date;
+    DROP TABLE IF EXISTS wearable_sleep_records;
+  `,
+};
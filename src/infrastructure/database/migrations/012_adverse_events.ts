@@ -0,0 +1,135 @@
+/**
+ * Migration 012 - Adverse Events
+ * ==============================
+ *
+ * Creates persistent storage for pharmacovigilance data previously held
+ * in AdverseEventService memory:
+ * - adverse_events: AE reports (CIOMS minimum data, classification, deadlines)
+ * - adverse_event_followups: numbered follow-up records for each report
+ * - safety_alerts: SAE / SUSAR / ISI worsening / deadline alerts
+ *
+ * Research basis:
+ * - ICH E2A: 7-day (fatal/life-threatening) and 15-day (serious) expedited reporting
+ * - ICH E2B(R3): follow-up reports are numbered and linked to the initial case
+ * - ICH E6(R3): sponsor retains safety records for the trial lifetime
+ *
+ * Features:
+ * - Stable AUTOINCREMENT report ids (used as "AE-<id>" case numbers)
+ * - No foreign key to users: AE records outlive account deletion
+ * - Follow-ups are append-only
+ *
+ * @packageDocumentation
+ * @module @sleepcore/infrastructure/database
+ */
+
+import type { IMigration } from '../interfaces/IDatabaseConnection';
+
+export const migration012: IMigration = {
+  version: 12,
+  name: 'adverse_events',
+
+  up: `
+    CREATE TABLE IF NOT EXISTS adverse_events (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id TEXT NOT NULL,
+      user_internal_id INTEGER,
+
+      -- CIOMS Form I minimum data (JSON ICIOMSMinimumData)
+      cioms_json TEXT NOT NULL,
+      reaction_term TEXT NOT NULL,
+
+      -- Classification (ICH E2A)
+      severity TEXT NOT NULL CHECK (severity IN ('mild', 'moderate', 'severe')),
+      is_serious INTEGER NOT NULL DEFAULT 0,
+      seriousness_criteria_json TEXT,
+      expectedness TEXT NOT NULL CHECK (expectedness IN ('expected', 'unexpected')),
+      dtx_category TEXT,
+      custom_term TEXT,
+
+      -- Clinical details
+      description TEXT NOT NULL DEFAULT '',
+      onset_date TEXT NOT NULL,
+      resolution_date TEXT,
+      outcome TEXT NOT NULL,
+      causality TEXT NOT NULL,
+      action_taken TEXT NOT NULL,
+
+      -- Context
+      current_isi INTEGER,
+      baseline_isi INTEGER,
+      current_week INTEGER,
+
+      -- Regulatory tracking
+      report_status TEXT NOT NULL DEFAULT 'draft'
+        CHECK (report_status IN ('draft', 'pending_review', 'submitted_roszdravnadzor', 'submitted_ethics', 'closed')),
+      regulatory_deadline TEXT,
+      submitted_roszdravnadzor_at TEXT,
+      submitted_ethics_at TEXT,
+
+      reported_at TEXT NOT NULL,
+      reported_by TEXT NOT NULL CHECK (reported_by IN ('patient', 'system', 'clinician')),
+      notes TEXT,
+
+      -- Standard audit fields
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+      deleted_at TEXT
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_adverse_events_user ON adverse_events(user_id);
+    CREATE INDEX IF NOT EXISTS idx_adverse_events_status_deadline ON adverse_events(report_status, regulatory_deadline);
+    CREATE INDEX IF NOT EXISTS idx_adverse_events_deleted ON adverse_events(deleted_at);
+
+    CREATE TABLE IF NOT EXISTS adverse_event_followups (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      event_id INTEGER NOT NULL,
+      followup_number INTEGER NOT NULL,
+
+      -- Changed report fields (JSON, new values)
+      changes_json TEXT NOT NULL,
+      recorded_at TEXT NOT NULL,
+
+      -- Standard audit fields
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+      deleted_at TEXT,
+
+      FOREIGN KEY (event_id) REFERENCES adverse_events(id),
+      UNIQUE(event_id, followup_number)
+    );
+
+    CREATE TABLE IF NOT EXISTS safety_alerts (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      alert_type TEXT NOT NULL
+        CHECK (alert_type IN ('ISI_WORSENING', 'SERIOUS_AE', 'SUSAR', 'DEADLINE_APPROACHING')),
+      severity TEXT NOT NULL CHECK (severity IN ('warning', 'critical')),
+      user_id TEXT NOT NULL,
+      user_display_name TEXT,
+      message TEXT NOT NULL,
+      event_id INTEGER,
+
+      acknowledged INTEGER NOT NULL DEFAULT 0,
+      acknowledged_by TEXT,
+      acknowledged_at TEXT,
+
+      -- Standard audit fields
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+      deleted_at TEXT,
+
+      FOREIGN KEY (event_id) REFERENCES adverse_events(id)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_safety_alerts_open ON safety_alerts(acknowledged, alert_type, event_id);
+  `,
+
+  down: `
+    DROP INDEX IF EXISTS idx_safety_alerts_open;
+    DROP TABLE IF EXISTS safety_alerts;
+    DROP TABLE IF EXISTS adverse_event_followups;
+    DROP INDEX IF EXISTS idx_adverse_events_deleted;
+    DROP INDEX IF EXISTS idx_adverse_events_status_deadline;
+    DROP INDEX IF EXISTS idx_adverse_events_user;
+    DROP TABLE IF EXISTS adverse_events;
+  `,
+};
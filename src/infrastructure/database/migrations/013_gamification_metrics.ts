@@ -0,0 +1,44 @@
+/**
+ * Migration 013 - Gamification Metrics
+ * ====================================
+ *
+ * Stores per-user activity counters and best streaks used by BadgeService
+ * to evaluate badge criteria (first action, counts, streak milestones).
+ * Previously these lived only in BadgeService memory and were lost on restart,
+ * so badges with count criteria could never be reached across deployments.
+ *
+ * Features:
+ * - One row per (user, metric); metric names are free-form event names
+ * - best_streak only ever increases
+ *
+ * @packageDocumentation
+ * @module @sleepcore/infrastructure/database
+ */
+
+import type { IMigration } from '../interfaces/IDatabaseConnection';
+
+export const migration013: IMigration = {
+  version: 13,
+  name: 'gamification_metrics',
+
+  up: `
+    CREATE TABLE IF NOT EXISTS gamification_metrics (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL,
+      metric TEXT NOT NULL,
+      count INTEGER NOT NULL DEFAULT 0,
+      best_streak INTEGER NOT NULL DEFAULT 0,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+      UNIQUE(user_id, metric),
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_gamification_metrics_user ON gamification_metrics(user_id);
+  `,
+
+  down: `
+    DROP INDEX IF EXISTS idx_gamification_metrics_user;
+    DROP TABLE IF EXISTS gamification_metrics;
+  `,
+};
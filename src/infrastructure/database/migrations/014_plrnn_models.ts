@@ -0,0 +1,66 @@
+/**
+ * Migration 014 - PLRNN Models
+ * ============================
+ *
+ * Stores PLRNN weights for SleepPredictionService: one population prior
+ * plus per-user fine-tuned models. Previously a single in-memory engine
+ * was shared (and trained) by all users and lost on restart.
+ *
+ * Research basis:
+ * - Koppe et al. (2019): subject-specific PLRNNs fitted from a group prior
+ * - npj Digital Medicine 2025: personalized PLRNNs for EMA forecasting
+ *
+ * Features:
+ * - model_key 'population' for the prior, 'user:<id>' for personal models
+ * - version increments on every save
+ * - Training sample count and validation loss for model selection
+ * - Latest latent state per user so predictions survive restarts
+ * - Soft delete support
+ *
+ * @packageDocumentation
+ * @module @sleepcore/infrastructure/database
+ */
+
+import type { IMigration } from '../interfaces/IDatabaseConnection';
+
+export const migration014: IMigration = {
+  version: 14,
+  name: 'plrnn_models',
+
+  up: `
+    CREATE TABLE IF NOT EXISTS plrnn_models (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      model_key TEXT NOT NULL UNIQUE,
+
+      -- Bot-level user ID (Telegram ID as string), NULL for the population prior
+      user_id TEXT,
+
+      version INTEGER NOT NULL DEFAULT 1,
+
+      -- JSON IPLRNNWeights
+      weights_json TEXT NOT NULL,
+
+      -- JSON IPLRNNState (latest user state, NULL for the prior)
+      state_json TEXT,
+
+      training_samples INTEGER NOT NULL DEFAULT 0,
+
+      -- NULL until a validation loss is available
+      validation_loss REAL,
+
+      trained_at TEXT NOT NULL DEFAULT (datetime('now')),
+
+      -- Standard audit fields
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+      deleted_at TEXT
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_plrnn_models_user ON plrnn_models(user_id);
+  `,
+
+  down: `
+    DROP INDEX IF EXISTS idx_plrnn_models_user;
+    DROP TABLE IF EXISTS plrnn_models;
+  `,
+};
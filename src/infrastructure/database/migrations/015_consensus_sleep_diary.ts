@@ -0,0 +1,60 @@
+/**
+ * Migration 015 - Consensus Sleep Diary
+ * =====================================
+ *
+ * Extends sleep_diary_entries (migration 001) with the remaining items of
+ * the Consensus Sleep Diary, so CBT-I analysis can account for naps,
+ * substances and sleep medication.
+ *
+ * Research basis:
+ * - Carney et al. (2012): The Consensus Sleep Diary
+ * - Drake et al. (2013): caffeine 6 hours before bedtime disrupts sleep
+ *
+ * Features:
+ * - Naps (count and total minutes)
+ * - Caffeine and alcohol drinks, time of the last caffeinated drink
+ * - Sleep medication with dose (JSON ISleepMedicationDose[])
+ * - Early morning awakening and exercise timing
+ * - All columns nullable: NULL = item not reported
+ *
+ * @packageDocumentation
+ * @module @sleepcore/infrastructure/database
+ */
+
+import type { IMigration } from '../interfaces/IDatabaseConnection';
+
+export const migration015: IMigration = {
+  version: 15,
+  name: 'consensus_sleep_diary',
+
+  up: `
+    -- Naps / dozes the previous day
+    ALTER TABLE sleep_diary_entries ADD COLUMN nap_count INTEGER;
+    ALTER TABLE sleep_diary_entries ADD COLUMN nap_minutes INTEGER;
+
+    -- Substances
+    ALTER TABLE sleep_diary_entries ADD COLUMN caffeine_drinks INTEGER;
+    ALTER TABLE sleep_diary_entries ADD COLUMN last_caffeine_time TEXT;
+    ALTER TABLE sleep_diary_entries ADD COLUMN alcohol_drinks INTEGER;
+
+    -- Sleep medication with dose (JSON array)
+    ALTER TABLE sleep_diary_entries ADD COLUMN sleep_medications_json TEXT;
+
+    -- Woke earlier than planned (minutes)
+    ALTER TABLE sleep_diary_entries ADD COLUMN early_awakening_minutes INTEGER;
+
+    ALTER TABLE sleep_diary_entries ADD COLUMN exercise_timing TEXT
+      CHECK (exercise_timing IN ('none', 'morning', 'afternoon', 'evening'));
+  `,
+
+  down: `
+    ALTER TABLE sleep_diary_entries DROP COLUMN exercise_timing;
+    ALTER TABLE sleep_diary_entries DROP COLUMN early_awakening_minutes;
+    ALTER TABLE sleep_diary_entries DROP COLUMN sleep_medications_json;
+    ALTER TABLE sleep_diary_entries DROP COLUMN alcohol_drinks;
+    ALTER TABLE sleep_diary_entries DROP COLUMN last_caffeine_time;
+    ALTER TABLE sleep_diary_entries DROP COLUMN caffeine_drinks;
+    ALTER TABLE sleep_diary_entries DROP COLUMN nap_minutes;
+    ALTER TABLE sleep_diary_entries DROP COLUMN nap_count;
+  `,
+};
@@ -0,0 +1,73 @@
+/**
+ * Migration 016 - Medication Taper Plans
+ * ======================================
+ *
+ * Supervised hypnotic tapering alongside CBT-I: one row per plan with the
+ * reduction schedule, used by MedicationTaperingService. Nightly use itself
+ * is recorded in sleep_diary_entries.sleep_medications_json (migration 015).
+ *
+ * Research basis:
+ * - Morin et al. (2004): CBT-I plus supervised taper for hypnotic discontinuation
+ * - Riemann et al. (2023): European Insomnia Guideline, hypnotics ≤4 weeks
+ * - Lader (2011), NICE CKS: stepwise dose reduction every 2 weeks
+ *
+ * Features:
+ * - Schedule as JSON ITaperStep[] with per-step clinician sign-off
+ * - Plan status (active / on_hold / completed / cancelled) and hold reason
+ * - Soft delete support
+ *
+ * @packageDocumentation
+ * @module @sleepcore/infrastructure/database
+ */
+
+import type { IMigration } from '../interfaces/IDatabaseConnection';
+
+export const migration016: IMigration = {
+  version: 16,
+  name: 'medication_taper_plans',
+
+  up: `
+    CREATE TABLE IF NOT EXISTS medication_taper_plans (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+
+      -- Bot-level user ID (Telegram ID as string)
+      user_id TEXT NOT NULL,
+
+      medication_name TEXT NOT NULL,
+      medication_type TEXT NOT NULL
+        CHECK (medication_type IN ('hypnotic', 'melatonin', 'antihistamine', 'other')),
+      medication_class TEXT NOT NULL
+        CHECK (medication_class IN ('z_drug', 'benzodiazepine', 'other')),
+      dose_unit TEXT NOT NULL CHECK (dose_unit IN ('mg', 'tablet')),
+      starting_dose REAL NOT NULL,
+
+      -- Reduction per step (% of the starting dose) and step length
+      reduction_percent REAL NOT NULL,
+      step_interval_days INTEGER NOT NULL,
+
+      status TEXT NOT NULL DEFAULT 'active'
+        CHECK (status IN ('active', 'on_hold', 'completed', 'cancelled')),
+      hold_reason TEXT,
+
+      -- Index into the schedule of the dose currently taken
+      current_step INTEGER NOT NULL DEFAULT 0,
+
+      -- JSON ITaperStep[]
+      steps_json TEXT NOT NULL,
+
+      prescribed_by TEXT NOT NULL,
+
+      -- Standard audit fields
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+      deleted_at TEXT
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_taper_plans_user ON medication_taper_plans(user_id, status);
+  `,
+
+  down: `
+    DROP INDEX IF EXISTS idx_taper_plans_user;
+    DROP TABLE IF EXISTS medication_taper_plans;
+  `,
+};
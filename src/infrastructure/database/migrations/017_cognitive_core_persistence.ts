@@ -0,0 +1,102 @@
+/**
+ * Migration 017 - Cognitive Core Persistence
+ * ==========================================
+ *
+ * SQL storage for the @cognicore/engine CognitiveCoreAPI adapters
+ * (event store, state repository, session repository). Previously the
+ * API kept events, state vectors, beliefs and sessions in memory only,
+ * so they were lost on restart.
+ *
+ * Research basis:
+ * - Event Sourcing / CQRS (Young, 2010): append-only streams as audit trail
+ * - Optimistic concurrency via per-stream version (EventStoreDB pattern)
+ *
+ * Features:
+ * - cognitive_events: append-only, UNIQUE(stream_id, version)
+ * - cognitive_state_history: state and belief snapshots, newest = current
+ * - cognitive_sessions: full IUserSession as JSON with queryable status
+ *
+ * @packageDocumentation
+ * @module @sleepcore/infrastructure/database
+ */
+
+import type { IMigration } from '../interfaces/IDatabaseConnection';
+
+export const migration017: IMigration = {
+  version: 17,
+  name: 'cognitive_core_persistence',
+
+  up: `
+    CREATE TABLE IF NOT EXISTS cognitive_events (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+
+      -- Stream (aggregate ID) and 1-based position within it
+      stream_id TEXT NOT NULL,
+      stream_version INTEGER NOT NULL,
+
+      event_id TEXT NOT NULL UNIQUE,
+      event_type TEXT NOT NULL,
+      aggregate_id TEXT NOT NULL,
+      aggregate_type TEXT NOT NULL,
+
+      -- Event schema version (IDomainEvent.version)
+      event_version INTEGER NOT NULL,
+
+      -- JSON payload and IEventMetadata
+      payload_json TEXT NOT NULL,
+      metadata_json TEXT NOT NULL,
+
+      occurred_at TEXT NOT NULL,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+
+      UNIQUE (stream_id, stream_version)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_cognitive_events_type ON cognitive_events(event_type, occurred_at);
+
+    CREATE TABLE IF NOT EXISTS cognitive_state_history (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+
+      -- Engine user ID
+      user_id TEXT NOT NULL,
+
+      kind TEXT NOT NULL CHECK (kind IN ('state', 'belief')),
+
+      -- JSON IStateVector or BeliefState (Dates and Maps tagged)
+      data_json TEXT NOT NULL,
+
+      recorded_at TEXT NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_cognitive_state_user ON cognitive_state_history(user_id, kind, id);
+
+    CREATE TABLE IF NOT EXISTS cognitive_sessions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      session_id TEXT NOT NULL UNIQUE,
+
+      -- Engine user ID
+      user_id TEXT NOT NULL,
+
+      status TEXT NOT NULL CHECK (status IN ('active', 'idle', 'ended')),
+      started_at TEXT NOT NULL,
+
+      -- JSON IUserSession
+      session_json TEXT NOT NULL,
+
+      -- Standard audit fields
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_cognitive_sessions_user ON cognitive_sessions(user_id, status);
+  `,
+
+  down: `
+    DROP INDEX IF EXISTS idx_cognitive_sessions_user;
+    DROP TABLE IF EXISTS cognitive_sessions;
+    DROP INDEX IF EXISTS idx_cognitive_state_user;
+    DROP TABLE IF EXISTS cognitive_state_history;
+    DROP INDEX IF EXISTS idx_cognitive_events_type;
+    DROP TABLE IF EXISTS cognitive_events;
+  `,
+};
@@ -0,0 +1,52 @@
+/**
+ * Migration 018 - Cognitive Projections
+ * =====================================
+ *
+ * Read models built from cognitive_events (migration 017) by the
+ * @cognicore/engine ProjectionRunner, e.g. intervention effectiveness
+ * and per-user crisis timelines. One row per projection holds its state
+ * and checkpoint together so they cannot diverge.
+ *
+ * Research basis:
+ * - Greg Young (2010): CQRS projections rebuilt by replaying the event log
+ *
+ * Features:
+ * - Checkpoint = last cognitive_events.id applied
+ * - Projection version; a mismatch triggers a full replay
+ *
+ * @packageDocumentation
+ * @module @sleepcore/infrastructure/database
+ */
+
+import type { IMigration } from '../interfaces/IDatabaseConnection';
+
+export const migration018: IMigration = {
+  version: 18,
+  name: 'cognitive_projections',
+
+  up: `
+    CREATE TABLE IF NOT EXISTS cognitive_projections (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      projection_name TEXT NOT NULL UNIQUE,
+
+      -- Projection version the state was built with
+      version INTEGER NOT NULL,
+
+      -- Last global event position (cognitive_events.id) applied
+      position INTEGER NOT NULL DEFAULT 0,
+
+      -- JSON read model (Dates and Maps tagged)
+      state_json TEXT NOT NULL,
+
+      checkpointed_at TEXT NOT NULL,
+
+      -- Standard audit fields
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+  `,
+
+  down: `
+    DROP TABLE IF EXISTS cognitive_projections;
+  `,
+};
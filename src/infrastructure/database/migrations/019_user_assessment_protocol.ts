@@ -0,0 +1,30 @@
+/**
+ * Migration 019 - User Assessment Protocol
+ * ========================================
+ *
+ * Stores the assessment protocol (study cohort) on the user record, so
+ * users of one deployment can follow different assessment schedules
+ * (migration 010) instead of a single ASSESSMENT_PROTOCOL.
+ *
+ * Features:
+ * - Protocol ID assigned by a study administrator
+ * - NULL = the deployment's default protocol
+ *
+ * @packageDocumentation
+ * @module @sleepcore/infrastructure/database
+ */
+
+import type { IMigration } from '../interfaces/IDatabaseConnection';
+
+export const migration019: IMigration = {
+  version: 19,
+  name: 'user_assessment_protocol',
+
+  up: `
+    ALTER TABLE users ADD COLUMN assessment_protocol TEXT;
+  `,
+
+  down: `
+    ALTER TABLE users DROP COLUMN assessment_protocol;
+  `,
+};
@@ -16,6 +16,19 @@ import { migration003 } from './003_cultural_adaptations';
 import { migration004 } from './004_bot_sessions';
 import { migration005 } from './005_gamification';
 import { migration006 } from './006_voice_diary';
+import { migration007 } from './007_notification_schedules';
+import { migration008 } from './008_sleep_window_adjustments';
+import { migration009 } from './009_questionnaire_types';
+import { migration010 } from './010_assessment_protocols';
+import { migration011 } from './011_wearable_sleep_records';
+import { migration012 } from './012_adverse_events';
+import { migration013 } from './013_gamification_metrics';
+import { migration014 } from './014_plrnn_models';
+import { migration015 } from './015_consensus_sleep_diary';
+import { migration016 } from './016_medication_taper_plans';
+import { migration017 } from './017_cognitive_core_persistence';
+import { migration018 } from './018_cognitive_projections';
+import { migration019 } from './019_user_assessment_protocol';
 
 /**
  * All registered migrations in version order
@@ -27,6 +40,19 @@ export const MIGRATIONS: readonly IMigration[] = [
   migration004,
   migration005,
   migration006,
+  migration007,
+  migration008,
+  migration009,
+  migration010,
+  migration011,
+  migration012,
+  migration013,
+  migration014,
+  migration015,
+  migration016,
+  migration017,
+  migration018,
+  migration019,
 ] as const;
 
 /**
@@ -50,3 +76,16 @@ export { migration003 } from './003_cultural_adaptations';
 export { migration004 } from './004_bot_sessions';
 export { migration005 } from './005_gamification';
 export { migration006 } from './006_voice_diary';
+export { migration007 } from './007_notification_schedules';
+export { migration008 } from './008_sleep_window_adjustments';
+export { migration009 } from './009_questionnaire_types';
+export { migration010 } from './010_assessment_protocols';
+export { migration011 } from './011_wearable_sleep_records';
+export { migration012 } from './012_adverse_events';
+export { migration013 } from './013_gamification_metrics';
+export { migration014 } from './014_plrnn_models';
+export { migration015 } from './015_consensus_sleep_diary';
+export { migration016 } from './016_medication_taper_plans';
+export { migration017 } from './017_cognitive_core_persistence';
+export { migration018 } from './018_cognitive_projections';
+export { migration019 } from './019_user_assessment_protocol';
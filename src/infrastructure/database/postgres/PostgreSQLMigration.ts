@@ -23,6 +23,12 @@ function convertMigrationSQL(sql: string): string {
     // AUTOINCREMENT -> SERIAL
     .replace(/INTEGER PRIMARY KEY AUTOINCREMENT/gi, 'SERIAL PRIMARY KEY')
 
+    // Rows copied with explicit ids (table rebuilds) do not advance a SERIAL
+    // sequence; SQLite continues after MAX(id), so move the sequence there too
+    .replace(/INSERT INTO (\w+)\s*\(\s*id\s*,[^;]*;/gi, (statement, table) =>
+      `${statement}\n    SELECT setval(pg_get_serial_sequence('${table}', 'id'), ` +
+      `COALESCE((SELECT MAX(id) FROM ${table}), 0) + 1, false);`)
+
     // datetime('now') -> NOW()
     .replace(/datetime\('now'\)/gi, 'NOW()')
 
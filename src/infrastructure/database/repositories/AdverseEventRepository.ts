@@ -0,0 +1,427 @@
+/**
+ * AdverseEventRepository - Adverse Event Data Access
+ * ===================================================
+ *
+ * Repository for adverse event reports, their follow-ups and safety alerts.
+ * Implements IAdverseEventRepository with SQLite backend.
+ *
+ * Features:
+ * - Stable report ids for case numbering and regulatory correspondence
+ * - Append-only numbered follow-ups (ICH E2B(R3))
+ * - Safety alert acknowledgement tracking
+ * - Soft delete support
+ *
+ * @packageDocumentation
+ * @module @sleepcore/infrastructure/database
+ */
+
+import type { IDatabaseConnection } from '../interfaces/IDatabaseConnection';
+import type {
+  IAdverseEventRepository,
+  IAdverseEventEntity,
+  IAdverseEventFollowUpEntity,
+  ISafetyAlertEntity,
+} from '../interfaces/IRepository';
+import { BaseRepository, type IBaseRow } from './BaseRepository';
+
+/**
+ * Database row for adverse event report
+ */
+interface IAdverseEventRow extends IBaseRow {
+  user_id: string;
+  user_internal_id?: number | null;
+  cioms_json: string;
+  reaction_term: string;
+  severity: string;
+  is_serious: number;
+  seriousness_criteria_json?: string | null;
+  expectedness: string;
+  dtx_category?: string | null;
+  custom_term?: string | null;
+  description: string;
+  onset_date: string;
+  resolution_date?: string | null;
+  outcome: string;
+  causality: string;
+  action_taken: string;
+  current_isi?: number | null;
+  baseline_isi?: number | null;
+  current_week?: number | null;
+  report_status: string;
+  regulatory_deadline?: string | null;
+  submitted_roszdravnadzor_at?: string | null;
+  submitted_ethics_at?: string | null;
+  reported_at: string;
+  reported_by: string;
+  notes?: string | null;
+}
+
+/**
+ * Database row for follow-up
+ */
+interface IFollowUpRow extends IBaseRow {
+  event_id: number;
+  followup_number: number;
+  changes_json: string;
+  recorded_at: string;
+}
+
+/**
+ * Database row for safety alert
+ */
+interface ISafetyAlertRow extends IBaseRow {
+  alert_type: string;
+  severity: string;
+  user_id: string;
+  user_display_name?: string | null;
+  message: string;
+  event_id?: number | null;
+  acknowledged: number;
+  acknowledged_by?: string | null;
+  acknowledged_at?: string | null;
+}
+
+/**
+ * Report statuses that no longer need deadline monitoring
+ */
+const DEADLINE_EXEMPT_STATUSES = ['closed', 'submitted_roszdravnadzor'];
+
+/**
+ * SQLite Adverse Event Repository implementation
+ */
+export class AdverseEventRepository
+  extends BaseRepository<IAdverseEventEntity>
+  implements IAdverseEventRepository
+{
+  protected readonly tableName = 'adverse_events';
+
+  constructor(db: IDatabaseConnection) {
+    super(db);
+  }
+
+  protected rowToEntity(row: IAdverseEventRow): IAdverseEventEntity {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      userInternalId: row.user_internal_id ?? undefined,
+      ciomsJson: row.cioms_json,
+      reactionTerm: row.reaction_term,
+      severity: row.severity,
+      isSerious: row.is_serious === 1,
+      seriousnessCriteriaJson: row.seriousness_criteria_json || undefined,
+      expectedness: row.expectedness,
+      dtxCategory: row.dtx_category || undefined,
+      customTerm: row.custom_term || undefined,
+      description: row.description,
+      onsetDate: this.parseDate(row.onset_date) ?? new Date(),
+      resolutionDate: this.parseDate(row.resolution_date),
+      outcome: row.outcome,
+      causality: row.causality,
+      actionTaken: row.action_taken,
+      currentIsi: row.current_isi ?? undefined,
+      baselineIsi: row.baseline_isi ?? undefined,
+      currentWeek: row.current_week ?? undefined,
+      reportStatus: row.report_status,
+      regulatoryDeadline: this.parseDate(row.regulatory_deadline),
+      submittedToRoszdravnadzor: this.parseDate(row.submitted_roszdravnadzor_at),
+      submittedToEthics: this.parseDate(row.submitted_ethics_at),
+      reportedAt: this.parseDate(row.reported_at) ?? new Date(),
+      reportedBy: row.reported_by,
+      notes: row.notes || undefined,
+      createdAt: this.parseDate(row.created_at),
+      updatedAt: this.parseDate(row.updated_at),
+      deletedAt: row.deleted_at ? this.parseDate(row.deleted_at) : null,
+    };
+  }
+
+  protected entityToParams(entity: Partial<IAdverseEventEntity>): Record<string, unknown> {
+    const params: Record<string, unknown> = {};
+
+    if (entity.id !== undefined) params.id = entity.id;
+    if (entity.userId !== undefined) params.user_id = entity.userId;
+    if (entity.userInternalId !== undefined) params.user_internal_id = entity.userInternalId;
+    if (entity.ciomsJson !== undefined) params.cioms_json = entity.ciomsJson;
+    if (entity.reactionTerm !== undefined) params.reaction_term = entity.reactionTerm;
+    if (entity.severity !== undefined) params.severity = entity.severity;
+    if (entity.isSerious !== undefined) params.is_serious = entity.isSerious ? 1 : 0;
+    if (entity.seriousnessCriteriaJson !== undefined) params.seriousness_criteria_json = entity.seriousnessCriteriaJson;
+    if (entity.expectedness !== undefined) params.expectedness = entity.expectedness;
+    if (entity.dtxCategory !== undefined) params.dtx_category = entity.dtxCategory;
+    if (entity.customTerm !== undefined) params.custom_term = entity.customTerm;
+    if (entity.description !== undefined) params.description = entity.description;
+    if (entity.onsetDate !== undefined) params.onset_date = entity.onsetDate.toISOString();
+    if (entity.resolutionDate !== undefined) params.resolution_date = entity.resolutionDate.toISOString();
+    if (entity.outcome !== undefined) params.outcome = entity.outcome;
+    if (entity.causality !== undefined) params.causality = entity.causality;
+    if (entity.actionTaken !== undefined) params.action_taken = entity.actionTaken;
+    if (entity.currentIsi !== undefined) params.current_isi = entity.currentIsi;
+    if (entity.baselineIsi !== undefined) params.baseline_isi = entity.baselineIsi;
+    if (entity.currentWeek !== undefined) params.current_week = entity.currentWeek;
+    if (entity.reportStatus !== undefined) params.report_status = entity.reportStatus;
+    if (entity.regulatoryDeadline !== undefined) params.regulatory_deadline = entity.regulatoryDeadline.toISOString();
+    if (entity.submittedToRoszdravnadzor !== undefined) {
+      params.submitted_roszdravnadzor_at = entity.submittedToRoszdravnadzor.toISOString();
+    }
+    if (entity.submittedToEthics !== undefined) params.submitted_ethics_at = entity.submittedToEthics.toISOString();
+    if (entity.reportedAt !== undefined) params.reported_at = entity.reportedAt.toISOString();
+    if (entity.reportedBy !== undefined) params.reported_by = entity.reportedBy;
+    if (entity.notes !== undefined) params.notes = entity.notes;
+
+    return params;
+  }
+
+  protected getInsertColumns(): string[] {
+    return [
+      'user_id',
+      'user_internal_id',
+      'cioms_json',
+      'reaction_term',
+      'severity',
+      'is_serious',
+      'seriousness_criteria_json',
+      'expectedness',
+      'dtx_category',
+      'custom_term',
+      'description',
+      'onset_date',
+      'resolution_date',
+      'outcome',
+      'causality',
+      'action_taken',
+      'current_isi',
+      'baseline_isi',
+      'current_week',
+      'report_status',
+      'regulatory_deadline',
+      'submitted_roszdravnadzor_at',
+      'submitted_ethics_at',
+      'reported_at',
+      'reported_by',
+      'notes',
+    ];
+  }
+
+  /**
+   * Insert report (optional columns default to NULL)
+   */
+  async insert(entity: Omit<IAdverseEventEntity, 'id' | 'createdAt' | 'updatedAt'>): Promise<IAdverseEventEntity> {
+    const params = this.entityToParams(entity);
+    const columns = this.getInsertColumns();
+    const values = columns.map((col) => params[col] ?? null);
+    const placeholders = columns.map(() => '?').join(', ');
+
+    const result = await this.db.execute(
+      `INSERT INTO ${this.tableName} (${columns.join(', ')}) VALUES (${placeholders})`,
+      values
+    );
+
+    return (await this.findById(Number(result.lastInsertRowid)))!;
+  }
+
+  /**
+   * Find reports, newest first
+   */
+  async findReports(filters?: {
+    userId?: string;
+    isSerious?: boolean;
+    reportStatus?: string;
+    reportedFrom?: Date;
+    reportedTo?: Date;
+  }): Promise<IAdverseEventEntity[]> {
+    const conditions = ['deleted_at IS NULL'];
+    const values: unknown[] = [];
+
+    if (filters?.userId) {
+      conditions.push('user_id = ?');
+      values.push(filters.userId);
+    }
+    if (filters?.isSerious !== undefined) {
+      conditions.push('is_serious = ?');
+      values.push(filters.isSerious ? 1 : 0);
+    }
+    if (filters?.reportStatus) {
+      conditions.push('report_status = ?');
+      values.push(filters.reportStatus);
+    }
+    if (filters?.reportedFrom) {
+      conditions.push('reported_at >= ?');
+      values.push(filters.reportedFrom.toISOString());
+    }
+    if (filters?.reportedTo) {
+      conditions.push('reported_at <= ?');
+      values.push(filters.reportedTo.toISOString());
+    }
+
+    const rows = await this.db.query<IAdverseEventRow>(
+      `SELECT * FROM ${this.tableName}
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY reported_at DESC, id DESC`,
+      values
+    );
+    return rows.map((row) => this.rowToEntity(row));
+  }
+
+  /**
+   * Find reports with a deadline that are not yet closed or submitted to the regulator
+   */
+  async findOpenWithDeadline(): Promise<IAdverseEventEntity[]> {
+    const rows = await this.db.query<IAdverseEventRow>(
+      `SELECT * FROM ${this.tableName}
+       WHERE deleted_at IS NULL
+         AND regulatory_deadline IS NOT NULL
+         AND report_status NOT IN (${DEADLINE_EXEMPT_STATUSES.map(() => '?').join(', ')})
+       ORDER BY regulatory_deadline ASC`,
+      DEADLINE_EXEMPT_STATUSES
+    );
+    return rows.map((row) => this.rowToEntity(row));
+  }
+
+  // ==================== Follow-ups ====================
+
+  /**
+   * Append follow-up with the next number for the report
+   */
+  async addFollowUp(eventId: number, changesJson: string, recordedAt: Date): Promise<IAdverseEventFollowUpEntity> {
+    const last = await this.db.queryOne<{ max_number: number | null }>(
+      `SELECT MAX(followup_number) as max_number FROM adverse_event_followups WHERE event_id = ?`,
+      [eventId]
+    );
+    const followUpNumber = (last?.max_number ?? 0) + 1;
+
+    const result = await this.db.execute(
+      `INSERT INTO adverse_event_followups (event_id, followup_number, changes_json, recorded_at)
+       VALUES (?, ?, ?, ?)`,
+      [eventId, followUpNumber, changesJson, recordedAt.toISOString()]
+    );
+
+    const row = await this.db.queryOne<IFollowUpRow>(
+      `SELECT * FROM adverse_event_followups WHERE id = ?`,
+      [Number(result.lastInsertRowid)]
+    );
+    return this.rowToFollowUp(row!);
+  }
+
+  /**
+   * Find follow-ups for a report in order
+   */
+  async findFollowUps(eventId: number): Promise<IAdverseEventFollowUpEntity[]> {
+    const rows = await this.db.query<IFollowUpRow>(
+      `SELECT * FROM adverse_event_followups
+       WHERE event_id = ? AND deleted_at IS NULL
+       ORDER BY followup_number ASC`,
+      [eventId]
+    );
+    return rows.map((row) => this.rowToFollowUp(row));
+  }
+
+  // ==================== Safety Alerts ====================
+
+  /**
+   * Insert safety alert
+   */
+  async insertAlert(
+    alert: Omit<ISafetyAlertEntity, 'id' | 'createdAt' | 'updatedAt'>
+  ): Promise<ISafetyAlertEntity> {
+    const result = await this.db.execute(
+      `INSERT INTO safety_alerts
+        (alert_type, severity, user_id, user_display_name, message, event_id,
+         acknowledged, acknowledged_by, acknowledged_at, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        alert.alertType,
+        alert.severity,
+        alert.userId,
+        alert.userDisplayName ?? null,
+        alert.message,
+        alert.eventId ?? null,
+        alert.acknowledged ? 1 : 0,
+        alert.acknowledgedBy ?? null,
+        alert.acknowledgedAt?.toISOString() ?? null,
+        new Date().toISOString(),
+      ]
+    );
+
+    const row = await this.db.queryOne<ISafetyAlertRow>(
+      `SELECT * FROM safety_alerts WHERE id = ?`,
+      [Number(result.lastInsertRowid)]
+    );
+    return this.rowToAlert(row!);
+  }
+
+  /**
+   * Find alerts in creation order (latest `limit` when given)
+   */
+  async findAlerts(options?: { unacknowledgedOnly?: boolean; limit?: number }): Promise<ISafetyAlertEntity[]> {
+    let sql = `SELECT * FROM safety_alerts WHERE deleted_at IS NULL`;
+    const values: unknown[] = [];
+
+    if (options?.unacknowledgedOnly) {
+      sql += ' AND acknowledged = 0';
+    }
+    sql += ' ORDER BY id DESC';
+    if (options?.limit !== undefined) {
+      sql += ' LIMIT ?';
+      values.push(options.limit);
+    }
+
+    const rows = await this.db.query<ISafetyAlertRow>(sql, values);
+    return rows.reverse().map((row) => this.rowToAlert(row));
+  }
+
+  /**
+   * Find unacknowledged alert of a type for a report
+   */
+  async findOpenAlert(alertType: string, eventId: number): Promise<ISafetyAlertEntity | null> {
+    const row = await this.db.queryOne<ISafetyAlertRow>(
+      `SELECT * FROM safety_alerts
+       WHERE alert_type = ? AND event_id = ? AND acknowledged = 0 AND deleted_at IS NULL
+       LIMIT 1`,
+      [alertType, eventId]
+    );
+    return row ? this.rowToAlert(row) : null;
+  }
+
+  /**
+   * Acknowledge alert
+   */
+  async acknowledgeAlert(id: number, acknowledgedBy: string, acknowledgedAt: Date): Promise<boolean> {
+    const result = await this.db.execute(
+      `UPDATE safety_alerts
+       SET acknowledged = 1, acknowledged_by = ?, acknowledged_at = ?, updated_at = datetime('now')
+       WHERE id = ? AND acknowledged = 0 AND deleted_at IS NULL`,
+      [acknowledgedBy, acknowledgedAt.toISOString(), id]
+    );
+    return result.changes > 0;
+  }
+
+  private rowToFollowUp(row: IFollowUpRow): IAdverseEventFollowUpEntity {
+    return {
+      id: row.id,
+      eventId: row.event_id,
+      followUpNumber: row.followup_number,
+      changesJson: row.changes_json,
+      recordedAt: this.parseDate(row.recorded_at) ?? new Date(),
+      createdAt: this.parseDate(row.created_at),
+      updatedAt: this.parseDate(row.updated_at),
+      deletedAt: row.deleted_at ? this.parseDate(row.deleted_at) : null,
+    };
+  }
+
+  private rowToAlert(row: ISafetyAlertRow): ISafetyAlertEntity {
+    return {
+      id: row.id,
+      alertType: row.alert_type,
+      severity: row.severity,
+      userId: row.user_id,
+      userDisplayName: row.user_display_name || undefined,
+      message: row.message,
+      eventId: row.event_id ?? undefined,
+      acknowledged: row.acknowledged === 1,
+      acknowledgedBy: row.acknowledged_by || undefined,
+      acknowledgedAt: this.parseDate(row.acknowledged_at),
+      createdAt: this.parseDate(row.created_at),
+      updatedAt: this.parseDate(row.updated_at),
+      deletedAt: row.deleted_at ? this.parseDate(row.deleted_at) : null,
+    };
+  }
+}
@@ -0,0 +1,234 @@
+/**
+ * AssessmentScheduleRepository - Assessment Schedule Data Access
+ * ==============================================================
+ *
+ * Repository for per-user assessment schedules (one row per protocol instrument).
+ * Implements IAssessmentScheduleRepository with SQLite backend.
+ *
+ * Features:
+ * - Upsert by user + instrument
+ * - Score history and missed timepoints stored alongside schedule state
+ * - Rehydration query for service startup
+ * - Soft delete support
+ *
+ * Research basis:
+ * - dCBT-I protocols: assessments at baseline, W2, W4, W6, W8, W12
+ * - ePRO: follow-up timepoints must survive service restarts
+ *
+ * @packageDocumentation
+ * @module @sleepcore/infrastructure/database
+ */
+
+import type { IDatabaseConnection } from '../interfaces/IDatabaseConnection';
+import type {
+  IAssessmentScheduleRepository,
+  IAssessmentScheduleEntity,
+} from '../interfaces/IRepository';
+import { BaseRepository, type IBaseRow } from './BaseRepository';
+
+/**
+ * Database row for assessment schedule
+ */
+interface IAssessmentScheduleRow extends IBaseRow {
+  user_id: string;
+  instrument: IAssessmentScheduleEntity['instrument'];
+  chat_id: number;
+  user_name?: string | null;
+  timezone: string;
+  enrollment_date: string;
+  last_check_date?: string | null;
+  last_assessment_date?: string | null;
+  last_assessment_week?: number | null;
+  next_assessment_week: number;
+  reminder_sent: number;
+  history_json: string;
+  protocol_id: string;
+  reminder_count: number;
+  missed_weeks_json: string;
+}
+
+/**
+ * SQLite Assessment Schedule Repository implementation
+ */
+export class AssessmentScheduleRepository
+  extends BaseRepository<IAssessmentScheduleEntity>
+  implements IAssessmentScheduleRepository
+{
+  protected readonly tableName = 'assessment_schedules';
+
+  constructor(db: IDatabaseConnection) {
+    super(db);
+  }
+
+  protected rowToEntity(row: IAssessmentScheduleRow): IAssessmentScheduleEntity {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      instrument: row.instrument,
+      chatId: row.chat_id,
+      userName: row.user_name || undefined,
+      timezone: row.timezone,
+      enrollmentDate: this.parseDate(row.enrollment_date) ?? new Date(),
+      lastCheckDate: row.last_check_date || undefined,
+      lastAssessmentDate: this.parseDate(row.last_assessment_date),
+      lastAssessmentWeek: row.last_assessment_week ?? undefined,
+      nextAssessmentWeek: row.next_assessment_week,
+      reminderSent: row.reminder_sent === 1,
+      historyJson: row.history_json || '[]',
+      protocolId: row.protocol_id,
+      reminderCount: row.reminder_count ?? 0,
+      missedWeeksJson: row.missed_weeks_json || '[]',
+      createdAt: this.parseDate(row.created_at),
+      updatedAt: this.parseDate(row.updated_at),
+      deletedAt: row.deleted_at ? this.parseDate(row.deleted_at) : null,
+    };
+  }
+
+  protected entityToParams(entity: Partial<IAssessmentScheduleEntity>): Record<string, unknown> {
+    const params: Record<string, unknown> = {};
+
+    if (entity.id !== undefined) params.id = entity.id;
+    if (entity.userId !== undefined) params.user_id = entity.userId;
+    if (entity.instrument !== undefined) params.instrument = entity.instrument;
+    if (entity.chatId !== undefined) params.chat_id = entity.chatId;
+    if (entity.userName !== undefined) params.user_name = entity.userName;
+    if (entity.timezone !== undefined) params.timezone = entity.timezone;
+    if (entity.enrollmentDate !== undefined) params.enrollment_date = entity.enrollmentDate.toISOString();
+    if (entity.lastCheckDate !== undefined) params.last_check_date = entity.lastCheckDate;
+    if (entity.lastAssessmentDate !== undefined) {
+      params.last_assessment_date = entity.lastAssessmentDate.toISOString();
+    }
+    if (entity.lastAssessmentWeek !== undefined) params.last_assessment_week = entity.lastAssessmentWeek;
+    if (entity.nextAssessmentWeek !== undefined) params.next_assessment_week = entity.nextAssessmentWeek;
+    if (entity.reminderSent !== undefined) params.reminder_sent = entity.reminderSent ? 1 : 0;
+    if (entity.historyJson !== undefined) params.history_json = entity.historyJson;
+    if (entity.protocolId !== undefined) params.protocol_id = entity.protocolId;
+    if (entity.reminderCount !== undefined) params.reminder_count = entity.reminderCount;
+    if (entity.missedWeeksJson !== undefined) params.missed_weeks_json = entity.missedWeeksJson;
+
+    return params;
+  }
+
+  protected getInsertColumns(): string[] {
+    return [
+      'user_id',
+      'instrument',
+      'chat_id',
+      'user_name',
+      'timezone',
+      'enrollment_date',
+      'last_check_date',
+      'last_assessment_date',
+      'last_assessment_week',
+      'next_assessment_week',
+      'reminder_sent',
+      'history_json',
+      'protocol_id',
+      'reminder_count',
+      'missed_weeks_json',
+    ];
+  }
+
+  /**
+   * Find schedule by user and instrument
+   */
+  async findByUserAndInstrument(
+    userId: string,
+    instrument: IAssessmentScheduleEntity['instrument']
+  ): Promise<IAssessmentScheduleEntity | null> {
+    const row = await this.db.queryOne<IAssessmentScheduleRow>(
+      `SELECT * FROM ${this.tableName}
+       WHERE user_id = ? AND instrument = ? AND deleted_at IS NULL`,
+      [userId, instrument]
+    );
+    return row ? this.rowToEntity(row) : null;
+  }
+
+  /**
+   * Find all active schedules for an instrument
+   */
+  async findActiveByInstrument(
+    instrument: IAssessmentScheduleEntity['instrument']
+  ): Promise<IAssessmentScheduleEntity[]> {
+    const rows = await this.db.query<IAssessmentScheduleRow>(
+      `SELECT * FROM ${this.tableName}
+       WHERE instrument = ? AND deleted_at IS NULL
+       ORDER BY id ASC`,
+      [instrument]
+    );
+    return rows.map((row) => this.rowToEntity(row));
+  }
+
+  /**
+   * Find all active schedules across instruments
+   */
+  async findActive(): Promise<IAssessmentScheduleEntity[]> {
+    const rows = await this.db.query<IAssessmentScheduleRow>(
+      `SELECT * FROM ${this.tableName}
+       WHERE deleted_at IS NULL
+       ORDER BY id ASC`
+    );
+    return rows.map((row) => this.rowToEntity(row));
+  }
+
+  /**
+   * Upsert schedule (insert or update by user + instrument).
+   * Re-enrolling restores a soft-deleted row.
+   */
+  async upsert(
+    entity: Omit<IAssessmentScheduleEntity, 'id' | 'createdAt' | 'updatedAt'>
+  ): Promise<IAssessmentScheduleEntity> {
+    const params = this.entityToParams(entity);
+    const columns = this.getInsertColumns();
+    const values = columns.map((col) => params[col] ?? null);
+    const placeholders = columns.map(() => '?').join(', ');
+
+    const updateClause = columns
+      .filter((col) => col !== 'user_id' && col !== 'instrument')
+      .map((col) => `${col} = excluded.${col}`)
+      .join(', ');
+
+    const sql = `
+      INSERT INTO ${this.tableName} (${columns.join(', ')})
+      VALUES (${placeholders})
+      ON CONFLICT(user_id, instrument) DO UPDATE SET
+        ${updateClause},
+        deleted_at = NULL,
+        updated_at = datetime('now')
+    `;
+
+    await this.db.execute(sql, values);
+
+    const schedule = await this.findByUserAndInstrument(entity.userId, entity.instrument);
+    return schedule!;
+  }
+
+  /**
+   * Soft delete schedule by user and instrument
+   */
+  async removeByUserAndInstrument(
+    userId: string,
+    instrument: IAssessmentScheduleEntity['instrument']
+  ): Promise<boolean> {
+    const result = await this.db.execute(
+      `UPDATE ${this.tableName}
+       SET deleted_at = datetime('now'), updated_at = datetime('now')
+       WHERE user_id = ? AND instrument = ? AND deleted_at IS NULL`,
+      [userId, instrument]
+    );
+    return result.changes > 0;
+  }
+
+  /**
+   * Soft delete all schedules of a user
+   */
+  async removeByUser(userId: string): Promise<number> {
+    const result = await this.db.execute(
+      `UPDATE ${this.tableName}
+       SET deleted_at = datetime('now'), updated_at = datetime('now')
+       WHERE user_id = ? AND deleted_at IS NULL`,
+      [userId]
+    );
+    return result.changes;
+  }
+}
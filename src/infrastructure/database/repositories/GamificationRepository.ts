@@ -10,6 +10,7 @@
  * - Achievement/badge management
  * - Streak tracking with soft reset
  * - Quest progress tracking
+ * - Activity metrics for badge criteria
  * - Ethical gamification settings
  * - GDPR compliance (export, delete, anonymize)
  *
@@ -25,6 +26,7 @@ import type {
   IAchievementEntity,
   IStreakEntity,
   IUserQuestEntity,
+  IGamificationMetricEntity,
   IInventoryEntity,
   IEquippedItemsEntity,
   IGamificationSettingsEntity,
@@ -137,6 +139,16 @@ interface IUserQuestRow {
   updated_at?: string;
 }
 
+interface IGamificationMetricRow {
+  id?: number;
+  user_id: number;
+  metric: string;
+  count: number;
+  best_streak: number;
+  created_at?: string;
+  updated_at?: string;
+}
+
 interface IInventoryRow {
   id?: number;
   user_id: number;
@@ -711,6 +723,64 @@ export class GamificationRepository implements IGamificationRepository {
     };
   }
 
+  // ==================== METRICS ====================
+
+  async getMetrics(userId: number): Promise<IGamificationMetricEntity[]> {
+    const rows = await this.db.query<IGamificationMetricRow>(
+      `SELECT * FROM gamification_metrics WHERE user_id = ? ORDER BY metric`,
+      [userId]
+    );
+
+    return rows.map((row) => this.rowToMetricEntity(row));
+  }
+
+  async incrementMetric(userId: number, metric: string, amount: number = 1): Promise<IGamificationMetricEntity> {
+    await this.db.execute(
+      `INSERT INTO gamification_metrics (user_id, metric, count)
+       VALUES (?, ?, ?)
+       ON CONFLICT(user_id, metric) DO UPDATE SET
+         count = count + ?,
+         updated_at = datetime('now')`,
+      [userId, metric, amount, amount]
+    );
+
+    return this.getMetric(userId, metric);
+  }
+
+  async recordMetricStreak(userId: number, metric: string, streak: number): Promise<IGamificationMetricEntity> {
+    await this.db.execute(
+      `INSERT INTO gamification_metrics (user_id, metric, best_streak)
+       VALUES (?, ?, ?)
+       ON CONFLICT(user_id, metric) DO UPDATE SET
+         best_streak = MAX(best_streak, ?),
+         updated_at = datetime('now')`,
+      [userId, metric, streak, streak]
+    );
+
+    return this.getMetric(userId, metric);
+  }
+
+  private async getMetric(userId: number, metric: string): Promise<IGamificationMetricEntity> {
+    const row = await this.db.queryOne<IGamificationMetricRow>(
+      `SELECT * FROM gamification_metrics WHERE user_id = ? AND metric = ?`,
+      [userId, metric]
+    );
+
+    return this.rowToMetricEntity(row!);
+  }
+
+  private rowToMetricEntity(row: IGamificationMetricRow): IGamificationMetricEntity {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      metric: row.metric,
+      count: row.count,
+      bestStreak: row.best_streak,
+      createdAt: this.parseDate(row.created_at),
+      updatedAt: this.parseDate(row.updated_at),
+    };
+  }
+
   // ==================== INVENTORY ====================
 
   async getInventory(userId: number): Promise<IInventoryEntity[]> {
@@ -1160,15 +1230,17 @@ export class GamificationRepository implements IGamificationRepository {
     achievements: IAchievementEntity[];
     streaks: IStreakEntity[];
     quests: IUserQuestEntity[];
+    metrics: IGamificationMetricEntity[];
     inventory: IInventoryEntity[];
     settings: IGamificationSettingsEntity | null;
   }> {
-    const [state, xpTransactions, achievements, streaks, quests, inventory, settings] = await Promise.all([
+    const [state, xpTransactions, achievements, streaks, quests, metrics, inventory, settings] = await Promise.all([
       this.getState(userId),
       this.getXPTransactions(userId, 1000), // Export all
       this.getAchievements(userId),
       this.getStreaks(userId),
       this.getUserQuests(userId),
+      this.getMetrics(userId),
       this.getInventory(userId),
       this.getSettings(userId),
     ]);
@@ -1179,6 +1251,7 @@ export class GamificationRepository implements IGamificationRepository {
       achievements,
       streaks,
       quests,
+      metrics,
       inventory,
       settings,
     };
@@ -1191,6 +1264,7 @@ export class GamificationRepository implements IGamificationRepository {
       'achievements',
       'streaks',
       'user_quests',
+      'gamification_metrics',
       'inventory',
       'equipped_items',
       'gamification_settings',
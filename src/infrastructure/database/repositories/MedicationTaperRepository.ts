@@ -0,0 +1,143 @@
+/**
+ * MedicationTaperRepository - Hypnotic Taper Plan Persistence
+ * ===========================================================
+ *
+ * Repository for supervised sleep medication taper plans used by
+ * MedicationTaperingService.
+ * Implements IMedicationTaperRepository with SQLite backend.
+ *
+ * Features:
+ * - Lookup of the user's open (active or on-hold) plan
+ * - Schedule stored as JSON with per-step sign-off
+ * - Soft delete support
+ *
+ * @packageDocumentation
+ * @module @sleepcore/infrastructure/database
+ */
+
+import type { IDatabaseConnection } from '../interfaces/IDatabaseConnection';
+import type {
+  IMedicationTaperPlanEntity,
+  IMedicationTaperRepository,
+} from '../interfaces/IRepository';
+import { BaseRepository, type IBaseRow } from './BaseRepository';
+
+/**
+ * Database row for taper plan
+ */
+interface IMedicationTaperPlanRow extends IBaseRow {
+  user_id: string;
+  medication_name: string;
+  medication_type: IMedicationTaperPlanEntity['medicationType'];
+  medication_class: string;
+  dose_unit: IMedicationTaperPlanEntity['doseUnit'];
+  starting_dose: number;
+  reduction_percent: number;
+  step_interval_days: number;
+  status: string;
+  hold_reason?: string | null;
+  current_step: number;
+  steps_json: string;
+  prescribed_by: string;
+}
+
+/**
+ * SQLite Medication Taper Repository implementation
+ */
+export class MedicationTaperRepository
+  extends BaseRepository<IMedicationTaperPlanEntity>
+  implements IMedicationTaperRepository
+{
+  protected readonly tableName = 'medication_taper_plans';
+
+  constructor(db: IDatabaseConnection) {
+    super(db);
+  }
+
+  protected rowToEntity(row: IMedicationTaperPlanRow): IMedicationTaperPlanEntity {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      medicationName: row.medication_name,
+      medicationType: row.medication_type,
+      medicationClass: row.medication_class,
+      doseUnit: row.dose_unit,
+      startingDose: row.starting_dose,
+      reductionPercent: row.reduction_percent,
+      stepIntervalDays: row.step_interval_days,
+      status: row.status,
+      holdReason: row.hold_reason ?? undefined,
+      currentStep: row.current_step,
+      stepsJson: row.steps_json,
+      prescribedBy: row.prescribed_by,
+      createdAt: this.parseDate(row.created_at),
+      updatedAt: this.parseDate(row.updated_at),
+      deletedAt: row.deleted_at ? this.parseDate(row.deleted_at) : null,
+    };
+  }
+
+  protected entityToParams(entity: Partial<IMedicationTaperPlanEntity>): Record<string, unknown> {
+    const params: Record<string, unknown> = {};
+
+    if (entity.id !== undefined) params.id = entity.id;
+    if (entity.userId !== undefined) params.user_id = entity.userId;
+    if (entity.medicationName !== undefined) params.medication_name = entity.medicationName;
+    if (entity.medicationType !== undefined) params.medication_type = entity.medicationType;
+    if (entity.medicationClass !== undefined) params.medication_class = entity.medicationClass;
+    if (entity.doseUnit !== undefined) params.dose_unit = entity.doseUnit;
+    if (entity.startingDose !== undefined) params.starting_dose = entity.startingDose;
+    if (entity.reductionPercent !== undefined) params.reduction_percent = entity.reductionPercent;
+    if (entity.stepIntervalDays !== undefined) params.step_interval_days = entity.stepIntervalDays;
+    if (entity.status !== undefined) params.status = entity.status;
+    if (entity.holdReason !== undefined) params.hold_reason = entity.holdReason;
+    if (entity.currentStep !== undefined) params.current_step = entity.currentStep;
+    if (entity.stepsJson !== undefined) params.steps_json = entity.stepsJson;
+    if (entity.prescribedBy !== undefined) params.prescribed_by = entity.prescribedBy;
+
+    return params;
+  }
+
+  protected getInsertColumns(): string[] {
+    return [
+      'user_id',
+      'medication_name',
+      'medication_type',
+      'medication_class',
+      'dose_unit',
+      'starting_dose',
+      'reduction_percent',
+      'step_interval_days',
+      'status',
+      'hold_reason',
+      'current_step',
+      'steps_json',
+      'prescribed_by',
+    ];
+  }
+
+  /**
+   * Find the user's active or on-hold plan
+   */
+  async findOpenByUser(userId: string): Promise<IMedicationTaperPlanEntity | null> {
+    const row = await this.db.queryOne<IMedicationTaperPlanRow>(
+      `SELECT * FROM ${this.tableName}
+       WHERE user_id = ? AND status IN ('active', 'on_hold') AND deleted_at IS NULL
+       ORDER BY id DESC LIMIT 1`,
+      [userId]
+    );
+    return row ? this.rowToEntity(row) : null;
+  }
+
+  /**
+   * Find all of a user's plans, newest first
+   */
+  async findByUser(userId: string): Promise<IMedicationTaperPlanEntity[]> {
+    const rows = await this.db.query<IMedicationTaperPlanRow>(
+      `SELECT * FROM ${this.tableName}
+       WHERE user_id = ? AND deleted_at IS NULL
+       ORDER BY id DESC`,
+      [userId]
+    );
+    return rows.map((row) => this.rowToEntity(row));
+  }
+}
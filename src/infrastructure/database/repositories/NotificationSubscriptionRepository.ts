@@ -0,0 +1,191 @@
+/**
+ * NotificationSubscriptionRepository - Notification Subscription Data Access
+ * ==========================================================================
+ *
+ * Repository for proactive notification subscriptions.
+ * Implements INotificationSubscriptionRepository with SQLite backend.
+ *
+ * Features:
+ * - Upsert by bot-level user ID
+ * - Disable without losing engagement history
+ * - Rehydration query for service startup
+ * - Soft delete support
+ *
+ * @packageDocumentation
+ * @module @sleepcore/infrastructure/database
+ */
+
+import type { IDatabaseConnection } from '../interfaces/IDatabaseConnection';
+import type {
+  INotificationSubscriptionRepository,
+  INotificationSubscriptionEntity,
+} from '../interfaces/IRepository';
+import { BaseRepository, type IBaseRow } from './BaseRepository';
+
+/**
+ * Database row for notification subscription
+ */
+interface INotificationSubscriptionRow extends IBaseRow {
+  user_id: string;
+  chat_id: number;
+  user_name?: string | null;
+  enabled: number;
+  morning_time: string;
+  evening_time: string;
+  timezone: string;
+  context_json: string;
+  first_interaction_at: string;
+  last_notification_at?: string | null;
+  last_response_at?: string | null;
+  reengagement_attempts: number;
+  last_slot_dates_json: string;
+}
+
+/**
+ * SQLite Notification Subscription Repository implementation
+ */
+export class NotificationSubscriptionRepository
+  extends BaseRepository<INotificationSubscriptionEntity>
+  implements INotificationSubscriptionRepository
+{
+  protected readonly tableName = 'notification_subscriptions';
+
+  constructor(db: IDatabaseConnection) {
+    super(db);
+  }
+
+  protected rowToEntity(row: INotificationSubscriptionRow): INotificationSubscriptionEntity {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      chatId: row.chat_id,
+      userName: row.user_name || undefined,
+      enabled: row.enabled === 1,
+      morningTime: row.morning_time,
+      eveningTime: row.evening_time,
+      timezone: row.timezone,
+      contextJson: row.context_json || '{}',
+      firstInteractionAt: this.parseDate(row.first_interaction_at) ?? new Date(),
+      lastNotificationAt: this.parseDate(row.last_notification_at),
+      lastResponseAt: this.parseDate(row.last_response_at),
+      reengagementAttempts: row.reengagement_attempts,
+      lastSlotDatesJson: row.last_slot_dates_json || '{}',
+      createdAt: this.parseDate(row.created_at),
+      updatedAt: this.parseDate(row.updated_at),
+      deletedAt: row.deleted_at ? this.parseDate(row.deleted_at) : null,
+    };
+  }
+
+  protected entityToParams(entity: Partial<INotificationSubscriptionEntity>): Record<string, unknown> {
+    const params: Record<string, unknown> = {};
+
+    if (entity.id !== undefined) params.id = entity.id;
+    if (entity.userId !== undefined) params.user_id = entity.userId;
+    if (entity.chatId !== undefined) params.chat_id = entity.chatId;
+    if (entity.userName !== undefined) params.user_name = entity.userName;
+    if (entity.enabled !== undefined) params.enabled = entity.enabled ? 1 : 0;
+    if (entity.morningTime !== undefined) params.morning_time = entity.morningTime;
+    if (entity.eveningTime !== undefined) params.evening_time = entity.eveningTime;
+    if (entity.timezone !== undefined) params.timezone = entity.timezone;
+    if (entity.contextJson !== undefined) params.context_json = entity.contextJson;
+    if (entity.firstInteractionAt !== undefined) {
+      params.first_interaction_at = entity.firstInteractionAt.toISOString();
+    }
+    if (entity.lastNotificationAt !== undefined) {
+      params.last_notification_at = entity.lastNotificationAt.toISOString();
+    }
+    if (entity.lastResponseAt !== undefined) {
+      params.last_response_at = entity.lastResponseAt.toISOString();
+    }
+    if (entity.reengagementAttempts !== undefined) params.reengagement_attempts = entity.reengagementAttempts;
+    if (entity.lastSlotDatesJson !== undefined) params.last_slot_dates_json = entity.lastSlotDatesJson;
+
+    return params;
+  }
+
+  protected getInsertColumns(): string[] {
+    return [
+      'user_id',
+      'chat_id',
+      'user_name',
+      'enabled',
+      'morning_time',
+      'evening_time',
+      'timezone',
+      'context_json',
+      'first_interaction_at',
+      'last_notification_at',
+      'last_response_at',
+      'reengagement_attempts',
+      'last_slot_dates_json',
+    ];
+  }
+
+  /**
+   * Find subscription by bot-level user ID
+   */
+  async findByUserId(userId: string): Promise<INotificationSubscriptionEntity | null> {
+    const row = await this.db.queryOne<INotificationSubscriptionRow>(
+      `SELECT * FROM ${this.tableName} WHERE user_id = ? AND deleted_at IS NULL`,
+      [userId]
+    );
+    return row ? this.rowToEntity(row) : null;
+  }
+
+  /**
+   * Find all enabled subscriptions
+   */
+  async findEnabled(): Promise<INotificationSubscriptionEntity[]> {
+    const rows = await this.db.query<INotificationSubscriptionRow>(
+      `SELECT * FROM ${this.tableName}
+       WHERE enabled = 1 AND deleted_at IS NULL
+       ORDER BY id ASC`
+    );
+    return rows.map((row) => this.rowToEntity(row));
+  }
+
+  /**
+   * Upsert subscription (insert or update by user ID).
+   * Re-subscribing restores a soft-deleted row.
+   */
+  async upsert(
+    entity: Omit<INotificationSubscriptionEntity, 'id' | 'createdAt' | 'updatedAt'>
+  ): Promise<INotificationSubscriptionEntity> {
+    const params = this.entityToParams(entity);
+    const columns = this.getInsertColumns();
+    const values = columns.map((col) => params[col] ?? null);
+    const placeholders = columns.map(() => '?').join(', ');
+
+    const updateClause = columns
+      .filter((col) => col !== 'user_id')
+      .map((col) => `${col} = excluded.${col}`)
+      .join(', ');
+
+    const sql = `
+      INSERT INTO ${this.tableName} (${columns.join(', ')})
+      VALUES (${placeholders})
+      ON CONFLICT(user_id) DO UPDATE SET
+        ${updateClause},
+        deleted_at = NULL,
+        updated_at = datetime('now')
+    `;
+
+    await this.db.execute(sql, values);
+
+    const subscription = await this.findByUserId(entity.userId);
+    return subscription!;
+  }
+
+  /**
+   * Disable subscription without losing its state
+   */
+  async disable(userId: string): Promise<boolean> {
+    const result = await this.db.execute(
+      `UPDATE ${this.tableName}
+       SET enabled = 0, updated_at = datetime('now')
+       WHERE user_id = ? AND deleted_at IS NULL`,
+      [userId]
+    );
+    return result.changes > 0;
+  }
+}
@@ -0,0 +1,148 @@
+/**
+ * PLRNNModelRepository - PLRNN Weight Persistence
+ * ===============================================
+ *
+ * Repository for the population prior and per-user fine-tuned PLRNN models
+ * used by SleepPredictionService.
+ * Implements IPLRNNModelRepository with SQLite backend.
+ *
+ * Features:
+ * - Upsert by model key with version increment
+ * - Soft delete of user models (GDPR)
+ *
+ * @packageDocumentation
+ * @module @sleepcore/infrastructure/database
+ */
+
+import type { IDatabaseConnection } from '../interfaces/IDatabaseConnection';
+import type { IPLRNNModelEntity, IPLRNNModelRepository } from '../interfaces/IRepository';
+import { BaseRepository, type IBaseRow } from './BaseRepository';
+
+/**
+ * Database row for PLRNN model
+ */
+interface IPLRNNModelRow extends IBaseRow {
+  model_key: string;
+  user_id?: string | null;
+  version: number;
+  weights_json: string;
+  state_json?: string | null;
+  training_samples: number;
+  validation_loss?: number | null;
+  trained_at: string;
+}
+
+/**
+ * SQLite PLRNN Model Repository implementation
+ */
+export class PLRNNModelRepository
+  extends BaseRepository<IPLRNNModelEntity>
+  implements IPLRNNModelRepository
+{
+  protected readonly tableName = 'plrnn_models';
+
+  constructor(db: IDatabaseConnection) {
+    super(db);
+  }
+
+  protected rowToEntity(row: IPLRNNModelRow): IPLRNNModelEntity {
+    return {
+      id: row.id,
+      modelKey: row.model_key,
+      userId: row.user_id ?? undefined,
+      version: row.version,
+      weightsJson: row.weights_json,
+      stateJson: row.state_json ?? undefined,
+      trainingSamples: row.training_samples,
+      validationLoss: row.validation_loss ?? undefined,
+      trainedAt: this.parseDate(row.trained_at) ?? new Date(),
+      createdAt: this.parseDate(row.created_at),
+      updatedAt: this.parseDate(row.updated_at),
+      deletedAt: row.deleted_at ? this.parseDate(row.deleted_at) : null,
+    };
+  }
+
+  protected entityToParams(entity: Partial<IPLRNNModelEntity>): Record<string, unknown> {
+    const params: Record<string, unknown> = {};
+
+    if (entity.id !== undefined) params.id = entity.id;
+    if (entity.modelKey !== undefined) params.model_key = entity.modelKey;
+    if (entity.userId !== undefined) params.user_id = entity.userId;
+    if (entity.version !== undefined) params.version = entity.version;
+    if (entity.weightsJson !== undefined) params.weights_json = entity.weightsJson;
+    if (entity.stateJson !== undefined) params.state_json = entity.stateJson;
+    if (entity.trainingSamples !== undefined) params.training_samples = entity.trainingSamples;
+    if (entity.validationLoss !== undefined) params.validation_loss = entity.validationLoss;
+    if (entity.trainedAt !== undefined) params.trained_at = entity.trainedAt.toISOString();
+
+    return params;
+  }
+
+  protected getInsertColumns(): string[] {
+    return [
+      'model_key',
+      'user_id',
+      'version',
+      'weights_json',
+      'state_json',
+      'training_samples',
+      'validation_loss',
+      'trained_at',
+    ];
+  }
+
+  /**
+   * Find active model by key
+   */
+  async findByKey(modelKey: string): Promise<IPLRNNModelEntity | null> {
+    const row = await this.db.queryOne<IPLRNNModelRow>(
+      `SELECT * FROM ${this.tableName} WHERE model_key = ? AND deleted_at IS NULL`,
+      [modelKey]
+    );
+    return row ? this.rowToEntity(row) : null;
+  }
+
+  /**
+   * Insert or replace a model by key, incrementing its version.
+   * Saving over a soft-deleted model restores it.
+   */
+  async saveModel(
+    entity: Omit<IPLRNNModelEntity, 'id' | 'version' | 'createdAt' | 'updatedAt'>
+  ): Promise<IPLRNNModelEntity> {
+    const params = this.entityToParams({ ...entity, version: 1 });
+    const columns = this.getInsertColumns();
+    const values = columns.map((col) => params[col] ?? null);
+    const placeholders = columns.map(() => '?').join(', ');
+
+    const updateClause = columns
+      .filter((col) => col !== 'model_key' && col !== 'version')
+      .map((col) => `${col} = excluded.${col}`)
+      .join(', ');
+
+    const sql = `
+      INSERT INTO ${this.tableName} (${columns.join(', ')})
+      VALUES (${placeholders})
+      ON CONFLICT(model_key) DO UPDATE SET
+        ${updateClause},
+        version = version + 1,
+        deleted_at = NULL,
+        updated_at = datetime('now')
+    `;
+
+    await this.db.execute(sql, values);
+
+    return (await this.findByKey(entity.modelKey))!;
+  }
+
+  /**
+   * Soft delete a user's model (GDPR)
+   */
+  async deleteByUserId(userId: string): Promise<boolean> {
+    const result = await this.db.execute(
+      `UPDATE ${this.tableName} SET deleted_at = datetime('now'), updated_at = datetime('now')
+       WHERE user_id = ? AND deleted_at IS NULL`,
+      [userId]
+    );
+    return result.changes > 0;
+  }
+}
@@ -10,6 +10,8 @@
  * - Weekly/monthly summaries
  * - Sleep efficiency trend analysis
  * - ISI correlation support
+ * - Consensus Sleep Diary items (naps, substances, medication)
+ * - Lookups by bot-level user ID (resolved through users.external_id)
  *
  * @packageDocumentation
  * @module @sleepcore/infrastructure/database
@@ -20,6 +22,7 @@ import type {
   ISleepDiaryRepository,
   ISleepDiaryEntryEntity,
 } from '../interfaces/IRepository';
+import type { ExerciseTiming, ISleepMedicationDose } from '../../../sleep/interfaces/ISleepState';
 import { BaseRepository, type IBaseRow } from './BaseRepository';
 import { getPHIEncryptionManager } from '../security/PHIEncryptionManager';
 
@@ -27,7 +30,9 @@ import { getPHIEncryptionManager } from '../security/PHIEncryptionManager';
  * Database row for sleep diary entry
  */
 interface ISleepDiaryRow extends IBaseRow {
-  user_id: string;
+  user_id: number;
+  /** users.external_id, when the query joins users */
+  external_id?: string;
   date: string;
   bedtime: string;
   lights_off_time: string;
@@ -42,8 +47,19 @@ interface ISleepDiaryRow extends IBaseRow {
   sleep_quality: number;
   morning_mood: number;
   notes?: string;
+  nap_count: number | null;
+  nap_minutes: number | null;
+  caffeine_drinks: number | null;
+  last_caffeine_time: string | null;
+  alcohol_drinks: number | null;
+  sleep_medications_json: string | null;
+  early_awakening_minutes: number | null;
+  exercise_timing: ExerciseTiming | null;
 }
 
+/** users.id for a bot-level user ID; sleep_diary_entries.user_id references users(id) */
+const USER_ID_BY_EXTERNAL_ID = 'SELECT id FROM users WHERE external_id = ? AND deleted_at IS NULL';
+
 /**
  * SQLite Sleep Diary Repository implementation
  */
@@ -62,7 +78,7 @@ export class SleepDiaryRepository
 
     return {
       id: row.id,
-      userId: row.user_id,
+      userId: row.external_id ?? String(row.user_id),
       date: row.date,
       bedtime: row.bedtime,
       lightsOffTime: row.lights_off_time,
@@ -78,6 +94,16 @@ export class SleepDiaryRepository
       morningMood: row.morning_mood,
       // PHI field - decrypt on read
       notes: phiManager.decryptField(row.notes) ?? undefined,
+      napCount: row.nap_count ?? undefined,
+      napMinutes: row.nap_minutes ?? undefined,
+      caffeineDrinks: row.caffeine_drinks ?? undefined,
+      lastCaffeineTime: row.last_caffeine_time ?? undefined,
+      alcoholDrinks: row.alcohol_drinks ?? undefined,
+      sleepMedications: row.sleep_medications_json
+        ? (JSON.parse(row.sleep_medications_json) as ISleepMedicationDose[])
+        : undefined,
+      earlyAwakeningMinutes: row.early_awakening_minutes ?? undefined,
+      exerciseTiming: row.exercise_timing ?? undefined,
       createdAt: this.parseDate(row.created_at),
       updatedAt: this.parseDate(row.updated_at),
       deletedAt: row.deleted_at ? this.parseDate(row.deleted_at) : null,
@@ -107,6 +133,16 @@ export class SleepDiaryRepository
     if (entity.morningMood !== undefined) params.morning_mood = entity.morningMood;
     // PHI field - encrypt on write
     if (entity.notes !== undefined) params.notes = phiManager.encryptField(entity.notes);
+    if (entity.napCount !== undefined) params.nap_count = entity.napCount;
+    if (entity.napMinutes !== undefined) params.nap_minutes = entity.napMinutes;
+    if (entity.caffeineDrinks !== undefined) params.caffeine_drinks = entity.caffeineDrinks;
+    if (entity.lastCaffeineTime !== undefined) params.last_caffeine_time = entity.lastCaffeineTime;
+    if (entity.alcoholDrinks !== undefined) params.alcohol_drinks = entity.alcoholDrinks;
+    if (entity.sleepMedications !== undefined) {
+      params.sleep_medications_json = JSON.stringify(entity.sleepMedications);
+    }
+    if (entity.earlyAwakeningMinutes !== undefined) params.early_awakening_minutes = entity.earlyAwakeningMinutes;
+    if (entity.exerciseTiming !== undefined) params.exercise_timing = entity.exerciseTiming;
 
     return params;
   }
@@ -128,6 +164,14 @@ export class SleepDiaryRepository
       'sleep_quality',
       'morning_mood',
       'notes',
+      'nap_count',
+      'nap_minutes',
+      'caffeine_drinks',
+      'last_caffeine_time',
+      'alcohol_drinks',
+      'sleep_medications_json',
+      'early_awakening_minutes',
+      'exercise_timing',
     ];
   }
 
@@ -140,9 +184,10 @@ export class SleepDiaryRepository
     endDate: string
   ): Promise<ISleepDiaryEntryEntity[]> {
     const rows = await this.db.query<ISleepDiaryRow>(
-      `SELECT * FROM ${this.tableName}
-       WHERE user_id = ? AND date >= ? AND date <= ? AND deleted_at IS NULL
-       ORDER BY date ASC`,
+      `SELECT d.*, u.external_id FROM ${this.tableName} d
+       JOIN users u ON u.id = d.user_id
+       WHERE u.external_id = ? AND d.date >= ? AND d.date <= ? AND d.deleted_at IS NULL
+       ORDER BY d.date ASC`,
       [userId, startDate, endDate]
     );
     return rows.map((row) => this.rowToEntity(row));
@@ -184,7 +229,7 @@ export class SleepDiaryRepository
          AVG(sleep_quality) as avg_quality,
          COUNT(*) as entry_count
        FROM ${this.tableName}
-       WHERE user_id = ? AND date >= ? AND date <= ? AND deleted_at IS NULL`,
+       WHERE user_id = (${USER_ID_BY_EXTERNAL_ID}) AND date >= ? AND date <= ? AND deleted_at IS NULL`,
       [userId, weekStartDate, weekEndDate]
     );
 
@@ -208,7 +253,7 @@ export class SleepDiaryRepository
     const rows = await this.db.query<{ date: string; sleep_efficiency: number }>(
       `SELECT date, sleep_efficiency
        FROM ${this.tableName}
-       WHERE user_id = ? AND deleted_at IS NULL
+       WHERE user_id = (${USER_ID_BY_EXTERNAL_ID}) AND deleted_at IS NULL
        ORDER BY date DESC
        LIMIT ?`,
       [userId, days]
@@ -227,9 +272,10 @@ export class SleepDiaryRepository
    */
   async getLatestEntry(userId: string): Promise<ISleepDiaryEntryEntity | null> {
     const row = await this.db.queryOne<ISleepDiaryRow>(
-      `SELECT * FROM ${this.tableName}
-       WHERE user_id = ? AND deleted_at IS NULL
-       ORDER BY date DESC
+      `SELECT d.*, u.external_id FROM ${this.tableName} d
+       JOIN users u ON u.id = d.user_id
+       WHERE u.external_id = ? AND d.deleted_at IS NULL
+       ORDER BY d.date DESC
        LIMIT 1`,
       [userId]
     );
@@ -246,17 +292,23 @@ export class SleepDiaryRepository
   ): Promise<number> {
     const result = await this.db.queryOne<{ count: number }>(
       `SELECT COUNT(*) as count FROM ${this.tableName}
-       WHERE user_id = ? AND date >= ? AND date <= ? AND deleted_at IS NULL`,
+       WHERE user_id = (${USER_ID_BY_EXTERNAL_ID}) AND date >= ? AND date <= ? AND deleted_at IS NULL`,
       [userId, startDate, endDate]
     );
     return result?.count || 0;
   }
 
   /**
-   * Upsert entry (insert or update by user+date)
+   * Upsert entry (insert or update by user+date) for a bot user
+   * @throws If no users row matches the external ID
    */
   async upsert(entity: Omit<ISleepDiaryEntryEntity, 'id' | 'createdAt' | 'updatedAt'>): Promise<ISleepDiaryEntryEntity> {
-    const params = this.entityToParams(entity);
+    const user = await this.db.queryOne<{ id: number }>(USER_ID_BY_EXTERNAL_ID, [entity.userId]);
+    if (!user) {
+      throw new Error(`No user with external ID ${entity.userId}`);
+    }
+
+    const params = this.entityToParams({ ...entity, userId: String(user.id) });
     const columns = this.getInsertColumns();
     const values = columns.map((col) => params[col]);
     const placeholders = columns.map(() => '?').join(', ');
@@ -278,12 +330,8 @@ export class SleepDiaryRepository
     await this.db.execute(sql, values);
 
     // Return the upserted entry
-    const entry = await this.findOneBy({
-      userId: entity.userId,
-      date: entity.date,
-    } as Partial<ISleepDiaryEntryEntity>);
-
-    return entry!;
+    const [entry] = await this.findByUserAndDateRange(entity.userId, entity.date, entity.date);
+    return entry;
   }
 
   /**
@@ -313,7 +361,7 @@ export class SleepDiaryRepository
          COUNT(*) as entry_count
        FROM (
          SELECT * FROM ${this.tableName}
-         WHERE user_id = ? AND deleted_at IS NULL
+         WHERE user_id = (${USER_ID_BY_EXTERNAL_ID}) AND deleted_at IS NULL
          ORDER BY date ASC
          LIMIT 7
        )`,
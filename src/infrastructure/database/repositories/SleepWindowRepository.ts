@@ -0,0 +1,159 @@
+/**
+ * SleepWindowRepository - Sleep Window Data Access
+ * ================================================
+ *
+ * Repository for prescribed sleep restriction windows (sleep_window_history).
+ * Implements ISleepWindowRepository with SQLite backend.
+ *
+ * Features:
+ * - Append-only window history, one row per prescription evaluation
+ * - Observed SE and adjustment direction per row
+ * - Lookups by bot-level user ID (resolved through users.external_id)
+ * - Soft delete support
+ *
+ * Research basis:
+ * - Spielman et al. (1987): sleep restriction titrated weekly by SE
+ * - AASM (2021): SE ≥90% → extend window, <85% → shorten, minimum 5h TIB
+ *
+ * @packageDocumentation
+ * @module @sleepcore/infrastructure/database
+ */
+
+import type { IDatabaseConnection } from '../interfaces/IDatabaseConnection';
+import type { ISleepWindowRepository, ISleepWindowEntity } from '../interfaces/IRepository';
+import { BaseRepository, type IBaseRow } from './BaseRepository';
+
+/**
+ * Database row for sleep window
+ */
+interface ISleepWindowRow extends IBaseRow {
+  user_id: number;
+  plan_id?: number | null;
+  week: number;
+  bedtime: string;
+  wake_time: string;
+  time_in_bed: number;
+  sleep_efficiency_target?: number | null;
+  observed_efficiency?: number | null;
+  adjustment: ISleepWindowEntity['adjustment'];
+  adjustment_reason?: string | null;
+}
+
+/**
+ * SQLite Sleep Window Repository implementation
+ */
+export class SleepWindowRepository
+  extends BaseRepository<ISleepWindowEntity>
+  implements ISleepWindowRepository
+{
+  protected readonly tableName = 'sleep_window_history';
+
+  constructor(db: IDatabaseConnection) {
+    super(db);
+  }
+
+  protected rowToEntity(row: ISleepWindowRow): ISleepWindowEntity {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      planId: row.plan_id ?? undefined,
+      week: row.week,
+      bedtime: row.bedtime,
+      wakeTime: row.wake_time,
+      timeInBed: row.time_in_bed,
+      sleepEfficiencyTarget: row.sleep_efficiency_target ?? undefined,
+      observedEfficiency: row.observed_efficiency ?? undefined,
+      adjustment: row.adjustment,
+      adjustmentReason: row.adjustment_reason || undefined,
+      createdAt: this.parseDate(row.created_at),
+      updatedAt: this.parseDate(row.updated_at),
+      deletedAt: row.deleted_at ? this.parseDate(row.deleted_at) : null,
+    };
+  }
+
+  protected entityToParams(entity: Partial<ISleepWindowEntity>): Record<string, unknown> {
+    const params: Record<string, unknown> = {};
+
+    if (entity.id !== undefined) params.id = entity.id;
+    if (entity.userId !== undefined) params.user_id = entity.userId;
+    if (entity.planId !== undefined) params.plan_id = entity.planId;
+    if (entity.week !== undefined) params.week = entity.week;
+    if (entity.bedtime !== undefined) params.bedtime = entity.bedtime;
+    if (entity.wakeTime !== undefined) params.wake_time = entity.wakeTime;
+    if (entity.timeInBed !== undefined) params.time_in_bed = entity.timeInBed;
+    if (entity.sleepEfficiencyTarget !== undefined) {
+      params.sleep_efficiency_target = entity.sleepEfficiencyTarget;
+    }
+    if (entity.observedEfficiency !== undefined) params.observed_efficiency = entity.observedEfficiency;
+    if (entity.adjustment !== undefined) params.adjustment = entity.adjustment;
+    if (entity.adjustmentReason !== undefined) params.adjustment_reason = entity.adjustmentReason;
+
+    return params;
+  }
+
+  protected getInsertColumns(): string[] {
+    return [
+      'user_id',
+      'plan_id',
+      'week',
+      'bedtime',
+      'wake_time',
+      'time_in_bed',
+      'sleep_efficiency_target',
+      'observed_efficiency',
+      'adjustment',
+      'adjustment_reason',
+    ];
+  }
+
+  /**
+   * Append a window for a bot user.
+   * Returns null if no users row matches the external ID.
+   */
+  async record(
+    externalId: string,
+    window: Omit<ISleepWindowEntity, 'id' | 'userId' | 'createdAt' | 'updatedAt'>
+  ): Promise<ISleepWindowEntity | null> {
+    const user = await this.db.queryOne<{ id: number }>(
+      'SELECT id FROM users WHERE external_id = ? AND deleted_at IS NULL',
+      [externalId]
+    );
+    if (!user) return null;
+
+    const params = this.entityToParams({ ...window, userId: user.id });
+    const columns = this.getInsertColumns();
+    const values = columns.map((col) => params[col] ?? null);
+    const placeholders = columns.map(() => '?').join(', ');
+
+    const result = await this.db.execute(
+      `INSERT INTO ${this.tableName} (${columns.join(', ')}, updated_at)
+       VALUES (${placeholders}, datetime('now'))`,
+      values
+    );
+
+    return this.findById(result.lastInsertRowid);
+  }
+
+  /**
+   * Find the most recent window for a bot user
+   */
+  async findCurrent(externalId: string): Promise<ISleepWindowEntity | null> {
+    const [current] = await this.findHistory(externalId, 1);
+    return current ?? null;
+  }
+
+  /**
+   * Find windows for a bot user, newest first
+   */
+  async findHistory(externalId: string, limit: number = 12): Promise<ISleepWindowEntity[]> {
+    const rows = await this.db.query<ISleepWindowRow>(
+      `SELECT w.* FROM ${this.tableName} w
+       JOIN users u ON u.id = w.user_id
+       WHERE u.external_id = ? AND w.deleted_at IS NULL
+       ORDER BY w.created_at DESC, w.id DESC
+       LIMIT ?`,
+      [externalId, limit]
+    );
+    return rows.map((row) => this.rowToEntity(row));
+  }
+}
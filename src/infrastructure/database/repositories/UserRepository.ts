@@ -10,6 +10,7 @@
  * - Consent management
  * - Timezone/locale handling
  * - Chronotype/cultural profile
+ * - Assessment protocol (study cohort)
  *
  * @packageDocumentation
  * @module @sleepcore/infrastructure/database
@@ -37,6 +38,7 @@ interface IUserRow extends IBaseRow {
   consent_given: number;
   consent_date?: string;
   last_activity_at?: string;
+  assessment_protocol?: string | null;
 }
 
 /**
@@ -71,6 +73,7 @@ export class UserRepository
       consentGiven: row.consent_given === 1,
       consentDate: row.consent_date ? this.parseDate(row.consent_date) : undefined,
       lastActivityAt: row.last_activity_at ? this.parseDate(row.last_activity_at) : undefined,
+      assessmentProtocol: row.assessment_protocol ?? undefined,
       createdAt: this.parseDate(row.created_at),
       updatedAt: this.parseDate(row.updated_at),
       deletedAt: row.deleted_at ? this.parseDate(row.deleted_at) : null,
@@ -104,6 +107,7 @@ export class UserRepository
         ? entity.lastActivityAt.toISOString()
         : entity.lastActivityAt;
     }
+    if (entity.assessmentProtocol !== undefined) params.assessment_protocol = entity.assessmentProtocol;
 
     return params;
   }
@@ -122,6 +126,7 @@ export class UserRepository
       'settings_json',
       'consent_given',
       'consent_date',
+      'assessment_protocol',
     ];
   }
 
@@ -0,0 +1,173 @@
+/**
+ * WearableSleepRepository - Wearable Sleep Data Access
+ * =====================================================
+ *
+ * Repository for nights imported from wearable device exports.
+ * Implements IWearableSleepRepository with SQLite backend.
+ *
+ * Features:
+ * - Upsert by user + date + source (re-importing an export is idempotent)
+ * - Date-range lookups for diary reconciliation
+ * - Soft delete support
+ *
+ * @packageDocumentation
+ * @module @sleepcore/infrastructure/database
+ */
+
+import type { IDatabaseConnection } from '../interfaces/IDatabaseConnection';
+import type {
+  IWearableSleepRepository,
+  IWearableSleepRecordEntity,
+} from '../interfaces/IRepository';
+import { BaseRepository, type IBaseRow } from './BaseRepository';
+
+/**
+ * Database row for wearable sleep record
+ */
+interface IWearableSleepRow extends IBaseRow {
+  user_id: string;
+  date: string;
+  source: IWearableSleepRecordEntity['source'];
+  import_format: IWearableSleepRecordEntity['importFormat'];
+  bedtime: string;
+  wake_time: string;
+  total_sleep_time: number;
+  sleep_efficiency: number;
+  stages_json?: string | null;
+  heart_rate_avg?: number | null;
+  hrv_avg?: number | null;
+  respiratory_rate?: number | null;
+  skin_temperature?: number | null;
+  imported_at: string;
+}
+
+/**
+ * SQLite Wearable Sleep Repository implementation
+ */
+export class WearableSleepRepository
+  extends BaseRepository<IWearableSleepRecordEntity>
+  implements IWearableSleepRepository
+{
+  protected readonly tableName = 'wearable_sleep_records';
+
+  constructor(db: IDatabaseConnection) {
+    super(db);
+  }
+
+  protected rowToEntity(row: IWearableSleepRow): IWearableSleepRecordEntity {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      date: row.date,
+      source: row.source,
+      importFormat: row.import_format,
+      bedtime: row.bedtime,
+      wakeTime: row.wake_time,
+      totalSleepTime: row.total_sleep_time,
+      sleepEfficiency: row.sleep_efficiency,
+      stagesJson: row.stages_json || undefined,
+      heartRateAvg: row.heart_rate_avg ?? undefined,
+      hrvAvg: row.hrv_avg ?? undefined,
+      respiratoryRate: row.respiratory_rate ?? undefined,
+      skinTemperature: row.skin_temperature ?? undefined,
+      importedAt: this.parseDate(row.imported_at) ?? new Date(),
+      createdAt: this.parseDate(row.created_at),
+      updatedAt: this.parseDate(row.updated_at),
+      deletedAt: row.deleted_at ? this.parseDate(row.deleted_at) : null,
+    };
+  }
+
+  protected entityToParams(entity: Partial<IWearableSleepRecordEntity>): Record<string, unknown> {
+    const params: Record<string, unknown> = {};
+
+    if (entity.id !== undefined) params.id = entity.id;
+    if (entity.userId !== undefined) params.user_id = entity.userId;
+    if (entity.date !== undefined) params.date = entity.date;
+    if (entity.source !== undefined) params.source = entity.source;
+    if (entity.importFormat !== undefined) params.import_format = entity.importFormat;
+    if (entity.bedtime !== undefined) params.bedtime = entity.bedtime;
+    if (entity.wakeTime !== undefined) params.wake_time = entity.wakeTime;
+    if (entity.totalSleepTime !== undefined) params.total_sleep_time = entity.totalSleepTime;
+    if (entity.sleepEfficiency !== undefined) params.sleep_efficiency = entity.sleepEfficiency;
+    if (entity.stagesJson !== undefined) params.stages_json = entity.stagesJson;
+    if (entity.heartRateAvg !== undefined) params.heart_rate_avg = entity.heartRateAvg;
+    if (entity.hrvAvg !== undefined) params.hrv_avg = entity.hrvAvg;
+    if (entity.respiratoryRate !== undefined) params.respiratory_rate = entity.respiratoryRate;
+    if (entity.skinTemperature !== undefined) params.skin_temperature = entity.skinTemperature;
+    if (entity.importedAt !== undefined) params.imported_at = entity.importedAt.toISOString();
+
+    return params;
+  }
+
+  protected getInsertColumns(): string[] {
+    return [
+      'user_id',
+      'date',
+      'source',
+      'import_format',
+      'bedtime',
+      'wake_time',
+      'total_sleep_time',
+      'sleep_efficiency',
+      'stages_json',
+      'heart_rate_avg',
+      'hrv_avg',
+      'respiratory_rate',
+      'skin_temperature',
+      'imported_at',
+    ];
+  }
+
+  /**
+   * Find records by user and wake-date range (inclusive)
+   */
+  async findByUserAndDateRange(
+    userId: string,
+    startDate: string,
+    endDate: string
+  ): Promise<IWearableSleepRecordEntity[]> {
+    const rows = await this.db.query<IWearableSleepRow>(
+      `SELECT * FROM ${this.tableName}
+       WHERE user_id = ? AND date >= ? AND date <= ? AND deleted_at IS NULL
+       ORDER BY date ASC, source ASC`,
+      [userId, startDate, endDate]
+    );
+    return rows.map((row) => this.rowToEntity(row));
+  }
+
+  /**
+   * Upsert record (insert or update by user + date + source).
+   * Re-importing restores a soft-deleted row.
+   */
+  async upsert(
+    entity: Omit<IWearableSleepRecordEntity, 'id' | 'createdAt' | 'updatedAt'>
+  ): Promise<IWearableSleepRecordEntity> {
+    const params = this.entityToParams(entity);
+    const columns = this.getInsertColumns();
+    const values = columns.map((col) => params[col] ?? null);
+    const placeholders = columns.map(() => '?').join(', ');
+
+    const updateClause = columns
+      .filter((col) => col !== 'user_id' && col !== 'date' && col !== 'source')
+      .map((col) => `${col} = excluded.${col}`)
+      .join(', ');
+
+    const sql = `
+      INSERT INTO ${this.tableName} (${columns.join(', ')})
+      VALUES (${placeholders})
+      ON CONFLICT(user_id, date, source) DO UPDATE SET
+        ${updateClause},
+        deleted_at = NULL,
+        updated_at = datetime('now')
+    `;
+
+    await this.db.execute(sql, values);
+
+    const row = await this.db.queryOne<IWearableSleepRow>(
+      `SELECT * FROM ${this.tableName}
+       WHERE user_id = ? AND date = ? AND source = ? AND deleted_at IS NULL`,
+      [entity.userId, entity.date, entity.source]
+    );
+    return this.rowToEntity(row!);
+  }
+}
@@ -35,8 +35,9 @@ import * as path from 'path';
 import * as fs from 'fs';
 
 import { SleepCoreAPI, sleepCore } from './SleepCoreAPI';
+import type { ISleepDiaryEntry } from './sleep/interfaces/ISleepState';
 import {
-  createCommandHandler,
+  setupAdminHandlers,
   startCommand,
   diaryCommand,
   todayCommand,
@@ -53,6 +54,9 @@ import {
   evolutionCommand,
   // Phase 7: Structured CBT-I Sessions
   therapyCommand,
+  assessCommand,
+  whatIfCommand,
+  adminCommand,
   type ICommandResult,
   type ISleepCoreContext,
   type IConversationCommand,
@@ -66,8 +70,8 @@ import {
 import {
   createWhisperService,
   createVoiceDiaryHandler,
-  questService,
-  badgeService,
+  createWearableImportService,
+  createCriteriaDataSource,
   sonyaEvolutionService,
   adaptiveKeyboardService,
   type IKeyboardCommand,
@@ -91,7 +95,23 @@ import {
   type IMoodHistory,
   type MoodLevel,
   type SleepQualityLevel,
+  type ProactiveNotificationService,
+  type ISISchedulingService,
+  // Sprint 7: Gamification shared by commands and voice handler
+  gamificationContext,
+  getGamificationEngine,
+  recordVoiceDiaryEntry,
+  recordQuestionnaireAssessment,
+  // Per-user timezone
+  createTimezoneSettingsService,
+  resolveTimezone,
+  DEFAULT_TIMEZONE,
+  TIMEZONE_CHOICES,
+  type TimezoneSettingsService,
+  // PLRNN sleep prediction
+  diaryEntryToHistoryEntry,
 } from './bot/services';
+import { adaptiveSleepRestrictionService } from './cbt-i/services';
 import { VERSION, BUILD_DATE } from './index';
 
 // Database imports
@@ -104,16 +124,23 @@ import {
   TherapySessionRepository,
   GamificationRepository,
   VoiceDiaryRepository,
+  NotificationSubscriptionRepository,
+  AssessmentScheduleRepository,
+  SleepWindowRepository,
+  WearableSleepRepository,
+  PLRNNModelRepository,
   createAutomatedBackupScheduler,
   // ICH E6(R3) / 21 CFR Part 11 compliant audit logging
   AuditService,
   type IDatabaseConnection,
   type GrammySessionAdapter,
-  type ISleepDiaryEntryEntity,
   type IAssessmentEntity,
   type ITherapySessionEntity,
 } from './infrastructure/database';
 
+// Questionnaire engine (PSQI, ESS, DBAS-16, PHQ-9, GAD-7)
+import type { IQuestionnaireResult } from './assessment';
+
 // Monitoring imports (Sentry)
 import { sentryService } from './infrastructure/monitoring';
 
@@ -135,6 +162,9 @@ interface SessionData {
   /** User's display name */
   userName?: string;
 
+  /** User's IANA timezone (from users table) */
+  timezone?: string;
+
   /** Current conversation step (for multi-step flows) */
   currentStep?: string;
 
@@ -180,6 +210,12 @@ interface SessionData {
     selectedFactors: string[];
   };
 
+  /** Sleep diary entry parsed from a message or voice transcript, awaiting confirmation */
+  pendingDiaryText?: {
+    date: string;
+    textEntry: Partial<ISleepDiaryEntry>;
+  };
+
   /** Onboarding progress tracking (funnel analytics) */
   onboardingProgress?: {
     startedAt: Date;
@@ -204,9 +240,11 @@ type MyContext = Context & SessionFlavor<SessionData> & HydrateFlavor<Context>;
  */
 interface SleepCoreContext extends MyContext {
   readonly userId: string;
+  readonly dbUserId?: number;
   readonly chatId: number;
   readonly displayName: string;
   readonly languageCode: string;
+  readonly timezone?: string;
   readonly sleepCore: SleepCoreAPI;
 }
 
@@ -262,6 +300,10 @@ function extendContext(ctx: MyContext, api: SleepCoreAPI): SleepCoreContext {
     get: () => ctx.from?.id.toString() || '',
     enumerable: true,
   });
+  Object.defineProperty(extended, 'dbUserId', {
+    get: () => ctx.session.dbUserId,
+    enumerable: true,
+  });
   Object.defineProperty(extended, 'chatId', {
     get: () => ctx.chat?.id || 0,
     enumerable: true,
@@ -274,6 +316,10 @@ function extendContext(ctx: MyContext, api: SleepCoreAPI): SleepCoreContext {
     get: () => ctx.from?.language_code || 'ru',
     enumerable: true,
   });
+  Object.defineProperty(extended, 'timezone', {
+    get: () => ctx.session.timezone,
+    enumerable: true,
+  });
   Object.defineProperty(extended, 'sleepCore', {
     get: () => api,
     enumerable: true,
@@ -373,12 +419,34 @@ async function _sendResult(ctx: MyContext, result: ICommandResult): Promise<void
  */
 function getReplyKeyboard(ctx: MyContext): ReturnType<typeof replyKeyboard.generate> {
   return replyKeyboard.generate({
-    timeOfDay: replyKeyboard.getTimeOfDay(),
+    timeOfDay: replyKeyboard.getTimeOfDay(resolveTimezone(ctx.session.timezone)),
     isVulnerable: false, // TODO: integrate with JITAI vulnerable state detection
     hasCompletedOnboarding: ctx.session.therapyState?.hasCompletedOnboarding ?? false,
   });
 }
 
+/**
+ * Offer a sleep diary entry described in free text; the parsed entry waits
+ * in the session until the user rates sleep quality (diary:text_quality)
+ * @returns Whether the text described a night and a prompt was sent
+ */
+async function offerDiaryFromText(ctx: MyContext, sleepCoreCtx: SleepCoreContext, text: string): Promise<boolean> {
+  try {
+    const result = await diaryCommand.fromText(sleepCoreCtx as ISleepCoreContext, text);
+    if (!result) {
+      return false;
+    }
+
+    const { date, textEntry } = result.metadata as NonNullable<SessionData['pendingDiaryText']>;
+    ctx.session.pendingDiaryText = { date, textEntry };
+    await sendResultWithKeyboard(ctx, result);
+    return true;
+  } catch (error) {
+    console.error('[Diary] Free-text parsing failed:', error);
+    return false;
+  }
+}
+
 /**
  * Send result with context-aware reply keyboard
  *
@@ -429,7 +497,7 @@ async function sendResultWithKeyboard(ctx: MyContext, result: ICommandResult): P
  */
 async function initReplyKeyboard(ctx: MyContext): Promise<void> {
   const replyKb = getReplyKeyboard(ctx);
-  const timeOfDay = replyKeyboard.getTimeOfDay();
+  const timeOfDay = replyKeyboard.getTimeOfDay(resolveTimezone(ctx.session.timezone));
   const greeting = timeOfDay === 'morning' ? '🌅' :
                    timeOfDay === 'day' ? '☀️' :
                    timeOfDay === 'evening' ? '🌆' : '🌙';
@@ -439,20 +507,70 @@ async function initReplyKeyboard(ctx: MyContext): Promise<void> {
   });
 }
 
+/**
+ * Inline keyboard with the timezones offered in /settings
+ */
+function buildTimezoneKeyboard(): InlineKeyboard {
+  const keyboard = new InlineKeyboard();
+  TIMEZONE_CHOICES.forEach((choice, index) => {
+    keyboard.text(choice.label, `settings:tz:${choice.timezone}`);
+    if (index % 2 === 1) keyboard.row();
+  });
+  return keyboard;
+}
+
 /**
  * Options for setting up commands
  */
 interface SetupCommandsOptions {
   userRepository?: UserRepository;
   auditService?: AuditService;
+  notificationService?: ProactiveNotificationService;
+  timezoneSettings?: TimezoneSettingsService;
 }
 
 /**
  * Setup command handlers
  */
 function setupCommands(bot: Bot<MyContext>, api: SleepCoreAPI, options: SetupCommandsOptions = {}): void {
-  const _commandHandler = createCommandHandler(api);
-  const { userRepository, auditService } = options;
+  const { userRepository, auditService, notificationService, timezoneSettings } = options;
+
+  // Resolve users.id once per session for users registered before it was stored;
+  // gamification and assessment rows are keyed by it, not by the Telegram ID
+  // (diary repositories resolve the Telegram ID through users.external_id)
+  if (userRepository) {
+    bot.use(async (ctx, next) => {
+      if (ctx.from && !ctx.session.dbUserId) {
+        try {
+          const dbUser = await userRepository.findByExternalId(ctx.from.id.toString());
+          if (dbUser?.id) {
+            ctx.session.dbUserId = dbUser.id;
+            ctx.session.timezone ??= dbUser.timezone;
+          }
+        } catch (error) {
+          console.error('[Database] User lookup failed:', error);
+        }
+      }
+      await next();
+    });
+  }
+
+  // Any message or button press keeps the user inside the 14-day notification window
+  if (notificationService) {
+    bot.on(['message', 'callback_query'], async (ctx, next) => {
+      if (ctx.from) {
+        try {
+          await notificationService.recordUserResponse(ctx.from.id.toString());
+        } catch (error) {
+          console.error('[Notifications] Failed to record user response:', error);
+        }
+      }
+      await next();
+    });
+  }
+
+  // /admin [taper|cohort ...] and admin:* buttons, ahead of the general callback handler
+  setupAdminHandlers(bot, (ctx) => extendContext(ctx, api) as ISleepCoreContext);
 
   // /start command - Welcome + ISI assessment
   bot.command('start', async (ctx) => {
@@ -476,7 +594,7 @@ function setupCommands(bot: Bot<MyContext>, api: SleepCoreAPI, options: SetupCom
             externalId: sleepCoreCtx.userId,
             firstName: ctx.from?.first_name,
             lastName: ctx.from?.last_name,
-            timezone: 'Europe/Moscow', // Default timezone, can be updated later
+            timezone: DEFAULT_TIMEZONE, // Changed by the user in /settings
             locale: ctx.from?.language_code || 'ru',
             consentGiven: false, // Explicit consent required via consent dialog
             consentDate: undefined,
@@ -498,6 +616,7 @@ function setupCommands(bot: Bot<MyContext>, api: SleepCoreAPI, options: SetupCom
 
         // Store database user ID in session for linking
         ctx.session.dbUserId = dbUser.id;
+        ctx.session.timezone = dbUser.timezone;
       } catch (error) {
         console.error('[Database] User creation failed:', error);
         // Continue without database - graceful degradation
@@ -529,6 +648,22 @@ function setupCommands(bot: Bot<MyContext>, api: SleepCoreAPI, options: SetupCom
     // Start SleepCore session
     api.startSession(sleepCoreCtx.userId);
 
+    // Register for proactive notifications in the user's own timezone
+    if (notificationService && ctx.chat && !notificationService.getUserData(sleepCoreCtx.userId)) {
+      await notificationService.registerUser({
+        chatId: ctx.chat.id,
+        userId: sleepCoreCtx.userId,
+        userName: ctx.from?.first_name,
+        preferences: {
+          enabled: true,
+          morningTime: '08:00',
+          eveningTime: '20:00',
+          timezone: resolveTimezone(ctx.session.timezone),
+        },
+        context: {},
+      });
+    }
+
     // Initialize reply keyboard first (persistent bottom navigation)
     await initReplyKeyboard(ctx);
 
@@ -654,6 +789,23 @@ function setupCommands(bot: Bot<MyContext>, api: SleepCoreAPI, options: SetupCom
     });
   });
 
+  // /assess command - Validated questionnaires (PSQI, ESS, DBAS-16, PHQ-9, GAD-7)
+  bot.command(['assess', 'тесты', 'опросники'], async (ctx) => {
+    const sleepCoreCtx = extendContext(ctx, api);
+    ctx.session.lastActivityAt = new Date();
+    const args = ctx.message?.text?.split(' ').slice(1).join(' ');
+    const result = await assessCommand.execute(sleepCoreCtx as ISleepCoreContext, args);
+    await sendResultWithKeyboard(ctx, result);
+  });
+
+  // /whatif command - Sleep window what-if forecasts from the diary twin
+  bot.command(['whatif', 'twin', 'прогноз'], async (ctx) => {
+    const sleepCoreCtx = extendContext(ctx, api);
+    ctx.session.lastActivityAt = new Date();
+    const result = await whatIfCommand.execute(sleepCoreCtx as ISleepCoreContext);
+    await sendResultWithKeyboard(ctx, result);
+  });
+
   // /rehearsal command - Evening mental rehearsal (Smart Memory Window)
   bot.command(['rehearsal', 'репетиция', 'вечер', 'memory'], async (ctx) => {
     const sleepCoreCtx = extendContext(ctx, api);
@@ -720,6 +872,7 @@ function setupCommands(bot: Bot<MyContext>, api: SleepCoreAPI, options: SetupCom
       '⚙️ *Настройки*\n\n' +
       `🔔 Уведомления: ${ctx.session.preferences.notifications ? 'Вкл' : 'Выкл'}\n` +
       `⏰ Время напоминания: ${ctx.session.preferences.notificationTime || 'Не задано'}\n` +
+      `🕐 Часовой пояс: ${timezoneSettings?.getLabel(resolveTimezone(ctx.session.timezone)) ?? resolveTimezone(ctx.session.timezone)}\n` +
       `🌍 Язык: ${ctx.session.preferences.language === 'ru' ? 'Русский' : 'English'}`,
       {
         parse_mode: 'Markdown',
@@ -727,12 +880,35 @@ function setupCommands(bot: Bot<MyContext>, api: SleepCoreAPI, options: SetupCom
           inline_keyboard: [
             [{ text: ctx.session.preferences.notifications ? '🔕 Выкл' : '🔔 Вкл', callback_data: 'settings:toggle' }],
             [{ text: '⏰ Время', callback_data: 'settings:time' }],
+            [{ text: '🕐 Часовой пояс', callback_data: 'settings:timezone' }],
           ],
         },
       }
     );
   });
 
+  // /timezone command - Reminders and assessments follow the user's local time
+  bot.command(['timezone', 'часовой_пояс'], async (ctx) => {
+    ctx.session.lastActivityAt = new Date();
+    const requested = ctx.message?.text?.split(' ').slice(1).join(' ').trim();
+
+    if (requested && timezoneSettings && ctx.from) {
+      if (await timezoneSettings.setTimezone(ctx.from.id.toString(), ctx.session.dbUserId, requested)) {
+        ctx.session.timezone = requested;
+        await ctx.reply(`🕐 Часовой пояс: ${timezoneSettings.getLabel(requested)}. Напоминания придут по твоему времени.`);
+      } else {
+        await ctx.reply('Не знаю такой часовой пояс. Выбери из списка или укажи его в формате Asia/Novosibirsk.', {
+          reply_markup: buildTimezoneKeyboard(),
+        });
+      }
+      return;
+    }
+
+    await ctx.reply('🕐 Выбери свой часовой пояс, чтобы напоминания приходили вовремя:', {
+      reply_markup: buildTimezoneKeyboard(),
+    });
+  });
+
   // /mood command - Wysa-style emoji mood check
   bot.command(['mood', 'настроение'], async (ctx) => {
     ctx.session.lastActivityAt = new Date();
@@ -839,18 +1015,31 @@ function setupCommands(bot: Bot<MyContext>, api: SleepCoreAPI, options: SetupCom
  */
 interface SetupCallbacksOptions {
   userRepository?: UserRepository;
-  sleepDiaryRepository?: SleepDiaryRepository;
   assessmentRepository?: AssessmentRepository;
   therapySessionRepository?: TherapySessionRepository;
   gamificationRepository?: GamificationRepository;
+  sleepDiaryRepository?: SleepDiaryRepository;
   auditService?: AuditService;
+  isiSchedulingService?: ISISchedulingService;
+  notificationService?: ProactiveNotificationService;
+  timezoneSettings?: TimezoneSettingsService;
 }
 
 /**
  * Setup callback query handlers
  */
 function setupCallbacks(bot: Bot<MyContext>, api: SleepCoreAPI, options: SetupCallbacksOptions = {}): void {
-  const { userRepository, sleepDiaryRepository, assessmentRepository, therapySessionRepository, gamificationRepository, auditService } = options;
+  const {
+    userRepository,
+    assessmentRepository,
+    therapySessionRepository,
+    gamificationRepository,
+    sleepDiaryRepository,
+    auditService,
+    isiSchedulingService,
+    notificationService,
+    timezoneSettings,
+  } = options;
 
   // Helper: Ensure gamification session is active (ethical engagement tracking)
   // Creates or continues a session for wellbeing monitoring
@@ -898,7 +1087,7 @@ function setupCallbacks(bot: Bot<MyContext>, api: SleepCoreAPI, options: SetupCa
 
     // Sprint 3: Record command click for adaptive keyboard
     if (['menu', 'quest', 'badge', 'sonya', 'diary', 'relax', 'mindful', 'progress'].includes(command)) {
-      adaptiveKeyboardService.recordCommandClick(sleepCoreCtx.userId, command).catch(() => {});
+      adaptiveKeyboardService.recordCommandClick(sleepCoreCtx.userId, command, undefined, ctx.session.timezone).catch(() => {});
     }
 
     try {
@@ -926,6 +1115,9 @@ function setupCallbacks(bot: Bot<MyContext>, api: SleepCoreAPI, options: SetupCa
             case 'progress':
               result = await progressCommand.execute(sleepCoreCtx as ISleepCoreContext);
               break;
+            case 'whatif':
+              result = await whatIfCommand.execute(sleepCoreCtx as ISleepCoreContext);
+              break;
             case 'sos':
               result = await sosCommand.execute(sleepCoreCtx as ISleepCoreContext);
               break;
@@ -1003,9 +1195,35 @@ function setupCallbacks(bot: Bot<MyContext>, api: SleepCoreAPI, options: SetupCa
                 startedAt,
               };
 
+              // === ISI Biweekly Schedule (local-time reminders) ===
+              if (meta.step === 'isi_result' && isiSchedulingService && ctx.chat) {
+                const isiScore = meta.isiScore as number;
+                if (isiSchedulingService.getUserData(sleepCoreCtx.userId)) {
+                  await isiSchedulingService.recordAssessment(sleepCoreCtx.userId, isiScore);
+                } else {
+                  // Cohort assigned by a study administrator, if any
+                  const dbUser = ctx.session.dbUserId && userRepository
+                    ? await userRepository.findById(ctx.session.dbUserId)
+                    : null;
+                  const protocolId = dbUser?.assessmentProtocol
+                    && isiSchedulingService.getProtocol(dbUser.assessmentProtocol)
+                    ? dbUser.assessmentProtocol
+                    : undefined;
+                  await isiSchedulingService.enrollUser(
+                    sleepCoreCtx.userId,
+                    ctx.chat.id,
+                    ctx.from?.first_name,
+                    isiScore,
+                    ctx.session.timezone,
+                    protocolId
+                  );
+                }
+              }
+
               // === Database Persistence for ISI Assessment ===
-              // Save when ISI assessment is completed (step === 'isi_result')
-              if (meta.step === 'isi_result' && assessmentRepository) {
+              // Save when ISI assessment is completed (step === 'isi_result');
+              // assessments.user_id references users(id), not the Telegram ID
+              if (meta.step === 'isi_result' && assessmentRepository && ctx.session.dbUserId) {
                 try {
                   const isiScore = meta.isiScore as number;
                   const severity = meta.severity as string;
@@ -1026,7 +1244,7 @@ function setupCallbacks(bot: Bot<MyContext>, api: SleepCoreAPI, options: SetupCa
                   }));
 
                   const assessmentEntity: Omit<IAssessmentEntity, 'id' | 'createdAt' | 'updatedAt'> = {
-                    userId: sleepCoreCtx.userId,
+                    userId: String(ctx.session.dbUserId),
                     type: 'isi',
                     score: isiScore,
                     severity: severityLabel,
@@ -1121,62 +1339,25 @@ function setupCallbacks(bot: Bot<MyContext>, api: SleepCoreAPI, options: SetupCa
 
         case 'diary':
           if ('handleCallback' in diaryCommand) {
-            result = await (diaryCommand as IConversationCommand).handleCallback(sleepCoreCtx as ISleepCoreContext, data, {});
+            // Free-text entries wait for confirmation in the session
+            const isTextEntry = action === 'text_quality' || action === 'text_cancel';
+            const conversationData = isTextEntry ? { ...ctx.session.pendingDiaryText } : {};
+            if (isTextEntry) {
+              ctx.session.pendingDiaryText = undefined;
+            }
 
-            // === Database Persistence for Sleep Diary ===
-            // Save to database when diary entry is completed (marked as 'saved' in metadata)
-            if (result?.metadata?.saved && sleepDiaryRepository) {
-              try {
-                const diaryData = result.metadata as {
-                  date: string;
-                  bedtimeHour: number;
-                  bedtimeMinute: number;
-                  waketimeHour: number;
-                  waketimeMinute: number;
-                  sleepQuality: number;
-                };
+            result = await (diaryCommand as IConversationCommand).handleCallback(sleepCoreCtx as ISleepCoreContext, data, conversationData);
 
-                // Calculate metrics
-                const bedtime = `${diaryData.bedtimeHour.toString().padStart(2, '0')}:${diaryData.bedtimeMinute.toString().padStart(2, '0')}`;
-                const wakeTime = `${diaryData.waketimeHour.toString().padStart(2, '0')}:${diaryData.waketimeMinute.toString().padStart(2, '0')}`;
-
-                // Calculate duration (handling midnight crossing)
-                let hours = diaryData.waketimeHour - diaryData.bedtimeHour;
-                if (hours < 0) hours += 24;
-                const minutes = diaryData.waketimeMinute - diaryData.bedtimeMinute;
-                const timeInBed = hours * 60 + minutes;
-
-                // Estimate sleep metrics (simplified - would come from detailed entry)
-                const sleepOnsetLatency = 15; // Default estimate
-                const wakeAfterSleepOnset = Math.round(timeInBed * 0.1);
-                const totalSleepTime = timeInBed - sleepOnsetLatency - wakeAfterSleepOnset;
-                const sleepEfficiency = Math.round((totalSleepTime / timeInBed) * 100);
-
-                const diaryEntity: Omit<ISleepDiaryEntryEntity, 'id' | 'createdAt' | 'updatedAt'> = {
-                  userId: sleepCoreCtx.userId,
-                  date: diaryData.date,
-                  bedtime,
-                  lightsOffTime: bedtime,
-                  sleepOnsetLatency,
-                  wakeTime,
-                  outOfBedTime: wakeTime,
-                  nightAwakenings: 1,
-                  wakeAfterSleepOnset,
-                  totalSleepTime,
-                  timeInBed,
-                  sleepEfficiency,
-                  sleepQuality: diaryData.sleepQuality,
-                  morningMood: diaryData.sleepQuality,
-                  deletedAt: null,
-                };
+            // === Sleep Diary Audit ===
+            // The entry itself is persisted by DiaryCommand through SleepCoreAPI's diary repository
+            if (result?.metadata?.saved) {
+              try {
+                const diaryData = result.metadata as { date: string };
 
-                await sleepDiaryRepository.upsert(diaryEntity);
-                console.log(`[Database] Diary entry saved for user ${sleepCoreCtx.userId}, date: ${diaryData.date}`);
                 // ICH E6(R3) Audit: Log sleep diary entry creation
                 if (auditService && ctx.session.dbUserId) {
                   await auditService.logCreate('sleep_diary', ctx.session.dbUserId, {
                     date: diaryData.date,
-                    sleepEfficiency,
                   }, { userId: ctx.session.dbUserId });
                 }
 
@@ -1188,9 +1369,30 @@ function setupCallbacks(bot: Bot<MyContext>, api: SleepCoreAPI, options: SetupCa
                   currentWeek: ctx.session.therapyState?.currentWeek || 0,
                 };
               } catch (error) {
-                console.error('[Database] Failed to save diary entry:', error);
+                console.error('[Database] Failed to audit diary entry:', error);
                 // Graceful degradation: don't fail the user's experience
               }
+
+              // PLRNN online learning on the saved night (the night before seeds
+              // the transition after a restart); the user's model is persisted
+              if (sleepDiaryRepository) {
+                try {
+                  const { date } = result.metadata as { date: string };
+                  const dayBefore = new Date(Date.parse(`${date}T00:00:00Z`) - 24 * 60 * 60 * 1000)
+                    .toISOString().slice(0, 10);
+                  const nights = await sleepDiaryRepository.findByUserAndDateRange(sleepCoreCtx.userId, dayBefore, date);
+                  const night = nights.find((entry) => entry.date === date);
+                  const previous = nights.find((entry) => entry.date === dayBefore);
+                  if (night) {
+                    await adaptiveSleepRestrictionService.recordSleepEntry(
+                      diaryEntryToHistoryEntry(night),
+                      previous && diaryEntryToHistoryEntry(previous)
+                    );
+                  }
+                } catch (error) {
+                  console.error('[SleepPrediction] Failed to update the sleep model:', error);
+                }
+              }
             }
           }
           break;
@@ -1211,6 +1413,62 @@ function setupCallbacks(bot: Bot<MyContext>, api: SleepCoreAPI, options: SetupCa
           }
           break;
 
+        // Validated questionnaires delivered by the QuestionnaireEngine
+        case 'assess':
+          result = await assessCommand.handleCallback(sleepCoreCtx as ISleepCoreContext, data, {});
+
+          // === Database Persistence for Questionnaire Results ===
+          // assessments.user_id references users(id), not the Telegram ID
+          if (result.metadata?.completed === true && assessmentRepository && ctx.session.dbUserId) {
+            try {
+              const scored = result.metadata.result as IQuestionnaireResult;
+              const savedAssessment = await recordQuestionnaireAssessment(
+                assessmentRepository,
+                ctx.session.dbUserId,
+                result.metadata
+              );
+              console.log(`[Database] ${scored.questionnaireId} assessment saved for user ${sleepCoreCtx.userId}, score: ${scored.totalScore}`);
+              // ICH E6(R3) Audit: Log assessment completion
+              if (auditService && savedAssessment?.id) {
+                await auditService.logCreate('assessment', savedAssessment.id, {
+                  type: scored.questionnaireId,
+                  score: scored.totalScore,
+                  severity: scored.severity,
+                }, { userId: ctx.session.dbUserId });
+              }
+            } catch (error) {
+              console.error('[Database] Failed to save questionnaire assessment:', error);
+            }
+          }
+
+          // === Safety: PHQ-9 item 9 follows the same escalation as free-text crisis ===
+          if (result.metadata?.completed === true) {
+            const scored = result.metadata.result as IQuestionnaireResult;
+            const responses = result.metadata.responses as Record<string, number>;
+            for (const alert of scored.alerts) {
+              try {
+                const event = crisisDetectionService.analyzeQuestionnaireAlert(
+                  sleepCoreCtx.userId,
+                  ctx.chat?.id.toString() || '',
+                  alert,
+                  responses[alert.itemId]
+                );
+                await crisisEscalationService.escalate(event);
+              } catch (crisisError) {
+                console.error('[CRISIS] Questionnaire escalation error (non-fatal):', crisisError);
+              }
+            }
+          }
+
+          // === Protocol Schedule (instruments scheduled for the user's cohort) ===
+          if (result.metadata?.completed === true && isiSchedulingService) {
+            const scored = result.metadata.result as IQuestionnaireResult;
+            if (isiSchedulingService.getUserData(sleepCoreCtx.userId, scored.questionnaireId)) {
+              await isiSchedulingService.recordAssessment(sleepCoreCtx.userId, scored.totalScore, scored.questionnaireId);
+            }
+          }
+          break;
+
         case 'relax':
           result = await relaxCommand.execute(sleepCoreCtx as ISleepCoreContext, action);
           break;
@@ -1222,9 +1480,27 @@ function setupCallbacks(bot: Bot<MyContext>, api: SleepCoreAPI, options: SetupCa
         case 'settings':
           if (action === 'toggle') {
             ctx.session.preferences.notifications = !ctx.session.preferences.notifications;
+            await notificationService?.updatePreferences(sleepCoreCtx.userId, {
+              enabled: ctx.session.preferences.notifications,
+            });
             await ctx.answerCallbackQuery({
               text: ctx.session.preferences.notifications ? '🔔 Вкл' : '🔕 Выкл',
             });
+          } else if (action === 'timezone') {
+            await ctx.editMessageText('🕐 Выбери свой часовой пояс, чтобы напоминания приходили вовремя:', {
+              reply_markup: buildTimezoneKeyboard(),
+            });
+            await ctx.answerCallbackQuery();
+          } else if (action === 'tz' && timezoneSettings) {
+            // settings:tz:<IANA zone> — the zone itself contains a slash, not a colon
+            const timezone = data.slice('settings:tz:'.length);
+            if (await timezoneSettings.setTimezone(sleepCoreCtx.userId, ctx.session.dbUserId, timezone)) {
+              ctx.session.timezone = timezone;
+              await ctx.editMessageText(`🕐 Часовой пояс: ${timezoneSettings.getLabel(timezone)}. Напоминания придут по твоему времени.`);
+              await ctx.answerCallbackQuery({ text: '✅ Сохранено' });
+            } else {
+              await ctx.answerCallbackQuery({ text: 'Неизвестный часовой пояс' });
+            }
           }
           return;
 
@@ -1474,11 +1750,14 @@ function setupCallbacks(bot: Bot<MyContext>, api: SleepCoreAPI, options: SetupCa
                 '⚙️ *Настройки*\n\n' +
                 `🔔 Уведомления: ${ctx.session.preferences.notifications ? 'Вкл' : 'Выкл'}\n` +
                 `⏰ Время: ${ctx.session.preferences.notificationTime || '21:00'}\n` +
+                `🕐 Часовой пояс: ${timezoneSettings?.getLabel(resolveTimezone(ctx.session.timezone)) ?? resolveTimezone(ctx.session.timezone)}\n` +
                 `🌍 Язык: Русский`;
 
               const settingsKeyboard = new InlineKeyboard()
                 .text(ctx.session.preferences.notifications ? '🔕 Выкл уведомления' : '🔔 Вкл уведомления', 'settings:toggle')
                 .row()
+                .text('🕐 Часовой пояс', 'settings:timezone')
+                .row()
                 .text('◀️ Назад в меню', 'hub:back');
 
               await ctx.editMessageText(settingsMessage, {
@@ -1943,6 +2222,7 @@ function setupMessages(bot: Bot<MyContext>, api: SleepCoreAPI): void {
             lastDiaryDate: ctx.session.therapyState?.lastDiaryDate,
             lastActivityAt: ctx.session.lastActivityAt,
             hasCompletedOnboarding: ctx.session.therapyState?.hasCompletedOnboarding,
+            timezone: ctx.session.timezone,
           });
           const menuLayout = menuService.generateMainMenu(menuContext, ctx.from?.first_name);
           const menuMessage = menuService.formatMenuMessage(menuLayout);
@@ -1972,12 +2252,18 @@ function setupMessages(bot: Bot<MyContext>, api: SleepCoreAPI): void {
       }
     }
 
+    // Free-text sleep diary: "лёг в полночь, уснул через час, проснулся в 4"
+    if (await offerDiaryFromText(ctx, extendContext(ctx, api), text)) {
+      return;
+    }
+
     // Context-aware default response with dynamic menu
     const context = menuService.buildContext({
       therapyWeek: ctx.session.therapyState?.currentWeek,
       lastDiaryDate: ctx.session.therapyState?.lastDiaryDate,
       lastActivityAt: ctx.session.lastActivityAt,
       hasCompletedOnboarding: ctx.session.therapyState?.hasCompletedOnboarding,
+      timezone: ctx.session.timezone,
     });
 
     const layout = menuService.generateMainMenu(context, ctx.from?.first_name);
@@ -2017,6 +2303,7 @@ interface SetupVoiceHandlersOptions {
  */
 function setupVoiceHandlers(bot: Bot<MyContext>, api: SleepCoreAPI, options: SetupVoiceHandlersOptions = {}): void {
   const { gamificationRepository, voiceDiaryRepository } = options;
+
   // Check if Whisper API is configured
   const openaiApiKey = process.env.OPENAI_API_KEY;
 
@@ -2047,7 +2334,10 @@ function setupVoiceHandlers(bot: Bot<MyContext>, api: SleepCoreAPI, options: Set
 
     // Record interaction for gamification
     sonyaEvolutionService.recordInteraction(sleepCoreCtx.userId, 'voice');
-    badgeService.checkAndAward(sleepCoreCtx.userId, 'voice_diary');
+    if (gamificationContext.isInitialized() && ctx.session.dbUserId) {
+      const engine = await getGamificationEngine();
+      await engine.checkAndAwardBadges(ctx.session.dbUserId, 'voice_diary');
+    }
 
     const voice = ctx.message.voice;
     console.log(`[Voice] Received from ${ctx.from?.id}, duration: ${voice.duration}s`);
@@ -2088,9 +2378,16 @@ function setupVoiceHandlers(bot: Bot<MyContext>, api: SleepCoreAPI, options: Set
         reply_markup: keyboard,
       });
 
+      // A transcript describing the night becomes a diary entry after confirmation
+      if (result.success && result.entry) {
+        await offerDiaryFromText(ctx, sleepCoreCtx, result.entry.text);
+      }
+
       // Check for quest completion
       if (result.success && result.entry) {
-        await questService.checkQuestProgress(sleepCoreCtx.userId, 'voice_diary', 1);
+        if (gamificationContext.isInitialized() && ctx.session.dbUserId) {
+          await recordVoiceDiaryEntry(ctx.session.dbUserId);
+        }
 
         // Award XP for voice entry (in-memory)
         sonyaEvolutionService.addXP(sleepCoreCtx.userId, 15); // Voice = 15 XP
@@ -2147,6 +2444,81 @@ function setupVoiceHandlers(bot: Bot<MyContext>, api: SleepCoreAPI, options: Set
   // Note: Main callback handler in setupCallbacks will route voice: prefix here
 }
 
+// ============================================================================
+// WEARABLE IMPORT HANDLERS
+// ============================================================================
+
+/**
+ * Options for setting up wearable import handlers
+ */
+interface SetupWearableHandlersOptions {
+  wearableSleepRepository?: WearableSleepRepository;
+  sleepDiaryRepository?: SleepDiaryRepository;
+}
+
+/**
+ * Setup document handler for wearable exports (Apple Health, Fitbit, Oura, CSV)
+ * Research: insomnia patients underestimate TST vs devices (Harvey & Tang, 2012)
+ */
+function setupWearableImportHandlers(
+  bot: Bot<MyContext>,
+  api: SleepCoreAPI,
+  options: SetupWearableHandlersOptions = {}
+): void {
+  const importService = createWearableImportService({
+    repository: options.wearableSleepRepository,
+    diaryRepository: options.sleepDiaryRepository,
+  });
+
+  bot.on('message:document', async (ctx) => {
+    const sleepCoreCtx = extendContext(ctx, api);
+    ctx.session.lastActivityAt = new Date();
+
+    const document = ctx.message.document;
+    const fileName = document.file_name || '';
+
+    if (!importService.isSupportedFile(fileName, document.file_size)) {
+      await ctx.reply(
+        '📎 Этот файл не получится загрузить.\n\n' +
+        'Я принимаю выгрузки сна с устройств до 20 МБ: Apple Health (export.zip или export.xml), ' +
+        'Fitbit / Google Takeout (JSON), Oura (JSON) или CSV.',
+        { reply_markup: getReplyKeyboard(ctx) }
+      );
+      return;
+    }
+
+    console.log(`[Wearables] Received ${fileName} from ${ctx.from?.id}, size: ${document.file_size ?? 'unknown'}`);
+    await ctx.replyWithChatAction('typing');
+
+    try {
+      const file = await ctx.api.getFile(document.file_id);
+      const fileUrl = `https://api.telegram.org/file/bot${botConfig.token}/${file.file_path}`;
+
+      const response = await fetch(fileUrl);
+      if (!response.ok || !response.body) {
+        throw new Error(`Download failed: ${response.status}`);
+      }
+
+      // Apple Health XML is parsed while it downloads (or unpacks from export.zip)
+      const result = await importService.importDocument(sleepCoreCtx.userId, fileName, response.body);
+
+      await ctx.reply(importService.formatImportMessage(result), {
+        parse_mode: 'Markdown',
+        reply_markup: getReplyKeyboard(ctx),
+      });
+    } catch (error) {
+      console.error('[Wearables] Import error:', error);
+      await ctx.reply(
+        '😔 Не удалось загрузить данные сна.\n' +
+        'Попробуй отправить файл ещё раз чуть позже.',
+        { reply_markup: getReplyKeyboard(ctx) }
+      );
+    }
+  });
+
+  console.log('[Wearables] Document import handler initialized');
+}
+
 // NOTE: Proactive reminders are now handled by ProactiveNotificationService
 // See src/bot/services/ProactiveNotificationService.ts
 
@@ -2549,6 +2921,10 @@ async function main(): Promise<void> {
   let therapySessionRepository: TherapySessionRepository | undefined;
   let gamificationRepository: GamificationRepository | undefined;
   let voiceDiaryRepository: VoiceDiaryRepository | undefined;
+  let notificationSubscriptionRepository: NotificationSubscriptionRepository | undefined;
+  let assessmentScheduleRepository: AssessmentScheduleRepository | undefined;
+  let sleepWindowRepository: SleepWindowRepository | undefined;
+  let wearableSleepRepository: WearableSleepRepository | undefined;
   let auditService: AuditService | undefined;
   if (db) {
     userRepository = new UserRepository(db);
@@ -2557,6 +2933,10 @@ async function main(): Promise<void> {
     therapySessionRepository = new TherapySessionRepository(db);
     gamificationRepository = new GamificationRepository(db);
     voiceDiaryRepository = new VoiceDiaryRepository(db);
+    notificationSubscriptionRepository = new NotificationSubscriptionRepository(db);
+    assessmentScheduleRepository = new AssessmentScheduleRepository(db);
+    sleepWindowRepository = new SleepWindowRepository(db);
+    wearableSleepRepository = new WearableSleepRepository(db);
     // ICH E6(R3) / 21 CFR Part 11: Immutable audit trail for clinical compliance
     auditService = new AuditService(db, {
       enabled: true,
@@ -2565,7 +2945,19 @@ async function main(): Promise<void> {
       captureNewValues: true,
       retentionDays: 2190, // 6 years (HIPAA requirement)
     });
-    console.log("[DB] Repositories initialized: User, SleepDiary, Assessment, TherapySession, Gamification, VoiceDiary, AuditService");
+    console.log("[DB] Repositories initialized: User, SleepDiary, Assessment, TherapySession, Gamification, VoiceDiary, NotificationSubscription, AssessmentSchedule, SleepWindow, WearableSleep, AuditService");
+
+    // Quest and badge state lives in the main database so /quest, the voice handler
+    // and the mini-app API agree; a broken or missing definitions directory fails startup here
+    gamificationContext.attach(db, {
+      criteriaDataSource: createCriteriaDataSource(userRepository, sleepDiaryRepository, sleepWindowRepository),
+    });
+
+    // PLRNN weights and user states survive restarts; the population prior
+    // deployed by scripts/train-sleep-model.ts replaces the untrained default
+    adaptiveSleepRestrictionService.setModelRepository(new PLRNNModelRepository(db));
+    const hasPopulationModel = await adaptiveSleepRestrictionService.loadPopulationModel();
+    console.log(`[SleepPrediction] Population model: ${hasPopulationModel ? 'loaded from database' : 'default prior'}`);
   }
 
   // --- Create Bot ---
@@ -2573,6 +2965,15 @@ async function main(): Promise<void> {
     sessionStorage: sessionAdapter || undefined,
   });
   const api = sleepCore;
+  if (db) {
+    api.setDatabase(db);
+  }
+  if (sleepDiaryRepository) {
+    api.setDiaryRepository(sleepDiaryRepository);
+  }
+  if (sleepWindowRepository) {
+    api.setSleepWindowRepository(sleepWindowRepository);
+  }
 
   // --- Initialize Context-Aware Architecture ---
   initializeCommandRegistry();
@@ -2592,10 +2993,29 @@ async function main(): Promise<void> {
   console.log('[AdaptiveKeyboard] Sprint 3 commands registered');
 
   // --- Initialize Proactive Notification Service ---
-  const notificationService = createProactiveNotificationService(bot as unknown as Bot<Context>, menuService);
+  const notificationService = createProactiveNotificationService(bot as unknown as Bot<Context>, menuService, {
+    repository: notificationSubscriptionRepository,
+  });
 
   // --- Initialize ISI Scheduling Service (Phase 7: CBT-I Session Integration) ---
-  const isiSchedulingService = createISISchedulingService(bot as unknown as Bot<Context>);
+  const isiSchedulingService = createISISchedulingService(bot as unknown as Bot<Context>, {
+    repository: assessmentScheduleRepository,
+    defaultProtocolId: process.env.ASSESSMENT_PROTOCOL,
+  });
+
+  // Adherence reports and cohort changes in /admin
+  adminCommand.setAssessmentScheduler(isiSchedulingService);
+
+  // A timezone change from /settings reaches users.timezone and both schedulers
+  const timezoneSettings = createTimezoneSettingsService({ userRepository, notificationService, isiSchedulingService });
+
+  // Restore reminder subscriptions and ISI follow-up schedules after restart
+  try {
+    await notificationService.rehydrate();
+    await isiSchedulingService.rehydrate();
+  } catch (error) {
+    console.error('[Notifications] Failed to restore schedules from database:', error);
+  }
 
   // --- Initialize Crisis Escalation Service (Phase 1.4 Safety) ---
   // CRITICAL: Must call setBot() to enable admin notifications
@@ -2611,10 +3031,21 @@ async function main(): Promise<void> {
   }
 
   // Setup handlers
-  setupCommands(bot, api, { userRepository, auditService });
-  setupCallbacks(bot, api, { userRepository, sleepDiaryRepository, assessmentRepository, therapySessionRepository, gamificationRepository, auditService });
+  setupCommands(bot, api, { userRepository, auditService, notificationService, timezoneSettings });
+  setupCallbacks(bot, api, {
+    userRepository,
+    assessmentRepository,
+    therapySessionRepository,
+    gamificationRepository,
+    sleepDiaryRepository,
+    auditService,
+    isiSchedulingService,
+    notificationService,
+    timezoneSettings,
+  });
   setupMessages(bot, api);
   setupVoiceHandlers(bot, api, { gamificationRepository, voiceDiaryRepository }); // Sprint 3: Voice diary + persistence
+  setupWearableImportHandlers(bot, api, { wearableSleepRepository, sleepDiaryRepository });
   setupErrors(bot);
 
   // Start notification and scheduling services
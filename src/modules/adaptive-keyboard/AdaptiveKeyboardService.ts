@@ -23,7 +23,8 @@ import {
   type IUserBehaviorContext,
 } from './UserInteractionRepository';
 import { RuleEngine, ruleEngine, type IAdaptedCommand } from './RuleEngine';
-import { getCurrentTimeOfDay, type TimeOfDay } from '../../bot/commands/registry';
+import { getTimeOfDay, type TimeOfDay } from '../../bot/commands/registry';
+import { getZonedTime, resolveTimezone } from '../../bot/services/ZonedTime';
 
 /**
  * Command definition for keyboard
@@ -86,9 +87,10 @@ export class AdaptiveKeyboardService {
    */
   async generateKeyboard(
     userId: string,
-    sessionId?: string
+    sessionId?: string,
+    timezone?: string
   ): Promise<InlineKeyboard> {
-    const layout = await this.generateLayout(userId, sessionId);
+    const layout = await this.generateLayout(userId, sessionId, timezone);
     return this.buildKeyboard(layout);
   }
 
@@ -97,10 +99,10 @@ export class AdaptiveKeyboardService {
    */
   async generateLayout(
     userId: string,
-    sessionId?: string
+    sessionId?: string,
+    timezone?: string
   ): Promise<IKeyboardLayout> {
-    const timeOfDay = getCurrentTimeOfDay();
-    const dayOfWeek = new Date().getDay();
+    const { timeOfDay, dayOfWeek } = this.getLocalTime(timezone);
 
     // Build user behavior context
     const context = await this.interactionRepo.buildBehaviorContext(
@@ -147,10 +149,10 @@ export class AdaptiveKeyboardService {
   async recordCommandClick(
     userId: string,
     command: string,
-    sessionId?: string
+    sessionId?: string,
+    timezone?: string
   ): Promise<void> {
-    const timeOfDay = getCurrentTimeOfDay();
-    const dayOfWeek = new Date().getDay();
+    const { timeOfDay, dayOfWeek } = this.getLocalTime(timezone);
 
     await this.interactionRepo.recordCommandClicked(userId, command, {
       timeOfDay,
@@ -253,9 +255,8 @@ export class AdaptiveKeyboardService {
   /**
    * Get keyboard explanation for debugging
    */
-  async getKeyboardExplanation(userId: string): Promise<string> {
-    const timeOfDay = getCurrentTimeOfDay();
-    const dayOfWeek = new Date().getDay();
+  async getKeyboardExplanation(userId: string, timezone?: string): Promise<string> {
+    const { timeOfDay, dayOfWeek } = this.getLocalTime(timezone);
     const context = await this.interactionRepo.buildBehaviorContext(
       userId,
       timeOfDay,
@@ -323,11 +324,18 @@ export class AdaptiveKeyboardService {
   /**
    * Get user behavior context (for external use)
    */
-  async getUserContext(userId: string): Promise<IUserBehaviorContext> {
-    const timeOfDay = getCurrentTimeOfDay();
-    const dayOfWeek = new Date().getDay();
+  async getUserContext(userId: string, timezone?: string): Promise<IUserBehaviorContext> {
+    const { timeOfDay, dayOfWeek } = this.getLocalTime(timezone);
     return this.interactionRepo.buildBehaviorContext(userId, timeOfDay, dayOfWeek);
   }
+
+  /**
+   * Time of day and weekday in the user's timezone (Moscow when unknown)
+   */
+  private getLocalTime(timezone?: string): { timeOfDay: TimeOfDay; dayOfWeek: number } {
+    const local = getZonedTime(new Date(), resolveTimezone(timezone));
+    return { timeOfDay: getTimeOfDay(local.hour), dayOfWeek: local.dayOfWeek };
+  }
 }
 
 // Singleton instance
@@ -29,6 +29,8 @@ import type { IGamificationRepository, XPSource, StreakType } from '../../infras
 import { QuestService, type IQuest, type IActiveQuest, type IQuestCompletionResult } from '../quests/QuestService';
 import { BadgeService, type IBadge, type IUserBadge, type IBadgeAwardResult } from '../quests/BadgeService';
 import { SonyaEvolutionService, type IEvolutionResult } from '../evolution/SonyaEvolutionService';
+import type { ICriteriaDataSource } from '../quests/CriteriaDataSource';
+import type { IGamificationDefinitions } from '../quests/DefinitionLoader';
 
 // ==================== XP CONFIGURATION ====================
 
@@ -136,6 +138,16 @@ function calculateLevelProgress(level: number, totalXp: number): number {
 
 // ==================== GAMIFICATION ENGINE ====================
 
+/**
+ * Optional engine configuration
+ */
+export interface IGamificationEngineOptions {
+  /** Product-defined badges and quests (see DefinitionLoader) */
+  definitions?: IGamificationDefinitions;
+  /** Diary and therapy data for declarative criteria */
+  criteriaDataSource?: ICriteriaDataSource;
+}
+
 /**
  * GamificationEngine - Main gamification system implementation
  */
@@ -147,11 +159,16 @@ export class GamificationEngine implements IGamificationEngine {
 
   constructor(
     private repository: IGamificationRepository,
-    eventEmitter?: EventEmitter
+    eventEmitter?: EventEmitter,
+    options: IGamificationEngineOptions = {}
   ) {
     this.eventEmitter = eventEmitter || new EventEmitter();
-    this.questService = new QuestService();
-    this.badgeService = new BadgeService();
+    this.questService = new QuestService(repository, options.definitions?.quests);
+    this.badgeService = new BadgeService(repository, options.definitions?.badges);
+    if (options.criteriaDataSource) {
+      this.questService.setCriteriaDataSource(options.criteriaDataSource);
+      this.badgeService.setCriteriaDataSource(options.criteriaDataSource);
+    }
     this.evolutionService = new SonyaEvolutionService();
   }
 
@@ -356,7 +373,7 @@ export class GamificationEngine implements IGamificationEngine {
       .filter(a => a.unlockedAt)
       .map(a => ({
         badgeId: a.achievementId,
-        userId: String(userId),
+        userId,
         earnedAt: a.unlockedAt!,
         displayOrder: 0,
         isNew: !a.notified,
@@ -395,7 +412,7 @@ export class GamificationEngine implements IGamificationEngine {
       completedQuestCount,
       badges,
       badgeCount: badges.length,
-      totalBadgeXp: this.badgeService.getTotalBadgeXP(String(userId)),
+      totalBadgeXp: await this.badgeService.getTotalBadgeXP(userId),
       sonyaStage,
       sonyaEmoji: sonyaStage.emoji,
       sonyaName: sonyaStage.name,
@@ -475,54 +492,41 @@ export class GamificationEngine implements IGamificationEngine {
   // ==================== QUESTS ====================
 
   async getAvailableQuests(userId: number): Promise<IQuest[]> {
-    const _activeQuests = await this.repository.getActiveQuests(userId);
-    const _completedCount = await this.repository.getCompletedQuestCount(userId);
+    return this.questService.getAvailableQuests(userId);
+  }
 
-    // Use in-memory service for quest definitions
-    return this.questService.getAvailableQuests(String(userId));
+  getAllQuests(): IQuest[] {
+    return this.questService.getAllQuests();
   }
 
-  async getActiveQuests(userId: number): Promise<IActiveQuestInfo[]> {
-    const quests = await this.repository.getActiveQuests(userId);
+  getQuest(questId: string): IQuest | undefined {
+    return this.questService.getQuest(questId);
+  }
 
-    return quests.map(q => {
-      const quest = this.questService.getQuest(q.questId);
-      const objectives = JSON.parse(q.objectivesJson || '{}');
-      const startDate = new Date(q.startedAt!);
-      const expiresAt = new Date(startDate.getTime() + (quest?.durationDays || 7) * 24 * 60 * 60 * 1000);
+  async getCompletedQuestIds(userId: number): Promise<string[]> {
+    return this.questService.getCompletedQuestIds(userId);
+  }
 
-      return {
-        quest: quest!,
-        progress: Math.min(100, Math.round((objectives.currentValue || 0) / (objectives.targetValue || 1) * 100)),
-        currentValue: objectives.currentValue || 0,
-        targetValue: objectives.targetValue || 1,
-        daysRemaining: Math.max(0, Math.ceil((expiresAt.getTime() - Date.now()) / (24 * 60 * 60 * 1000))),
-        startedAt: startDate,
-        expiresAt,
-      };
-    });
+  async getActiveQuests(userId: number): Promise<IActiveQuestInfo[]> {
+    const quests = await this.questService.getActiveQuests(userId);
+
+    return quests.map(q => ({
+      quest: this.questService.getQuest(q.questId)!,
+      progress: this.questService.getProgressPercentage(q),
+      currentValue: q.progress.currentValue,
+      targetValue: q.progress.targetValue,
+      daysRemaining: this.questService.getDaysRemaining(q),
+      startedAt: q.startedAt,
+      expiresAt: q.expiresAt,
+    }));
   }
 
   async startQuest(userId: number, questId: string): Promise<IActiveQuest | null> {
     const quest = this.questService.getQuest(questId);
     if (!quest) return null;
 
-    // Check if already active
-    const activeQuests = await this.repository.getActiveQuests(userId);
-    if (activeQuests.some(q => q.questId === questId)) {
-      return null;
-    }
-
-    // Check max active (3)
-    if (activeQuests.length >= 3) {
-      return null;
-    }
-
-    // Start quest in repository
-    const _userQuest = await this.repository.startQuest(userId, questId);
-
-    // Also track in in-memory service for compatibility
-    const activeQuest = this.questService.startQuest(String(userId), questId);
+    const activeQuest = await this.questService.startQuest(userId, questId);
+    if (!activeQuest) return null;
 
     this.emit('quest:started', {
       userId,
@@ -546,36 +550,7 @@ export class GamificationEngine implements IGamificationEngine {
     metric: string,
     value: number = 1
   ): Promise<IQuestCompletionResult[]> {
-    const results: IQuestCompletionResult[] = [];
-    const activeQuests = await this.repository.getActiveQuests(userId);
-
-    for (const userQuest of activeQuests) {
-      const quest = this.questService.getQuest(userQuest.questId);
-      if (!quest || quest.targetMetric !== metric) continue;
-
-      const objectives = JSON.parse(userQuest.objectivesJson || '{}');
-      const newValue = (objectives.currentValue || 0) + value;
-
-      await this.repository.updateQuestProgress(userId, userQuest.questId, {
-        currentValue: newValue,
-        targetValue: quest.targetValue,
-      });
-
-      if (newValue >= quest.targetValue) {
-        await this.repository.completeQuest(userId, userQuest.questId);
-        results.push({
-          completed: true,
-          quest,
-          reward: quest.reward,
-          celebrationMessage: `🎉 Квест "${quest.title}" завершён!`,
-        });
-      }
-    }
-
-    // Also update in-memory service
-    const memoryResults = this.questService.updateProgress(String(userId), metric, value);
-
-    return results.length > 0 ? results : memoryResults;
+    return this.questService.updateProgress(userId, metric, value);
   }
 
   async getCompletedQuestCount(userId: number): Promise<number> {
@@ -599,13 +574,11 @@ export class GamificationEngine implements IGamificationEngine {
   ): Promise<IBadgeAwardResult[]> {
     const results: IBadgeAwardResult[] = [];
 
-    // Use in-memory badge service for badge definitions and criteria
-    const badgeResults = this.badgeService.checkAndAwardBadges(String(userId), event, value);
+    // Badge service persists metrics and awarded badges
+    const badgeResults = await this.badgeService.checkAndAwardBadges(userId, event, value);
 
-    // Persist awarded badges
     for (const result of badgeResults) {
       if (result.awarded && result.badge) {
-        await this.repository.unlockAchievement(userId, result.badge.id);
         results.push(result);
 
         this.emit('achievement:unlocked', {
@@ -621,13 +594,7 @@ export class GamificationEngine implements IGamificationEngine {
   }
 
   private async awardBadgeInternal(userId: number, badgeId: string): Promise<IBadgeAwardResult> {
-    const result = this.badgeService.awardBadge(String(userId), badgeId);
-
-    if (result.awarded) {
-      await this.repository.unlockAchievement(userId, badgeId);
-    }
-
-    return result;
+    return this.badgeService.awardBadge(userId, badgeId);
   }
 
   async getUserBadges(userId: number): Promise<IUserBadge[]> {
@@ -635,7 +602,7 @@ export class GamificationEngine implements IGamificationEngine {
 
     return achievements.map(a => ({
       badgeId: a.achievementId,
-      userId: String(userId),
+      userId,
       earnedAt: a.unlockedAt!,
       displayOrder: 0,
       isNew: !a.notified,
@@ -831,9 +798,7 @@ export class GamificationEngine implements IGamificationEngine {
   }
 
   async deleteUserData(userId: number): Promise<boolean> {
-    // Clear in-memory services
-    this.questService.clearUserData(String(userId));
-    this.badgeService.clearUserData(String(userId));
+    // Clear in-memory evolution state (quests and badges are deleted with the repository data)
     this.evolutionService.clearUserData(String(userId));
 
     // Delete from repository
@@ -318,6 +318,21 @@ export interface IGamificationEngine {
    */
   getAvailableQuests(userId: number): Promise<IQuest[]>;
 
+  /**
+   * Get all quest definitions
+   */
+  getAllQuests(): IQuest[];
+
+  /**
+   * Get quest definition by ID
+   */
+  getQuest(questId: string): IQuest | undefined;
+
+  /**
+   * Get IDs of quests the user has completed
+   */
+  getCompletedQuestIds(userId: number): Promise<string[]>;
+
   /**
    * Get user's active quests
    */
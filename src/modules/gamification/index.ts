@@ -26,7 +26,7 @@
  * @module @sleepcore/modules/gamification
  */
 
-export { GamificationEngine } from './GamificationEngine';
+export { GamificationEngine, type IGamificationEngineOptions } from './GamificationEngine';
 
 export type {
   IGamificationEngine,
@@ -9,6 +9,7 @@
  * - evolution: Sonya avatar evolution system
  * - voice: Voice diary and speech-to-text (Sprint 2)
  * - quests: Gamification quest and badge system (Sprint 2)
+ * - wearables: Wearable sleep data import and diary reconciliation
  *
  * @packageDocumentation
  * @module @sleepcore/modules
@@ -18,3 +19,4 @@ export * from './adaptive-keyboard';
 export * from './evolution';
 export * from './voice';
 export * from './quests';
+export * from './wearables';
@@ -16,6 +16,18 @@
  * @module @sleepcore/modules/quests
  */
 
+import type {
+  IGamificationRepository,
+  IGamificationMetricEntity,
+} from '../../infrastructure/database';
+import {
+  evaluateCriteria,
+  getDiaryWindowDays,
+  type ICriteriaContext,
+  type ICriteriaExpression,
+} from './CriteriaExpression';
+import { buildCriteriaContext, type ICriteriaDataSource } from './CriteriaDataSource';
+
 /**
  * Badge category types
  */
@@ -50,10 +62,13 @@ export interface IBadge {
  * Badge earning criteria
  */
 export interface IBadgeCriteria {
-  type: 'quest' | 'streak' | 'count' | 'first' | 'special';
+  type: 'quest' | 'streak' | 'count' | 'first' | 'special' | 'expression';
+  /** Metric to check; for 'expression' badges, the event that triggers evaluation (any event if omitted) */
   metric?: string;
   value?: number;
   questId?: string;
+  /** Declarative criteria for 'expression' badges */
+  expression?: ICriteriaExpression;
 }
 
 /**
@@ -70,7 +85,7 @@ export interface IBadgeReward {
  */
 export interface IUserBadge {
   badgeId: string;
-  userId: string;
+  userId: number;
   earnedAt: Date;
   displayOrder: number;
   isNew: boolean;
@@ -398,16 +413,29 @@ const DEFAULT_BADGES: IBadge[] = [
   },
 ];
 
+/**
+ * Badge progress toward criteria
+ */
+export interface IBadgeProgress {
+  badge: IBadge;
+  progress: number;
+  target: number;
+  percentage: number;
+  earned: boolean;
+}
+
 /**
  * BadgeService - Manages badges and achievements for users
+ * Badges are stored as achievements, criteria counters in gamification_metrics
  */
 export class BadgeService {
   private badges: Map<string, IBadge> = new Map();
-  private userBadges: Map<string, IUserBadge[]> = new Map();
-  private userMetrics: Map<string, Map<string, number>> = new Map();
-  private userStreaks: Map<string, Map<string, number>> = new Map();
+  private criteriaDataSource?: ICriteriaDataSource;
 
-  constructor(customBadges?: IBadge[]) {
+  constructor(
+    private readonly repository: IGamificationRepository,
+    customBadges?: IBadge[]
+  ) {
     // Load default badges
     for (const badge of DEFAULT_BADGES) {
       this.badges.set(badge.id, badge);
@@ -421,35 +449,38 @@ export class BadgeService {
     }
   }
 
+  /**
+   * Provide diary and therapy data for 'expression' badges
+   */
+  setCriteriaDataSource(dataSource: ICriteriaDataSource): void {
+    this.criteriaDataSource = dataSource;
+  }
+
   /**
    * Award a badge to a user
    */
-  awardBadge(userId: string, badgeId: string): IBadgeAwardResult {
+  async awardBadge(userId: number, badgeId: string): Promise<IBadgeAwardResult> {
     const badge = this.badges.get(badgeId);
     if (!badge) {
       return { awarded: false, isFirstTime: false };
     }
 
     // Check if already has badge
-    const userBadgeList = this.userBadges.get(userId) || [];
-    if (userBadgeList.some((ub) => ub.badgeId === badgeId)) {
+    if (await this.repository.hasAchievement(userId, badgeId)) {
       return { awarded: false, isFirstTime: false, message: 'Badge already earned' };
     }
 
-    // Create user badge
+    const displayOrder = (await this.getUserBadges(userId)).length;
+    const achievement = await this.repository.unlockAchievement(userId, badgeId);
+
     const userBadge: IUserBadge = {
       badgeId,
       userId,
-      earnedAt: new Date(),
-      displayOrder: userBadgeList.length,
+      earnedAt: achievement.unlockedAt ?? new Date(),
+      displayOrder,
       isNew: true,
     };
 
-    if (!this.userBadges.has(userId)) {
-      this.userBadges.set(userId, []);
-    }
-    this.userBadges.get(userId)!.push(userBadge);
-
     return {
       awarded: true,
       badge,
@@ -465,7 +496,7 @@ export class BadgeService {
    * @param userId - User ID
    * @param event - Event that triggered the check (e.g., 'voice_diary')
    */
-  checkAndAward(userId: string, event: string): IBadgeAwardResult[] {
+  async checkAndAward(userId: number, event: string): Promise<IBadgeAwardResult[]> {
     return this.checkAndAwardBadges(userId, event, 1);
   }
 
@@ -473,23 +504,41 @@ export class BadgeService {
    * Check and award badges based on event
    * Returns all newly awarded badges
    */
-  checkAndAwardBadges(
-    userId: string,
+  async checkAndAwardBadges(
+    userId: number,
     event: string,
     value: number = 1
-  ): IBadgeAwardResult[] {
+  ): Promise<IBadgeAwardResult[]> {
     const results: IBadgeAwardResult[] = [];
 
     // Update user metrics
-    this.updateMetric(userId, event, value);
+    await this.updateMetric(userId, event, value);
+
+    const metrics = await this.getMetricMap(userId);
+    const earned = new Set((await this.getUserBadges(userId)).map((ub) => ub.badgeId));
+    let criteriaContext: ICriteriaContext | undefined;
 
     // Check all badges
     for (const badge of this.badges.values()) {
-      if (this.hasBadge(userId, badge.id)) continue;
+      if (earned.has(badge.id)) continue;
+
+      if (badge.criteria.type === 'expression') {
+        // Expression badges are evaluated on their trigger event (any event if none)
+        if (badge.criteria.metric && event !== badge.criteria.metric) continue;
+        criteriaContext ??= await this.buildCriteriaContext(userId);
+        if (!evaluateCriteria(badge.criteria.expression!, criteriaContext).met) continue;
+
+        const result = await this.awardBadge(userId, badge.id);
+        if (result.awarded) {
+          results.push(result);
+        }
+        continue;
+      }
+
       if (badge.hidden && event !== badge.criteria.metric) continue;
 
-      if (this.checkBadgeCriteria(userId, badge)) {
-        const result = this.awardBadge(userId, badge.id);
+      if (this.checkBadgeCriteria(metrics, badge)) {
+        const result = await this.awardBadge(userId, badge.id);
         if (result.awarded) {
           results.push(result);
         }
@@ -502,67 +551,75 @@ export class BadgeService {
   /**
    * Update a metric for a user
    */
-  updateMetric(userId: string, metric: string, value: number = 1): void {
-    if (!this.userMetrics.has(userId)) {
-      this.userMetrics.set(userId, new Map());
-    }
-
-    const metrics = this.userMetrics.get(userId)!;
-    const current = metrics.get(metric) || 0;
-    metrics.set(metric, current + value);
+  async updateMetric(userId: number, metric: string, value: number = 1): Promise<void> {
+    await this.repository.incrementMetric(userId, metric, value);
   }
 
   /**
    * Update streak for a user
+   * Only the best streak is kept
    */
-  updateStreak(userId: string, metric: string, newStreak: number): void {
-    if (!this.userStreaks.has(userId)) {
-      this.userStreaks.set(userId, new Map());
-    }
+  async updateStreak(userId: number, metric: string, newStreak: number): Promise<void> {
+    await this.repository.recordMetricStreak(userId, metric, newStreak);
+  }
+
+  /**
+   * Load criteria context covering every expression badge
+   */
+  private async buildCriteriaContext(userId: number): Promise<ICriteriaContext> {
+    const expressions = Array.from(this.badges.values())
+      .map((b) => b.criteria.expression)
+      .filter((e): e is ICriteriaExpression => e !== undefined);
+    const diaryDays = Math.max(0, ...expressions.map(getDiaryWindowDays));
 
-    const streaks = this.userStreaks.get(userId)!;
-    const current = streaks.get(metric) || 0;
+    return buildCriteriaContext(this.repository, this.criteriaDataSource, userId, diaryDays);
+  }
 
-    // Only update if new streak is higher
-    if (newStreak > current) {
-      streaks.set(metric, newStreak);
-    }
+  /**
+   * Load user metrics keyed by metric name
+   */
+  private async getMetricMap(userId: number): Promise<Map<string, IGamificationMetricEntity>> {
+    const metrics = await this.repository.getMetrics(userId);
+    return new Map(metrics.map((m) => [m.metric, m]));
   }
 
   /**
    * Check if badge criteria is met
    */
-  private checkBadgeCriteria(userId: string, badge: IBadge): boolean {
+  private checkBadgeCriteria(
+    metrics: Map<string, IGamificationMetricEntity>,
+    badge: IBadge
+  ): boolean {
     const criteria = badge.criteria;
-    const metrics = this.userMetrics.get(userId);
-    const streaks = this.userStreaks.get(userId);
 
     switch (criteria.type) {
       case 'quest':
-        // Quest completion badges are awarded via awardBadge directly
+      case 'expression':
+        // Quest completion badges are awarded via awardBadge directly;
+        // expression badges are evaluated in checkAndAwardBadges
         return false;
 
       case 'streak': {
-        if (!streaks || !criteria.metric || criteria.value === undefined) return false;
-        const streak = streaks.get(criteria.metric) || 0;
+        if (!criteria.metric || criteria.value === undefined) return false;
+        const streak = metrics.get(criteria.metric)?.bestStreak || 0;
         return streak >= criteria.value;
       }
 
       case 'count': {
-        if (!metrics || !criteria.metric || criteria.value === undefined) return false;
-        const count = metrics.get(criteria.metric) || 0;
+        if (!criteria.metric || criteria.value === undefined) return false;
+        const count = metrics.get(criteria.metric)?.count || 0;
         return count >= criteria.value;
       }
 
       case 'first': {
-        if (!metrics || !criteria.metric) return false;
-        const firstCount = metrics.get(criteria.metric) || 0;
+        if (!criteria.metric) return false;
+        const firstCount = metrics.get(criteria.metric)?.count || 0;
         return firstCount >= 1;
       }
 
       case 'special': {
-        if (!metrics || !criteria.metric) return false;
-        const specialCount = metrics.get(criteria.metric) || 0;
+        if (!criteria.metric) return false;
+        const specialCount = metrics.get(criteria.metric)?.count || 0;
         if (criteria.value !== undefined) {
           return specialCount >= criteria.value;
         }
@@ -577,23 +634,38 @@ export class BadgeService {
   /**
    * Check if user has a badge
    */
-  hasBadge(userId: string, badgeId: string): boolean {
-    const userBadgeList = this.userBadges.get(userId) || [];
-    return userBadgeList.some((ub) => ub.badgeId === badgeId);
+  async hasBadge(userId: number, badgeId: string): Promise<boolean> {
+    return this.repository.hasAchievement(userId, badgeId);
   }
 
   /**
-   * Get user's badges
+   * Get user's badges in the order they were earned
    */
-  getUserBadges(userId: string): IUserBadge[] {
-    return this.userBadges.get(userId) || [];
+  async getUserBadges(userId: number): Promise<IUserBadge[]> {
+    const achievements = await this.repository.getUnlockedAchievements(userId);
+
+    return achievements
+      .filter((a) => this.badges.has(a.achievementId))
+      .sort(
+        (a, b) =>
+          a.unlockedAt!.getTime() - b.unlockedAt!.getTime() || (a.id ?? 0) - (b.id ?? 0)
+      )
+      .map((a, index) => ({
+        badgeId: a.achievementId,
+        userId,
+        earnedAt: a.unlockedAt!,
+        displayOrder: index,
+        isNew: !a.notified,
+      }));
   }
 
   /**
    * Get user's badges with full badge info
    */
-  getUserBadgesWithInfo(userId: string): Array<{ badge: IBadge; userBadge: IUserBadge }> {
-    const userBadgeList = this.getUserBadges(userId);
+  async getUserBadgesWithInfo(
+    userId: number
+  ): Promise<Array<{ badge: IBadge; userBadge: IUserBadge }>> {
+    const userBadgeList = await this.getUserBadges(userId);
     return userBadgeList
       .map((ub) => {
         const badge = this.badges.get(ub.badgeId);
@@ -634,32 +706,21 @@ export class BadgeService {
   /**
    * Get user progress toward badges
    */
-  getUserProgress(userId: string): Array<{
-    badge: IBadge;
-    progress: number;
-    target: number;
-    percentage: number;
-    earned: boolean;
-  }> {
-    const metrics = this.userMetrics.get(userId) || new Map();
-    const streaks = this.userStreaks.get(userId) || new Map();
-    const results: Array<{
-      badge: IBadge;
-      progress: number;
-      target: number;
-      percentage: number;
-      earned: boolean;
-    }> = [];
+  async getUserProgress(userId: number): Promise<IBadgeProgress[]> {
+    const metrics = await this.getMetricMap(userId);
+    const earnedIds = new Set((await this.getUserBadges(userId)).map((ub) => ub.badgeId));
+    const results: IBadgeProgress[] = [];
+    let criteriaContext: ICriteriaContext | undefined;
 
     for (const badge of this.getAllVisibleBadges()) {
-      const earned = this.hasBadge(userId, badge.id);
+      const earned = earnedIds.has(badge.id);
       let progress = 0;
       let target = 1;
 
       switch (badge.criteria.type) {
         case 'streak':
           if (badge.criteria.metric && badge.criteria.value) {
-            progress = streaks.get(badge.criteria.metric) || 0;
+            progress = metrics.get(badge.criteria.metric)?.bestStreak || 0;
             target = badge.criteria.value;
           }
           break;
@@ -667,14 +728,14 @@ export class BadgeService {
         case 'count':
         case 'first':
           if (badge.criteria.metric) {
-            progress = metrics.get(badge.criteria.metric) || 0;
+            progress = metrics.get(badge.criteria.metric)?.count || 0;
             target = badge.criteria.value || 1;
           }
           break;
 
         case 'special':
           if (badge.criteria.metric) {
-            progress = metrics.get(badge.criteria.metric) || 0;
+            progress = metrics.get(badge.criteria.metric)?.count || 0;
             target = badge.criteria.value || 1;
           }
           break;
@@ -684,6 +745,15 @@ export class BadgeService {
           progress = earned ? 1 : 0;
           target = 1;
           break;
+
+        case 'expression':
+          // Expression progress is reported as a percentage
+          criteriaContext ??= await this.buildCriteriaContext(userId);
+          progress = earned
+            ? 100
+            : Math.round(evaluateCriteria(badge.criteria.expression!, criteriaContext).progress * 100);
+          target = 100;
+          break;
       }
 
       const percentage = Math.min(100, Math.round((progress / target) * 100));
@@ -703,8 +773,8 @@ export class BadgeService {
   /**
    * Calculate total XP from badges
    */
-  getTotalBadgeXP(userId: string): number {
-    const userBadgeList = this.getUserBadges(userId);
+  async getTotalBadgeXP(userId: number): Promise<number> {
+    const userBadgeList = await this.getUserBadges(userId);
     return userBadgeList.reduce((total, ub) => {
       const badge = this.badges.get(ub.badgeId);
       return total + (badge?.reward?.xp || 0);
@@ -714,21 +784,15 @@ export class BadgeService {
   /**
    * Mark badge as seen (not new)
    */
-  markBadgeSeen(userId: string, badgeId: string): void {
-    const userBadgeList = this.userBadges.get(userId);
-    if (!userBadgeList) return;
-
-    const badge = userBadgeList.find((ub) => ub.badgeId === badgeId);
-    if (badge) {
-      badge.isNew = false;
-    }
+  async markBadgeSeen(userId: number, badgeId: string): Promise<void> {
+    await this.repository.markAchievementNotified(userId, badgeId);
   }
 
   /**
    * Get new (unseen) badges
    */
-  getNewBadges(userId: string): IUserBadge[] {
-    return this.getUserBadges(userId).filter((ub) => ub.isNew);
+  async getNewBadges(userId: number): Promise<IUserBadge[]> {
+    return (await this.getUserBadges(userId)).filter((ub) => ub.isNew);
   }
 
   /**
@@ -797,8 +861,8 @@ export class BadgeService {
   /**
    * Format badge collection for display
    */
-  formatBadgeCollection(userId: string): string {
-    const userBadgesWithInfo = this.getUserBadgesWithInfo(userId);
+  async formatBadgeCollection(userId: number): Promise<string> {
+    const userBadgesWithInfo = await this.getUserBadgesWithInfo(userId);
     const totalBadges = this.getAllVisibleBadges().length;
 
     if (userBadgesWithInfo.length === 0) {
@@ -833,56 +897,50 @@ export class BadgeService {
       }
     }
 
-    const totalXP = this.getTotalBadgeXP(userId);
+    const totalXP = await this.getTotalBadgeXP(userId);
     message += `\n💎 Всего XP от бейджей: ${totalXP}`;
 
     return message;
   }
 
-  /**
-   * Clear user data (GDPR)
-   */
-  clearUserData(userId: string): void {
-    this.userBadges.delete(userId);
-    this.userMetrics.delete(userId);
-    this.userStreaks.delete(userId);
-  }
-
   /**
    * Export user data (GDPR)
+   * Deletion is handled by GamificationRepository.deleteUserData
    */
-  exportUserData(userId: string): {
+  async exportUserData(userId: number): Promise<{
     badges: IUserBadge[];
     metrics: Record<string, number>;
     streaks: Record<string, number>;
-  } {
+  }> {
     const metrics: Record<string, number> = {};
     const streaks: Record<string, number> = {};
 
-    const userMetrics = this.userMetrics.get(userId);
-    if (userMetrics) {
-      for (const [key, value] of userMetrics) {
-        metrics[key] = value;
+    for (const metric of await this.repository.getMetrics(userId)) {
+      if (metric.count > 0) {
+        metrics[metric.metric] = metric.count;
       }
-    }
-
-    const userStreaks = this.userStreaks.get(userId);
-    if (userStreaks) {
-      for (const [key, value] of userStreaks) {
-        streaks[key] = value;
+      if (metric.bestStreak > 0) {
+        streaks[metric.metric] = metric.bestStreak;
       }
     }
 
     return {
-      badges: this.getUserBadges(userId),
+      badges: await this.getUserBadges(userId),
       metrics,
       streaks,
     };
   }
 }
 
-// Singleton instance
-export const badgeService = new BadgeService();
+/**
+ * Create a repository-backed BadgeService
+ */
+export function createBadgeService(
+  repository: IGamificationRepository,
+  customBadges?: IBadge[]
+): BadgeService {
+  return new BadgeService(repository, customBadges);
+}
 
 // Export default badges for testing
 export { DEFAULT_BADGES };
@@ -0,0 +1,132 @@
+/**
+ * CriteriaDataSource - Diary and Therapy Data for Criteria Evaluation
+ * ===================================================================
+ *
+ * Builds the ICriteriaContext that declarative badge and quest criteria
+ * are evaluated against. Gamification metrics and completed quests come
+ * from GamificationRepository; diary nights, timezone and sleep restriction
+ * status come from an ICriteriaDataSource.
+ *
+ * Diary entries and sleep windows are keyed by the user's external
+ * (Telegram) ID, gamification by users.id, so the repository-backed
+ * source resolves one from the other.
+ *
+ * @packageDocumentation
+ * @module @sleepcore/modules/quests
+ */
+
+import type {
+  IGamificationRepository,
+  IUserRepository,
+  ISleepDiaryRepository,
+  ISleepWindowRepository,
+} from '../../infrastructure/database';
+import {
+  DEFAULT_TIMEZONE,
+  addDaysToDateKey,
+  getZonedTime,
+  resolveTimezone,
+} from '../../bot/services/ZonedTime';
+import type { ICriteriaContext, ICriteriaNight } from './CriteriaExpression';
+
+/**
+ * Sleep windows looked at when finding the start of sleep restriction
+ * (12-week program + margin)
+ */
+const SLEEP_WINDOW_LOOKBACK = 16;
+
+/**
+ * Source of non-gamification data for criteria
+ */
+export interface ICriteriaDataSource {
+  /**
+   * User's IANA timezone
+   */
+  getTimezone(userId: number): Promise<string>;
+
+  /**
+   * Diary nights between two local dates (inclusive)
+   */
+  getNights(userId: number, startDate: string, endDate: string): Promise<ICriteriaNight[]>;
+
+  /**
+   * Local date of the first prescribed sleep window, null if none
+   */
+  getSleepRestrictionStart(userId: number): Promise<string | null>;
+}
+
+/**
+ * Criteria data source backed by the user, diary and sleep window repositories
+ */
+export class RepositoryCriteriaDataSource implements ICriteriaDataSource {
+  constructor(
+    private readonly userRepository: IUserRepository,
+    private readonly diaryRepository: ISleepDiaryRepository,
+    private readonly sleepWindowRepository?: ISleepWindowRepository
+  ) {}
+
+  async getTimezone(userId: number): Promise<string> {
+    const user = await this.userRepository.findById(userId);
+    return resolveTimezone(user?.timezone);
+  }
+
+  async getNights(userId: number, startDate: string, endDate: string): Promise<ICriteriaNight[]> {
+    const user = await this.userRepository.findById(userId);
+    if (!user) return [];
+
+    return this.diaryRepository.findByUserAndDateRange(user.externalId, startDate, endDate);
+  }
+
+  async getSleepRestrictionStart(userId: number): Promise<string | null> {
+    if (!this.sleepWindowRepository) return null;
+
+    const user = await this.userRepository.findById(userId);
+    if (!user) return null;
+
+    const history = await this.sleepWindowRepository.findHistory(user.externalId, SLEEP_WINDOW_LOOKBACK);
+    const first = history[history.length - 1];
+    if (!first?.createdAt) return null;
+
+    return getZonedTime(first.createdAt, resolveTimezone(user.timezone)).dateKey;
+  }
+}
+
+/**
+ * Create a repository-backed criteria data source
+ */
+export function createCriteriaDataSource(
+  userRepository: IUserRepository,
+  diaryRepository: ISleepDiaryRepository,
+  sleepWindowRepository?: ISleepWindowRepository
+): ICriteriaDataSource {
+  return new RepositoryCriteriaDataSource(userRepository, diaryRepository, sleepWindowRepository);
+}
+
+/**
+ * Load everything an expression needs for one user.
+ * Without a data source only gamification data is available:
+ * diary-based expressions see no nights and sleep restriction is never active.
+ */
+export async function buildCriteriaContext(
+  repository: IGamificationRepository,
+  dataSource: ICriteriaDataSource | undefined,
+  userId: number,
+  diaryWindowDays: number,
+  now: Date = new Date()
+): Promise<ICriteriaContext> {
+  const metrics = await repository.getMetrics(userId);
+  const quests = await repository.getUserQuests(userId);
+  const timeZone = dataSource ? await dataSource.getTimezone(userId) : DEFAULT_TIMEZONE;
+  const today = getZonedTime(now, timeZone).dateKey;
+
+  return {
+    today,
+    timeZone,
+    nights: dataSource && diaryWindowDays > 0
+      ? await dataSource.getNights(userId, addDaysToDateKey(today, -(diaryWindowDays - 1)), today)
+      : [],
+    metrics: new Map(metrics.map((m) => [m.metric, { count: m.count, bestStreak: m.bestStreak }])),
+    completedQuestIds: quests.filter((q) => q.status === 'completed').map((q) => q.questId),
+    sleepRestrictionStart: dataSource ? await dataSource.getSleepRestrictionStart(userId) : null,
+  };
+}
@@ -0,0 +1,458 @@
+/**
+ * CriteriaExpression - Declarative Badge and Quest Criteria
+ * =========================================================
+ *
+ * JSON expression language for badge and quest conditions that go beyond
+ * a single counter, e.g. "SE ≥ 85% on 5 of 7 nights" or "diary logged
+ * before 10:00 for 14 days while in sleep restriction".
+ *
+ * Expressions:
+ * - { all: [...] } / { any: [...] } / { not: expr }: boolean composition
+ * - { nights: condition, window: { days }, atLeast?, consecutive? }:
+ *   count diary nights in a trailing window that satisfy a night condition
+ * - { average: field, window: { days }, op, value, minNights? }:
+ *   threshold over a diary metric averaged across the window
+ * - { counter: metric, op, value } / { bestStreak: metric, op, value }:
+ *   gamification metrics (gamification_metrics table)
+ * - { questCompleted: questId }
+ * - { sleepRestriction: true }: a sleep window has been prescribed
+ *
+ * Night conditions:
+ * - { all / any / not } composition
+ * - { field, op, value }: diary metric threshold (SE in percent, times in minutes)
+ * - { time, before?, after? }: local time of day ("HH:MM"), wraps midnight
+ *   when after > before; "loggedAt" is when the entry was recorded
+ * - { sleepRestriction: true }: night falls on or after the first prescribed window
+ *
+ * Research basis:
+ * - Spielman et al. (1987): sleep restriction with SE ≥ 85% titration target
+ * - Goal Gradient Effect: partial progress (0-1) is reported for every expression
+ *
+ * @packageDocumentation
+ * @module @sleepcore/modules/quests
+ */
+
+import { z } from 'zod';
+import {
+  addDaysToDateKey,
+  getZonedTime,
+  parseTimeOfDay,
+} from '../../bot/services/ZonedTime';
+
+// ==================== Types ====================
+
+/**
+ * Comparison operators for thresholds
+ */
+export type ComparisonOperator = '>=' | '>' | '<=' | '<' | '==' | '!=';
+
+/**
+ * Numeric diary fields usable in thresholds
+ */
+export type DiaryMetric =
+  | 'sleepEfficiency'
+  | 'totalSleepTime'
+  | 'timeInBed'
+  | 'sleepOnsetLatency'
+  | 'wakeAfterSleepOnset'
+  | 'nightAwakenings'
+  | 'sleepQuality'
+  | 'morningMood';
+
+/**
+ * Diary times usable in time-of-day conditions
+ */
+export type DiaryTimeField = 'bedtime' | 'lightsOffTime' | 'wakeTime' | 'outOfBedTime' | 'loggedAt';
+
+/**
+ * Trailing window ending today (inclusive)
+ */
+export interface ICriteriaWindow {
+  days: number;
+}
+
+/**
+ * Condition evaluated against a single diary night
+ */
+export type INightCondition =
+  | { all: INightCondition[] }
+  | { any: INightCondition[] }
+  | { not: INightCondition }
+  | { field: DiaryMetric; op: ComparisonOperator; value: number }
+  | { time: DiaryTimeField; before?: string; after?: string }
+  | { sleepRestriction: boolean };
+
+/**
+ * Badge or quest criteria expression
+ */
+export type ICriteriaExpression =
+  | { all: ICriteriaExpression[] }
+  | { any: ICriteriaExpression[] }
+  | { not: ICriteriaExpression }
+  | {
+      nights: INightCondition;
+      window: ICriteriaWindow;
+      atLeast?: number;
+      consecutive?: boolean;
+    }
+  | {
+      average: DiaryMetric;
+      window: ICriteriaWindow;
+      op: ComparisonOperator;
+      value: number;
+      minNights?: number;
+    }
+  | { counter: string; op: ComparisonOperator; value: number }
+  | { bestStreak: string; op: ComparisonOperator; value: number }
+  | { questCompleted: string }
+  | { sleepRestriction: boolean };
+
+/**
+ * Diary night as seen by the evaluator
+ */
+export interface ICriteriaNight {
+  date: string;
+  bedtime: string;
+  lightsOffTime: string;
+  wakeTime: string;
+  outOfBedTime: string;
+  sleepOnsetLatency: number;
+  wakeAfterSleepOnset: number;
+  nightAwakenings: number;
+  totalSleepTime: number;
+  timeInBed: number;
+  sleepEfficiency: number;
+  sleepQuality: number;
+  morningMood: number;
+  /** When the entry was recorded */
+  createdAt?: Date;
+}
+
+/**
+ * Data an expression is evaluated against
+ */
+export interface ICriteriaContext {
+  /** Local date, YYYY-MM-DD */
+  today: string;
+  /** IANA timezone for time-of-day conditions */
+  timeZone: string;
+  /** Diary nights covering at least the largest window */
+  nights: ICriteriaNight[];
+  /** Gamification metrics by name */
+  metrics: Map<string, { count: number; bestStreak: number }>;
+  completedQuestIds: string[];
+  /** Local date of the first prescribed sleep window, null if never prescribed */
+  sleepRestrictionStart: string | null;
+}
+
+/**
+ * Evaluation result
+ */
+export interface ICriteriaResult {
+  met: boolean;
+  /** Progress toward the criteria, 0-1 */
+  progress: number;
+}
+
+// ==================== Schema ====================
+
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const ComparisonOperatorSchema = z.enum(['>=', '>', '<=', '<', '==', '!=']);
+
+const DiaryMetricSchema = z.enum([
+  'sleepEfficiency',
+  'totalSleepTime',
+  'timeInBed',
+  'sleepOnsetLatency',
+  'wakeAfterSleepOnset',
+  'nightAwakenings',
+  'sleepQuality',
+  'morningMood',
+]);
+
+const DiaryTimeFieldSchema = z.enum(['bedtime', 'lightsOffTime', 'wakeTime', 'outOfBedTime', 'loggedAt']);
+
+const WindowSchema = z.object({
+  days: z.number().int().min(1).max(90),
+}).strict();
+
+const TimeOfDaySchema = z.string().regex(TIME_OF_DAY, 'Expected HH:MM');
+
+/**
+ * Night condition schema
+ */
+export const NightConditionSchema: z.ZodType<INightCondition> = z.lazy(() =>
+  z.union([
+    z.object({ all: z.array(NightConditionSchema).min(1) }).strict(),
+    z.object({ any: z.array(NightConditionSchema).min(1) }).strict(),
+    z.object({ not: NightConditionSchema }).strict(),
+    z.object({
+      field: DiaryMetricSchema,
+      op: ComparisonOperatorSchema,
+      value: z.number(),
+    }).strict(),
+    z.object({
+      time: DiaryTimeFieldSchema,
+      before: TimeOfDaySchema.optional(),
+      after: TimeOfDaySchema.optional(),
+    }).strict().refine((c) => c.before !== undefined || c.after !== undefined, {
+      message: 'Time condition needs "before" or "after"',
+    }),
+    z.object({ sleepRestriction: z.boolean() }).strict(),
+  ])
+);
+
+/**
+ * Criteria expression schema
+ */
+export const CriteriaExpressionSchema: z.ZodType<ICriteriaExpression> = z.lazy(() =>
+  z.union([
+    z.object({ all: z.array(CriteriaExpressionSchema).min(1) }).strict(),
+    z.object({ any: z.array(CriteriaExpressionSchema).min(1) }).strict(),
+    z.object({ not: CriteriaExpressionSchema }).strict(),
+    z.object({
+      nights: NightConditionSchema,
+      window: WindowSchema,
+      atLeast: z.number().int().min(1).optional(),
+      consecutive: z.boolean().optional(),
+    }).strict().refine((c) => c.atLeast === undefined || c.atLeast <= c.window.days, {
+      message: '"atLeast" cannot exceed the window length',
+    }),
+    z.object({
+      average: DiaryMetricSchema,
+      window: WindowSchema,
+      op: ComparisonOperatorSchema,
+      value: z.number(),
+      minNights: z.number().int().min(1).optional(),
+    }).strict(),
+    z.object({ counter: z.string().min(1), op: ComparisonOperatorSchema, value: z.number() }).strict(),
+    z.object({ bestStreak: z.string().min(1), op: ComparisonOperatorSchema, value: z.number() }).strict(),
+    z.object({ questCompleted: z.string().min(1) }).strict(),
+    z.object({ sleepRestriction: z.boolean() }).strict(),
+  ])
+);
+
+// ==================== Evaluation ====================
+
+/**
+ * Compare two numbers with an operator
+ */
+function compare(actual: number, op: ComparisonOperator, expected: number): boolean {
+  switch (op) {
+    case '>=':
+      return actual >= expected;
+    case '>':
+      return actual > expected;
+    case '<=':
+      return actual <= expected;
+    case '<':
+      return actual < expected;
+    case '==':
+      return actual === expected;
+    case '!=':
+      return actual !== expected;
+  }
+}
+
+/**
+ * Progress of a threshold: proportional for lower bounds, binary otherwise
+ */
+function thresholdProgress(actual: number, op: ComparisonOperator, expected: number): number {
+  if (compare(actual, op, expected)) return 1;
+  if ((op === '>=' || op === '>') && expected > 0) {
+    return Math.max(0, Math.min(1, actual / expected));
+  }
+  return 0;
+}
+
+/**
+ * Whether a local time (minutes) falls within before/after bounds.
+ * after > before means the range wraps midnight (e.g. after 22:00, before 02:00).
+ */
+function isWithinTimeOfDay(minutes: number, before?: string, after?: string): boolean {
+  const end = before !== undefined ? parseTimeOfDay(before) : undefined;
+  const start = after !== undefined ? parseTimeOfDay(after) : undefined;
+
+  if (start !== undefined && end !== undefined) {
+    return start <= end
+      ? minutes >= start && minutes < end
+      : minutes >= start || minutes < end;
+  }
+  if (end !== undefined) return minutes < end;
+  return minutes >= start!;
+}
+
+/**
+ * Local time of day (minutes) for a diary time field
+ */
+function getNightTime(night: ICriteriaNight, field: DiaryTimeField, timeZone: string): number | null {
+  if (field === 'loggedAt') {
+    return night.createdAt ? getZonedTime(night.createdAt, timeZone).minutesOfDay : null;
+  }
+  const value = night[field];
+  return value ? parseTimeOfDay(value) : null;
+}
+
+/**
+ * Evaluate a night condition against one diary night
+ */
+export function evaluateNightCondition(
+  condition: INightCondition,
+  night: ICriteriaNight,
+  context: ICriteriaContext
+): boolean {
+  if ('all' in condition) {
+    return condition.all.every((c) => evaluateNightCondition(c, night, context));
+  }
+  if ('any' in condition) {
+    return condition.any.some((c) => evaluateNightCondition(c, night, context));
+  }
+  if ('not' in condition) {
+    return !evaluateNightCondition(condition.not, night, context);
+  }
+  if ('field' in condition) {
+    return compare(night[condition.field], condition.op, condition.value);
+  }
+  if ('time' in condition) {
+    const minutes = getNightTime(night, condition.time, context.timeZone);
+    return minutes !== null && isWithinTimeOfDay(minutes, condition.before, condition.after);
+  }
+  const inRestriction =
+    context.sleepRestrictionStart !== null && night.date >= context.sleepRestrictionStart;
+  return inRestriction === condition.sleepRestriction;
+}
+
+/**
+ * Diary nights in a trailing window, one per date (latest entry wins)
+ */
+function getWindowNights(window: ICriteriaWindow, context: ICriteriaContext): Map<string, ICriteriaNight> {
+  const start = addDaysToDateKey(context.today, -(window.days - 1));
+  const byDate = new Map<string, ICriteriaNight>();
+
+  for (const night of context.nights) {
+    if (night.date >= start && night.date <= context.today) {
+      byDate.set(night.date, night);
+    }
+  }
+
+  return byDate;
+}
+
+/**
+ * Longest run of consecutive dates in a sorted list
+ */
+function longestRun(dates: string[]): number {
+  let best = 0;
+  let run = 0;
+  let previous: string | null = null;
+
+  for (const date of dates) {
+    run = previous !== null && addDaysToDateKey(previous, 1) === date ? run + 1 : 1;
+    best = Math.max(best, run);
+    previous = date;
+  }
+
+  return best;
+}
+
+/**
+ * Evaluate a criteria expression
+ */
+export function evaluateCriteria(
+  expression: ICriteriaExpression,
+  context: ICriteriaContext
+): ICriteriaResult {
+  if ('all' in expression) {
+    const results = expression.all.map((e) => evaluateCriteria(e, context));
+    return {
+      met: results.every((r) => r.met),
+      progress: results.reduce((sum, r) => sum + r.progress, 0) / results.length,
+    };
+  }
+
+  if ('any' in expression) {
+    const results = expression.any.map((e) => evaluateCriteria(e, context));
+    return {
+      met: results.some((r) => r.met),
+      progress: Math.max(...results.map((r) => r.progress)),
+    };
+  }
+
+  if ('not' in expression) {
+    const met = !evaluateCriteria(expression.not, context).met;
+    return { met, progress: met ? 1 : 0 };
+  }
+
+  if ('nights' in expression) {
+    const nights = getWindowNights(expression.window, context);
+    const matching = [...nights.values()]
+      .filter((night) => evaluateNightCondition(expression.nights, night, context))
+      .map((night) => night.date)
+      .sort();
+    const count = expression.consecutive ? longestRun(matching) : matching.length;
+    const required = expression.atLeast ?? expression.window.days;
+    return { met: count >= required, progress: Math.min(1, count / required) };
+  }
+
+  if ('average' in expression) {
+    const values = [...getWindowNights(expression.window, context).values()].map(
+      (night) => night[expression.average]
+    );
+    const minNights = expression.minNights ?? 1;
+    if (values.length < minNights) {
+      return { met: false, progress: 0 };
+    }
+    const average = values.reduce((sum, v) => sum + v, 0) / values.length;
+    return {
+      met: compare(average, expression.op, expression.value),
+      progress: thresholdProgress(average, expression.op, expression.value),
+    };
+  }
+
+  if ('counter' in expression) {
+    const count = context.metrics.get(expression.counter)?.count ?? 0;
+    return {
+      met: compare(count, expression.op, expression.value),
+      progress: thresholdProgress(count, expression.op, expression.value),
+    };
+  }
+
+  if ('bestStreak' in expression) {
+    const streak = context.metrics.get(expression.bestStreak)?.bestStreak ?? 0;
+    return {
+      met: compare(streak, expression.op, expression.value),
+      progress: thresholdProgress(streak, expression.op, expression.value),
+    };
+  }
+
+  if ('questCompleted' in expression) {
+    const met = context.completedQuestIds.includes(expression.questCompleted);
+    return { met, progress: met ? 1 : 0 };
+  }
+
+  const met = (context.sleepRestrictionStart !== null) === expression.sleepRestriction;
+  return { met, progress: met ? 1 : 0 };
+}
+
+/**
+ * Number of diary days an expression looks back (0 if it needs no diary data)
+ */
+export function getDiaryWindowDays(expression: ICriteriaExpression): number {
+  if ('all' in expression) return Math.max(0, ...expression.all.map(getDiaryWindowDays));
+  if ('any' in expression) return Math.max(0, ...expression.any.map(getDiaryWindowDays));
+  if ('not' in expression) return getDiaryWindowDays(expression.not);
+  if ('nights' in expression || 'average' in expression) return expression.window.days;
+  return 0;
+}
+
+/**
+ * Quest IDs referenced by an expression
+ */
+export function getReferencedQuestIds(expression: ICriteriaExpression): string[] {
+  if ('all' in expression) return expression.all.flatMap(getReferencedQuestIds);
+  if ('any' in expression) return expression.any.flatMap(getReferencedQuestIds);
+  if ('not' in expression) return getReferencedQuestIds(expression.not);
+  if ('questCompleted' in expression) return [expression.questCompleted];
+  return [];
+}
@@ -0,0 +1,256 @@
+/**
+ * DefinitionLoader - JSON Badge and Quest Definitions
+ * ===================================================
+ *
+ * Loads badges and quests that product staff define in JSON files,
+ * validated at load time so a broken file fails startup instead of
+ * silently never awarding anything. A missing directory fails startup
+ * the same way.
+ *
+ * File format:
+ * {
+ *   "badges": [{ "id": "...", "criteria": { "type": "expression", "expression": {...} }, ... }],
+ *   "quests": [{ "id": "...", "progressType": "criteria", "criteria": {...}, ... }]
+ * }
+ *
+ * Checks beyond the schema:
+ * - Badge and quest IDs are unique across all files and built-in definitions
+ * - 'expression' badges and 'criteria' quests carry an expression
+ * - questCompleted and quest reward badges reference known IDs
+ *
+ * @packageDocumentation
+ * @module @sleepcore/modules/quests
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { z } from 'zod';
+import { CriteriaExpressionSchema, getReferencedQuestIds } from './CriteriaExpression';
+import { DEFAULT_QUESTS, type IQuest } from './QuestService';
+import { DEFAULT_BADGES, type IBadge } from './BadgeService';
+
+// ==================== Schema ====================
+
+/**
+ * Badge definition schema
+ */
+export const BadgeDefinitionSchema = z.object({
+  id: z.string().regex(/^[a-z0-9_]+$/, 'Use lowercase letters, digits and underscores'),
+  name: z.string().min(1),
+  description: z.string().min(1),
+  icon: z.string().min(1),
+  category: z.enum(['achievement', 'streak', 'milestone', 'evolution', 'special']),
+  rarity: z.enum(['common', 'rare', 'epic', 'legendary']),
+  criteria: z.object({
+    type: z.enum(['quest', 'streak', 'count', 'first', 'special', 'expression']),
+    metric: z.string().min(1).optional(),
+    value: z.number().optional(),
+    questId: z.string().min(1).optional(),
+    expression: CriteriaExpressionSchema.optional(),
+  }).strict().refine((c) => (c.type === 'expression') === (c.expression !== undefined), {
+    message: '"expression" is required for, and only allowed with, type "expression"',
+  }),
+  reward: z.object({
+    xp: z.number().int().min(0),
+    unlocks: z.array(z.string()).optional(),
+    title: z.string().optional(),
+  }).strict().optional(),
+  hidden: z.boolean().optional(),
+}).strict();
+
+/**
+ * Quest definition schema
+ */
+export const QuestDefinitionSchema = z.object({
+  id: z.string().regex(/^[a-z0-9_]+$/, 'Use lowercase letters, digits and underscores'),
+  title: z.string().min(1),
+  description: z.string().min(1),
+  icon: z.string().min(1),
+  category: z.enum(['sleep', 'diary', 'mindfulness', 'digital_detox', 'routine']),
+  difficulty: z.enum(['easy', 'medium', 'hard']),
+  durationDays: z.number().int().min(1).max(90),
+  progressType: z.enum(['streak', 'cumulative', 'improvement', 'criteria']),
+  targetMetric: z.string().min(1),
+  targetValue: z.number().positive(),
+  reward: z.object({
+    xp: z.number().int().min(0),
+    badge: z.string().optional(),
+    unlocks: z.array(z.string()).optional(),
+  }).strict(),
+  criteria: CriteriaExpressionSchema.optional(),
+}).strict().refine((q) => (q.progressType === 'criteria') === (q.criteria !== undefined), {
+  message: '"criteria" is required for, and only allowed with, progressType "criteria"',
+});
+
+/**
+ * Definition file schema
+ */
+export const DefinitionFileSchema = z.object({
+  badges: z.array(BadgeDefinitionSchema).default([]),
+  quests: z.array(QuestDefinitionSchema).default([]),
+}).strict();
+
+// ==================== Types ====================
+
+/**
+ * Loaded custom definitions
+ */
+export interface IGamificationDefinitions {
+  badges: IBadge[];
+  quests: IQuest[];
+}
+
+/**
+ * Problem found in a definition file
+ */
+export interface IDefinitionIssue {
+  file: string;
+  path: string;
+  message: string;
+}
+
+/**
+ * Definition validation error
+ */
+export class DefinitionValidationError extends Error {
+  constructor(
+    message: string,
+    public readonly issues: IDefinitionIssue[]
+  ) {
+    super(message);
+    this.name = 'DefinitionValidationError';
+  }
+
+  /**
+   * Get formatted error messages
+   */
+  getFormattedErrors(): string[] {
+    return this.issues.map((issue) =>
+      issue.path ? `${issue.file}: ${issue.path}: ${issue.message}` : `${issue.file}: ${issue.message}`
+    );
+  }
+}
+
+// ==================== Loading ====================
+
+/**
+ * Default directory for product-defined badges and quests.
+ * tsc does not emit JSON, so `npm run build` copies it next to the compiled loader.
+ */
+export const DEFAULT_DEFINITIONS_DIR = path.join(__dirname, 'definitions');
+
+/**
+ * Environment variable that points to another definitions directory
+ */
+export const DEFINITIONS_DIR_ENV = 'GAMIFICATION_DEFINITIONS_DIR';
+
+/**
+ * Definitions directory: GAMIFICATION_DEFINITIONS_DIR when set, the bundled one otherwise
+ */
+export function resolveDefinitionsDir(env: NodeJS.ProcessEnv = process.env): string {
+  const configured = env[DEFINITIONS_DIR_ENV]?.trim();
+  return configured ? path.resolve(configured) : DEFAULT_DEFINITIONS_DIR;
+}
+
+/**
+ * Validate parsed definition files.
+ * @param files - Parsed JSON by file name
+ * @throws DefinitionValidationError if any file is invalid
+ */
+export function parseGamificationDefinitions(files: Record<string, unknown>): IGamificationDefinitions {
+  const issues: IDefinitionIssue[] = [];
+  const definitions: IGamificationDefinitions = { badges: [], quests: [] };
+  const sources = new Map<string, string>();
+
+  for (const [file, content] of Object.entries(files)) {
+    const result = DefinitionFileSchema.safeParse(content);
+    if (!result.success) {
+      for (const issue of result.error.issues) {
+        issues.push({ file, path: issue.path.join('.'), message: issue.message });
+      }
+      continue;
+    }
+
+    result.data.badges.forEach((badge, index) => {
+      const key = `badge:${badge.id}`;
+      if (sources.has(key) || DEFAULT_BADGES.some((b) => b.id === badge.id)) {
+        issues.push({ file, path: `badges.${index}.id`, message: `Duplicate badge ID "${badge.id}"` });
+        return;
+      }
+      sources.set(key, file);
+      definitions.badges.push(badge);
+    });
+
+    result.data.quests.forEach((quest, index) => {
+      const key = `quest:${quest.id}`;
+      if (sources.has(key) || DEFAULT_QUESTS.some((q) => q.id === quest.id)) {
+        issues.push({ file, path: `quests.${index}.id`, message: `Duplicate quest ID "${quest.id}"` });
+        return;
+      }
+      sources.set(key, file);
+      definitions.quests.push(quest);
+    });
+  }
+
+  // Cross-references
+  const questIds = new Set([...DEFAULT_QUESTS, ...definitions.quests].map((q) => q.id));
+  const badgeIds = new Set([...DEFAULT_BADGES, ...definitions.badges].map((b) => b.id));
+
+  definitions.badges.forEach((badge) => {
+    const file = sources.get(`badge:${badge.id}`)!;
+    const referenced = [
+      ...(badge.criteria.expression ? getReferencedQuestIds(badge.criteria.expression) : []),
+      ...(badge.criteria.questId ? [badge.criteria.questId] : []),
+    ];
+    for (const questId of referenced.filter((id) => !questIds.has(id))) {
+      issues.push({ file, path: `badge ${badge.id}`, message: `Unknown quest "${questId}"` });
+    }
+  });
+
+  definitions.quests.forEach((quest) => {
+    const file = sources.get(`quest:${quest.id}`)!;
+    const referenced = quest.criteria ? getReferencedQuestIds(quest.criteria) : [];
+    for (const questId of referenced.filter((id) => !questIds.has(id))) {
+      issues.push({ file, path: `quest ${quest.id}`, message: `Unknown quest "${questId}"` });
+    }
+    if (quest.reward.badge && !badgeIds.has(quest.reward.badge)) {
+      issues.push({ file, path: `quest ${quest.id}`, message: `Unknown reward badge "${quest.reward.badge}"` });
+    }
+  });
+
+  if (issues.length > 0) {
+    throw new DefinitionValidationError('Invalid gamification definitions', issues);
+  }
+
+  return definitions;
+}
+
+/**
+ * Load all *.json definition files from a directory.
+ * @throws DefinitionValidationError if the directory is missing, or on invalid JSON or definitions
+ */
+export function loadGamificationDefinitions(dirPath: string = resolveDefinitionsDir()): IGamificationDefinitions {
+  if (!fs.existsSync(dirPath) || !fs.statSync(dirPath).isDirectory()) {
+    throw new DefinitionValidationError('Gamification definitions directory not found', [
+      { file: dirPath, path: '', message: `Directory does not exist (set ${DEFINITIONS_DIR_ENV} or rebuild)` },
+    ]);
+  }
+
+  const files: Record<string, unknown> = {};
+  const issues: IDefinitionIssue[] = [];
+
+  const names = fs.readdirSync(dirPath).filter((name) => name.endsWith('.json')).sort();
+  for (const name of names) {
+    try {
+      files[name] = JSON.parse(fs.readFileSync(path.join(dirPath, name), 'utf-8'));
+    } catch (error) {
+      issues.push({ file: name, path: '', message: `Invalid JSON: ${(error as Error).message}` });
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new DefinitionValidationError('Invalid gamification definitions', issues);
+  }
+
+  return parseGamificationDefinitions(files);
+}
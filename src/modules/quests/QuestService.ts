@@ -15,6 +15,16 @@
  * @module @sleepcore/modules/quests
  */
 
+import type { IGamificationRepository, IUserQuestEntity } from '../../infrastructure/database';
+import {
+  evaluateCriteria,
+  getDiaryWindowDays,
+  type ICriteriaContext,
+  type ICriteriaExpression,
+} from './CriteriaExpression';
+import { buildCriteriaContext, type ICriteriaDataSource } from './CriteriaDataSource';
+import { getZonedTime } from '../../bot/services/ZonedTime';
+
 /**
  * Quest category types
  */
@@ -28,7 +38,7 @@ export type QuestDifficulty = 'easy' | 'medium' | 'hard';
 /**
  * Quest progress type
  */
-export type QuestProgressType = 'streak' | 'cumulative' | 'improvement';
+export type QuestProgressType = 'streak' | 'cumulative' | 'improvement' | 'criteria';
 
 /**
  * Quest status
@@ -50,6 +60,11 @@ export interface IQuest {
   targetMetric: string;
   targetValue: number;
   reward: IQuestReward;
+  /**
+   * Declarative completion criteria (progressType 'criteria').
+   * Re-evaluated whenever targetMetric is updated; progress is scaled to targetValue.
+   */
+  criteria?: ICriteriaExpression;
 }
 
 /**
@@ -66,7 +81,7 @@ export interface IQuestReward {
  */
 export interface IActiveQuest {
   id: string;
-  userId: string;
+  userId: number;
   questId: string;
   startedAt: Date;
   expiresAt: Date;
@@ -247,16 +262,26 @@ const DEFAULT_QUESTS: IQuest[] = [
   },
 ];
 
+/**
+ * Quest progress as stored in user_quests.objectives_json
+ */
+interface IStoredQuestProgress extends IQuestProgress {
+  expiresAt?: string;
+}
+
 /**
  * QuestService - Manages quests and progress for users
+ * State is persisted in user_quests via GamificationRepository
  */
 export class QuestService {
   private quests: Map<string, IQuest> = new Map();
-  private activeQuests: Map<string, IActiveQuest[]> = new Map();
-  private completedQuests: Map<string, string[]> = new Map();
   private readonly maxActiveQuests = 3;
+  private criteriaDataSource?: ICriteriaDataSource;
 
-  constructor(customQuests?: IQuest[]) {
+  constructor(
+    private readonly repository: IGamificationRepository,
+    customQuests?: IQuest[]
+  ) {
     // Load default quests
     for (const quest of DEFAULT_QUESTS) {
       this.quests.set(quest.id, quest);
@@ -270,12 +295,19 @@ export class QuestService {
     }
   }
 
+  /**
+   * Provide diary and therapy data for 'criteria' quests
+   */
+  setCriteriaDataSource(dataSource: ICriteriaDataSource): void {
+    this.criteriaDataSource = dataSource;
+  }
+
   /**
    * Get all available quests for a user
    */
-  getAvailableQuests(userId: string): IQuest[] {
-    const active = this.getActiveQuestIds(userId);
-    const completed = this.completedQuests.get(userId) || [];
+  async getAvailableQuests(userId: number): Promise<IQuest[]> {
+    const active = await this.getActiveQuestIds(userId);
+    const completed = await this.getCompletedQuestIds(userId);
 
     return Array.from(this.quests.values())
       .filter((quest) => !active.includes(quest.id))
@@ -285,28 +317,45 @@ export class QuestService {
 
   /**
    * Get active quests for a user
+   * Quests past their deadline are marked expired
    */
-  getActiveQuests(userId: string): IActiveQuest[] {
-    return this.activeQuests.get(userId) || [];
+  async getActiveQuests(userId: number): Promise<IActiveQuest[]> {
+    const rows = await this.repository.getActiveQuests(userId);
+    const active: IActiveQuest[] = [];
+    const now = new Date();
+
+    for (const row of rows) {
+      const activeQuest = this.toActiveQuest(row);
+      if (!activeQuest) continue;
+
+      if (now > activeQuest.expiresAt) {
+        await this.repository.expireQuest(userId, row.questId);
+        continue;
+      }
+
+      active.push(activeQuest);
+    }
+
+    return active;
   }
 
   /**
    * Get active quest IDs for a user
    */
-  private getActiveQuestIds(userId: string): string[] {
-    return this.getActiveQuests(userId).map((q) => q.questId);
+  private async getActiveQuestIds(userId: number): Promise<string[]> {
+    return (await this.getActiveQuests(userId)).map((q) => q.questId);
   }
 
   /**
    * Start a quest for a user
    */
-  startQuest(userId: string, questId: string): IActiveQuest | null {
+  async startQuest(userId: number, questId: string): Promise<IActiveQuest | null> {
     const quest = this.quests.get(questId);
     if (!quest) {
       return null;
     }
 
-    const userActive = this.getActiveQuests(userId);
+    const userActive = await this.getActiveQuests(userId);
 
     // Check if already active
     if (userActive.some((q) => q.questId === questId)) {
@@ -319,7 +368,7 @@ export class QuestService {
     }
 
     // Check if already completed
-    const completed = this.completedQuests.get(userId) || [];
+    const completed = await this.getCompletedQuestIds(userId);
     if (completed.includes(questId)) {
       return null;
     }
@@ -328,67 +377,65 @@ export class QuestService {
     const expiresAt = new Date(now);
     expiresAt.setDate(expiresAt.getDate() + quest.durationDays);
 
-    const activeQuest: IActiveQuest = {
-      id: `${userId}_${questId}_${Date.now()}`,
+    const progress: IQuestProgress = {
+      currentValue: 0,
+      targetValue: quest.targetValue,
+      consecutiveDays: 0,
+      lastUpdateDate: '',
+      history: [],
+    };
+
+    // Restarting an expired quest reuses its row, so progress is reset explicitly
+    await this.repository.startQuest(userId, questId);
+    const row = await this.repository.updateQuestProgress(userId, questId, {
+      ...progress,
+      expiresAt: expiresAt.toISOString(),
+    });
+
+    return {
+      id: String(row.id),
       userId,
       questId,
       startedAt: now,
       expiresAt,
       status: 'active',
-      progress: {
-        currentValue: 0,
-        targetValue: quest.targetValue,
-        consecutiveDays: 0,
-        lastUpdateDate: '',
-        history: [],
-      },
+      progress,
     };
-
-    if (!this.activeQuests.has(userId)) {
-      this.activeQuests.set(userId, []);
-    }
-    this.activeQuests.get(userId)!.push(activeQuest);
-
-    return activeQuest;
   }
 
   /**
    * Update progress for a metric
    * Returns completed quests if any
    */
-  updateProgress(
-    userId: string,
+  async updateProgress(
+    userId: number,
     metric: string,
     value: number = 1
-  ): IQuestCompletionResult[] {
-    const userActive = this.getActiveQuests(userId);
+  ): Promise<IQuestCompletionResult[]> {
+    const userActive = await this.getActiveQuests(userId);
     const completedResults: IQuestCompletionResult[] = [];
     const today = new Date().toISOString().split('T')[0];
+    let criteriaContext: ICriteriaContext | undefined;
 
     for (const activeQuest of userActive) {
       const quest = this.quests.get(activeQuest.questId);
       if (!quest || quest.targetMetric !== metric) continue;
-      if (activeQuest.status !== 'active') continue;
-
-      // Check expiration
-      if (new Date() > activeQuest.expiresAt) {
-        activeQuest.status = 'expired';
-        continue;
-      }
 
       // Update progress based on type
-      this.updateQuestProgress(activeQuest, quest, value, today);
+      if (quest.progressType === 'criteria' && quest.criteria) {
+        criteriaContext ??= await this.buildCriteriaContext(userId);
+        this.updateCriteriaProgress(activeQuest, quest, quest.criteria, criteriaContext, today);
+      } else {
+        this.updateQuestProgress(activeQuest, quest, value, today);
+      }
+      await this.repository.updateQuestProgress(userId, quest.id, {
+        ...activeQuest.progress,
+        expiresAt: activeQuest.expiresAt.toISOString(),
+      });
 
       // Check completion
       if (this.isQuestCompleted(activeQuest, quest)) {
-        activeQuest.status = 'completed';
-        activeQuest.completedAt = new Date();
-
-        // Add to completed list
-        if (!this.completedQuests.has(userId)) {
-          this.completedQuests.set(userId, []);
-        }
-        this.completedQuests.get(userId)!.push(quest.id);
+        await this.repository.completeQuest(userId, quest.id);
 
         completedResults.push({
           completed: true,
@@ -399,9 +446,6 @@ export class QuestService {
       }
     }
 
-    // Remove completed/expired from active
-    this.cleanupUserQuests(userId);
-
     return completedResults;
   }
 
@@ -452,6 +496,10 @@ export class QuestService {
         progress.currentValue = value;
         progress.lastUpdateDate = today;
         break;
+
+      case 'criteria':
+        // Evaluated in updateCriteriaProgress
+        return;
     }
 
     // Add to history
@@ -462,6 +510,50 @@ export class QuestService {
     });
   }
 
+  /**
+   * Re-evaluate a 'criteria' quest. Only diary nights since the quest
+   * started count, so earlier nights cannot complete it immediately.
+   */
+  private updateCriteriaProgress(
+    activeQuest: IActiveQuest,
+    quest: IQuest,
+    criteria: ICriteriaExpression,
+    context: ICriteriaContext,
+    today: string
+  ): void {
+    const startDate = getZonedTime(activeQuest.startedAt, context.timeZone).dateKey;
+    const result = evaluateCriteria(criteria, {
+      ...context,
+      nights: context.nights.filter((night) => night.date >= startDate),
+    });
+
+    const progress = activeQuest.progress;
+    progress.currentValue = result.met
+      ? quest.targetValue
+      : Math.floor(result.progress * quest.targetValue);
+    progress.lastUpdateDate = today;
+    progress.history.push({
+      date: today,
+      value: progress.currentValue,
+      cumulative: progress.currentValue,
+    });
+  }
+
+  /**
+   * Load criteria context covering every active 'criteria' quest
+   */
+  private async buildCriteriaContext(userId: number): Promise<ICriteriaContext> {
+    const diaryDays = Math.max(
+      0,
+      ...Array.from(this.quests.values())
+        .map((q) => q.criteria)
+        .filter((c): c is ICriteriaExpression => c !== undefined)
+        .map(getDiaryWindowDays)
+    );
+
+    return buildCriteriaContext(this.repository, this.criteriaDataSource, userId, diaryDays);
+  }
+
   /**
    * Check if quest is completed
    */
@@ -475,7 +567,7 @@ export class QuestService {
   private getCelebrationMessage(quest: IQuest): string {
     const messages: Record<QuestDifficulty, string[]> = {
       easy: [
-        `🎉 Отлично! Ты завершил квест "${quest.title}"!`,
+        `🎉 Отлично! Квест "${quest.title}" завершён!`,
         `✨ Молодец! Квест "${quest.title}" выполнен!`,
       ],
       medium: [
@@ -483,7 +575,7 @@ export class QuestService {
         `💪 Отличная работа! "${quest.title}" — готово!`,
       ],
       hard: [
-        `🌟 Невероятно! Ты справился с "${quest.title}"!`,
+        `🌟 Невероятно! "${quest.title}" позади!`,
         `🎊 Мастер! Сложный квест "${quest.title}" покорён!`,
       ],
     };
@@ -493,16 +585,34 @@ export class QuestService {
   }
 
   /**
-   * Remove completed/expired quests from active list
+   * Map stored quest row to active quest
    */
-  private cleanupUserQuests(userId: string): void {
-    const userActive = this.activeQuests.get(userId);
-    if (!userActive) return;
+  private toActiveQuest(row: IUserQuestEntity): IActiveQuest | null {
+    const quest = this.quests.get(row.questId);
+    if (!quest) return null;
 
-    const active = userActive.filter(
-      (q) => q.status === 'active' && new Date() <= q.expiresAt
-    );
-    this.activeQuests.set(userId, active);
+    const stored = parseStoredProgress(row.objectivesJson);
+    const startedAt = row.startedAt ?? new Date();
+    const expiresAt = stored.expiresAt
+      ? new Date(stored.expiresAt)
+      : new Date(startedAt.getTime() + quest.durationDays * 24 * 60 * 60 * 1000);
+
+    return {
+      id: String(row.id),
+      userId: row.userId,
+      questId: row.questId,
+      startedAt,
+      expiresAt,
+      status: row.status === 'active' ? 'active' : row.status === 'completed' ? 'completed' : 'expired',
+      completedAt: row.completedAt,
+      progress: {
+        currentValue: stored.currentValue ?? 0,
+        targetValue: stored.targetValue ?? quest.targetValue,
+        consecutiveDays: stored.consecutiveDays ?? 0,
+        lastUpdateDate: stored.lastUpdateDate ?? '',
+        history: stored.history ?? [],
+      },
+    };
   }
 
   /**
@@ -516,11 +626,11 @@ export class QuestService {
    * Check and update quest progress for a specific metric
    * Alias for updateProgress with clearer naming
    * @param userId - User ID
-   * @param metric - Metric to update (e.g., 'voice_diary', 'diary_entry')
+   * @param metric - Metric to update (e.g., 'voice_entries', 'diary_entries')
    * @param value - Amount to add
    */
   async checkQuestProgress(
-    userId: string,
+    userId: number,
     metric: string,
     value: number = 1
   ): Promise<IQuestCompletionResult[]> {
@@ -537,8 +647,9 @@ export class QuestService {
   /**
    * Get completed quest IDs for a user
    */
-  getCompletedQuestIds(userId: string): string[] {
-    return this.completedQuests.get(userId) || [];
+  async getCompletedQuestIds(userId: number): Promise<string[]> {
+    const rows = await this.repository.getUserQuests(userId);
+    return rows.filter((row) => row.status === 'completed').map((row) => row.questId);
   }
 
   /**
@@ -601,30 +712,42 @@ export class QuestService {
     return translations[difficulty];
   }
 
-  /**
-   * Clear user data (GDPR)
-   */
-  clearUserData(userId: string): void {
-    this.activeQuests.delete(userId);
-    this.completedQuests.delete(userId);
-  }
-
   /**
    * Export user data (GDPR)
+   * Deletion is handled by GamificationRepository.deleteUserData
    */
-  exportUserData(userId: string): {
+  async exportUserData(userId: number): Promise<{
     activeQuests: IActiveQuest[];
     completedQuestIds: string[];
-  } {
+  }> {
     return {
-      activeQuests: this.getActiveQuests(userId),
-      completedQuestIds: this.getCompletedQuestIds(userId),
+      activeQuests: await this.getActiveQuests(userId),
+      completedQuestIds: await this.getCompletedQuestIds(userId),
     };
   }
 }
 
-// Singleton instance
-export const questService = new QuestService();
+/**
+ * Parse objectives_json (defaults to '[]' for rows created without progress)
+ */
+function parseStoredProgress(json: string): Partial<IStoredQuestProgress> {
+  try {
+    const parsed = JSON.parse(json || '{}');
+    return parsed && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Create a repository-backed QuestService
+ */
+export function createQuestService(
+  repository: IGamificationRepository,
+  customQuests?: IQuest[]
+): QuestService {
+  return new QuestService(repository, customQuests);
+}
 
 // Export default quests for testing
 export { DEFAULT_QUESTS };
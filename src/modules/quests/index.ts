@@ -11,7 +11,7 @@
 
 export {
   QuestService,
-  questService,
+  createQuestService,
   DEFAULT_QUESTS,
   type IQuest,
   type IActiveQuest,
@@ -27,13 +27,53 @@ export {
 
 export {
   BadgeService,
-  badgeService,
+  createBadgeService,
   DEFAULT_BADGES,
   type IBadge,
   type IUserBadge,
   type IBadgeCriteria,
   type IBadgeReward,
   type IBadgeAwardResult,
+  type IBadgeProgress,
   type BadgeCategory,
   type BadgeRarity,
 } from './BadgeService';
+
+export {
+  evaluateCriteria,
+  evaluateNightCondition,
+  getDiaryWindowDays,
+  getReferencedQuestIds,
+  CriteriaExpressionSchema,
+  NightConditionSchema,
+  type ICriteriaExpression,
+  type INightCondition,
+  type ICriteriaWindow,
+  type ICriteriaNight,
+  type ICriteriaContext,
+  type ICriteriaResult,
+  type ComparisonOperator,
+  type DiaryMetric,
+  type DiaryTimeField,
+} from './CriteriaExpression';
+
+export {
+  RepositoryCriteriaDataSource,
+  createCriteriaDataSource,
+  buildCriteriaContext,
+  type ICriteriaDataSource,
+} from './CriteriaDataSource';
+
+export {
+  loadGamificationDefinitions,
+  parseGamificationDefinitions,
+  DefinitionValidationError,
+  resolveDefinitionsDir,
+  DEFAULT_DEFINITIONS_DIR,
+  DEFINITIONS_DIR_ENV,
+  BadgeDefinitionSchema,
+  QuestDefinitionSchema,
+  DefinitionFileSchema,
+  type IGamificationDefinitions,
+  type IDefinitionIssue,
+} from './DefinitionLoader';
@@ -0,0 +1,431 @@
+/**
+ * WearableImportService - Wearable Sleep Import & Diary Reconciliation
+ * =====================================================================
+ *
+ * Imports device exports uploaded to the bot as documents, persists the
+ * normalized nights and compares them with the sleep diary for the same
+ * wake date.
+ *
+ * Research basis:
+ * - Sleep-state misperception: people with insomnia report ~1 h less sleep
+ *   than objectively recorded (Harvey & Tang, 2012; Castelnovo et al., 2019)
+ * - Consumer wearables overestimate TST in insomnia (de Zambotti et al., 2019),
+ *   so a discrepancy is shown as information, never as a diagnosis
+ *
+ * @packageDocumentation
+ * @module @sleepcore/modules/wearables
+ */
+
+import type { IWearableSleepData } from '../../sleep/interfaces/ISleepState';
+import type {
+  ISleepDiaryEntryEntity,
+  ISleepDiaryRepository,
+  IWearableSleepRepository,
+  WearableImportFormat,
+} from '../../infrastructure/database/interfaces/IRepository';
+import { StringDecoder } from 'string_decoder';
+import {
+  AppleHealthSleepReader,
+  detectWearableFormat,
+  parseWearableExport,
+  type IParsedWearableExport,
+} from './WearableParsers';
+import { listZipEntries, openZipEntry, type IZipEntry } from './ZipArchive';
+
+// ==================== Constants ====================
+
+/**
+ * Telegram Bot API download limit (applies to the archive, not the XML inside)
+ */
+export const MAX_WEARABLE_FILE_BYTES = 20 * 1024 * 1024;
+
+/**
+ * Diary/device TST difference treated as a real discrepancy (minutes).
+ * Below this, the difference is within wearable measurement error.
+ */
+export const TST_DISCREPANCY_MINUTES = 60;
+
+/**
+ * Extensions accepted as document uploads
+ */
+const SUPPORTED_EXTENSIONS = ['.xml', '.json', '.csv', '.zip'];
+
+/**
+ * Apple Health document inside export.zip (export_cda.xml is a different format)
+ */
+const APPLE_EXPORT_ENTRY = 'export.xml';
+
+const FORMAT_LABELS: Record<WearableImportFormat, string> = {
+  apple_health_xml: 'Apple Health',
+  fitbit_json: 'Fitbit',
+  oura_json: 'Oura',
+  csv: 'CSV',
+};
+
+// ==================== Types ====================
+
+/**
+ * Agreement between diary and device for one night
+ * - consistent: TST within TST_DISCREPANCY_MINUTES
+ * - underestimated: diary reports less sleep than the device
+ * - overestimated: diary reports more sleep than the device
+ */
+export type DiaryDeviceAgreement = 'consistent' | 'underestimated' | 'overestimated';
+
+/**
+ * Diary vs device comparison for one night
+ */
+export interface IDiaryReconciliation {
+  readonly date: string;
+  readonly source: IWearableSleepData['source'];
+  readonly diaryTotalSleepTime: number;
+  readonly deviceTotalSleepTime: number;
+  /** Diary minus device, minutes */
+  readonly totalSleepDifference: number;
+  readonly diaryEfficiency: number;
+  readonly deviceEfficiency: number;
+  /** Diary minus device, percentage points */
+  readonly efficiencyDifference: number;
+  /** Diary minus device, minutes (wrapped to ±12 h) */
+  readonly bedtimeDifference: number;
+  readonly wakeTimeDifference: number;
+  readonly agreement: DiaryDeviceAgreement;
+}
+
+/**
+ * Import result
+ */
+export interface IWearableImportResult {
+  readonly success: boolean;
+  readonly format?: WearableImportFormat;
+  readonly nights: IWearableSleepData[];
+  readonly skipped: number;
+  readonly errors: string[];
+  readonly reconciliation: IDiaryReconciliation[];
+  /** Imported dates without a diary entry */
+  readonly nightsWithoutDiary: string[];
+  readonly error?: string;
+}
+
+/**
+ * Service options
+ */
+export interface IWearableImportOptions {
+  /** Storage for imported nights (import is not persisted without it) */
+  repository?: IWearableSleepRepository;
+  /** Diary used for reconciliation */
+  diaryRepository?: ISleepDiaryRepository;
+  /** Time source for importedAt */
+  now?: () => Date;
+}
+
+// ==================== Service ====================
+
+/**
+ * WearableImportService - imports device exports for a user
+ */
+export class WearableImportService {
+  private repository?: IWearableSleepRepository;
+  private diaryRepository?: ISleepDiaryRepository;
+  private now: () => Date;
+
+  constructor(options: IWearableImportOptions = {}) {
+    this.repository = options.repository;
+    this.diaryRepository = options.diaryRepository;
+    this.now = options.now ?? (() => new Date());
+  }
+
+  /**
+   * Check whether a document looks like a supported export (by name and size)
+   */
+  isSupportedFile(fileName: string | undefined, fileSize?: number): boolean {
+    if (!fileName) return false;
+    const name = fileName.toLowerCase();
+    const sizeOk = fileSize === undefined || fileSize <= MAX_WEARABLE_FILE_BYTES;
+    return sizeOk && SUPPORTED_EXTENSIONS.some((ext) => name.endsWith(ext));
+  }
+
+  /**
+   * Parse, persist and reconcile an uploaded export
+   */
+  async importFile(userId: string, fileName: string, content: string): Promise<IWearableImportResult> {
+    const format = detectWearableFormat(fileName, content);
+    if (!format) {
+      return this.failure('Формат файла не распознан');
+    }
+
+    let parsed: IParsedWearableExport;
+    try {
+      parsed = parseWearableExport(format, content, userId);
+    } catch (error) {
+      console.warn(`[Wearables] Failed to parse ${format} for user ${userId}:`, error);
+      return this.failure('Не удалось прочитать файл', format);
+    }
+
+    return this.complete(userId, parsed);
+  }
+
+  /**
+   * Import a downloaded document without holding it as one string.
+   * Apple Health XML, bare or inside export.zip, is parsed as a stream;
+   * JSON and CSV exports are small and are read whole.
+   */
+  async importDocument(
+    userId: string,
+    fileName: string,
+    body: AsyncIterable<Uint8Array>
+  ): Promise<IWearableImportResult> {
+    const name = fileName.toLowerCase();
+
+    if (name.endsWith('.zip')) {
+      return this.importArchive(userId, await readBytes(body));
+    }
+    if (name.endsWith('.xml')) {
+      return this.importAppleHealthStream(userId, body);
+    }
+
+    const content = (await readBytes(body)).toString('utf8');
+    return this.importFile(userId, fileName, content);
+  }
+
+  /**
+   * Import Apple Health export.zip
+   */
+  async importArchive(userId: string, archive: Buffer): Promise<IWearableImportResult> {
+    let entry: IZipEntry | undefined;
+    try {
+      entry = listZipEntries(archive)
+        .find((candidate) => candidate.name.split('/').pop()?.toLowerCase() === APPLE_EXPORT_ENTRY);
+    } catch (error) {
+      console.warn(`[Wearables] Failed to read archive for user ${userId}:`, error);
+      return this.failure('Не удалось прочитать архив');
+    }
+
+    if (!entry) {
+      return this.failure('В архиве нет export.xml из Apple Health');
+    }
+
+    try {
+      return await this.importAppleHealthStream(userId, openZipEntry(archive, entry));
+    } catch (error) {
+      console.warn(`[Wearables] Failed to unpack ${entry.name} for user ${userId}:`, error);
+      return this.failure('Не удалось прочитать архив', 'apple_health_xml');
+    }
+  }
+
+  private async importAppleHealthStream(
+    userId: string,
+    chunks: AsyncIterable<Uint8Array>
+  ): Promise<IWearableImportResult> {
+    const reader = new AppleHealthSleepReader(userId);
+    const decoder = new StringDecoder('utf8');
+
+    for await (const chunk of chunks) {
+      reader.write(decoder.write(Buffer.from(chunk)));
+    }
+    reader.write(decoder.end());
+
+    return this.complete(userId, reader.finish());
+  }
+
+  private async complete(userId: string, parsed: IParsedWearableExport): Promise<IWearableImportResult> {
+    const format = parsed.format;
+    if (parsed.nights.length === 0) {
+      return { ...this.failure('В файле нет данных о сне', format), skipped: parsed.skipped, errors: parsed.errors };
+    }
+
+    await this.persist(parsed.nights, format);
+    const { reconciliation, nightsWithoutDiary } = await this.reconcile(userId, parsed.nights);
+
+    console.log(`[Wearables] Imported ${parsed.nights.length} night(s) from ${format} for user ${userId}`);
+
+    return {
+      success: true,
+      format,
+      nights: parsed.nights,
+      skipped: parsed.skipped,
+      errors: parsed.errors,
+      reconciliation,
+      nightsWithoutDiary,
+    };
+  }
+
+  /**
+   * Compare imported nights with diary entries for the same dates
+   */
+  async reconcile(
+    userId: string,
+    nights: IWearableSleepData[]
+  ): Promise<{ reconciliation: IDiaryReconciliation[]; nightsWithoutDiary: string[] }> {
+    const dates = [...new Set(nights.map((night) => night.date))].sort();
+    if (dates.length === 0 || !this.diaryRepository) {
+      return { reconciliation: [], nightsWithoutDiary: dates };
+    }
+
+    const entries = await this.diaryRepository.findByUserAndDateRange(userId, dates[0], dates[dates.length - 1]);
+    const diaryByDate = new Map(entries.map((entry) => [entry.date, entry]));
+
+    const reconciliation = nights
+      .filter((night) => diaryByDate.has(night.date))
+      .map((night) => reconcileNight(diaryByDate.get(night.date)!, night));
+
+    return {
+      reconciliation,
+      nightsWithoutDiary: dates.filter((date) => !diaryByDate.has(date)),
+    };
+  }
+
+  /**
+   * Format import result for the bot reply
+   */
+  formatImportMessage(result: IWearableImportResult): string {
+    if (!result.success || !result.format) {
+      return `😔 ${result.error || 'Произошла ошибка'}\n\n` +
+        'Поддерживаются: Apple Health (export.zip или export.xml), Fitbit / Google Takeout (JSON), Oura (JSON) и CSV ' +
+        'со столбцами date, bedtime, wake_time, total_sleep_time.';
+    }
+
+    const nights = result.nights;
+    const avgSleep = average(nights.map((n) => n.totalSleepTime));
+    const avgEfficiency = average(nights.map((n) => n.sleepEfficiency));
+
+    let message = '⌚ *Данные сна загружены!*\n\n';
+    message += `Ночей: *${nights.length}* (${FORMAT_LABELS[result.format]})\n`;
+    message += `Период: ${formatDate(nights[0].date)} – ${formatDate(nights[nights.length - 1].date)}\n`;
+    message += `Сон по устройству: *${formatMinutes(avgSleep)}* в среднем, эффективность *${Math.round(avgEfficiency)}%*\n`;
+
+    if (result.skipped > 0) {
+      message += `Пропущено записей: ${result.skipped}\n`;
+    }
+
+    if (result.reconciliation.length > 0) {
+      const difference = Math.round(average(result.reconciliation.map((r) => r.totalSleepDifference)));
+      message += `\n📓 *Сравнение с дневником* (${result.reconciliation.length} ноч.)\n`;
+
+      if (Math.abs(difference) < TST_DISCREPANCY_MINUTES) {
+        message += 'Дневник и устройство в целом совпадают.';
+      } else if (difference < 0) {
+        message += `По дневнику сна в среднем на *${formatMinutes(-difference)}* меньше, чем по устройству.\n`;
+        message += '_При бессоннице сон часто ощущается короче, чем был на самом деле. Это частая и изучаемая особенность, а не ошибка в дневнике._';
+      } else {
+        message += `По дневнику сна в среднем на *${formatMinutes(difference)}* больше, чем по устройству.\n`;
+        message += '_Трекеры могут ошибаться, поэтому в программе мы ориентируемся на дневник._';
+      }
+    }
+
+    if (result.nightsWithoutDiary.length > 0) {
+      message += `\n\nДля ${result.nightsWithoutDiary.length} ноч. нет записей в дневнике — заполни /diary, чтобы сравнить.`;
+    }
+
+    return message.trim();
+  }
+
+  private async persist(nights: IWearableSleepData[], format: WearableImportFormat): Promise<void> {
+    if (!this.repository) return;
+
+    const importedAt = this.now();
+    for (const night of nights) {
+      await this.repository.upsert({
+        userId: night.userId,
+        date: night.date,
+        source: night.source,
+        importFormat: format,
+        bedtime: night.bedtime,
+        wakeTime: night.wakeTime,
+        totalSleepTime: night.totalSleepTime,
+        sleepEfficiency: night.sleepEfficiency,
+        stagesJson: night.stages ? JSON.stringify(night.stages) : undefined,
+        heartRateAvg: night.heartRateAvg,
+        hrvAvg: night.hrvAvg,
+        respiratoryRate: night.respiratoryRate,
+        skinTemperature: night.skinTemperature,
+        importedAt,
+        deletedAt: null,
+      });
+    }
+  }
+
+  private failure(error: string, format?: WearableImportFormat): IWearableImportResult {
+    return {
+      success: false,
+      format,
+      nights: [],
+      skipped: 0,
+      errors: [],
+      reconciliation: [],
+      nightsWithoutDiary: [],
+      error,
+    };
+  }
+}
+
+// ==================== Reconciliation ====================
+
+/**
+ * Compare one diary entry with the device night for the same date
+ */
+export function reconcileNight(diary: ISleepDiaryEntryEntity, night: IWearableSleepData): IDiaryReconciliation {
+  const totalSleepDifference = diary.totalSleepTime - night.totalSleepTime;
+
+  let agreement: DiaryDeviceAgreement = 'consistent';
+  if (totalSleepDifference <= -TST_DISCREPANCY_MINUTES) {
+    agreement = 'underestimated';
+  } else if (totalSleepDifference >= TST_DISCREPANCY_MINUTES) {
+    agreement = 'overestimated';
+  }
+
+  return {
+    date: night.date,
+    source: night.source,
+    diaryTotalSleepTime: diary.totalSleepTime,
+    deviceTotalSleepTime: night.totalSleepTime,
+    totalSleepDifference,
+    diaryEfficiency: diary.sleepEfficiency,
+    deviceEfficiency: night.sleepEfficiency,
+    efficiencyDifference: Math.round((diary.sleepEfficiency - night.sleepEfficiency) * 10) / 10,
+    bedtimeDifference: clockDifference(diary.bedtime, night.bedtime),
+    wakeTimeDifference: clockDifference(diary.wakeTime, night.wakeTime),
+    agreement,
+  };
+}
+
+/**
+ * Difference between two HH:MM clock times in minutes, wrapped to ±12 h
+ */
+function clockDifference(a: string, b: string): number {
+  const minutes = (time: string): number => {
+    const [hours, mins] = time.split(':').map(Number);
+    return (hours || 0) * 60 + (mins || 0);
+  };
+  return ((((minutes(a) - minutes(b)) % 1440) + 1440 + 720) % 1440) - 720;
+}
+
+async function readBytes(body: AsyncIterable<Uint8Array>): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of body) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+function formatMinutes(total: number): string {
+  const rounded = Math.round(total);
+  const hours = Math.floor(rounded / 60);
+  const minutes = rounded % 60;
+  return hours > 0 ? `${hours} ч ${minutes} мин` : `${minutes} мин`;
+}
+
+function formatDate(date: string): string {
+  const [, month, day] = date.split('-');
+  return `${day}.${month}`;
+}
+
+// ==================== Factory ====================
+
+export function createWearableImportService(options?: IWearableImportOptions): WearableImportService {
+  return new WearableImportService(options);
+}
@@ -0,0 +1,753 @@
+/**
+ * WearableParsers - Device Export Parsers
+ * ========================================
+ *
+ * Normalizes sleep exports from consumer devices into IWearableSleepData.
+ *
+ * Supported exports:
+ * - Apple Health export.xml (HKCategoryTypeIdentifierSleepAnalysis records)
+ * - Fitbit / Google Takeout sleep JSON (sleep-YYYY-MM-DD.json, Web API logs)
+ * - Oura JSON export (API v2 sleep documents, legacy v1 sleep summaries)
+ * - Generic CSV with a header row (comma or semicolon separated)
+ *
+ * Conventions:
+ * - A night is keyed by its wake date, like the sleep diary
+ * - Bedtime / wake time are local wall-clock HH:MM as written in the export
+ * - One night per date and source: the main (longest) sleep period wins
+ * - Light sleep maps to N2; devices do not separate N1
+ *
+ * Research basis:
+ * - Consumer sleep technology: TST within ~30 min of PSG in good sleepers,
+ *   overestimated in insomnia (de Zambotti et al., 2019; Chinoy et al., 2021)
+ *
+ * @packageDocumentation
+ * @module @sleepcore/modules/wearables
+ */
+
+import {
+  calculateSleepEfficiency,
+  type ISleepArchitecture,
+  type IWearableSleepData,
+} from '../../sleep/interfaces/ISleepState';
+import type { WearableImportFormat } from '../../infrastructure/database/interfaces/IRepository';
+
+// ==================== Types ====================
+
+/**
+ * Parsed export file
+ */
+export interface IParsedWearableExport {
+  readonly format: WearableImportFormat;
+  readonly nights: IWearableSleepData[];
+  /** Records that could not be normalized */
+  readonly skipped: number;
+  /** First few reasons for skipped records */
+  readonly errors: string[];
+}
+
+type WearableSource = IWearableSleepData['source'];
+
+/**
+ * Local timestamp as written in the export
+ */
+interface ILocalTimestamp {
+  /** Local date, YYYY-MM-DD */
+  readonly date: string;
+  /** Local time, HH:MM */
+  readonly time: string;
+  /** Instant (wall clock as UTC when the export has no offset) */
+  readonly ms: number;
+}
+
+/**
+ * Stage minutes of one night
+ */
+interface IStageMinutes {
+  readonly deep: number;
+  readonly light: number;
+  readonly rem: number;
+  readonly awake: number;
+}
+
+/**
+ * Device-independent summary of one sleep period
+ */
+interface ISleepPeriod {
+  readonly date: string;
+  readonly source: WearableSource;
+  readonly start: ILocalTimestamp;
+  readonly end: ILocalTimestamp;
+  readonly asleepMinutes: number;
+  /** Defaults to end - start */
+  readonly inBedMinutes?: number;
+  readonly stages?: IStageMinutes;
+  readonly remEpisodes?: number;
+  /** Device marks the period as the main sleep of the day */
+  readonly isMain?: boolean;
+  readonly heartRateAvg?: number;
+  readonly hrvAvg?: number;
+  readonly respiratoryRate?: number;
+  readonly skinTemperature?: number;
+}
+
+// ==================== Constants ====================
+
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_HOUR = 60 * MS_PER_MINUTE;
+
+/**
+ * Apple Health segments further apart than this start a new sleep period
+ */
+const APPLE_SESSION_GAP_MS = 2 * MS_PER_HOUR;
+
+/**
+ * Reasons kept per import (the rest are only counted)
+ */
+const MAX_REPORTED_ERRORS = 5;
+
+const APPLE_RECORD_TAG = '<Record';
+const APPLE_SLEEP_TYPE = 'HKCategoryTypeIdentifierSleepAnalysis';
+
+const APPLE_SLEEP_VALUES: Record<string, 'inBed' | 'asleep' | 'light' | 'deep' | 'rem' | 'awake'> = {
+  HKCategoryValueSleepAnalysisInBed: 'inBed',
+  HKCategoryValueSleepAnalysisAsleep: 'asleep',
+  HKCategoryValueSleepAnalysisAsleepUnspecified: 'asleep',
+  HKCategoryValueSleepAnalysisAsleepCore: 'light',
+  HKCategoryValueSleepAnalysisAsleepDeep: 'deep',
+  HKCategoryValueSleepAnalysisAsleepREM: 'rem',
+  HKCategoryValueSleepAnalysisAwake: 'awake',
+};
+
+const CSV_SOURCES: readonly WearableSource[] = [
+  'apple_health', 'google_fit', 'oura', 'fitbit', 'whoop', 'garmin', 'other',
+];
+
+/**
+ * Accepted CSV header names (normalized: lowercase, non-alphanumerics → _)
+ */
+const CSV_COLUMNS = {
+  date: ['date', 'night', 'wake_date'],
+  bedtime: ['bedtime', 'bed_time', 'sleep_start', 'start'],
+  wakeTime: ['wake_time', 'waketime', 'wake', 'sleep_end', 'end'],
+  totalSleep: ['total_sleep_time', 'total_sleep', 'total_sleep_minutes', 'tst', 'asleep_minutes'],
+  efficiency: ['sleep_efficiency', 'efficiency', 'se'],
+  deep: ['deep', 'deep_minutes', 'deep_sleep'],
+  light: ['light', 'light_minutes', 'light_sleep', 'core'],
+  rem: ['rem', 'rem_minutes', 'rem_sleep'],
+  awake: ['awake', 'awake_minutes', 'wake_minutes'],
+  heartRate: ['heart_rate', 'heart_rate_avg', 'hr', 'hr_avg'],
+  hrv: ['hrv', 'hrv_avg', 'rmssd'],
+  respiratoryRate: ['respiratory_rate', 'breath_rate', 'breathing_rate'],
+  skinTemperature: ['skin_temperature', 'temperature'],
+  source: ['source', 'device'],
+} as const;
+
+// ==================== Format Detection ====================
+
+/**
+ * Detect export format from file name and content
+ * @returns null when the file is not a supported export
+ */
+export function detectWearableFormat(fileName: string, content: string): WearableImportFormat | null {
+  const name = fileName.toLowerCase();
+  const head = content.slice(0, 4096);
+
+  if (name.endsWith('.xml') || head.includes('<HealthData')) {
+    return content.includes(APPLE_SLEEP_TYPE) ? 'apple_health_xml' : null;
+  }
+  if (name.endsWith('.csv')) {
+    return 'csv';
+  }
+  if (name.endsWith('.json') || /^\s*[[{]/.test(head)) {
+    if (content.includes('"dateOfSleep"') || content.includes('"minutesAsleep"')) return 'fitbit_json';
+    if (content.includes('"bedtime_start"')) return 'oura_json';
+  }
+  return null;
+}
+
+/**
+ * Parse an export in a known format
+ * @throws Error if the file cannot be read as that format
+ */
+export function parseWearableExport(
+  format: WearableImportFormat,
+  content: string,
+  userId: string
+): IParsedWearableExport {
+  switch (format) {
+    case 'apple_health_xml':
+      return parseAppleHealthXml(content, userId);
+    case 'fitbit_json':
+      return parseFitbitJson(content, userId);
+    case 'oura_json':
+      return parseOuraJson(content, userId);
+    case 'csv':
+      return parseSleepCsv(content, userId);
+  }
+}
+
+// ==================== Apple Health ====================
+
+/**
+ * Parse Apple Health export.xml.
+ * Segments are grouped noon-to-noon, split into sessions at gaps over 2 h,
+ * and the source (Watch, iPhone, third-party app) with the most sleep wins.
+ */
+export function parseAppleHealthXml(content: string, userId: string): IParsedWearableExport {
+  const reader = new AppleHealthSleepReader(userId);
+  reader.write(content);
+  return reader.finish();
+}
+
+/**
+ * Incremental reader for Apple Health export.xml.
+ * Full exports run to hundreds of megabytes, so the XML is fed in chunks
+ * and only the pending tail and the sleep segments are kept in memory.
+ */
+export class AppleHealthSleepReader {
+  private readonly errors = new ErrorCollector();
+  private readonly groups = new Map<string, Map<string, IAppleSegment[]>>();
+  private buffer = '';
+
+  constructor(private readonly userId: string) {}
+
+  /**
+   * Feed the next chunk of the document; tags may be split across chunks
+   */
+  write(chunk: string): void {
+    this.buffer += chunk;
+    let cursor = 0;
+
+    for (;;) {
+      const start = this.buffer.indexOf(APPLE_RECORD_TAG, cursor);
+      if (start < 0) {
+        // Keep a possibly split "<Record" at the end of the chunk
+        cursor = Math.max(cursor, this.buffer.length - APPLE_RECORD_TAG.length + 1);
+        break;
+      }
+      const end = this.buffer.indexOf('>', start);
+      if (end < 0) {
+        cursor = start;
+        break;
+      }
+      this.readRecord(this.buffer.slice(start, end + 1));
+      cursor = end + 1;
+    }
+
+    this.buffer = this.buffer.slice(cursor);
+  }
+
+  /**
+   * Summarize the main night per date once the whole document was written
+   */
+  finish(): IParsedWearableExport {
+    const periods: ISleepPeriod[] = [];
+    for (const bySource of this.groups.values()) {
+      const candidates = [...bySource.values()]
+        .flatMap((segments) => splitAppleSessions(segments))
+        .map(summarizeAppleSession)
+        .filter((period): period is ISleepPeriod => period !== null);
+
+      const main = maxBy(candidates, (period) => period.asleepMinutes);
+      if (main) periods.push(main);
+    }
+
+    return buildExport('apple_health_xml', periods, this.userId, this.errors);
+  }
+
+  private readRecord(tag: string): void {
+    if (!/^<Record\b/.test(tag) || !tag.includes(APPLE_SLEEP_TYPE)) return;
+
+    const attributes = parseXmlAttributes(tag);
+    const kind = APPLE_SLEEP_VALUES[attributes.value];
+    const start = parseTimestamp(attributes.startDate);
+    const end = parseTimestamp(attributes.endDate);
+
+    if (!kind || !start || !end || end.ms <= start.ms) {
+      this.errors.add(`Apple Health: unreadable sleep record ${attributes.startDate ?? ''}`.trim());
+      return;
+    }
+
+    const nightKey = shiftWallClock(start, 12).date;
+    const bySource = this.groups.get(nightKey) ?? new Map<string, IAppleSegment[]>();
+    const sourceName = attributes.sourceName ?? 'unknown';
+    const segments = bySource.get(sourceName) ?? [];
+    segments.push({ kind, start, end });
+    bySource.set(sourceName, segments);
+    this.groups.set(nightKey, bySource);
+  }
+}
+
+interface IAppleSegment {
+  readonly kind: 'inBed' | 'asleep' | 'light' | 'deep' | 'rem' | 'awake';
+  readonly start: ILocalTimestamp;
+  readonly end: ILocalTimestamp;
+}
+
+function splitAppleSessions(segments: IAppleSegment[]): IAppleSegment[][] {
+  const sorted = [...segments].sort((a, b) => a.start.ms - b.start.ms);
+  const sessions: IAppleSegment[][] = [];
+  let sessionEnd = -Infinity;
+
+  for (const segment of sorted) {
+    if (segment.start.ms - sessionEnd > APPLE_SESSION_GAP_MS) {
+      sessions.push([]);
+    }
+    sessions[sessions.length - 1].push(segment);
+    sessionEnd = Math.max(sessionEnd, segment.end.ms);
+  }
+  return sessions;
+}
+
+function summarizeAppleSession(segments: IAppleSegment[]): ISleepPeriod | null {
+  const minutes = { inBed: 0, asleep: 0, light: 0, deep: 0, rem: 0, awake: 0 };
+  let remEpisodes = 0;
+  let previous: IAppleSegment['kind'] | undefined;
+
+  for (const segment of segments) {
+    minutes[segment.kind] += (segment.end.ms - segment.start.ms) / MS_PER_MINUTE;
+    if (segment.kind === 'rem' && previous !== 'rem') remEpisodes++;
+    if (segment.kind !== 'inBed') previous = segment.kind;
+  }
+
+  const asleepMinutes = minutes.asleep + minutes.light + minutes.deep + minutes.rem;
+  if (asleepMinutes <= 0) return null;
+
+  const start = segments.reduce((a, b) => (b.start.ms < a.start.ms ? b : a)).start;
+  const end = segments.reduce((a, b) => (b.end.ms > a.end.ms ? b : a)).end;
+  const staged = minutes.light + minutes.deep + minutes.rem > 0;
+
+  return {
+    date: end.date,
+    source: 'apple_health',
+    start,
+    end,
+    asleepMinutes,
+    stages: staged
+      ? { deep: minutes.deep, light: minutes.light + minutes.asleep, rem: minutes.rem, awake: minutes.awake }
+      : undefined,
+    remEpisodes: staged ? remEpisodes : undefined,
+  };
+}
+
+// ==================== Fitbit ====================
+
+/**
+ * Parse Fitbit sleep logs (Google Takeout sleep-*.json or Web API response)
+ */
+export function parseFitbitJson(content: string, userId: string): IParsedWearableExport {
+  const errors = new ErrorCollector();
+  const periods: ISleepPeriod[] = [];
+
+  for (const log of readJsonArray(content, ['sleep'])) {
+    const start = parseTimestamp(log.startTime);
+    const end = parseTimestamp(log.endTime);
+    const asleepMinutes = toNumber(log.minutesAsleep);
+
+    if (!start || !end || asleepMinutes === undefined) {
+      errors.add(`Fitbit: incomplete sleep log ${String(log.logId ?? log.dateOfSleep ?? '')}`.trim());
+      continue;
+    }
+
+    const levels = isRecord(log.levels) ? log.levels : undefined;
+    const summary = levels && isRecord(levels.summary) ? levels.summary : undefined;
+    const staged = log.type === 'stages' && summary !== undefined;
+    const data = levels && Array.isArray(levels.data) ? levels.data : [];
+
+    periods.push({
+      date: typeof log.dateOfSleep === 'string' ? log.dateOfSleep : end.date,
+      source: 'fitbit',
+      start,
+      end,
+      asleepMinutes,
+      inBedMinutes: toNumber(log.timeInBed),
+      stages: staged
+        ? {
+            deep: stageMinutes(summary, 'deep'),
+            light: stageMinutes(summary, 'light'),
+            rem: stageMinutes(summary, 'rem'),
+            awake: stageMinutes(summary, 'wake'),
+          }
+        : undefined,
+      remEpisodes: staged
+        ? data.filter((entry) => isRecord(entry) && entry.level === 'rem').length
+        : undefined,
+      isMain: log.isMainSleep === true || log.mainSleep === true,
+    });
+  }
+
+  return buildExport('fitbit_json', periods, userId, errors);
+}
+
+function stageMinutes(summary: Record<string, unknown>, stage: string): number {
+  const entry = summary[stage];
+  return isRecord(entry) ? toNumber(entry.minutes) ?? 0 : 0;
+}
+
+// ==================== Oura ====================
+
+/**
+ * Parse Oura sleep export (API v2 documents or legacy v1 summaries).
+ * Durations in Oura exports are in seconds.
+ */
+export function parseOuraJson(content: string, userId: string): IParsedWearableExport {
+  const errors = new ErrorCollector();
+  const periods: ISleepPeriod[] = [];
+
+  for (const doc of readJsonArray(content, ['sleep', 'data'])) {
+    const start = parseTimestamp(doc.bedtime_start);
+    const end = parseTimestamp(doc.bedtime_end);
+    const totalSeconds = toNumber(doc.total_sleep_duration ?? doc.total);
+
+    if (!start || !end || totalSeconds === undefined) {
+      errors.add(`Oura: incomplete sleep period ${String(doc.day ?? doc.summary_date ?? '')}`.trim());
+      continue;
+    }
+
+    const seconds = (v2: string, v1: string): number | undefined => toNumber(doc[v2] ?? doc[v1]);
+    const deep = seconds('deep_sleep_duration', 'deep');
+    const light = seconds('light_sleep_duration', 'light');
+    const rem = seconds('rem_sleep_duration', 'rem');
+    const inBed = seconds('time_in_bed', 'duration');
+
+    periods.push({
+      date: end.date,
+      source: 'oura',
+      start,
+      end,
+      asleepMinutes: totalSeconds / 60,
+      inBedMinutes: inBed !== undefined ? inBed / 60 : undefined,
+      stages: deep !== undefined && light !== undefined && rem !== undefined
+        ? {
+            deep: deep / 60,
+            light: light / 60,
+            rem: rem / 60,
+            awake: (seconds('awake_time', 'awake') ?? 0) / 60,
+          }
+        : undefined,
+      isMain: doc.type === 'long_sleep' || doc.is_longest === 1,
+      heartRateAvg: toNumber(doc.average_heart_rate ?? doc.hr_average),
+      hrvAvg: toNumber(doc.average_hrv ?? doc.rmssd),
+      respiratoryRate: toNumber(doc.average_breath ?? doc.breath_average),
+    });
+  }
+
+  return buildExport('oura_json', periods, userId, errors);
+}
+
+// ==================== Generic CSV ====================
+
+/**
+ * Parse a generic CSV export.
+ * Required columns: date (or dated wake time), bedtime, wake time, total
+ * sleep in minutes. Times may be HH:MM or full local timestamps.
+ */
+export function parseSleepCsv(content: string, userId: string): IParsedWearableExport {
+  const errors = new ErrorCollector();
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/).filter((line) => line.trim() !== '');
+  if (lines.length < 2) {
+    throw new Error('CSV: header and at least one row required');
+  }
+
+  const delimiter = lines[0].includes(';') ? ';' : ',';
+  const header = splitCsvLine(lines[0], delimiter).map(normalizeHeader);
+  const column = (name: keyof typeof CSV_COLUMNS): number =>
+    header.findIndex((h) => (CSV_COLUMNS[name] as readonly string[]).includes(h));
+
+  const index = Object.fromEntries(
+    (Object.keys(CSV_COLUMNS) as Array<keyof typeof CSV_COLUMNS>).map((name) => [name, column(name)])
+  ) as Record<keyof typeof CSV_COLUMNS, number>;
+
+  if (index.bedtime < 0 || index.wakeTime < 0 || index.totalSleep < 0) {
+    throw new Error('CSV: bedtime, wake_time and total_sleep_time columns are required');
+  }
+
+  const periods: ISleepPeriod[] = [];
+  for (const [row, line] of lines.slice(1).entries()) {
+    const cells = splitCsvLine(line, delimiter);
+    const cell = (name: keyof typeof CSV_COLUMNS): string | undefined =>
+      index[name] >= 0 ? cells[index[name]]?.trim() || undefined : undefined;
+    const number = (name: keyof typeof CSV_COLUMNS): number | undefined =>
+      toNumber(cell(name)?.replace(',', '.'));
+
+    const night = resolveCsvNight(cell('date'), cell('bedtime'), cell('wakeTime'));
+    const asleepMinutes = number('totalSleep');
+    if (!night || asleepMinutes === undefined) {
+      errors.add(`CSV row ${row + 2}: date, bedtime, wake time or total sleep is invalid`);
+      continue;
+    }
+
+    const source = cell('source')?.toLowerCase() as WearableSource | undefined;
+    const deep = number('deep');
+    const light = number('light');
+    const rem = number('rem');
+    const efficiency = number('efficiency');
+    const inBedMinutes = (night.end.ms - night.start.ms) / MS_PER_MINUTE;
+
+    periods.push({
+      date: night.end.date,
+      source: source && CSV_SOURCES.includes(source) ? source : 'other',
+      start: night.start,
+      end: night.end,
+      asleepMinutes,
+      // Honour an explicit SE column over the bed/wake interval
+      inBedMinutes: efficiency !== undefined && efficiency > 0
+        ? (asleepMinutes * 100) / efficiency
+        : inBedMinutes,
+      stages: deep !== undefined && light !== undefined && rem !== undefined
+        ? { deep, light, rem, awake: number('awake') ?? 0 }
+        : undefined,
+      heartRateAvg: number('heartRate'),
+      hrvAvg: number('hrv'),
+      respiratoryRate: number('respiratoryRate'),
+      skinTemperature: number('skinTemperature'),
+    });
+  }
+
+  return buildExport('csv', periods, userId, errors);
+}
+
+/**
+ * Resolve bed and wake timestamps of a CSV row.
+ * With time-only values the wake time falls on `date` and the bedtime on
+ * the previous day when it is later than the wake time.
+ */
+function resolveCsvNight(
+  date: string | undefined,
+  bedtime: string | undefined,
+  wakeTime: string | undefined
+): { start: ILocalTimestamp; end: ILocalTimestamp } | null {
+  if (!bedtime || !wakeTime) return null;
+
+  const fullStart = parseTimestamp(bedtime);
+  const fullEnd = parseTimestamp(wakeTime);
+  if (fullStart && fullEnd) {
+    return fullEnd.ms > fullStart.ms ? { start: fullStart, end: fullEnd } : null;
+  }
+
+  const wakeDate = fullEnd?.date ?? (date && /^\d{4}-\d{2}-\d{2}$/.test(date) ? date : undefined);
+  if (!wakeDate || !/^\d{1,2}:\d{2}$/.test(bedtime)) return null;
+
+  const end = fullEnd ?? parseTimestamp(`${wakeDate}T${wakeTime.padStart(5, '0')}`);
+  const sameDay = parseTimestamp(`${wakeDate}T${bedtime.padStart(5, '0')}`);
+  if (!end || !sameDay) return null;
+
+  const start = sameDay.ms < end.ms ? sameDay : shiftWallClock(sameDay, -24);
+  return { start, end };
+}
+
+function splitCsvLine(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (quoted && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (char === delimiter && !quoted) {
+      cells.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current);
+  return cells;
+}
+
+function normalizeHeader(name: string): string {
+  return name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+}
+
+// ==================== Normalization ====================
+
+/**
+ * Keep the main period per date and source and convert to IWearableSleepData
+ */
+function buildExport(
+  format: WearableImportFormat,
+  periods: ISleepPeriod[],
+  userId: string,
+  errors: ErrorCollector
+): IParsedWearableExport {
+  const byNight = new Map<string, ISleepPeriod>();
+  for (const period of periods) {
+    const key = `${period.date}|${period.source}`;
+    const current = byNight.get(key);
+    if (!current || isPreferred(period, current)) {
+      byNight.set(key, period);
+    }
+  }
+
+  const nights = [...byNight.values()]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map((period) => toWearableSleepData(period, userId));
+
+  return {
+    format,
+    nights,
+    skipped: errors.count,
+    errors: errors.messages,
+  };
+}
+
+function isPreferred(candidate: ISleepPeriod, current: ISleepPeriod): boolean {
+  if (Boolean(candidate.isMain) !== Boolean(current.isMain)) {
+    return Boolean(candidate.isMain);
+  }
+  return candidate.asleepMinutes > current.asleepMinutes;
+}
+
+function toWearableSleepData(period: ISleepPeriod, userId: string): IWearableSleepData {
+  const inBed = period.inBedMinutes ?? (period.end.ms - period.start.ms) / MS_PER_MINUTE;
+  const totalSleepTime = Math.round(period.asleepMinutes);
+
+  return {
+    userId,
+    date: period.date,
+    source: period.source,
+    bedtime: period.start.time,
+    wakeTime: period.end.time,
+    totalSleepTime,
+    sleepEfficiency: Math.min(100, calculateSleepEfficiency(totalSleepTime, Math.round(inBed))),
+    stages: period.stages ? buildArchitecture(period.stages, period.remEpisodes) : undefined,
+    heartRateAvg: roundOptional(period.heartRateAvg),
+    hrvAvg: roundOptional(period.hrvAvg),
+    respiratoryRate: roundOptional(period.respiratoryRate),
+    skinTemperature: roundOptional(period.skinTemperature),
+  };
+}
+
+/**
+ * Build sleep architecture from stage minutes.
+ * Cycles are counted as REM episodes when segments are available,
+ * otherwise estimated at ~90 min per cycle. Fragmentation is the share
+ * of the sleep period spent awake.
+ */
+function buildArchitecture(stages: IStageMinutes, remEpisodes?: number): ISleepArchitecture | undefined {
+  const asleep = stages.deep + stages.light + stages.rem;
+  if (asleep <= 0) return undefined;
+
+  const period = asleep + stages.awake;
+  const percent = (minutes: number): number => Math.round((minutes / period) * 1000) / 10;
+
+  return {
+    stageDistribution: {
+      wake: percent(stages.awake),
+      N1: 0,
+      N2: percent(stages.light),
+      N3: percent(stages.deep),
+      REM: percent(stages.rem),
+    },
+    cyclesCompleted: remEpisodes ?? Math.round(asleep / 90),
+    deepSleepMinutes: Math.round(stages.deep),
+    remSleepMinutes: Math.round(stages.rem),
+    fragmentationIndex: Math.round((stages.awake / period) * 100) / 100,
+  };
+}
+
+// ==================== Helpers ====================
+
+/**
+ * Collects skip reasons, keeping only the first few
+ */
+class ErrorCollector {
+  count = 0;
+  readonly messages: string[] = [];
+
+  add(message: string): void {
+    this.count++;
+    if (this.messages.length < MAX_REPORTED_ERRORS) {
+      this.messages.push(message);
+    }
+  }
+}
+
+/**
+ * Parse "YYYY-MM-DD HH:MM[:SS] [+HHMM]" / ISO 8601 into a local timestamp
+ */
+function parseTimestamp(value: unknown): ILocalTimestamp | null {
+  if (typeof value !== 'string') return null;
+
+  const match = value.trim().match(
+    /^(\d{4}-\d{2}-\d{2})[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?\s*(Z|[+-]\d{2}:?\d{2})?$/
+  );
+  if (!match) return null;
+
+  const [, date, hours, minutes, seconds = '00', zone] = match;
+  const offset = !zone || zone === 'Z' ? 'Z' : `${zone.slice(0, 3)}:${zone.slice(-2)}`;
+  const ms = Date.parse(`${date}T${hours}:${minutes}:${seconds}${offset}`);
+  if (Number.isNaN(ms)) return null;
+
+  return { date, time: `${hours}:${minutes}`, ms };
+}
+
+/**
+ * Move a timestamp by whole hours on the local wall clock
+ */
+function shiftWallClock(timestamp: ILocalTimestamp, hours: number): ILocalTimestamp {
+  const wall = new Date(Date.parse(`${timestamp.date}T${timestamp.time}:00Z`) + hours * MS_PER_HOUR);
+  return {
+    date: wall.toISOString().slice(0, 10),
+    time: wall.toISOString().slice(11, 16),
+    ms: timestamp.ms + hours * MS_PER_HOUR,
+  };
+}
+
+function parseXmlAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const [, name, value] of tag.matchAll(/(\w+)="([^"]*)"/g)) {
+    attributes[name] = value;
+  }
+  return attributes;
+}
+
+/**
+ * Read a JSON export that is either an array or an object holding one
+ * under one of the given keys
+ */
+function readJsonArray(content: string, keys: string[]): Array<Record<string, unknown>> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+
+  const list = Array.isArray(parsed)
+    ? parsed
+    : isRecord(parsed)
+      ? keys.map((key) => parsed[key]).find(Array.isArray)
+      : undefined;
+
+  if (!list) {
+    throw new Error(`Expected a JSON array or an object with ${keys.join(' / ')}`);
+  }
+  return list.filter(isRecord);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toNumber(value: unknown): number | undefined {
+  const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+}
+
+function roundOptional(value: number | undefined): number | undefined {
+  return value === undefined ? undefined : Math.round(value * 10) / 10;
+}
+
+function maxBy<T>(items: T[], score: (item: T) => number): T | undefined {
+  return items.reduce<T | undefined>(
+    (best, item) => (best === undefined || score(item) > score(best) ? item : best),
+    undefined
+  );
+}
@@ -0,0 +1,127 @@
+/**
+ * ZipArchive - Minimal ZIP Reader for Device Exports
+ * ===================================================
+ *
+ * Apple Health shares its export as export.zip (apple_health_export/export.xml).
+ * The archive itself fits the Telegram download limit, while the XML inside
+ * is usually many times larger, so entries are inflated as a stream and
+ * never materialized as a whole.
+ *
+ * Supports stored and deflated entries (PKWARE APPNOTE 6.3, sections 4.3.7,
+ * 4.3.12, 4.3.16). Encrypted and multi-disk archives are rejected.
+ *
+ * @packageDocumentation
+ * @module @sleepcore/modules/wearables
+ */
+
+import { Readable } from 'stream';
+import { createInflateRaw } from 'zlib';
+
+// ==================== Constants ====================
+
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50;
+
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+const CENTRAL_DIRECTORY_HEADER_SIZE = 46;
+const LOCAL_FILE_HEADER_SIZE = 30;
+const MAX_COMMENT_LENGTH = 0xffff;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+const FLAG_ENCRYPTED = 0x1;
+
+// ==================== Types ====================
+
+/**
+ * Entry from the central directory
+ */
+export interface IZipEntry {
+  /** Path inside the archive, e.g. apple_health_export/export.xml */
+  readonly name: string;
+  readonly method: number;
+  readonly compressedSize: number;
+  readonly localHeaderOffset: number;
+}
+
+// ==================== Reader ====================
+
+/**
+ * List the entries of an in-memory archive
+ * @throws Error if the buffer is not a readable ZIP archive
+ */
+export function listZipEntries(archive: Buffer): IZipEntry[] {
+  const end = findEndOfCentralDirectory(archive);
+  const count = archive.readUInt16LE(end + 10);
+  let offset = archive.readUInt32LE(end + 16);
+
+  const entries: IZipEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    if (
+      offset + CENTRAL_DIRECTORY_HEADER_SIZE > archive.length ||
+      archive.readUInt32LE(offset) !== CENTRAL_DIRECTORY_SIGNATURE
+    ) {
+      throw new Error('ZIP central directory is corrupted');
+    }
+
+    const flags = archive.readUInt16LE(offset + 8);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const extraLength = archive.readUInt16LE(offset + 30);
+    const commentLength = archive.readUInt16LE(offset + 32);
+    const nameStart = offset + CENTRAL_DIRECTORY_HEADER_SIZE;
+
+    if (!(flags & FLAG_ENCRYPTED)) {
+      entries.push({
+        name: archive.toString('utf8', nameStart, nameStart + nameLength),
+        method: archive.readUInt16LE(offset + 10),
+        compressedSize: archive.readUInt32LE(offset + 20),
+        localHeaderOffset: archive.readUInt32LE(offset + 42),
+      });
+    }
+
+    offset = nameStart + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * Stream the uncompressed content of an entry
+ * @throws Error if the entry uses an unsupported compression method
+ */
+export function openZipEntry(archive: Buffer, entry: IZipEntry): Readable {
+  const header = entry.localHeaderOffset;
+  if (
+    header + LOCAL_FILE_HEADER_SIZE > archive.length ||
+    archive.readUInt32LE(header) !== LOCAL_FILE_HEADER_SIGNATURE
+  ) {
+    throw new Error(`ZIP entry ${entry.name} has no local header`);
+  }
+
+  const dataStart = header + LOCAL_FILE_HEADER_SIZE +
+    archive.readUInt16LE(header + 26) + archive.readUInt16LE(header + 28);
+  const data = archive.subarray(dataStart, dataStart + entry.compressedSize);
+
+  switch (entry.method) {
+    case METHOD_STORED:
+      return Readable.from([data]);
+    case METHOD_DEFLATED:
+      return Readable.from([data]).pipe(createInflateRaw());
+    default:
+      throw new Error(`ZIP compression method ${entry.method} is not supported`);
+  }
+}
+
+function findEndOfCentralDirectory(archive: Buffer): number {
+  const lowest = Math.max(0, archive.length - END_OF_CENTRAL_DIRECTORY_SIZE - MAX_COMMENT_LENGTH);
+  for (let offset = archive.length - END_OF_CENTRAL_DIRECTORY_SIZE; offset >= lowest; offset--) {
+    if (archive.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      if (archive.readUInt16LE(offset + 4) !== 0 || archive.readUInt16LE(offset + 6) !== 0) {
+        throw new Error('Multi-disk ZIP archives are not supported');
+      }
+      return offset;
+    }
+  }
+  throw new Error('File is not a ZIP archive');
+}
@@ -0,0 +1,40 @@
+/**
+ * Wearables Module
+ * ================
+ *
+ * Import of sleep data from wearable device exports (Apple Health,
+ * Fitbit / Google Takeout, Oura, CSV) and reconciliation with the diary.
+ * Apple Health export.zip is unpacked and parsed as a stream.
+ *
+ * @packageDocumentation
+ * @module @sleepcore/modules/wearables
+ */
+
+export {
+  AppleHealthSleepReader,
+  detectWearableFormat,
+  parseWearableExport,
+  parseAppleHealthXml,
+  parseFitbitJson,
+  parseOuraJson,
+  parseSleepCsv,
+  type IParsedWearableExport,
+} from './WearableParsers';
+
+export {
+  listZipEntries,
+  openZipEntry,
+  type IZipEntry,
+} from './ZipArchive';
+
+export {
+  WearableImportService,
+  createWearableImportService,
+  reconcileNight,
+  MAX_WEARABLE_FILE_BYTES,
+  TST_DISCREPANCY_MINUTES,
+  type DiaryDeviceAgreement,
+  type IDiaryReconciliation,
+  type IWearableImportResult,
+  type IWearableImportOptions,
+} from './WearableImportService';
@@ -520,8 +520,36 @@ export interface ISleepStateFactory {
   createBaseline(userId: string): ISleepState;
 }
 
+/**
+ * Sleep medication class (Consensus Sleep Diary medication item)
+ */
+export type SleepMedicationType =
+  | 'hypnotic'       // Prescription hypnotics: Z-drugs, benzodiazepines
+  | 'melatonin'
+  | 'antihistamine'  // OTC sedating antihistamines (doxylamine)
+  | 'other';
+
+/**
+ * Sleep medication taken on a diary night
+ */
+export interface ISleepMedicationDose {
+  readonly name: string;
+  readonly type: SleepMedicationType;
+  readonly dose: number;
+  readonly unit: 'mg' | 'tablet';
+  readonly time?: string;  // HH:MM
+}
+
+/**
+ * Time of day of the day's exercise
+ */
+export type ExerciseTiming = 'none' | 'morning' | 'afternoon' | 'evening';
+
 /**
  * Sleep diary entry (user input)
+ *
+ * The optional fields complete the Consensus Sleep Diary (Carney et al., 2012);
+ * undefined means the item was not reported.
  */
 export interface ISleepDiaryEntry {
   readonly userId: string;
@@ -536,6 +564,14 @@ export interface ISleepDiaryEntry {
   readonly subjectiveQuality: SleepQualityRating;
   readonly morningAlertness: number;  // 1-5 scale
   readonly notes?: string;
+  readonly napCount?: number;  // naps/dozes the previous day
+  readonly napMinutes?: number;  // total nap time
+  readonly caffeineDrinks?: number;
+  readonly lastCaffeineTime?: string;  // HH:MM
+  readonly alcoholDrinks?: number;
+  readonly sleepMedications?: readonly ISleepMedicationDose[];
+  readonly earlyAwakeningMinutes?: number;  // woke this much earlier than planned
+  readonly exerciseTiming?: ExerciseTiming;
 }
 
 /**
@@ -544,7 +580,7 @@ export interface ISleepDiaryEntry {
 export interface IWearableSleepData {
   readonly userId: string;
   readonly date: string;
-  readonly source: 'apple_health' | 'google_fit' | 'oura' | 'fitbit' | 'whoop' | 'garmin';
+  readonly source: 'apple_health' | 'google_fit' | 'oura' | 'fitbit' | 'whoop' | 'garmin' | 'other';
   readonly bedtime: string;
   readonly wakeTime: string;
   readonly totalSleepTime: number;
@@ -0,0 +1,360 @@
+/**
+ * CognitiveCorePersistence Unit Tests
+ * ===================================
+ *
+ * Tests SQL adapters for the CognitiveCoreAPI event store, state and
+ * session repositories (migration 017) and projection store (migration 018).
+ * Uses in-memory SQLite for isolation.
+ */
+
+import {
+  InterventionEffectivenessProjection,
+  ProjectionRunner,
+  type BeliefUpdateState,
+  type IDomainEvent,
+  type IEventBus,
+  type InterventionEffectivenessState,
+  type IStateVector,
+  type IUserSession,
+} from '@cognicore/engine';
+import {
+  SQLEventStore,
+  SQLProjectionStore,
+  SQLSessionRepository,
+  SQLStateRepository,
+  createCognitiveCorePersistence,
+} from '../../../../src/infrastructure/database/adapters/CognitiveCorePersistence';
+import { SQLiteConnection } from '../../../../src/infrastructure/database/sqlite/SQLiteConnection';
+import { SQLiteMigration } from '../../../../src/infrastructure/database/sqlite/SQLiteMigration';
+import { MIGRATIONS } from '../../../../src/infrastructure/database/migrations';
+
+// ==================== Helpers ====================
+
+function makeEvent(id: string, overrides: Partial<IDomainEvent> = {}): IDomainEvent {
+  return {
+    eventId: id,
+    eventType: 'STATE_UPDATED',
+    aggregateId: 'user-1',
+    aggregateType: 'cognitive_state',
+    timestamp: new Date('2025-03-01T10:00:00Z'),
+    version: 1,
+    payload: { at: new Date('2025-03-01T09:00:00Z'), scores: [1, 2] },
+    metadata: { correlationId: `corr-${id}`, userId: 'user-1', source: 'test' },
+    ...overrides,
+  };
+}
+
+function makeBus(): IEventBus & { publish: jest.Mock } {
+  return {
+    publish: jest.fn().mockResolvedValue(undefined),
+    subscribe: jest.fn(),
+    subscribeMany: jest.fn(),
+    unsubscribe: jest.fn(),
+    clearAll: jest.fn(),
+  };
+}
+
+/**
+ * Minimal belief carrying a Map, as BeliefState distributions do
+ */
+function makeBelief(valence: number): BeliefUpdateState {
+  return {
+    emotional: { valence, distribution: new Map([['joy', 0.7], ['sadness', 0.3]]) },
+    lastUpdated: new Date('2025-03-01T10:00:00Z'),
+  } as unknown as BeliefUpdateState;
+}
+
+function makeState(wellbeingIndex: number): IStateVector {
+  return {
+    id: `state-${wellbeingIndex}`,
+    userId: 'user-1',
+    timestamp: new Date('2025-03-01T10:00:00Z'),
+    wellbeingIndex,
+  } as unknown as IStateVector;
+}
+
+function makeSession(sessionId: string, startedAt: string): IUserSession {
+  return {
+    sessionId,
+    userId: 'user-1',
+    platform: 'telegram',
+    startedAt: new Date(startedAt),
+    lastActivityAt: new Date(startedAt),
+    status: 'active',
+    currentState: makeState(50),
+    currentBelief: makeBelief(0.1),
+    messageCount: 0,
+    interventionsDelivered: 0,
+    context: { language: 'ru', crisisMode: false, customData: {} },
+    pendingOutcomes: [],
+  } as unknown as IUserSession;
+}
+
+// ==================== Tests ====================
+
+describe('CognitiveCorePersistence', () => {
+  let db: SQLiteConnection;
+
+  beforeAll(async () => {
+    db = new SQLiteConnection({
+      type: 'sqlite',
+      connectionString: ':memory:',
+      verbose: false,
+    });
+    await db.connect();
+
+    const migration = new SQLiteMigration(db);
+    await migration.initialize();
+    await migration.migrate([...MIGRATIONS]);
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  beforeEach(async () => {
+    await db.execute('DELETE FROM cognitive_events');
+    await db.execute('DELETE FROM cognitive_state_history');
+    await db.execute('DELETE FROM cognitive_sessions');
+    await db.execute('DELETE FROM cognitive_projections');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('SQLEventStore', () => {
+    it('should append, publish and read back events with their version', async () => {
+      const bus = makeBus();
+      const store = new SQLEventStore(db, bus);
+
+      await store.append('user-1', makeEvent('e1'));
+      await store.appendMany('user-1', [makeEvent('e2'), makeEvent('e3')], 1);
+
+      expect(bus.publish).toHaveBeenCalledTimes(3);
+      expect(await store.getStreamVersion('user-1')).toBe(3);
+      expect(await store.getStreamVersion('user-2')).toBe(0);
+
+      const events = await store.readStream('user-1', 1, 1);
+      expect(events.map((e) => e.eventId)).toEqual(['e2']);
+      expect(events[0]).toEqual(makeEvent('e2'));
+      expect((events[0].payload as { at: Date }).at).toBeInstanceOf(Date);
+    });
+
+    it('should reject a stale expected version without writing', async () => {
+      const bus = makeBus();
+      const store = new SQLEventStore(db, bus);
+      await store.append('user-1', makeEvent('e1'), 0);
+
+      await expect(
+        store.appendMany('user-1', [makeEvent('e2'), makeEvent('e3')], 0)
+      ).rejects.toThrow('Concurrency conflict: expected version 0, actual 1');
+
+      expect(await store.getStreamVersion('user-1')).toBe(1);
+      expect(bus.publish).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report a conflict when another writer takes the version', async () => {
+      const store = new SQLEventStore(db, makeBus());
+      const other = new SQLEventStore(db, makeBus());
+      await store.append('user-1', makeEvent('e1'));
+
+      // Another instance appends after our transaction read version 1
+      jest.spyOn(db, 'transaction').mockImplementationOnce(async (fn) => {
+        await other.append('user-1', makeEvent('e2'));
+        return db.transaction(async (tx) => {
+          tx.queryOne = (async () => ({ version: 1 })) as typeof tx.queryOne;
+          return fn(tx);
+        });
+      });
+
+      await expect(store.append('user-1', makeEvent('e3'), 1)).rejects.toThrow(
+        'Concurrency conflict: expected version 1, actual 2'
+      );
+      expect((await store.readStream('user-1')).map((e) => e.eventId)).toEqual(['e1', 'e2']);
+    });
+
+    it('should read events by type within a time range', async () => {
+      const store = new SQLEventStore(db, makeBus());
+      await store.append('user-1', makeEvent('e1', { timestamp: new Date('2025-03-01T08:00:00Z') }));
+      await store.append('user-2', makeEvent('e2', { aggregateId: 'user-2', timestamp: new Date('2025-03-01T12:00:00Z') }));
+      await store.append('user-1', makeEvent('e3', { eventType: 'MESSAGE_RECEIVED' }));
+
+      const all = await store.readByType('STATE_UPDATED');
+      const afternoon = await store.readByType('STATE_UPDATED', new Date('2025-03-01T11:00:00Z'));
+
+      expect(all.map((e) => e.eventId)).toEqual(['e1', 'e2']);
+      expect(afternoon.map((e) => e.eventId)).toEqual(['e2']);
+    });
+
+    it('should read all streams in append order from a position', async () => {
+      const store = new SQLEventStore(db, makeBus());
+      await store.append('user-1', makeEvent('e1'));
+      await store.append('user-2', makeEvent('e2', { aggregateId: 'user-2' }));
+      await store.append('user-1', makeEvent('e3'));
+
+      const all = await store.readAll();
+      const rest = await store.readAll(all[0].position, 1);
+
+      expect(all.map((s) => [s.streamId, s.event.eventId])).toEqual([
+        ['user-1', 'e1'],
+        ['user-2', 'e2'],
+        ['user-1', 'e3'],
+      ]);
+      expect(all[2].position).toBeGreaterThan(all[1].position);
+      expect(rest.map((s) => s.event.eventId)).toEqual(['e2']);
+    });
+  });
+
+  describe('SQLStateRepository', () => {
+    it('should restore state and belief with Dates and Maps after a restart', async () => {
+      await new SQLStateRepository(db).saveState('user-1', makeState(40));
+      await new SQLStateRepository(db).saveBelief('user-1', makeBelief(-0.2));
+
+      const restarted = new SQLStateRepository(db);
+      const state = await restarted.getState('user-1');
+      const belief = (await restarted.getBelief('user-1')) as unknown as {
+        emotional: { distribution: Map<string, number> };
+      };
+
+      expect(state).toEqual(makeState(40));
+      expect(state?.timestamp).toBeInstanceOf(Date);
+      expect(belief.emotional.distribution).toBeInstanceOf(Map);
+      expect(belief.emotional.distribution.get('joy')).toBe(0.7);
+      expect(await restarted.getState('user-2')).toBeNull();
+    });
+
+    it('should keep a bounded state and belief history, oldest first', async () => {
+      const repo = new SQLStateRepository(db, { stateHistoryLimit: 2 });
+      for (const index of [10, 20, 30]) await repo.saveState('user-1', makeState(index));
+      await repo.saveBelief('user-1', makeBelief(0.1));
+      await repo.saveBelief('user-1', makeBelief(0.2));
+
+      const states = await repo.getStateHistory('user-1');
+      const beliefs = await repo.getBeliefHistory('user-1', 1);
+
+      expect(states.map((h) => h.state.wellbeingIndex)).toEqual([20, 30]);
+      expect(states[0].timestamp).toBeInstanceOf(Date);
+      expect((await repo.getState('user-1'))?.wellbeingIndex).toBe(30);
+      expect(beliefs).toHaveLength(1);
+      expect((beliefs[0].belief as unknown as { emotional: { valence: number } }).emotional.valence).toBe(0.2);
+    });
+
+    it('should delete all snapshots for a user', async () => {
+      const repo = new SQLStateRepository(db);
+      await repo.saveState('user-1', makeState(40));
+      await repo.saveBelief('user-1', makeBelief(0));
+      await repo.saveState('user-2', makeState(60));
+
+      await repo.deleteUserData('user-1');
+
+      expect(await repo.getState('user-1')).toBeNull();
+      expect(await repo.getBeliefHistory('user-1')).toEqual([]);
+      expect(await repo.getState('user-2')).not.toBeNull();
+    });
+  });
+
+  describe('SQLSessionRepository', () => {
+    it('should track the active session and end it', async () => {
+      const repo = new SQLSessionRepository(db);
+      await repo.create(makeSession('s1', '2025-03-01T08:00:00Z'));
+      await repo.create(makeSession('s2', '2025-03-01T09:00:00Z'));
+
+      const active = await repo.getActiveSession('user-1');
+      expect(active?.sessionId).toBe('s2');
+      expect(active?.startedAt).toEqual(new Date('2025-03-01T09:00:00Z'));
+      expect(active?.currentBelief).toEqual(makeBelief(0.1));
+
+      await repo.endSession('s2');
+      await repo.endSession('s1');
+
+      expect(await repo.getActiveSession('user-1')).toBeNull();
+      expect((await repo.getById('s2'))?.status).toBe('ended');
+      expect((await repo.getSessionHistory('user-1')).map((s) => s.sessionId)).toEqual(['s2', 's1']);
+    });
+
+    it('should persist session updates', async () => {
+      const repo = new SQLSessionRepository(db);
+      const session = makeSession('s1', '2025-03-01T08:00:00Z');
+      await repo.create(session);
+
+      session.messageCount = 3;
+      session.context.currentTopic = 'sleep';
+      await repo.update(session);
+
+      expect(await repo.getById('s1')).toMatchObject({
+        messageCount: 3,
+        context: { currentTopic: 'sleep' },
+      });
+    });
+  });
+
+  describe('SQLProjectionStore', () => {
+    function outcomeEvent(id: string, value: number): IDomainEvent {
+      return makeEvent(id, {
+        eventType: 'INTERVENTION_OUTCOME',
+        aggregateType: 'intervention',
+        payload: {
+          userId: 'user-1',
+          interventionId: 'breathing',
+          outcome: { interventionId: 'breathing', outcomeType: 'engagement', value },
+          rewardSignal: value,
+        },
+      });
+    }
+
+    it('should resume projections from the stored checkpoint after a restart', async () => {
+      const events = new SQLEventStore(db, makeBus());
+      await events.append('user-1', outcomeEvent('e1', 1));
+
+      const runner = new ProjectionRunner(events, new SQLProjectionStore(db));
+      runner.register(new InterventionEffectivenessProjection());
+      await runner.catchUp();
+
+      await events.append('user-1', outcomeEvent('e2', 0));
+      const restarted = new ProjectionRunner(events, new SQLProjectionStore(db));
+      restarted.register(new InterventionEffectivenessProjection());
+      const [result] = await restarted.catchUp();
+
+      expect(result).toMatchObject({ replayed: false, eventsRead: 1 });
+      const state = await restarted.getState<InterventionEffectivenessState>('intervention_effectiveness');
+      expect(state.breathing).toMatchObject({ outcomes: 2, positiveOutcomes: 1, meanValue: 0.5 });
+      expect(state.breathing.lastOutcomeAt).toBeInstanceOf(Date);
+    });
+
+    it('should replay history when the projection version changes', async () => {
+      const events = new SQLEventStore(db, makeBus());
+      await events.append('user-1', outcomeEvent('e1', 1));
+      const runner = new ProjectionRunner(events, new SQLProjectionStore(db));
+      runner.register(new InterventionEffectivenessProjection());
+      await runner.catchUp();
+
+      class RevisedProjection extends InterventionEffectivenessProjection {
+        readonly version = 2;
+      }
+      const revised = new ProjectionRunner(events, new SQLProjectionStore(db));
+      revised.register(new RevisedProjection());
+      const [result] = await revised.catchUp();
+
+      expect(result).toMatchObject({ replayed: true, eventsApplied: 1 });
+      expect(await new SQLProjectionStore(db).load('intervention_effectiveness')).toMatchObject({
+        checkpoint: { version: 2, position: result.position },
+      });
+    });
+  });
+
+  describe('createCognitiveCorePersistence', () => {
+    it('should build an event store on the API event bus', async () => {
+      const bus = makeBus();
+      const persistence = createCognitiveCorePersistence(db);
+
+      expect(typeof persistence.eventStore).toBe('function');
+      const store = (persistence.eventStore as (eventBus: IEventBus) => SQLEventStore)(bus);
+      await store.append('user-1', makeEvent('e1'));
+
+      expect(bus.publish).toHaveBeenCalledWith(makeEvent('e1'));
+      expect(persistence.stateRepository).toBeInstanceOf(SQLStateRepository);
+      expect(persistence.sessionRepository).toBeInstanceOf(SQLSessionRepository);
+    });
+  });
+});
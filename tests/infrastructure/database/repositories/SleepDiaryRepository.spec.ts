@@ -0,0 +1,131 @@
+/**
+ * SleepDiaryRepository Unit Tests
+ * ================================
+ *
+ * Tests Consensus Sleep Diary fields (migration 015) round-trip and
+ * bot-level user IDs that differ from users.id.
+ * Uses in-memory SQLite for isolation.
+ */
+
+import { SleepDiaryRepository } from '../../../../src/infrastructure/database/repositories/SleepDiaryRepository';
+import { SQLiteConnection } from '../../../../src/infrastructure/database/sqlite/SQLiteConnection';
+import { SQLiteMigration } from '../../../../src/infrastructure/database/sqlite/SQLiteMigration';
+import { MIGRATIONS } from '../../../../src/infrastructure/database/migrations';
+import type { ISleepDiaryEntryEntity } from '../../../../src/infrastructure/database/interfaces/IRepository';
+
+describe('SleepDiaryRepository', () => {
+  let db: SQLiteConnection;
+  let repo: SleepDiaryRepository;
+
+  const baseEntry: Omit<ISleepDiaryEntryEntity, 'id' | 'createdAt' | 'updatedAt'> = {
+    userId: 'tg_1',
+    date: '2025-03-01',
+    bedtime: '23:00',
+    lightsOffTime: '23:15',
+    sleepOnsetLatency: 30,
+    wakeTime: '06:45',
+    outOfBedTime: '07:00',
+    nightAwakenings: 2,
+    wakeAfterSleepOnset: 40,
+    totalSleepTime: 410,
+    timeInBed: 480,
+    sleepEfficiency: 85,
+    sleepQuality: 3,
+    morningMood: 3,
+    deletedAt: null,
+  };
+
+  beforeAll(async () => {
+    db = new SQLiteConnection({
+      type: 'sqlite',
+      connectionString: ':memory:',
+      verbose: false,
+    });
+    await db.connect();
+
+    const migration = new SQLiteMigration(db);
+    await migration.initialize();
+    await migration.migrate([...MIGRATIONS]);
+
+    await db.execute(
+      `INSERT INTO users (id, external_id, first_name, created_at, updated_at)
+       VALUES (?, ?, ?, datetime('now'), datetime('now'))`,
+      [1, 'tg_1', 'TestUser']
+    );
+    await db.execute(
+      `INSERT INTO users (id, external_id, first_name, created_at, updated_at)
+       VALUES (?, ?, ?, datetime('now'), datetime('now'))`,
+      [2, '900000001', 'TelegramUser']
+    );
+
+    repo = new SleepDiaryRepository(db);
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  it('should store entries under users.id for a Telegram user ID', async () => {
+    const saved = await repo.upsert({ ...baseEntry, userId: '900000001', date: '2025-02-01' });
+
+    expect(saved.userId).toBe('900000001');
+    const rows = await db.query<{ user_id: number }>(
+      `SELECT user_id FROM sleep_diary_entries WHERE date = '2025-02-01'`
+    );
+    expect(rows.map((row) => row.user_id)).toEqual([2]);
+
+    const found = await repo.findByUserAndDateRange('900000001', '2025-02-01', '2025-02-01');
+    expect(found.map((entry) => entry.bedtime)).toEqual(['23:00']);
+    expect(await repo.countEntriesInRange('900000001', '2025-02-01', '2025-02-28')).toBe(1);
+    expect((await repo.getLatestEntry('900000001'))!.date).toBe('2025-02-01');
+  });
+
+  it('should reject entries for unknown users', async () => {
+    await expect(repo.upsert({ ...baseEntry, userId: '2' })).rejects.toThrow('No user with external ID 2');
+  });
+
+  it('should leave Consensus Sleep Diary fields undefined when not reported', async () => {
+    const saved = await repo.upsert(baseEntry);
+
+    expect(saved.sleepEfficiency).toBe(85);
+    expect(saved.caffeineDrinks).toBeUndefined();
+    expect(saved.sleepMedications).toBeUndefined();
+    expect(saved.exerciseTiming).toBeUndefined();
+  });
+
+  it('should round-trip naps, substances, medication and early awakening', async () => {
+    const saved = await repo.upsert({
+      ...baseEntry,
+      date: '2025-03-02',
+      napCount: 1,
+      napMinutes: 45,
+      caffeineDrinks: 3,
+      lastCaffeineTime: '17:00',
+      alcoholDrinks: 0,
+      sleepMedications: [{ name: 'Зопиклон', type: 'hypnotic', dose: 7.5, unit: 'mg', time: '22:30' }],
+      earlyAwakeningMinutes: 60,
+      exerciseTiming: 'evening',
+    });
+
+    expect(saved).toMatchObject({
+      napCount: 1,
+      napMinutes: 45,
+      caffeineDrinks: 3,
+      lastCaffeineTime: '17:00',
+      alcoholDrinks: 0,
+      earlyAwakeningMinutes: 60,
+      exerciseTiming: 'evening',
+    });
+    expect(saved.sleepMedications).toEqual([
+      { name: 'Зопиклон', type: 'hypnotic', dose: 7.5, unit: 'mg', time: '22:30' },
+    ]);
+  });
+
+  it('should clear details when an entry is replaced without them', async () => {
+    await repo.upsert({ ...baseEntry, date: '2025-03-03', caffeineDrinks: 2, sleepMedications: [] });
+    const replaced = await repo.upsert({ ...baseEntry, date: '2025-03-03' });
+
+    expect(replaced.caffeineDrinks).toBeUndefined();
+    expect(replaced.sleepMedications).toBeUndefined();
+  });
+});
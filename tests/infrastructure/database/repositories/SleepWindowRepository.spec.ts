@@ -0,0 +1,110 @@
+/**
+ * SleepWindowRepository Unit Tests
+ * ================================
+ *
+ * Tests for sleep restriction window history.
+ * Uses in-memory SQLite for isolation.
+ */
+
+import { SleepWindowRepository } from '../../../../src/infrastructure/database/repositories/SleepWindowRepository';
+import { SQLiteConnection } from '../../../../src/infrastructure/database/sqlite/SQLiteConnection';
+import { SQLiteMigration } from '../../../../src/infrastructure/database/sqlite/SQLiteMigration';
+import { MIGRATIONS } from '../../../../src/infrastructure/database/migrations';
+
+describe('SleepWindowRepository', () => {
+  let db: SQLiteConnection;
+  let repo: SleepWindowRepository;
+  const externalId = '12345';
+
+  const initialWindow = {
+    week: 1,
+    bedtime: '00:30',
+    wakeTime: '06:30',
+    timeInBed: 360,
+    sleepEfficiencyTarget: 85,
+    observedEfficiency: 72,
+    adjustment: 'initial' as const,
+    adjustmentReason: 'Baseline SE 72%',
+  };
+
+  beforeAll(async () => {
+    // Create in-memory SQLite database
+    db = new SQLiteConnection({
+      type: 'sqlite',
+      connectionString: ':memory:',
+      verbose: false,
+    });
+    await db.connect();
+
+    // Run migrations
+    const migration = new SQLiteMigration(db);
+    await migration.initialize();
+    await migration.migrate([...MIGRATIONS]);
+
+    // Create test user (bot users are keyed by Telegram ID in external_id)
+    await db.execute(
+      `INSERT INTO users (external_id, first_name, created_at, updated_at)
+       VALUES (?, ?, datetime('now'), datetime('now'))`,
+      [externalId, 'TestUser']
+    );
+
+    repo = new SleepWindowRepository(db);
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  beforeEach(async () => {
+    await db.execute('DELETE FROM sleep_window_history');
+  });
+
+  describe('record', () => {
+    it('should store a window for a registered bot user', async () => {
+      const saved = await repo.record(externalId, initialWindow);
+
+      expect(saved).not.toBeNull();
+      expect(saved!.bedtime).toBe('00:30');
+      expect(saved!.timeInBed).toBe(360);
+      expect(saved!.observedEfficiency).toBe(72);
+      expect(saved!.adjustment).toBe('initial');
+      expect(saved!.updatedAt).toBeInstanceOf(Date);
+    });
+
+    it('should return null for an unknown user', async () => {
+      const saved = await repo.record('99999', initialWindow);
+
+      expect(saved).toBeNull();
+    });
+  });
+
+  describe('findCurrent / findHistory', () => {
+    it('should return windows newest first', async () => {
+      await repo.record(externalId, initialWindow);
+      await repo.record(externalId, {
+        ...initialWindow,
+        week: 2,
+        bedtime: '00:15',
+        timeInBed: 375,
+        observedEfficiency: 91,
+        adjustment: 'increase',
+        adjustmentReason: 'Average SE 91% → increase (+15 min)',
+      });
+
+      const current = await repo.findCurrent(externalId);
+      const history = await repo.findHistory(externalId);
+
+      expect(current!.week).toBe(2);
+      expect(current!.adjustment).toBe('increase');
+      expect(history.map((w) => w.week)).toEqual([2, 1]);
+    });
+
+    it('should exclude soft-deleted windows', async () => {
+      const saved = await repo.record(externalId, initialWindow);
+      await repo.delete(saved!.id!);
+
+      expect(await repo.findCurrent(externalId)).toBeNull();
+      expect(await repo.findHistory(externalId)).toEqual([]);
+    });
+  });
+});
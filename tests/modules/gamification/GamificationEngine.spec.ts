@@ -55,6 +55,7 @@ describe('GamificationEngine', () => {
     await db.execute('DELETE FROM gamification_state WHERE user_id = ?', [testUserId]);
     await db.execute('DELETE FROM xp_transactions WHERE user_id = ?', [testUserId]);
     await db.execute('DELETE FROM achievements WHERE user_id = ?', [testUserId]);
+    await db.execute('DELETE FROM gamification_metrics WHERE user_id = ?', [testUserId]);
     await db.execute('DELETE FROM streaks WHERE user_id = ?', [testUserId]);
     await db.execute('DELETE FROM user_quests WHERE user_id = ?', [testUserId]);
     await db.execute('DELETE FROM gamification_settings WHERE user_id = ?', [testUserId]);
@@ -6,12 +6,51 @@
  */
 
 import { BadgeService, DEFAULT_BADGES, IBadge } from '../../../src/modules/quests/BadgeService';
+import { SQLiteConnection } from '../../../src/infrastructure/database/sqlite/SQLiteConnection';
+import { SQLiteMigration } from '../../../src/infrastructure/database/sqlite/SQLiteMigration';
+import { MIGRATIONS } from '../../../src/infrastructure/database/migrations';
+import { GamificationRepository } from '../../../src/infrastructure/database/repositories/GamificationRepository';
+import type { ICriteriaDataSource } from '../../../src/modules/quests/CriteriaDataSource';
+import type { ICriteriaNight } from '../../../src/modules/quests/CriteriaExpression';
+
+const USER_ID = 1;
+const NEW_USER_ID = 2;
 
 describe('BadgeService', () => {
+  let db: SQLiteConnection;
+  let repository: GamificationRepository;
   let service: BadgeService;
 
-  beforeEach(() => {
-    service = new BadgeService();
+  beforeAll(async () => {
+    db = new SQLiteConnection({
+      type: 'sqlite',
+      connectionString: ':memory:',
+      verbose: false,
+    });
+    await db.connect();
+
+    const migration = new SQLiteMigration(db);
+    await migration.initialize();
+    await migration.migrate([...MIGRATIONS]);
+
+    for (const id of [1, 2, 3]) {
+      await db.execute(
+        `INSERT INTO users (id, external_id, first_name, created_at, updated_at)
+         VALUES (?, ?, 'Test', datetime('now'), datetime('now'))`,
+        [id, String(id)]
+      );
+    }
+    repository = new GamificationRepository(db);
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  beforeEach(async () => {
+    await db.execute('DELETE FROM achievements');
+    await db.execute('DELETE FROM gamification_metrics');
+    service = new BadgeService(repository);
   });
 
   describe('constructor', () => {
@@ -33,14 +72,14 @@ describe('BadgeService', () => {
         reward: { xp: 50 },
       };
 
-      const serviceWithCustom = new BadgeService([customBadge]);
+      const serviceWithCustom = new BadgeService(repository, [customBadge]);
       expect(serviceWithCustom.getBadge('custom_badge')).toBeDefined();
     });
   });
 
   describe('awardBadge', () => {
-    it('should award badge successfully', () => {
-      const result = service.awardBadge('user123', 'first_diary');
+    it('should award badge successfully', async () => {
+      const result = await service.awardBadge(USER_ID, 'first_diary');
 
       expect(result.awarded).toBe(true);
       expect(result.badge).toBeDefined();
@@ -50,67 +89,67 @@ describe('BadgeService', () => {
       expect(result.isFirstTime).toBe(true);
     });
 
-    it('should not award same badge twice', () => {
-      service.awardBadge('user123', 'first_diary');
-      const second = service.awardBadge('user123', 'first_diary');
+    it('should not award same badge twice', async () => {
+      await service.awardBadge(USER_ID, 'first_diary');
+      const second = await service.awardBadge(USER_ID, 'first_diary');
 
       expect(second.awarded).toBe(false);
       expect(second.isFirstTime).toBe(false);
       expect(second.message).toContain('already earned');
     });
 
-    it('should return false for non-existent badge', () => {
-      const result = service.awardBadge('user123', 'non_existent');
+    it('should return false for non-existent badge', async () => {
+      const result = await service.awardBadge(USER_ID, 'non_existent');
       expect(result.awarded).toBe(false);
     });
   });
 
   describe('checkAndAwardBadges', () => {
-    it('should award first diary badge on first entry', () => {
-      const results = service.checkAndAwardBadges('user123', 'diary_entry');
+    it('should award first diary badge on first entry', async () => {
+      const results = await service.checkAndAwardBadges(USER_ID, 'diary_entry');
 
       expect(results.length).toBe(1);
       expect(results[0].badge!.id).toBe('first_diary');
     });
 
-    it('should award first voice badge', () => {
-      const results = service.checkAndAwardBadges('user123', 'voice_entry');
+    it('should award first voice badge', async () => {
+      const results = await service.checkAndAwardBadges(USER_ID, 'voice_entry');
 
       expect(results.length).toBe(1);
       expect(results[0].badge!.id).toBe('first_voice');
     });
 
-    it('should not re-award badges', () => {
-      service.checkAndAwardBadges('user123', 'diary_entry');
-      const second = service.checkAndAwardBadges('user123', 'diary_entry');
+    it('should not re-award badges', async () => {
+      await service.checkAndAwardBadges(USER_ID, 'diary_entry');
+      const second = await service.checkAndAwardBadges(USER_ID, 'diary_entry');
 
       expect(second.length).toBe(0);
     });
 
-    it('should award count-based badges', () => {
+    it('should award count-based badges', async () => {
       // Need 50 diary entries for diary_50 badge
       for (let i = 0; i < 50; i++) {
-        service.checkAndAwardBadges('user123', 'diary_entries');
+        await service.checkAndAwardBadges(USER_ID, 'diary_entries');
       }
 
-      const badges = service.getUserBadges('user123');
+      const badges = await service.getUserBadges(USER_ID);
       const hasDiary50 = badges.some((b) => b.badgeId === 'diary_50');
       expect(hasDiary50).toBe(true);
     });
 
-    it('should award streak badges', () => {
+    it('should award streak badges', async () => {
       // Set streak to 7
-      service.updateStreak('user123', 'daily_check_in', 7);
-      const results = service.checkAndAwardBadges('user123', 'daily_check_in');
+      await service.updateStreak(USER_ID, 'daily_check_in', 7);
+      const results = await service.checkAndAwardBadges(USER_ID, 'daily_check_in');
 
       const streak7 = results.find((r) => r.badge!.id === 'streak_7');
       expect(streak7).toBeDefined();
     });
 
-    it('should award multiple streak badges if earned', () => {
+    it('should award multiple streak badges if earned', async () => {
       // Set streak to 30 (should earn 7, 21, and 30)
-      service.updateStreak('user123', 'daily_check_in', 30);
-      const results = service.checkAndAwardBadges('user123', 'daily_check_in');
+      await service.updateStreak(USER_ID, 'daily_check_in', 30);
+      const results = await service.checkAndAwardBadges(USER_ID, 'daily_check_in');
 
       expect(results.length).toBe(3);
       expect(results.some((r) => r.badge!.id === 'streak_7')).toBe(true);
@@ -118,8 +157,8 @@ describe('BadgeService', () => {
       expect(results.some((r) => r.badge!.id === 'streak_30')).toBe(true);
     });
 
-    it('should award hidden badges on specific events', () => {
-      const results = service.checkAndAwardBadges('user123', 'late_night_use');
+    it('should award hidden badges on specific events', async () => {
+      const results = await service.checkAndAwardBadges(USER_ID, 'late_night_use');
 
       const nightOwl = results.find((r) => r.badge!.id === 'night_owl');
       expect(nightOwl).toBeDefined();
@@ -127,9 +166,9 @@ describe('BadgeService', () => {
   });
 
   describe('updateMetric', () => {
-    it('should increment metric', () => {
-      service.updateMetric('user123', 'test_metric', 5);
-      service.updateMetric('user123', 'test_metric', 3);
+    it('should increment metric', async () => {
+      await service.updateMetric(USER_ID, 'test_metric', 5);
+      await service.updateMetric(USER_ID, 'test_metric', 3);
 
       // We can verify through badge checking
       // For now, just verify no errors
@@ -138,50 +177,50 @@ describe('BadgeService', () => {
   });
 
   describe('updateStreak', () => {
-    it('should update streak only if higher', () => {
-      service.updateStreak('user123', 'daily_check_in', 5);
-      service.updateStreak('user123', 'daily_check_in', 3); // Lower, should not update
-      service.updateStreak('user123', 'daily_check_in', 10); // Higher, should update
+    it('should update streak only if higher', async () => {
+      await service.updateStreak(USER_ID, 'daily_check_in', 5);
+      await service.updateStreak(USER_ID, 'daily_check_in', 3); // Lower, should not update
+      await service.updateStreak(USER_ID, 'daily_check_in', 10); // Higher, should update
 
       // Check that streak_7 badge is not yet earned (5 was the real value)
       // But after 10, it should be earned
-      const results = service.checkAndAwardBadges('user123', 'daily_check_in');
+      const results = await service.checkAndAwardBadges(USER_ID, 'daily_check_in');
       const streak7 = results.find((r) => r.badge!.id === 'streak_7');
       expect(streak7).toBeDefined();
     });
   });
 
   describe('hasBadge', () => {
-    it('should return true if user has badge', () => {
-      service.awardBadge('user123', 'first_diary');
-      expect(service.hasBadge('user123', 'first_diary')).toBe(true);
+    it('should return true if user has badge', async () => {
+      await service.awardBadge(USER_ID, 'first_diary');
+      expect(await service.hasBadge(USER_ID, 'first_diary')).toBe(true);
     });
 
-    it('should return false if user does not have badge', () => {
-      expect(service.hasBadge('user123', 'first_diary')).toBe(false);
+    it('should return false if user does not have badge', async () => {
+      expect(await service.hasBadge(USER_ID, 'first_diary')).toBe(false);
     });
   });
 
   describe('getUserBadges', () => {
-    it('should return all user badges', () => {
-      service.awardBadge('user123', 'first_diary');
-      service.awardBadge('user123', 'first_voice');
+    it('should return all user badges', async () => {
+      await service.awardBadge(USER_ID, 'first_diary');
+      await service.awardBadge(USER_ID, 'first_voice');
 
-      const badges = service.getUserBadges('user123');
+      const badges = await service.getUserBadges(USER_ID);
       expect(badges.length).toBe(2);
     });
 
-    it('should return empty array for new user', () => {
-      const badges = service.getUserBadges('newuser');
+    it('should return empty array for new user', async () => {
+      const badges = await service.getUserBadges(NEW_USER_ID);
       expect(badges).toEqual([]);
     });
   });
 
   describe('getUserBadgesWithInfo', () => {
-    it('should return badges with full info', () => {
-      service.awardBadge('user123', 'first_diary');
+    it('should return badges with full info', async () => {
+      await service.awardBadge(USER_ID, 'first_diary');
 
-      const badgesWithInfo = service.getUserBadgesWithInfo('user123');
+      const badgesWithInfo = await service.getUserBadgesWithInfo(USER_ID);
       expect(badgesWithInfo.length).toBe(1);
       expect(badgesWithInfo[0].badge.name).toBe('Первая запись');
       expect(badgesWithInfo[0].userBadge.badgeId).toBe('first_diary');
@@ -207,10 +246,10 @@ describe('BadgeService', () => {
   });
 
   describe('getUserProgress', () => {
-    it('should return progress for all visible badges', () => {
-      service.updateMetric('user123', 'diary_entries', 25);
+    it('should return progress for all visible badges', async () => {
+      await service.updateMetric(USER_ID, 'diary_entries', 25);
 
-      const progress = service.getUserProgress('user123');
+      const progress = await service.getUserProgress(USER_ID);
 
       expect(progress.length).toBe(service.getAllVisibleBadges().length);
 
@@ -222,10 +261,10 @@ describe('BadgeService', () => {
       expect(diary50Progress!.earned).toBe(false);
     });
 
-    it('should show earned badges as 100%', () => {
-      service.awardBadge('user123', 'first_diary');
+    it('should show earned badges as 100%', async () => {
+      await service.awardBadge(USER_ID, 'first_diary');
 
-      const progress = service.getUserProgress('user123');
+      const progress = await service.getUserProgress(USER_ID);
       const firstDiary = progress.find((p) => p.badge.id === 'first_diary');
 
       expect(firstDiary!.earned).toBe(true);
@@ -233,42 +272,42 @@ describe('BadgeService', () => {
   });
 
   describe('getTotalBadgeXP', () => {
-    it('should sum XP from all badges', () => {
-      service.awardBadge('user123', 'first_diary'); // 10 XP
-      service.awardBadge('user123', 'first_voice'); // 15 XP
+    it('should sum XP from all badges', async () => {
+      await service.awardBadge(USER_ID, 'first_diary'); // 10 XP
+      await service.awardBadge(USER_ID, 'first_voice'); // 15 XP
 
-      const totalXP = service.getTotalBadgeXP('user123');
+      const totalXP = await service.getTotalBadgeXP(USER_ID);
       expect(totalXP).toBe(25);
     });
 
-    it('should return 0 for no badges', () => {
-      const totalXP = service.getTotalBadgeXP('newuser');
+    it('should return 0 for no badges', async () => {
+      const totalXP = await service.getTotalBadgeXP(NEW_USER_ID);
       expect(totalXP).toBe(0);
     });
   });
 
   describe('markBadgeSeen', () => {
-    it('should mark badge as seen', () => {
-      service.awardBadge('user123', 'first_diary');
+    it('should mark badge as seen', async () => {
+      await service.awardBadge(USER_ID, 'first_diary');
 
-      let newBadges = service.getNewBadges('user123');
+      let newBadges = await service.getNewBadges(USER_ID);
       expect(newBadges.length).toBe(1);
 
-      service.markBadgeSeen('user123', 'first_diary');
+      await service.markBadgeSeen(USER_ID, 'first_diary');
 
-      newBadges = service.getNewBadges('user123');
+      newBadges = await service.getNewBadges(USER_ID);
       expect(newBadges.length).toBe(0);
     });
   });
 
   describe('getNewBadges', () => {
-    it('should return only new (unseen) badges', () => {
-      service.awardBadge('user123', 'first_diary');
-      service.awardBadge('user123', 'first_voice');
+    it('should return only new (unseen) badges', async () => {
+      await service.awardBadge(USER_ID, 'first_diary');
+      await service.awardBadge(USER_ID, 'first_voice');
 
-      service.markBadgeSeen('user123', 'first_diary');
+      await service.markBadgeSeen(USER_ID, 'first_diary');
 
-      const newBadges = service.getNewBadges('user123');
+      const newBadges = await service.getNewBadges(USER_ID);
       expect(newBadges.length).toBe(1);
       expect(newBadges[0].badgeId).toBe('first_voice');
     });
@@ -308,18 +347,18 @@ describe('BadgeService', () => {
   });
 
   describe('formatBadgeCollection', () => {
-    it('should format empty collection', () => {
-      const message = service.formatBadgeCollection('newuser');
+    it('should format empty collection', async () => {
+      const message = await service.formatBadgeCollection(NEW_USER_ID);
 
       expect(message).toContain('Твои бейджи');
       expect(message).toContain('Пока нет бейджей');
     });
 
-    it('should format collection with badges', () => {
-      service.awardBadge('user123', 'first_diary');
-      service.awardBadge('user123', 'streak_7');
+    it('should format collection with badges', async () => {
+      await service.awardBadge(USER_ID, 'first_diary');
+      await service.awardBadge(USER_ID, 'streak_7');
 
-      const message = service.formatBadgeCollection('user123');
+      const message = await service.formatBadgeCollection(USER_ID);
 
       expect(message).toContain('2/');
       expect(message).toContain('Вехи');
@@ -327,31 +366,32 @@ describe('BadgeService', () => {
       expect(message).toContain('Всего XP');
     });
 
-    it('should mark new badges', () => {
-      service.awardBadge('user123', 'first_diary');
+    it('should mark new badges', async () => {
+      await service.awardBadge(USER_ID, 'first_diary');
 
-      const message = service.formatBadgeCollection('user123');
+      const message = await service.formatBadgeCollection(USER_ID);
       expect(message).toContain('🆕');
     });
   });
 
   describe('GDPR compliance', () => {
-    it('should clear user data', () => {
-      service.awardBadge('user123', 'first_diary');
-      service.updateMetric('user123', 'test', 10);
-      service.updateStreak('user123', 'daily_check_in', 5);
+    it('should have no badges after repository deletion', async () => {
+      await service.awardBadge(USER_ID, 'first_diary');
+      await service.updateMetric(USER_ID, 'test', 10);
+      await service.updateStreak(USER_ID, 'daily_check_in', 5);
 
-      service.clearUserData('user123');
+      await repository.deleteUserData(USER_ID);
 
-      expect(service.getUserBadges('user123')).toHaveLength(0);
+      expect(await service.getUserBadges(USER_ID)).toHaveLength(0);
+      expect(await service.exportUserData(USER_ID)).toEqual({ badges: [], metrics: {}, streaks: {} });
     });
 
-    it('should export user data', () => {
-      service.awardBadge('user123', 'first_diary');
-      service.updateMetric('user123', 'diary_entries', 10);
-      service.updateStreak('user123', 'daily_check_in', 5);
+    it('should export user data', async () => {
+      await service.awardBadge(USER_ID, 'first_diary');
+      await service.updateMetric(USER_ID, 'diary_entries', 10);
+      await service.updateStreak(USER_ID, 'daily_check_in', 5);
 
-      const exported = service.exportUserData('user123');
+      const exported = await service.exportUserData(USER_ID);
 
       expect(exported.badges.length).toBe(1);
       expect(exported.metrics).toHaveProperty('diary_entries');
@@ -360,27 +400,123 @@ describe('BadgeService', () => {
   });
 
   describe('badge rarity messages', () => {
-    it('should generate different messages by rarity', () => {
+    it('should generate different messages by rarity', async () => {
       // Test common badge
-      const commonResult = service.awardBadge('user1', 'first_diary');
+      const commonResult = await service.awardBadge(1, 'first_diary');
       expect(commonResult.message).toBeDefined();
 
       // Test rare badge
-      const serviceRare = new BadgeService();
-      serviceRare.updateStreak('user2', 'daily_check_in', 21);
-      serviceRare.checkAndAwardBadges('user2', 'daily_check_in');
-      const rareResult = serviceRare.awardBadge('user2', 'streak_21');
+      const serviceRare = new BadgeService(repository);
+      await serviceRare.updateStreak(2, 'daily_check_in', 21);
+      await serviceRare.checkAndAwardBadges(2, 'daily_check_in');
+      const rareResult = await serviceRare.awardBadge(2, 'streak_21');
       // Already awarded via check, so this will fail
       // But the first award should have had the message
 
       // Test epic badge
-      const serviceEpic = new BadgeService();
-      serviceEpic.updateStreak('user3', 'daily_check_in', 30);
-      const epicResults = serviceEpic.checkAndAwardBadges('user3', 'daily_check_in');
+      const serviceEpic = new BadgeService(repository);
+      await serviceEpic.updateStreak(3, 'daily_check_in', 30);
+      const epicResults = await serviceEpic.checkAndAwardBadges(3, 'daily_check_in');
       const epicBadge = epicResults.find((r) => r.badge!.rarity === 'epic');
       if (epicBadge) {
         expect(epicBadge.message).toContain('Эпический');
       }
     });
   });
+
+  describe('expression badges', () => {
+    const today = new Date().toISOString().split('T')[0];
+
+    const expressionBadge: IBadge = {
+      id: 'restriction_efficient',
+      name: 'Эффективное ограничение',
+      description: 'SE 85% и выше во время ограничения сна',
+      icon: '🎯',
+      category: 'achievement',
+      rarity: 'rare',
+      criteria: {
+        type: 'expression',
+        metric: 'diary_entries',
+        expression: {
+          all: [
+            { sleepRestriction: true },
+            { nights: { field: 'sleepEfficiency', op: '>=', value: 85 }, window: { days: 7 }, atLeast: 2 },
+          ],
+        },
+      },
+      reward: { xp: 50 },
+    };
+
+    const dataSource = (efficiencies: number[], restrictionStart: string | null): ICriteriaDataSource => ({
+      getTimezone: async () => 'UTC',
+      getNights: async () =>
+        efficiencies.map((sleepEfficiency, i) => ({
+          date: new Date(Date.now() - i * 86400000).toISOString().split('T')[0],
+          sleepEfficiency,
+        }) as ICriteriaNight),
+      getSleepRestrictionStart: async () => restrictionStart,
+    });
+
+    it('should award when the expression is met on its trigger event', async () => {
+      service = new BadgeService(repository, [expressionBadge]);
+      service.setCriteriaDataSource(dataSource([90, 88], today));
+
+      expect(await service.checkAndAwardBadges(USER_ID, 'voice_entries')).toEqual([]);
+      const results = await service.checkAndAwardBadges(USER_ID, 'diary_entries');
+
+      expect(results.map((r) => r.badge!.id)).toContain('restriction_efficient');
+    });
+
+    it('should not award when any part is unmet', async () => {
+      service = new BadgeService(repository, [expressionBadge]);
+      service.setCriteriaDataSource(dataSource([90, 88], null));
+
+      const results = await service.checkAndAwardBadges(USER_ID, 'diary_entries');
+
+      expect(results.map((r) => r.badge!.id)).not.toContain('restriction_efficient');
+    });
+
+    it('should see no diary data without a data source', async () => {
+      service = new BadgeService(repository, [expressionBadge]);
+
+      const results = await service.checkAndAwardBadges(USER_ID, 'diary_entries');
+
+      expect(results.map((r) => r.badge!.id)).not.toContain('restriction_efficient');
+    });
+
+    it('should report expression progress as a percentage', async () => {
+      service = new BadgeService(repository, [expressionBadge]);
+      service.setCriteriaDataSource(dataSource([90, 60], today));
+
+      const progress = (await service.getUserProgress(USER_ID)).find((p) => p.badge.id === 'restriction_efficient');
+
+      // Restriction met (1) + 1 of 2 nights (0.5), averaged
+      expect(progress).toMatchObject({ progress: 75, target: 100, percentage: 75 });
+    });
+  });
+
+  describe('persistence', () => {
+    it('should keep badges and metrics across service instances', async () => {
+      for (let i = 0; i < 49; i++) {
+        await service.updateMetric(USER_ID, 'diary_entries');
+      }
+      await service.awardBadge(USER_ID, 'first_voice');
+
+      const restarted = new BadgeService(repository);
+      const results = await restarted.checkAndAwardBadges(USER_ID, 'diary_entries');
+
+      expect(results.map((r) => r.badge!.id)).toContain('diary_50');
+      expect(await restarted.hasBadge(USER_ID, 'first_voice')).toBe(true);
+    });
+
+    it('should list badges in the order they were earned', async () => {
+      await service.awardBadge(USER_ID, 'first_voice');
+      await service.awardBadge(USER_ID, 'first_diary');
+
+      const badges = await new BadgeService(repository).getUserBadges(USER_ID);
+
+      expect(badges.map((b) => b.badgeId)).toEqual(['first_voice', 'first_diary']);
+      expect(badges.map((b) => b.displayOrder)).toEqual([0, 1]);
+    });
+  });
 });
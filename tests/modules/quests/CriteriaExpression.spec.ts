@@ -0,0 +1,266 @@
+/**
+ * CriteriaExpression Unit Tests
+ * =============================
+ *
+ * Tests for the declarative badge and quest criteria language.
+ */
+
+import {
+  evaluateCriteria,
+  evaluateNightCondition,
+  getDiaryWindowDays,
+  getReferencedQuestIds,
+  CriteriaExpressionSchema,
+  type ICriteriaContext,
+  type ICriteriaExpression,
+  type ICriteriaNight,
+} from '../../../src/modules/quests/CriteriaExpression';
+
+const TODAY = '2026-03-14';
+
+function night(date: string, overrides: Partial<ICriteriaNight> = {}): ICriteriaNight {
+  return {
+    date,
+    bedtime: '23:00',
+    lightsOffTime: '23:15',
+    wakeTime: '07:00',
+    outOfBedTime: '07:15',
+    sleepOnsetLatency: 20,
+    wakeAfterSleepOnset: 30,
+    nightAwakenings: 1,
+    totalSleepTime: 420,
+    timeInBed: 495,
+    sleepEfficiency: 85,
+    sleepQuality: 4,
+    morningMood: 4,
+    ...overrides,
+  };
+}
+
+function context(overrides: Partial<ICriteriaContext> = {}): ICriteriaContext {
+  return {
+    today: TODAY,
+    timeZone: 'Europe/Moscow',
+    nights: [],
+    metrics: new Map(),
+    completedQuestIds: [],
+    sleepRestrictionStart: null,
+    ...overrides,
+  };
+}
+
+/**
+ * Nights for the 7 days ending today with the given sleep efficiencies (oldest first)
+ */
+function week(efficiencies: number[]): ICriteriaNight[] {
+  return efficiencies.map((se, i) => night(`2026-03-${String(8 + i).padStart(2, '0')}`, { sleepEfficiency: se }));
+}
+
+describe('CriteriaExpression', () => {
+  describe('nights', () => {
+    const seOnFiveOfSeven: ICriteriaExpression = {
+      nights: { field: 'sleepEfficiency', op: '>=', value: 85 },
+      window: { days: 7 },
+      atLeast: 5,
+    };
+
+    it('should be met when enough nights satisfy the condition', () => {
+      const result = evaluateCriteria(seOnFiveOfSeven, context({ nights: week([90, 86, 70, 85, 60, 88, 91]) }));
+      expect(result).toEqual({ met: true, progress: 1 });
+    });
+
+    it('should report partial progress', () => {
+      const result = evaluateCriteria(seOnFiveOfSeven, context({ nights: week([90, 86, 70, 80, 60, 88, 75]) }));
+      expect(result.met).toBe(false);
+      expect(result.progress).toBeCloseTo(3 / 5);
+    });
+
+    it('should ignore nights outside the window', () => {
+      const nights = [
+        night('2026-03-07', { sleepEfficiency: 95 }),
+        night('2026-03-15', { sleepEfficiency: 95 }),
+        ...week([90, 90, 90, 90, 60, 60, 60]),
+      ];
+      expect(evaluateCriteria(seOnFiveOfSeven, context({ nights })).met).toBe(false);
+    });
+
+    it('should count the latest entry per date once', () => {
+      const nights = [
+        night(TODAY, { sleepEfficiency: 60 }),
+        night(TODAY, { sleepEfficiency: 90 }),
+      ];
+      const result = evaluateCriteria(
+        { nights: { field: 'sleepEfficiency', op: '>=', value: 85 }, window: { days: 7 }, atLeast: 2 },
+        context({ nights })
+      );
+      expect(result.progress).toBeCloseTo(1 / 2);
+    });
+
+    it('should require every day of the window by default', () => {
+      const expression: ICriteriaExpression = {
+        nights: { field: 'sleepEfficiency', op: '>=', value: 85 },
+        window: { days: 7 },
+      };
+      expect(evaluateCriteria(expression, context({ nights: week([90, 90, 90, 90, 90, 90, 90]) })).met).toBe(true);
+      expect(evaluateCriteria(expression, context({ nights: week([90, 90, 90, 90, 90, 90]) })).met).toBe(false);
+    });
+
+    it('should count the longest run when consecutive', () => {
+      const expression: ICriteriaExpression = {
+        nights: { field: 'sleepEfficiency', op: '>=', value: 85 },
+        window: { days: 7 },
+        atLeast: 4,
+        consecutive: true,
+      };
+      const result = evaluateCriteria(expression, context({ nights: week([90, 90, 90, 60, 90, 90, 60]) }));
+      expect(result.met).toBe(false);
+      expect(result.progress).toBeCloseTo(3 / 4);
+    });
+  });
+
+  describe('night conditions', () => {
+    it('should compare local time of day for loggedAt', () => {
+      // 06:30 UTC is 09:30 in Moscow
+      const entry = night(TODAY, { createdAt: new Date('2026-03-14T06:30:00Z') });
+
+      expect(evaluateNightCondition({ time: 'loggedAt', before: '10:00' }, entry, context())).toBe(true);
+      expect(
+        evaluateNightCondition({ time: 'loggedAt', before: '10:00' }, entry, context({ timeZone: 'Asia/Vladivostok' }))
+      ).toBe(false);
+    });
+
+    it('should not match loggedAt without a recorded time', () => {
+      expect(evaluateNightCondition({ time: 'loggedAt', before: '10:00' }, night(TODAY), context())).toBe(false);
+    });
+
+    it('should wrap time ranges across midnight', () => {
+      const lateNight = { time: 'bedtime' as const, after: '22:00', before: '01:00' };
+
+      expect(evaluateNightCondition(lateNight, night(TODAY, { bedtime: '23:30' }), context())).toBe(true);
+      expect(evaluateNightCondition(lateNight, night(TODAY, { bedtime: '00:30' }), context())).toBe(true);
+      expect(evaluateNightCondition(lateNight, night(TODAY, { bedtime: '02:00' }), context())).toBe(false);
+    });
+
+    it('should match nights on or after the start of sleep restriction', () => {
+      const ctx = context({ sleepRestrictionStart: '2026-03-10' });
+
+      expect(evaluateNightCondition({ sleepRestriction: true }, night('2026-03-09'), ctx)).toBe(false);
+      expect(evaluateNightCondition({ sleepRestriction: true }, night('2026-03-10'), ctx)).toBe(true);
+      expect(evaluateNightCondition({ sleepRestriction: false }, night('2026-03-09'), ctx)).toBe(true);
+    });
+
+    it('should compose conditions', () => {
+      const condition = {
+        all: [
+          { field: 'sleepEfficiency' as const, op: '>=' as const, value: 85 },
+          { not: { any: [{ field: 'nightAwakenings' as const, op: '>' as const, value: 2 }] } },
+        ],
+      };
+
+      expect(evaluateNightCondition(condition, night(TODAY), context())).toBe(true);
+      expect(evaluateNightCondition(condition, night(TODAY, { nightAwakenings: 3 }), context())).toBe(false);
+    });
+  });
+
+  describe('average', () => {
+    const averageSE: ICriteriaExpression = {
+      average: 'sleepEfficiency',
+      window: { days: 7 },
+      op: '>=',
+      value: 85,
+      minNights: 3,
+    };
+
+    it('should compare the window average', () => {
+      expect(evaluateCriteria(averageSE, context({ nights: week([80, 90, 85]) })).met).toBe(true);
+      const result = evaluateCriteria(averageSE, context({ nights: week([70, 70, 70]) }));
+      expect(result.met).toBe(false);
+      expect(result.progress).toBeCloseTo(70 / 85);
+    });
+
+    it('should not be met with too few nights', () => {
+      expect(evaluateCriteria(averageSE, context({ nights: week([95, 95]) }))).toEqual({ met: false, progress: 0 });
+    });
+  });
+
+  describe('gamification data', () => {
+    const ctx = context({
+      metrics: new Map([['diary_entries', { count: 10, bestStreak: 4 }]]),
+      completedQuestIds: ['diary_streak_7'],
+      sleepRestrictionStart: '2026-03-01',
+    });
+
+    it('should compare counters and best streaks', () => {
+      expect(evaluateCriteria({ counter: 'diary_entries', op: '>=', value: 10 }, ctx).met).toBe(true);
+      expect(evaluateCriteria({ bestStreak: 'diary_entries', op: '>=', value: 8 }, ctx)).toEqual({
+        met: false,
+        progress: 0.5,
+      });
+      expect(evaluateCriteria({ counter: 'voice_entries', op: '>=', value: 1 }, ctx).met).toBe(false);
+    });
+
+    it('should check completed quests and sleep restriction', () => {
+      expect(evaluateCriteria({ questCompleted: 'diary_streak_7' }, ctx).met).toBe(true);
+      expect(evaluateCriteria({ questCompleted: 'voice_diary_5' }, ctx).met).toBe(false);
+      expect(evaluateCriteria({ sleepRestriction: true }, ctx).met).toBe(true);
+      expect(evaluateCriteria({ sleepRestriction: true }, context()).met).toBe(false);
+    });
+
+    it('should average progress for all and take the best for any', () => {
+      const parts: ICriteriaExpression[] = [
+        { counter: 'diary_entries', op: '>=', value: 20 },
+        { questCompleted: 'diary_streak_7' },
+      ];
+
+      expect(evaluateCriteria({ all: parts }, ctx)).toEqual({ met: false, progress: 0.75 });
+      expect(evaluateCriteria({ any: parts }, ctx)).toEqual({ met: true, progress: 1 });
+      expect(evaluateCriteria({ not: parts[0] }, ctx).met).toBe(true);
+    });
+  });
+
+  describe('helpers', () => {
+    const expression: ICriteriaExpression = {
+      all: [
+        { nights: { sleepRestriction: true }, window: { days: 14 } },
+        { any: [{ average: 'sleepQuality', window: { days: 30 }, op: '>=', value: 4 }, { questCompleted: 'a' }] },
+        { not: { questCompleted: 'b' } },
+      ],
+    };
+
+    it('should find the largest diary window', () => {
+      expect(getDiaryWindowDays(expression)).toBe(30);
+      expect(getDiaryWindowDays({ counter: 'diary_entries', op: '>=', value: 1 })).toBe(0);
+    });
+
+    it('should list referenced quests', () => {
+      expect(getReferencedQuestIds(expression)).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('schema', () => {
+    it('should accept valid expressions', () => {
+      const result = CriteriaExpressionSchema.safeParse({
+        all: [
+          {
+            nights: { all: [{ time: 'loggedAt', before: '10:00' }, { sleepRestriction: true }] },
+            window: { days: 14 },
+          },
+          { counter: 'diary_entries', op: '>=', value: 14 },
+        ],
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it.each([
+      ['unknown metric', { nights: { field: 'steps', op: '>=', value: 1 }, window: { days: 7 } }],
+      ['unknown operator', { counter: 'diary_entries', op: '=>', value: 1 }],
+      ['invalid time', { nights: { time: 'bedtime', before: '25:00' }, window: { days: 7 } }],
+      ['time without bounds', { nights: { time: 'bedtime' }, window: { days: 7 } }],
+      ['atLeast beyond window', { nights: { sleepRestriction: true }, window: { days: 7 }, atLeast: 8 }],
+      ['empty composition', { all: [] }],
+      ['extra keys', { questCompleted: 'a', window: { days: 7 } }],
+    ])('should reject %s', (_name, expression) => {
+      expect(CriteriaExpressionSchema.safeParse(expression).success).toBe(false);
+    });
+  });
+});
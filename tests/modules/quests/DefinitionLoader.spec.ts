@@ -0,0 +1,192 @@
+/**
+ * DefinitionLoader Unit Tests
+ * ===========================
+ *
+ * Tests for loading and validating JSON badge and quest definitions.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  loadGamificationDefinitions,
+  parseGamificationDefinitions,
+  resolveDefinitionsDir,
+  DefinitionValidationError,
+  DEFAULT_DEFINITIONS_DIR,
+  DEFINITIONS_DIR_ENV,
+} from '../../../src/modules/quests/DefinitionLoader';
+
+const badge = (overrides: Record<string, unknown> = {}) => ({
+  id: 'se_week',
+  name: 'Эффективный сон',
+  description: 'SE 85% и выше в 5 из 7 ночей',
+  icon: '🎯',
+  category: 'achievement',
+  rarity: 'rare',
+  criteria: {
+    type: 'expression',
+    metric: 'diary_entries',
+    expression: {
+      nights: { field: 'sleepEfficiency', op: '>=', value: 85 },
+      window: { days: 7 },
+      atLeast: 5,
+    },
+  },
+  reward: { xp: 50 },
+  ...overrides,
+});
+
+const quest = (overrides: Record<string, unknown> = {}) => ({
+  id: 'morning_diary',
+  title: 'Утренний дневник',
+  description: 'Заполняй дневник до 10:00',
+  icon: '☀️',
+  category: 'diary',
+  difficulty: 'medium',
+  durationDays: 14,
+  progressType: 'criteria',
+  targetMetric: 'diary_entries',
+  targetValue: 7,
+  reward: { xp: 100, badge: 'se_week' },
+  criteria: {
+    nights: { time: 'loggedAt', before: '10:00' },
+    window: { days: 14 },
+    atLeast: 7,
+  },
+  ...overrides,
+});
+
+function expectIssues(files: Record<string, unknown>): string[] {
+  try {
+    parseGamificationDefinitions(files);
+  } catch (error) {
+    expect(error).toBeInstanceOf(DefinitionValidationError);
+    return (error as DefinitionValidationError).getFormattedErrors();
+  }
+  throw new Error('Expected DefinitionValidationError');
+}
+
+describe('DefinitionLoader', () => {
+  describe('parseGamificationDefinitions', () => {
+    it('should return badges and quests from all files', () => {
+      const definitions = parseGamificationDefinitions({
+        'a.json': { badges: [badge()] },
+        'b.json': { quests: [quest()] },
+      });
+
+      expect(definitions.badges.map((b) => b.id)).toEqual(['se_week']);
+      expect(definitions.quests.map((q) => q.id)).toEqual(['morning_diary']);
+      expect(definitions.quests[0].criteria).toEqual(quest().criteria);
+    });
+
+    it('should report schema errors with file and path', () => {
+      const issues = expectIssues({
+        'bad.json': { badges: [badge({ rarity: 'mythic' })] },
+      });
+
+      expect(issues).toHaveLength(1);
+      expect(issues[0]).toMatch(/^bad\.json: badges\.0\.rarity: /);
+    });
+
+    it('should require expressions exactly for expression badges and criteria quests', () => {
+      const issues = expectIssues({
+        'a.json': {
+          badges: [badge({ criteria: { type: 'expression', metric: 'diary_entries' } })],
+          quests: [quest({ progressType: 'streak' })],
+        },
+      });
+
+      expect(issues).toHaveLength(2);
+      expect(issues.join('\n')).toContain('"expression" is required');
+      expect(issues.join('\n')).toContain('"criteria" is required');
+    });
+
+    it('should reject duplicate IDs across files and built-in definitions', () => {
+      const issues = expectIssues({
+        'a.json': { badges: [badge()] },
+        'b.json': { badges: [badge()], quests: [quest({ id: 'diary_streak_7' })] },
+      });
+
+      expect(issues).toEqual([
+        'b.json: badges.0.id: Duplicate badge ID "se_week"',
+        'b.json: quests.0.id: Duplicate quest ID "diary_streak_7"',
+      ]);
+    });
+
+    it('should reject unknown quest and badge references', () => {
+      const issues = expectIssues({
+        'a.json': {
+          badges: [
+            badge({
+              criteria: { type: 'expression', expression: { questCompleted: 'missing_quest' } },
+            }),
+          ],
+          quests: [quest({ reward: { xp: 10, badge: 'missing_badge' } })],
+        },
+      });
+
+      expect(issues).toEqual([
+        'a.json: badge se_week: Unknown quest "missing_quest"',
+        'a.json: quest morning_diary: Unknown reward badge "missing_badge"',
+      ]);
+    });
+
+    it('should accept references to built-in definitions', () => {
+      const definitions = parseGamificationDefinitions({
+        'a.json': {
+          badges: [badge({ criteria: { type: 'expression', expression: { questCompleted: 'diary_streak_7' } } })],
+          quests: [quest({ reward: { xp: 10, badge: 'streak_7' } })],
+        },
+      });
+
+      expect(definitions.badges).toHaveLength(1);
+      expect(definitions.quests).toHaveLength(1);
+    });
+  });
+
+  describe('loadGamificationDefinitions', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sleepcore-definitions-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should load the bundled definitions', () => {
+      const definitions = loadGamificationDefinitions();
+
+      expect(definitions.badges.map((b) => b.id)).toContain('efficient_sleep_week');
+      expect(definitions.quests.map((q) => q.id)).toContain('restriction_morning_diary_14d');
+    });
+
+    it('should load JSON files from a directory', () => {
+      fs.writeFileSync(path.join(dir, 'badges.json'), JSON.stringify({ badges: [badge()] }));
+      fs.writeFileSync(path.join(dir, 'README.md'), '# not a definition');
+
+      const definitions = loadGamificationDefinitions(dir);
+
+      expect(definitions.badges.map((b) => b.id)).toEqual(['se_week']);
+      expect(definitions.quests).toEqual([]);
+    });
+
+    it('should fail for a missing directory', () => {
+      expect(() => loadGamificationDefinitions(path.join(dir, 'missing'))).toThrow(DefinitionValidationError);
+    });
+
+    it('should use the directory configured in the environment', () => {
+      expect(resolveDefinitionsDir({ [DEFINITIONS_DIR_ENV]: dir })).toBe(path.resolve(dir));
+      expect(resolveDefinitionsDir({ [DEFINITIONS_DIR_ENV]: ' ' })).toBe(DEFAULT_DEFINITIONS_DIR);
+      expect(resolveDefinitionsDir({})).toBe(DEFAULT_DEFINITIONS_DIR);
+    });
+
+    it('should reject invalid JSON', () => {
+      fs.writeFileSync(path.join(dir, 'broken.json'), '{ "badges": [');
+
+      expect(() => loadGamificationDefinitions(dir)).toThrow(DefinitionValidationError);
+    });
+  });
+});
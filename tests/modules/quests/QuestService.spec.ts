@@ -6,12 +6,48 @@
  */
 
 import { QuestService, DEFAULT_QUESTS, IQuest } from '../../../src/modules/quests/QuestService';
+import { SQLiteConnection } from '../../../src/infrastructure/database/sqlite/SQLiteConnection';
+import { SQLiteMigration } from '../../../src/infrastructure/database/sqlite/SQLiteMigration';
+import { MIGRATIONS } from '../../../src/infrastructure/database/migrations';
+import { GamificationRepository } from '../../../src/infrastructure/database/repositories/GamificationRepository';
+import type { ICriteriaDataSource } from '../../../src/modules/quests/CriteriaDataSource';
+import type { ICriteriaNight } from '../../../src/modules/quests/CriteriaExpression';
+
+const USER_ID = 1;
 
 describe('QuestService', () => {
+  let db: SQLiteConnection;
+  let repository: GamificationRepository;
   let service: QuestService;
 
-  beforeEach(() => {
-    service = new QuestService();
+  beforeAll(async () => {
+    db = new SQLiteConnection({
+      type: 'sqlite',
+      connectionString: ':memory:',
+      verbose: false,
+    });
+    await db.connect();
+
+    const migration = new SQLiteMigration(db);
+    await migration.initialize();
+    await migration.migrate([...MIGRATIONS]);
+
+    await db.execute(
+      `INSERT INTO users (id, external_id, first_name, created_at, updated_at)
+       VALUES (?, '123', 'Test', datetime('now'), datetime('now'))`,
+      [USER_ID]
+    );
+    repository = new GamificationRepository(db);
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  beforeEach(async () => {
+    await db.execute('DELETE FROM user_quests');
+    await db.execute('DELETE FROM gamification_metrics');
+    service = new QuestService(repository);
   });
 
   describe('constructor', () => {
@@ -36,114 +72,114 @@ describe('QuestService', () => {
         reward: { xp: 50 },
       };
 
-      const serviceWithCustom = new QuestService([customQuest]);
+      const serviceWithCustom = new QuestService(repository, [customQuest]);
       expect(serviceWithCustom.getQuest('custom_quest')).toBeDefined();
       expect(serviceWithCustom.getAllQuests().length).toBe(DEFAULT_QUESTS.length + 1);
     });
   });
 
   describe('getAvailableQuests', () => {
-    it('should return available quests for new user', () => {
-      const available = service.getAvailableQuests('user123');
+    it('should return available quests for new user', async () => {
+      const available = await service.getAvailableQuests(USER_ID);
       expect(available.length).toBeLessThanOrEqual(5);
       expect(available.length).toBeGreaterThan(0);
     });
 
-    it('should exclude active quests', () => {
-      service.startQuest('user123', 'diary_streak_7');
-      const available = service.getAvailableQuests('user123');
+    it('should exclude active quests', async () => {
+      await service.startQuest(USER_ID, 'diary_streak_7');
+      const available = await service.getAvailableQuests(USER_ID);
       expect(available.find((q) => q.id === 'diary_streak_7')).toBeUndefined();
     });
 
-    it('should exclude completed quests', () => {
+    it('should exclude completed quests', async () => {
       // Start and complete a quest
-      service.startQuest('user123', 'diary_streak_7');
+      await service.startQuest(USER_ID, 'diary_streak_7');
       for (let i = 0; i < 7; i++) {
-        service.updateProgress('user123', 'diary_entries');
+        await service.updateProgress(USER_ID, 'diary_entries');
       }
 
-      const available = service.getAvailableQuests('user123');
+      const available = await service.getAvailableQuests(USER_ID);
       expect(available.find((q) => q.id === 'diary_streak_7')).toBeUndefined();
     });
   });
 
   describe('startQuest', () => {
-    it('should start a quest successfully', () => {
-      const activeQuest = service.startQuest('user123', 'diary_streak_7');
+    it('should start a quest successfully', async () => {
+      const activeQuest = await service.startQuest(USER_ID, 'diary_streak_7');
 
       expect(activeQuest).toBeDefined();
       expect(activeQuest!.questId).toBe('diary_streak_7');
-      expect(activeQuest!.userId).toBe('user123');
+      expect(activeQuest!.userId).toBe(USER_ID);
       expect(activeQuest!.status).toBe('active');
       expect(activeQuest!.progress.currentValue).toBe(0);
     });
 
-    it('should return null for non-existent quest', () => {
-      const result = service.startQuest('user123', 'non_existent');
+    it('should return null for non-existent quest', async () => {
+      const result = await service.startQuest(USER_ID, 'non_existent');
       expect(result).toBeNull();
     });
 
-    it('should prevent starting same quest twice', () => {
-      service.startQuest('user123', 'diary_streak_7');
-      const second = service.startQuest('user123', 'diary_streak_7');
+    it('should prevent starting same quest twice', async () => {
+      await service.startQuest(USER_ID, 'diary_streak_7');
+      const second = await service.startQuest(USER_ID, 'diary_streak_7');
       expect(second).toBeNull();
     });
 
-    it('should limit active quests to 3', () => {
-      service.startQuest('user123', 'diary_streak_7');
-      service.startQuest('user123', 'digital_detox_3d');
-      service.startQuest('user123', 'voice_diary_5');
+    it('should limit active quests to 3', async () => {
+      await service.startQuest(USER_ID, 'diary_streak_7');
+      await service.startQuest(USER_ID, 'digital_detox_3d');
+      await service.startQuest(USER_ID, 'voice_diary_5');
 
-      const fourth = service.startQuest('user123', 'sleep_7h_5d');
+      const fourth = await service.startQuest(USER_ID, 'sleep_7h_5d');
       expect(fourth).toBeNull();
     });
 
-    it('should prevent starting completed quest', () => {
+    it('should prevent starting completed quest', async () => {
       // Complete a quest first
-      service.startQuest('user123', 'diary_streak_7');
+      await service.startQuest(USER_ID, 'diary_streak_7');
       for (let i = 0; i < 7; i++) {
-        service.updateProgress('user123', 'diary_entries');
+        await service.updateProgress(USER_ID, 'diary_entries');
       }
 
-      const restart = service.startQuest('user123', 'diary_streak_7');
+      const restart = await service.startQuest(USER_ID, 'diary_streak_7');
       expect(restart).toBeNull();
     });
   });
 
   describe('updateProgress', () => {
-    it('should update streak progress', () => {
-      service.startQuest('user123', 'diary_streak_7');
+    it('should update streak progress', async () => {
+      await service.startQuest(USER_ID, 'diary_streak_7');
 
       // Day 1
-      service.updateProgress('user123', 'diary_entries');
-      const active = service.getActiveQuests('user123')[0];
+      await service.updateProgress(USER_ID, 'diary_entries');
+      const active = (await service.getActiveQuests(USER_ID))[0];
       expect(active.progress.currentValue).toBe(1);
       expect(active.progress.consecutiveDays).toBe(1);
     });
 
-    it('should update cumulative progress', () => {
-      service.startQuest('user123', 'voice_diary_5');
+    it('should update cumulative progress', async () => {
+      await service.startQuest(USER_ID, 'voice_diary_5');
 
-      service.updateProgress('user123', 'voice_entries');
-      service.updateProgress('user123', 'voice_entries');
+      await service.updateProgress(USER_ID, 'voice_entries');
+      await service.updateProgress(USER_ID, 'voice_entries');
 
-      const active = service.getActiveQuests('user123')[0];
+      const active = (await service.getActiveQuests(USER_ID))[0];
       expect(active.progress.currentValue).toBe(2);
     });
 
-    it('should not update for different metric', () => {
-      service.startQuest('user123', 'diary_streak_7');
-      service.updateProgress('user123', 'wrong_metric');
+    it('should not update for different metric', async () => {
+      await service.startQuest(USER_ID, 'diary_streak_7');
+      await service.updateProgress(USER_ID, 'wrong_metric');
 
-      const active = service.getActiveQuests('user123')[0];
+      const active = (await service.getActiveQuests(USER_ID))[0];
       expect(active.progress.currentValue).toBe(0);
     });
 
-    it('should complete quest when target reached', () => {
-      service.startQuest('user123', 'voice_diary_5');
+    it('should complete quest when target reached', async () => {
+      await service.startQuest(USER_ID, 'voice_diary_5');
 
       for (let i = 0; i < 5; i++) {
-        const results = service.updateProgress('user123', 'voice_entries');
+        const results = await service.updateProgress(USER_ID, 'voice_entries');
         if (i === 4) {
           expect(results.length).toBe(1);
           expect(results[0].completed).toBe(true);
@@ -153,16 +189,16 @@ describe('QuestService', () => {
       }
 
       // Should be in completed list
-      const completed = service.getCompletedQuestIds('user123');
+      const completed = await service.getCompletedQuestIds(USER_ID);
       expect(completed).toContain('voice_diary_5');
     });
 
-    it('should return celebration message on completion', () => {
-      service.startQuest('user123', 'voice_diary_5');
+    it('should return celebration message on completion', async () => {
+      await service.startQuest(USER_ID, 'voice_diary_5');
 
       let lastResult;
       for (let i = 0; i < 5; i++) {
-        const results = service.updateProgress('user123', 'voice_entries');
+        const results = await service.updateProgress(USER_ID, 'voice_entries');
         if (results.length > 0) lastResult = results[0];
       }
 
@@ -172,41 +208,40 @@ describe('QuestService', () => {
   });
 
   describe('streak progress', () => {
-    it('should not count multiple updates on same day', () => {
-      service.startQuest('user123', 'diary_streak_7');
+    it('should not count multiple updates on same day', async () => {
+      await service.startQuest(USER_ID, 'diary_streak_7');
 
-      service.updateProgress('user123', 'diary_entries');
-      service.updateProgress('user123', 'diary_entries');
-      service.updateProgress('user123', 'diary_entries');
+      await service.updateProgress(USER_ID, 'diary_entries');
+      await service.updateProgress(USER_ID, 'diary_entries');
+      await service.updateProgress(USER_ID, 'diary_entries');
 
-      const active = service.getActiveQuests('user123')[0];
+      const active = (await service.getActiveQuests(USER_ID))[0];
       expect(active.progress.currentValue).toBe(1); // Still just 1
     });
   });
 
   describe('getProgressPercentage', () => {
-    it('should calculate progress percentage', () => {
-      service.startQuest('user123', 'voice_diary_5');
-      service.updateProgress('user123', 'voice_entries');
-      service.updateProgress('user123', 'voice_entries');
+    it('should calculate progress percentage', async () => {
+      await service.startQuest(USER_ID, 'voice_diary_5');
+      await service.updateProgress(USER_ID, 'voice_entries');
+      await service.updateProgress(USER_ID, 'voice_entries');
 
-      const active = service.getActiveQuests('user123')[0];
+      const active = (await service.getActiveQuests(USER_ID))[0];
       const percentage = service.getProgressPercentage(active);
       expect(percentage).toBe(40); // 2/5 = 40%
     });
 
-    it('should cap at 100%', () => {
-      service.startQuest('user123', 'voice_diary_5');
+    it('should cap at 100%', async () => {
+      await service.startQuest(USER_ID, 'voice_diary_5');
       for (let i = 0; i < 10; i++) {
-        service.updateProgress('user123', 'voice_entries');
+        await service.updateProgress(USER_ID, 'voice_entries');
       }
 
       // Quest is completed and removed, but if we could check...
       // This test verifies the cap logic exists
       const activeQuest = {
         id: 'test',
-        odzyskuestId: 'test',
-        userId: 'user123',
+        userId: USER_ID,
         questId: 'test',
         startedAt: new Date(),
         expiresAt: new Date(),
@@ -226,8 +261,8 @@ describe('QuestService', () => {
   });
 
   describe('getDaysRemaining', () => {
-    it('should calculate days remaining', () => {
-      const activeQuest = service.startQuest('user123', 'diary_streak_7')!;
+    it('should calculate days remaining', async () => {
+      const activeQuest = (await service.startQuest(USER_ID, 'diary_streak_7'))!;
       const remaining = service.getDaysRemaining(activeQuest);
 
       // Should be close to 7 days (might be 6 depending on timing)
@@ -238,8 +273,7 @@ describe('QuestService', () => {
     it('should return 0 for expired quest', () => {
       const expiredQuest = {
         id: 'test',
-        odzyskuestId: 'test',
-        userId: 'user123',
+        userId: USER_ID,
         questId: 'test',
         startedAt: new Date(Date.now() - 10 * 24 * 60 * 60 * 1000),
         expiresAt: new Date(Date.now() - 1000),
@@ -270,12 +304,12 @@ describe('QuestService', () => {
       expect(message).toContain('75 XP');
     });
 
-    it('should include progress for active quest', () => {
-      const activeQuest = service.startQuest('user123', 'diary_streak_7')!;
-      service.updateProgress('user123', 'diary_entries');
+    it('should include progress for active quest', async () => {
+      const activeQuest = (await service.startQuest(USER_ID, 'diary_streak_7'))!;
+      await service.updateProgress(USER_ID, 'diary_entries');
 
       const quest = service.getQuest('diary_streak_7')!;
-      const updatedActive = service.getActiveQuests('user123')[0];
+      const updatedActive = (await service.getActiveQuests(USER_ID))[0];
       const message = service.formatQuestMessage(quest, updatedActive);
 
       expect(message).toContain('Прогресс');
@@ -284,24 +318,129 @@ describe('QuestService', () => {
   });
 
   describe('GDPR compliance', () => {
-    it('should clear user data', () => {
-      service.startQuest('user123', 'diary_streak_7');
-      service.updateProgress('user123', 'diary_entries');
+    it('should have no quests after repository deletion', async () => {
+      await service.startQuest(USER_ID, 'diary_streak_7');
+      await service.updateProgress(USER_ID, 'diary_entries');
 
-      service.clearUserData('user123');
+      await repository.deleteUserData(USER_ID);
 
-      expect(service.getActiveQuests('user123')).toHaveLength(0);
-      expect(service.getCompletedQuestIds('user123')).toHaveLength(0);
+      expect(await service.getActiveQuests(USER_ID)).toHaveLength(0);
+      expect(await service.getCompletedQuestIds(USER_ID)).toHaveLength(0);
     });
 
-    it('should export user data', () => {
-      service.startQuest('user123', 'diary_streak_7');
-      service.updateProgress('user123', 'diary_entries');
+    it('should export user data', async () => {
+      await service.startQuest(USER_ID, 'diary_streak_7');
+      await service.updateProgress(USER_ID, 'diary_entries');
 
-      const exported = service.exportUserData('user123');
+      const exported = await service.exportUserData(USER_ID);
 
       expect(exported.activeQuests.length).toBeGreaterThan(0);
       expect(Array.isArray(exported.completedQuestIds)).toBe(true);
     });
   });
+
+  describe('criteria quests', () => {
+    const today = new Date().toISOString().split('T')[0];
+    const yesterday = new Date(Date.now() - 86400000).toISOString().split('T')[0];
+
+    const criteriaQuest: IQuest = {
+      id: 'efficient_nights',
+      title: 'Эффективные ночи',
+      description: 'SE 85% и выше две ночи',
+      icon: '🎯',
+      category: 'sleep',
+      difficulty: 'medium',
+      durationDays: 7,
+      progressType: 'criteria',
+      targetMetric: 'diary_entries',
+      targetValue: 2,
+      reward: { xp: 50 },
+      criteria: {
+        nights: { field: 'sleepEfficiency', op: '>=', value: 85 },
+        window: { days: 7 },
+        atLeast: 2,
+      },
+    };
+
+    const night = (date: string, sleepEfficiency: number) =>
+      ({ date, sleepEfficiency }) as ICriteriaNight;
+
+    const dataSource = (nights: ICriteriaNight[]): ICriteriaDataSource => ({
+      getTimezone: async () => 'UTC',
+      getNights: async () => nights,
+      getSleepRestrictionStart: async () => null,
+    });
+
+    it('should scale criteria progress to the target value', async () => {
+      service = new QuestService(repository, [criteriaQuest]);
+      service.setCriteriaDataSource(dataSource([night(today, 90)]));
+      await service.startQuest(USER_ID, 'efficient_nights');
+
+      const results = await service.updateProgress(USER_ID, 'diary_entries');
+
+      expect(results).toHaveLength(0);
+      expect((await service.getActiveQuests(USER_ID))[0].progress.currentValue).toBe(1);
+    });
+
+    it('should not count nights before the quest started', async () => {
+      service = new QuestService(repository, [criteriaQuest]);
+      service.setCriteriaDataSource(dataSource([night(yesterday, 90), night(today, 90)]));
+      await service.startQuest(USER_ID, 'efficient_nights');
+
+      await service.updateProgress(USER_ID, 'diary_entries');
+
+      expect((await service.getActiveQuests(USER_ID))[0].progress.currentValue).toBe(1);
+    });
+
+    it('should complete when the criteria are met', async () => {
+      service = new QuestService(repository, [
+        { ...criteriaQuest, criteria: { counter: 'diary_entries', op: '>=', value: 3 } },
+      ]);
+      await repository.incrementMetric(USER_ID, 'diary_entries', 3);
+      await service.startQuest(USER_ID, 'efficient_nights');
+
+      const results = await service.updateProgress(USER_ID, 'diary_entries');
+
+      expect(results.map((r) => r.quest.id)).toEqual(['efficient_nights']);
+    });
+  });
+
+  describe('persistence', () => {
+    it('should keep progress and completions across service instances', async () => {
+      await service.startQuest(USER_ID, 'voice_diary_5');
+      await service.startQuest(USER_ID, 'diary_streak_7');
+      for (let i = 0; i < 5; i++) {
+        await service.updateProgress(USER_ID, 'voice_entries');
+      }
+      await service.updateProgress(USER_ID, 'diary_entries');
+
+      const restarted = new QuestService(repository);
+      const [active] = await restarted.getActiveQuests(USER_ID);
+
+      expect(active.questId).toBe('diary_streak_7');
+      expect(active.progress.currentValue).toBe(1);
+      expect(active.progress.history).toHaveLength(1);
+      expect(await restarted.getCompletedQuestIds(USER_ID)).toEqual(['voice_diary_5']);
+    });
+
+    it('should expire quests past their deadline', async () => {
+      await service.startQuest(USER_ID, 'voice_diary_5');
+      await repository.updateQuestProgress(USER_ID, 'voice_diary_5', {
+        currentValue: 2,
+        targetValue: 5,
+        consecutiveDays: 0,
+        lastUpdateDate: '',
+        history: [],
+        expiresAt: new Date(Date.now() - 1000).toISOString(),
+      });
+
+      expect(await service.getActiveQuests(USER_ID)).toHaveLength(0);
+      expect((await repository.getUserQuest(USER_ID, 'voice_diary_5'))?.status).toBe('expired');
+
+      // Expired quests can be restarted with fresh progress
+      const restarted = await service.startQuest(USER_ID, 'voice_diary_5');
+      expect(restarted?.progress.currentValue).toBe(0);
+      expect((await service.getActiveQuests(USER_ID))[0].progress.currentValue).toBe(0);
+    });
+  });
 });
@@ -0,0 +1,326 @@
+/**
+ * WearableImportService Unit Tests
+ * ================================
+ *
+ * Tests for wearable import persistence, export.zip / streamed XML
+ * input and diary reconciliation.
+ * Uses in-memory SQLite for isolation.
+ */
+
+import { deflateRawSync } from 'zlib';
+import {
+  WearableImportService,
+  reconcileNight,
+} from '../../../src/modules/wearables/WearableImportService';
+import { WearableSleepRepository } from '../../../src/infrastructure/database/repositories/WearableSleepRepository';
+import { SleepDiaryRepository } from '../../../src/infrastructure/database/repositories/SleepDiaryRepository';
+import { SQLiteConnection } from '../../../src/infrastructure/database/sqlite/SQLiteConnection';
+import { SQLiteMigration } from '../../../src/infrastructure/database/sqlite/SQLiteMigration';
+import { MIGRATIONS } from '../../../src/infrastructure/database/migrations';
+import type { ISleepDiaryEntryEntity } from '../../../src/infrastructure/database/interfaces/IRepository';
+import type { IWearableSleepData } from '../../../src/sleep/interfaces/ISleepState';
+
+const USER_ID = '12345';
+
+const CSV = [
+  'date,bedtime,wake_time,total_sleep_time,source',
+  '2025-01-15,23:00,07:00,420,garmin',
+  '2025-01-16,23:30,07:00,400,garmin',
+].join('\n');
+
+const APPLE_XML = [
+  '<?xml version="1.0" encoding="UTF-8"?>',
+  '<HealthData locale="ru_RU">',
+  ' <Record type="HKCategoryTypeIdentifierSleepAnalysis" sourceName="Apple Watch" ' +
+    'value="HKCategoryValueSleepAnalysisAsleepCore" startDate="2025-01-14 23:30:00 +0300" endDate="2025-01-15 06:30:00 +0300"/>',
+  '</HealthData>',
+].join('\n');
+
+/**
+ * Build a ZIP archive with deflated entries (local headers, central directory, end record)
+ */
+function buildZip(files: Record<string, string>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBytes = Buffer.from(name);
+    const data = deflateRawSync(Buffer.from(content));
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(Buffer.byteLength(content), 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(Buffer.byteLength(content), 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, nameBytes, data);
+    centrals.push(central, nameBytes);
+    offset += local.length + nameBytes.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, directory, end]);
+}
+
+/**
+ * Async chunks as delivered by a download
+ */
+async function* chunksOf(data: Buffer, size: number): AsyncGenerator<Uint8Array> {
+  for (let i = 0; i < data.length; i += size) {
+    yield data.subarray(i, i + size);
+  }
+}
+
+function diaryEntry(date: string, totalSleepTime: number): Omit<ISleepDiaryEntryEntity, 'id' | 'createdAt' | 'updatedAt'> {
+  return {
+    userId: USER_ID,
+    date,
+    bedtime: '23:00',
+    lightsOffTime: '23:10',
+    sleepOnsetLatency: 40,
+    wakeTime: '07:00',
+    outOfBedTime: '07:15',
+    nightAwakenings: 2,
+    wakeAfterSleepOnset: 60,
+    totalSleepTime,
+    timeInBed: 480,
+    sleepEfficiency: Math.round((totalSleepTime / 480) * 100),
+    sleepQuality: 2,
+    morningMood: 3,
+    deletedAt: null,
+  };
+}
+
+describe('WearableImportService', () => {
+  let db: SQLiteConnection;
+  let repository: WearableSleepRepository;
+  let diaryRepository: SleepDiaryRepository;
+  let service: WearableImportService;
+  const importedAt = new Date('2025-01-17T09:00:00Z');
+
+  beforeAll(async () => {
+    db = new SQLiteConnection({
+      type: 'sqlite',
+      connectionString: ':memory:',
+      verbose: false,
+    });
+    await db.connect();
+
+    const migration = new SQLiteMigration(db);
+    await migration.initialize();
+    await migration.migrate([...MIGRATIONS]);
+
+    await db.execute(
+      `INSERT INTO users (id, external_id, first_name, created_at, updated_at)
+       VALUES (?, ?, ?, datetime('now'), datetime('now'))`,
+      [1, USER_ID, 'TestUser']
+    );
+
+    repository = new WearableSleepRepository(db);
+    diaryRepository = new SleepDiaryRepository(db);
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  beforeEach(async () => {
+    await db.execute('DELETE FROM wearable_sleep_records');
+    await db.execute('DELETE FROM sleep_diary_entries');
+    service = new WearableImportService({ repository, diaryRepository, now: () => importedAt });
+  });
+
+  describe('isSupportedFile', () => {
+    it('should accept supported extensions within the size limit', () => {
+      expect(service.isSupportedFile('export.xml', 1024)).toBe(true);
+      expect(service.isSupportedFile('Sleep.JSON')).toBe(true);
+      expect(service.isSupportedFile('sleep.csv', 21 * 1024 * 1024)).toBe(false);
+      expect(service.isSupportedFile('export.zip', 1024)).toBe(true);
+      expect(service.isSupportedFile('export.zip', 21 * 1024 * 1024)).toBe(false);
+      expect(service.isSupportedFile('export.rar', 1024)).toBe(false);
+      expect(service.isSupportedFile(undefined)).toBe(false);
+    });
+  });
+
+  describe('importFile', () => {
+    it('should persist imported nights', async () => {
+      const result = await service.importFile(USER_ID, 'sleep.csv', CSV);
+
+      expect(result.success).toBe(true);
+      expect(result.format).toBe('csv');
+      expect(result.nights).toHaveLength(2);
+
+      const stored = await repository.findByUserAndDateRange(USER_ID, '2025-01-01', '2025-01-31');
+      expect(stored).toHaveLength(2);
+      expect(stored[0]).toMatchObject({
+        date: '2025-01-15',
+        source: 'garmin',
+        importFormat: 'csv',
+        totalSleepTime: 420,
+        bedtime: '23:00',
+        wakeTime: '07:00',
+      });
+      expect(stored[0].importedAt.toISOString()).toBe(importedAt.toISOString());
+    });
+
+    it('should update nights on re-import instead of duplicating', async () => {
+      await service.importFile(USER_ID, 'sleep.csv', CSV);
+      await service.importFile(USER_ID, 'sleep.csv', CSV.replace('420,garmin', '430,garmin'));
+
+      const stored = await repository.findByUserAndDateRange(USER_ID, '2025-01-15', '2025-01-15');
+      expect(stored).toHaveLength(1);
+      expect(stored[0].totalSleepTime).toBe(430);
+    });
+
+    it('should fail on unrecognized files without persisting', async () => {
+      const result = await service.importFile(USER_ID, 'notes.json', '{"steps": 1}');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Формат файла не распознан');
+      expect(await repository.findByUserAndDateRange(USER_ID, '2000-01-01', '2100-01-01')).toHaveLength(0);
+    });
+
+    it('should fail when the file cannot be parsed', async () => {
+      const result = await service.importFile(USER_ID, 'sleep.csv', 'date,steps\n2025-01-15,100');
+
+      expect(result.success).toBe(false);
+      expect(result.format).toBe('csv');
+      expect(result.error).toBe('Не удалось прочитать файл');
+    });
+
+    it('should work without repositories', async () => {
+      const result = await new WearableImportService().importFile(USER_ID, 'sleep.csv', CSV);
+
+      expect(result.success).toBe(true);
+      expect(result.reconciliation).toHaveLength(0);
+      expect(result.nightsWithoutDiary).toEqual(['2025-01-15', '2025-01-16']);
+    });
+  });
+
+  describe('importDocument', () => {
+    it('should unpack Apple Health export.zip', async () => {
+      const archive = buildZip({
+        'apple_health_export/export_cda.xml': '<ClinicalDocument/>',
+        'apple_health_export/export.xml': APPLE_XML,
+      });
+
+      const result = await service.importDocument(USER_ID, 'export.zip', chunksOf(archive, 64));
+
+      expect(result.success).toBe(true);
+      expect(result.format).toBe('apple_health_xml');
+      expect(result.nights).toHaveLength(1);
+      expect(result.nights[0]).toMatchObject({ date: '2025-01-15', totalSleepTime: 420 });
+      const stored = await repository.findByUserAndDateRange(USER_ID, '2025-01-15', '2025-01-15');
+      expect(stored[0].importFormat).toBe('apple_health_xml');
+    });
+
+    it('should parse XML split at arbitrary byte boundaries', async () => {
+      const xml = Buffer.from(APPLE_XML.replace('Apple Watch', 'Часы'));
+
+      const result = await service.importDocument(USER_ID, 'export.xml', chunksOf(xml, 5));
+
+      expect(result.success).toBe(true);
+      expect(result.nights[0].totalSleepTime).toBe(420);
+    });
+
+    it('should explain archives without an Apple Health export', async () => {
+      const missing = await service.importDocument(
+        USER_ID, 'export.zip', chunksOf(buildZip({ 'notes.txt': 'hello' }), 1024)
+      );
+      expect(missing.error).toBe('В архиве нет export.xml из Apple Health');
+
+      const corrupted = await service.importDocument(USER_ID, 'export.zip', chunksOf(Buffer.from('not a zip'), 1024));
+      expect(corrupted.success).toBe(false);
+      expect(corrupted.error).toBe('Не удалось прочитать архив');
+    });
+
+    it('should read JSON and CSV documents whole', async () => {
+      const result = await service.importDocument(USER_ID, 'sleep.csv', chunksOf(Buffer.from(CSV), 10));
+
+      expect(result.success).toBe(true);
+      expect(result.format).toBe('csv');
+      expect(result.nights).toHaveLength(2);
+    });
+  });
+
+  describe('reconciliation', () => {
+    it('should compare nights with diary entries for the same date', async () => {
+      await diaryRepository.upsert(diaryEntry('2025-01-15', 330));
+
+      const result = await service.importFile(USER_ID, 'sleep.csv', CSV);
+
+      expect(result.reconciliation).toHaveLength(1);
+      expect(result.reconciliation[0]).toMatchObject({
+        date: '2025-01-15',
+        source: 'garmin',
+        diaryTotalSleepTime: 330,
+        deviceTotalSleepTime: 420,
+        totalSleepDifference: -90,
+        agreement: 'underestimated',
+      });
+      expect(result.nightsWithoutDiary).toEqual(['2025-01-16']);
+    });
+
+    it('should explain misperception in the reply', async () => {
+      await diaryRepository.upsert(diaryEntry('2025-01-15', 330));
+      await diaryRepository.upsert(diaryEntry('2025-01-16', 310));
+
+      const result = await service.importFile(USER_ID, 'sleep.csv', CSV);
+      const message = service.formatImportMessage(result);
+
+      expect(message).toContain('Ночей: *2*');
+      expect(message).toContain('меньше, чем по устройству');
+      expect(message).not.toContain('/diary');
+    });
+
+    it('should suggest filling the diary for unmatched nights', async () => {
+      const result = await service.importFile(USER_ID, 'sleep.csv', CSV);
+
+      expect(service.formatImportMessage(result)).toContain('заполни /diary');
+    });
+  });
+
+  describe('reconcileNight', () => {
+    const night: IWearableSleepData = {
+      userId: USER_ID,
+      date: '2025-01-15',
+      source: 'oura',
+      bedtime: '00:10',
+      wakeTime: '06:50',
+      totalSleepTime: 360,
+      sleepEfficiency: 90,
+    };
+
+    it('should wrap clock differences across midnight', () => {
+      const result = reconcileNight({ ...diaryEntry('2025-01-15', 350), id: 1 }, night);
+
+      expect(result.bedtimeDifference).toBe(-70);
+      expect(result.wakeTimeDifference).toBe(10);
+      expect(result.agreement).toBe('consistent');
+    });
+
+    it('should flag diary reports above the device', () => {
+      const result = reconcileNight({ ...diaryEntry('2025-01-15', 440), id: 1 }, night);
+
+      expect(result.totalSleepDifference).toBe(80);
+      expect(result.agreement).toBe('overestimated');
+    });
+  });
+});
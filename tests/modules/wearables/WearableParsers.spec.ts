@@ -0,0 +1,301 @@
+/**
+ * WearableParsers Unit Tests
+ * ==========================
+ *
+ * Tests for format detection and normalization of wearable exports
+ * (Apple Health, Fitbit, Oura, generic CSV) into IWearableSleepData.
+ */
+
+import {
+  AppleHealthSleepReader,
+  detectWearableFormat,
+  parseAppleHealthXml,
+  parseFitbitJson,
+  parseOuraJson,
+  parseSleepCsv,
+  parseWearableExport,
+} from '../../../src/modules/wearables/WearableParsers';
+
+const USER_ID = 'user-1';
+
+function appleRecord(source: string, value: string, start: string, end: string): string {
+  return `<Record type="HKCategoryTypeIdentifierSleepAnalysis" sourceName="${source}" ` +
+    `value="HKCategoryValueSleepAnalysis${value}" startDate="${start} +0300" endDate="${end} +0300"/>`;
+}
+
+const APPLE_XML = [
+  '<?xml version="1.0" encoding="UTF-8"?>',
+  '<HealthData locale="ru_RU">',
+  ' <Record type="HKQuantityTypeIdentifierStepCount" sourceName="iPhone" value="120" startDate="2025-01-14 10:00:00 +0300" endDate="2025-01-14 10:05:00 +0300"/>',
+  appleRecord('Apple Watch', 'InBed', '2025-01-14 23:00:00', '2025-01-15 07:00:00'),
+  appleRecord('Apple Watch', 'AsleepCore', '2025-01-14 23:20:00', '2025-01-15 01:00:00'),
+  appleRecord('Apple Watch', 'AsleepDeep', '2025-01-15 01:00:00', '2025-01-15 02:00:00'),
+  appleRecord('Apple Watch', 'AsleepREM', '2025-01-15 02:00:00', '2025-01-15 02:30:00'),
+  appleRecord('Apple Watch', 'Awake', '2025-01-15 02:30:00', '2025-01-15 02:50:00'),
+  appleRecord('Apple Watch', 'AsleepCore', '2025-01-15 02:50:00', '2025-01-15 05:30:00'),
+  appleRecord('Apple Watch', 'AsleepREM', '2025-01-15 05:30:00', '2025-01-15 06:40:00'),
+  appleRecord('iPhone', 'Asleep', '2025-01-15 00:00:00', '2025-01-15 03:00:00'),
+  appleRecord('Apple Watch', 'AsleepCore', '2025-01-15 14:00:00', '2025-01-15 14:40:00'),
+  '</HealthData>',
+].join('\n');
+
+const FITBIT_JSON = JSON.stringify([
+  {
+    logId: 1,
+    dateOfSleep: '2025-01-15',
+    startTime: '2025-01-14T23:10:00.000',
+    endTime: '2025-01-15T07:00:00.000',
+    minutesAsleep: 410,
+    timeInBed: 470,
+    type: 'stages',
+    mainSleep: true,
+    levels: {
+      summary: {
+        deep: { minutes: 70 },
+        light: { minutes: 240 },
+        rem: { minutes: 100 },
+        wake: { minutes: 60 },
+      },
+      data: [
+        { level: 'light', seconds: 1800 },
+        { level: 'rem', seconds: 1200 },
+        { level: 'deep', seconds: 1800 },
+        { level: 'rem', seconds: 1500 },
+      ],
+    },
+  },
+  {
+    logId: 2,
+    dateOfSleep: '2025-01-15',
+    startTime: '2025-01-15T15:00:00.000',
+    endTime: '2025-01-15T15:50:00.000',
+    minutesAsleep: 45,
+    timeInBed: 50,
+    type: 'classic',
+    mainSleep: false,
+  },
+  { logId: 3, dateOfSleep: '2025-01-16' },
+]);
+
+const OURA_JSON = JSON.stringify({
+  data: [
+    {
+      day: '2025-01-15',
+      type: 'long_sleep',
+      bedtime_start: '2025-01-14T23:30:00+03:00',
+      bedtime_end: '2025-01-15T07:30:00+03:00',
+      total_sleep_duration: 25200,
+      time_in_bed: 28800,
+      deep_sleep_duration: 5400,
+      light_sleep_duration: 14400,
+      rem_sleep_duration: 5400,
+      awake_time: 3600,
+      average_heart_rate: 54.4,
+      average_hrv: 48.6,
+      average_breath: 14.25,
+    },
+    {
+      day: '2025-01-15',
+      type: 'late_nap',
+      bedtime_start: '2025-01-15T16:00:00+03:00',
+      bedtime_end: '2025-01-15T16:30:00+03:00',
+      total_sleep_duration: 1500,
+    },
+  ],
+});
+
+describe('detectWearableFormat', () => {
+  it('should detect Apple Health export by sleep records', () => {
+    expect(detectWearableFormat('export.xml', APPLE_XML)).toBe('apple_health_xml');
+  });
+
+  it('should reject XML without sleep records', () => {
+    expect(detectWearableFormat('export.xml', '<HealthData></HealthData>')).toBeNull();
+  });
+
+  it('should detect Fitbit and Oura JSON by their fields', () => {
+    expect(detectWearableFormat('sleep-2025-01-01.json', FITBIT_JSON)).toBe('fitbit_json');
+    expect(detectWearableFormat('oura.json', OURA_JSON)).toBe('oura_json');
+  });
+
+  it('should detect CSV by extension', () => {
+    expect(detectWearableFormat('sleep.CSV', 'date,bedtime')).toBe('csv');
+  });
+
+  it('should return null for unknown JSON', () => {
+    expect(detectWearableFormat('data.json', '{"steps": 100}')).toBeNull();
+  });
+});
+
+describe('parseAppleHealthXml', () => {
+  it('should pick the main session of the source with the most sleep', () => {
+    const result = parseAppleHealthXml(APPLE_XML, USER_ID);
+
+    expect(result.nights).toHaveLength(1);
+    const night = result.nights[0];
+    expect(night.userId).toBe(USER_ID);
+    expect(night.source).toBe('apple_health');
+    expect(night.date).toBe('2025-01-15');
+    expect(night.bedtime).toBe('23:00');
+    expect(night.wakeTime).toBe('07:00');
+    // 100 core + 60 deep + 30 REM + 160 core + 70 REM
+    expect(night.totalSleepTime).toBe(420);
+    expect(night.sleepEfficiency).toBe(88);
+  });
+
+  it('should map Apple stages to sleep architecture', () => {
+    const night = parseAppleHealthXml(APPLE_XML, USER_ID).nights[0];
+
+    expect(night.stages).toBeDefined();
+    expect(night.stages!.deepSleepMinutes).toBe(60);
+    expect(night.stages!.remSleepMinutes).toBe(100);
+    expect(night.stages!.cyclesCompleted).toBe(2);
+    expect(night.stages!.stageDistribution.N1).toBe(0);
+  });
+
+  it('should count unreadable records as skipped', () => {
+    const xml = APPLE_XML.replace('</HealthData>',
+      `${appleRecord('Apple Watch', 'AsleepCore', '2025-01-20 02:00:00', '2025-01-20 01:00:00')}\n</HealthData>`);
+
+    const result = parseAppleHealthXml(xml, USER_ID);
+
+    expect(result.skipped).toBe(1);
+    expect(result.errors[0]).toContain('Apple Health');
+  });
+});
+
+describe('AppleHealthSleepReader', () => {
+  it('should give the same nights when tags are split across chunks', () => {
+    const reader = new AppleHealthSleepReader(USER_ID);
+    for (let i = 0; i < APPLE_XML.length; i += 7) {
+      reader.write(APPLE_XML.slice(i, i + 7));
+    }
+
+    expect(reader.finish()).toEqual(parseAppleHealthXml(APPLE_XML, USER_ID));
+  });
+
+  it('should join a record tag split between writes', () => {
+    const reader = new AppleHealthSleepReader(USER_ID);
+    reader.write(APPLE_XML.replace('</HealthData>', '<Rec'));
+    reader.write('ord type="HKCategoryTypeIdentifierSleepAnalysis" value="bogus"/></HealthData>');
+
+    const result = reader.finish();
+    expect(result.nights).toHaveLength(1);
+    expect(result.skipped).toBe(1);
+  });
+});
+
+describe('parseFitbitJson', () => {
+  it('should keep the main sleep per date', () => {
+    const result = parseFitbitJson(FITBIT_JSON, USER_ID);
+
+    expect(result.nights).toHaveLength(1);
+    const night = result.nights[0];
+    expect(night.source).toBe('fitbit');
+    expect(night.date).toBe('2025-01-15');
+    expect(night.totalSleepTime).toBe(410);
+    expect(night.bedtime).toBe('23:10');
+    expect(night.wakeTime).toBe('07:00');
+  });
+
+  it('should use time in bed for efficiency and REM episodes for cycles', () => {
+    const night = parseFitbitJson(FITBIT_JSON, USER_ID).nights[0];
+
+    expect(night.sleepEfficiency).toBe(87);
+    expect(night.stages!.deepSleepMinutes).toBe(70);
+    expect(night.stages!.cyclesCompleted).toBe(2);
+  });
+
+  it('should skip incomplete logs', () => {
+    const result = parseFitbitJson(FITBIT_JSON, USER_ID);
+
+    expect(result.skipped).toBe(1);
+  });
+
+  it('should accept the Web API envelope', () => {
+    const result = parseFitbitJson(JSON.stringify({ sleep: JSON.parse(FITBIT_JSON) }), USER_ID);
+
+    expect(result.nights).toHaveLength(1);
+  });
+});
+
+describe('parseOuraJson', () => {
+  it('should convert seconds to minutes and keep the long sleep', () => {
+    const result = parseOuraJson(OURA_JSON, USER_ID);
+
+    expect(result.nights).toHaveLength(1);
+    const night = result.nights[0];
+    expect(night.source).toBe('oura');
+    expect(night.date).toBe('2025-01-15');
+    expect(night.totalSleepTime).toBe(420);
+    expect(night.sleepEfficiency).toBe(88);
+    expect(night.stages!.deepSleepMinutes).toBe(90);
+  });
+
+  it('should include physiological measures', () => {
+    const night = parseOuraJson(OURA_JSON, USER_ID).nights[0];
+
+    expect(night.heartRateAvg).toBe(54.4);
+    expect(night.hrvAvg).toBe(48.6);
+    expect(night.respiratoryRate).toBe(14.3);
+  });
+});
+
+describe('parseSleepCsv', () => {
+  it('should parse time-only rows against the wake date', () => {
+    const csv = [
+      'date,bedtime,wake_time,total_sleep_time',
+      '2025-01-15,23:30,07:00,390',
+      '2025-01-16,00:30,07:30,360',
+    ].join('\n');
+
+    const result = parseSleepCsv(csv, USER_ID);
+
+    expect(result.nights).toHaveLength(2);
+    expect(result.nights[0]).toMatchObject({
+      date: '2025-01-15',
+      source: 'other',
+      bedtime: '23:30',
+      wakeTime: '07:00',
+      totalSleepTime: 390,
+      sleepEfficiency: 87,
+    });
+    expect(result.nights[1].date).toBe('2025-01-16');
+  });
+
+  it('should accept semicolons, decimal commas, BOM and a source column', () => {
+    const csv = '\uFEFFDate;Sleep Start;Sleep End;TST;Efficiency;Device\n' +
+      '2025-01-15;2025-01-14 23:00;2025-01-15 07:00;400;83,3;garmin\n';
+
+    const night = parseSleepCsv(csv, USER_ID).nights[0];
+
+    expect(night.source).toBe('garmin');
+    expect(night.totalSleepTime).toBe(400);
+    expect(night.sleepEfficiency).toBe(83);
+  });
+
+  it('should skip invalid rows', () => {
+    const csv = [
+      'date,bedtime,wake_time,total_sleep_time',
+      '2025-01-15,23:30,07:00,390',
+      '2025-01-16,late,07:30,360',
+    ].join('\n');
+
+    const result = parseSleepCsv(csv, USER_ID);
+
+    expect(result.nights).toHaveLength(1);
+    expect(result.skipped).toBe(1);
+    expect(result.errors[0]).toContain('row 3');
+  });
+
+  it('should throw when required columns are missing', () => {
+    expect(() => parseSleepCsv('date,steps\n2025-01-15,1000', USER_ID)).toThrow('required');
+  });
+});
+
+describe('parseWearableExport', () => {
+  it('should dispatch by format', () => {
+    expect(parseWearableExport('oura_json', OURA_JSON, USER_ID).format).toBe('oura_json');
+    expect(parseWearableExport('fitbit_json', FITBIT_JSON, USER_ID).format).toBe('fitbit_json');
+  });
+});
@@ -209,23 +209,23 @@ describe('SleepCoreAPI', () => {
 
   describe('Sleep Diary', () => {
     describe('addDiaryEntry()', () => {
-      it('should add entry and return metrics', () => {
+      it('should add entry and return metrics', async () => {
         const entry = createDiaryEntry();
-        const metrics = api.addDiaryEntry(entry);
+        const metrics = await api.addDiaryEntry(entry);
 
         expect(metrics).toBeDefined();
         expect(metrics.sleepEfficiency).toBeGreaterThan(0);
         expect(metrics.totalSleepTime).toBeGreaterThan(0);
       });
 
-      it('should calculate correct sleep efficiency', () => {
+      it('should calculate correct sleep efficiency', async () => {
         const entry = createDiaryEntry({
           bedtime: '23:00',
           wakeTime: '07:00',
           sleepOnsetLatency: 30,
           numberOfAwakenings: 2,
         });
-        const metrics = api.addDiaryEntry(entry);
+        const metrics = await api.addDiaryEntry(entry);
 
         expect(metrics.sleepEfficiency).toBeGreaterThan(0);
         expect(metrics.sleepEfficiency).toBeLessThanOrEqual(100);
@@ -233,14 +233,14 @@ describe('SleepCoreAPI', () => {
     });
 
     describe('estimateISI()', () => {
-      it('should estimate ISI from diary data', () => {
+      it('should estimate ISI from diary data', async () => {
         api.startSession('user-123');
         // Add multiple entries for meaningful estimation
         for (let i = 0; i < 7; i++) {
-          api.addDiaryEntry(createDiaryEntry({ userId: 'user-123' }));
+          await api.addDiaryEntry(createDiaryEntry({ userId: 'user-123' }));
         }
 
-        const isi = api.estimateISI('user-123');
+        const isi = await api.estimateISI('user-123');
 
         expect(typeof isi).toBe('number');
         // ISI can be -1 if insufficient data, or 0-28 if calculated
@@ -248,11 +248,11 @@ describe('SleepCoreAPI', () => {
         expect(isi).toBeLessThanOrEqual(28);
       });
 
-      it('should return -1 for insufficient data', () => {
+      it('should return -1 for insufficient data', async () => {
         api.startSession('user-123');
-        api.addDiaryEntry(createDiaryEntry({ userId: 'user-123' }));
+        await api.addDiaryEntry(createDiaryEntry({ userId: 'user-123' }));
 
-        const isi = api.estimateISI('user-123');
+        const isi = await api.estimateISI('user-123');
 
         // With insufficient data, may return -1
         expect(typeof isi).toBe('number');
@@ -293,20 +293,20 @@ describe('SleepCoreAPI', () => {
     });
 
     describe('processDailyCheckIn()', () => {
-      it('should require active treatment plan', () => {
+      it('should require active treatment plan', async () => {
         api.startSession('user-123');
         const checkIn = createDailyCheckIn({ userId: 'user-123' });
 
-        expect(() => api.processDailyCheckIn(checkIn))
-          .toThrow('No active treatment plan for user');
+        await expect(api.processDailyCheckIn(checkIn))
+          .rejects.toThrow('No active treatment plan for user');
       });
 
-      it('should return intervention result with plan', () => {
+      it('should return intervention result with plan', async () => {
         api.startSession('user-123');
         api.initializeTreatment('user-123', createBaselineData('user-123', 7));
 
         const checkIn = createDailyCheckIn({ userId: 'user-123' });
-        const result = api.processDailyCheckIn(checkIn);
+        const result = await api.processDailyCheckIn(checkIn);
 
         expect(result.intervention).toBeDefined();
         expect(result.confidence).toBeGreaterThanOrEqual(0);
@@ -324,10 +324,10 @@ describe('SleepCoreAPI', () => {
         expect(intervention).toBeNull();
       });
 
-      it('should return intervention with active plan and states', () => {
+      it('should return intervention with active plan and states', async () => {
         api.startSession('user-123');
         api.initializeTreatment('user-123', createBaselineData('user-123', 7));
-        api.processDailyCheckIn(createDailyCheckIn({ userId: 'user-123' }));
+        await api.processDailyCheckIn(createDailyCheckIn({ userId: 'user-123' }));
 
         const intervention = api.getNextIntervention('user-123');
 
@@ -344,13 +344,13 @@ describe('SleepCoreAPI', () => {
         expect(updated).toBeNull();
       });
 
-      it('should update plan with sufficient recent states', () => {
+      it('should update plan with sufficient recent states', async () => {
         api.startSession('user-123');
         api.initializeTreatment('user-123', createBaselineData('user-123', 7));
 
         // Add 5 daily check-ins
         for (let i = 0; i < 5; i++) {
-          api.processDailyCheckIn(createDailyCheckIn({ userId: 'user-123' }));
+          await api.processDailyCheckIn(createDailyCheckIn({ userId: 'user-123' }));
         }
 
         const updated = api.updateTreatmentPlan('user-123');
@@ -359,6 +359,69 @@ describe('SleepCoreAPI', () => {
       });
     });
 
+    describe('sleep window history', () => {
+      const createRepository = () => ({
+        record: jest.fn().mockResolvedValue(null),
+      });
+
+      it('should record the initial window when treatment starts', () => {
+        const repository = createRepository();
+        api.setSleepWindowRepository(repository as never);
+        api.startSession('user-123');
+
+        const plan = api.initializeTreatment('user-123', createBaselineData('user-123', 7));
+        const window = plan.activeComponents.sleepRestriction!;
+
+        expect(repository.record).toHaveBeenCalledWith('user-123', expect.objectContaining({
+          bedtime: window.prescribedBedtime,
+          wakeTime: window.prescribedWakeTime,
+          timeInBed: window.prescribedTIB,
+          adjustment: 'initial',
+          observedEfficiency: plan.progress.sleepEfficiencyBaseline,
+        }));
+      });
+
+      it('should record the adjustment direction on re-evaluation', async () => {
+        const repository = createRepository();
+        api.setSleepWindowRepository(repository as never);
+        api.startSession('user-123');
+        const plan = api.initializeTreatment('user-123', createBaselineData('user-123', 7));
+
+        for (let i = 0; i < 5; i++) {
+          await api.processDailyCheckIn(createDailyCheckIn({ userId: 'user-123' }));
+        }
+        const updated = api.updateTreatmentPlan('user-123')!;
+
+        const before = plan.activeComponents.sleepRestriction!;
+        const after = updated.activeComponents.sleepRestriction!;
+        const expected = after.prescribedTIB > before.prescribedTIB
+          ? 'increase'
+          : after.prescribedTIB < before.prescribedTIB ? 'decrease' : 'maintain';
+
+        expect(repository.record).toHaveBeenCalledTimes(2);
+        expect(repository.record).toHaveBeenLastCalledWith('user-123', expect.objectContaining({
+          week: after.currentWeek,
+          timeInBed: after.prescribedTIB,
+          adjustment: expected,
+          observedEfficiency: updated.progress.sleepEfficiencyCurrent,
+        }));
+      });
+
+      it('should not fail treatment when recording fails', async () => {
+        const repository = { record: jest.fn().mockRejectedValue(new Error('db down')) };
+        const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+        api.setSleepWindowRepository(repository as never);
+        api.startSession('user-123');
+
+        expect(() => api.initializeTreatment('user-123', createBaselineData('user-123', 7)))
+          .not.toThrow();
+        await new Promise((resolve) => setImmediate(resolve));
+
+        expect(consoleSpy).toHaveBeenCalled();
+        consoleSpy.mockRestore();
+      });
+    });
+
     describe('assessResponse()', () => {
       it('should return null without plan', () => {
         api.startSession('user-123');
@@ -445,12 +508,12 @@ describe('SleepCoreAPI', () => {
         expect(trend).toEqual([]);
       });
 
-      it('should return efficiency values with states', () => {
+      it('should return efficiency values with states', async () => {
         api.startSession('user-123');
         api.initializeTreatment('user-123', createBaselineData('user-123', 7));
 
         for (let i = 0; i < 3; i++) {
-          api.processDailyCheckIn(createDailyCheckIn({ userId: 'user-123' }));
+          await api.processDailyCheckIn(createDailyCheckIn({ userId: 'user-123' }));
         }
 
         const trend = api.getSleepEfficiencyTrend('user-123', 3);
@@ -471,10 +534,10 @@ describe('SleepCoreAPI', () => {
         expect(recommendation).toBeNull();
       });
 
-      it('should return recommendation with states', () => {
+      it('should return recommendation with states', async () => {
         api.startSession('user-123');
         api.initializeTreatment('user-123', createBaselineData('user-123', 7));
-        api.processDailyCheckIn(createDailyCheckIn({ userId: 'user-123' }));
+        await api.processDailyCheckIn(createDailyCheckIn({ userId: 'user-123' }));
 
         const recommendation = api.recommendThirdWaveApproach('user-123');
 
@@ -482,10 +545,10 @@ describe('SleepCoreAPI', () => {
         expect(recommendation!.recommendedApproach).toBeDefined();
       });
 
-      it('should consider treatment history', () => {
+      it('should consider treatment history', async () => {
         api.startSession('user-123');
         api.initializeTreatment('user-123', createBaselineData('user-123', 7));
-        api.processDailyCheckIn(createDailyCheckIn({ userId: 'user-123' }));
+        await api.processDailyCheckIn(createDailyCheckIn({ userId: 'user-123' }));
 
         const recommendation = api.recommendThirdWaveApproach('user-123', {
           failedCBTI: true,
@@ -820,10 +883,10 @@ describe('SleepCoreAPI', () => {
         expect(assessment).toBeNull();
       });
 
-      it('should assess TCM profile with states', () => {
+      it('should assess TCM profile with states', async () => {
         api.startSession('user-123');
         api.initializeTreatment('user-123', createBaselineData('user-123', 7));
-        api.processDailyCheckIn(createDailyCheckIn({ userId: 'user-123' }));
+        await api.processDailyCheckIn(createDailyCheckIn({ userId: 'user-123' }));
 
         const assessment = api.assessTCMProfile('user-123');
 
@@ -862,10 +925,10 @@ describe('SleepCoreAPI', () => {
         expect(assessment).toBeNull();
       });
 
-      it('should assess Ayurvedic profile with states', () => {
+      it('should assess Ayurvedic profile with states', async () => {
         api.startSession('user-123');
         api.initializeTreatment('user-123', createBaselineData('user-123', 7));
-        api.processDailyCheckIn(createDailyCheckIn({ userId: 'user-123' }));
+        await api.processDailyCheckIn(createDailyCheckIn({ userId: 'user-123' }));
 
         const assessment = api.assessAyurvedicProfile('user-123');
 
@@ -1015,10 +1078,10 @@ describe('SleepCoreAPI', () => {
         expect(recommendation!.personalizationFactors.some(f => f.includes('Хронотип'))).toBe(true);
       });
 
-      it('should include TCM adaptations when assessed', () => {
+      it('should include TCM adaptations when assessed', async () => {
         api.startSession('user-123');
         api.initializeTreatment('user-123', createBaselineData('user-123', 7));
-        api.processDailyCheckIn(createDailyCheckIn({ userId: 'user-123' }));
+        await api.processDailyCheckIn(createDailyCheckIn({ userId: 'user-123' }));
         api.assessTCMProfile('user-123');
 
         const recommendation = api.getIntegratedRecommendation('user-123');
@@ -1027,10 +1090,10 @@ describe('SleepCoreAPI', () => {
         expect(recommendation!.culturalAdaptations.some(a => a.includes('ТКМ'))).toBe(true);
       });
 
-      it('should include Ayurvedic adaptations when assessed', () => {
+      it('should include Ayurvedic adaptations when assessed', async () => {
         api.startSession('user-123');
         api.initializeTreatment('user-123', createBaselineData('user-123', 7));
-        api.processDailyCheckIn(createDailyCheckIn({ userId: 'user-123' }));
+        await api.processDailyCheckIn(createDailyCheckIn({ userId: 'user-123' }));
         api.assessAyurvedicProfile('user-123');
 
         const recommendation = api.getIntegratedRecommendation('user-123');
@@ -0,0 +1,229 @@
+/**
+ * QuestionnaireEngine Unit Tests
+ * Tests generic scoring of PSQI, ESS, DBAS-16, PHQ-9 and GAD-7
+ */
+
+import {
+  QuestionnaireEngine,
+  questionnaireEngine,
+  QUESTIONNAIRES,
+} from '../../../src/assessment/engines/QuestionnaireEngine';
+import type { QuestionnaireId } from '../../../src/assessment/interfaces/IQuestionnaire';
+
+/**
+ * Build responses with the same value for every item
+ */
+function uniformResponses(id: QuestionnaireId, value: number): Record<string, number> {
+  const definition = questionnaireEngine.getDefinition(id);
+  return Object.fromEntries(definition.items.map((item) => [item.id, value]));
+}
+
+/**
+ * PSQI responses for a good sleeper: 23:00-07:00, 10 min latency, 7.5 h sleep
+ */
+function goodSleeperPSQI(): Record<string, number> {
+  return {
+    q1: 1380, q2: 10, q3: 420, q4: 7.5,
+    q5a: 0, q5b: 0, q5c: 0, q5d: 0, q5e: 0, q5f: 0, q5g: 0, q5h: 0, q5i: 0, q5j: 0,
+    q6: 0, q7: 0, q8: 0, q9: 0,
+  };
+}
+
+describe('QuestionnaireEngine', () => {
+  describe('registry', () => {
+    it('should register all shipped instruments', () => {
+      expect(questionnaireEngine.list().map((q) => q.id)).toEqual(['psqi', 'ess', 'dbas', 'phq9', 'gad7']);
+    });
+
+    it('should expose item counts of the validated versions', () => {
+      const counts = Object.fromEntries(QUESTIONNAIRES.map((q) => [q.id, q.items.length]));
+      expect(counts).toEqual({ psqi: 18, ess: 8, dbas: 16, phq9: 9, gad7: 7 });
+    });
+
+    it('should have unique item IDs within each instrument', () => {
+      for (const definition of QUESTIONNAIRES) {
+        const ids = definition.items.map((item) => item.id);
+        expect(new Set(ids).size).toBe(ids.length);
+      }
+    });
+
+    it('should report unknown instruments', () => {
+      expect(questionnaireEngine.has('meq')).toBe(false);
+      expect(() => questionnaireEngine.getDefinition('meq' as QuestionnaireId)).toThrow('Unknown questionnaire');
+    });
+
+    it('should accept a custom set of definitions', () => {
+      const engine = new QuestionnaireEngine(QUESTIONNAIRES.filter((q) => q.id === 'ess'));
+      expect(engine.list()).toHaveLength(1);
+      expect(engine.has('phq9')).toBe(false);
+    });
+  });
+
+  describe('validation', () => {
+    it('should reject missing responses', () => {
+      const responses = uniformResponses('phq9', 1);
+      delete responses.q5;
+      expect(() => questionnaireEngine.score('phq9', responses)).toThrow('missing response for q5');
+    });
+
+    it('should reject values outside item options', () => {
+      const responses = { ...uniformResponses('gad7', 0), q1: 4 };
+      expect(() => questionnaireEngine.score('gad7', responses)).toThrow('invalid response 4 for q1');
+    });
+  });
+
+  describe('PHQ-9', () => {
+    it('should sum item scores', () => {
+      const result = questionnaireEngine.score('phq9', { ...uniformResponses('phq9', 2), q9: 0 });
+      expect(result.totalScore).toBe(16);
+      expect(result.severity).toBe('moderately_severe');
+      expect(result.severityLabel).toBe('Умеренно тяжёлая депрессия');
+    });
+
+    it('should apply the ≥10 clinical cutoff', () => {
+      const mild = questionnaireEngine.score('phq9', { ...uniformResponses('phq9', 1), q9: 0 });
+      expect(mild.totalScore).toBe(8);
+      expect(mild.severity).toBe('mild');
+      expect(mild.isClinical).toBe(false);
+
+      const moderate = questionnaireEngine.score('phq9', { ...uniformResponses('phq9', 1), q1: 3, q9: 0 });
+      expect(moderate.totalScore).toBe(10);
+      expect(moderate.severity).toBe('moderate');
+      expect(moderate.isClinical).toBe(true);
+    });
+
+    it('should classify the maximum score as severe', () => {
+      const result = questionnaireEngine.score('phq9', uniformResponses('phq9', 3));
+      expect(result.totalScore).toBe(27);
+      expect(result.maxScore).toBe(27);
+      expect(result.severity).toBe('severe');
+    });
+
+    it('should raise a suicidal ideation alert when item 9 is endorsed', () => {
+      const result = questionnaireEngine.score('phq9', { ...uniformResponses('phq9', 0), q9: 1 });
+      expect(result.alerts).toHaveLength(1);
+      expect(result.alerts[0].type).toBe('suicidal_ideation');
+      expect(result.alerts[0].messageRu).toContain('8-800-2000-122');
+    });
+
+    it('should not raise alerts when item 9 is zero', () => {
+      const result = questionnaireEngine.score('phq9', { ...uniformResponses('phq9', 3), q9: 0 });
+      expect(result.alerts).toHaveLength(0);
+    });
+  });
+
+  describe('GAD-7', () => {
+    it('should map scores to severity bands', () => {
+      expect(questionnaireEngine.score('gad7', uniformResponses('gad7', 0)).severity).toBe('minimal');
+      expect(questionnaireEngine.score('gad7', uniformResponses('gad7', 1)).severity).toBe('mild');
+      expect(questionnaireEngine.score('gad7', uniformResponses('gad7', 2)).severity).toBe('moderate');
+      expect(questionnaireEngine.score('gad7', uniformResponses('gad7', 3)).severity).toBe('severe');
+    });
+  });
+
+  describe('ESS', () => {
+    it('should treat 10 as normal and 11 as excessive sleepiness', () => {
+      const normal = questionnaireEngine.score('ess', { ...uniformResponses('ess', 1), q1: 3 });
+      expect(normal.totalScore).toBe(10);
+      expect(normal.isClinical).toBe(false);
+
+      const excessive = questionnaireEngine.score('ess', { ...uniformResponses('ess', 1), q1: 3, q2: 2 });
+      expect(excessive.totalScore).toBe(11);
+      expect(excessive.severity).toBe('mild');
+      expect(excessive.isClinical).toBe(true);
+    });
+  });
+
+  describe('DBAS-16', () => {
+    it('should score the total as the item mean', () => {
+      const result = questionnaireEngine.score('dbas', uniformResponses('dbas', 5));
+      expect(result.totalScore).toBe(5);
+      expect(result.maxScore).toBe(10);
+    });
+
+    it('should compute subscale means', () => {
+      const responses = {
+        ...uniformResponses('dbas', 0),
+        q6: 9, q13: 6, q15: 3, // medication
+        q1: 8, q2: 7,          // expectations
+      };
+
+      const result = questionnaireEngine.score('dbas', responses);
+
+      expect(result.subscales.medication).toBe(6);
+      expect(result.subscales.expectations).toBe(7.5);
+      expect(result.subscales.consequences).toBe(0);
+      expect(result.subscales.worry).toBe(0);
+      expect(result.totalScore).toBe(2.06); // 33 / 16, rounded
+    });
+
+    it('should apply the 3.8 clinical cutoff', () => {
+      const adaptive = questionnaireEngine.score('dbas', uniformResponses('dbas', 3));
+      expect(adaptive.severity).toBe('adaptive');
+
+      const dysfunctional = questionnaireEngine.score('dbas', uniformResponses('dbas', 4));
+      expect(dysfunctional.severity).toBe('dysfunctional');
+      expect(dysfunctional.isClinical).toBe(true);
+    });
+  });
+
+  describe('PSQI', () => {
+    it('should score a good sleeper with all components at zero', () => {
+      const result = questionnaireEngine.score('psqi', goodSleeperPSQI());
+
+      expect(result.totalScore).toBe(0);
+      expect(result.severity).toBe('good');
+      expect(Object.values(result.subscales)).toEqual([0, 0, 0, 0, 0, 0, 0]);
+    });
+
+    it('should compute the seven Buysse components', () => {
+      const result = questionnaireEngine.score('psqi', {
+        ...goodSleeperPSQI(),
+        q1: 0,      // bed at 00:00, up at 07:00 → 7 h in bed
+        q2: 45,     // latency 31-60 min → 2
+        q4: 5.5,    // 5-6 h sleep → duration 2, SE 79% → 1
+        q5a: 3,     // latency 2 + 3 = 5 → 3
+        q5b: 3, q5c: 2, q5i: 1, // disturbances sum 6 → 1
+        q6: 2,
+        q7: 1,
+        q8: 1, q9: 2, // dysfunction 3 → 2
+      });
+
+      expect(result.subscales).toEqual({
+        quality: 2,
+        latency: 3,
+        duration: 2,
+        efficiency: 1,
+        disturbances: 1,
+        medication: 1,
+        dysfunction: 2,
+      });
+      expect(result.totalScore).toBe(12);
+      expect(result.severity).toBe('poor');
+      expect(result.isClinical).toBe(true);
+    });
+
+    it('should handle bedtimes before midnight when computing efficiency', () => {
+      const result = questionnaireEngine.score('psqi', {
+        ...goodSleeperPSQI(),
+        q1: 1260, // 21:00 → 07:00 = 10 h in bed
+        q4: 6.5,  // SE 65% → 2
+      });
+
+      expect(result.subscales.efficiency).toBe(2);
+      expect(result.subscales.duration).toBe(1);
+    });
+  });
+
+  describe('isClinicallyMeaningfulChange()', () => {
+    it('should use the instrument MCID', () => {
+      expect(questionnaireEngine.isClinicallyMeaningfulChange('phq9', 15, 10)).toBe(true);
+      expect(questionnaireEngine.isClinicallyMeaningfulChange('phq9', 15, 11)).toBe(false);
+      expect(questionnaireEngine.isClinicallyMeaningfulChange('psqi', 12, 9)).toBe(true);
+    });
+
+    it('should return false when no MCID is established', () => {
+      expect(questionnaireEngine.isClinicallyMeaningfulChange('dbas', 8, 2)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * AdminBotHandlers Unit Tests
+ * ===========================
+ * /admin, admin:* callbacks and E2B document delivery through a real Grammy bot.
+ * Outgoing Bot API calls are captured by an API transformer.
+ */
+
+import { Bot, InputFile, type Context } from 'grammy';
+import type { Update, UserFromGetMe } from 'grammy/types';
+import { setupAdminHandlers } from '../../../../src/bot/commands/AdminBotHandlers';
+import { AdminCommand } from '../../../../src/bot/commands/AdminCommand';
+import { createAdverseEventService } from '../../../../src/bot/services/AdverseEventService';
+import type { SleepCoreAPI } from '../../../../src/SleepCoreAPI';
+import { SQLiteConnection } from '../../../../src/infrastructure/database/sqlite/SQLiteConnection';
+import { SQLiteMigration } from '../../../../src/infrastructure/database/sqlite/SQLiteMigration';
+import { MIGRATIONS } from '../../../../src/infrastructure/database/migrations';
+import { createMockContext, createMockSleepCoreAPI } from './testHelpers';
+
+const ADMIN_ID = 777;
+const PARTICIPANT_ID = 555;
+
+const BOT_INFO = {
+  id: 1,
+  is_bot: true,
+  first_name: 'SleepCore',
+  username: 'sleepcore_bot',
+  can_join_groups: false,
+  can_read_all_group_messages: false,
+  supports_inline_queries: false,
+} as UserFromGetMe;
+
+interface IApiCall {
+  method: string;
+  payload: Record<string, unknown>;
+}
+
+describe('setupAdminHandlers', () => {
+  const originalAdmins = process.env.ADMIN_USER_IDS;
+  const originalSuperAdmins = process.env.SUPER_ADMIN_IDS;
+  let db: SQLiteConnection;
+  let bot: Bot<Context>;
+  let calls: IApiCall[];
+  let updateId = 0;
+
+  function commandUpdate(fromId: number, text: string): Update {
+    const command = text.split(' ')[0];
+    return {
+      update_id: ++updateId,
+      message: {
+        message_id: updateId,
+        date: Math.floor(Date.now() / 1000),
+        chat: { id: fromId, type: 'private', first_name: 'Dr' },
+        from: { id: fromId, is_bot: false, first_name: 'Dr' },
+        text,
+        entities: [{ type: 'bot_command', offset: 0, length: command.length }],
+      },
+    };
+  }
+
+  function callbackUpdate(fromId: number, data: string): Update {
+    return {
+      update_id: ++updateId,
+      callback_query: {
+        id: String(updateId),
+        chat_instance: '1',
+        from: { id: fromId, is_bot: false, first_name: 'Dr' },
+        message: {
+          message_id: 1,
+          date: Math.floor(Date.now() / 1000),
+          chat: { id: fromId, type: 'private', first_name: 'Dr' },
+          text: 'menu',
+        },
+        data,
+      },
+    };
+  }
+
+  function callsTo(method: string): IApiCall[] {
+    return calls.filter((call) => call.method === method);
+  }
+
+  beforeAll(async () => {
+    process.env.ADMIN_USER_IDS = String(ADMIN_ID);
+    process.env.SUPER_ADMIN_IDS = String(ADMIN_ID);
+    db = new SQLiteConnection({
+      type: 'sqlite',
+      connectionString: ':memory:',
+      verbose: false,
+    });
+    await db.connect();
+
+    const migration = new SQLiteMigration(db);
+    await migration.initialize();
+    await migration.migrate([...MIGRATIONS]);
+
+    await db.execute(
+      `INSERT INTO users (id, external_id, first_name, created_at, updated_at)
+       VALUES (42, '900042', 'Участник', datetime('now'), datetime('now'))`
+    );
+  });
+
+  afterAll(async () => {
+    process.env.ADMIN_USER_IDS = originalAdmins;
+    process.env.SUPER_ADMIN_IDS = originalSuperAdmins;
+    await db.close();
+  });
+
+  beforeEach(() => {
+    calls = [];
+    bot = new Bot<Context>('test-token', { botInfo: BOT_INFO });
+    bot.api.config.use(async (_prev, method, payload) => {
+      calls.push({ method, payload: payload as Record<string, unknown> });
+      return { ok: true, result: true } as unknown as Awaited<ReturnType<typeof _prev>>;
+    });
+
+    const sleepCore = createMockSleepCoreAPI({ db } as unknown as Partial<SleepCoreAPI>);
+    setupAdminHandlers(
+      bot,
+      (ctx) => createMockContext({ userId: String(ctx.from?.id), displayName: 'Dr. Test', sleepCore }),
+      new AdminCommand()
+    );
+
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should answer /admin with the dashboard menu', async () => {
+    await bot.handleUpdate(commandUpdate(ADMIN_ID, '/admin'));
+
+    const [reply] = callsTo('sendMessage');
+    expect(reply.payload.parse_mode).toBe('Markdown');
+    const buttons = JSON.stringify(reply.payload.reply_markup);
+    expect(buttons).toContain('admin:dashboard');
+  });
+
+  it('should pass arguments to /admin', async () => {
+    await bot.handleUpdate(commandUpdate(ADMIN_ID, '/admin cohort 42 intensive_research'));
+
+    expect(callsTo('sendMessage')[0].payload.text).toContain('intensive_research');
+    const row = await db.queryOne<{ assessment_protocol: string }>(
+      'SELECT assessment_protocol FROM users WHERE id = 42'
+    );
+    expect(row?.assessment_protocol).toBe('intensive_research');
+  });
+
+  it('should route admin:* callbacks to the admin command', async () => {
+    await bot.handleUpdate(callbackUpdate(ADMIN_ID, 'admin:user:42'));
+
+    const [edit] = callsTo('editMessageText');
+    expect(edit.payload.text).toContain('Протокол опросов');
+    expect(callsTo('answerCallbackQuery')).toHaveLength(1);
+  });
+
+  it('should send the E2B export as an XML document', async () => {
+    await createAdverseEventService(db).reportAdverseEvent({
+      userId: '900042',
+      cioms: {
+        reporterType: 'patient',
+        patientId: '900042',
+        productName: 'SleepCore DTx',
+        productVersion: '1.0.0',
+        reactionTerm: 'Headache',
+        reactionOnsetDate: new Date(),
+      },
+      severity: 'mild',
+      isSerious: false,
+      expectedness: 'expected',
+      dtxCategory: 'HEADACHE',
+      description: 'Headache after first week of sleep restriction',
+      onsetDate: new Date(),
+      outcome: 'not_recovered',
+      causality: 'possible',
+      actionTaken: 'none',
+      reportedBy: 'patient',
+    });
+
+    await bot.handleUpdate(callbackUpdate(ADMIN_ID, 'admin:e2b:30'));
+
+    expect(callsTo('editMessageText')[0].payload.text).toContain('E2B(R3)');
+    const [upload] = callsTo('sendDocument');
+    expect(upload.payload.caption).toBe('E2B(R3): 1');
+    const file = upload.payload.document as InputFile;
+    expect(file).toBeInstanceOf(InputFile);
+    expect(file.filename).toMatch(/^e2b_r3_.*\.xml$/);
+  });
+
+  it('should refuse participants who are not admins', async () => {
+    await bot.handleUpdate(commandUpdate(PARTICIPANT_ID, '/admin'));
+
+    expect(callsTo('sendMessage')[0].payload.text).toContain('Доступ запрещён');
+  });
+
+  it('should leave other callbacks to later handlers', async () => {
+    const next = jest.fn();
+    bot.on('callback_query:data', next);
+
+    await bot.handleUpdate(callbackUpdate(ADMIN_ID, 'menu:start'));
+
+    expect(next).toHaveBeenCalledTimes(1);
+    expect(callsTo('editMessageText')).toHaveLength(0);
+  });
+});
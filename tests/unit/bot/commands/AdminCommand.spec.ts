@@ -0,0 +1,189 @@
+/**
+ * AdminCommand Unit Tests
+ * =======================
+ * Clinician actions on supervised medication taper plans, assessment
+ * adherence and cohort assignment.
+ */
+
+import { AdminCommand } from '../../../../src/bot/commands/AdminCommand';
+import { MedicationTaperingService } from '../../../../src/bot/services/MedicationTaperingService';
+import { createISISchedulingService } from '../../../../src/bot/services/ISISchedulingService';
+import type { Bot, Context } from 'grammy';
+import type { SleepCoreAPI } from '../../../../src/SleepCoreAPI';
+import { SQLiteConnection } from '../../../../src/infrastructure/database/sqlite/SQLiteConnection';
+import { SQLiteMigration } from '../../../../src/infrastructure/database/sqlite/SQLiteMigration';
+import { MIGRATIONS } from '../../../../src/infrastructure/database/migrations';
+import { createMockContext, createMockSleepCoreAPI, assertCallbackData } from './testHelpers';
+
+const ADMIN_ID = '777';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('AdminCommand', () => {
+  const originalAdmins = process.env.ADMIN_USER_IDS;
+  let db: SQLiteConnection;
+  let command: AdminCommand;
+  let taperService: MedicationTaperingService;
+
+  const adminContext = () => createMockContext({
+    userId: ADMIN_ID,
+    displayName: 'Dr. Test',
+    sleepCore: createMockSleepCoreAPI({ db } as unknown as Partial<SleepCoreAPI>),
+  });
+
+  beforeAll(async () => {
+    process.env.ADMIN_USER_IDS = ADMIN_ID;
+    db = new SQLiteConnection({
+      type: 'sqlite',
+      connectionString: ':memory:',
+      verbose: false,
+    });
+    await db.connect();
+
+    const migration = new SQLiteMigration(db);
+    await migration.initialize();
+    await migration.migrate([...MIGRATIONS]);
+
+    for (const [id, externalId] of [[42, '900042'], [43, '900043']]) {
+      await db.execute(
+        `INSERT INTO users (id, external_id, first_name, created_at, updated_at)
+         VALUES (?, ?, 'Участник', datetime('now'), datetime('now'))`,
+        [id, externalId]
+      );
+    }
+  });
+
+  afterAll(async () => {
+    process.env.ADMIN_USER_IDS = originalAdmins;
+    await db.close();
+  });
+
+  beforeEach(async () => {
+    await db.execute('DELETE FROM medication_taper_plans');
+    command = new AdminCommand();
+    taperService = new MedicationTaperingService(db);
+  });
+
+  describe('taper plans', () => {
+    it('should create a plan from /admin taper with the admin as prescriber', async () => {
+      const result = await command.execute(adminContext(), 'taper 42 7.5 mg z_drug Зопиклон');
+
+      expect(result.success).toBe(true);
+      expect(result.message).toContain('Зопиклон (Z-препарат)');
+      expect(result.message).toContain('Текущая доза: 7.5 мг');
+      assertCallbackData(result, 'admin:taper_hold:42');
+      expect(result.keyboard!.flat().some((b) => b.callbackData?.startsWith('admin:taper_signoff'))).toBe(false);
+
+      const plan = await taperService.getOpenPlan('900042');
+      expect(plan).toMatchObject({ prescribedBy: ADMIN_ID, medicationClass: 'z_drug' });
+      expect(plan!.medication).toEqual({ name: 'Зопиклон', type: 'hypnotic', dose: 7.5, unit: 'mg' });
+    });
+
+    it('should reject malformed arguments and a second open plan', async () => {
+      const malformed = await command.execute(adminContext(), 'taper 42 7.5 drops z_drug Зопиклон');
+      expect(malformed.success).toBe(false);
+      expect(malformed.message).toContain('/admin taper');
+
+      await command.execute(adminContext(), 'taper 42 1 tablet benzodiazepine Феназепам');
+      const second = await command.execute(adminContext(), 'taper 42 7.5 mg z_drug Зопиклон');
+      expect(second.success).toBe(false);
+      expect(second.message).toContain('уже есть открытый план');
+    });
+
+    it('should sign off a due step, hold and resume', async () => {
+      await taperService.createPlan({
+        userId: '900043',
+        medication: { name: 'Зопиклон', type: 'hypnotic', dose: 7.5, unit: 'mg' },
+        medicationClass: 'z_drug',
+        prescribedBy: 'dr-1',
+        startDate: new Date(Date.now() - 15 * DAY_MS),
+      });
+
+      const due = await command.handleCallback(adminContext(), 'admin:taper:43', {});
+      expect(due.message).toContain('ждёт подписи врача');
+      assertCallbackData(due, 'admin:taper_signoff:43');
+
+      const signed = await command.handleCallback(adminContext(), 'admin:taper_signoff:43', {});
+      expect(signed.message).toContain('Текущая доза: 5.5 мг, шаг 1');
+      const plan = await taperService.getOpenPlan('900043');
+      expect(plan!.steps[1]).toMatchObject({ status: 'current', signedOffBy: ADMIN_ID });
+
+      const notDue = await command.handleCallback(adminContext(), 'admin:taper_signoff:43', {});
+      expect(notDue.success).toBe(false);
+
+      const held = await command.handleCallback(adminContext(), 'admin:taper_hold:43', {});
+      expect(held.message).toContain('Приостановлен');
+      assertCallbackData(held, 'admin:taper_resume:43');
+
+      const resumed = await command.handleCallback(adminContext(), 'admin:taper_resume:43', {});
+      expect(resumed.message).toContain('Активен');
+      expect((await taperService.getOpenPlan('900043'))!.status).toBe('active');
+    });
+
+    it('should explain plan creation when the participant has none', async () => {
+      const result = await command.handleCallback(adminContext(), 'admin:taper:42', {});
+
+      expect(result.message).toContain('Нет активного плана');
+      expect(result.message).toContain('/admin taper 42');
+    });
+  });
+
+  describe('assessment adherence', () => {
+    function attachScheduler() {
+      const bot = { api: { sendMessage: jest.fn().mockResolvedValue({}) } } as unknown as Bot<Context>;
+      const scheduler = createISISchedulingService(bot);
+      command.setAssessmentScheduler(scheduler);
+      return scheduler;
+    }
+
+    beforeEach(() => {
+      jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should summarize adherence per protocol', async () => {
+      const scheduler = attachScheduler();
+      await scheduler.enrollUser('900042', 1, 'Участник', 18);
+      await scheduler.enrollUser('900043', 2, 'Участник', undefined, undefined, 'intensive_research');
+
+      const result = await command.handleCallback(adminContext(), 'admin:adherence', {});
+
+      expect(result.success).toBe(true);
+      expect(result.message).toContain('*standard*: 1 уч.');
+      expect(result.message).toContain('*intensive_research*: 1 уч.');
+      expect(result.message).toContain('900043');
+    });
+
+    it('should explain when no scheduler is attached', async () => {
+      const result = await command.handleCallback(adminContext(), 'admin:adherence', {});
+      expect(result.success).toBe(false);
+    });
+
+    it('should store the cohort and move an enrolled participant', async () => {
+      const scheduler = attachScheduler();
+      await scheduler.enrollUser('900042', 1, 'Участник', 18);
+
+      const result = await command.execute(adminContext(), 'cohort 42 intensive_research');
+
+      expect(result.success).toBe(true);
+      expect(scheduler.getUserData('900042')?.protocolId).toBe('intensive_research');
+      const row = await db.queryOne<{ assessment_protocol: string }>(
+        'SELECT assessment_protocol FROM users WHERE id = 42'
+      );
+      expect(row?.assessment_protocol).toBe('intensive_research');
+
+      const detail = await command.handleCallback(adminContext(), 'admin:user:42', {});
+      expect(detail.message).toContain('Протокол опросов: intensive_research');
+    });
+
+    it('should reject unknown protocols and participants', async () => {
+      attachScheduler();
+
+      expect((await command.execute(adminContext(), 'cohort 42 nope')).message).toContain('Неизвестный протокол');
+      expect((await command.execute(adminContext(), 'cohort 99 standard')).message).toContain('не найден');
+      expect((await command.execute(adminContext(), 'cohort')).message).toContain('/admin cohort');
+    });
+  });
+});
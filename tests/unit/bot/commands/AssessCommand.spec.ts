@@ -0,0 +1,150 @@
+/**
+ * AssessCommand Unit Tests
+ * =========================
+ * Tests for /assess command - questionnaire delivery.
+ */
+
+import { AssessCommand, assessCommand } from '../../../../src/bot/commands/AssessCommand';
+import type { IQuestionnaireResult } from '../../../../src/assessment';
+import {
+  createMockContext,
+  assertSuccessWithMessage,
+  assertHasKeyboard,
+  assertContainsText,
+  assertCallbackData,
+} from './testHelpers';
+
+/**
+ * Callback that answers every item with the given option index
+ */
+function answerAll(id: string, itemCount: number, optionIndex: number): string {
+  return `assess:a:${id}:${Date.now().toString(36)}:${optionIndex.toString(36).repeat(itemCount)}`;
+}
+
+describe('AssessCommand', () => {
+  let command: AssessCommand;
+
+  beforeEach(() => {
+    command = new AssessCommand();
+  });
+
+  describe('metadata', () => {
+    it('should have correct name', () => {
+      expect(command.name).toBe('assess');
+    });
+
+    it('should have Russian aliases', () => {
+      expect(command.aliases).toContain('опросники');
+    });
+
+    it('should export singleton', () => {
+      expect(assessCommand).toBeInstanceOf(AssessCommand);
+    });
+  });
+
+  describe('execute()', () => {
+    it('should list all instruments', async () => {
+      const result = await command.execute(createMockContext());
+
+      assertSuccessWithMessage(result);
+      assertHasKeyboard(result, 5);
+      for (const name of ['PSQI', 'ESS', 'DBAS-16', 'PHQ-9', 'GAD-7']) {
+        assertContainsText(result, name);
+      }
+      assertCallbackData(result, 'assess:start:phq9');
+    });
+
+    it('should start an instrument passed as argument', async () => {
+      const result = await command.execute(createMockContext(), 'ESS');
+
+      assertSuccessWithMessage(result);
+      assertContainsText(result, 'Эпворта');
+      assertCallbackData(result, 'assess:a:ess:');
+    });
+
+    it('should fall back to the menu for unknown arguments', async () => {
+      const result = await command.execute(createMockContext(), 'meq');
+
+      expect(result.metadata?.step).toBe('menu');
+    });
+  });
+
+  describe('handleCallback()', () => {
+    it('should show the first item with option buttons', async () => {
+      const result = await command.handleCallback(createMockContext(), 'assess:a:gad7:abc:', {});
+
+      assertSuccessWithMessage(result);
+      assertContainsText(result, 'вопрос 1 из 7');
+      const callbacks = result.keyboard!.flat().map((btn) => btn.callbackData);
+      expect(callbacks).toEqual(expect.arrayContaining([
+        'assess:a:gad7:abc:0',
+        'assess:a:gad7:abc:3',
+        'assess:menu',
+      ]));
+    });
+
+    it('should offer a back button that drops the last answer', async () => {
+      const result = await command.handleCallback(createMockContext(), 'assess:a:gad7:abc:12', {});
+
+      assertContainsText(result, 'вопрос 3 из 7');
+      const back = result.keyboard!.flat().find((btn) => btn.text.includes('Назад'));
+      expect(back?.callbackData).toBe('assess:a:gad7:abc:1');
+    });
+
+    it('should lay out 0-10 agreement options in a grid', async () => {
+      const result = await command.handleCallback(createMockContext(), 'assess:a:dbas:abc:', {});
+
+      // 11 options in rows of 6 plus the navigation row
+      expect(result.keyboard).toHaveLength(3);
+      expect(result.keyboard![1].map((btn) => btn.callbackData)).toContain('assess:a:dbas:abc:a');
+    });
+
+    it('should keep callback data within the Telegram limit', async () => {
+      const result = await command.handleCallback(createMockContext(), answerAll('psqi', 17, 0), {});
+
+      for (const button of result.keyboard!.flat()) {
+        expect(Buffer.byteLength(button.callbackData!)).toBeLessThanOrEqual(64);
+      }
+    });
+
+    it('should score the completed questionnaire and return it in metadata', async () => {
+      const result = await command.handleCallback(createMockContext(), answerAll('gad7', 7, 2), {});
+
+      assertSuccessWithMessage(result);
+      assertContainsText(result, '14');
+      expect(result.metadata?.completed).toBe(true);
+      expect(result.metadata?.instrument).toBe('gad7');
+      expect((result.metadata?.result as IQuestionnaireResult).severity).toBe('moderate');
+      expect(result.metadata?.responses).toMatchObject({ q1: 2, q7: 2 });
+      expect(result.metadata?.startedAt).toEqual(expect.any(String));
+    });
+
+    it('should map option indices to item values', async () => {
+      const result = await command.handleCallback(createMockContext(), answerAll('psqi', 18, 0), {});
+
+      const responses = result.metadata?.responses as Record<string, number>;
+      expect(responses.q1).toBe(1260);
+      expect(responses.q4).toBe(4.5);
+      assertContainsText(result, 'Эффективность сна');
+    });
+
+    it('should show crisis resources when PHQ-9 item 9 is endorsed', async () => {
+      const result = await command.handleCallback(createMockContext(), 'assess:a:phq9:abc:000000001', {});
+
+      assertContainsText(result, '8-800-2000-122');
+      assertCallbackData(result, 'menu:sos');
+    });
+
+    it('should reject invalid answer indices', async () => {
+      const result = await command.handleCallback(createMockContext(), 'assess:a:gad7:abc:0000009', {});
+
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject unknown instruments', async () => {
+      const result = await command.handleCallback(createMockContext(), 'assess:start:meq', {});
+
+      expect(result.success).toBe(false);
+    });
+  });
+});
@@ -16,6 +16,8 @@ import {
 
 // Mock the GamificationContext module
 jest.mock('../../../../src/bot/services/GamificationContext', () => ({
+  getGamificationUserId: jest.fn(() => 123),
+  requireGamificationProfile: jest.fn(() => null),
   getGamificationEngine: jest.fn(() => Promise.resolve({
     getUserBadges: jest.fn(() => Promise.resolve([
       { badgeId: 'badge1', userId: '123', earnedAt: new Date(), displayOrder: 0, isNew: false },
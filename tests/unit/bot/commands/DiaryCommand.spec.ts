@@ -5,6 +5,12 @@
  */
 
 import { DiaryCommand, diaryCommand } from '../../../../src/bot/commands/DiaryCommand';
+import {
+  MedicationTaperingService,
+  type ITaperPlan,
+  type IWithdrawalCheck,
+} from '../../../../src/bot/services/MedicationTaperingService';
+import type { SleepCoreAPI } from '../../../../src/SleepCoreAPI';
 import {
   createMockContext,
   createMockSleepCoreAPI,
@@ -21,6 +27,10 @@ describe('DiaryCommand', () => {
     command = new DiaryCommand();
   });
 
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
   describe('metadata', () => {
     it('should have correct name', () => {
       expect(command.name).toBe('diary');
@@ -272,6 +282,135 @@ describe('DiaryCommand', () => {
       expect(mockSleepCore.addDiaryEntry).toHaveBeenCalled();
     });
 
+    it('should offer optional details after saving', async () => {
+      const ctx = createMockContext();
+      const result = await command.handleCallback(ctx, 'diary:quality:4', {
+        date: '2024-12-22',
+        bedtimeHour: 23,
+        bedtimeMinute: 0,
+        waketimeHour: 7,
+        waketimeMinute: 0,
+      });
+
+      assertCallbackData(result, 'diary:details:start');
+    });
+
+    it('should skip caffeine time when no caffeine was reported', async () => {
+      const ctx = createMockContext();
+      const result = await command.handleCallback(ctx, 'diary:caffeine:0', { date: '2024-12-22' });
+
+      expect(result.metadata?.caffeineDrinks).toBe(0);
+      expect(result.metadata?.step).toBe('alcohol');
+    });
+
+    it('should skip dose when no medication was taken', async () => {
+      const ctx = createMockContext();
+      const result = await command.handleCallback(ctx, 'diary:med:none', { date: '2024-12-22' });
+
+      expect(result.metadata?.step).toBe('exercise');
+      assertCallbackData(result, 'diary:exercise:');
+    });
+
+    it('should offer the taper plan dose and save it as prescribed', async () => {
+      jest.spyOn(MedicationTaperingService.prototype, 'getPrescribedDose').mockResolvedValue({
+        name: 'Зопиклон', type: 'hypnotic', dose: 5.5, unit: 'mg',
+      });
+      jest.spyOn(MedicationTaperingService.prototype, 'getOpenPlan').mockResolvedValue(null);
+      const mockSleepCore = createMockSleepCoreAPI({ db: {} } as unknown as Partial<SleepCoreAPI>);
+      const ctx = createMockContext({ sleepCore: mockSleepCore });
+
+      const medication = await command.handleCallback(ctx, 'diary:naps:0', { date: '2024-12-22' });
+      assertCallbackData(medication, 'diary:med:plan');
+      expect(medication.keyboard![0][0].text).toContain('Зопиклон 5.5 мг');
+
+      const exercise = await command.handleCallback(ctx, 'diary:med:plan', {
+        date: '2024-12-22',
+        plannedMedication: medication.metadata?.plannedMedication,
+      });
+      expect(exercise.metadata?.step).toBe('exercise');
+      expect(exercise.metadata?.medicationFromPlan).toBe(true);
+
+      await command.handleCallback(ctx, 'diary:early:0', {
+        date: '2024-12-22',
+        plannedMedication: exercise.metadata?.plannedMedication,
+        medicationType: exercise.metadata?.medicationType,
+        medicationFromPlan: true,
+        bedtimeHour: 23,
+        bedtimeMinute: 0,
+        waketimeHour: 7,
+        waketimeMinute: 0,
+        sleepQuality: 3,
+      });
+      expect(mockSleepCore.addDiaryEntry).toHaveBeenCalledWith(expect.objectContaining({
+        sleepMedications: [{ name: 'Зопиклон', type: 'hypnotic', dose: 5.5, unit: 'mg' }],
+      }));
+    });
+
+    it('should run the withdrawal check after saving and report a held plan', async () => {
+      jest.spyOn(MedicationTaperingService.prototype, 'getOpenPlan')
+        .mockResolvedValue({ id: 5 } as unknown as ITaperPlan);
+      const checkWithdrawal = jest.spyOn(MedicationTaperingService.prototype, 'checkWithdrawal')
+        .mockResolvedValue({ report: { id: 11 } } as unknown as IWithdrawalCheck);
+      const mockSleepCore = createMockSleepCoreAPI({ db: {} } as unknown as Partial<SleepCoreAPI>);
+      const ctx = createMockContext({ sleepCore: mockSleepCore });
+
+      const result = await command.handleCallback(ctx, 'diary:quality:2', {
+        date: '2024-12-22',
+        bedtimeHour: 23,
+        bedtimeMinute: 0,
+        waketimeHour: 7,
+        waketimeMinute: 0,
+      });
+
+      expect(mockSleepCore.addDiaryEntry).toHaveBeenCalled();
+      expect(checkWithdrawal).toHaveBeenCalledWith(5);
+      expect(result.metadata?.taperOnHold).toBe(true);
+      assertContainsText(result, 'снижение приостановлено');
+    });
+
+    it('should ask dose for sleep medication', async () => {
+      const ctx = createMockContext();
+      const result = await command.handleCallback(ctx, 'diary:med:hypnotic', { date: '2024-12-22' });
+
+      expect(result.metadata?.step).toBe('medication_dose');
+      assertCallbackData(result, 'diary:med_dose:');
+    });
+
+    it('should save details with the entry', async () => {
+      const mockSleepCore = createMockSleepCoreAPI();
+      const ctx = createMockContext({ sleepCore: mockSleepCore });
+
+      const result = await command.handleCallback(ctx, 'diary:early:30', {
+        date: '2024-12-22',
+        bedtimeHour: 23,
+        bedtimeMinute: 0,
+        waketimeHour: 7,
+        waketimeMinute: 0,
+        sleepQuality: 3,
+        caffeineDrinks: 2,
+        lastCaffeineHour: 17,
+        alcoholDrinks: 0,
+        napMinutes: 20,
+        medicationType: 'melatonin',
+        medicationDose: 1,
+        exerciseTiming: 'evening',
+      });
+
+      expect(mockSleepCore.addDiaryEntry).toHaveBeenCalledWith(expect.objectContaining({
+        caffeineDrinks: 2,
+        lastCaffeineTime: '17:00',
+        alcoholDrinks: 0,
+        napCount: 1,
+        napMinutes: 20,
+        sleepMedications: [expect.objectContaining({ type: 'melatonin', dose: 1, unit: 'tablet' })],
+        earlyAwakeningMinutes: 30,
+        exerciseTiming: 'evening',
+      }));
+      expect(result.metadata?.step).toBe('summary');
+      assertContainsText(result, 'Кофеин');
+      expect(result.keyboard!.flat().some(b => b.callbackData === 'diary:details:start')).toBe(false);
+    });
+
     it('should reject invalid callback prefix', async () => {
       const ctx = createMockContext();
       const result = await command.handleCallback(ctx, 'other:action', { date: '2024-12-22' });
@@ -280,6 +419,76 @@ describe('DiaryCommand', () => {
     });
   });
 
+  describe('fromText()', () => {
+    const night = 'лёг в полночь, уснул через час, проснулся в 4 и больше не спал. Днём вздремнул 20 минут';
+
+    it('should offer a parsed night for confirmation', async () => {
+      const ctx = createMockContext();
+      const result = await command.fromText(ctx, night);
+
+      assertSuccessWithMessage(result!);
+      assertContainsText(result!, 'Уснули через: ');
+      assertContainsText(result!, '04:00');
+      assertCallbackData(result!, 'diary:text_quality:');
+      assertCallbackData(result!, 'diary:text_cancel');
+      expect(result!.metadata?.step).toBe('text_confirm');
+      expect(result!.metadata?.textEntry).toMatchObject({ bedtime: '00:00', sleepOnsetLatency: 60, napMinutes: 20 });
+    });
+
+    it('should date the entry in the user timezone', async () => {
+      jest.useFakeTimers({ now: new Date('2025-03-01T22:30:00Z') });
+      try {
+        const moscow = await command.fromText(createMockContext({ timezone: 'Europe/Moscow' }), night);
+        const london = await command.fromText(createMockContext({ timezone: 'Europe/London' }), night);
+
+        expect(moscow!.metadata?.date).toBe('2025-03-02');
+        expect(london!.metadata?.date).toBe('2025-03-01');
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should ignore text that does not describe a night', async () => {
+      const ctx = createMockContext();
+
+      expect(await command.fromText(ctx, 'Привет! Как дела?')).toBeNull();
+    });
+
+    it('should save the confirmed entry with the quality rating', async () => {
+      const mockSleepCore = createMockSleepCoreAPI();
+      const ctx = createMockContext({ sleepCore: mockSleepCore });
+      const offer = await command.fromText(ctx, night);
+
+      const result = await command.handleCallback(ctx, 'diary:text_quality:2', {
+        date: offer!.metadata?.date,
+        textEntry: offer!.metadata?.textEntry,
+      });
+
+      expect(mockSleepCore.addDiaryEntry).toHaveBeenCalledWith(expect.objectContaining({
+        bedtime: '00:00',
+        sleepOnsetLatency: 60,
+        finalAwakening: '04:00',
+        napMinutes: 20,
+        subjectiveQuality: 'poor',
+      }));
+      expect(result.metadata?.step).toBe('summary');
+      expect(result.metadata?.saved).toBe(true);
+      assertContainsText(result, 'Дневной сон');
+    });
+
+    it('should not save after cancel or lost session data', async () => {
+      const mockSleepCore = createMockSleepCoreAPI();
+      const ctx = createMockContext({ sleepCore: mockSleepCore });
+
+      const cancelled = await command.handleCallback(ctx, 'diary:text_cancel', {});
+      const lost = await command.handleCallback(ctx, 'diary:text_quality:3', {});
+
+      expect(cancelled.metadata?.step).toBe('text_cancelled');
+      expect(lost.success).toBe(false);
+      expect(mockSleepCore.addDiaryEntry).not.toHaveBeenCalled();
+    });
+  });
+
   describe('duration calculation', () => {
     it('should calculate duration correctly within same day', async () => {
       const ctx = createMockContext();
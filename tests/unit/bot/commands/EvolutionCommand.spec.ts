@@ -16,6 +16,8 @@ import {
 
 // Mock the GamificationContext module
 jest.mock('../../../../src/bot/services/GamificationContext', () => ({
+  getGamificationUserId: jest.fn(() => 123),
+  requireGamificationProfile: jest.fn(() => null),
   getGamificationEngine: jest.fn(() => Promise.resolve({
     getPlayerProfile: jest.fn(() => Promise.resolve({
       userId: 123,
@@ -5,6 +5,11 @@
  */
 
 import { ProgressCommand, progressCommand } from '../../../../src/bot/commands/ProgressCommand';
+import {
+  SleepCausalAnalysisService,
+  type ISleepCausalAnalysis,
+} from '../../../../src/bot/services/SleepCausalAnalysisService';
+import type { SleepCoreAPI } from '../../../../src/SleepCoreAPI';
 import {
   createMockContext,
   createMockContextNoSession,
@@ -153,6 +158,86 @@ describe('ProgressCommand', () => {
     });
   });
 
+  describe('causal factors', () => {
+    const analysis: ISleepCausalAnalysis = {
+      userId: 'test-user-123',
+      generatedAt: new Date().toISOString(),
+      status: 'ok',
+      nights: 28,
+      nightsNeeded: 0,
+      period: { from: '2025-03-01', to: '2025-03-28' },
+      confidenceLevel: 0.9,
+      excludedFactors: [],
+      effects: { sleepEfficiency: [], sleepOnsetLatency: [] },
+      topFactors: [
+        {
+          factor: 'outOfBedDelay',
+          outcome: 'sleepEfficiency',
+          label: 'Lying in bed after waking',
+          labelRu: 'Время в постели после пробуждения',
+          step: 15,
+          unit: 'min',
+          effect: -4.6,
+          lowerBound: -5.3,
+          upperBound: -3.9,
+          standardizedEffect: -0.9,
+          stability: 1,
+          supported: true,
+          improvesSleep: false,
+          identifiable: true,
+        },
+      ],
+    };
+
+    const createContextWithDb = () =>
+      createMockContext({
+        sleepCore: createMockSleepCoreAPI({ db: {} } as unknown as Partial<SleepCoreAPI>),
+      });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should skip the section without a database', async () => {
+      const spy = jest.spyOn(SleepCausalAnalysisService.prototype, 'analyzeStored');
+      const result = await command.execute(createMockContext());
+
+      expect(spy).not.toHaveBeenCalled();
+      expect(result.message).not.toContain('влияет на ваш сон');
+    });
+
+    it('should show the strongest factors with intervals', async () => {
+      jest.spyOn(SleepCausalAnalysisService.prototype, 'analyzeStored').mockResolvedValue(analysis);
+      const result = await command.execute(createContextWithDb());
+
+      assertContainsText(result, 'влияет на ваш сон');
+      assertContainsText(result, 'Время в постели после пробуждения (+15 мин) → эффективность сна −4.6%');
+      assertContainsText(result, '(−5.3…−3.9)');
+    });
+
+    it('should say how many nights are still needed', async () => {
+      jest.spyOn(SleepCausalAnalysisService.prototype, 'analyzeStored').mockResolvedValue({
+        ...analysis,
+        status: 'insufficient_data',
+        nights: 12,
+        nightsNeeded: 9,
+        topFactors: [],
+      });
+      const result = await command.execute(createContextWithDb());
+
+      assertContainsText(result, 'до первого анализа: 9');
+    });
+
+    it('should still show the report when the analysis fails', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      jest.spyOn(SleepCausalAnalysisService.prototype, 'analyzeStored').mockRejectedValue(new Error('db down'));
+      const result = await command.execute(createContextWithDb());
+
+      assertSuccessWithMessage(result);
+      expect(result.message).not.toContain('влияет на ваш сон');
+    });
+  });
+
   describe('singleton export', () => {
     it('should export singleton instance', () => {
       expect(progressCommand).toBeInstanceOf(ProgressCommand);
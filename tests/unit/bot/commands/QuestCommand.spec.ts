@@ -16,6 +16,8 @@ import {
 
 // Mock the GamificationContext module
 jest.mock('../../../../src/bot/services/GamificationContext', () => ({
+  getGamificationUserId: jest.fn(() => 123),
+  requireGamificationProfile: jest.fn(() => null),
   getGamificationEngine: jest.fn(() => Promise.resolve({
     getActiveQuests: jest.fn(() => Promise.resolve([
       {
@@ -33,6 +35,12 @@ jest.mock('../../../../src/bot/services/GamificationContext', () => ({
     ])),
     startQuest: jest.fn(() => Promise.resolve({ questId: 'relax_5', userId: 123, startedAt: new Date() })),
     getCompletedQuestCount: jest.fn(() => Promise.resolve(2)),
+    getCompletedQuestIds: jest.fn(() => Promise.resolve([])),
+    getAllQuests: jest.fn(() => [
+      { id: 'diary_7', title: 'Дневник сна', icon: '📝', difficulty: 'easy', reward: { xp: 50 } },
+      { id: 'relax_5', title: 'Релаксация', icon: '🧘', difficulty: 'easy', reward: { xp: 40 } },
+    ]),
+    getQuest: jest.fn(() => undefined),
     getPlayerProfile: jest.fn(() => Promise.resolve({
       userId: 123,
       totalXp: 100,
@@ -355,6 +355,26 @@ describe('TherapyCommand', () => {
       );
       expect(completeButton).toBeDefined();
     });
+
+    it('should offer DBAS-16 with the cognitive core homework', async () => {
+      const ctx = createMockContext();
+      const result = await therapyCommand.handleStep(ctx, 'core_homework', {
+        currentCore: 'sleep_thoughts',
+      });
+
+      const callbacks = result.keyboard?.flat().map((btn) => btn.callbackData);
+      expect(callbacks).toContain('assess:start:dbas');
+    });
+
+    it('should not offer a questionnaire when the core has none', async () => {
+      const ctx = createMockContext();
+      const result = await therapyCommand.handleStep(ctx, 'core_homework', {
+        currentCore: 'overview',
+      });
+
+      const callbacks = result.keyboard?.flat().map((btn) => btn.callbackData);
+      expect(callbacks?.some((cb) => cb?.startsWith('assess:'))).toBe(false);
+    });
   });
 
   describe('handleStep() - Core Complete', () => {
@@ -0,0 +1,143 @@
+/**
+ * WhatIfCommand Unit Tests
+ * ========================
+ * Tests for /whatif - sleep window what-if forecasts from the diary twin.
+ * Uses in-memory SQLite for the stored diary.
+ */
+
+import { WhatIfCommand, whatIfCommand } from '../../../../src/bot/commands/WhatIfCommand';
+import { SleepDigitalTwinService } from '../../../../src/bot/services/SleepDigitalTwinService';
+import type { SleepCoreAPI } from '../../../../src/SleepCoreAPI';
+import { SQLiteConnection } from '../../../../src/infrastructure/database/sqlite/SQLiteConnection';
+import { SQLiteMigration } from '../../../../src/infrastructure/database/sqlite/SQLiteMigration';
+import { MIGRATIONS } from '../../../../src/infrastructure/database/migrations';
+import {
+  createMockContext,
+  createMockSleepCoreAPI,
+  assertSuccessWithMessage,
+  assertCallbackData,
+  assertContainsText,
+} from './testHelpers';
+
+const TELEGRAM_ID = '900000042';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('WhatIfCommand', () => {
+  let db: SQLiteConnection;
+  let command: WhatIfCommand;
+
+  const contextWithDb = () =>
+    createMockContext({
+      userId: TELEGRAM_ID,
+      sleepCore: createMockSleepCoreAPI({ db } as unknown as Partial<SleepCoreAPI>),
+    });
+
+  /** 8 h in bed, ~6.5 h asleep, for the last `nights` nights */
+  async function insertDiary(nights: number): Promise<void> {
+    for (let i = 1; i <= nights; i++) {
+      const date = new Date(Date.now() - i * DAY_MS).toISOString().slice(0, 10);
+      const totalSleepTime = 380 + (i % 3) * 10;
+      await db.execute(
+        `INSERT INTO sleep_diary_entries (user_id, date, bedtime, lights_off_time, sleep_onset_latency,
+           wake_time, out_of_bed_time, night_awakenings, wake_after_sleep_onset, total_sleep_time,
+           time_in_bed, sleep_efficiency, sleep_quality, morning_mood, created_at, updated_at)
+         VALUES (1, ?, '23:00', '23:00', 40, '07:00', '07:00', 2, ?, ?, 480, ?, 3, 3, datetime('now'), datetime('now'))`,
+        [date, 480 - totalSleepTime - 40, totalSleepTime, Math.round((totalSleepTime / 480) * 1000) / 10]
+      );
+    }
+  }
+
+  beforeAll(async () => {
+    db = new SQLiteConnection({
+      type: 'sqlite',
+      connectionString: ':memory:',
+      verbose: false,
+    });
+    await db.connect();
+
+    const migration = new SQLiteMigration(db);
+    await migration.initialize();
+    await migration.migrate([...MIGRATIONS]);
+
+    await db.execute(
+      `INSERT INTO users (id, external_id, first_name, created_at, updated_at)
+       VALUES (1, ?, 'TestUser', datetime('now'), datetime('now'))`,
+      [TELEGRAM_ID]
+    );
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  beforeEach(async () => {
+    await db.execute('DELETE FROM sleep_diary_entries');
+    command = new WhatIfCommand();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('metadata', () => {
+    it('should have name, aliases and a Russian description', () => {
+      expect(command.name).toBe('whatif');
+      expect(command.aliases).toContain('прогноз');
+      expect(command.description).toContain('окно сна');
+    });
+  });
+
+  describe('execute()', () => {
+    it('should explain that forecasts need the diary database', async () => {
+      const result = await command.execute(createMockContext());
+
+      expect(result.success).toBe(false);
+      assertContainsText(result, 'Прогноз недоступен');
+    });
+
+    it('should ask for more diary nights', async () => {
+      await insertDiary(3);
+
+      const result = await command.execute(contextWithDb());
+
+      assertSuccessWithMessage(result);
+      assertContainsText(result, 'минимум *7 ночей*');
+      assertCallbackData(result, 'diary:start');
+    });
+
+    it('should show forecast bands for the caller\'s diary', async () => {
+      await insertDiary(14);
+
+      const result = await command.execute(contextWithDb());
+
+      assertSuccessWithMessage(result);
+      assertContainsText(result, 'Текущее предписание');
+      assertContainsText(result, 'Время в постели −15 мин');
+      assertContainsText(result, 'Эффективность через 7 ночей');
+      assertContainsText(result, 'Эффективность через 28 ночей');
+      assertContainsText(result, 'В постели 8 ч, подъём 07:00');
+      expect(result.message).toMatch(/\d+% \(\d+–\d+%\)/);
+      assertContainsText(result, 'а не назначение');
+
+      const { whatIf } = result.metadata as { whatIf: { userId: string; scenarios: unknown[] } };
+      expect(whatIf.userId).toBe(TELEGRAM_ID);
+      expect(whatIf.scenarios).toHaveLength(4);
+    });
+
+    it('should report a failed simulation', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      jest.spyOn(SleepDigitalTwinService.prototype, 'whatIfStored').mockRejectedValue(new Error('db down'));
+
+      const result = await command.execute(contextWithDb());
+
+      expect(result.success).toBe(false);
+      assertContainsText(result, 'Не удалось построить прогноз');
+    });
+  });
+
+  describe('singleton export', () => {
+    it('should export singleton instance', () => {
+      expect(whatIfCommand).toBeInstanceOf(WhatIfCommand);
+    });
+  });
+});
@@ -0,0 +1,271 @@
+/**
+ * AdverseEventService Unit Tests
+ * ==============================
+ * Tests for adverse event reporting backed by SQLite.
+ *
+ * Covers:
+ * - Stable report ids and regulatory deadlines
+ * - SAE / SUSAR / ISI worsening alerts
+ * - Numbered follow-ups on update
+ * - Deadline monitoring, statistics and CIOMS export on stored data
+ * - Reports and alerts surviving a service restart
+ */
+
+import {
+  AdverseEventService,
+  createAdverseEventService,
+  type IAdverseEventReport,
+} from '../../../../src/bot/services/AdverseEventService';
+import { AdverseEventRepository } from '../../../../src/infrastructure/database/repositories/AdverseEventRepository';
+import { SQLiteConnection } from '../../../../src/infrastructure/database/sqlite/SQLiteConnection';
+import { SQLiteMigration } from '../../../../src/infrastructure/database/sqlite/SQLiteMigration';
+import { MIGRATIONS } from '../../../../src/infrastructure/database/migrations';
+
+// ==================== Helpers ====================
+
+type NewReport = Omit<IAdverseEventReport, 'id' | 'reportedAt' | 'regulatoryDeadline' | 'reportStatus'>;
+
+function makeReport(overrides: Partial<NewReport> = {}): NewReport {
+  return {
+    userId: '12345',
+    cioms: {
+      reporterType: 'patient',
+      patientId: '12345',
+      productName: 'SleepCore DTx',
+      productVersion: '1.0.0',
+      reactionTerm: 'Headache',
+      reactionOnsetDate: new Date('2025-03-01T08:00:00Z'),
+    },
+    severity: 'mild',
+    isSerious: false,
+    expectedness: 'expected',
+    dtxCategory: 'HEADACHE',
+    description: 'Headache after first week of sleep restriction',
+    onsetDate: new Date('2025-03-01T08:00:00Z'),
+    outcome: 'not_recovered',
+    causality: 'possible',
+    actionTaken: 'none',
+    reportedBy: 'patient',
+    ...overrides,
+  };
+}
+
+function daysBetween(a: Date, b: Date): number {
+  return Math.round((b.getTime() - a.getTime()) / (24 * 60 * 60 * 1000));
+}
+
+// ==================== Tests ====================
+
+describe('AdverseEventService', () => {
+  let db: SQLiteConnection;
+  let service: AdverseEventService;
+
+  beforeAll(async () => {
+    db = new SQLiteConnection({
+      type: 'sqlite',
+      connectionString: ':memory:',
+      verbose: false,
+    });
+    await db.connect();
+
+    const migration = new SQLiteMigration(db);
+    await migration.initialize();
+    await migration.migrate([...MIGRATIONS]);
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  beforeEach(async () => {
+    await db.execute('DELETE FROM safety_alerts');
+    await db.execute('DELETE FROM adverse_event_followups');
+    await db.execute('DELETE FROM adverse_events');
+    service = createAdverseEventService(db);
+  });
+
+  describe('reportAdverseEvent', () => {
+    it('should assign a stored id and a 90-day deadline to non-serious AEs', async () => {
+      const report = await service.reportAdverseEvent(makeReport());
+
+      expect(report.id).toBeGreaterThan(0);
+      expect(report.reportStatus).toBe('draft');
+      expect(daysBetween(report.reportedAt, report.regulatoryDeadline!)).toBe(90);
+
+      const stored = await service.getReportById(report.id!);
+      expect(stored?.cioms.reactionTerm).toBe('Headache');
+      expect(stored?.cioms.reactionOnsetDate).toEqual(new Date('2025-03-01T08:00:00Z'));
+    });
+
+    it('should use 7-day deadline for life-threatening events', async () => {
+      const report = await service.reportAdverseEvent(makeReport({
+        isSerious: true,
+        seriousnessCriteria: ['life_threatening'],
+      }));
+
+      expect(daysBetween(report.reportedAt, report.regulatoryDeadline!)).toBe(7);
+      expect((await service.getReportById(report.id!))?.seriousnessCriteria).toEqual(['life_threatening']);
+    });
+
+    it('should raise SAE and SUSAR alerts for unexpected serious events', async () => {
+      const report = await service.reportAdverseEvent(makeReport({
+        isSerious: true,
+        seriousnessCriteria: ['hospitalization'],
+        expectedness: 'unexpected',
+      }));
+
+      const alerts = await service.getUnacknowledgedAlerts();
+      expect(alerts.map((a) => a.type)).toEqual(['SERIOUS_AE', 'SUSAR']);
+      expect(alerts.every((a) => a.eventId === report.id && a.id !== undefined)).toBe(true);
+    });
+  });
+
+  describe('checkISIDeterioration', () => {
+    it('should create alert and draft report for ISI increase of 7+', async () => {
+      const report = await service.checkISIDeterioration('12345', 10, 18, 4);
+
+      expect(report?.dtxCategory).toBe('SYMPTOM_DETERIORATION');
+      expect(report?.currentISI).toBe(18);
+      expect((await service.getUnacknowledgedAlerts())[0].type).toBe('ISI_WORSENING');
+    });
+
+    it('should ignore smaller increases', async () => {
+      expect(await service.checkISIDeterioration('12345', 10, 15, 4)).toBeNull();
+      expect(await service.getAllReports()).toHaveLength(0);
+    });
+  });
+
+  describe('updateAdverseEvent', () => {
+    it('should record changed fields as numbered follow-ups', async () => {
+      const report = await service.reportAdverseEvent(makeReport());
+
+      await service.updateAdverseEvent(report.id!, { outcome: 'recovering', severity: 'mild' });
+      const updated = await service.updateAdverseEvent(report.id!, {
+        outcome: 'recovered',
+        resolutionDate: new Date('2025-03-05T00:00:00Z'),
+      });
+
+      expect(updated?.outcome).toBe('recovered');
+      expect(updated?.resolutionDate).toEqual(new Date('2025-03-05T00:00:00Z'));
+
+      const followUps = await service.getFollowUps(report.id!);
+      expect(followUps.map((f) => f.followUpNumber)).toEqual([1, 2]);
+      expect(followUps[0].changes).toEqual({ outcome: 'recovering' });
+      expect(Object.keys(followUps[1].changes)).toEqual(['outcome', 'resolutionDate']);
+    });
+
+    it('should return null for unknown reports', async () => {
+      expect(await service.updateAdverseEvent(999, { outcome: 'recovered' })).toBeNull();
+    });
+  });
+
+  describe('safety alerts', () => {
+    it('should acknowledge alerts by id', async () => {
+      await service.reportAdverseEvent(makeReport({ isSerious: true, seriousnessCriteria: ['hospitalization'] }));
+      const [alert] = await service.getUnacknowledgedAlerts();
+
+      expect(await service.acknowledgeAlert(alert.id!, 'admin-1')).toBe(true);
+      expect(await service.acknowledgeAlert(alert.id!, 'admin-1')).toBe(false);
+      expect(await service.getUnacknowledgedAlerts()).toHaveLength(0);
+
+      const [stored] = await service.getAllAlerts();
+      expect(stored.acknowledgedBy).toBe('admin-1');
+      expect(stored.acknowledgedAt).toBeInstanceOf(Date);
+    });
+
+    it('should return the latest alerts in creation order', async () => {
+      await service.checkISIDeterioration('1', 5, 12, 2);
+      await service.checkISIDeterioration('2', 5, 12, 2);
+      await service.checkISIDeterioration('3', 5, 12, 2);
+
+      const alerts = await service.getAllAlerts(2);
+      expect(alerts.map((a) => a.userId)).toEqual(['2', '3']);
+    });
+  });
+
+  describe('checkDeadlines', () => {
+    it('should alert once for stored reports near their deadline', async () => {
+      const report = await service.reportAdverseEvent(makeReport({
+        isSerious: true,
+        seriousnessCriteria: ['death'],
+      }));
+      await db.execute(
+        'UPDATE adverse_events SET regulatory_deadline = ? WHERE id = ?',
+        [new Date(Date.now() + 2 * 24 * 60 * 60 * 1000).toISOString(), report.id]
+      );
+
+      const first = await service.checkDeadlines();
+      const second = await service.checkDeadlines();
+
+      expect(first).toHaveLength(1);
+      expect(first[0]).toMatchObject({ type: 'DEADLINE_APPROACHING', severity: 'warning', eventId: report.id });
+      expect(second).toHaveLength(0);
+    });
+
+    it('should skip reports submitted to the regulator', async () => {
+      const report = await service.reportAdverseEvent(makeReport());
+      await service.updateAdverseEvent(report.id!, { reportStatus: 'submitted_roszdravnadzor' });
+      await db.execute(
+        'UPDATE adverse_events SET regulatory_deadline = ? WHERE id = ?',
+        [new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(), report.id]
+      );
+
+      expect(await service.checkDeadlines()).toHaveLength(0);
+    });
+  });
+
+  describe('queries and export', () => {
+    it('should filter reports and compute statistics', async () => {
+      await service.reportAdverseEvent(makeReport());
+      await service.reportAdverseEvent(makeReport({ userId: '777', severity: 'severe', dtxCategory: 'FATIGUE' }));
+      await service.reportAdverseEvent(makeReport({ isSerious: true, seriousnessCriteria: ['hospitalization'] }));
+
+      expect(await service.getAllReports({ userId: '777' })).toHaveLength(1);
+      expect(await service.getAllReports({ isSerious: true })).toHaveLength(1);
+
+      const stats = await service.getStatistics();
+      expect(stats).toMatchObject({ total: 3, serious: 1, nonSerious: 2, pending: 3 });
+      expect(stats.byCategory).toEqual({ HEADACHE: 2, FATIGUE: 1 });
+      expect(stats.bySeverity).toEqual({ mild: 2, moderate: 0, severe: 1 });
+    });
+
+    it('should export CIOMS form with follow-ups', async () => {
+      const report = await service.reportAdverseEvent(makeReport());
+      await service.updateAdverseEvent(report.id!, { outcome: 'recovered' });
+
+      const form = await service.exportCIOMSFormat(report.id!);
+
+      expect(form).toContain(`Report ID: ${report.id}`);
+      expect(form).toContain('Reaction Term: Headache');
+      expect(form).toContain('Outcome: recovered');
+      expect(form).toContain('Follow-up #1');
+      expect(await service.exportCIOMSFormat(999)).toBeNull();
+    });
+  });
+
+  describe('persistence', () => {
+    it('should keep reports and alerts across service instances', async () => {
+      const report = await service.reportAdverseEvent(makeReport({
+        isSerious: true,
+        seriousnessCriteria: ['hospitalization'],
+      }));
+
+      const restarted = createAdverseEventService(db);
+      const next = await restarted.reportAdverseEvent(makeReport());
+
+      expect((await restarted.getReportById(report.id!))?.isSerious).toBe(true);
+      expect(next.id).toBeGreaterThan(report.id!);
+      expect(await restarted.getUnacknowledgedAlerts()).toHaveLength(1);
+    });
+
+    it('should use the injected repository', async () => {
+      const repository = new AdverseEventRepository(db);
+      const insert = jest.spyOn(repository, 'insert');
+
+      const report = await new AdverseEventService(repository).reportAdverseEvent(makeReport());
+
+      expect(insert).toHaveBeenCalledTimes(1);
+      expect(await repository.findById(report.id!)).not.toBeNull();
+    });
+  });
+});
@@ -336,6 +336,51 @@ describe('AnonymizedDataExportService', () => {
 
       expect(result.filename).toMatch(/sleepcore_export_.*\.csv$/);
     });
+
+    it('should export Consensus Sleep Diary items without medication names', async () => {
+      const usersQuery = (mockDb.query as jest.Mock).getMockImplementation()!;
+      (mockDb.query as jest.Mock).mockImplementation((sql: string) => {
+        if (sql.includes('sleep_diary_entries')) {
+          return Promise.resolve([
+            {
+              id: 1,
+              user_id: 1,
+              date: '2025-01-10',
+              bedtime: '23:00',
+              wake_time: '07:00',
+              sleep_efficiency: 85,
+              nap_count: 0,
+              nap_minutes: 0,
+              caffeine_drinks: 2,
+              last_caffeine_time: '17:30',
+              alcohol_drinks: null,
+              sleep_medications_json: JSON.stringify([
+                { name: 'Зопиклон', type: 'hypnotic', dose: 7.5, unit: 'mg' },
+              ]),
+              early_awakening_minutes: 30,
+              exercise_timing: 'evening',
+            },
+          ]);
+        }
+        return usersQuery(sql);
+      });
+
+      const result = await service.exportDataset(
+        { format: 'csv', level: 'de_identified', includeDiary: true },
+        'admin-user'
+      );
+
+      expect(result.dataset.diaryEntries![0]).toMatchObject({
+        napMinutes: 0,
+        caffeineDrinks: 2,
+        lastCaffeineTime: '17:30',
+        sleepMedications: [{ type: 'hypnotic', dose: 7.5, unit: 'mg' }],
+      });
+      expect(result.dataset.diaryEntries![0].alcoholDrinks).toBeUndefined();
+      expect(result.data).toContain('caffeine_drinks,last_caffeine,alcohol_drinks,medications');
+      expect(result.data).toContain(',0,0,2,17:30,,hypnotic 7.5mg,30,evening');
+      expect(result.data).not.toContain('Зопиклон');
+    });
   });
 
   describe('formatOutput()', () => {
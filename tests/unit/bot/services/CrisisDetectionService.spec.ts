@@ -9,6 +9,7 @@
  * - Severity-action mapping
  * - Language detection (Russian/English)
  * - Event logging and retrieval
+ * - Questionnaire safety alerts (PHQ-9 item 9)
  * - Crisis resources
  * - Disabled mode behavior
  */
@@ -21,6 +22,7 @@ import {
   type ICrisisResponse,
   type CrisisAction,
 } from '../../../../src/bot/services/CrisisDetectionService';
+import { questionnaireEngine } from '../../../../src/assessment';
 
 // ==================== Tests ====================
 
@@ -180,6 +182,31 @@ describe('CrisisDetectionService', () => {
     });
   });
 
+  describe('analyzeQuestionnaireAlert()', () => {
+    const alert = questionnaireEngine.getDefinition('phq9').alerts![0];
+
+    it('should log a positive PHQ-9 item 9 as a high severity event', () => {
+      const event = service.analyzeQuestionnaireAlert('user-123', 'chat-456', alert, 1);
+
+      expect(event).toMatchObject({
+        userId: 'user-123',
+        chatId: 'chat-456',
+        severity: 'high',
+        crisisType: 'suicidal_ideation',
+        action: 'interrupt',
+        indicators: ['questionnaire:q9'],
+      });
+      expect(service.getUserEvents('user-123')).toEqual([event]);
+    });
+
+    it('should treat "nearly every day" as critical', () => {
+      expect(service.analyzeQuestionnaireAlert('user-123', 'chat-456', alert, 3)).toMatchObject({
+        severity: 'critical',
+        action: 'emergency',
+      });
+    });
+  });
+
   describe('event logging', () => {
     it('should log events when crisis detected', () => {
       service.analyzeMessage(
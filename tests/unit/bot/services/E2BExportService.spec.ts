@@ -0,0 +1,293 @@
+/**
+ * E2BExportService Unit Tests
+ * ===========================
+ * Round-trip tests for ICH E2B(R3) export: the generated XML is parsed back
+ * and checked for the required ICSR elements and mapped values.
+ */
+
+import {
+  AdverseEventService,
+  createAdverseEventService,
+  type IAdverseEventReport,
+} from '../../../../src/bot/services/AdverseEventService';
+import {
+  createE2BExportService,
+  validateE2BReport,
+  E2B_OID,
+} from '../../../../src/bot/services/E2BExportService';
+import { SQLiteConnection } from '../../../../src/infrastructure/database/sqlite/SQLiteConnection';
+import { SQLiteMigration } from '../../../../src/infrastructure/database/sqlite/SQLiteMigration';
+import { MIGRATIONS } from '../../../../src/infrastructure/database/migrations';
+
+// ==================== XML Helpers ====================
+
+interface XmlNode {
+  name: string;
+  attrs: Record<string, string>;
+  children: XmlNode[];
+  text: string;
+}
+
+function decode(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Minimal well-formedness-checking parser for the generated XML
+ */
+function parseXml(xml: string): XmlNode {
+  const root: XmlNode = { name: '#document', attrs: {}, children: [], text: '' };
+  const stack: XmlNode[] = [root];
+  const tokens = xml.replace(/<\?xml[^?]*\?>/, '').match(/<[^>]+>|[^<]+/g) ?? [];
+
+  for (const token of tokens) {
+    const current = stack[stack.length - 1];
+    if (token.startsWith('</')) {
+      const name = token.slice(2, -1).trim();
+      if (current.name !== name) throw new Error(`Unexpected </${name}> in <${current.name}>`);
+      stack.pop();
+    } else if (token.startsWith('<')) {
+      const selfClosing = token.endsWith('/>');
+      const body = token.slice(1, selfClosing ? -2 : -1);
+      const name = body.split(/\s/)[0];
+      const attrs: Record<string, string> = {};
+      for (const [, key, value] of body.matchAll(/([\w:]+)="([^"]*)"/g)) {
+        attrs[key] = decode(value);
+      }
+      const node: XmlNode = { name, attrs, children: [], text: '' };
+      current.children.push(node);
+      if (!selfClosing) stack.push(node);
+    } else if (token.trim()) {
+      current.text += decode(token);
+    }
+  }
+
+  if (stack.length !== 1) throw new Error(`Unclosed <${stack[stack.length - 1].name}>`);
+  return root.children[0];
+}
+
+function findAll(node: XmlNode, name: string): XmlNode[] {
+  return node.children.flatMap((child) => [
+    ...(child.name === name ? [child] : []),
+    ...findAll(child, name),
+  ]);
+}
+
+/**
+ * Observation/act nodes whose <code> has the given code and code system
+ */
+function findByCode(node: XmlNode, code: string, codeSystem: string): XmlNode[] {
+  return collect(node).filter((n) =>
+    n.children.some((c) => c.name === 'code' && c.attrs.code === code && c.attrs.codeSystem === codeSystem));
+}
+
+function collect(node: XmlNode): XmlNode[] {
+  return [node, ...node.children.flatMap(collect)];
+}
+
+function child(node: XmlNode, name: string): XmlNode | undefined {
+  return node.children.find((c) => c.name === name);
+}
+
+// ==================== Fixtures ====================
+
+type NewReport = Omit<IAdverseEventReport, 'id' | 'reportedAt' | 'regulatoryDeadline' | 'reportStatus'>;
+
+function makeReport(overrides: Partial<NewReport> = {}): NewReport {
+  return {
+    userId: '12345',
+    cioms: {
+      reporterType: 'patient',
+      patientId: '12345',
+      patientInitials: 'A.B.',
+      patientAge: 42,
+      patientSex: 'female',
+      productName: 'SleepCore DTx',
+      productVersion: '1.0.0',
+      reactionTerm: 'Headache',
+      reactionOnsetDate: new Date('2025-03-01T08:00:00Z'),
+    },
+    severity: 'mild',
+    isSerious: false,
+    expectedness: 'expected',
+    dtxCategory: 'HEADACHE',
+    description: 'Headache after first week of sleep restriction',
+    onsetDate: new Date('2025-03-01T08:00:00Z'),
+    outcome: 'not_recovered',
+    causality: 'possible',
+    actionTaken: 'none',
+    reportedBy: 'patient',
+    ...overrides,
+  };
+}
+
+// ==================== Tests ====================
+
+describe('E2BExportService', () => {
+  let db: SQLiteConnection;
+  let aeService: AdverseEventService;
+  const now = new Date('2025-04-01T12:30:00Z');
+
+  beforeAll(async () => {
+    db = new SQLiteConnection({
+      type: 'sqlite',
+      connectionString: ':memory:',
+      verbose: false,
+    });
+    await db.connect();
+
+    const migration = new SQLiteMigration(db);
+    await migration.initialize();
+    await migration.migrate([...MIGRATIONS]);
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  beforeEach(async () => {
+    await db.execute('DELETE FROM safety_alerts');
+    await db.execute('DELETE FROM adverse_event_followups');
+    await db.execute('DELETE FROM adverse_events');
+    aeService = createAdverseEventService(db);
+  });
+
+  it('should build a well-formed batch with one ICSR per report', async () => {
+    const first = await aeService.reportAdverseEvent(makeReport());
+    const second = await aeService.reportAdverseEvent(makeReport({ dtxCategory: 'FATIGUE' }));
+    const service = createE2BExportService(aeService, { now: () => now });
+
+    const result = service.exportReports([first, second]);
+    const batch = parseXml(result.xml);
+
+    expect(batch.name).toBe('MCCI_IN200100UV01');
+    expect(batch.attrs.xmlns).toBe('urn:hl7-org:v3');
+    expect(child(batch, 'id')?.attrs).toMatchObject({ extension: result.batchId, root: E2B_OID.batchNumber });
+    expect(child(batch, 'creationTime')?.attrs.value).toBe('20250401123000+0000');
+    expect(child(batch, 'sender')).toBeDefined();
+    expect(child(batch, 'receiver')).toBeDefined();
+
+    const messages = findAll(batch, 'PORR_IN049016UV');
+    expect(messages).toHaveLength(2);
+    expect(result.reportIds).toEqual([`RU-SLEEPCORE-AE-${first.id}`, `RU-SLEEPCORE-AE-${second.id}`]);
+    expect(result.fileName).toBe('e2b_r3_20250401123000+0000.xml');
+  });
+
+  it('should include required ICSR elements and map report values', async () => {
+    const report = await aeService.reportAdverseEvent(makeReport({
+      isSerious: true,
+      seriousnessCriteria: ['hospitalization'],
+      expectedness: 'unexpected',
+      outcome: 'recovered',
+      resolutionDate: new Date('2025-03-05T00:00:00Z'),
+      actionTaken: 'temporarily_interrupted',
+    }));
+    const service = createE2BExportService(aeService, { now: () => now });
+
+    const message = findAll(parseXml(service.exportReports([report]).xml), 'PORR_IN049016UV')[0];
+    const caseNode = findAll(message, 'investigationEvent')[0];
+    const ids = caseNode.children.filter((c) => c.name === 'id');
+
+    // C.1.1 / C.1.8.1
+    expect(ids.map((id) => id.attrs.root)).toEqual([E2B_OID.reportId, E2B_OID.worldwideCaseId]);
+    expect(ids[0].attrs.extension).toBe(`RU-SLEEPCORE-AE-${report.id}`);
+    expect(child(caseNode, 'text')?.text).toContain('Headache after first week');
+
+    // D: patient
+    const patient = findAll(message, 'player1')[0];
+    expect(child(patient, 'name')?.text).toBe('A.B.');
+    expect(child(patient, 'administrativeGenderCode')?.attrs).toMatchObject({ code: '2', codeSystem: E2B_OID.sex });
+    const [age] = findByCode(message, '3', E2B_OID.observationCode);
+    expect(child(age, 'value')?.attrs).toMatchObject({ value: '42', unit: 'a' });
+
+    // E.i: reaction
+    const [reaction] = findByCode(message, '29', E2B_OID.observationCode);
+    const term = child(reaction, 'value')!;
+    expect(term.attrs).toMatchObject({ code: '10019211', codeSystem: E2B_OID.meddra, codeSystemVersion: '27.0' });
+    expect(child(term, 'originalText')?.text).toBe('Headache');
+    const period = child(reaction, 'effectiveTime')!;
+    expect(child(period, 'low')?.attrs.value).toBe('20250301');
+    expect(child(period, 'high')?.attrs.value).toBe('20250305');
+
+    const [hospitalization] = findByCode(reaction, '33', E2B_OID.observationCode);
+    expect(child(hospitalization, 'value')?.attrs.value).toBe('true');
+    const [death] = findByCode(reaction, '34', E2B_OID.observationCode);
+    expect(child(death, 'value')?.attrs.nullFlavor).toBe('NI');
+    const [outcome] = findByCode(reaction, '27', E2B_OID.observationCode);
+    expect(child(outcome, 'value')?.attrs).toMatchObject({ code: '1', codeSystem: E2B_OID.outcome });
+
+    // G.k: suspect product, action taken and causality
+    expect(findAll(message, 'kindOfProduct')[0].children[0].text).toBe('SleepCore DTx 1.0.0');
+    expect(findByCode(message, '1', E2B_OID.actionTaken)).toHaveLength(1);
+    const [role] = findByCode(message, '20', E2B_OID.observationCode);
+    expect(child(role, 'value')?.attrs.code).toBe('1');
+    const [causality] = findByCode(message, '39', E2B_OID.observationCode);
+    expect(child(causality, 'value')?.text).toBe('possible');
+    const reactionId = child(reaction, 'id')?.attrs.root;
+    expect(findAll(causality, 'adverseEffectReference')[0].children[0].attrs.root).toBe(reactionId);
+
+    // C.1.7: serious and unexpected is expedited
+    const [expedited] = findByCode(message, '23', E2B_OID.observationCode);
+    expect(child(expedited, 'value')?.attrs.value).toBe('true');
+
+    // C.2.r.4 / C.3.1
+    expect(findByCode(message, '5', E2B_OID.qualification)).toHaveLength(1);
+    expect(findByCode(message, '1', E2B_OID.senderType)).toHaveLength(1);
+  });
+
+  it('should mask missing identity and leave uncoded reactions to the receiver', async () => {
+    const report = await aeService.reportAdverseEvent(makeReport({
+      cioms: {
+        ...makeReport().cioms,
+        patientInitials: undefined,
+        patientSex: undefined,
+        reactionTerm: 'Nightmares & <vivid> dreams',
+      },
+      dtxCategory: 'FRUSTRATION',
+    }));
+    const service = createE2BExportService(aeService, { now: () => now });
+
+    const message = parseXml(service.exportReports([report]).xml);
+    const patient = findAll(message, 'player1')[0];
+    expect(child(patient, 'name')?.attrs.nullFlavor).toBe('MSK');
+    expect(child(patient, 'administrativeGenderCode')?.attrs.nullFlavor).toBe('UNK');
+
+    const [reaction] = findByCode(message, '29', E2B_OID.observationCode);
+    const term = child(reaction, 'value')!;
+    expect(term.attrs.nullFlavor).toBe('UNK');
+    expect(child(term, 'originalText')?.text).toBe('Nightmares & <vivid> dreams');
+  });
+
+  it('should skip reports missing minimum criteria', async () => {
+    const valid = await aeService.reportAdverseEvent(makeReport());
+    const invalid = { ...valid, id: 999, cioms: { ...valid.cioms, productName: '' } };
+    const service = createE2BExportService(aeService, { now: () => now });
+
+    expect(validateE2BReport(invalid)).toEqual(['G.k.2.2 product']);
+
+    const result = service.exportReports([valid, invalid]);
+    expect(result.reportIds).toHaveLength(1);
+    expect(result.skipped).toEqual([{ id: 999, reason: 'Missing required elements: G.k.2.2 product' }]);
+    expect(findAll(parseXml(result.xml), 'PORR_IN049016UV')).toHaveLength(1);
+  });
+
+  it('should export stored reports within a date range, oldest first', async () => {
+    const old = await aeService.reportAdverseEvent(makeReport());
+    const recent = await aeService.reportAdverseEvent(makeReport({ dtxCategory: 'FATIGUE' }));
+    const latest = await aeService.reportAdverseEvent(makeReport({ dtxCategory: 'DIZZINESS' }));
+    await db.execute('UPDATE adverse_events SET reported_at = ? WHERE id = ?', ['2025-01-10T00:00:00.000Z', old.id]);
+    await db.execute('UPDATE adverse_events SET reported_at = ? WHERE id = ?', ['2025-03-10T00:00:00.000Z', recent.id]);
+    await db.execute('UPDATE adverse_events SET reported_at = ? WHERE id = ?', ['2025-03-20T00:00:00.000Z', latest.id]);
+    const service = createE2BExportService(aeService, { now: () => now });
+
+    const result = await service.exportDateRange(new Date('2025-03-01T00:00:00Z'), new Date('2025-03-31T00:00:00Z'));
+
+    expect(result.reportIds).toEqual([`RU-SLEEPCORE-AE-${recent.id}`, `RU-SLEEPCORE-AE-${latest.id}`]);
+    expect(await service.exportReportById(12345)).toBeNull();
+  });
+});
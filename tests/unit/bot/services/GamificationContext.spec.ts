@@ -0,0 +1,111 @@
+/**
+ * GamificationContext Unit Tests
+ * ==============================
+ * Quest state shared by /quest and the voice diary handler.
+ *
+ * Covers:
+ * - Commands keyed by users.id rather than the Telegram ID
+ * - A /start prompt instead of an error for users without a database record
+ * - A quest started from /quest advanced by voice diary entries
+ */
+
+import {
+  gamificationContext,
+  getGamificationEngine,
+  getGamificationUserId,
+  requireGamificationProfile,
+  recordVoiceDiaryEntry,
+} from '../../../../src/bot/services/GamificationContext';
+import { QuestCommand } from '../../../../src/bot/commands/QuestCommand';
+import { SQLiteConnection } from '../../../../src/infrastructure/database/sqlite/SQLiteConnection';
+import { SQLiteMigration } from '../../../../src/infrastructure/database/sqlite/SQLiteMigration';
+import { MIGRATIONS } from '../../../../src/infrastructure/database/migrations';
+import { createMockContext } from '../commands/testHelpers';
+
+const TELEGRAM_ID = '555000111';
+const DB_USER_ID = 7;
+
+describe('GamificationContext', () => {
+  let db: SQLiteConnection;
+
+  beforeAll(async () => {
+    db = new SQLiteConnection({
+      type: 'sqlite',
+      connectionString: ':memory:',
+      verbose: false,
+    });
+    await db.connect();
+
+    const migration = new SQLiteMigration(db);
+    await migration.initialize();
+    await migration.migrate([...MIGRATIONS]);
+
+    await db.execute(
+      `INSERT INTO users (id, external_id, first_name, created_at, updated_at)
+       VALUES (?, ?, 'Test', datetime('now'), datetime('now'))`,
+      [DB_USER_ID, TELEGRAM_ID]
+    );
+    gamificationContext.attach(db);
+  });
+
+  afterAll(async () => {
+    await gamificationContext.close();
+    await db.close();
+  });
+
+  describe('getGamificationUserId()', () => {
+    it('should use the database user ID', () => {
+      expect(getGamificationUserId(createMockContext({ userId: TELEGRAM_ID, dbUserId: DB_USER_ID }))).toBe(DB_USER_ID);
+    });
+
+    it('should reject users without a database record', () => {
+      expect(() => getGamificationUserId(createMockContext({ userId: TELEGRAM_ID }))).toThrow(TELEGRAM_ID);
+    });
+  });
+
+  describe('requireGamificationProfile()', () => {
+    it('should let users with a database record through', () => {
+      expect(requireGamificationProfile(createMockContext({ userId: TELEGRAM_ID, dbUserId: DB_USER_ID }))).toBeNull();
+    });
+
+    it('should point users without a database record to /start', async () => {
+      const ctx = createMockContext({ userId: TELEGRAM_ID });
+
+      const result = await new QuestCommand().execute(ctx);
+
+      expect(result).toEqual(requireGamificationProfile(ctx));
+      expect(result.message).toContain('/start');
+      expect(result.keyboard![0][0].callbackData).toBe('menu:start');
+      expect((await new QuestCommand().handleCallback(ctx, 'quest:start:voice_diary_5', {})).message).toContain('/start');
+    });
+  });
+
+  describe('recordVoiceDiaryEntry()', () => {
+    it('should advance a quest started from /quest', async () => {
+      const command = new QuestCommand();
+      const ctx = createMockContext({ userId: TELEGRAM_ID, dbUserId: DB_USER_ID });
+
+      const started = await command.handleCallback(ctx, 'quest:start:voice_diary_5', {});
+      expect(started.success).toBe(true);
+
+      const rows = await db.query<{ user_id: number }>(`SELECT user_id FROM user_quests WHERE quest_id = 'voice_diary_5'`);
+      expect(rows.map(row => row.user_id)).toEqual([DB_USER_ID]);
+
+      expect(await recordVoiceDiaryEntry(DB_USER_ID)).toEqual([]);
+      const engine = await getGamificationEngine();
+      const [active] = await engine.getActiveQuests(DB_USER_ID);
+      expect(active).toMatchObject({ currentValue: 1, targetValue: 5 });
+
+      for (let i = 0; i < 3; i++) {
+        await recordVoiceDiaryEntry(DB_USER_ID);
+      }
+      const completed = await recordVoiceDiaryEntry(DB_USER_ID);
+
+      expect(completed.map(result => result.quest.id)).toEqual(['voice_diary_5']);
+      expect(await engine.getCompletedQuestIds(DB_USER_ID)).toEqual(['voice_diary_5']);
+
+      const details = await command.handleCallback(ctx, 'quest:details:voice_diary_5', {});
+      expect(details.message).toContain('Выполнен');
+    });
+  });
+});
@@ -0,0 +1,478 @@
+/**
+ * ISISchedulingService Unit Tests
+ * ===============================
+ * Tests for protocol-driven assessment reminders delivered in the user's
+ * local time.
+ *
+ * Covers:
+ * - Enrollment with timezone and baseline
+ * - Reminder at local 10:00, once per local day
+ * - Week counting by local calendar days across DST
+ * - Protocols: multiple instruments, windows, reminder caps, missed timepoints
+ * - Adherence report
+ * - Persistence and rehydration after restart
+ */
+
+import type { Bot, Context } from 'grammy';
+import {
+  ISISchedulingService,
+  createISISchedulingService,
+} from '../../../../src/bot/services/ISISchedulingService';
+import type { IClock } from '../../../../src/bot/services/ZonedTime';
+import type { IAssessmentProtocol } from '../../../../src/bot/services/AssessmentProtocols';
+import { AssessmentScheduleRepository } from '../../../../src/infrastructure/database/repositories/AssessmentScheduleRepository';
+import { SQLiteConnection } from '../../../../src/infrastructure/database/sqlite/SQLiteConnection';
+import { SQLiteMigration } from '../../../../src/infrastructure/database/sqlite/SQLiteMigration';
+import { MIGRATIONS } from '../../../../src/infrastructure/database/migrations';
+
+// ==================== Helpers ====================
+
+class FakeClock implements IClock {
+  constructor(private current: Date) {}
+
+  now(): Date {
+    return new Date(this.current);
+  }
+
+  set(iso: string): void {
+    this.current = new Date(iso);
+  }
+}
+
+/**
+ * 10:00 Moscow on the given day after the 2026-01-01 enrollment
+ */
+function moscowTen(day: number): string {
+  return new Date(Date.UTC(2026, 0, 1 + day, 7)).toISOString();
+}
+
+/**
+ * Callback data of the first button of each sent message
+ */
+function sentCallbacks(sendMessage: jest.Mock): string[] {
+  return sendMessage.mock.calls.map(
+    (call) => call[2].reply_markup.inline_keyboard[0][0].callback_data as string
+  );
+}
+
+const PHQ_ONLY: IAssessmentProtocol = {
+  id: 'phq_only',
+  name: 'PHQ-9 screening',
+  schedules: [{ instrument: 'phq9', weeks: [8, 0] }],
+  window: { daysBefore: 0, daysAfter: 10 },
+  reminders: { everyDays: 1, maxFollowUps: 2 },
+  missedPolicy: 'mark_missed',
+};
+
+// ==================== Tests ====================
+
+describe('ISISchedulingService', () => {
+  let sendMessage: jest.Mock;
+  let clock: FakeClock;
+  let bot: Bot<Context>;
+  let service: ISISchedulingService;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    sendMessage = jest.fn().mockResolvedValue({});
+    bot = { api: { sendMessage } } as unknown as Bot<Context>;
+
+    clock = new FakeClock(new Date('2026-01-01T09:00:00Z'));
+    service = createISISchedulingService(bot, { clock });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('enrollment', () => {
+    it('should store the user timezone and schedule week 2 after baseline', async () => {
+      await service.enrollUser('u1', 100, 'Тест', 18, 'Asia/Yekaterinburg');
+
+      const data = service.getUserData('u1');
+      expect(data?.timezone).toBe('Asia/Yekaterinburg');
+      expect(data?.nextAssessmentWeek).toBe(2);
+    });
+
+    it('should fall back to Moscow for an invalid timezone', async () => {
+      await service.enrollUser('u1', 100, 'Тест', 18, 'Not/AZone');
+      expect(service.getUserData('u1')?.timezone).toBe('Europe/Moscow');
+    });
+
+    it('should update the timezone of an enrolled user', async () => {
+      await service.enrollUser('u1', 100, 'Тест', 18);
+      await service.setUserTimezone('u1', 'Asia/Vladivostok');
+      expect(service.getUserData('u1')?.timezone).toBe('Asia/Vladivostok');
+    });
+  });
+
+  describe('local-time reminders', () => {
+    it('should send the week 0 assessment at local 10:00', async () => {
+      await service.enrollUser('vl', 200, 'Тест', undefined, 'Asia/Vladivostok');
+
+      clock.set('2026-01-01T23:55:00Z'); // 09:55 Vladivostok
+      await service.checkAndSendAssessments();
+      expect(sendMessage).not.toHaveBeenCalled();
+
+      clock.set('2026-01-02T00:00:00Z'); // 10:00 Vladivostok
+      await service.checkAndSendAssessments();
+      expect(sendMessage).toHaveBeenCalledTimes(1);
+      expect(sendMessage.mock.calls[0][0]).toBe(200);
+    });
+
+    it('should check at most once per local day', async () => {
+      await service.enrollUser('kgd', 300, 'Тест', undefined, 'Europe/Kaliningrad');
+
+      clock.set('2026-01-02T08:00:00Z'); // 10:00 Kaliningrad
+      await service.checkAndSendAssessments();
+      clock.set('2026-01-02T08:05:00Z');
+      await service.checkAndSendAssessments();
+
+      expect(sendMessage).toHaveBeenCalledTimes(1);
+    });
+
+    it('should wait until week 2 after a baseline assessment', async () => {
+      await service.enrollUser('kgd', 300, 'Тест', 20, 'Europe/Kaliningrad');
+
+      clock.set('2026-01-14T08:00:00Z'); // day 13, 10:00 Kaliningrad
+      await service.checkAndSendAssessments();
+      expect(sendMessage).not.toHaveBeenCalled();
+
+      clock.set('2026-01-15T08:00:00Z'); // day 14
+      await service.checkAndSendAssessments();
+      expect(sendMessage).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('week counting', () => {
+    it('should count local calendar days across the DST change', async () => {
+      // Enrolled 2026-03-16 00:30 CET; Berlin springs forward on 2026-03-29
+      clock.set('2026-03-15T23:30:00Z');
+      await service.enrollUser('ber', 400, 'Тест', 20, 'Europe/Berlin');
+
+      // 2026-03-30 00:10 CEST: 14 local days, but under 14 * 24 hours elapsed
+      clock.set('2026-03-29T22:10:00Z');
+      expect(service.isAssessmentDue('ber')).toBe(true);
+      expect(service.getNextAssessmentInfo('ber')).toEqual({ week: 2, daysUntil: 0 });
+    });
+  });
+
+  describe('protocols', () => {
+    it('should reject an unknown default protocol', () => {
+      expect(() => createISISchedulingService(bot, { clock, defaultProtocolId: 'nope' }))
+        .toThrow('Unknown assessment protocol: nope');
+    });
+
+    it('should reject invalid protocol definitions', () => {
+      const duplicate: IAssessmentProtocol = {
+        ...PHQ_ONLY,
+        schedules: [...PHQ_ONLY.schedules, { instrument: 'phq9', weeks: [4] }],
+      };
+      expect(() => createISISchedulingService(bot, { clock, protocols: [duplicate] }))
+        .toThrow('phq9 scheduled twice');
+    });
+
+    it('should reject enrollment in an unknown protocol', async () => {
+      await expect(service.enrollUser('u1', 100, 'Тест', 18, undefined, 'nope'))
+        .rejects.toThrow('Unknown assessment protocol');
+    });
+
+    it('should enroll every instrument of the protocol', async () => {
+      await service.enrollUser('u1', 100, 'Тест', 18, undefined, 'intensive_research');
+
+      expect(service.getUserData('u1')?.nextAssessmentWeek).toBe(1);
+      expect(service.getUserData('u1', 'phq9')?.nextAssessmentWeek).toBe(0);
+      expect(service.getUserData('u1', 'gad7')?.protocolId).toBe('intensive_research');
+      expect(service.getEnrolledCount()).toBe(1);
+    });
+
+    it('should use the configured default protocol', async () => {
+      service = createISISchedulingService(bot, { clock, protocols: [PHQ_ONLY], defaultProtocolId: 'phq_only' });
+      await service.enrollUser('u1', 100, 'Тест', 18);
+
+      expect(service.getUserData('u1')).toBeUndefined();
+      expect(service.getUserData('u1', 'phq9')?.nextAssessmentWeek).toBe(0);
+    });
+
+    it('should drop instruments not scheduled by a new protocol', async () => {
+      await service.enrollUser('u1', 100, 'Тест', 18, undefined, 'intensive_research');
+      await service.enrollUser('u1', 100, 'Тест', 18, undefined, 'standard');
+
+      expect(service.getUserData('u1', 'phq9')).toBeUndefined();
+      expect(service.getUserData('u1')?.nextAssessmentWeek).toBe(2);
+    });
+
+    it('should move an enrolled user to another cohort without restarting the schedule', async () => {
+      await service.enrollUser('u1', 100, 'Тест', 18);
+      clock.set(moscowTen(14));
+      await service.recordAssessment('u1', 15);
+
+      expect(await service.changeProtocol('u1', 'intensive_research')).toBe(true);
+
+      const isi = service.getUserData('u1');
+      expect(isi).toMatchObject({ protocolId: 'intensive_research', nextAssessmentWeek: 3 });
+      expect(isi?.enrollmentDate).toEqual(new Date('2026-01-01T09:00:00Z'));
+      expect(isi?.history.map((h) => h.week)).toEqual([0, 2]);
+      expect(service.getUserData('u1', 'phq9')).toMatchObject({ nextAssessmentWeek: 0, chatId: 100 });
+      expect(service.getAdherenceReport('u1')?.protocolId).toBe('intensive_research');
+    });
+
+    it('should not change the cohort of users who are not enrolled', async () => {
+      expect(await service.changeProtocol('u1', 'intensive_research')).toBe(false);
+      await expect(service.changeProtocol('u1', 'nope')).rejects.toThrow('Unknown assessment protocol');
+    });
+
+    it('should send questionnaire links for non-ISI instruments', async () => {
+      await service.enrollUser('u1', 100, 'Тест', 18, undefined, 'intensive_research');
+
+      clock.set(moscowTen(1));
+      await service.checkAndSendAssessments();
+
+      expect(sentCallbacks(sendMessage).sort()).toEqual(['assess:start:gad7', 'assess:start:phq9']);
+      expect(sendMessage.mock.calls[0][1]).toContain('опросник');
+    });
+
+    it('should deliver weekly ISI in the first month', async () => {
+      await service.enrollUser('u1', 100, 'Тест', 18, undefined, 'intensive_research');
+      await service.recordAssessment('u1', 9, 'phq9');
+      await service.recordAssessment('u1', 6, 'gad7');
+
+      clock.set(moscowTen(7));
+      await service.checkAndSendAssessments();
+
+      expect(sentCallbacks(sendMessage)).toEqual(['isi_schedule:start_assessment']);
+      expect(service.getNextAssessmentInfo('u1')).toEqual({ week: 1, daysUntil: 0 });
+    });
+  });
+
+  describe('windows and reminders', () => {
+    beforeEach(() => {
+      service = createISISchedulingService(bot, { clock, protocols: [PHQ_ONLY] });
+    });
+
+    it('should cap follow-up reminders per timepoint', async () => {
+      await service.enrollUser('u1', 100, 'Тест', undefined, undefined, 'phq_only');
+
+      for (let day = 1; day <= 6; day++) {
+        clock.set(moscowTen(day));
+        await service.checkAndSendAssessments();
+      }
+
+      // First notification plus two follow-ups
+      expect(sendMessage).toHaveBeenCalledTimes(3);
+      expect(sendMessage.mock.calls[1][1]).toContain('ещё ждёт тебя');
+      expect(service.getUserData('u1', 'phq9')?.reminderCount).toBe(2);
+    });
+
+    it('should mark a timepoint missed when its window closes', async () => {
+      await service.enrollUser('u1', 100, 'Тест', undefined, undefined, 'phq_only');
+
+      clock.set(moscowTen(11));
+      await service.checkAndSendAssessments();
+
+      const data = service.getUserData('u1', 'phq9');
+      expect(data?.missedWeeks).toEqual([0]);
+      expect(data?.nextAssessmentWeek).toBe(8);
+      expect(sendMessage).not.toHaveBeenCalled();
+    });
+
+    it('should finish the schedule when the last timepoint is missed', async () => {
+      await service.enrollUser('u1', 100, 'Тест', undefined, undefined, 'phq_only');
+
+      clock.set(moscowTen(67));
+      await service.recordAssessment('u1', 4, 'phq9');
+
+      const data = service.getUserData('u1', 'phq9');
+      expect(data?.missedWeeks).toEqual([0, 8]);
+      expect(data?.nextAssessmentWeek).toBe(-1);
+      expect(data?.history[0].unscheduled).toBe(true);
+    });
+
+    it('should keep an overdue ISI open until the next timepoint opens', async () => {
+      await service.enrollUser('u1', 100, 'Тест', 20);
+
+      clock.set(moscowTen(27));
+      expect(service.getNextAssessmentInfo('u1')).toEqual({ week: 2, daysUntil: 0 });
+
+      clock.set(moscowTen(28));
+      await service.checkAndSendAssessments();
+
+      expect(service.getUserData('u1')?.missedWeeks).toEqual([2]);
+      expect(service.getUserData('u1')?.nextAssessmentWeek).toBe(4);
+      expect(sendMessage).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not advance the schedule for an assessment outside the window', async () => {
+      await service.enrollUser('u1', 100, 'Тест', 20);
+
+      clock.set(moscowTen(5));
+      await service.recordAssessment('u1', 17);
+
+      const data = service.getUserData('u1');
+      expect(data?.nextAssessmentWeek).toBe(2);
+      expect(data?.history[1]).toMatchObject({ week: 0, score: 17, unscheduled: true });
+    });
+  });
+
+  describe('adherence report', () => {
+    it('should report the status of every scheduled timepoint', async () => {
+      await service.enrollUser('u1', 100, 'Тест', 20);
+      clock.set(moscowTen(15));
+      await service.recordAssessment('u1', 15);
+
+      clock.set(moscowTen(45));
+      const report = service.getAdherenceReport('u1');
+
+      expect(report?.protocolId).toBe('standard');
+      expect(report?.assessments.map((a) => [a.week, a.status])).toEqual([
+        [0, 'completed'],
+        [2, 'completed'],
+        [4, 'missed'],
+        [6, 'due'],
+        [8, 'upcoming'],
+        [12, 'upcoming'],
+      ]);
+      expect(report?.assessments[1]).toMatchObject({
+        instrument: 'isi',
+        windowStart: '2026-01-15',
+        windowEnd: '2026-01-21',
+        score: 15,
+      });
+      expect(report?.adherenceRate).toBeCloseTo(2 / 3);
+    });
+
+    it('should count responses after the window as late', async () => {
+      await service.enrollUser('u1', 100, 'Тест', 20);
+      clock.set(moscowTen(22));
+      await service.recordAssessment('u1', 14);
+
+      const report = service.getAdherenceReport('u1');
+
+      expect(report?.assessments[1].status).toBe('late');
+      expect(report?.late).toBe(1);
+      expect(report?.adherenceRate).toBe(1);
+    });
+
+    it('should cover all instruments of the protocol', async () => {
+      await service.enrollUser('u1', 100, 'Тест', 18, undefined, 'intensive_research');
+
+      const report = service.getAdherenceReport('u1');
+
+      expect(new Set(report?.assessments.map((a) => a.instrument))).toEqual(new Set(['isi', 'phq9', 'gad7']));
+      expect(report?.due).toBe(2);
+      expect(report?.adherenceRate).toBe(1);
+    });
+
+    it('should report on every enrolled user', async () => {
+      await service.enrollUser('u1', 100, 'Тест', 18);
+      await service.enrollUser('u2', 200, 'Тест');
+
+      expect(service.getAdherenceReports().map((r) => r.userId)).toEqual(['u1', 'u2']);
+      expect(service.getAdherenceReport('u3')).toBeNull();
+    });
+  });
+
+  describe('persistence', () => {
+    let db: SQLiteConnection;
+    let repository: AssessmentScheduleRepository;
+
+    beforeEach(async () => {
+      db = new SQLiteConnection({ type: 'sqlite', connectionString: ':memory:', verbose: false });
+      await db.connect();
+      const migration = new SQLiteMigration(db);
+      await migration.initialize();
+      await migration.migrate([...MIGRATIONS]);
+
+      repository = new AssessmentScheduleRepository(db);
+      service = createISISchedulingService(bot, { clock, repository });
+    });
+
+    afterEach(async () => {
+      await db.close();
+    });
+
+    const restart = async (): Promise<ISISchedulingService> => {
+      const restarted = createISISchedulingService(bot, { clock, repository });
+      await restarted.rehydrate();
+      return restarted;
+    };
+
+    it('should restore enrollment and ISI history after a restart', async () => {
+      await service.enrollUser('kgd', 300, 'Тест', 20, 'Europe/Kaliningrad');
+      clock.set('2026-01-15T08:00:00Z');
+      await service.recordAssessment('kgd', 15);
+
+      const restarted = await restart();
+      const data = restarted.getUserData('kgd');
+
+      expect(data?.timezone).toBe('Europe/Kaliningrad');
+      expect(data?.enrollmentDate).toEqual(new Date('2026-01-01T09:00:00Z'));
+      expect(data?.history.map((h) => h.score)).toEqual([20, 15]);
+      expect(data?.history[1].date).toEqual(new Date('2026-01-15T08:00:00Z'));
+      expect(data?.nextAssessmentWeek).toBe(4);
+    });
+
+    it('should send the week 2 follow-up after a restart', async () => {
+      await service.enrollUser('kgd', 300, 'Тест', 20, 'Europe/Kaliningrad');
+
+      const restarted = await restart();
+      clock.set('2026-01-15T08:00:00Z'); // day 14, 10:00 Kaliningrad
+      await restarted.checkAndSendAssessments();
+
+      expect(sendMessage).toHaveBeenCalledTimes(1);
+      expect(sendMessage.mock.calls[0][0]).toBe(300);
+    });
+
+    it('should not resend a reminder already sent before the restart', async () => {
+      await service.enrollUser('kgd', 300, 'Тест', 20, 'Europe/Kaliningrad');
+      clock.set('2026-01-15T08:00:00Z');
+      await service.checkAndSendAssessments();
+
+      const restarted = await restart();
+      clock.set('2026-01-15T08:05:00Z');
+      await restarted.checkAndSendAssessments();
+
+      expect(sendMessage).toHaveBeenCalledTimes(1);
+      expect(restarted.getUserData('kgd')?.reminderSent).toBe(true);
+    });
+
+    it('should restore protocol tracks, reminders and missed timepoints', async () => {
+      await service.enrollUser('kgd', 300, 'Тест', 20, 'Europe/Moscow', 'intensive_research');
+      clock.set(moscowTen(1));
+      await service.checkAndSendAssessments();
+      clock.set(moscowTen(2));
+      await service.checkAndSendAssessments();
+      clock.set(moscowTen(4));
+      await service.checkAndSendAssessments();
+
+      const restarted = await restart();
+      const phq9 = restarted.getUserData('kgd', 'phq9');
+
+      expect(phq9?.protocolId).toBe('intensive_research');
+      expect(phq9?.missedWeeks).toEqual([0]);
+      expect(phq9?.nextAssessmentWeek).toBe(8);
+      expect(restarted.getAdherenceReport('kgd')?.missed).toBe(2);
+    });
+
+    it('should not restore unenrolled users', async () => {
+      await service.enrollUser('kgd', 300, 'Тест', 20, 'Europe/Kaliningrad');
+      await service.unenrollUser('kgd');
+
+      const restarted = await restart();
+
+      expect(restarted.getEnrolledCount()).toBe(0);
+    });
+
+    it('should restore a schedule when an unenrolled user enrolls again', async () => {
+      await service.enrollUser('kgd', 300, 'Тест', 20, 'Europe/Kaliningrad');
+      await service.unenrollUser('kgd');
+      await service.enrollUser('kgd', 300, 'Тест', 12, 'Europe/Kaliningrad');
+
+      const restarted = await restart();
+
+      expect(restarted.getUserData('kgd')?.history.map((h) => h.score)).toEqual([12]);
+    });
+  });
+});
@@ -0,0 +1,282 @@
+/**
+ * MedicationTaperingService Unit Tests
+ * ====================================
+ * Tests for supervised hypnotic tapering backed by SQLite.
+ *
+ * Covers:
+ * - Reduction schedule with dose rounding
+ * - Clinician sign-off before each step, holds and resume
+ * - Nightly use from the sleep diary
+ * - Rebound insomnia and withdrawal symptoms reported as adverse events
+ */
+
+import {
+  MedicationTaperingService,
+  createMedicationTaperingService,
+  DEFAULT_MEDICATION_TAPERING_CONFIG,
+  type ITaperPlanRequest,
+} from '../../../../src/bot/services/MedicationTaperingService';
+import { createAdverseEventService } from '../../../../src/bot/services/AdverseEventService';
+import { SleepDiaryRepository } from '../../../../src/infrastructure/database/repositories/SleepDiaryRepository';
+import { SQLiteConnection } from '../../../../src/infrastructure/database/sqlite/SQLiteConnection';
+import { SQLiteMigration } from '../../../../src/infrastructure/database/sqlite/SQLiteMigration';
+import { MIGRATIONS } from '../../../../src/infrastructure/database/migrations';
+import type { ISleepMedicationDose } from '../../../../src/sleep/interfaces/ISleepState';
+
+// ==================== Helpers ====================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const START = new Date('2025-03-01T09:00:00Z');
+
+const ZOPICLONE: ISleepMedicationDose = { name: 'Зопиклон', type: 'hypnotic', dose: 7.5, unit: 'mg' };
+
+function makeRequest(overrides: Partial<ITaperPlanRequest> = {}): ITaperPlanRequest {
+  return {
+    userId: '1',
+    medication: ZOPICLONE,
+    medicationClass: 'z_drug',
+    prescribedBy: 'dr-ivanova',
+    startDate: START,
+    ...overrides,
+  };
+}
+
+function day(offset: number): Date {
+  return new Date(START.getTime() + offset * DAY_MS);
+}
+
+// ==================== Tests ====================
+
+describe('MedicationTaperingService', () => {
+  let db: SQLiteConnection;
+  let service: MedicationTaperingService;
+  let diary: SleepDiaryRepository;
+
+  /**
+   * Diary night `offset` days after the plan start
+   */
+  async function addNight(
+    offset: number,
+    sleep: { efficiency: number; latency: number },
+    medications?: ISleepMedicationDose[]
+  ): Promise<void> {
+    await diary.upsert({
+      userId: '1',
+      date: day(offset).toISOString().slice(0, 10),
+      bedtime: '23:00',
+      lightsOffTime: '23:00',
+      sleepOnsetLatency: sleep.latency,
+      wakeTime: '07:00',
+      outOfBedTime: '07:00',
+      nightAwakenings: 1,
+      wakeAfterSleepOnset: 20,
+      totalSleepTime: Math.round(480 * sleep.efficiency / 100),
+      timeInBed: 480,
+      sleepEfficiency: sleep.efficiency,
+      sleepQuality: 3,
+      morningMood: 3,
+      sleepMedications: medications,
+      deletedAt: null,
+    });
+  }
+
+  beforeAll(async () => {
+    db = new SQLiteConnection({
+      type: 'sqlite',
+      connectionString: ':memory:',
+      verbose: false,
+    });
+    await db.connect();
+
+    const migration = new SQLiteMigration(db);
+    await migration.initialize();
+    await migration.migrate([...MIGRATIONS]);
+
+    await db.execute(
+      `INSERT INTO users (id, external_id, first_name, created_at, updated_at)
+       VALUES (?, ?, ?, datetime('now'), datetime('now'))`,
+      [1, '1', 'TestUser']
+    );
+    diary = new SleepDiaryRepository(db);
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    await db.execute('DELETE FROM medication_taper_plans');
+    await db.execute('DELETE FROM sleep_diary_entries');
+    await db.execute('DELETE FROM safety_alerts');
+    await db.execute('DELETE FROM adverse_event_followups');
+    await db.execute('DELETE FROM adverse_events');
+    service = createMedicationTaperingService(db);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('buildSchedule', () => {
+    it('should reduce by 25% of the starting dose down to zero', () => {
+      expect(service.buildSchedule(7.5, 'mg')).toEqual([7.5, 5.5, 4, 2, 0]);
+      expect(service.buildSchedule(1, 'tablet')).toEqual([1, 0.75, 0.5, 0.25, 0]);
+    });
+
+    it('should skip steps that round to the previous dose', () => {
+      expect(service.buildSchedule(0.5, 'tablet', 10)).toEqual([0.5, 0.25, 0]);
+    });
+
+    it('should reject invalid doses and percentages', () => {
+      expect(() => service.buildSchedule(0, 'mg')).toThrow('Starting dose');
+      expect(() => service.buildSchedule(10, 'mg', 0)).toThrow('Reduction percent');
+    });
+  });
+
+  describe('createPlan', () => {
+    it('should start at the current dose signed off by the prescriber', async () => {
+      const plan = await service.createPlan(makeRequest());
+
+      expect(plan.status).toBe('active');
+      expect(plan.currentStep).toBe(0);
+      expect(plan.stepIntervalDays).toBe(DEFAULT_MEDICATION_TAPERING_CONFIG.stepIntervalDays);
+      expect(plan.steps[0]).toMatchObject({ dose: 7.5, status: 'current', signedOffBy: 'dr-ivanova' });
+      expect(plan.steps[0].startedAt).toEqual(START);
+      expect(plan.steps.slice(1).every((s) => s.status === 'planned' && !s.signedOffBy)).toBe(true);
+
+      expect(await service.getPrescribedDose('1')).toEqual(ZOPICLONE);
+    });
+
+    it('should allow only one open plan per user', async () => {
+      await service.createPlan(makeRequest());
+
+      await expect(service.createPlan(makeRequest())).rejects.toThrow('already has an open taper plan');
+    });
+  });
+
+  describe('sign-off', () => {
+    it('should not start a step before it is due', async () => {
+      const plan = await service.createPlan(makeRequest());
+
+      expect(service.getStatus(plan, day(13)).awaitingSignOff).toBe(false);
+      expect(await service.signOffNextStep(plan.id, 'dr-ivanova', day(13))).toBeNull();
+    });
+
+    it('should wait for sign-off when due and then reduce the dose', async () => {
+      const plan = await service.createPlan(makeRequest());
+
+      const status = service.getStatus(plan, day(15));
+      expect(status).toMatchObject({ currentDose: 7.5, nextDose: 5.5, nextStepDue: true, awaitingSignOff: true });
+      expect(await service.getPrescribedDose('1')).toMatchObject({ dose: 7.5 });
+
+      const updated = await service.signOffNextStep(plan.id, 'dr-petrov', day(15));
+
+      expect(updated?.currentStep).toBe(1);
+      expect(updated?.steps[0]).toMatchObject({ status: 'completed', completedAt: day(15) });
+      expect(updated?.steps[1]).toMatchObject({ status: 'current', signedOffBy: 'dr-petrov', startedAt: day(15) });
+      expect(await service.getPrescribedDose('1')).toMatchObject({ dose: 5.5 });
+    });
+
+    it('should complete the plan at zero dose', async () => {
+      let plan = await service.createPlan(makeRequest({ reductionPercent: 50, stepIntervalDays: 7 }));
+
+      plan = (await service.signOffNextStep(plan.id, 'dr-ivanova', day(7)))!;
+      plan = (await service.signOffNextStep(plan.id, 'dr-ivanova', day(14)))!;
+
+      expect(plan.status).toBe('completed');
+      expect(service.getStatus(plan, day(30)).nextDose).toBeNull();
+      expect(await service.getOpenPlan('1')).toBeNull();
+      expect(await service.getPrescribedDose('1')).toBeNull();
+    });
+
+    it('should not step down while on hold until a clinician resumes', async () => {
+      const plan = await service.createPlan(makeRequest());
+
+      const held = await service.holdPlan(plan.id, 'patient_request', '1');
+      expect(held).toMatchObject({ status: 'on_hold', holdReason: 'patient_request' });
+      expect(await service.signOffNextStep(plan.id, 'dr-ivanova', day(20))).toBeNull();
+
+      const resumed = await service.resumePlan(plan.id, 'dr-ivanova');
+      expect(resumed?.status).toBe('active');
+      expect(resumed?.holdReason).toBeUndefined();
+      expect(await service.signOffNextStep(plan.id, 'dr-ivanova', day(20))).not.toBeNull();
+    });
+  });
+
+  describe('getNightlyUse', () => {
+    it('should count diary nights against the prescribed dose', async () => {
+      const plan = await service.createPlan(makeRequest());
+      const sleep = { efficiency: 85, latency: 20 };
+      await addNight(0, sleep, [ZOPICLONE]);
+      await addNight(1, sleep, [{ ...ZOPICLONE, dose: 15 }]);
+      await addNight(2, sleep, []);
+      await addNight(3, sleep);
+
+      expect(await service.getNightlyUse(plan.id, day(3))).toEqual({
+        nightsReported: 3,
+        nightsAbovePrescribed: 1,
+        nightsWithout: 1,
+      });
+    });
+  });
+
+  describe('checkWithdrawal', () => {
+    async function reducedPlan() {
+      const plan = await service.createPlan(makeRequest());
+      for (let i = 8; i < 15; i++) await addNight(i, { efficiency: 88, latency: 15 }, [ZOPICLONE]);
+      return (await service.signOffNextStep(plan.id, 'dr-ivanova', day(15)))!;
+    }
+
+    it('should not report stable sleep after a reduction', async () => {
+      const plan = await reducedPlan();
+      for (let i = 15; i < 19; i++) await addNight(i, { efficiency: 86, latency: 20 });
+
+      const check = await service.checkWithdrawal(plan.id, [], day(19));
+
+      expect(check).toMatchObject({ reboundInsomnia: false, efficiencyChange: -2, latencyChange: 5, report: null });
+      expect(check?.plan.status).toBe('active');
+    });
+
+    it('should report rebound insomnia once and hold the plan', async () => {
+      const plan = await reducedPlan();
+      for (let i = 15; i < 19; i++) await addNight(i, { efficiency: 72, latency: 55 });
+
+      const check = await service.checkWithdrawal(plan.id, [], day(19));
+
+      expect(check?.reboundInsomnia).toBe(true);
+      expect(check?.report).toMatchObject({
+        dtxCategory: 'REBOUND_INSOMNIA',
+        severity: 'moderate',
+        isSerious: false,
+        actionTaken: 'temporarily_interrupted',
+        reportedBy: 'system',
+      });
+      expect(check?.plan).toMatchObject({ status: 'on_hold', holdReason: 'adverse_event' });
+      expect(check?.plan.steps[1].adverseEventIds).toEqual([check?.report?.id]);
+
+      const again = await service.checkWithdrawal(plan.id, [], day(20));
+      expect(again?.report).toBeNull();
+      expect(await createAdverseEventService(db).getAllReports({ userId: '1' })).toHaveLength(1);
+    });
+
+    it('should report withdrawal seizures as serious', async () => {
+      const plan = await reducedPlan();
+
+      const check = await service.checkWithdrawal(plan.id, ['tremor', 'seizure'], day(16));
+
+      expect(check?.report).toMatchObject({
+        dtxCategory: 'WITHDRAWAL_SYMPTOMS',
+        severity: 'severe',
+        isSerious: true,
+        expectedness: 'unexpected',
+        reportedBy: 'patient',
+      });
+      expect(check?.report?.cioms.reactionTerm).toBe('Drug withdrawal syndrome');
+      expect(check?.plan.status).toBe('on_hold');
+
+      const alerts = await createAdverseEventService(db).getUnacknowledgedAlerts();
+      expect(alerts.map((a) => a.type)).toEqual(expect.arrayContaining(['SERIOUS_AE', 'SUSAR']));
+    });
+  });
+});
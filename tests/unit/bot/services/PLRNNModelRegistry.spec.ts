@@ -0,0 +1,245 @@
+/**
+ * PLRNNModelRegistry Unit Tests
+ * =============================
+ * Tests for the population prior / per-user PLRNN model registry
+ * and its persistence through PLRNNModelRepository.
+ */
+
+import {
+  PLRNNModelRegistry,
+  POPULATION_MODEL_KEY,
+  getUserModelKey,
+} from '../../../../src/bot/services/PLRNNModelRegistry';
+import {
+  SleepPredictionService,
+  DEFAULT_SLEEP_PREDICTION_CONFIG,
+} from '../../../../src/bot/services/SleepPredictionService';
+import { SQLiteConnection } from '../../../../src/infrastructure/database/sqlite/SQLiteConnection';
+import { SQLiteMigration } from '../../../../src/infrastructure/database/sqlite/SQLiteMigration';
+import { MIGRATIONS } from '../../../../src/infrastructure/database/migrations';
+import { PLRNNModelRepository } from '../../../../src/infrastructure/database/repositories/PLRNNModelRepository';
+import type { ISleepMetrics } from '../../../../src/sleep/interfaces/ISleepState';
+
+const PLRNN_CONFIG = DEFAULT_SLEEP_PREDICTION_CONFIG.plrnnConfig;
+
+const OBSERVATIONS = [
+  [0.8, 0.2, 0.2, 0.55, 0.6],
+  [0.85, 0.15, 0.15, 0.6, 0.7],
+];
+
+function train(registry: PLRNNModelRegistry, userId: string, samples = 3): void {
+  for (let i = 0; i < samples; i++) {
+    const result = registry.getOrCreateUserEngine(userId).trainOnline({
+      observations: OBSERVATIONS,
+      timestamps: [new Date(), new Date()],
+      userId,
+    });
+    registry.recordValidationLoss(userId, result.validationLoss);
+  }
+}
+
+const metrics = (sleepEfficiency: number): ISleepMetrics => ({
+  timeInBed: 480,
+  totalSleepTime: Math.round(480 * sleepEfficiency / 100),
+  sleepOnsetLatency: 20,
+  wakeAfterSleepOnset: 30,
+  sleepEfficiency,
+  numberOfAwakenings: 1,
+  bedtime: '23:00',
+  wakeTime: '07:00',
+  finalAwakening: '06:50',
+  outOfBedTime: '07:00',
+});
+
+describe('PLRNNModelRegistry', () => {
+  let db: SQLiteConnection;
+  let repository: PLRNNModelRepository;
+
+  beforeAll(async () => {
+    db = new SQLiteConnection({
+      type: 'sqlite',
+      connectionString: ':memory:',
+      verbose: false,
+    });
+    await db.connect();
+
+    const migration = new SQLiteMigration(db);
+    await migration.initialize();
+    await migration.migrate([...MIGRATIONS]);
+
+    repository = new PLRNNModelRepository(db);
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  beforeEach(async () => {
+    await db.execute('DELETE FROM plrnn_models');
+  });
+
+  describe('engine access', () => {
+    it('should fall back to the population prior for new users', () => {
+      const registry = new PLRNNModelRegistry(PLRNN_CONFIG);
+
+      expect(registry.getEngine('new-user')).toBe(registry.getPopulationEngine());
+      expect(registry.hasUserModel('new-user')).toBe(false);
+      expect(registry.getModelInfo('new-user').scope).toBe('population');
+    });
+
+    it('should fork user models from the prior', () => {
+      const registry = new PLRNNModelRegistry(PLRNN_CONFIG);
+      const prior = registry.getPopulationEngine().getWeights();
+
+      const engine = registry.getOrCreateUserEngine('user-1');
+
+      expect(engine).not.toBe(registry.getPopulationEngine());
+      expect(engine.getWeights().A).toEqual(prior.A);
+      expect(registry.getEngine('user-1')).toBe(engine);
+      expect(registry.getModelInfo('user-1')).toMatchObject({ scope: 'user', trainingSamples: 0 });
+    });
+
+    it('should train user models without changing the prior or other users', () => {
+      const registry = new PLRNNModelRegistry(PLRNN_CONFIG);
+      const prior = registry.getPopulationEngine().getWeights();
+      registry.getOrCreateUserEngine('user-2');
+
+      train(registry, 'user-1');
+
+      expect(registry.getPopulationEngine().getWeights().A).toEqual(prior.A);
+      expect(registry.getEngine('user-2').getWeights().A).toEqual(prior.A);
+      expect(registry.getEngine('user-1').getWeights().A).not.toEqual(prior.A);
+      expect(registry.getModelInfo('user-1').trainingSamples).toBe(3);
+      expect(registry.getModelInfo('user-1').validationLoss).toEqual(expect.any(Number));
+    });
+  });
+
+  describe('persistence', () => {
+    it('should save and restore user weights, state and metadata', async () => {
+      const registry = new PLRNNModelRegistry(PLRNN_CONFIG, repository);
+      train(registry, 'user-1');
+      const weights = registry.getEngine('user-1').getWeights();
+      const state = {
+        latentState: OBSERVATIONS[1],
+        hiddenActivations: [],
+        observedState: OBSERVATIONS[1],
+        uncertainty: [0.1, 0.1, 0.1, 0.1, 0.1],
+        timestamp: new Date('2026-03-01T07:00:00Z'),
+        timestep: 1,
+      };
+
+      const saved = await registry.saveUser('user-1', state);
+
+      expect(saved).toMatchObject({
+        modelKey: getUserModelKey('user-1'),
+        userId: 'user-1',
+        version: 1,
+        trainingSamples: 3,
+      });
+      expect(saved!.validationLoss).toBeCloseTo(registry.getModelInfo('user-1').validationLoss!);
+
+      const restarted = new PLRNNModelRegistry(PLRNN_CONFIG, repository);
+      const restoredState = await restarted.loadUser('user-1');
+
+      expect(restarted.getEngine('user-1').getWeights().A).toEqual(weights.A);
+      expect(restarted.getModelInfo('user-1')).toMatchObject({ scope: 'user', version: 1, trainingSamples: 3 });
+      expect(restoredState?.timestamp).toEqual(state.timestamp);
+      expect(restoredState?.observedState).toEqual(state.observedState);
+    });
+
+    it('should increment the version on every save', async () => {
+      const registry = new PLRNNModelRegistry(PLRNN_CONFIG, repository);
+      train(registry, 'user-1', 1);
+
+      await registry.saveUser('user-1');
+      train(registry, 'user-1', 1);
+      const saved = await registry.saveUser('user-1');
+
+      expect(saved?.version).toBe(2);
+      expect(saved?.trainingSamples).toBe(2);
+      expect(registry.getModelInfo('user-1').version).toBe(2);
+    });
+
+    it('should persist the population prior', async () => {
+      const trained = new PLRNNModelRegistry(PLRNN_CONFIG);
+      train(trained, 'donor');
+      const priorWeights = trained.getEngine('donor').getWeights();
+
+      const registry = new PLRNNModelRegistry(PLRNN_CONFIG, repository);
+      registry.setPopulationWeights(priorWeights);
+      await registry.savePopulation();
+
+      const restarted = new PLRNNModelRegistry(PLRNN_CONFIG, repository);
+      expect(await restarted.loadPopulation()).toBe(true);
+      expect(restarted.getPopulationEngine().getWeights().A).toEqual(priorWeights.A);
+      expect((await repository.findByKey(POPULATION_MODEL_KEY))?.userId).toBeUndefined();
+
+      // New users start from the persisted prior
+      expect(restarted.getOrCreateUserEngine('new-user').getWeights().A).toEqual(priorWeights.A);
+    });
+
+    it('should report missing models', async () => {
+      const registry = new PLRNNModelRegistry(PLRNN_CONFIG, repository);
+
+      expect(await registry.loadPopulation()).toBe(false);
+      expect(await registry.loadUser('unknown')).toBeNull();
+      expect(await registry.saveUser('unknown')).toBeNull();
+    });
+
+    it('should delete user models', async () => {
+      const registry = new PLRNNModelRegistry(PLRNN_CONFIG, repository);
+      train(registry, 'user-1', 1);
+      await registry.saveUser('user-1');
+
+      await registry.deleteUser('user-1');
+
+      expect(registry.hasUserModel('user-1')).toBe(false);
+      expect(await repository.findByKey(getUserModelKey('user-1'))).toBeNull();
+    });
+  });
+
+  describe('SleepPredictionService integration', () => {
+    const night = (userId: string, day: number, sleepEfficiency: number) => ({
+      userId,
+      date: new Date(Date.now() - (10 - day) * 24 * 60 * 60 * 1000),
+      metrics: metrics(sleepEfficiency),
+      subjectiveQuality: 0.6,
+    });
+
+    it('should personalize predictions and restore them after a restart', async () => {
+      const service = new SleepPredictionService({}, repository);
+      for (let day = 0; day < 7; day++) {
+        await service.trainOnline('user-1', night('user-1', day, 70 + day * 3));
+      }
+      service.addSleepEntry(night('user-2', 7, 85));
+
+      expect(service.getModelInfo('user-1')).toMatchObject({ scope: 'user', trainingSamples: 6 });
+      expect(service.getModelInfo('user-2').scope).toBe('population');
+      expect(service.getStats().personalizedModels).toBe(1);
+
+      // Every training update is saved
+      expect((await repository.findByKey(getUserModelKey('user-1')))?.version).toBe(6);
+
+      const restarted = new SleepPredictionService({}, repository);
+      expect(await restarted.restoreUserModel('user-1')).toBe(true);
+      expect(await restarted.restoreUserModel('user-2')).toBe(false);
+      expect(restarted.getModelInfo('user-1')).toMatchObject({ scope: 'user', version: 6, trainingSamples: 6 });
+      expect(restarted.getCurrentState('user-1')?.observedState).toEqual(
+        service.getCurrentState('user-1')?.observedState
+      );
+    });
+
+    it('should restore the persisted model before the first update after a restart', async () => {
+      const service = new SleepPredictionService({}, repository);
+      for (let day = 0; day < 3; day++) {
+        await service.trainOnline('user-1', night('user-1', day, 75));
+      }
+
+      const restarted = new SleepPredictionService({}, repository);
+      await restarted.trainOnline('user-1', night('user-1', 3, 80));
+      await restarted.trainOnline('user-1', night('user-1', 4, 82));
+
+      expect(restarted.getModelInfo('user-1')).toMatchObject({ scope: 'user', version: 4, trainingSamples: 3 });
+    });
+  });
+});
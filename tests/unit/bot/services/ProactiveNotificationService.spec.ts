@@ -0,0 +1,303 @@
+/**
+ * ProactiveNotificationService Unit Tests
+ * =======================================
+ * Tests for per-user local-time notification dispatch.
+ *
+ * Covers:
+ * - Delivery at each user's local morning/evening time
+ * - No duplicate sends within a local day
+ * - Daylight-saving transitions (skipped and repeated hours)
+ * - Preference updates and invalid timezone fallback
+ * - Persistence and rehydration after restart
+ */
+
+import type { Bot, Context } from 'grammy';
+import {
+  ProactiveNotificationService,
+  createProactiveNotificationService,
+  type IUserNotificationData,
+} from '../../../../src/bot/services/ProactiveNotificationService';
+import type { ContextAwareMenuService } from '../../../../src/bot/commands/registry/ContextAwareMenuService';
+import type { IClock } from '../../../../src/bot/services/ZonedTime';
+import { NotificationSubscriptionRepository } from '../../../../src/infrastructure/database/repositories/NotificationSubscriptionRepository';
+import { SQLiteConnection } from '../../../../src/infrastructure/database/sqlite/SQLiteConnection';
+import { SQLiteMigration } from '../../../../src/infrastructure/database/sqlite/SQLiteMigration';
+import { MIGRATIONS } from '../../../../src/infrastructure/database/migrations';
+
+// ==================== Helpers ====================
+
+class FakeClock implements IClock {
+  constructor(private current: Date) {}
+
+  now(): Date {
+    return new Date(this.current);
+  }
+
+  set(iso: string): void {
+    this.current = new Date(iso);
+  }
+}
+
+const createUser = (
+  userId: string,
+  chatId: number,
+  timezone: string,
+  overrides: Partial<IUserNotificationData['preferences']> = {}
+): Omit<IUserNotificationData, 'firstInteractionAt' | 'reengagementAttempts'> => ({
+  chatId,
+  userId,
+  userName: 'Тест',
+  preferences: {
+    enabled: true,
+    morningTime: '08:00',
+    eveningTime: '20:00',
+    timezone,
+    ...overrides,
+  },
+  context: {},
+});
+
+// ==================== Tests ====================
+
+describe('ProactiveNotificationService', () => {
+  let sendMessage: jest.Mock;
+  let clock: FakeClock;
+  let bot: Bot<Context>;
+  let menuService: ContextAwareMenuService;
+  let service: ProactiveNotificationService;
+
+  const chatIdsSent = (): number[] => sendMessage.mock.calls.map((call) => call[0] as number);
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    sendMessage = jest.fn().mockResolvedValue({});
+    bot = { api: { sendMessage } } as unknown as Bot<Context>;
+    menuService = {
+      generateReengagementMessage: jest.fn().mockReturnValue(null),
+    } as unknown as ContextAwareMenuService;
+
+    clock = new FakeClock(new Date('2026-01-14T12:00:00Z'));
+    service = createProactiveNotificationService(bot, menuService, { clock });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('local-time delivery', () => {
+    beforeEach(async () => {
+      await service.registerUser(createUser('kaliningrad', 1, 'Europe/Kaliningrad'));
+      await service.registerUser(createUser('vladivostok', 2, 'Asia/Vladivostok'));
+    });
+
+    it('should send morning notification at 08:00 Vladivostok time only to that user', async () => {
+      clock.set('2026-01-14T22:00:00Z'); // 08:00 Vladivostok, 00:00 Kaliningrad
+      await service.dispatchDueNotifications();
+
+      expect(chatIdsSent()).toEqual([2]);
+    });
+
+    it('should send morning notification at 08:00 Kaliningrad time only to that user', async () => {
+      clock.set('2026-01-15T06:00:00Z'); // 08:00 Kaliningrad, 16:00 Vladivostok
+      await service.dispatchDueNotifications();
+
+      expect(chatIdsSent()).toEqual([1]);
+    });
+
+    it('should not send before the local target time', async () => {
+      clock.set('2026-01-15T05:55:00Z'); // 07:55 Kaliningrad
+      await service.dispatchDueNotifications();
+
+      expect(sendMessage).not.toHaveBeenCalled();
+    });
+
+    it('should send each slot once per local day', async () => {
+      clock.set('2026-01-15T06:00:00Z');
+      await service.dispatchDueNotifications();
+      clock.set('2026-01-15T06:05:00Z');
+      await service.dispatchDueNotifications();
+      clock.set('2026-01-15T07:00:00Z');
+      await service.dispatchDueNotifications();
+
+      expect(chatIdsSent()).toEqual([1]);
+
+      clock.set('2026-01-16T06:00:00Z');
+      await service.dispatchDueNotifications();
+
+      expect(chatIdsSent()).toEqual([1, 1]);
+    });
+
+    it('should catch up after a missed dispatch tick', async () => {
+      clock.set('2026-01-15T06:40:00Z'); // 08:40 Kaliningrad
+      await service.dispatchDueNotifications();
+
+      expect(chatIdsSent()).toEqual([1]);
+    });
+
+    it('should not send stale notifications after the catch-up window', async () => {
+      clock.set('2026-01-15T08:00:00Z'); // 10:00 Kaliningrad
+      await service.dispatchDueNotifications();
+
+      expect(sendMessage).not.toHaveBeenCalled();
+    });
+
+    it('should send evening notification at local 20:00', async () => {
+      clock.set('2026-01-15T10:00:00Z'); // 20:00 Vladivostok
+      await service.dispatchDueNotifications();
+
+      expect(chatIdsSent()).toEqual([2]);
+    });
+  });
+
+  describe('daylight saving', () => {
+    it('should deliver a target inside the skipped spring-forward hour', async () => {
+      clock.set('2026-03-07T12:00:00Z');
+      await service.registerUser(createUser('ny', 3, 'America/New_York', { morningTime: '02:30' }));
+
+      // 2026-03-08 02:00 EST jumps to 03:00 EDT; 02:30 never occurs
+      clock.set('2026-03-08T06:55:00Z'); // 01:55 EST
+      await service.dispatchDueNotifications();
+      expect(sendMessage).not.toHaveBeenCalled();
+
+      clock.set('2026-03-08T07:00:00Z'); // 03:00 EDT
+      await service.dispatchDueNotifications();
+      expect(chatIdsSent()).toEqual([3]);
+    });
+
+    it('should not resend during the repeated fall-back hour', async () => {
+      clock.set('2026-10-31T12:00:00Z');
+      await service.registerUser(createUser('ny', 3, 'America/New_York', { morningTime: '01:30' }));
+
+      // 2026-11-01 01:00-02:00 occurs twice in New York
+      clock.set('2026-11-01T05:30:00Z'); // 01:30 EDT
+      await service.dispatchDueNotifications();
+      clock.set('2026-11-01T06:30:00Z'); // 01:30 EST
+      await service.dispatchDueNotifications();
+
+      expect(chatIdsSent()).toEqual([3]);
+    });
+
+    it('should keep local 08:00 across the Berlin DST change', async () => {
+      clock.set('2026-03-27T12:00:00Z');
+      await service.registerUser(createUser('berlin', 4, 'Europe/Berlin'));
+
+      clock.set('2026-03-28T07:00:00Z'); // 08:00 CET
+      await service.dispatchDueNotifications();
+      clock.set('2026-03-29T06:00:00Z'); // 08:00 CEST
+      await service.dispatchDueNotifications();
+
+      expect(chatIdsSent()).toEqual([4, 4]);
+    });
+  });
+
+  describe('preferences', () => {
+    it('should fall back to Moscow for unknown timezones', async () => {
+      await service.registerUser(createUser('mars', 5, 'Mars/Olympus'));
+
+      expect(service.getUserData('mars')?.preferences.timezone).toBe('Europe/Moscow');
+    });
+
+    it('should deliver at the new local time after a timezone change', async () => {
+      await service.registerUser(createUser('mover', 6, 'Europe/Moscow'));
+      await service.updatePreferences('mover', { timezone: 'Asia/Vladivostok' });
+
+      clock.set('2026-01-15T05:00:00Z'); // 08:00 Moscow
+      await service.dispatchDueNotifications();
+      expect(sendMessage).not.toHaveBeenCalled();
+
+      clock.set('2026-01-15T22:00:00Z'); // 08:00 Vladivostok
+      await service.dispatchDueNotifications();
+      expect(chatIdsSent()).toEqual([6]);
+    });
+
+    it('should unregister the user when notifications are disabled', async () => {
+      await service.registerUser(createUser('quiet', 7, 'Europe/Moscow'));
+      await service.updatePreferences('quiet', { enabled: false });
+
+      expect(service.getUserData('quiet')).toBeUndefined();
+    });
+  });
+
+  describe('persistence', () => {
+    let db: SQLiteConnection;
+    let repository: NotificationSubscriptionRepository;
+
+    beforeEach(async () => {
+      db = new SQLiteConnection({ type: 'sqlite', connectionString: ':memory:', verbose: false });
+      await db.connect();
+      const migration = new SQLiteMigration(db);
+      await migration.initialize();
+      await migration.migrate([...MIGRATIONS]);
+
+      repository = new NotificationSubscriptionRepository(db);
+      service = createProactiveNotificationService(bot, menuService, { clock, repository });
+    });
+
+    afterEach(async () => {
+      await db.close();
+    });
+
+    const restart = async (): Promise<ProactiveNotificationService> => {
+      const restarted = createProactiveNotificationService(bot, menuService, { clock, repository });
+      await restarted.rehydrate();
+      return restarted;
+    };
+
+    it('should restore subscriptions after a restart', async () => {
+      await service.registerUser(createUser('vladivostok', 2, 'Asia/Vladivostok', { morningTime: '07:30' }));
+
+      const restarted = await restart();
+      const data = restarted.getUserData('vladivostok');
+
+      expect(data?.chatId).toBe(2);
+      expect(data?.preferences.timezone).toBe('Asia/Vladivostok');
+      expect(data?.preferences.morningTime).toBe('07:30');
+      expect(data?.firstInteractionAt).toEqual(clock.now());
+    });
+
+    it('should deliver reminders after a restart without user interaction', async () => {
+      await service.registerUser(createUser('kaliningrad', 1, 'Europe/Kaliningrad'));
+
+      const restarted = await restart();
+      clock.set('2026-01-15T06:00:00Z'); // 08:00 Kaliningrad
+      await restarted.dispatchDueNotifications();
+
+      expect(chatIdsSent()).toEqual([1]);
+    });
+
+    it('should not resend a slot already delivered before the restart', async () => {
+      await service.registerUser(createUser('kaliningrad', 1, 'Europe/Kaliningrad'));
+      clock.set('2026-01-15T06:00:00Z');
+      await service.dispatchDueNotifications();
+
+      const restarted = await restart();
+      clock.set('2026-01-15T06:05:00Z');
+      await restarted.dispatchDueNotifications();
+
+      expect(chatIdsSent()).toEqual([1]);
+    });
+
+    it('should not restore disabled subscriptions', async () => {
+      await service.registerUser(createUser('quiet', 7, 'Europe/Moscow'));
+      await service.updatePreferences('quiet', { enabled: false });
+
+      const restarted = await restart();
+
+      expect(restarted.getUserData('quiet')).toBeUndefined();
+      expect(await repository.findByUserId('quiet')).toMatchObject({ enabled: false });
+    });
+
+    it('should keep delivering when the repository fails', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      jest.spyOn(repository, 'upsert').mockRejectedValue(new Error('disk full'));
+
+      await service.registerUser(createUser('kaliningrad', 1, 'Europe/Kaliningrad'));
+      clock.set('2026-01-15T06:00:00Z');
+      await service.dispatchDueNotifications();
+
+      expect(chatIdsSent()).toEqual([1]);
+    });
+  });
+});
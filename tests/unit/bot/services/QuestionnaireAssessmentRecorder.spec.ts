@@ -0,0 +1,93 @@
+/**
+ * QuestionnaireAssessmentRecorder Unit Tests
+ * ==========================================
+ * Tests for persisting /assess results.
+ * Uses in-memory SQLite with foreign keys enforced.
+ *
+ * Covers:
+ * - Results stored under users.id for a user whose Telegram ID differs
+ * - ePRO item-level responses and duration
+ */
+
+import { recordQuestionnaireAssessment } from '../../../../src/bot/services/QuestionnaireAssessmentRecorder';
+import { AssessCommand } from '../../../../src/bot/commands/AssessCommand';
+import { AssessmentRepository } from '../../../../src/infrastructure/database/repositories/AssessmentRepository';
+import { SQLiteConnection } from '../../../../src/infrastructure/database/sqlite/SQLiteConnection';
+import { SQLiteMigration } from '../../../../src/infrastructure/database/sqlite/SQLiteMigration';
+import { MIGRATIONS } from '../../../../src/infrastructure/database/migrations';
+import type { ISleepCoreContext } from '../../../../src/bot/commands/interfaces/ICommand';
+
+const DB_USER_ID = 2;
+const TELEGRAM_ID = '900000001';
+
+describe('QuestionnaireAssessmentRecorder', () => {
+  let db: SQLiteConnection;
+  let repository: AssessmentRepository;
+
+  /**
+   * Metadata of a completed ESS answered with the given option index
+   */
+  async function completeEss(optionIndex: number): Promise<Record<string, unknown>> {
+    const ctx = { userId: TELEGRAM_ID, chatId: 1, dbUserId: DB_USER_ID } as unknown as ISleepCoreContext;
+    const answers = optionIndex.toString(36).repeat(8);
+    const startedAt = (Date.now() - 60_000).toString(36);
+    const result = await new AssessCommand().handleCallback(ctx, `assess:a:ess:${startedAt}:${answers}`, {});
+    return result.metadata!;
+  }
+
+  beforeAll(async () => {
+    db = new SQLiteConnection({
+      type: 'sqlite',
+      connectionString: ':memory:',
+      verbose: false,
+    });
+    await db.connect();
+
+    const migration = new SQLiteMigration(db);
+    await migration.initialize();
+    await migration.migrate([...MIGRATIONS]);
+
+    // Telegram IDs live in external_id; users.id is a separate key
+    await db.execute(
+      `INSERT INTO users (id, external_id, first_name, created_at, updated_at)
+       VALUES (?, ?, ?, datetime('now'), datetime('now'))`,
+      [DB_USER_ID, TELEGRAM_ID, 'TestUser']
+    );
+
+    repository = new AssessmentRepository(db);
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  beforeEach(async () => {
+    await db.execute('DELETE FROM assessments');
+  });
+
+  it('should store the result under users.id', async () => {
+    const metadata = await completeEss(2);
+
+    const saved = await recordQuestionnaireAssessment(repository, DB_USER_ID, metadata);
+
+    expect(saved).toMatchObject({ type: 'ess', score: 16 });
+    const rows = await db.query<{ user_id: number }>('SELECT user_id FROM assessments');
+    expect(rows).toEqual([{ user_id: DB_USER_ID }]);
+  });
+
+  it('should keep item responses and duration in the ePRO payload', async () => {
+    const saved = await recordQuestionnaireAssessment(repository, DB_USER_ID, await completeEss(1));
+
+    const payload = JSON.parse(saved.responsesJson);
+    expect(payload.items).toHaveLength(8);
+    expect(payload.items[0]).toEqual({ item: expect.any(String), value: 1 });
+    expect(payload.totalDurationMs).toBeGreaterThanOrEqual(60_000);
+  });
+
+  it('should be rejected by the foreign key when given a Telegram ID', async () => {
+    // SqliteError may come from another test file's realm, so match the message only
+    await expect(
+      recordQuestionnaireAssessment(repository, Number(TELEGRAM_ID), await completeEss(0))
+    ).rejects.toMatchObject({ message: expect.stringContaining('FOREIGN KEY') });
+  });
+});
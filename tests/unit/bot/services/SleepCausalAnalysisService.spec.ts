@@ -0,0 +1,148 @@
+/**
+ * SleepCausalAnalysisService Unit Tests
+ * =====================================
+ * Tests for the personal causal analysis of modifiable sleep factors
+ * over diary nights and completed therapy sessions.
+ */
+
+import { SleepCausalAnalysisService } from '../../../../src/bot/services/SleepCausalAnalysisService';
+import type {
+  ISleepDiaryEntryEntity,
+  ITherapySessionEntity,
+} from '../../../../src/infrastructure/database/interfaces/IRepository';
+
+const START = Date.parse('2025-03-01T00:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function diaryDate(day: number): string {
+  return new Date(START + day * DAY_MS).toISOString().slice(0, 10);
+}
+
+function clock(minutes: number): string {
+  const m = ((minutes % 1440) + 1440) % 1440;
+  return `${String(Math.floor(m / 60)).padStart(2, '0')}:${String(m % 60).padStart(2, '0')}`;
+}
+
+/** Deterministic pseudo-noise in [-1, 1] */
+function noise(day: number, salt: number): number {
+  const x = Math.sin(day * 12.9898 + salt * 78.233) * 43758.5453;
+  return (x - Math.floor(x)) * 2 - 1;
+}
+
+/**
+ * Lying in bed after waking lowers SE; the sleep window varies but does nothing
+ */
+function night(userId: string, day: number): ISleepDiaryEntryEntity {
+  const outOfBedDelay = [0, 10, 20, 30, 45, 60][(day * 5) % 6]!;
+  const bedtime = 23 * 60 + Math.round(noise(day, 1) * 30);
+  const wakeTime = 7 * 60;
+  const timeInBed = wakeTime + 1440 - bedtime + outOfBedDelay;
+  const sleepOnsetLatency = Math.round(20 + noise(day, 2) * 5);
+  const sleepEfficiency = Math.round((88 - outOfBedDelay * 0.3 + noise(day, 3)) * 10) / 10;
+  const totalSleepTime = Math.round((timeInBed * sleepEfficiency) / 100);
+
+  return {
+    userId,
+    date: diaryDate(day),
+    bedtime: clock(bedtime),
+    lightsOffTime: clock(bedtime),
+    sleepOnsetLatency,
+    wakeTime: clock(wakeTime),
+    outOfBedTime: clock(wakeTime + outOfBedDelay),
+    nightAwakenings: 1,
+    wakeAfterSleepOnset: Math.max(0, timeInBed - totalSleepTime - sleepOnsetLatency - outOfBedDelay),
+    totalSleepTime,
+    timeInBed,
+    sleepEfficiency,
+    sleepQuality: 3,
+    morningMood: 3 + (day % 3) - 1,
+  };
+}
+
+function session(userId: string, day: number): ITherapySessionEntity {
+  return {
+    userId,
+    sessionType: 'cbti',
+    week: 1,
+    component: 'stimulus_control',
+    status: 'completed',
+    adherence: 1,
+    homeworkCompleted: true,
+    scheduledAt: new Date(START + day * DAY_MS),
+    completedAt: new Date(START + day * DAY_MS + 12 * 60 * 60 * 1000),
+  };
+}
+
+const diary = Array.from({ length: 30 }, (_, day) => night('user-1', day));
+
+describe('SleepCausalAnalysisService', () => {
+  const service = new SleepCausalAnalysisService({ bootstrapSamples: 30 });
+
+  it('should require enough diary nights', async () => {
+    const result = await service.analyze('user-1', diary.slice(0, 10));
+
+    expect(result.status).toBe('insufficient_data');
+    expect(result.nights).toBe(10);
+    expect(result.nightsNeeded).toBe(11);
+    expect(result.topFactors).toEqual([]);
+    expect((await service.analyze('unknown', diary)).period).toBeNull();
+  });
+
+  it('should only use nights inside the analysis window', async () => {
+    const result = await service.analyze('user-1', [night('user-1', -60), ...diary.slice(0, 25)]);
+
+    expect(result.nights).toBe(25);
+    expect(result.period).toEqual({ from: diaryDate(0), to: diaryDate(24) });
+  });
+
+  describe('analyze', () => {
+    let result: Awaited<ReturnType<SleepCausalAnalysisService['analyze']>>;
+
+    beforeAll(async () => {
+      result = await service.analyze('user-1', [...diary, night('user-2', 40)], [session('user-2', 3)]);
+    });
+
+    it('should exclude factors that barely vary', () => {
+      expect(result.status).toBe('ok');
+      expect(result.nights).toBe(30);
+      expect(result.excludedFactors).toEqual(
+        expect.arrayContaining(['lightsOffDelay', 'wakeTimeIrregularity', 'therapyPractice'])
+      );
+      expect(result.effects.sleepEfficiency.map((e) => e.factor)).not.toContain('therapyPractice');
+    });
+
+    it('should find that lying in bed after waking lowers sleep efficiency', () => {
+      const top = result.topFactors[0]!;
+
+      expect(top.factor).toBe('outOfBedDelay');
+      expect(top.outcome).toBe('sleepEfficiency');
+      expect(top.supported).toBe(true);
+      expect(top.improvesSleep).toBe(false);
+      expect(top.effect).toBeLessThan(0);
+      expect(top.lowerBound).toBeLessThanOrEqual(top.effect);
+      expect(top.upperBound).toBeLessThan(0);
+      expect(top.stability).toBeGreaterThan(0.5);
+    });
+
+    it('should rank effects by standardized size and keep one top entry per factor', () => {
+      for (const effects of Object.values(result.effects)) {
+        for (let i = 1; i < effects.length; i++) {
+          expect(Math.abs(effects[i - 1]!.standardizedEffect)).toBeGreaterThanOrEqual(
+            Math.abs(effects[i]!.standardizedEffect)
+          );
+        }
+      }
+      const factors = result.topFactors.map((f) => f.factor);
+      expect(new Set(factors).size).toBe(factors.length);
+      expect(result.topFactors.every((f) => f.supported)).toBe(true);
+    });
+
+    it('should count completed sessions as practice on the following night', async () => {
+      const sessions = Array.from({ length: 15 }, (_, i) => session('user-1', i * 2));
+      const withPractice = await service.analyze('user-1', diary, sessions);
+
+      expect(withPractice.excludedFactors).not.toContain('therapyPractice');
+      expect(withPractice.effects.sleepOnsetLatency.map((e) => e.factor)).toContain('therapyPractice');
+    });
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * SleepDigitalTwinService Unit Tests
+ * ==================================
+ * Tests for the diary-fed sleep twin and Monte Carlo what-if forecasts
+ * of alternative sleep prescriptions.
+ */
+
+import {
+  SleepDigitalTwinService,
+  twinValuesToPOMDPState,
+} from '../../../../src/bot/services/SleepDigitalTwinService';
+import type { ISleepDiaryEntryEntity } from '../../../../src/infrastructure/database/interfaces/IRepository';
+
+const START = Date.parse('2025-03-01T00:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function diaryDate(day: number): string {
+  return new Date(START + day * DAY_MS).toISOString().slice(0, 10);
+}
+
+/** 8 h in bed, ~6.4 h asleep, wake time alternating around 07:00 */
+function night(userId: string, day: number): ISleepDiaryEntryEntity {
+  const totalSleepTime = 384 + ((day * 7) % 5) * 6 - 12;
+  return {
+    userId,
+    date: diaryDate(day),
+    bedtime: '23:00',
+    lightsOffTime: '23:00',
+    sleepOnsetLatency: 40,
+    wakeTime: day % 2 === 0 ? '06:50' : '07:10',
+    outOfBedTime: '07:00',
+    nightAwakenings: 2,
+    wakeAfterSleepOnset: 480 - totalSleepTime - 40,
+    totalSleepTime,
+    timeInBed: 480,
+    sleepEfficiency: Math.round((totalSleepTime / 480) * 1000) / 10,
+    sleepQuality: 3,
+    morningMood: 3,
+  };
+}
+
+const diary = Array.from({ length: 22 }, (_, day) => night('user-1', day));
+
+describe('SleepDigitalTwinService', () => {
+  const service = new SleepDigitalTwinService({ simulation: { seed: 42, numTrajectories: 200 } });
+
+  describe('buildTwin', () => {
+    it('should require enough recent nights', () => {
+      expect(service.buildTwin('user-1', diary.slice(0, 5))).toBeNull();
+      expect(service.buildTwin('unknown', diary)).toBeNull();
+    });
+
+    it('should map the diary onto the sleep POMDP state', () => {
+      const twin = service.buildTwin('user-1', [...diary, night('user-2', 30)])!;
+
+      expect(twin.asOf).toBe(diaryDate(21));
+      expect(twin.nights).toBe(22);
+      expect(twin.prescription).toEqual({ timeInBedMinutes: 480, wakeTime: '07:00' });
+      expect(twin.baseline.sleepEfficiency).toBeGreaterThan(75);
+      expect(twin.baseline.sleepEfficiency).toBeLessThan(85);
+      expect(Math.abs(twin.baseline.circadianDeviation)).toBeLessThan(0.2);
+
+      expect(Object.keys(twinValuesToPOMDPState(twin.current)).sort()).toEqual(
+        ['circadianDeviation', 'sleepEfficiency', 'solMinutes', 'wasoMinutes']
+      );
+
+      expect([...twin.state.variables.keys()]).toHaveLength(5);
+      for (const variable of twin.state.variables.values()) {
+        expect(variable.value).toBeGreaterThanOrEqual(0);
+        expect(variable.value).toBeLessThanOrEqual(1);
+        expect(twin.personalization.meanReversionRate.get(variable.id)).toBeGreaterThan(0);
+      }
+    });
+  });
+
+  describe('prescribe', () => {
+    const twin = service.buildTwin('user-1', diary)!;
+
+    it('should trade wake time for efficiency when TIB shrinks or grows', () => {
+      const restricted = service.prescribe(twin, { tibChangeMinutes: -15 });
+      expect(restricted.prescription.timeInBedMinutes).toBe(465);
+      expect(restricted.equilibrium.sleepEfficiency).toBeGreaterThan(twin.baseline.sleepEfficiency);
+      expect(restricted.equilibrium.tstMinutes).toBeCloseTo(twin.baseline.tstMinutes - 3.75);
+
+      const extended = service.prescribe(twin, { tibChangeMinutes: 15 });
+      expect(extended.equilibrium.sleepEfficiency).toBeLessThan(twin.baseline.sleepEfficiency);
+      expect(extended.equilibrium.tstMinutes).toBeCloseTo(twin.baseline.tstMinutes + 7.5);
+    });
+
+    it('should not restrict below the minimum time in bed', () => {
+      const { prescription } = service.prescribe(twin, { tibChangeMinutes: -300 });
+      expect(prescription.timeInBedMinutes).toBe(300);
+    });
+
+    it('should shift the schedule and start misaligned on a wake-time change', () => {
+      const earlier = service.prescribe(twin, { wakeTimeShiftMinutes: -30 });
+      expect(earlier.prescription).toEqual({ timeInBedMinutes: 480, wakeTime: '06:30' });
+      expect(earlier.start.circadianDeviation).toBeCloseTo(twin.current.circadianDeviation + 0.5);
+      expect(earlier.start.sleepEfficiency).toBeLessThan(twin.current.sleepEfficiency);
+      expect(earlier.equilibrium.sleepEfficiency).toBeCloseTo(twin.baseline.sleepEfficiency, 0);
+    });
+  });
+
+  describe('simulate', () => {
+    let result: Awaited<ReturnType<SleepDigitalTwinService['simulate']>>;
+
+    beforeAll(async () => {
+      result = await service.simulate(service.buildTwin('user-1', diary)!, undefined, 14);
+    });
+
+    it('should forecast the current prescription and each alternative', () => {
+      expect(result.scenarios.map((s) => s.scenario.id)).toEqual([
+        'current',
+        'tib_minus_15',
+        'tib_plus_15',
+        'wake_earlier_30',
+      ]);
+      for (const forecast of result.scenarios) {
+        expect(forecast.simulationCount).toBe(200);
+        expect(forecast.probabilityAboveTarget).toBeGreaterThanOrEqual(0);
+        expect(forecast.probabilityAboveTarget).toBeLessThanOrEqual(1);
+      }
+    });
+
+    it('should return ordered SE and TST bands for every night of the horizon', () => {
+      for (const forecast of result.scenarios) {
+        for (const band of [forecast.bands.sleepEfficiency, forecast.bands.tstMinutes]) {
+          expect(band).toHaveLength(14);
+          expect(band[0]?.date).toBe(diaryDate(22));
+          for (const point of band) {
+            expect(point.lower).toBeLessThanOrEqual(point.median);
+            expect(point.median).toBeLessThanOrEqual(point.upper);
+          }
+        }
+      }
+    });
+
+    it('should move the forecast towards the prescription equilibrium', () => {
+      const end = (id: string, metric: 'sleepEfficiency' | 'tstMinutes'): number =>
+        result.scenarios.find((s) => s.scenario.id === id)!.bands[metric][13]!.mean;
+
+      expect(end('tib_minus_15', 'sleepEfficiency')).toBeGreaterThan(end('current', 'sleepEfficiency'));
+      expect(end('tib_plus_15', 'sleepEfficiency')).toBeLessThan(end('current', 'sleepEfficiency'));
+      expect(end('tib_plus_15', 'tstMinutes')).toBeGreaterThan(end('current', 'tstMinutes'));
+
+      const wakeShift = result.scenarios.find((s) => s.scenario.id === 'wake_earlier_30')!;
+      const current = result.scenarios.find((s) => s.scenario.id === 'current')!;
+      expect(wakeShift.bands.sleepEfficiency[0]!.mean).toBeLessThan(current.bands.sleepEfficiency[0]!.mean);
+    });
+
+    it('should be reproducible with a seed and JSON-serializable', async () => {
+      const again = await new SleepDigitalTwinService({ simulation: { seed: 42, numTrajectories: 200 } })
+        .whatIf('user-1', diary, undefined, 14);
+
+      expect(again?.scenarios.map((s) => s.bands)).toEqual(result.scenarios.map((s) => s.bands));
+      expect(JSON.parse(JSON.stringify(result))).toEqual(result);
+    });
+  });
+});
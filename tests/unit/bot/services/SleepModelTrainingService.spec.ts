@@ -0,0 +1,216 @@
+/**
+ * SleepModelTrainingService Unit Tests
+ * ====================================
+ * Tests for building PLRNN training sequences from sleep diaries,
+ * the per-user split, offline training and next-night evaluation.
+ */
+
+import {
+  SleepModelTrainingService,
+  type IDiaryTrainingSequence,
+} from '../../../../src/bot/services/SleepModelTrainingService';
+import { SleepPredictionService } from '../../../../src/bot/services/SleepPredictionService';
+import type { ISleepDiaryEntryEntity } from '../../../../src/infrastructure/database/interfaces/IRepository';
+
+const START = Date.parse('2026-03-01T00:00:00Z');
+
+function diaryDate(day: number): string {
+  return new Date(START + day * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+}
+
+function entry(
+  userId: string,
+  day: number,
+  overrides: Partial<ISleepDiaryEntryEntity> = {}
+): ISleepDiaryEntryEntity {
+  return {
+    userId,
+    date: diaryDate(day),
+    bedtime: '23:00',
+    lightsOffTime: '23:10',
+    sleepOnsetLatency: 30,
+    wakeTime: '07:00',
+    outOfBedTime: '07:10',
+    nightAwakenings: 2,
+    wakeAfterSleepOnset: 40,
+    totalSleepTime: 360,
+    timeInBed: 480,
+    sleepEfficiency: 75,
+    sleepQuality: 3,
+    morningMood: 3,
+    ...overrides,
+  };
+}
+
+/**
+ * Nightly diary where SE slowly improves with a weekly rhythm
+ */
+function history(userId: string, nights: number, offset = 0): ISleepDiaryEntryEntity[] {
+  return Array.from({ length: nights }, (_, day) => {
+    const sleepEfficiency = Math.min(95, 70 + day * 0.5 + 4 * Math.sin((day + offset) / 7 * 2 * Math.PI));
+    return entry(userId, day, {
+      sleepEfficiency,
+      totalSleepTime: Math.round(480 * sleepEfficiency / 100),
+      sleepOnsetLatency: Math.round(40 - day * 0.3),
+      wakeAfterSleepOnset: Math.round(50 - day * 0.4),
+      sleepQuality: 2 + (day % 3),
+    });
+  });
+}
+
+const QUIET_TRAINING = { epochs: 3, logEveryEpochs: 1000 };
+
+describe('SleepModelTrainingService', () => {
+  describe('buildSequences', () => {
+    it('should normalize nights like SleepPredictionService', () => {
+      const service = new SleepModelTrainingService({ minSequenceLength: 2 });
+      const entries = [entry('u1', 0), entry('u1', 1, { sleepQuality: 5 })];
+
+      const [sequence] = service.buildSequences(entries);
+
+      const expected = new SleepPredictionService().sleepMetricsToPLRNNState(
+        {
+          timeInBed: 480,
+          totalSleepTime: 360,
+          sleepOnsetLatency: 30,
+          wakeAfterSleepOnset: 40,
+          sleepEfficiency: 75,
+          numberOfAwakenings: 2,
+          bedtime: '23:00',
+          wakeTime: '07:00',
+          finalAwakening: '07:00',
+          outOfBedTime: '07:10',
+        },
+        0.5 // diary quality 3 of 1-5
+      );
+      expect(sequence!.values[0]).toEqual(expected.observedState);
+      expect(sequence!.values[1]![4]).toBe(1);
+      expect(sequence!.timestamps[0]).toEqual(new Date(START));
+    });
+
+    it('should interpolate short gaps and split at long ones', () => {
+      const service = new SleepModelTrainingService({ minSequenceLength: 2, maxInterpolatedDays: 2 });
+      const entries = [
+        entry('u1', 0, { sleepEfficiency: 70 }),
+        entry('u1', 3, { sleepEfficiency: 82 }), // 2 missing nights
+        entry('u1', 10), // 6 missing nights
+        entry('u1', 11),
+      ];
+
+      const sequences = service.buildSequences(entries);
+
+      expect(sequences).toHaveLength(2);
+      expect(sequences[0]!.observed).toEqual([true, false, false, true]);
+      expect(sequences[0]!.wasInterpolated).toBe(true);
+      expect(sequences[0]!.values.map((v) => v[0])).toEqual([
+        expect.closeTo(0.7, 5),
+        expect.closeTo(0.74, 5),
+        expect.closeTo(0.78, 5),
+        expect.closeTo(0.82, 5),
+      ]);
+      expect(sequences[1]!.observed).toEqual([true, true]);
+      expect(sequences[1]!.wasInterpolated).toBe(false);
+    });
+
+    it('should drop short runs and keep the latest entry per date', () => {
+      const service = new SleepModelTrainingService({ minSequenceLength: 3 });
+      const entries = [
+        entry('u1', 0),
+        entry('u1', 1, { sleepEfficiency: 60 }),
+        entry('u1', 1, { sleepEfficiency: 90 }),
+        entry('u1', 2),
+        entry('u2', 0),
+        entry('u2', 1),
+      ];
+
+      const sequences = service.buildSequences(entries);
+
+      expect(sequences.map((s) => s.participantId)).toEqual(['u1']);
+      expect(sequences[0]!.values[1]![0]).toBeCloseTo(0.9);
+    });
+  });
+
+  describe('splitByUser', () => {
+    it('should keep every user in exactly one set', () => {
+      const service = new SleepModelTrainingService({ minSequenceLength: 2, validationSplit: 0.2 });
+      const entries = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j'].flatMap((u) => [
+        entry(u, 0), entry(u, 1), entry(u, 5), entry(u, 6),
+      ]);
+
+      const { train, validation } = service.splitByUser(service.buildSequences(entries));
+
+      const trainUsers = new Set(train.map((s) => s.participantId));
+      const validationUsers = new Set(validation.map((s) => s.participantId));
+      expect(validationUsers.size).toBe(2);
+      expect(trainUsers.size).toBe(8);
+      expect([...validationUsers].some((u) => trainUsers.has(u))).toBe(false);
+
+      // Deterministic
+      const again = service.splitByUser(service.buildSequences([...entries].reverse()));
+      expect(new Set(again.validation.map((s) => s.participantId))).toEqual(validationUsers);
+    });
+  });
+
+  describe('evaluate', () => {
+    it('should score observed nights only, in reporting units', () => {
+      const service = new SleepModelTrainingService();
+      const sequence: IDiaryTrainingSequence = {
+        participantId: 'u1',
+        values: [
+          [0.8, 0.25, 0.2, 0.5, 0.5],
+          [0.7, 0.25, 0.2, 0.5, 0.5],
+          [0.9, 0.25, 0.2, 0.5, 0.5],
+        ],
+        timestamps: [new Date(START), new Date(START + 1), new Date(START + 2)],
+        wasInterpolated: true,
+        observed: [true, false, true],
+      };
+      // Perfect persistence model: predicts the current night
+      const persistence = { forward: (state: { observedState: number[] }) => state } as never;
+      const evaluation = service.evaluate(persistence, [sequence]);
+
+      expect(evaluation.evaluatedNights).toBe(1);
+      expect(evaluation.perDimension.map((d) => d.dimension)).toEqual([
+        'sleepEfficiency',
+        'sleepOnsetLatency',
+        'wakeAfterSleepOnset',
+        'totalSleepTime',
+        'sleepQuality',
+      ]);
+      expect(evaluation.perDimension[0]).toMatchObject({ unit: '%', improvement: 0 });
+      expect(evaluation.perDimension[0]!.mae).toBeCloseTo(20);
+      expect(evaluation.perDimension[0]!.persistenceMae).toBeCloseTo(20);
+      expect(evaluation.improvementOverPersistence).toBe(0);
+    });
+  });
+
+  describe('train', () => {
+    it('should reject data without enough users to validate on', async () => {
+      const service = new SleepModelTrainingService({ training: QUIET_TRAINING });
+
+      await expect(service.train(history('u1', 30))).rejects.toThrow('Not enough diary data');
+    });
+
+    it('should train, report per-dimension MAE and export deployable weights', async () => {
+      const service = new SleepModelTrainingService({ training: QUIET_TRAINING });
+      const entries = ['u1', 'u2', 'u3', 'u4', 'u5'].flatMap((u, i) => history(u, 28, i));
+
+      const { weights, report } = await service.train(entries);
+
+      expect(report.users).toEqual({ train: 4, validation: 1 });
+      expect(report.nights).toEqual({ observed: 140, interpolated: 0 });
+      expect(report.epochs).toBeLessThanOrEqual(3);
+      expect(report.evaluatedNights).toBe(27);
+      expect(report.perDimension).toHaveLength(5);
+      for (const d of report.perDimension) {
+        expect(Number.isFinite(d.mae)).toBe(true);
+        expect(Number.isFinite(d.persistenceMae)).toBe(true);
+      }
+      expect(weights.meta.trainingSamples).toBe(112);
+
+      const prediction = new SleepPredictionService();
+      await prediction.setPopulationModel(weights);
+      expect(prediction.getModelInfo('new-user')).toMatchObject({ scope: 'population', trainingSamples: 112 });
+    });
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * SleepPredictionBacktester Unit Tests
+ * ====================================
+ * Tests for the walk-forward replay of sleep diaries, forecast scoring
+ * against naive baselines and early-warning scoring against ISI deterioration.
+ */
+
+import { SleepPredictionBacktester } from '../../../../src/bot/services/SleepPredictionBacktester';
+import type {
+  IAssessmentEntity,
+  ISleepDiaryEntryEntity,
+} from '../../../../src/infrastructure/database/interfaces/IRepository';
+
+// Older than the 90-day history window relative to today
+const START = Date.parse('2025-01-01T00:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function diaryDate(day: number): string {
+  return new Date(START + day * DAY_MS).toISOString().slice(0, 10);
+}
+
+function night(userId: string, day: number, sleepEfficiency: number): ISleepDiaryEntryEntity {
+  return {
+    userId,
+    date: diaryDate(day),
+    bedtime: '23:00',
+    lightsOffTime: '23:10',
+    sleepOnsetLatency: Math.round(15 + (90 - sleepEfficiency)),
+    wakeTime: '07:00',
+    outOfBedTime: '07:10',
+    nightAwakenings: 2,
+    wakeAfterSleepOnset: Math.round(20 + (90 - sleepEfficiency) * 1.5),
+    totalSleepTime: Math.round(480 * sleepEfficiency / 100),
+    timeInBed: 480,
+    sleepEfficiency,
+    sleepQuality: 3,
+    morningMood: 3,
+  };
+}
+
+function isi(userId: string, day: number, score: number): IAssessmentEntity {
+  return {
+    userId,
+    type: 'isi',
+    score,
+    responsesJson: '[]',
+    assessedAt: new Date(START + day * DAY_MS + 10 * 60 * 60 * 1000),
+  };
+}
+
+/** Stable for three weeks, then SE falls from 88 to 60 over two weeks */
+const deteriorating = Array.from({ length: 35 }, (_, day) =>
+  night('declining', day, day < 21 ? 88 : 88 - (day - 20) * 2)
+);
+const stable = Array.from({ length: 35 }, (_, day) => night('stable', day, 86 + (day % 3)));
+
+const assessments: IAssessmentEntity[] = [
+  isi('declining', 0, 9),
+  isi('declining', 34, 17), // +8: deterioration
+  isi('stable', 0, 10),
+  isi('stable', 34, 9),
+  { ...isi('stable', 20, 25), type: 'phq9' }, // ignored
+];
+
+describe('SleepPredictionBacktester', () => {
+  let report: Awaited<ReturnType<SleepPredictionBacktester['run']>>;
+
+  beforeAll(async () => {
+    const backtester = new SleepPredictionBacktester({ onlineLearning: false });
+    report = await backtester.run({ diaryEntries: [...stable, ...deteriorating], assessments });
+  });
+
+  it('should replay every night after the minimum history', () => {
+    expect(report.users).toBe(2);
+    // minHistoryEntries = 3
+    expect(report.origins).toBe(2 * 33);
+  });
+
+  it('should collect forecasts of every model against the actual night', () => {
+    const persistence = report.samples.find(
+      (s) => s.model === 'persistence' && s.userId === 'declining' && s.date === diaryDate(25) && s.horizonDays === 1
+    );
+    expect(persistence).toMatchObject({
+      targetDate: diaryDate(26),
+      predicted: { sleepEfficiency: 78 },
+      actual: { sleepEfficiency: 76 },
+    });
+
+    // No forecasts beyond the end of the diary
+    const lastOrigin = report.samples.filter((s) => s.horizonDays === 7).map((s) => s.date).sort().pop();
+    expect(lastOrigin).toBe(diaryDate(27));
+
+    expect(new Set(report.samples.map((s) => s.model))).toEqual(
+      new Set(['plrnn', 'hybrid', 'persistence', 'moving_average'])
+    );
+  });
+
+  it('should score each model, horizon and metric', () => {
+    expect(report.predictions).toHaveLength(4 * 3 * 3);
+
+    const score = report.predictions.find(
+      (p) => p.model === 'persistence' && p.horizonDays === 1 && p.metric === 'sleepEfficiency'
+    );
+    // 32 origins per user with a next night
+    expect(score?.n).toBe(64);
+    expect(score?.mae).toBeGreaterThan(0);
+    expect(score?.bias).toBeGreaterThan(0); // persistence lags the decline
+    for (const p of report.predictions) {
+      expect(Number.isFinite(p.mae)).toBe(true);
+    }
+  });
+
+  it('should detect ISI deterioration events', () => {
+    expect(report.isiEvents).toEqual([
+      { userId: 'declining', date: diaryDate(34), previousScore: 9, score: 17 },
+    ]);
+  });
+
+  it('should score early warnings with precision, recall and lead time', () => {
+    expect(report.earlyWarnings.map((w) => w.model)).toEqual(['plrnn', 'hybrid', 'moving_average']);
+
+    const naive = report.earlyWarnings.find((w) => w.model === 'moving_average')!;
+    expect(naive.alerts).toBeGreaterThan(0);
+    expect(naive.precision).toBe(1); // only the declining user drops
+    expect(naive.evaluableEvents).toBe(1);
+    expect(naive.recall).toBe(1);
+    expect(naive.meanLeadTimeDays).toBeGreaterThan(0);
+    expect(naive.medianLeadTimeDays).toBe(naive.meanLeadTimeDays);
+
+    for (const w of report.earlyWarnings) {
+      expect(w.truePositiveAlerts).toBeLessThanOrEqual(w.alerts);
+      expect(w.detectedEvents).toBeLessThanOrEqual(w.evaluableEvents);
+    }
+  });
+
+  it('should produce a JSON-serializable report', () => {
+    expect(JSON.parse(JSON.stringify(report))).toEqual(report);
+  });
+
+  it('should not count events without forecasts in the lead window', async () => {
+    const backtester = new SleepPredictionBacktester({ horizons: ['short'], leadWindowDays: 7 });
+    const late = await backtester.run({
+      diaryEntries: stable,
+      assessments: [isi('stable', 0, 8), isi('stable', 60, 20)],
+    });
+
+    expect(late.isiEvents).toHaveLength(1);
+    for (const w of late.earlyWarnings) {
+      expect(w.evaluableEvents).toBe(0);
+      expect(w.recall).toBeNull();
+    }
+  });
+});
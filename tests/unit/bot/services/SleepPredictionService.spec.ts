@@ -340,20 +340,20 @@ describe('SleepPredictionService', () => {
   });
 
   describe('trainOnline()', () => {
-    it('should train on new sleep data', () => {
+    it('should train on new sleep data', async () => {
       const entry = createMockHistoryEntry(0, 'train-user', {
         sleepEfficiency: 85,
       });
 
-      expect(() => service.trainOnline(entry.userId, entry)).not.toThrow();
+      await expect(service.trainOnline(entry.userId, entry)).resolves.toBeUndefined();
     });
 
-    it('should update history after training', () => {
+    it('should update history after training', async () => {
       const entry = createMockHistoryEntry(0, 'train-history-user', {
         sleepEfficiency: 85,
       });
 
-      service.trainOnline(entry.userId, entry);
+      await service.trainOnline(entry.userId, entry);
       const history = service.getHistory(entry.userId);
 
       expect(history).toHaveLength(1);
@@ -449,7 +449,7 @@ describe('SleepPredictionService', () => {
 
 describe('SleepPredictionService Integration', () => {
   describe('full prediction workflow', () => {
-    it('should support complete prediction cycle', () => {
+    it('should support complete prediction cycle', async () => {
       const service = createSleepPredictionService();
       const userId = 'workflow-test-user';
 
@@ -477,7 +477,7 @@ describe('SleepPredictionService Integration', () => {
       expect(Array.isArray(shortPrediction?.earlyWarnings)).toBe(true);
 
       // Phase 4: Online learning
-      service.trainOnline(userId, createMockHistoryEntry(0, userId, {
+      await service.trainOnline(userId, createMockHistoryEntry(0, userId, {
         sleepEfficiency: 82,
       }));
 
@@ -0,0 +1,71 @@
+/**
+ * TimezoneSettingsService Unit Tests
+ * ==================================
+ * Tests for applying a user's timezone choice.
+ *
+ * Covers:
+ * - Updating users.timezone, notification preferences and ISI schedules together
+ * - Rejecting unknown zones without touching any store
+ * - Working without a database
+ */
+
+import {
+  TimezoneSettingsService,
+  createTimezoneSettingsService,
+  TIMEZONE_CHOICES,
+} from '../../../../src/bot/services/TimezoneSettingsService';
+import { isValidTimezone } from '../../../../src/bot/services/ZonedTime';
+
+describe('TimezoneSettingsService', () => {
+  const userRepository = { update: jest.fn() };
+  const notificationService = { updatePreferences: jest.fn() };
+  const isiSchedulingService = { setUserTimezone: jest.fn() };
+  let service: TimezoneSettingsService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    service = createTimezoneSettingsService({ userRepository, notificationService, isiSchedulingService });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should offer only valid zones', () => {
+    expect(TIMEZONE_CHOICES.every((choice) => isValidTimezone(choice.timezone))).toBe(true);
+  });
+
+  it('should label known zones and fall back to the IANA name', () => {
+    expect(service.getLabel('Asia/Novosibirsk')).toBe('Новосибирск (UTC+7)');
+    expect(service.getLabel('Europe/Berlin')).toBe('Europe/Berlin');
+  });
+
+  it('should update the user row and both schedulers', async () => {
+    await expect(service.setTimezone('900000001', 7, 'Asia/Vladivostok')).resolves.toBe(true);
+
+    expect(userRepository.update).toHaveBeenCalledWith(7, { timezone: 'Asia/Vladivostok' });
+    expect(notificationService.updatePreferences).toHaveBeenCalledWith('900000001', { timezone: 'Asia/Vladivostok' });
+    expect(isiSchedulingService.setUserTimezone).toHaveBeenCalledWith('900000001', 'Asia/Vladivostok');
+  });
+
+  it('should skip the user row when the user is not registered', async () => {
+    await expect(service.setTimezone('900000001', undefined, 'Asia/Omsk')).resolves.toBe(true);
+
+    expect(userRepository.update).not.toHaveBeenCalled();
+    expect(notificationService.updatePreferences).toHaveBeenCalled();
+    expect(isiSchedulingService.setUserTimezone).toHaveBeenCalled();
+  });
+
+  it('should reject unknown zones', async () => {
+    await expect(service.setTimezone('900000001', 7, 'Mars/Olympus')).resolves.toBe(false);
+
+    expect(userRepository.update).not.toHaveBeenCalled();
+    expect(notificationService.updatePreferences).not.toHaveBeenCalled();
+    expect(isiSchedulingService.setUserTimezone).not.toHaveBeenCalled();
+  });
+
+  it('should work without any stores', async () => {
+    await expect(new TimezoneSettingsService().setTimezone('1', 1, 'Europe/Samara')).resolves.toBe(true);
+  });
+});
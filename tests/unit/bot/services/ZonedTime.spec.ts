@@ -0,0 +1,124 @@
+/**
+ * ZonedTime Unit Tests
+ * ====================
+ * Tests for per-user local time helpers used by cron-driven services.
+ *
+ * Covers:
+ * - Local wall-clock time for Russian timezones (UTC+2 .. UTC+10)
+ * - Daylight-saving transitions (America/New_York)
+ * - Timezone validation and fallback
+ * - Calendar-day arithmetic and due-time windows
+ */
+
+import {
+  DEFAULT_TIMEZONE,
+  getZonedTime,
+  getLocalHour,
+  isValidTimezone,
+  resolveTimezone,
+  parseTimeOfDay,
+  daysBetweenDateKeys,
+  addDaysToDateKey,
+  isLocalTimeDue,
+} from '../../../../src/bot/services/ZonedTime';
+
+describe('ZonedTime', () => {
+  describe('getZonedTime', () => {
+    it('should return local time in Kaliningrad and Vladivostok', () => {
+      const instant = new Date('2026-01-15T06:00:00Z');
+
+      const kaliningrad = getZonedTime(instant, 'Europe/Kaliningrad');
+      expect(kaliningrad.dateKey).toBe('2026-01-15');
+      expect(kaliningrad.hour).toBe(8);
+
+      const vladivostok = getZonedTime(instant, 'Asia/Vladivostok');
+      expect(vladivostok.dateKey).toBe('2026-01-15');
+      expect(vladivostok.hour).toBe(16);
+    });
+
+    it('should roll the local date forward east of UTC', () => {
+      const local = getZonedTime(new Date('2026-01-14T22:30:00Z'), 'Asia/Vladivostok');
+
+      expect(local.dateKey).toBe('2026-01-15');
+      expect(local.hour).toBe(8);
+      expect(local.minute).toBe(30);
+      expect(local.minutesOfDay).toBe(8 * 60 + 30);
+      expect(local.dayOfWeek).toBe(4); // Thursday
+    });
+
+    it('should report midnight as hour 0', () => {
+      const local = getZonedTime(new Date('2026-01-14T21:00:00Z'), 'Europe/Moscow');
+      expect(local.hour).toBe(0);
+      expect(local.minutesOfDay).toBe(0);
+    });
+
+    it('should follow daylight-saving offsets', () => {
+      // 2026-03-08: New York springs forward at 02:00 EST
+      expect(getZonedTime(new Date('2026-03-08T06:59:00Z'), 'America/New_York').hour).toBe(1);
+      expect(getZonedTime(new Date('2026-03-08T07:00:00Z'), 'America/New_York').hour).toBe(3);
+    });
+
+    it('should fall back to the default timezone for unknown zones', () => {
+      const instant = new Date('2026-01-15T06:00:00Z');
+      expect(getZonedTime(instant, 'Mars/Olympus')).toEqual(getZonedTime(instant, DEFAULT_TIMEZONE));
+    });
+  });
+
+  describe('getLocalHour', () => {
+    it('should default to Moscow time', () => {
+      expect(getLocalHour(undefined, new Date('2026-01-15T06:00:00Z'))).toBe(9);
+    });
+  });
+
+  describe('timezone validation', () => {
+    it('should accept IANA names and reject others', () => {
+      expect(isValidTimezone('Asia/Yekaterinburg')).toBe(true);
+      expect(isValidTimezone('Mars/Olympus')).toBe(false);
+      expect(isValidTimezone('')).toBe(false);
+      expect(isValidTimezone(undefined)).toBe(false);
+    });
+
+    it('should resolve invalid zones to the default', () => {
+      expect(resolveTimezone('Asia/Omsk')).toBe('Asia/Omsk');
+      expect(resolveTimezone('nope')).toBe(DEFAULT_TIMEZONE);
+      expect(resolveTimezone(null)).toBe(DEFAULT_TIMEZONE);
+    });
+  });
+
+  describe('parseTimeOfDay', () => {
+    it('should convert HH:MM to minutes', () => {
+      expect(parseTimeOfDay('08:00')).toBe(480);
+      expect(parseTimeOfDay('20:30')).toBe(1230);
+      expect(parseTimeOfDay('00:00')).toBe(0);
+    });
+  });
+
+  describe('daysBetweenDateKeys', () => {
+    it('should count calendar days', () => {
+      expect(daysBetweenDateKeys('2026-01-01', '2026-01-15')).toBe(14);
+      expect(daysBetweenDateKeys('2026-01-15', '2026-01-15')).toBe(0);
+    });
+
+    it('should count a 23-hour DST day as one day', () => {
+      expect(daysBetweenDateKeys('2026-03-07', '2026-03-09')).toBe(2);
+    });
+  });
+
+  describe('addDaysToDateKey', () => {
+    it('should shift across month and year boundaries', () => {
+      expect(addDaysToDateKey('2026-01-25', 14)).toBe('2026-02-08');
+      expect(addDaysToDateKey('2026-01-02', -3)).toBe('2025-12-30');
+    });
+  });
+
+  describe('isLocalTimeDue', () => {
+    const at = (iso: string) => getZonedTime(new Date(iso), 'Europe/Moscow');
+
+    it('should be due from the target time until the catch-up window ends', () => {
+      expect(isLocalTimeDue(at('2026-01-15T04:59:00Z'), '08:00', 90)).toBe(false);
+      expect(isLocalTimeDue(at('2026-01-15T05:00:00Z'), '08:00', 90)).toBe(true);
+      expect(isLocalTimeDue(at('2026-01-15T06:29:00Z'), '08:00', 90)).toBe(true);
+      expect(isLocalTimeDue(at('2026-01-15T06:30:00Z'), '08:00', 90)).toBe(false);
+    });
+  });
+});
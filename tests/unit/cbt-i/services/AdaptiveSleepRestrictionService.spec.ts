@@ -9,6 +9,7 @@
  * - PLRNN-enhanced TIB adjustment
  * - JITAI adaptive scheduling
  * - Personalized initial prescription
+ * - PLRNN model persistence
  */
 
 import {
@@ -22,6 +23,16 @@ import {
 } from '../../../../src/cbt-i/services/AdaptiveSleepRestrictionService';
 
 import type { ISleepRestrictionPrescription } from '../../../../src/cbt-i/interfaces/ICBTIComponents';
+import {
+  PLRNNModelRegistry,
+  POPULATION_MODEL_KEY,
+  getUserModelKey,
+} from '../../../../src/bot/services/PLRNNModelRegistry';
+import { DEFAULT_SLEEP_PREDICTION_CONFIG } from '../../../../src/bot/services/SleepPredictionService';
+import { SQLiteConnection } from '../../../../src/infrastructure/database/sqlite/SQLiteConnection';
+import { SQLiteMigration } from '../../../../src/infrastructure/database/sqlite/SQLiteMigration';
+import { MIGRATIONS } from '../../../../src/infrastructure/database/migrations';
+import { PLRNNModelRepository } from '../../../../src/infrastructure/database/repositories/PLRNNModelRepository';
 import type { ISleepMetrics } from '../../../../src/sleep/interfaces/ISleepState';
 
 // ==================== Mock Data ====================
@@ -500,6 +511,74 @@ describe('AdaptiveSleepRestrictionService', () => {
     });
   });
 
+  describe('PLRNN model persistence', () => {
+    let db: SQLiteConnection;
+    let repository: PLRNNModelRepository;
+
+    const night = (userId: string, daysAgo: number, sleepEfficiency: number) => ({
+      userId,
+      date: new Date(Date.now() - daysAgo * 24 * 60 * 60 * 1000),
+      metrics: createMockSleepMetrics({ sleepEfficiency }),
+      subjectiveQuality: 0.6,
+    });
+
+    beforeAll(async () => {
+      db = new SQLiteConnection({
+        type: 'sqlite',
+        connectionString: ':memory:',
+        verbose: false,
+      });
+      await db.connect();
+
+      const migration = new SQLiteMigration(db);
+      await migration.initialize();
+      await migration.migrate([...MIGRATIONS]);
+      repository = new PLRNNModelRepository(db);
+    });
+
+    afterAll(async () => {
+      await db.close();
+    });
+
+    beforeEach(async () => {
+      await db.execute('DELETE FROM plrnn_models');
+    });
+
+    it('should save the user model after each diary night', async () => {
+      const persistent = createAdaptiveSleepRestrictionService({}, undefined, repository);
+
+      await persistent.recordSleepEntry(night('user-1', 3, 80));
+      await persistent.recordSleepEntry(night('user-1', 2, 84));
+      await persistent.recordSleepEntry(night('user-1', 1, 86));
+
+      const saved = await repository.findByKey(getUserModelKey('user-1'));
+      expect(saved).toMatchObject({ version: 2, trainingSamples: 2 });
+    });
+
+    it('should restore the model and seed the previous night after a restart', async () => {
+      const persistent = createAdaptiveSleepRestrictionService({}, undefined, repository);
+      await persistent.recordSleepEntry(night('user-1', 4, 80));
+      await persistent.recordSleepEntry(night('user-1', 3, 82));
+
+      const restarted = new AdaptiveSleepRestrictionService();
+      restarted.setModelRepository(repository);
+      await restarted.recordSleepEntry(night('user-1', 1, 86), night('user-1', 2, 84));
+
+      const saved = await repository.findByKey(getUserModelKey('user-1'));
+      expect(saved).toMatchObject({ version: 2, trainingSamples: 2 });
+    });
+
+    it('should load the deployed population prior', async () => {
+      const persistent = createAdaptiveSleepRestrictionService({}, undefined, repository);
+      expect(await persistent.loadPopulationModel()).toBe(false);
+
+      await new PLRNNModelRegistry(DEFAULT_SLEEP_PREDICTION_CONFIG.plrnnConfig, repository).savePopulation();
+
+      expect(await repository.findByKey(POPULATION_MODEL_KEY)).not.toBeNull();
+      expect(await persistent.loadPopulationModel()).toBe(true);
+    });
+  });
+
   describe('Integration', () => {
     it('should support full personalization workflow', () => {
       const userId = 'full-workflow-user';
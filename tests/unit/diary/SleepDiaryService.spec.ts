@@ -14,6 +14,38 @@ import {
   createDiaryEntrySeries,
   createImprovementSeries,
 } from '../../helpers';
+import type {
+  ISleepDiaryRepository,
+  ISleepDiaryEntryEntity,
+} from '../../../src/infrastructure/database/interfaces/IRepository';
+
+/**
+ * In-memory stand-in for SleepDiaryRepository keyed by user+date
+ */
+function createFakeRepository(seed: ISleepDiaryEntryEntity[] = []) {
+  const rows = new Map<string, ISleepDiaryEntryEntity>();
+  seed.forEach(r => rows.set(`${r.userId}|${r.date}`, r));
+
+  const repo = {
+    upsert: jest.fn(async (entity: ISleepDiaryEntryEntity) => {
+      rows.set(`${entity.userId}|${entity.date}`, entity);
+      return entity;
+    }),
+    findByUserAndDateRange: jest.fn(async (userId: string, start: string, end: string) =>
+      [...rows.values()]
+        .filter(r => r.userId === userId && r.date >= start && r.date <= end)
+        .sort((a, b) => a.date.localeCompare(b.date))
+    ),
+  };
+
+  return { repo: repo as unknown as ISleepDiaryRepository & typeof repo, rows };
+}
+
+function daysAgo(days: number): string {
+  const d = new Date();
+  d.setDate(d.getDate() - days);
+  return d.toISOString().split('T')[0];
+}
 
 describe('SleepDiaryService', () => {
   let service: SleepDiaryService;
@@ -35,30 +67,39 @@ describe('SleepDiaryService', () => {
   });
 
   describe('addEntry()', () => {
-    it('should store entry and return calculated metrics', () => {
+    it('should store entry and return calculated metrics', async () => {
       const entry = createDiaryEntry({ userId: 'user1' });
-      const metrics = service.addEntry(entry);
+      const metrics = await service.addEntry(entry);
 
       expect(metrics).toBeDefined();
       expect(metrics.sleepEfficiency).toBeGreaterThan(0);
       expect(metrics.totalSleepTime).toBeGreaterThan(0);
     });
 
-    it('should store multiple entries for same user', () => {
+    it('should store multiple entries for same user', async () => {
       const entries = createDiaryEntrySeries('healthy', 3, 'user1');
-      entries.forEach(e => service.addEntry(e));
+      for (const e of entries) await service.addEntry(e);
 
-      const stored = service.getEntries('user1');
+      const stored = await service.getEntries('user1');
       expect(stored.length).toBe(3);
     });
 
-    it('should store entries for different users separately', () => {
-      service.addEntry(createDiaryEntry({ userId: 'user1' }));
-      service.addEntry(createDiaryEntry({ userId: 'user2' }));
-      service.addEntry(createDiaryEntry({ userId: 'user1' }));
+    it('should store entries for different users separately', async () => {
+      await service.addEntry(createDiaryEntry({ userId: 'user1', date: '2025-01-01' }));
+      await service.addEntry(createDiaryEntry({ userId: 'user2', date: '2025-01-01' }));
+      await service.addEntry(createDiaryEntry({ userId: 'user1', date: '2025-01-02' }));
 
-      expect(service.getEntries('user1').length).toBe(2);
-      expect(service.getEntries('user2').length).toBe(1);
+      expect((await service.getEntries('user1')).length).toBe(2);
+      expect((await service.getEntries('user2')).length).toBe(1);
+    });
+
+    it('should replace an existing entry for the same date', async () => {
+      await service.addEntry(createDiaryEntry({ userId: 'user1', date: '2025-01-01', bedtime: '23:00' }));
+      await service.addEntry(createDiaryEntry({ userId: 'user1', date: '2025-01-01', bedtime: '22:30' }));
+
+      const stored = await service.getEntries('user1');
+      expect(stored.length).toBe(1);
+      expect(stored[0].bedtime).toBe('22:30');
     });
   });
 
@@ -148,38 +189,38 @@ describe('SleepDiaryService', () => {
   });
 
   describe('getEntries()', () => {
-    beforeEach(() => {
+    beforeEach(async () => {
       // Add 14 days of entries
       const entries = createDiaryEntrySeries('healthy', 14, 'user1');
-      entries.forEach(e => service.addEntry(e));
+      for (const e of entries) await service.addEntry(e);
     });
 
-    it('should return all entries when no days specified', () => {
-      const entries = service.getEntries('user1');
+    it('should return all entries when no days specified', async () => {
+      const entries = await service.getEntries('user1');
       expect(entries.length).toBe(14);
     });
 
-    it('should return empty array for unknown user', () => {
-      const entries = service.getEntries('unknown');
+    it('should return empty array for unknown user', async () => {
+      const entries = await service.getEntries('unknown');
       expect(entries).toEqual([]);
     });
 
-    it('should filter by days when specified', () => {
-      const entries = service.getEntries('user1', 7);
+    it('should filter by days when specified', async () => {
+      const entries = await service.getEntries('user1', 7);
       expect(entries.length).toBeLessThanOrEqual(7);
     });
   });
 
   describe('calculateWeeklySummary()', () => {
-    beforeEach(() => {
+    beforeEach(async () => {
       const entries = createDiaryEntrySeries('healthy', 7, 'user1');
-      entries.forEach(e => service.addEntry(e));
+      for (const e of entries) await service.addEntry(e);
     });
 
-    it('should calculate weekly averages', () => {
+    it('should calculate weekly averages', async () => {
       const weekStart = new Date();
       weekStart.setDate(weekStart.getDate() - 6);
-      const summary = service.calculateWeeklySummary(
+      const summary = await service.calculateWeeklySummary(
         'user1',
         weekStart.toISOString().split('T')[0]
       );
@@ -189,10 +230,10 @@ describe('SleepDiaryService', () => {
       expect(summary.averages.sleepEfficiency).toBeGreaterThan(0);
     });
 
-    it('should include week date range', () => {
+    it('should include week date range', async () => {
       const weekStart = new Date();
       weekStart.setDate(weekStart.getDate() - 6);
-      const summary = service.calculateWeeklySummary(
+      const summary = await service.calculateWeeklySummary(
         'user1',
         weekStart.toISOString().split('T')[0]
       );
@@ -201,8 +242,8 @@ describe('SleepDiaryService', () => {
       expect(summary.weekEndDate).toBeDefined();
     });
 
-    it('should calculate quality distribution', () => {
-      const summary = service.calculateWeeklySummary(
+    it('should calculate quality distribution', async () => {
+      const summary = await service.calculateWeeklySummary(
         'user1',
         new Date(Date.now() - 6 * 24 * 60 * 60 * 1000).toISOString().split('T')[0]
       );
@@ -214,12 +255,12 @@ describe('SleepDiaryService', () => {
       expect(summary.qualityDistribution).toHaveProperty('excellent');
     });
 
-    it('should generate recommendations based on metrics', () => {
+    it('should generate recommendations based on metrics', async () => {
       // Add poor sleep entries
       const poorEntries = createDiaryEntrySeries('insomnia', 7, 'user2');
-      poorEntries.forEach(e => service.addEntry(e));
+      for (const e of poorEntries) await service.addEntry(e);
 
-      const summary = service.calculateWeeklySummary(
+      const summary = await service.calculateWeeklySummary(
         'user2',
         new Date(Date.now() - 6 * 24 * 60 * 60 * 1000).toISOString().split('T')[0]
       );
@@ -229,39 +270,39 @@ describe('SleepDiaryService', () => {
   });
 
   describe('analyzePatterns()', () => {
-    it('should throw error if insufficient entries', () => {
-      service.addEntry(createDiaryEntry({ userId: 'user1' }));
+    it('should throw error if insufficient entries', async () => {
+      await service.addEntry(createDiaryEntry({ userId: 'user1' }));
 
-      expect(() => service.analyzePatterns('user1')).toThrow(
+      await expect(service.analyzePatterns('user1')).rejects.toThrow(
         /Need at least/
       );
     });
 
-    it('should analyze patterns with sufficient data', () => {
+    it('should analyze patterns with sufficient data', async () => {
       const entries = createDiaryEntrySeries('healthy', 14, 'user1');
-      entries.forEach(e => service.addEntry(e));
+      for (const e of entries) await service.addEntry(e);
 
-      const analysis = service.analyzePatterns('user1');
+      const analysis = await service.analyzePatterns('user1');
 
       expect(analysis.userId).toBe('user1');
       expect(analysis.entriesAnalyzed).toBeGreaterThanOrEqual(7);
     });
 
-    it('should calculate average bedtime and wake time', () => {
+    it('should calculate average bedtime and wake time', async () => {
       const entries = createDiaryEntrySeries('healthy', 14, 'user1');
-      entries.forEach(e => service.addEntry(e));
+      for (const e of entries) await service.addEntry(e);
 
-      const analysis = service.analyzePatterns('user1');
+      const analysis = await service.analyzePatterns('user1');
 
       expect(analysis.patterns.averageBedtime).toMatch(/^\d{2}:\d{2}$/);
       expect(analysis.patterns.averageWakeTime).toMatch(/^\d{2}:\d{2}$/);
     });
 
-    it('should estimate chronotype', () => {
+    it('should estimate chronotype', async () => {
       const entries = createDiaryEntrySeries('healthy', 14, 'user1');
-      entries.forEach(e => service.addEntry(e));
+      for (const e of entries) await service.addEntry(e);
 
-      const analysis = service.analyzePatterns('user1');
+      const analysis = await service.analyzePatterns('user1');
 
       expect([
         'definite_morning',
@@ -272,30 +313,30 @@ describe('SleepDiaryService', () => {
       ]).toContain(analysis.patterns.estimatedChronotype);
     });
 
-    it('should detect insomnia subtype', () => {
+    it('should detect insomnia subtype', async () => {
       // Sleep onset insomnia pattern
       const entries = createDiaryEntrySeries('sleep_onset', 14, 'user1');
-      entries.forEach(e => service.addEntry(e));
+      for (const e of entries) await service.addEntry(e);
 
-      const analysis = service.analyzePatterns('user1');
+      const analysis = await service.analyzePatterns('user1');
 
       expect(analysis.insomnia.subtype).toBe('sleep_onset');
     });
 
-    it('should detect maintenance insomnia', () => {
+    it('should detect maintenance insomnia', async () => {
       const entries = createDiaryEntrySeries('maintenance', 14, 'user1');
-      entries.forEach(e => service.addEntry(e));
+      for (const e of entries) await service.addEntry(e);
 
-      const analysis = service.analyzePatterns('user1');
+      const analysis = await service.analyzePatterns('user1');
 
       expect(analysis.insomnia.subtype).toBe('sleep_maintenance');
     });
 
-    it('should identify sleep issues', () => {
+    it('should identify sleep issues', async () => {
       const entries = createDiaryEntrySeries('insomnia', 14, 'user1');
-      entries.forEach(e => service.addEntry(e));
+      for (const e of entries) await service.addEntry(e);
 
-      const analysis = service.analyzePatterns('user1');
+      const analysis = await service.analyzePatterns('user1');
 
       expect(analysis.issues.length).toBeGreaterThan(0);
       // Should identify at least one issue
@@ -304,54 +345,106 @@ describe('SleepDiaryService', () => {
       expect(analysis.issues[0]).toHaveProperty('frequency');
       expect(analysis.issues[0]).toHaveProperty('severity');
     });
+
+    it('should summarize Consensus Sleep Diary items over reported nights', async () => {
+      const entries = createDiaryEntrySeries('healthy', 14, 'user1').map((e, i) =>
+        i < 7 ? { ...e, caffeineDrinks: 2, alcoholDrinks: 1, napMinutes: 30, earlyAwakeningMinutes: 0 } : e
+      );
+      for (const e of entries) await service.addEntry(e);
+
+      const analysis = await service.analyzePatterns('user1');
+
+      expect(analysis.lifestyle).toMatchObject({
+        nightsReported: 7,
+        avgCaffeineDrinks: 2,
+        avgAlcoholDrinks: 1,
+        avgNapMinutes: 30,
+        avgEarlyAwakeningMinutes: 0,
+        hypnoticNights: 0,
+      });
+    });
+
+    it('should flag hypnotic use and late caffeine', async () => {
+      const entries = createDiaryEntrySeries('healthy', 14, 'user1').map((e, i) => ({
+        ...e,
+        bedtime: '23:00',
+        caffeineDrinks: 1,
+        lastCaffeineTime: i % 2 === 0 ? '19:00' : '11:00',
+        sleepMedications: i < 3
+          ? [{ name: 'Зопиклон', type: 'hypnotic' as const, dose: 7.5, unit: 'mg' as const }]
+          : [{ name: 'Мелатонин', type: 'melatonin' as const, dose: 3, unit: 'mg' as const }],
+      }));
+      for (const e of entries) await service.addEntry(e);
+
+      const analysis = await service.analyzePatterns('user1');
+      const issue = (id: string) => analysis.issues.find(i => i.id === id);
+
+      expect(analysis.lifestyle.hypnoticNights).toBe(3);
+      expect(issue('hypnotic_use')).toMatchObject({ frequency: 21, severity: 'medium' });
+      expect(analysis.lifestyle.lateCaffeineNights).toBe(7);
+      expect(issue('late_caffeine')).toMatchObject({ frequency: 50, severity: 'medium' });
+    });
+
+    it('should not flag nights without the items reported', async () => {
+      const entries = createDiaryEntrySeries('healthy', 14, 'user1');
+      for (const e of entries) await service.addEntry(e);
+
+      const analysis = await service.analyzePatterns('user1');
+
+      expect(analysis.lifestyle.nightsReported).toBe(0);
+      expect(analysis.lifestyle.avgCaffeineDrinks).toBeNull();
+      expect(analysis.issues.map(i => i.id)).not.toEqual(
+        expect.arrayContaining(['hypnotic_use', 'late_caffeine'])
+      );
+    });
   });
 
   describe('estimateISI()', () => {
-    it('should return -1 if insufficient data', () => {
-      service.addEntry(createDiaryEntry({ userId: 'user1' }));
+    it('should return -1 if insufficient data', async () => {
+      await service.addEntry(createDiaryEntry({ userId: 'user1' }));
 
-      const isi = service.estimateISI('user1');
+      const isi = await service.estimateISI('user1');
 
       expect(isi).toBe(-1);
     });
 
-    it('should estimate ISI in valid range (0-28)', () => {
+    it('should estimate ISI in valid range (0-28)', async () => {
       const entries = createDiaryEntrySeries('healthy', 14, 'user1');
-      entries.forEach(e => service.addEntry(e));
+      for (const e of entries) await service.addEntry(e);
 
-      const isi = service.estimateISI('user1');
+      const isi = await service.estimateISI('user1');
 
       expect(isi).toBeGreaterThanOrEqual(0);
       expect(isi).toBeLessThanOrEqual(28);
     });
 
-    it('should estimate low ISI for healthy sleep', () => {
+    it('should estimate low ISI for healthy sleep', async () => {
       const entries = createDiaryEntrySeries('healthy', 14, 'user1');
-      entries.forEach(e => service.addEntry(e));
+      for (const e of entries) await service.addEntry(e);
 
-      const isi = service.estimateISI('user1');
+      const isi = await service.estimateISI('user1');
 
       expect(isi).toBeLessThan(10);
     });
 
-    it('should estimate high ISI for insomnia pattern', () => {
+    it('should estimate high ISI for insomnia pattern', async () => {
       const entries = createDiaryEntrySeries('insomnia', 14, 'user1');
-      entries.forEach(e => service.addEntry(e));
+      for (const e of entries) await service.addEntry(e);
 
-      const isi = service.estimateISI('user1');
+      const isi = await service.estimateISI('user1');
 
       expect(isi).toBeGreaterThan(10);
     });
   });
 
   describe('trend detection', () => {
-    it('should detect improving trend', () => {
+    it('should detect improving trend', async () => {
       const entries = createImprovementSeries('insomnia', 14, 'user1');
-      entries.forEach(e => service.addEntry(e));
+      for (const e of entries) await service.addEntry(e);
 
       const weekStart = new Date();
       weekStart.setDate(weekStart.getDate() - 6);
-      const summary = service.calculateWeeklySummary(
+      const summary = await service.calculateWeeklySummary(
         'user1',
         weekStart.toISOString().split('T')[0]
       );
@@ -360,14 +453,14 @@ describe('SleepDiaryService', () => {
       expect(summary.averages.sleepEfficiency).toBeGreaterThan(0);
     });
 
-    it('should detect stable trend for consistent data', () => {
+    it('should detect stable trend for consistent data', async () => {
       // All same quality entries
       const entries = createDiaryEntrySeries('healthy', 14, 'user1');
-      entries.forEach(e => service.addEntry(e));
+      for (const e of entries) await service.addEntry(e);
 
       const weekStart = new Date();
       weekStart.setDate(weekStart.getDate() - 6);
-      const summary = service.calculateWeeklySummary(
+      const summary = await service.calculateWeeklySummary(
         'user1',
         weekStart.toISOString().split('T')[0]
       );
@@ -376,6 +469,104 @@ describe('SleepDiaryService', () => {
     });
   });
 
+  describe('with repository', () => {
+    it('should write entries through to the repository', async () => {
+      const { repo, rows } = createFakeRepository();
+      const s = new SleepDiaryService({}, repo);
+
+      const metrics = await s.addEntry(createDiaryEntry({
+        userId: 'user1',
+        date: '2025-03-01',
+        subjectiveQuality: 'poor',
+        morningAlertness: 2,
+      }));
+
+      expect(repo.upsert).toHaveBeenCalledTimes(1);
+      const stored = rows.get('user1|2025-03-01')!;
+      expect(stored.sleepEfficiency).toBe(metrics.sleepEfficiency);
+      expect(stored.timeInBed).toBe(metrics.timeInBed);
+      expect(stored.sleepQuality).toBe(2);
+      expect(stored.morningMood).toBe(2);
+    });
+
+    it('should keep the entry in memory when the save fails', async () => {
+      const { repo } = createFakeRepository();
+      repo.upsert.mockRejectedValueOnce(new Error('FOREIGN KEY constraint failed'));
+      const s = new SleepDiaryService({}, repo);
+      const entry = createDiaryEntry({ userId: 'user1', date: '2025-03-01' });
+
+      await expect(s.addEntry(entry)).rejects.toThrow('FOREIGN KEY');
+      expect(await s.getEntries('user1')).toEqual([entry]);
+    });
+
+    it('should load history lazily and only once per user', async () => {
+      const writer = createFakeRepository();
+      const first = new SleepDiaryService({}, writer.repo);
+      for (let i = 13; i >= 0; i--) {
+        await first.addEntry(createDiaryEntryFromPattern('insomnia', { userId: 'user1', date: daysAgo(i) }));
+      }
+
+      // Simulate a restart: new service instance over the same stored rows
+      const { repo } = createFakeRepository([...writer.rows.values()]);
+      const restarted = new SleepDiaryService({}, repo);
+      expect(repo.findByUserAndDateRange).not.toHaveBeenCalled();
+
+      const [isi, analysis] = await Promise.all([
+        restarted.estimateISI('user1'),
+        restarted.analyzePatterns('user1'),
+      ]);
+
+      expect(repo.findByUserAndDateRange).toHaveBeenCalledTimes(1);
+      expect(isi).toBe(await first.estimateISI('user1'));
+      expect(analysis.entriesAnalyzed).toBe(14);
+      expect(analysis.insomnia.subtype).toBe('mixed');
+    });
+
+    it('should evict least recently used users beyond maxCachedUsers', async () => {
+      const { repo } = createFakeRepository();
+      const s = new SleepDiaryService({ maxCachedUsers: 2 }, repo);
+
+      await s.getEntries('user1');
+      await s.getEntries('user2');
+      await s.getEntries('user1');
+      await s.getEntries('user3');
+      expect(repo.findByUserAndDateRange).toHaveBeenCalledTimes(3);
+
+      // user2 was evicted, user1 is still cached
+      await s.getEntries('user1');
+      expect(repo.findByUserAndDateRange).toHaveBeenCalledTimes(3);
+      await s.getEntries('user2');
+      expect(repo.findByUserAndDateRange).toHaveBeenCalledTimes(4);
+    });
+
+    it('should read weeks outside the cached window from the repository', async () => {
+      const seed = createDiaryEntrySeries('healthy', 7, 'user1').map((e, i) => ({
+        userId: 'user1',
+        date: `2024-01-0${i + 1}`,
+        bedtime: e.bedtime,
+        lightsOffTime: e.lightsOffTime,
+        sleepOnsetLatency: e.sleepOnsetLatency,
+        wakeTime: e.finalAwakening,
+        outOfBedTime: e.outOfBedTime,
+        nightAwakenings: e.numberOfAwakenings,
+        wakeAfterSleepOnset: e.wakeAfterSleepOnset,
+        totalSleepTime: 0,
+        timeInBed: 0,
+        sleepEfficiency: 0,
+        sleepQuality: 4,
+        morningMood: 4,
+      }));
+      const { repo } = createFakeRepository(seed);
+      const s = new SleepDiaryService({ historyDays: 30 }, repo);
+
+      const summary = await s.calculateWeeklySummary('user1', '2024-01-01');
+
+      expect(summary.entriesCount).toBe(7);
+      expect(summary.qualityDistribution.good).toBe(7);
+      expect(repo.findByUserAndDateRange).toHaveBeenCalledWith('user1', '2024-01-01', '2024-01-07');
+    });
+  });
+
   describe('createSleepDiaryService()', () => {
     it('should create service with factory function', () => {
       const s = createSleepDiaryService();
@@ -394,6 +585,9 @@ describe('SleepDiaryService', () => {
       expect(DEFAULT_DIARY_CONFIG.sleepEfficiencyTarget).toBe(85);
       expect(DEFAULT_DIARY_CONFIG.optimalSleepHoursMin).toBe(7);
       expect(DEFAULT_DIARY_CONFIG.optimalSleepHoursMax).toBe(9);
+      expect(DEFAULT_DIARY_CONFIG.maxCachedUsers).toBe(500);
+      expect(DEFAULT_DIARY_CONFIG.historyDays).toBe(90);
+      expect(DEFAULT_DIARY_CONFIG.caffeineCutoffMinutes).toBe(360);
     });
   });
 });
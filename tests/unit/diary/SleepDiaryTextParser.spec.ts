@@ -0,0 +1,92 @@
+/**
+ * SleepDiaryTextParser Unit Tests
+ * ===============================
+ * Free-text and transcript sleep diary entries.
+ */
+
+import { SleepDiaryTextParser } from '../../../src/diary/SleepDiaryTextParser';
+
+describe('SleepDiaryTextParser', () => {
+  let parser: SleepDiaryTextParser;
+
+  beforeEach(() => {
+    parser = new SleepDiaryTextParser();
+  });
+
+  describe('parse()', () => {
+    it('should map a described night onto diary fields', () => {
+      const result = parser.parse('лёг в полночь, уснул через час, проснулся в 4 и больше не спал');
+
+      expect(result.isComplete).toBe(true);
+      expect(result.entry).toEqual({
+        bedtime: '00:00',
+        sleepOnsetLatency: 60,
+        finalAwakening: '04:00',
+        outOfBedTime: '04:00',
+      });
+      expect(result.fields).toEqual(['bedtime', 'sleepOnsetLatency', 'finalAwakening', 'outOfBedTime']);
+    });
+
+    it('should parse English transcripts with substances', () => {
+      const result = parser.parse('Went to bed at 23:15, woke up twice, got up at 7. Two glasses of wine, took melatonin');
+
+      expect(result.entry).toMatchObject({
+        bedtime: '23:15',
+        numberOfAwakenings: 2,
+        finalAwakening: '07:00',
+        alcoholDrinks: 2,
+        sleepMedications: [{ type: 'melatonin', dose: 1, unit: 'tablet' }],
+      });
+    });
+
+    it('should not be complete without a wake time', () => {
+      const result = parser.parse('легла в 23:30 и долго не могла уснуть');
+
+      expect(result.isComplete).toBe(false);
+      expect(result.entry.bedtime).toBe('23:30');
+    });
+  });
+
+  describe('toEntry()', () => {
+    it('should fill the required diary fields', () => {
+      const { entry } = parser.parse('лёг в полночь, уснул через час, проснулся в 4 и больше не спал');
+
+      expect(parser.toEntry(entry, 'user-1', '2025-03-01', 2)).toEqual({
+        userId: 'user-1',
+        date: '2025-03-01',
+        bedtime: '00:00',
+        lightsOffTime: '00:00',
+        sleepOnsetLatency: 60,
+        numberOfAwakenings: 1,
+        wakeAfterSleepOnset: 24,
+        finalAwakening: '04:00',
+        outOfBedTime: '04:00',
+        subjectiveQuality: 'poor',
+        morningAlertness: 2,
+      });
+    });
+
+    it('should keep the reported time awake after a return to sleep', () => {
+      const { entry } = parser.parse('лёг в 23, проснулся в 3, снова уснул в 3:30, встал в 7');
+
+      expect(parser.toEntry(entry, 'user-1', '2025-03-01', 3)).toMatchObject({
+        numberOfAwakenings: 1,
+        wakeAfterSleepOnset: 30,
+        finalAwakening: '07:00',
+        outOfBedTime: '07:00',
+      });
+    });
+
+    it('should keep reported awakenings and reject incomplete entries', () => {
+      const { entry } = parser.parse('легла в 22:30, не просыпалась, встала в 6:30');
+
+      expect(parser.toEntry(entry, 'user-1', '2025-03-01', 5)).toMatchObject({
+        numberOfAwakenings: 0,
+        wakeAfterSleepOnset: 0,
+        sleepOnsetLatency: 15,
+        subjectiveQuality: 'excellent',
+      });
+      expect(() => parser.toEntry({ bedtime: '23:00' }, 'user-1', '2025-03-01', 3)).toThrow('required');
+    });
+  });
+});